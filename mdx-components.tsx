@@ -1,30 +1,18 @@
 import React from 'react';
 import Image, { type ImageProps } from 'next/image';
 import type { MDXComponents } from 'mdx/types';
+import { slugifyHeading } from '@/lib/content/table-of-contents';
 import { getBlurPlaceholder } from '@/lib/image';
+import { createHeadingComponents } from '@/components/mdx/heading-anchor';
 
 // This file allows you to provide custom React components
 // to be used in MDX files. You can import and use any
 // React component you want, including inline styles,
 // components from other libraries, and more.
 
-const headingComponents = {
-  h1: ({ children }: { children: React.ReactNode }) => (
-    <h1 className='mb-6 text-4xl font-bold text-gray-900 dark:text-gray-100'>
-      {children}
-    </h1>
-  ),
-  h2: ({ children }: { children: React.ReactNode }) => (
-    <h2 className='mb-4 text-3xl font-semibold text-gray-800 dark:text-gray-200'>
-      {children}
-    </h2>
-  ),
-  h3: ({ children }: { children: React.ReactNode }) => (
-    <h3 className='mb-3 text-2xl font-medium text-gray-700 dark:text-gray-300'>
-      {children}
-    </h3>
-  ),
-};
+// Headings get anchor ids; MDXContent swaps in a per-document slugger so
+// repeated headings are numbered like the manifest table of contents.
+const headingComponents = createHeadingComponents(slugifyHeading);
 
 const textComponents = {
   p: ({ children }: { children: React.ReactNode }) => (
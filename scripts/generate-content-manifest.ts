@@ -5,12 +5,25 @@
  * 1. reports/content-manifest.json - Content metadata for runtime queries
  * 2. src/lib/mdx-importers.generated.ts - Static import map for RSC rendering
  * 3. src/lib/content-manifest.generated.ts - TypeScript manifest (no runtime fs)
+ * 4. src/lib/content-search-index.generated.ts - Per-locale site search index
+ *
+ * Entries of types with `enableToc` carry their table of contents, unless the
+ * file opts out with `showToc: false`.
  *
  * Usage: pnpm content:manifest
  */
 
 import fs from 'fs';
 import path from 'path';
+import matter from 'gray-matter';
+import yaml from 'js-yaml';
+import { extractTableOfContents } from '../src/lib/content/table-of-contents';
+import {
+  buildSearchDocument,
+  sortSearchDocuments,
+} from '../src/lib/search/index-builder';
+import type { SearchDocument, SearchIndex } from '../src/lib/search/types';
+import type { TocEntry } from '../src/types/content.types';
 
 const CONTENT_DIR = path.join(process.cwd(), 'content');
 const MANIFEST_OUTPUT = path.join(
@@ -31,6 +44,19 @@ const MANIFEST_TS_OUTPUT = path.join(
   'content-manifest.generated.ts',
 );
 
+const SEARCH_INDEX_TS_OUTPUT = path.join(
+  process.cwd(),
+  'src',
+  'lib',
+  'content-search-index.generated.ts',
+);
+const CONTENT_CONFIG_PATH = path.join(CONTENT_DIR, 'config', 'content.json');
+
+// gray-matter's default YAML engine calls safeLoad, removed in js-yaml 4
+const MATTER_OPTIONS = {
+  engines: { yaml: (source: string) => yaml.load(source) as object },
+};
+
 const CONTENT_TYPES = ['posts', 'pages', 'products'] as const;
 const LOCALES = ['en', 'zh'] as const;
 const VALID_EXTENSIONS = ['.mdx', '.md'];
@@ -45,6 +71,7 @@ interface ContentEntry {
   extension: string;
   filePath: string;
   relativePath: string;
+  toc: TocEntry[];
 }
 
 interface ContentManifest {
@@ -52,9 +79,40 @@ interface ContentManifest {
   byKey: Record<string, ContentEntry>;
 }
 
+interface ContentConfigFile {
+  enableSearch?: boolean;
+  enableDrafts?: boolean;
+  content?: Partial<Record<ContentType, { enableToc?: boolean }>>;
+}
+
+function readContentConfig(): ContentConfigFile {
+  return fs.existsSync(CONTENT_CONFIG_PATH)
+    ? (JSON.parse(
+        fs.readFileSync(CONTENT_CONFIG_PATH, 'utf-8'),
+      ) as ContentConfigFile)
+    : {};
+}
+
+function getTocContentTypes(): Set<ContentType> {
+  const { content = {} } = readContentConfig();
+  return new Set(
+    CONTENT_TYPES.filter((type) => content[type]?.enableToc === true),
+  );
+}
+
+function readTableOfContents(relativePath: string): TocEntry[] {
+  const source = fs.readFileSync(
+    path.join(process.cwd(), relativePath),
+    'utf-8',
+  );
+  const { data, content } = matter(source, MATTER_OPTIONS);
+  return data.showToc === false ? [] : extractTableOfContents(content);
+}
+
 function scanDirectory(
   contentType: ContentType,
   locale: Locale,
+  tocEnabled: boolean,
 ): ContentEntry[] {
   const dirPath = path.join(CONTENT_DIR, contentType, locale);
   const entries: ContentEntry[] = [];
@@ -86,6 +144,7 @@ function scanDirectory(
       extension: ext,
       filePath: stableFilePath,
       relativePath,
+      toc: tocEnabled ? readTableOfContents(relativePath) : [],
     });
   }
 
@@ -102,10 +161,15 @@ function buildManifestKey(
 
 function generateManifest(): ContentManifest {
   const entries: ContentEntry[] = [];
+  const tocTypes = getTocContentTypes();
 
   for (const contentType of CONTENT_TYPES) {
     for (const locale of LOCALES) {
-      const typeEntries = scanDirectory(contentType, locale);
+      const typeEntries = scanDirectory(
+        contentType,
+        locale,
+        tocTypes.has(contentType),
+      );
       entries.push(...typeEntries);
     }
   }
@@ -157,9 +221,10 @@ function generateImportersCode(entries: ContentEntry[]): string {
     ' */',
     '',
     "import type { ComponentType } from 'react';",
+    "import type { MDXProps } from 'mdx/types';",
     '',
     'export interface MDXContentModule {',
-    '  default: ComponentType;',
+    '  default: ComponentType<MDXProps>;',
     '  frontmatter?: Record<string, unknown>;',
     '}',
     '',
@@ -201,8 +266,11 @@ function generateImportersCode(entries: ContentEntry[]): string {
 }
 
 function generateManifestTsCode(manifest: ContentManifest): string {
-  const entriesJson = JSON.stringify(manifest.entries, null, 2);
-  const byKeyJson = JSON.stringify(manifest.byKey, null, 2);
+  // One entry per line, like the search index; byKey is rebuilt from the
+  // entries when the module loads, so every table of contents is written once
+  const entryLines = manifest.entries
+    .map((entry) => `  ${JSON.stringify(entry)},`)
+    .join('\n');
 
   return `/**
  * AUTO-GENERATED FILE - DO NOT EDIT
@@ -213,7 +281,7 @@ function generateManifestTsCode(manifest: ContentManifest): string {
  * No runtime fs dependency - works in dev and production builds.
  */
 
-import type { ContentType, Locale } from '@/types/content.types';
+import type { ContentType, Locale, TocEntry } from '@/types/content.types';
 
 export interface ContentEntry {
   type: ContentType;
@@ -222,6 +290,8 @@ export interface ContentEntry {
   extension: string;
   filePath: string;
   relativePath: string;
+  /** Headings for the table of contents; empty when disabled */
+  toc: TocEntry[];
 }
 
 export interface ContentManifest {
@@ -229,10 +299,89 @@ export interface ContentManifest {
   byKey: Record<string, ContentEntry>;
 }
 
+const entries: ContentEntry[] = [
+${entryLines}
+];
+
 export const CONTENT_MANIFEST: ContentManifest = {
-  entries: ${entriesJson},
-  byKey: ${byKeyJson},
-} as const;
+  entries,
+  byKey: Object.fromEntries(
+    entries.map((entry) => [
+      \`\${entry.type}/\${entry.locale}/\${entry.slug}\`,
+      entry,
+    ]),
+  ),
+};
+`;
+}
+
+function readSearchConfig(): { enableSearch: boolean; enableDrafts: boolean } {
+  const config = readContentConfig();
+  return {
+    enableSearch: config.enableSearch !== false,
+    enableDrafts: config.enableDrafts === true,
+  };
+}
+
+function generateSearchIndex(entries: ContentEntry[]): SearchIndex {
+  const { enableSearch, enableDrafts } = readSearchConfig();
+  const locales: Record<Locale, SearchDocument[]> = { en: [], zh: [] };
+  if (!enableSearch) {
+    return { enabled: false, locales };
+  }
+
+  for (const entry of entries) {
+    const source = fs.readFileSync(
+      path.join(process.cwd(), entry.relativePath),
+      'utf-8',
+    );
+    const { data, content } = matter(source, MATTER_OPTIONS);
+    const document = buildSearchDocument(
+      {
+        type: entry.type,
+        locale: entry.locale,
+        slug: entry.slug,
+        filePath: entry.filePath,
+        frontmatter: data,
+        body: content,
+      },
+      enableDrafts,
+    );
+    if (document) locales[entry.locale].push(document);
+  }
+
+  for (const locale of LOCALES) {
+    locales[locale] = sortSearchDocuments(locales[locale]);
+  }
+  return { enabled: true, locales };
+}
+
+function generateSearchIndexTsCode(index: SearchIndex): string {
+  // One document per line keeps the file compact and diffs readable
+  const localeBlocks = LOCALES.map((locale) => {
+    const documents = index.locales[locale]
+      .map((document) => `      ${JSON.stringify(document)},`)
+      .join('\n');
+    return `    ${locale}: [\n${documents}\n    ],`;
+  }).join('\n');
+
+  return `/**
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ *
+ * Generated by: pnpm content:manifest
+ *
+ * Per-locale site search index: plain text and tokenized fields of every
+ * published post, page and product.
+ */
+
+import type { SearchIndex } from '@/lib/search/types';
+
+export const CONTENT_SEARCH_INDEX: SearchIndex = {
+  enabled: ${index.enabled},
+  locales: {
+${localeBlocks}
+  },
+};
 `;
 }
 
@@ -255,10 +404,23 @@ function main(): void {
   const manifestTsCode = generateManifestTsCode(manifest);
   fs.writeFileSync(MANIFEST_TS_OUTPUT, manifestTsCode);
 
+  // Output 4: Site search index
+  const searchIndex = generateSearchIndex(manifest.entries);
+  ensureOutputDir(SEARCH_INDEX_TS_OUTPUT);
+  fs.writeFileSync(
+    SEARCH_INDEX_TS_OUTPUT,
+    generateSearchIndexTsCode(searchIndex),
+  );
+
   console.log(`Generated manifest with ${manifest.entries.length} entries`);
   console.log(`Output 1: ${MANIFEST_OUTPUT}`);
   console.log(`Output 2: ${IMPORTERS_OUTPUT}`);
   console.log(`Output 3: ${MANIFEST_TS_OUTPUT}`);
+  console.log(
+    searchIndex.enabled
+      ? `Output 4: ${SEARCH_INDEX_TS_OUTPUT}`
+      : `Output 4: ${SEARCH_INDEX_TS_OUTPUT} (search disabled, empty index)`,
+  );
 
   // Summary by type
   const summary: Record<string, number> = {};
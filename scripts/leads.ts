@@ -0,0 +1,178 @@
+#!/usr/bin/env tsx
+/**
+ * Lead Export and Replay CLI
+ *
+ * Reads leads from the lead outbox (the same store the app uses, selected by
+ * LEAD_OUTBOX_STORE / UPSTASH_* / KV_* / LEAD_OUTBOX_FILE_PATH), exports them
+ * to CSV or JSON, and replays selected leads through processLead into
+ * specific sinks.
+ *
+ * Usage:
+ *   pnpm leads:export --from <date> [--to <date>] [filters]
+ *                     [--format csv|json] [--redact | --redact-fields a,b]
+ *                     [--out <file>]
+ *   pnpm leads:replay --from <date> [--to <date>] [filters]
+ *                     --sink <id> [--sink <id>] [--dry-run]
+ *
+ * Filters:
+ *   --type <contact|product|newsletter>          (repeatable)
+ *   --status <pending|completed|dead_lettered>   (repeatable)
+ *   --undelivered <sink>   only leads whose delivery to this sink failed
+ *   --id <referenceId>     (repeatable)
+ *
+ * Dates are ISO 8601; a date-only --to includes the whole day (UTC).
+ * Sink IDs: the built-in LEAD_SINK_IDS (a replay without --sink lists them),
+ * plus any custom sinks registered at startup.
+ *
+ * Examples:
+ *   pnpm leads:export --from 2026-03-02 --to 2026-03-02 --undelivered crm --redact
+ *   pnpm leads:replay --from 2026-03-02 --undelivered crm --sink crm --dry-run
+ *
+ * The environment (service credentials, outbox store) must be loaded in the
+ * shell, e.g. `set -a && source .env.local && set +a`.
+ */
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import {
+  findOutboxLeads,
+  formatLeadExport,
+  LEAD_EXPORT_FORMATS,
+  LEAD_PII_FIELDS,
+  replayOutboxLeads,
+  toLeadExportRecord,
+  type LeadExportFilter,
+  type LeadExportFormat,
+  type LeadPiiField,
+} from '../src/lib/lead-pipeline/lead-export';
+import type { LeadType } from '../src/lib/lead-pipeline/lead-schema';
+import type { OutboxEntryStatus } from '../src/lib/lead-pipeline/outbox/types';
+import { LEAD_SINK_IDS } from '../src/lib/lead-pipeline/sinks/types';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const END_OF_DAY_MS = 24 * 60 * 60 * 1000 - 1;
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'from': { type: 'string' },
+    'to': { type: 'string' },
+    'type': { type: 'string', multiple: true },
+    'status': { type: 'string', multiple: true },
+    'undelivered': { type: 'string' },
+    'id': { type: 'string', multiple: true },
+    'format': { type: 'string', default: LEAD_EXPORT_FORMATS.CSV },
+    'redact': { type: 'boolean', default: false },
+    'redact-fields': { type: 'string' },
+    'out': { type: 'string' },
+    'sink': { type: 'string', multiple: true },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function parseDate(value: string, endOfDay: boolean): number {
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) fail(`Invalid date: ${value}`);
+  return endOfDay && DATE_ONLY_PATTERN.test(value)
+    ? parsed + END_OF_DAY_MS
+    : parsed;
+}
+
+function buildFilter(): LeadExportFilter {
+  if (!values.from) fail('--from is required');
+  return {
+    from: parseDate(values.from, false),
+    to: values.to ? parseDate(values.to, true) : Date.now(),
+    leadTypes: values.type as LeadType[] | undefined,
+    statuses: values.status as OutboxEntryStatus[] | undefined,
+    undeliveredTo: values.undelivered,
+    ids: values.id,
+  };
+}
+
+function parseRedactFields(): LeadPiiField[] {
+  if (values.redact) return [...LEAD_PII_FIELDS];
+  if (!values['redact-fields']) return [];
+
+  const fields = values['redact-fields'].split(',').map((f) => f.trim());
+  const unknown = fields.filter(
+    (field) => !(LEAD_PII_FIELDS as readonly string[]).includes(field),
+  );
+  if (unknown.length > 0) {
+    fail(
+      `Unknown redact fields: ${unknown.join(', ')} (valid: ${LEAD_PII_FIELDS.join(', ')})`,
+    );
+  }
+  return fields as LeadPiiField[];
+}
+
+async function runExport(filter: LeadExportFilter): Promise<void> {
+  const format = values.format as LeadExportFormat;
+  if (!Object.values(LEAD_EXPORT_FORMATS).includes(format)) {
+    fail(`Unknown format: ${format}`);
+  }
+  const redact = parseRedactFields();
+  const entries = await findOutboxLeads(filter);
+  const output = formatLeadExport(
+    entries.map((entry) => toLeadExportRecord(entry, redact)),
+    format,
+  );
+
+  if (values.out) {
+    await writeFile(values.out, output, 'utf8');
+    console.error(`✅ Exported ${entries.length} leads to ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+async function runReplay(filter: LeadExportFilter): Promise<void> {
+  if (!values.sink || values.sink.length === 0) {
+    fail(
+      `--sink is required for replay (built-in sinks: ${Object.values(LEAD_SINK_IDS).join(', ')})`,
+    );
+  }
+  const dryRun = values['dry-run'];
+  const entries = await findOutboxLeads(filter);
+  const results = await replayOutboxLeads(entries, {
+    sinks: values.sink,
+    dryRun,
+  });
+
+  for (const { referenceId, targets, skipped, result } of results) {
+    if (skipped) {
+      console.log(`⏭️  ${referenceId}: skipped (${skipped})`);
+    } else if (!result) {
+      console.log(`🔍 ${referenceId}: would deliver to ${targets.join(', ')}`);
+    } else {
+      const icon = result.success ? '✅' : '❌';
+      console.log(
+        `${icon} ${referenceId}: ${targets.join(', ')} → ${result.referenceId ?? result.error}`,
+      );
+    }
+  }
+
+  const failed = results.filter((item) => item.result?.success === false);
+  console.log(
+    `\n${dryRun ? 'Dry run: ' : ''}${results.length} leads, ${failed.length} failed`,
+  );
+  if (failed.length > 0) process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const [command] = positionals;
+  const filter = buildFilter();
+
+  if (command === 'export') return runExport(filter);
+  if (command === 'replay') return runReplay(filter);
+  fail('Usage: tsx scripts/leads.ts <export|replay> --from <date> [options]');
+}
+
+main().catch((error: unknown) => {
+  console.error('Lead CLI failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+/**
+ * WhatsApp Template Registry Sync
+ *
+ * Regenerates src/lib/whatsapp-templates.generated.ts from a Meta template
+ * export, i.e. the JSON returned by
+ *   GET https://graph.facebook.com/v21.0/<WABA_ID>/message_templates?limit=250
+ *
+ * Only approved templates are written; skipped entries are listed.
+ *
+ * Usage:
+ *   pnpm whatsapp:templates:sync <meta-template-export.json> [--check]
+ *
+ * --check exits with 1 when the registry is out of date instead of writing.
+ */
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { parseMetaTemplateExport } from '../src/lib/whatsapp/template-registry';
+import type { TemplateDefinition } from '../src/types/whatsapp-template-types';
+
+const REGISTRY_OUTPUT = path.join(
+  process.cwd(),
+  'src',
+  'lib',
+  'whatsapp-templates.generated.ts',
+);
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    check: { type: 'boolean', default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function generateRegistryCode(templates: TemplateDefinition[]): string {
+  return `/**
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ *
+ * Generated by: pnpm whatsapp:templates:sync <meta-template-export.json>
+ *
+ * Approved WhatsApp message templates. Template sends through
+ * /api/whatsapp/send are validated against this registry.
+ */
+
+import type { TemplateDefinition } from '@/types/whatsapp-template-types';
+
+export const WHATSAPP_TEMPLATE_REGISTRY: TemplateDefinition[] = ${JSON.stringify(templates, null, 2)};
+`;
+}
+
+function main(): void {
+  const [exportFile] = positionals;
+  if (!exportFile) {
+    fail(
+      'Usage: tsx scripts/sync-whatsapp-templates.ts <meta-template-export.json> [--check]',
+    );
+  }
+
+  const { templates, skipped } = parseMetaTemplateExport(
+    JSON.parse(fs.readFileSync(exportFile, 'utf8')),
+  );
+  for (const entry of skipped) {
+    console.log(`⏭️  ${entry}`);
+  }
+
+  const code = generateRegistryCode(templates);
+  if (values.check) {
+    const current = fs.existsSync(REGISTRY_OUTPUT)
+      ? fs.readFileSync(REGISTRY_OUTPUT, 'utf8')
+      : '';
+    if (current !== code) {
+      fail(
+        'Template registry is out of date; run pnpm whatsapp:templates:sync',
+      );
+    }
+    console.log(`✅ Template registry is up to date (${templates.length})`);
+    return;
+  }
+
+  fs.writeFileSync(REGISTRY_OUTPUT, code);
+  console.log(`✅ Synced ${templates.length} templates to ${REGISTRY_OUTPUT}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Template sync failed:', error);
+  process.exit(1);
+}
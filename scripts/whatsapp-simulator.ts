@@ -0,0 +1,55 @@
+#!/usr/bin/env tsx
+/**
+ * WhatsApp Cloud API Simulator (standalone)
+ *
+ * Starts the local Graph API stand-in for end-to-end runs, e.g. as a
+ * second Playwright web server. Start the app with
+ *   WHATSAPP_GRAPH_API_URL=http://127.0.0.1:<port>
+ * and the same access token, phone number ID and app secret.
+ *
+ * Usage:
+ *   pnpm whatsapp:simulator
+ *
+ * Environment:
+ *   WHATSAPP_SIMULATOR_PORT         default 4010
+ *   WHATSAPP_SIMULATOR_WEBHOOK_URL  default http://localhost:3000/api/whatsapp/webhook
+ *   WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_APP_SECRET
+ *
+ * @see src/test/whatsapp-cloud-api-simulator.ts
+ */
+import { WhatsAppCloudApiSimulator } from '../src/test/whatsapp-cloud-api-simulator';
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_WEBHOOK_URL = 'http://localhost:3000/api/whatsapp/webhook';
+
+function optional<T extends string>(key: T, value: string | undefined) {
+  return value ? { [key]: value } : {};
+}
+
+async function main(): Promise<void> {
+  const simulator = new WhatsAppCloudApiSimulator({
+    port: Number(process.env.WHATSAPP_SIMULATOR_PORT) || DEFAULT_PORT,
+    webhookUrl:
+      process.env.WHATSAPP_SIMULATOR_WEBHOOK_URL || DEFAULT_WEBHOOK_URL,
+    ...optional('accessToken', process.env.WHATSAPP_ACCESS_TOKEN),
+    ...optional('phoneNumberId', process.env.WHATSAPP_PHONE_NUMBER_ID),
+    ...optional('appSecret', process.env.WHATSAPP_APP_SECRET),
+  });
+
+  const url = await simulator.start();
+  console.log(`✅ WhatsApp Cloud API simulator listening on ${url}`);
+  console.log(`   WHATSAPP_GRAPH_API_URL=${url}`);
+  console.log(`   WHATSAPP_ACCESS_TOKEN=${simulator.accessToken}`);
+  console.log(`   WHATSAPP_PHONE_NUMBER_ID=${simulator.phoneNumberId}`);
+
+  const shutdown = () => {
+    simulator.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Failed to start the WhatsApp simulator', error);
+  process.exit(1);
+});
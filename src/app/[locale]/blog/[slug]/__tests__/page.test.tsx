@@ -181,6 +181,7 @@ vi.mock('@/lib/content-query', () => ({
 // Mock content-manifest to prevent real static params generation
 vi.mock('@/lib/content-manifest', () => ({
   getStaticParamsForType: mockGetStaticParamsForType,
+  getTableOfContents: vi.fn(() => []),
 }));
 
 vi.mock('@/lib/content/blog', () => ({
@@ -238,6 +239,7 @@ vi.mock('@/components/mdx', () => ({
       <p>Test content</p>
     </div>
   ),
+  TableOfContents: () => null,
 }));
 
 describe('BlogDetailPage', () => {
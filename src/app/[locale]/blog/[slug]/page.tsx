@@ -5,15 +5,23 @@ import { notFound } from 'next/navigation';
 import { ArrowLeft, Calendar, Clock, Tag, User } from 'lucide-react';
 import { getTranslations, setRequestLocale } from 'next-intl/server';
 import type { Locale, PostDetail } from '@/types/content.types';
-import { getStaticParamsForType } from '@/lib/content-manifest';
+import {
+  getStaticParamsForType,
+  getTableOfContents,
+} from '@/lib/content-manifest';
 import { getPostBySlugCached } from '@/lib/content/blog';
+import {
+  getBlogArchivePath,
+  slugifyTaxonomyTerm,
+  type BlogArchiveKind,
+} from '@/lib/content/blog-taxonomy';
 import {
   generateMetadataForPath,
   type Locale as SeoLocale,
 } from '@/lib/seo-metadata';
 import { generateLocalizedStructuredData } from '@/lib/structured-data';
 import type { ArticleData } from '@/lib/structured-data-types';
-import { MDXContent } from '@/components/mdx';
+import { MDXContent, TableOfContents } from '@/components/mdx';
 import { JsonLdScript } from '@/components/seo';
 import { Badge } from '@/components/ui/badge';
 import { SITE_CONFIG } from '@/config/paths';
@@ -173,11 +181,20 @@ function ArticleMeta({
 }
 
 interface ArticleTagsProps {
+  locale: string;
   tags: string[] | undefined;
   categories: string[] | undefined;
 }
 
-function ArticleTags({ tags, categories }: ArticleTagsProps) {
+function getArchiveHref(
+  locale: string,
+  kind: BlogArchiveKind,
+  term: string,
+): string {
+  return `/${locale}${getBlogArchivePath(kind, slugifyTaxonomyTerm(term))}`;
+}
+
+function ArticleTags({ locale, tags, categories }: ArticleTagsProps) {
   const hasTags = tags !== undefined && tags.length > 0;
   const hasCategories = categories !== undefined && categories.length > 0;
 
@@ -189,22 +206,26 @@ function ArticleTags({ tags, categories }: ArticleTagsProps) {
     <div className='flex flex-wrap gap-2'>
       {hasCategories &&
         categories.map((category) => (
-          <Badge
+          <Link
             key={category}
-            variant='secondary'
+            href={getArchiveHref(locale, 'category', category)}
+            className='rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
           >
-            {category}
-          </Badge>
+            <Badge variant='secondary'>{category}</Badge>
+          </Link>
         ))}
       {hasTags &&
         tags.map((tag) => (
-          <Badge
+          <Link
             key={tag}
-            variant='outline'
+            href={getArchiveHref(locale, 'tag', tag)}
+            className='rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
           >
-            <Tag className='mr-1 h-3 w-3' />
-            {tag}
-          </Badge>
+            <Badge variant='outline'>
+              <Tag className='mr-1 h-3 w-3' />
+              {tag}
+            </Badge>
+          </Link>
         ))}
     </div>
   );
@@ -216,10 +237,14 @@ function ArticleExcerpt({ excerpt }: { excerpt: string | undefined }) {
 }
 
 function ArticleFooter({
+  locale,
   tags,
+  author,
   authorLabel,
 }: {
+  locale: string;
   tags: string[] | undefined;
+  author: string | undefined;
   authorLabel: string;
 }) {
   if (!tags || tags.length === 0) return null;
@@ -230,9 +255,18 @@ function ArticleFooter({
         <User className='h-4 w-4 text-muted-foreground' />
         <span className='text-sm text-muted-foreground'>
           {authorLabel}{' '}
-          <span className='font-medium text-foreground'>
-            {SITE_CONFIG.name}
-          </span>
+          {author !== undefined ? (
+            <Link
+              href={getArchiveHref(locale, 'author', author)}
+              className='font-medium text-foreground hover:underline'
+            >
+              {author}
+            </Link>
+          ) : (
+            <span className='font-medium text-foreground'>
+              {SITE_CONFIG.name}
+            </span>
+          )}
         </span>
       </div>
     </footer>
@@ -255,6 +289,7 @@ async function BlogDetailContent({
     notFound(),
   );
   const articleSchema = await buildArticleSchema(localeTyped, slug, post);
+  const tocEntries = getTableOfContents('posts', localeTyped, slug);
 
   return (
     <main className='container mx-auto px-4 py-8 md:py-12'>
@@ -269,33 +304,46 @@ async function BlogDetailContent({
         </Link>
       </nav>
 
-      <article className='mx-auto max-w-3xl'>
-        <header className='mb-8 space-y-4'>
-          <ArticleTags
+      <div className='mx-auto grid max-w-3xl gap-8 lg:max-w-6xl lg:grid-cols-[minmax(0,1fr)_16rem]'>
+        <article className='mx-auto w-full max-w-3xl'>
+          <header className='mb-8 space-y-4'>
+            <ArticleTags
+              locale={locale}
+              tags={post.tags}
+              categories={post.categories}
+            />
+            <h1 className='text-heading'>{post.title}</h1>
+            <ArticleExcerpt excerpt={post.excerpt} />
+            <ArticleMeta
+              post={post}
+              publishedLabel={t('publishedOn')}
+              readingTimeLabel={t('readingTime')}
+            />
+          </header>
+
+          <MDXContent
+            type='posts'
+            locale={localeTyped}
+            slug={slug}
+            className='prose max-w-none prose-neutral dark:prose-invert'
+          />
+
+          <ArticleFooter
+            locale={locale}
             tags={post.tags}
-            categories={post.categories}
+            author={post.author}
+            authorLabel={t('author')}
           />
-          <h1 className='text-heading'>{post.title}</h1>
-          <ArticleExcerpt excerpt={post.excerpt} />
-          <ArticleMeta
-            post={post}
-            publishedLabel={t('publishedOn')}
-            readingTimeLabel={t('readingTime')}
+        </article>
+
+        <aside>
+          <TableOfContents
+            entries={tocEntries}
+            title={t('tableOfContents')}
+            className='hidden lg:block'
           />
-        </header>
-
-        <MDXContent
-          type='posts'
-          locale={localeTyped}
-          slug={slug}
-          className='prose max-w-none prose-neutral dark:prose-invert'
-        />
-
-        <ArticleFooter
-          tags={post.tags}
-          authorLabel={t('author')}
-        />
-      </article>
+        </aside>
+      </div>
     </main>
   );
 }
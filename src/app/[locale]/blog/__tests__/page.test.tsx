@@ -7,12 +7,12 @@ import BlogPage, { generateMetadata, generateStaticParams } from '../page';
 const {
   mockGetTranslations,
   mockSetRequestLocale,
-  mockGetAllPostsCached,
+  mockGetPostListingPageCached,
   mockSuspenseState,
 } = vi.hoisted(() => ({
   mockGetTranslations: vi.fn(),
   mockSetRequestLocale: vi.fn(),
-  mockGetAllPostsCached: vi.fn(),
+  mockGetPostListingPageCached: vi.fn(),
   mockSuspenseState: {
     locale: 'en',
     translations: {} as Record<string, string>,
@@ -20,6 +20,16 @@ const {
   },
 }));
 
+function createListing<T>(items: T[]) {
+  return {
+    items,
+    currentPage: 1,
+    totalPages: 1,
+    totalItems: items.length,
+    offset: 0,
+  };
+}
+
 // Mock Suspense to render mock content (async Server Components can't be rendered in Vitest)
 vi.mock('react', async () => {
   const actual = await vi.importActual<typeof React>('react');
@@ -76,7 +86,7 @@ vi.mock('@/app/[locale]/generate-static-params', () => ({
 }));
 
 vi.mock('@/lib/content/blog', () => ({
-  getAllPostsCached: mockGetAllPostsCached,
+  getPostListingPageCached: mockGetPostListingPageCached,
 }));
 
 // Mock PostGrid component
@@ -152,7 +162,7 @@ describe('BlogPage', () => {
       (key: string) =>
         mockTranslations[key as keyof typeof mockTranslations] || key,
     );
-    mockGetAllPostsCached.mockResolvedValue(mockPosts);
+    mockGetPostListingPageCached.mockResolvedValue(createListing(mockPosts));
   });
 
   describe('generateStaticParams', () => {
@@ -184,6 +194,26 @@ describe('BlogPage', () => {
       });
     });
 
+    it('should link the next page when the listing has more pages', async () => {
+      mockGetPostListingPageCached.mockResolvedValue({
+        ...createListing(mockPosts),
+        totalPages: 3,
+      });
+
+      const metadata = await generateMetadata({
+        params: Promise.resolve(mockParams),
+      });
+
+      expect(mockGetPostListingPageCached).toHaveBeenCalledWith('en', 1);
+      expect(metadata.alternates?.canonical).toBe(
+        'https://example.com/en/blog',
+      );
+      expect(metadata.pagination).toEqual({
+        previous: null,
+        next: 'https://example.com/en/blog/page/2',
+      });
+    });
+
     it('should handle different locales', async () => {
       await generateMetadata({ params: Promise.resolve({ locale: 'zh' }) });
 
@@ -265,7 +295,7 @@ describe('BlogPage', () => {
       expect(postGrid).toHaveAttribute('data-reading-time-label', 'min read');
     });
 
-    it('should render posts from getAllPostsCached', async () => {
+    it('should render posts from getPostListingPageCached', async () => {
       const BlogPageComponent = await BlogPage({
         params: Promise.resolve(mockParams),
       });
@@ -280,7 +310,7 @@ describe('BlogPage', () => {
 
     it('should render empty state when no posts', async () => {
       mockSuspenseState.posts = [];
-      mockGetAllPostsCached.mockResolvedValue([]);
+      mockGetPostListingPageCached.mockResolvedValue(createListing([]));
 
       const BlogPageComponent = await BlogPage({
         params: Promise.resolve(mockParams),
@@ -307,9 +337,9 @@ describe('BlogPage', () => {
       );
     });
 
-    it('should call getAllPostsCached with correct options', async () => {
+    it('should call getPostListingPageCached for the first page', async () => {
       // Note: With Suspense mock, we verify the page renders correctly
-      // The actual getAllPostsCached call happens inside BlogContent which is mocked
+      // The actual getPostListingPageCached call happens inside BlogContent which is mocked
       const BlogPageComponent = await BlogPage({
         params: Promise.resolve(mockParams),
       });
@@ -368,7 +398,7 @@ describe('BlogPage', () => {
       it('should handle post fetch errors gracefully', async () => {
         // Note: With Suspense mock, errors in BlogContent are caught by Suspense
         // The page still renders with fallback content
-        mockGetAllPostsCached.mockRejectedValue(
+        mockGetPostListingPageCached.mockRejectedValue(
           new Error('Failed to fetch posts'),
         );
 
@@ -0,0 +1,30 @@
+import type { Metadata } from 'next';
+import {
+  BlogArchiveRoute,
+  generateArchiveMetadata,
+  generateArchiveStaticParams,
+  type BlogArchiveRouteParams,
+} from '@/app/[locale]/blog/blog-archive';
+
+interface AuthorArchivePageProps {
+  params: Promise<BlogArchiveRouteParams>;
+}
+
+export function generateStaticParams() {
+  return generateArchiveStaticParams('author');
+}
+
+export function generateMetadata({
+  params,
+}: AuthorArchivePageProps): Promise<Metadata> {
+  return generateArchiveMetadata('author', params);
+}
+
+export default function AuthorArchivePage({ params }: AuthorArchivePageProps) {
+  return (
+    <BlogArchiveRoute
+      kind='author'
+      params={params}
+    />
+  );
+}
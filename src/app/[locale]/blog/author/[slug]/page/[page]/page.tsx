@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import {
+  BlogArchiveRoute,
+  generateArchiveMetadata,
+  generatePagedArchiveStaticParams,
+  type BlogArchiveRouteParams,
+} from '@/app/[locale]/blog/blog-archive';
+
+interface AuthorArchivePagedPageProps {
+  params: Promise<Required<BlogArchiveRouteParams>>;
+}
+
+export function generateStaticParams() {
+  return generatePagedArchiveStaticParams('author');
+}
+
+export function generateMetadata({
+  params,
+}: AuthorArchivePagedPageProps): Promise<Metadata> {
+  return generateArchiveMetadata('author', params);
+}
+
+export default function AuthorArchivePagedPage({
+  params,
+}: AuthorArchivePagedPageProps) {
+  return (
+    <BlogArchiveRoute
+      kind='author'
+      params={params}
+    />
+  );
+}
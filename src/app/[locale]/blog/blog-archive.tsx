@@ -0,0 +1,331 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Locale } from '@/types/content.types';
+import { getContentConfig } from '@/lib/content-utils';
+import {
+  getBlogArchivePageCached,
+  getBlogArchivePath,
+  getBlogTaxonomyCached,
+  type BlogArchiveKind,
+  type BlogArchivePage,
+} from '@/lib/content/blog-taxonomy';
+import {
+  FIRST_PAGE,
+  getPageStaticParams,
+  getTotalPages,
+} from '@/lib/pagination';
+import {
+  generateMetadataForPath,
+  type Locale as SeoLocale,
+} from '@/lib/seo-metadata';
+import { generateLocalizedStructuredData } from '@/lib/structured-data';
+import { PostGrid, PostGridSkeleton, TaxonomyCloud } from '@/components/blog';
+import { JsonLdScript } from '@/components/seo';
+import { Pagination } from '@/components/ui/pagination';
+import {
+  getPagedTitle,
+  getPaginationLabels,
+  resolvePageParam,
+} from '@/app/[locale]/pagination';
+import { SITE_CONFIG } from '@/config/paths';
+import { routing } from '@/i18n/routing';
+
+/**
+ * Shared implementation of the blog archive routes:
+ *
+ * - `/blog/{kind}/[slug]` - first page of a tag, category or author archive
+ * - `/blog/{kind}/[slug]/page/[page]` - following pages
+ */
+
+/**
+ * Cache Components rejects an empty `generateStaticParams` result, so routes
+ * without any archive prerender this slug instead. No term slugifies to it,
+ * so it renders the 404 page.
+ */
+const PLACEHOLDER_SLUG = '-';
+
+export interface BlogArchiveRouteParams {
+  locale: string;
+  slug: string;
+  /** Only set on `/page/[page]` routes */
+  page?: string;
+}
+
+interface BlogArchiveRouteProps {
+  kind: BlogArchiveKind;
+  params: Promise<BlogArchiveRouteParams>;
+}
+
+interface ResolvedArchiveParams {
+  locale: Locale;
+  slug: string;
+  page: number;
+}
+
+/**
+ * Normalize route params: decode percent-encoded (e.g. Chinese) slugs and
+ * reject `/page/1` and non-numeric pages, which would duplicate or miss the
+ * first page.
+ */
+function resolveArchiveParams({
+  locale,
+  slug,
+  page,
+}: BlogArchiveRouteParams): ResolvedArchiveParams {
+  let decodedSlug = slug;
+  try {
+    decodedSlug = decodeURIComponent(slug);
+  } catch {
+    // Keep malformed slugs as-is; they simply won't match a term.
+  }
+
+  return {
+    locale: locale as Locale,
+    slug: decodedSlug,
+    page: resolvePageParam(page),
+  };
+}
+
+export async function generateArchiveStaticParams(
+  kind: BlogArchiveKind,
+): Promise<BlogArchiveRouteParams[]> {
+  const params: BlogArchiveRouteParams[] = [];
+
+  for (const locale of routing.locales) {
+    const terms = await getBlogTaxonomyCached(locale, kind);
+    params.push(...terms.map((term) => ({ locale, slug: term.slug })));
+  }
+
+  return params.length > 0
+    ? params
+    : [{ locale: routing.defaultLocale, slug: PLACEHOLDER_SLUG }];
+}
+
+export async function generatePagedArchiveStaticParams(
+  kind: BlogArchiveKind,
+): Promise<BlogArchiveRouteParams[]> {
+  const { postsPerPage } = getContentConfig();
+  const params: BlogArchiveRouteParams[] = [];
+
+  for (const locale of routing.locales) {
+    const terms = await getBlogTaxonomyCached(locale, kind);
+    for (const term of terms) {
+      const totalPages = getTotalPages(term.count, postsPerPage);
+      params.push(
+        ...getPageStaticParams(totalPages).map(({ page }) => ({
+          locale,
+          slug: term.slug,
+          page,
+        })),
+      );
+    }
+  }
+
+  return params.length > 0
+    ? params
+    : [
+        {
+          locale: routing.defaultLocale,
+          slug: PLACEHOLDER_SLUG,
+          page: String(FIRST_PAGE + 1),
+        },
+      ];
+}
+
+/**
+ * Locales that have the same archive page, for hreflang alternates.
+ */
+async function getArchiveLocales(
+  kind: BlogArchiveKind,
+  slug: string,
+  page: number,
+): Promise<Locale[]> {
+  const { postsPerPage } = getContentConfig();
+  const locales: Locale[] = [];
+
+  for (const locale of routing.locales) {
+    const terms = await getBlogTaxonomyCached(locale, kind);
+    const term = terms.find((candidate) => candidate.slug === slug);
+    if (term !== undefined && page <= getTotalPages(term.count, postsPerPage)) {
+      locales.push(locale);
+    }
+  }
+
+  return locales;
+}
+
+async function getArchiveTitles(
+  locale: Locale,
+  kind: BlogArchiveKind,
+  archive: BlogArchivePage,
+) {
+  const t = await getTranslations({ locale, namespace: 'blog' });
+  const heading = t(`archive.${kind}Title`, { name: archive.term.name });
+
+  return {
+    heading,
+    title: await getPagedTitle(locale, heading, archive.currentPage),
+    description: t('archive.postCount', { count: archive.term.count }),
+  };
+}
+
+export async function generateArchiveMetadata(
+  kind: BlogArchiveKind,
+  params: Promise<BlogArchiveRouteParams>,
+): Promise<Metadata> {
+  const { locale, slug, page } = resolveArchiveParams(await params);
+  const archive = await getBlogArchivePageCached(locale, { kind, slug, page });
+
+  if (archive === null) {
+    return { title: 'Archive Not Found' };
+  }
+
+  const { title, description } = await getArchiveTitles(locale, kind, archive);
+
+  return generateMetadataForPath({
+    locale: locale as SeoLocale,
+    pageType: 'blog',
+    path: getBlogArchivePath(kind, slug),
+    locales: await getArchiveLocales(kind, slug, page),
+    pagination: {
+      currentPage: archive.currentPage,
+      totalPages: archive.totalPages,
+    },
+    config: { title, description, type: 'website' },
+  });
+}
+
+function buildCollectionSchema(
+  locale: Locale,
+  archive: BlogArchivePage,
+  text: { title: string; description: string },
+): Promise<Record<string, unknown>> {
+  const { term, currentPage } = archive;
+  const path = getBlogArchivePath(term.kind, term.slug, currentPage);
+
+  return generateLocalizedStructuredData(locale, 'CollectionPage', {
+    name: text.title,
+    description: text.description,
+    url: new URL(`/${locale}${path}`, SITE_CONFIG.baseUrl).toString(),
+    items: archive.posts.map((post, index) => ({
+      name: post.title,
+      url: new URL(
+        `/${locale}/blog/${post.slug}`,
+        SITE_CONFIG.baseUrl,
+      ).toString(),
+      position: archive.offset + index + 1,
+    })),
+  });
+}
+
+function BlogArchiveSkeleton() {
+  return (
+    <div className='container mx-auto px-4 py-8 md:py-12'>
+      <div className='mb-6 h-6 w-24 animate-pulse rounded bg-muted' />
+      <div className='mb-8 md:mb-12'>
+        <div className='mb-4 h-10 w-64 animate-pulse rounded bg-muted' />
+        <div className='h-6 w-32 animate-pulse rounded bg-muted' />
+      </div>
+      <PostGridSkeleton />
+    </div>
+  );
+}
+
+async function BlogArchiveContent({
+  kind,
+  locale,
+  slug,
+  page,
+}: ResolvedArchiveParams & { kind: BlogArchiveKind }) {
+  setRequestLocale(locale);
+
+  const t = await getTranslations({ locale, namespace: 'blog' });
+  const tPagination = await getTranslations({
+    locale,
+    namespace: 'common.pagination',
+  });
+  const archive = await getBlogArchivePageCached(locale, { kind, slug, page });
+  if (archive === null) notFound();
+
+  const titles = await getArchiveTitles(locale, kind, archive);
+  const schema = await buildCollectionSchema(locale, archive, titles);
+  const paginationLabels = await getPaginationLabels(locale);
+  // Authors are linked from their posts; tags and categories get a cloud
+  const siblingTerms =
+    kind === 'author' ? [] : await getBlogTaxonomyCached(locale, kind);
+
+  return (
+    <main className='container mx-auto px-4 py-8 md:py-12'>
+      <JsonLdScript data={schema} />
+      <nav className='mb-6'>
+        <Link
+          href={`/${locale}/blog`}
+          className='inline-flex items-center gap-2 text-sm text-muted-foreground transition-colors hover:text-foreground'
+        >
+          <ArrowLeft className='h-4 w-4' />
+          {t('backToList')}
+        </Link>
+      </nav>
+
+      <header className='mb-8 md:mb-12'>
+        <p className='mb-2 text-sm font-medium text-muted-foreground'>
+          {t(`archive.${kind}Label`)}
+        </p>
+        <h1 className='text-heading mb-4'>{titles.heading}</h1>
+        <p className='text-body text-muted-foreground'>
+          {titles.description}
+          {archive.totalPages > FIRST_PAGE &&
+            ` · ${tPagination('pageStatus', { page: archive.currentPage, total: archive.totalPages })}`}
+        </p>
+      </header>
+
+      <TaxonomyCloud
+        terms={siblingTerms}
+        activeSlug={archive.term.slug}
+        getHref={(term) =>
+          `/${locale}${getBlogArchivePath(term.kind, term.slug)}`
+        }
+        label={t(
+          kind === 'tag' ? 'archive.browseTags' : 'archive.browseCategories',
+        )}
+        className='mb-8'
+      />
+
+      <PostGrid
+        posts={archive.posts}
+        linkPrefix={`/${locale}/blog`}
+        locale={locale}
+        cardProps={{ readingTimeLabel: t('readingTime') }}
+      />
+
+      <Pagination
+        currentPage={archive.currentPage}
+        totalPages={archive.totalPages}
+        getPageHref={(target) =>
+          `/${locale}${getBlogArchivePath(kind, archive.term.slug, target)}`
+        }
+        labels={paginationLabels}
+      />
+    </main>
+  );
+}
+
+export async function BlogArchiveRoute({
+  kind,
+  params,
+}: BlogArchiveRouteProps) {
+  const resolved = resolveArchiveParams(await params);
+
+  return (
+    <Suspense fallback={<BlogArchiveSkeleton />}>
+      <BlogArchiveContent
+        kind={kind}
+        {...resolved}
+      />
+    </Suspense>
+  );
+}
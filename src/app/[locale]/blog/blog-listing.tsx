@@ -0,0 +1,181 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Locale } from '@/types/content.types';
+import { getPostListingPageCached } from '@/lib/content/blog';
+import {
+  getBlogArchivePath,
+  getBlogTaxonomyCached,
+} from '@/lib/content/blog-taxonomy';
+import { FIRST_PAGE, getPaginatedPath } from '@/lib/pagination';
+import {
+  generateMetadataForPath,
+  type Locale as SeoLocale,
+} from '@/lib/seo-metadata';
+import { PostGrid } from '@/components/blog/post-grid';
+import { TaxonomyCloud } from '@/components/blog/taxonomy-cloud';
+import { Pagination } from '@/components/ui/pagination';
+import {
+  generatePagedListingStaticParams,
+  getPagedTitle,
+  getPaginationLabels,
+  resolvePageParam,
+  type PagedListingParams,
+} from '@/app/[locale]/pagination';
+
+/**
+ * Shared implementation of the blog listing routes:
+ *
+ * - `/blog` - first page
+ * - `/blog/page/[page]` - following pages
+ */
+
+const BLOG_PATH = '/blog';
+
+export interface BlogListingRouteParams {
+  locale: string;
+  /** Only set on `/page/[page]` routes */
+  page?: string;
+}
+
+export function generateBlogListingStaticParams(): Promise<
+  PagedListingParams[]
+> {
+  return generatePagedListingStaticParams(
+    async (locale) =>
+      (await getPostListingPageCached(locale))?.totalPages ?? FIRST_PAGE,
+  );
+}
+
+export async function generateBlogListingMetadata(
+  params: Promise<BlogListingRouteParams>,
+): Promise<Metadata> {
+  const { locale, page } = await params;
+  const currentPage = resolvePageParam(page);
+  const t = await getTranslations({
+    locale,
+    namespace: 'blog',
+  });
+
+  const listing = await getPostListingPageCached(locale as Locale, currentPage);
+  if (listing === null) {
+    return { title: 'Page Not Found' };
+  }
+
+  return generateMetadataForPath({
+    locale: locale as SeoLocale,
+    pageType: 'blog',
+    path: BLOG_PATH,
+    pagination: {
+      currentPage: listing.currentPage,
+      totalPages: listing.totalPages,
+    },
+    config: {
+      title: await getPagedTitle(locale, t('pageTitle'), listing.currentPage),
+      description: t('pageDescription'),
+    },
+  });
+}
+
+function BlogLoadingSkeleton() {
+  return (
+    <div className='container mx-auto px-4 py-8 md:py-12'>
+      <div className='mb-8 md:mb-12'>
+        <div className='mb-4 h-10 w-48 animate-pulse rounded bg-muted' />
+        <div className='h-6 w-96 max-w-full animate-pulse rounded bg-muted' />
+      </div>
+      <div className='grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3'>
+        {[1, 2, 3, 4, 5, 6].map((i) => (
+          <div
+            key={i}
+            className='h-64 animate-pulse rounded-lg bg-muted'
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+async function BlogContent({ locale, page }: { locale: string; page: number }) {
+  setRequestLocale(locale);
+
+  const t = await getTranslations({
+    locale,
+    namespace: 'blog',
+  });
+
+  const [listing, categories, tags, paginationLabels] = await Promise.all([
+    getPostListingPageCached(locale as Locale, page),
+    getBlogTaxonomyCached(locale as Locale, 'category'),
+    getBlogTaxonomyCached(locale as Locale, 'tag'),
+    getPaginationLabels(locale),
+  ]);
+  if (listing === null) notFound();
+
+  const linkPrefix = `/${locale}/blog`;
+  const getTermHref = (term: (typeof tags)[number]) =>
+    `/${locale}${getBlogArchivePath(term.kind, term.slug)}`;
+
+  return (
+    <main className='container mx-auto px-4 py-8 md:py-12'>
+      {/* Page Header */}
+      <header className='mb-8 md:mb-12'>
+        <h1 className='text-heading mb-4'>{t('pageTitle')}</h1>
+        <p className='text-body max-w-2xl text-muted-foreground'>
+          {t('pageDescription')}
+        </p>
+      </header>
+
+      {/* Taxonomy Navigation */}
+      <div className='mb-8 space-y-3'>
+        <TaxonomyCloud
+          terms={categories}
+          getHref={getTermHref}
+          label={t('archive.browseCategories')}
+        />
+        <TaxonomyCloud
+          terms={tags}
+          getHref={getTermHref}
+          label={t('archive.browseTags')}
+          weighted
+        />
+      </div>
+
+      {/* Post Grid */}
+      <PostGrid
+        posts={listing.items}
+        linkPrefix={linkPrefix}
+        locale={locale}
+        cardProps={{
+          readingTimeLabel: t('readingTime'),
+        }}
+        emptyState={
+          <div className='py-12 text-center'>
+            <p className='text-muted-foreground'>{t('emptyState')}</p>
+          </div>
+        }
+      />
+
+      <Pagination
+        currentPage={listing.currentPage}
+        totalPages={listing.totalPages}
+        getPageHref={(target) =>
+          `/${locale}${getPaginatedPath(BLOG_PATH, target)}`
+        }
+        labels={paginationLabels}
+      />
+    </main>
+  );
+}
+
+export function BlogListingRoute({ locale, page }: BlogListingRouteParams) {
+  return (
+    <Suspense fallback={<BlogLoadingSkeleton />}>
+      <BlogContent
+        locale={locale}
+        page={resolvePageParam(page)}
+      />
+    </Suspense>
+  );
+}
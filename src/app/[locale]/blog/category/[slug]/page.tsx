@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import {
+  BlogArchiveRoute,
+  generateArchiveMetadata,
+  generateArchiveStaticParams,
+  type BlogArchiveRouteParams,
+} from '@/app/[locale]/blog/blog-archive';
+
+interface CategoryArchivePageProps {
+  params: Promise<BlogArchiveRouteParams>;
+}
+
+export function generateStaticParams() {
+  return generateArchiveStaticParams('category');
+}
+
+export function generateMetadata({
+  params,
+}: CategoryArchivePageProps): Promise<Metadata> {
+  return generateArchiveMetadata('category', params);
+}
+
+export default function CategoryArchivePage({
+  params,
+}: CategoryArchivePageProps) {
+  return (
+    <BlogArchiveRoute
+      kind='category'
+      params={params}
+    />
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import {
+  BlogArchiveRoute,
+  generateArchiveMetadata,
+  generatePagedArchiveStaticParams,
+  type BlogArchiveRouteParams,
+} from '@/app/[locale]/blog/blog-archive';
+
+interface CategoryArchivePagedPageProps {
+  params: Promise<Required<BlogArchiveRouteParams>>;
+}
+
+export function generateStaticParams() {
+  return generatePagedArchiveStaticParams('category');
+}
+
+export function generateMetadata({
+  params,
+}: CategoryArchivePagedPageProps): Promise<Metadata> {
+  return generateArchiveMetadata('category', params);
+}
+
+export default function CategoryArchivePagedPage({
+  params,
+}: CategoryArchivePagedPageProps) {
+  return (
+    <BlogArchiveRoute
+      kind='category'
+      params={params}
+    />
+  );
+}
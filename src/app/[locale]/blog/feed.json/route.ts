@@ -0,0 +1,14 @@
+/**
+ * Blog feed in JSON Feed 1.1 format
+ *
+ * @see src/lib/feed - Feed model and serializers
+ */
+
+import { createBlogFeedHandler } from '@/lib/feed/feed-route';
+import { generateLocaleStaticParams } from '@/app/[locale]/generate-static-params';
+
+export function generateStaticParams() {
+  return generateLocaleStaticParams();
+}
+
+export const GET = createBlogFeedHandler('json');
@@ -0,0 +1,42 @@
+import type { ReactNode } from 'react';
+import { getTranslations } from 'next-intl/server';
+import type { Locale } from '@/types/content.types';
+import { FEED_FORMATS, getFeedPath, type FeedFormat } from '@/lib/feed';
+
+const DISCOVERABLE_FEEDS: readonly FeedFormat[] = ['rss', 'atom', 'json'];
+
+interface BlogLayoutProps {
+  children: ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+/**
+ * Blog layout
+ *
+ * Advertises the locale's feeds to browsers and feed readers. React hoists
+ * the `<link rel="alternate">` elements into the document head.
+ */
+export default async function BlogLayout({
+  children,
+  params,
+}: BlogLayoutProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'blog' });
+
+  return (
+    <>
+      {DISCOVERABLE_FEEDS.map((format) => (
+        <link
+          key={format}
+          rel='alternate'
+          // eslint-disable-next-line security/detect-object-injection -- format is a FeedFormat literal
+          type={FEED_FORMATS[format].contentType}
+          // eslint-disable-next-line security/detect-object-injection -- format is a FeedFormat literal
+          title={`${t('pageTitle')} (${FEED_FORMATS[format].label})`}
+          href={getFeedPath(locale as Locale, format)}
+        />
+      ))}
+      {children}
+    </>
+  );
+}
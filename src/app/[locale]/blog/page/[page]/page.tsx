@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import {
+  BlogListingRoute,
+  generateBlogListingMetadata,
+  generateBlogListingStaticParams,
+  type BlogListingRouteParams,
+} from '@/app/[locale]/blog/blog-listing';
+
+interface BlogPagedPageProps {
+  params: Promise<Required<BlogListingRouteParams>>;
+}
+
+export function generateStaticParams() {
+  return generateBlogListingStaticParams();
+}
+
+export function generateMetadata({
+  params,
+}: BlogPagedPageProps): Promise<Metadata> {
+  return generateBlogListingMetadata(params);
+}
+
+export default async function BlogPagedPage({ params }: BlogPagedPageProps) {
+  const { locale, page } = await params;
+
+  return (
+    <BlogListingRoute
+      locale={locale}
+      page={page}
+    />
+  );
+}
@@ -0,0 +1,30 @@
+import type { Metadata } from 'next';
+import {
+  BlogArchiveRoute,
+  generateArchiveMetadata,
+  generateArchiveStaticParams,
+  type BlogArchiveRouteParams,
+} from '@/app/[locale]/blog/blog-archive';
+
+interface TagArchivePageProps {
+  params: Promise<BlogArchiveRouteParams>;
+}
+
+export function generateStaticParams() {
+  return generateArchiveStaticParams('tag');
+}
+
+export function generateMetadata({
+  params,
+}: TagArchivePageProps): Promise<Metadata> {
+  return generateArchiveMetadata('tag', params);
+}
+
+export default function TagArchivePage({ params }: TagArchivePageProps) {
+  return (
+    <BlogArchiveRoute
+      kind='tag'
+      params={params}
+    />
+  );
+}
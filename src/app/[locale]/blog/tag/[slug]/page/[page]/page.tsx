@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import {
+  BlogArchiveRoute,
+  generateArchiveMetadata,
+  generatePagedArchiveStaticParams,
+  type BlogArchiveRouteParams,
+} from '@/app/[locale]/blog/blog-archive';
+
+interface TagArchivePagedPageProps {
+  params: Promise<Required<BlogArchiveRouteParams>>;
+}
+
+export function generateStaticParams() {
+  return generatePagedArchiveStaticParams('tag');
+}
+
+export function generateMetadata({
+  params,
+}: TagArchivePagedPageProps): Promise<Metadata> {
+  return generateArchiveMetadata('tag', params);
+}
+
+export default function TagArchivePagedPage({
+  params,
+}: TagArchivePagedPageProps) {
+  return (
+    <BlogArchiveRoute
+      kind='tag'
+      params={params}
+    />
+  );
+}
@@ -0,0 +1,45 @@
+import type { Metadata } from 'next';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { NewsletterPage } from '@/components/newsletter';
+import {
+  generateLocaleStaticParams,
+  type LocaleParam,
+} from '@/app/[locale]/generate-static-params';
+
+interface NewsletterConfirmPageProps {
+  params: Promise<LocaleParam>;
+}
+
+export function generateStaticParams() {
+  return generateLocaleStaticParams();
+}
+
+export async function generateMetadata({
+  params,
+}: NewsletterConfirmPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({
+    locale,
+    namespace: 'newsletter.confirm',
+  });
+
+  // Personal, token-bearing page: keep it out of search indexes
+  return {
+    title: t('title'),
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function NewsletterConfirmPage({
+  params,
+}: NewsletterConfirmPageProps) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  return (
+    <NewsletterPage
+      locale={locale}
+      mode='confirm'
+    />
+  );
+}
@@ -0,0 +1,76 @@
+import { getTranslations } from 'next-intl/server';
+import type { Locale } from '@/types/content.types';
+import {
+  FIRST_PAGE,
+  getPageStaticParams,
+  parsePageParam,
+} from '@/lib/pagination';
+import type { PaginationLabels } from '@/components/ui/pagination';
+import { routing } from '@/i18n/routing';
+
+export interface PagedListingParams {
+  locale: string;
+  page: string;
+}
+
+/**
+ * Page number of a listing route: page 1 without a `[page]` segment,
+ * `NaN` (not found) for invalid segments.
+ */
+export function resolvePageParam(page: string | undefined): number {
+  return page === undefined ? FIRST_PAGE : parsePageParam(page);
+}
+
+/**
+ * `[locale]/page/[page]` params for every listing page after the first.
+ *
+ * Cache Components rejects an empty result, so when every listing fits on
+ * one page `/page/2` of the default locale is prerendered instead; it
+ * renders the 404 page.
+ */
+export async function generatePagedListingStaticParams(
+  getTotalPagesForLocale: (locale: Locale) => Promise<number>,
+): Promise<PagedListingParams[]> {
+  const params: PagedListingParams[] = [];
+
+  for (const locale of routing.locales) {
+    const totalPages = await getTotalPagesForLocale(locale);
+    params.push(
+      ...getPageStaticParams(totalPages).map(({ page }) => ({ locale, page })),
+    );
+  }
+
+  return params.length > 0
+    ? params
+    : [{ locale: routing.defaultLocale, page: String(FIRST_PAGE + 1) }];
+}
+
+/**
+ * Localized labels for the `Pagination` control.
+ */
+export async function getPaginationLabels(
+  locale: string,
+): Promise<PaginationLabels> {
+  const t = await getTranslations({ locale, namespace: 'common.pagination' });
+
+  return {
+    navigation: t('navigation'),
+    previous: t('previous'),
+    next: t('next'),
+    page: (page) => t('goToPage', { page }),
+  };
+}
+
+/**
+ * Title of a listing page: `title` on page 1, `{title} – Page {n}` after.
+ */
+export async function getPagedTitle(
+  locale: string,
+  title: string,
+  page: number,
+): Promise<string> {
+  if (page <= FIRST_PAGE) return title;
+
+  const t = await getTranslations({ locale, namespace: 'common.pagination' });
+  return t('pagedTitle', { title, page });
+}
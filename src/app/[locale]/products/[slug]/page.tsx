@@ -141,6 +141,8 @@ interface ProductInfoSectionProps {
   requestQuoteLabel: string;
   downloadPdfLabel: string;
   downloadPdfHref?: string;
+  askOnWhatsAppLabel: string;
+  whatsappMessage: string;
 }
 
 function ProductInfoSection({
@@ -151,6 +153,8 @@ function ProductInfoSection({
   requestQuoteLabel,
   downloadPdfLabel,
   downloadPdfHref,
+  askOnWhatsAppLabel,
+  whatsappMessage,
 }: ProductInfoSectionProps) {
   const hasCertifications =
     product.certifications !== undefined && product.certifications.length > 0;
@@ -184,6 +188,9 @@ function ProductInfoSection({
           productName={product.title}
           productImage={product.coverImage}
           requestQuoteLabel={requestQuoteLabel}
+          whatsappNumber={SITE_CONFIG.contact.whatsappNumber}
+          whatsappMessage={whatsappMessage}
+          askOnWhatsAppLabel={askOnWhatsAppLabel}
           {...(downloadPdfHref !== undefined && {
             pdfHref: downloadPdfHref,
             downloadPdfLabel,
@@ -347,6 +354,12 @@ async function ProductDetailContent({
           requestQuoteLabel={t('requestQuote')}
           downloadPdfLabel={t('detail.downloadPdf')}
           {...(downloadPdfHref ? { downloadPdfHref } : {})}
+          askOnWhatsAppLabel={t('detail.askOnWhatsApp')}
+          whatsappMessage={t('detail.whatsappMessage', {
+            name: product.title,
+            slug: product.slug,
+            url: `${SITE_CONFIG.baseUrl}/${locale}/products/${product.slug}`,
+          })}
         />
       </div>
 
@@ -7,13 +7,13 @@ import ProductsPage, { generateMetadata, generateStaticParams } from '../page';
 const {
   mockGetTranslations,
   mockSetRequestLocale,
-  mockGetAllProductsCached,
+  mockGetProductListingPageCached,
   mockGetProductCategoriesCached,
   mockSuspenseState,
 } = vi.hoisted(() => ({
   mockGetTranslations: vi.fn(),
   mockSetRequestLocale: vi.fn(),
-  mockGetAllProductsCached: vi.fn(),
+  mockGetProductListingPageCached: vi.fn(),
   mockGetProductCategoriesCached: vi.fn(),
   mockSuspenseState: {
     products: [] as { slug: string; title: string }[],
@@ -22,6 +22,16 @@ const {
   },
 }));
 
+function createListing<T>(items: T[]) {
+  return {
+    items,
+    currentPage: 1,
+    totalPages: 1,
+    totalItems: items.length,
+    offset: 0,
+  };
+}
+
 // Mock Suspense to render mock content (async Server Components can't be rendered in Vitest)
 vi.mock('react', async () => {
   const actual = await vi.importActual<typeof React>('react');
@@ -99,7 +109,7 @@ vi.mock('@/app/[locale]/generate-static-params', () => ({
 }));
 
 vi.mock('@/lib/content/products', () => ({
-  getAllProductsCached: mockGetAllProductsCached,
+  getProductListingPageCached: mockGetProductListingPageCached,
   getProductCategoriesCached: mockGetProductCategoriesCached,
 }));
 
@@ -194,7 +204,9 @@ describe('ProductsPage', () => {
       (key: string) =>
         mockTranslations[key as keyof typeof mockTranslations] || key,
     );
-    mockGetAllProductsCached.mockResolvedValue(mockProducts);
+    mockGetProductListingPageCached.mockResolvedValue(
+      createListing(mockProducts),
+    );
     mockGetProductCategoriesCached.mockResolvedValue(mockCategories);
 
     // Reset Suspense mock state to defaults
@@ -334,7 +346,7 @@ describe('ProductsPage', () => {
     });
 
     it('should render empty state when no products', async () => {
-      mockGetAllProductsCached.mockResolvedValue([]);
+      mockGetProductListingPageCached.mockResolvedValue(createListing([]));
       mockSuspenseState.products = [];
 
       const ProductsPageComponent = await ProductsPage({
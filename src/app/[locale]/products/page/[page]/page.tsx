@@ -0,0 +1,34 @@
+import type { Metadata } from 'next';
+import {
+  generateProductListingMetadata,
+  generateProductListingStaticParams,
+  ProductListingRoute,
+  type ProductListingRouteParams,
+} from '@/app/[locale]/products/product-listing';
+
+interface ProductsPagedPageProps {
+  params: Promise<Required<ProductListingRouteParams>>;
+}
+
+export function generateStaticParams() {
+  return generateProductListingStaticParams();
+}
+
+export function generateMetadata({
+  params,
+}: ProductsPagedPageProps): Promise<Metadata> {
+  return generateProductListingMetadata(params);
+}
+
+export default async function ProductsPagedPage({
+  params,
+}: ProductsPagedPageProps) {
+  const { locale, page } = await params;
+
+  return (
+    <ProductListingRoute
+      locale={locale}
+      page={page}
+    />
+  );
+}
@@ -0,0 +1,201 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Locale } from '@/types/content.types';
+import {
+  getProductCategoriesCached,
+  getProductListingPageCached,
+} from '@/lib/content/products';
+import { FIRST_PAGE, getPaginatedPath } from '@/lib/pagination';
+import {
+  generateMetadataForPath,
+  type Locale as SeoLocale,
+} from '@/lib/seo-metadata';
+import { ProductGrid } from '@/components/products/product-grid';
+import { Pagination } from '@/components/ui/pagination';
+import {
+  generatePagedListingStaticParams,
+  getPagedTitle,
+  getPaginationLabels,
+  resolvePageParam,
+  type PagedListingParams,
+} from '@/app/[locale]/pagination';
+import { ProductCategoryFilter } from '@/app/[locale]/products/product-category-filter';
+
+/**
+ * Shared implementation of the product listing routes:
+ *
+ * - `/products` - first page
+ * - `/products/page/[page]` - following pages
+ */
+
+const PRODUCTS_PATH = '/products';
+
+export interface ProductListingRouteParams {
+  locale: string;
+  /** Only set on `/page/[page]` routes */
+  page?: string;
+}
+
+export function generateProductListingStaticParams(): Promise<
+  PagedListingParams[]
+> {
+  return generatePagedListingStaticParams(
+    async (locale) =>
+      (await getProductListingPageCached(locale))?.totalPages ?? FIRST_PAGE,
+  );
+}
+
+export async function generateProductListingMetadata(
+  params: Promise<ProductListingRouteParams>,
+): Promise<Metadata> {
+  const { locale, page } = await params;
+  const currentPage = resolvePageParam(page);
+  const t = await getTranslations({
+    locale,
+    namespace: 'products',
+  });
+
+  const listing = await getProductListingPageCached(
+    locale as Locale,
+    currentPage,
+  );
+  if (listing === null) {
+    return { title: 'Page Not Found' };
+  }
+
+  return generateMetadataForPath({
+    locale: locale as SeoLocale,
+    pageType: 'products',
+    path: PRODUCTS_PATH,
+    pagination: {
+      currentPage: listing.currentPage,
+      totalPages: listing.totalPages,
+    },
+    config: {
+      title: await getPagedTitle(locale, t('pageTitle'), listing.currentPage),
+      description: t('pageDescription'),
+    },
+  });
+}
+
+function ProductsLoadingSkeleton() {
+  return (
+    <div className='container mx-auto px-4 py-8 md:py-12'>
+      <div className='mb-8 md:mb-12'>
+        <div className='mb-4 h-10 w-48 animate-pulse rounded bg-muted' />
+        <div className='h-6 w-96 max-w-full animate-pulse rounded bg-muted' />
+      </div>
+      <div className='mb-8 flex gap-2'>
+        {[1, 2, 3].map((i) => (
+          <div
+            key={i}
+            className='h-8 w-24 animate-pulse rounded-full bg-muted'
+          />
+        ))}
+      </div>
+      <div className='grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3'>
+        {[1, 2, 3, 4, 5, 6].map((i) => (
+          <div
+            key={i}
+            className='h-64 animate-pulse rounded-lg bg-muted'
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+async function ProductsContent({
+  locale,
+  page,
+}: {
+  locale: string;
+  page: number;
+}) {
+  setRequestLocale(locale);
+
+  const t = await getTranslations({
+    locale,
+    namespace: 'products',
+  });
+
+  const [listing, categories, paginationLabels] = await Promise.all([
+    getProductListingPageCached(locale as Locale, page),
+    getProductCategoriesCached(locale as Locale),
+    getPaginationLabels(locale),
+  ]);
+  if (listing === null) notFound();
+
+  const linkPrefix = `/${locale}/products`;
+
+  const cardLabels = {
+    moq: t('card.moq'),
+    leadTime: t('card.leadTime'),
+    supplyCapacity: t('card.supplyCapacity'),
+    featured: t('featured'),
+  };
+
+  return (
+    <main className='container mx-auto px-4 py-8 md:py-12'>
+      {/* Page Header */}
+      <header className='mb-8 md:mb-12'>
+        <h1 className='text-heading mb-4'>{t('pageTitle')}</h1>
+        <p className='text-body max-w-2xl text-muted-foreground'>
+          {t('pageDescription')}
+        </p>
+      </header>
+
+      {/* Category Filter */}
+      {categories.length > 0 && (
+        <ProductCategoryFilter
+          categories={categories}
+          allCategoriesLabel={t('allCategories')}
+          pathname={linkPrefix}
+          className='mb-8'
+        />
+      )}
+
+      {/* Product Grid */}
+      {listing.items.length > 0 ? (
+        <ProductGrid
+          products={listing.items}
+          linkPrefix={linkPrefix}
+          labels={cardLabels}
+          lg={3}
+          md={2}
+          sm={1}
+          gap={6}
+        />
+      ) : (
+        <div className='py-12 text-center'>
+          <p className='text-muted-foreground'>{t('emptyState')}</p>
+        </div>
+      )}
+
+      <Pagination
+        currentPage={listing.currentPage}
+        totalPages={listing.totalPages}
+        getPageHref={(target) =>
+          `/${locale}${getPaginatedPath(PRODUCTS_PATH, target)}`
+        }
+        labels={paginationLabels}
+      />
+    </main>
+  );
+}
+
+export function ProductListingRoute({
+  locale,
+  page,
+}: ProductListingRouteParams) {
+  return (
+    <Suspense fallback={<ProductsLoadingSkeleton />}>
+      <ProductsContent
+        locale={locale}
+        page={resolvePageParam(page)}
+      />
+    </Suspense>
+  );
+}
@@ -0,0 +1,132 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Locale } from '@/types/content.types';
+import { isSiteSearchEnabled, searchSite } from '@/lib/search';
+import { SearchForm, SearchResults } from '@/components/search';
+import {
+  generateLocaleStaticParams,
+  type LocaleParam,
+} from '@/app/[locale]/generate-static-params';
+
+interface SearchPageProps {
+  params: Promise<LocaleParam>;
+  searchParams: Promise<{ q?: string | string[] }>;
+}
+
+export function generateStaticParams() {
+  return generateLocaleStaticParams();
+}
+
+export async function generateMetadata({
+  params,
+}: Pick<SearchPageProps, 'params'>): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'search' });
+
+  // Result pages are thin, query-dependent content: keep them out of indexes
+  return {
+    title: t('pageTitle'),
+    description: t('pageDescription'),
+    robots: { index: false, follow: true },
+  };
+}
+
+function SearchLoadingSkeleton() {
+  return (
+    <div className='mt-8 space-y-6'>
+      {[1, 2, 3].map((i) => (
+        <div
+          key={i}
+          className='h-24 animate-pulse rounded-lg bg-muted'
+        />
+      ))}
+    </div>
+  );
+}
+
+async function SearchContent({
+  locale,
+  searchParams,
+}: {
+  locale: Locale;
+  searchParams: SearchPageProps['searchParams'];
+}) {
+  const { q } = await searchParams;
+  const query = (Array.isArray(q) ? q[0] : q)?.trim() ?? '';
+  const t = await getTranslations({ locale, namespace: 'search' });
+
+  const form = (
+    <SearchForm
+      locale={locale}
+      label={t('label')}
+      placeholder={t('placeholder')}
+      submitLabel={t('submit')}
+      defaultValue={query}
+      className='max-w-2xl'
+    />
+  );
+  if (!query) {
+    return (
+      <>
+        {form}
+        <p className='mt-6 text-muted-foreground'>{t('emptyQuery')}</p>
+      </>
+    );
+  }
+
+  const { results, terms, total } = searchSite(query, locale);
+  return (
+    <>
+      {form}
+      <p
+        className='mt-6 mb-8 text-sm text-muted-foreground'
+        aria-live='polite'
+      >
+        {total > 0
+          ? t('resultsCount', { count: total, query })
+          : t('noResults', { query })}
+      </p>
+      <SearchResults
+        locale={locale}
+        results={results}
+        terms={terms}
+        typeLabels={{
+          posts: t('types.posts'),
+          products: t('types.products'),
+          pages: t('types.pages'),
+        }}
+      />
+    </>
+  );
+}
+
+export default async function SearchPage({
+  params,
+  searchParams,
+}: SearchPageProps) {
+  const { locale } = await params;
+  if (!isSiteSearchEnabled()) {
+    notFound();
+  }
+  setRequestLocale(locale);
+  const t = await getTranslations({ locale, namespace: 'search' });
+
+  return (
+    <main className='container mx-auto px-4 py-8 md:py-12'>
+      <header className='mb-8'>
+        <h1 className='text-heading mb-4'>{t('pageTitle')}</h1>
+        <p className='text-body max-w-2xl text-muted-foreground'>
+          {t('pageDescription')}
+        </p>
+      </header>
+      <Suspense fallback={<SearchLoadingSkeleton />}>
+        <SearchContent
+          locale={locale}
+          searchParams={searchParams}
+        />
+      </Suspense>
+    </main>
+  );
+}
@@ -10,7 +10,6 @@ const {
   mockSetRequestLocale,
   mockGetPageBySlug,
   mockRenderLegalContent,
-  mockSlugifyHeading,
   mockGenerateJSONLD,
   mockSuspenseState,
 } = vi.hoisted(() => ({
@@ -18,7 +17,6 @@ const {
   mockSetRequestLocale: vi.fn(),
   mockGetPageBySlug: vi.fn(),
   mockRenderLegalContent: vi.fn(),
-  mockSlugifyHeading: vi.fn(),
   mockGenerateJSONLD: vi.fn(),
   mockSuspenseState: {
     locale: 'en',
@@ -134,7 +132,6 @@ vi.mock('@/lib/content', () => ({
 
 vi.mock('@/lib/content/render-legal-content', () => ({
   renderLegalContent: mockRenderLegalContent,
-  slugifyHeading: mockSlugifyHeading,
 }));
 
 vi.mock('@/lib/structured-data', () => ({
@@ -196,9 +193,6 @@ We provide quality products.`,
     mockRenderLegalContent.mockReturnValue(
       <div data-testid='legal-content'>Rendered Legal Content</div>,
     );
-    mockSlugifyHeading.mockImplementation((text: string) =>
-      text.toLowerCase().replace(/\s+/g, '-'),
-    );
     mockGenerateJSONLD.mockReturnValue('{"@context":"https://schema.org"}');
 
     // Reset Suspense mock state
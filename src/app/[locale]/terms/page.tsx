@@ -3,14 +3,13 @@ import type { Metadata } from 'next';
 import { getTranslations, setRequestLocale } from 'next-intl/server';
 import type { Locale } from '@/types/content.types';
 import { getPageBySlug } from '@/lib/content';
-import {
-  renderLegalContent,
-  slugifyHeading,
-} from '@/lib/content/render-legal-content';
+import { getTableOfContents } from '@/lib/content-manifest';
+import { renderLegalContent } from '@/lib/content/render-legal-content';
 import {
   generateMetadataForPath,
   type Locale as SeoLocale,
 } from '@/lib/seo-metadata';
+import { TableOfContents } from '@/components/mdx/table-of-contents';
 import { JsonLdScript } from '@/components/seo';
 import {
   generateLocaleStaticParams,
@@ -67,82 +66,6 @@ export async function generateMetadata({
   });
 }
 
-interface TocItem {
-  id: string;
-  label: string;
-}
-
-const TERMS_SECTION_KEYS = [
-  'introduction',
-  'acceptance',
-  'services',
-  'orders',
-  'payment',
-  'shipping',
-  'warranty',
-  'liability',
-  'ip',
-  'confidentiality',
-  'termination',
-  'governing',
-  'disputes',
-  'contact',
-] as const;
-
-const H2_PREFIX_LENGTH = 3;
-const H3_PREFIX_LENGTH = 4;
-
-interface ParsedHeading {
-  level: 2 | 3;
-  text: string;
-}
-
-function extractHeadings(content: string): ParsedHeading[] {
-  const lines = content.split('\n');
-  const headings: ParsedHeading[] = [];
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    if (trimmed.startsWith('## ')) {
-      headings.push({ level: 2, text: trimmed.slice(H2_PREFIX_LENGTH).trim() });
-    } else if (trimmed.startsWith('### ')) {
-      headings.push({ level: 3, text: trimmed.slice(H3_PREFIX_LENGTH).trim() });
-    }
-  }
-
-  return headings;
-}
-
-function buildTocItems(
-  tSections: (key: string) => string,
-  headings: ParsedHeading[],
-): TocItem[] {
-  const items: TocItem[] = [];
-
-  for (const sectionKey of TERMS_SECTION_KEYS) {
-    const label = tSections(`sections.${sectionKey}`);
-
-    const match = headings.find((heading) => {
-      if (heading.level !== 2) {
-        return false;
-      }
-      const headingText = heading.text;
-      return headingText.includes(label) || label.includes(headingText);
-    });
-
-    const id =
-      match !== undefined ? slugifyHeading(match.text) : slugifyHeading(label);
-
-    items.push({
-      id,
-      label,
-    });
-  }
-
-  return items;
-}
-
 async function TermsContent({ locale }: { locale: string }) {
   setRequestLocale(locale);
 
@@ -153,8 +76,7 @@ async function TermsContent({ locale }: { locale: string }) {
     namespace: 'terms',
   });
 
-  const headings = extractHeadings(page.content);
-  const tocItems = buildTocItems((key) => t(key), headings);
+  const tocEntries = getTableOfContents('pages', locale as Locale, 'terms');
 
   const termsSchema = {
     '@context': 'https://schema.org',
@@ -169,8 +91,6 @@ async function TermsContent({ locale }: { locale: string }) {
       page.metadata.publishedAt,
   } as const;
 
-  const hasTocItems = tocItems.length > 0;
-
   return (
     <>
       <JsonLdScript data={termsSchema} />
@@ -203,27 +123,13 @@ async function TermsContent({ locale }: { locale: string }) {
             {renderLegalContent(page.content)}
           </article>
 
-          {hasTocItems && (
-            <aside className='order-first rounded-lg border bg-muted/40 p-4 text-sm lg:order-none'>
-              <h2 className='mb-3 text-xs font-semibold tracking-wide text-muted-foreground uppercase'>
-                {t('tableOfContents')}
-              </h2>
-              <nav aria-label={t('tableOfContents')}>
-                <ol className='space-y-2'>
-                  {tocItems.map((item) => (
-                    <li key={item.id}>
-                      <a
-                        href={`#${item.id}`}
-                        className='inline-flex text-xs text-muted-foreground transition-colors hover:text-foreground sm:text-sm'
-                      >
-                        {item.label}
-                      </a>
-                    </li>
-                  ))}
-                </ol>
-              </nav>
-            </aside>
-          )}
+          <aside className='order-first lg:order-none'>
+            <TableOfContents
+              entries={tocEntries}
+              title={t('tableOfContents')}
+              className='rounded-lg border bg-muted/40 p-4'
+            />
+          </aside>
         </div>
       </main>
     </>
@@ -53,6 +53,8 @@ vi.mock('@/lib/content/blog', () => ({
           title: 'Post A',
           publishedAt: '2024-04-01T00:00:00Z',
           updatedAt: '2024-04-02T00:00:00Z',
+          tags: ['Next.js', 'Enterprise'],
+          author: 'Editorial Team',
         },
       ];
     }
@@ -63,6 +65,7 @@ vi.mock('@/lib/content/blog', () => ({
           title: '文章A',
           publishedAt: '2024-04-01T00:00:00Z',
           updatedAt: '2024-04-02T00:00:00Z',
+          tags: ['Next.js', '企业级'],
         },
       ];
     }
@@ -153,6 +156,31 @@ describe('sitemap.ts', () => {
       expect(urls).toContain('https://example.com/zh/products/product-a');
     });
 
+    it('should include blog archives with localized alternates', async () => {
+      const result = await sitemap();
+      const find = (url: string) => result.find((entry) => entry.url === url);
+
+      expect(
+        find('https://example.com/en/blog/tag/next-js')?.alternates?.languages,
+      ).toEqual({
+        'en': 'https://example.com/en/blog/tag/next-js',
+        'zh': 'https://example.com/zh/blog/tag/next-js',
+        'x-default': 'https://example.com/en/blog/tag/next-js',
+      });
+      expect(
+        find('https://example.com/zh/blog/tag/%E4%BC%81%E4%B8%9A%E7%BA%A7')
+          ?.alternates?.languages,
+      ).toEqual({
+        zh: 'https://example.com/zh/blog/tag/%E4%BC%81%E4%B8%9A%E7%BA%A7',
+      });
+      expect(
+        find('https://example.com/en/blog/author/editorial-team'),
+      ).toMatchObject({
+        lastModified: new Date('2024-04-02T00:00:00Z'),
+        priority: 0.4,
+      });
+    });
+
     it('should have lastModified for entries', async () => {
       const result = await sitemap();
 
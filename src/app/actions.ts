@@ -10,6 +10,10 @@
 import { headers } from 'next/headers';
 import { contactFieldValidators } from '@/lib/form-schema/contact-field-validators';
 import { type ContactFormData } from '@/lib/form-schema/contact-form-schema';
+import {
+  extractAttribution,
+  type LeadAttribution,
+} from '@/lib/lead-pipeline/attribution';
 import { logger } from '@/lib/logger';
 import { checkDistributedRateLimit } from '@/lib/security/distributed-rate-limit';
 import {
@@ -51,6 +55,10 @@ export interface ContactFormWithToken extends ContactFormData {
   turnstileToken: string;
   /** 提交时间戳 */
   submittedAt: string;
+  /** 营销归因（UTM / 点击 ID） */
+  attribution?: LeadAttribution | undefined;
+  /** 提交页面的语言（WhatsApp 确认模板） */
+  locale?: string | undefined;
 }
 
 const contactFormSchema = createContactFormSchemaFromConfig(
@@ -155,9 +163,12 @@ function extractContactFormData(formData: FormData): ContactFormWithToken {
     message: getFormDataString(formData, 'message'),
     acceptPrivacy: getFormDataBoolean(formData, 'acceptPrivacy'),
     marketingConsent: getFormDataBoolean(formData, 'marketingConsent'),
+    whatsappOptIn: getFormDataBoolean(formData, 'whatsappOptIn'),
+    locale: getFormDataString(formData, 'locale'),
     turnstileToken: getFormDataString(formData, 'turnstileToken'),
     submittedAt:
       getFormDataString(formData, 'submittedAt') || new Date().toISOString(),
+    attribution: extractAttribution(formData),
   };
 }
 
@@ -38,7 +38,13 @@ vi.mock('@/lib/airtable', () => ({
   },
 }));
 
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn(),
+}));
+
 vi.mock('@/lib/lead-pipeline', () => ({
+  drainLeadOutboxInBackground: vi.fn(),
   processLead: vi.fn(() =>
     Promise.resolve({
       success: true,
@@ -5,10 +5,15 @@
  * This module handles validation and delegates to the unified processLead pipeline
  */
 
+import { after } from 'next/server';
 import { z } from 'zod';
 import { airtableService } from '@/lib/airtable';
 import { contactFieldValidators } from '@/lib/form-schema/contact-field-validators';
-import { processLead } from '@/lib/lead-pipeline';
+import { drainLeadOutboxInBackground, processLead } from '@/lib/lead-pipeline';
+import {
+  extractAttribution,
+  type LeadAttribution,
+} from '@/lib/lead-pipeline/attribution';
 import { CONTACT_SUBJECTS, LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
 import { logger, sanitizeEmail, sanitizeIP } from '@/lib/logger';
 import { constantTimeCompare } from '@/lib/security-crypto';
@@ -26,6 +31,7 @@ import {
   SECONDS_PER_MINUTE,
   ZERO,
 } from '@/constants';
+import { routing } from '@/i18n/routing-config';
 
 const contactFormSchema = createContactFormSchemaFromConfig(
   CONTACT_FORM_CONFIG,
@@ -44,8 +50,20 @@ export const contactFormWithTokenSchema = contactFormSchema.extend({
 export type ContactFormWithToken = ContactFormFieldValues & {
   turnstileToken: string;
   submittedAt: string;
+  attribution?: LeadAttribution | undefined;
+  /** Page locale the form was submitted from */
+  locale?: string | undefined;
 };
 
+/**
+ * Pick the submission locale from the raw body; it is not a form field
+ */
+function extractLocale(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { locale } = body as { locale?: unknown };
+  return typeof locale === 'string' ? locale : undefined;
+}
+
 /**
  * 验证表单数据
  * Validate form data
@@ -115,7 +133,12 @@ export async function validateFormData(body: unknown, clientIP: string) {
     success: true,
     error: null,
     details: null,
-    data: formData,
+    // Attribution and locale are not part of the form schema; pick them from the raw body
+    data: {
+      ...formData,
+      attribution: extractAttribution(body),
+      locale: extractLocale(body),
+    },
   };
 }
 
@@ -158,10 +181,16 @@ export async function processFormSubmission(formData: ContactFormWithToken) {
     turnstileToken: formData.turnstileToken,
     submittedAt: formData.submittedAt,
     marketingConsent: formData.marketingConsent ?? false,
+    attribution: formData.attribution,
+    phone: formData.phone?.trim() || undefined,
+    whatsappOptIn: formData.whatsappOptIn ?? false,
+    // Unknown locales fall back to the default acknowledgement template
+    locale: routing.locales.find((locale) => locale === formData.locale),
   };
 
   // 调用统一的 Lead Pipeline
   const result = await processLead(leadInput);
+  after(drainLeadOutboxInBackground);
 
   if (result.success) {
     return {
@@ -270,5 +299,6 @@ export function sanitizeFormData(
     acceptPrivacy: data.acceptPrivacy,
     marketingConsent: data.marketingConsent ?? false,
     website: data.website?.trim() || undefined,
+    attribution: data.attribution,
   };
 }
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '../route';
+
+const mockGetDetailedHealth = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/health', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/health')>()),
+  getDetailedHealth: mockGetDetailedHealth,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function createRequest(token?: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/health/detailed', {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('/api/health/detailed route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('MONITORING_SECRET', 'monitor-secret');
+    mockGetDetailedHealth.mockReturnValue({
+      status: 'ok',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      services: {},
+      leadPipeline: {},
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should reject requests without the monitoring token', async () => {
+    const missing = GET(createRequest());
+    const wrong = GET(createRequest('wrong'));
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toEqual({
+      success: false,
+      errorCode: 'UNAUTHORIZED',
+    });
+    expect(mockGetDetailedHealth).not.toHaveBeenCalled();
+  });
+
+  it('should reject all requests when no secret is configured', () => {
+    vi.stubEnv('MONITORING_SECRET', '');
+
+    expect(GET(createRequest('monitor-secret')).status).toBe(401);
+  });
+
+  it('should return 200 when healthy', async () => {
+    const response = GET(createRequest('monitor-secret'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(await response.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('should return 503 when degraded', () => {
+    mockGetDetailedHealth.mockReturnValue({
+      status: 'degraded',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      services: {},
+      leadPipeline: {},
+    });
+
+    expect(GET(createRequest('monitor-secret')).status).toBe(503);
+  });
+});
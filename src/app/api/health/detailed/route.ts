@@ -0,0 +1,35 @@
+/**
+ * Detailed Health API Route
+ *
+ * Reports configuration and recent delivery health of each integration
+ * (Resend, Airtable, WhatsApp, Turnstile, rate limit store) plus lead
+ * pipeline success rate, latency and consecutive failures.
+ *
+ * Usage:
+ * GET /api/health/detailed
+ * Authorization: Bearer <MONITORING_SECRET>
+ *
+ * Responds 200 when healthy and 503 when degraded, so uptime monitors can
+ * alert on the status code alone.
+ *
+ * @see src/lib/health/service-health.ts - Health rules
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDetailedHealth, SERVICE_STATUS } from '@/lib/health';
+import { checkMonitoringAuth } from '@/app/api/health/health-api-utils';
+
+const HTTP_OK = 200;
+const HTTP_SERVICE_UNAVAILABLE = 503;
+
+export function GET(request: NextRequest) {
+  const unauthorized = checkMonitoringAuth(request);
+  if (unauthorized) return unauthorized;
+
+  const health = getDetailedHealth();
+  return NextResponse.json(health, {
+    status:
+      health.status === SERVICE_STATUS.OK ? HTTP_OK : HTTP_SERVICE_UNAVAILABLE,
+    headers: { 'cache-control': 'no-store' },
+  });
+}
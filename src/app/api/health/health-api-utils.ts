@@ -0,0 +1,28 @@
+/**
+ * Shared authentication for the monitoring routes
+ * (`/api/health/detailed`, `/api/metrics`)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasBearerSecret } from '@/lib/api/bearer-secret';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+
+const HTTP_UNAUTHORIZED = 401;
+
+/**
+ * Check the monitoring bearer token
+ *
+ * @returns A 401 response when the request is not authorized, otherwise null
+ */
+export function checkMonitoringAuth(request: NextRequest): NextResponse | null {
+  const authorized = hasBearerSecret(request, process.env.MONITORING_SECRET, {
+    secretName: 'MONITORING_SECRET',
+    endpoint: 'monitoring endpoints',
+  });
+  if (authorized) return null;
+
+  return NextResponse.json(
+    { success: false, errorCode: API_ERROR_CODES.UNAUTHORIZED },
+    { status: HTTP_UNAUTHORIZED },
+  );
+}
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { whatsappServiceMonitor } from '@/lib/whatsapp/service-monitor';
+import { GET } from '../route';
+
+const mockGetClientEnvironmentInfo = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp/client-factory', () => ({
+  getClientEnvironmentInfo: mockGetClientEnvironmentInfo,
+  isMockClient: vi.fn(),
+  getWhatsAppClient: vi.fn(),
+  resetWhatsAppClient: vi.fn(),
+  createWhatsAppClient: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function createRequest(query = '', token = 'monitor-secret'): NextRequest {
+  return new NextRequest(`http://localhost:3000/api/health/whatsapp${query}`, {
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+describe('/api/health/whatsapp route', () => {
+  beforeEach(() => {
+    vi.stubEnv('MONITORING_SECRET', 'monitor-secret');
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', 'token');
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', 'phone-id');
+    mockGetClientEnvironmentInfo.mockReturnValue({ clientType: 'real' });
+    whatsappServiceMonitor.reset();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should require the monitoring token', async () => {
+    expect((await GET(createRequest('', 'wrong'))).status).toBe(401);
+  });
+
+  it('should report error rate and uptime', async () => {
+    whatsappServiceMonitor.recordApiCall({
+      kind: 'send',
+      success: true,
+      durationMs: 120,
+    });
+
+    const response = await GET(createRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(body).toMatchObject({
+      clientType: 'real',
+      isConnected: true,
+      health: { status: 'healthy', errorRate: 0, uptime: 100 },
+      metrics: { apiCalls: 1, messagesSent: 1 },
+      rateLimits: { count: 0 },
+    });
+  });
+
+  it('should return 503 when the service is unhealthy', async () => {
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', '');
+    mockGetClientEnvironmentInfo.mockImplementation(() => {
+      throw new Error('WhatsApp credentials not configured for production');
+    });
+
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({
+      clientType: 'none',
+      isInitialized: false,
+    });
+  });
+
+  it('should probe the phone number on deep checks', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(JSON.stringify({ code_verification_status: 'VERIFIED' })),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const body = await (await GET(createRequest('?deep=1'))).json();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(body.health.details.phoneNumber).toBe('verified');
+    expect(body.lastProbe).toMatchObject({ phoneNumber: 'verified' });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * WhatsApp Service Health API Route
+ *
+ * Reports the WhatsApp Cloud API figures recorded on this instance: error
+ * rate, uptime, response time, sent/failed/delivered messages and rate
+ * limiting, plus the configuration of the API and the webhook.
+ *
+ * Usage:
+ * GET /api/health/whatsapp
+ * GET /api/health/whatsapp?deep=1   (also probes the business phone number)
+ * Authorization: Bearer <MONITORING_SECRET>
+ *
+ * Responds 200 unless the service is unhealthy, then 503.
+ *
+ * @see src/lib/whatsapp/service-monitor.ts - Metrics and health rules
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkWhatsAppServiceHealth,
+  getClientEnvironmentInfo,
+  whatsappServiceMonitor,
+  type WhatsAppServiceReport,
+} from '@/lib/whatsapp-service';
+import { checkMonitoringAuth } from '@/app/api/health/health-api-utils';
+
+const HTTP_OK = 200;
+const HTTP_SERVICE_UNAVAILABLE = 503;
+
+function getClientType(): WhatsAppServiceReport['clientType'] {
+  try {
+    return getClientEnvironmentInfo().clientType;
+  } catch {
+    // Production without credentials cannot create a client
+    return 'none';
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const unauthorized = checkMonitoringAuth(request);
+  if (unauthorized) return unauthorized;
+
+  const deep = request.nextUrl.searchParams.get('deep') === '1';
+  await checkWhatsAppServiceHealth({ deep });
+
+  const report = whatsappServiceMonitor.getReport(getClientType());
+  return NextResponse.json(report, {
+    status:
+      report.health.status === 'unhealthy' ? HTTP_SERVICE_UNAVAILABLE : HTTP_OK,
+    headers: { 'cache-control': 'no-store' },
+  });
+}
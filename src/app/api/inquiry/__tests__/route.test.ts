@@ -1,6 +1,6 @@
-import { NextRequest } from 'next/server';
+import { after, NextRequest } from 'next/server';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { processLead } from '@/lib/lead-pipeline';
+import { drainLeadOutboxInBackground, processLead } from '@/lib/lead-pipeline';
 import { verifyTurnstile } from '@/app/api/contact/contact-api-utils';
 import { OPTIONS, POST } from '../route';
 
@@ -27,7 +27,13 @@ vi.mock('@/lib/security/distributed-rate-limit', () => ({
   createRateLimitHeaders: vi.fn(() => new Headers()),
 }));
 
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn(),
+}));
+
 vi.mock('@/lib/lead-pipeline', () => ({
+  drainLeadOutboxInBackground: vi.fn(),
   processLead: vi.fn(() =>
     Promise.resolve({
       success: true,
@@ -106,6 +112,7 @@ describe('/api/inquiry route', () => {
       expect(data.success).toBe(true);
       expect(data.referenceId).toBe('ref-123');
       expect(processLead).toHaveBeenCalled();
+      expect(after).toHaveBeenCalledWith(drainLeadOutboxInBackground);
     });
 
     it('should return 429 when rate limited', async () => {
@@ -270,6 +277,31 @@ describe('/api/inquiry route', () => {
       const callArgs = vi.mocked(processLead).mock.calls[0]![0];
       expect(callArgs).not.toHaveProperty('turnstileToken');
     });
+
+    it('should pass marketing attribution to processLead', async () => {
+      const request = new NextRequest('http://localhost:3000/api/inquiry', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...validInquiryData,
+          utmSource: 'google',
+          utmCampaign: 'spring_sale',
+          gclid: 'g123',
+        }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      await POST(request);
+
+      expect(processLead).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attribution: {
+            utmSource: 'google',
+            utmCampaign: 'spring_sale',
+            gclid: 'g123',
+          },
+        }),
+      );
+    });
   });
 
   describe('OPTIONS', () => {
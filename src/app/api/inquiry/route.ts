@@ -3,11 +3,16 @@
  * Handles product-specific inquiries via product page drawer
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createCorsPreflightResponse } from '@/lib/api/cors-utils';
 import { getApiMessages, type ApiMessages } from '@/lib/api/get-request-locale';
 import { safeParseJson } from '@/lib/api/safe-parse-json';
-import { processLead, type LeadResult } from '@/lib/lead-pipeline';
+import {
+  drainLeadOutboxInBackground,
+  processLead,
+  type LeadResult,
+} from '@/lib/lead-pipeline';
+import { extractAttribution } from '@/lib/lead-pipeline/attribution';
 import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
 import { logger, sanitizeIP } from '@/lib/logger';
 import {
@@ -192,7 +197,12 @@ export async function POST(request: NextRequest) {
     if (turnstileError) return turnstileError;
 
     const { turnstileToken: _token, ...leadData } = parsedBody.data ?? {};
-    const result = await processLead({ type: LEAD_TYPES.PRODUCT, ...leadData });
+    const result = await processLead({
+      type: LEAD_TYPES.PRODUCT,
+      ...leadData,
+      attribution: extractAttribution(leadData),
+    });
+    after(drainLeadOutboxInBackground);
     const processingTime = Date.now() - startTime;
     const headers = createRateLimitHeaders(rateLimitResult);
 
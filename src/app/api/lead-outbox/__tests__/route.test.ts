@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { drainLeadOutbox } from '@/lib/lead-pipeline/lead-outbox';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+import { GET, POST } from '../route';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/lead-pipeline/lead-outbox', () => ({
+  drainLeadOutbox: vi.fn(),
+}));
+
+function createRequest(method: string, token?: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/lead-outbox', {
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('/api/lead-outbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    vi.mocked(drainLeadOutbox).mockResolvedValue({
+      processed: 2,
+      delivered: 1,
+      failed: 1,
+      deadLettered: 0,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    const response = await GET(createRequest('GET'));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      success: false,
+      errorCode: API_ERROR_CODES.UNAUTHORIZED,
+    });
+    expect(drainLeadOutbox).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid token', async () => {
+    const response = await POST(createRequest('POST', 'wrong-secret'));
+
+    expect(response.status).toBe(401);
+    expect(drainLeadOutbox).not.toHaveBeenCalled();
+  });
+
+  it('should reject all requests when CRON_SECRET is not configured', async () => {
+    vi.stubEnv('CRON_SECRET', '');
+
+    const response = await GET(createRequest('GET', 'cron-secret'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should drain the outbox and return the summary', async () => {
+    const response = await GET(createRequest('GET', 'cron-secret'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(body).toEqual({
+      success: true,
+      errorCode: API_ERROR_CODES.LEAD_OUTBOX_DRAINED,
+      processed: 2,
+      delivered: 1,
+      failed: 1,
+      deadLettered: 0,
+    });
+  });
+
+  it('should return 500 when draining fails', async () => {
+    vi.mocked(drainLeadOutbox).mockRejectedValue(new Error('store down'));
+
+    const response = await POST(createRequest('POST', 'cron-secret'));
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.errorCode).toBe(API_ERROR_CODES.LEAD_OUTBOX_DRAIN_FAILED);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Lead Outbox Drain API Route
+ *
+ * Retries lead deliveries (email, CRM, confirmation email) that failed
+ * inline and are due according to the outbox retry policy.
+ *
+ * Usage:
+ * GET|POST /api/lead-outbox
+ * Authorization: Bearer <CRON_SECRET>
+ *
+ * Vercel Cron calls GET with the CRON_SECRET bearer token automatically.
+ * Every lead submission also drains the outbox once it has been answered.
+ * The bundled schedule is daily (the Vercel Hobby limit); for retries to
+ * follow the backoff regardless of traffic, call the route every few
+ * minutes (Pro cron or an external scheduler).
+ *
+ * @see src/lib/lead-pipeline/lead-outbox.ts - Outbox orchestration
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasBearerSecret } from '@/lib/api/bearer-secret';
+import { drainLeadOutbox } from '@/lib/lead-pipeline/lead-outbox';
+import { logger } from '@/lib/logger';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_INTERNAL_ERROR = 500;
+
+async function handleDrain(request: NextRequest): Promise<NextResponse> {
+  if (
+    !hasBearerSecret(request, process.env.CRON_SECRET, {
+      secretName: 'CRON_SECRET',
+      endpoint: 'lead outbox drain',
+    })
+  ) {
+    return NextResponse.json(
+      { success: false, errorCode: API_ERROR_CODES.UNAUTHORIZED },
+      { status: HTTP_UNAUTHORIZED },
+    );
+  }
+
+  try {
+    const summary = await drainLeadOutbox();
+    return NextResponse.json(
+      {
+        success: true,
+        errorCode: API_ERROR_CODES.LEAD_OUTBOX_DRAINED,
+        ...summary,
+      },
+      { headers: { 'cache-control': 'no-store' } },
+    );
+  } catch (error) {
+    logger.error('Lead outbox drain failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      { success: false, errorCode: API_ERROR_CODES.LEAD_OUTBOX_DRAIN_FAILED },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
+
+export function GET(request: NextRequest) {
+  return handleDrain(request);
+}
+
+export function POST(request: NextRequest) {
+  return handleDrain(request);
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '../route';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+function createRequest(token?: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/metrics', {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('/api/metrics route', () => {
+  beforeEach(() => {
+    vi.stubEnv('MONITORING_SECRET', 'monitor-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should require the monitoring token', () => {
+    expect(GET(createRequest()).status).toBe(401);
+  });
+
+  it('should return Prometheus text format', async () => {
+    const response = GET(createRequest('monitor-secret'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe(
+      'text/plain; version=0.0.4',
+    );
+    const body = await response.text();
+    expect(body).toContain('# TYPE app_health_status gauge');
+    expect(body).toContain('service_configured{service="resend"}');
+  });
+});
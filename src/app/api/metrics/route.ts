@@ -0,0 +1,33 @@
+/**
+ * Prometheus Metrics API Route
+ *
+ * Exposes the detailed health report in the Prometheus text format.
+ *
+ * Usage:
+ * GET /api/metrics
+ * Authorization: Bearer <MONITORING_SECRET>
+ *
+ * Counters are per server instance and reset on cold start.
+ *
+ * @see src/lib/health/prometheus.ts - Metric names
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  formatPrometheusMetrics,
+  getDetailedHealth,
+  PROMETHEUS_CONTENT_TYPE,
+} from '@/lib/health';
+import { checkMonitoringAuth } from '@/app/api/health/health-api-utils';
+
+export function GET(request: NextRequest) {
+  const unauthorized = checkMonitoringAuth(request);
+  if (unauthorized) return unauthorized;
+
+  return new Response(formatPrometheusMetrics(getDetailedHealth()), {
+    headers: {
+      'content-type': PROMETHEUS_CONTENT_TYPE,
+      'cache-control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+import { GET } from '../route';
+
+const { mockIsSiteSearchEnabled, mockSearchSite } = vi.hoisted(() => ({
+  mockIsSiteSearchEnabled: vi.fn(),
+  mockSearchSite: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  sanitizeIP: (ip: string | undefined | null) =>
+    ip ? '[REDACTED_IP]' : '[NO_IP]',
+}));
+
+vi.mock('@/lib/security/distributed-rate-limit', () => ({
+  checkDistributedRateLimit: vi.fn(async () => ({
+    allowed: true,
+    remaining: 59,
+    resetTime: Date.now() + 60000,
+    retryAfter: null,
+  })),
+  createRateLimitHeaders: vi.fn(() => new Headers()),
+}));
+
+vi.mock('@/lib/search', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/search')>()),
+  isSiteSearchEnabled: mockIsSiteSearchEnabled,
+  searchSite: mockSearchSite,
+}));
+
+const BASE_URL = 'http://localhost:3000/api/search';
+
+function createResult() {
+  return {
+    type: 'products',
+    locale: 'en',
+    href: '/products/pump-a1',
+    score: 10,
+    highlights: ['…the A1 pump…'],
+    content: {
+      slug: 'pump-a1',
+      metadata: { title: 'A1 Pump', description: 'Centrifugal pump' },
+    },
+  };
+}
+
+describe('/api/search route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsSiteSearchEnabled.mockReturnValue(true);
+    mockSearchSite.mockReturnValue({
+      query: 'pump',
+      terms: ['pump'],
+      total: 1,
+      results: [createResult()],
+    });
+  });
+
+  it('should return ranked results with locale-prefixed links', async () => {
+    const response = await GET(
+      new NextRequest(`${BASE_URL}?q=pump&locale=en&type=products&limit=5`),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toContain('s-maxage=300');
+    expect(mockSearchSite).toHaveBeenCalledWith('pump', 'en', {
+      type: 'products',
+      limit: 5,
+    });
+    expect(await response.json()).toEqual({
+      success: true,
+      data: {
+        query: 'pump',
+        locale: 'en',
+        terms: ['pump'],
+        total: 1,
+        results: [
+          {
+            type: 'products',
+            slug: 'pump-a1',
+            title: 'A1 Pump',
+            description: 'Centrifugal pump',
+            href: '/en/products/pump-a1',
+            score: 10,
+            highlights: ['…the A1 pump…'],
+          },
+        ],
+      },
+    });
+  });
+
+  it.each([
+    ['q=%20%20&locale=en', API_ERROR_CODES.SEARCH_QUERY_REQUIRED],
+    ['q=pump', API_ERROR_CODES.INVALID_LOCALE_PARAMETER],
+    ['q=pump&locale=fr', API_ERROR_CODES.INVALID_LOCALE_PARAMETER],
+    ['q=pump&locale=en&type=faq', API_ERROR_CODES.SEARCH_INVALID_TYPE],
+  ])('should reject %s', async (query, errorCode) => {
+    const response = await GET(new NextRequest(`${BASE_URL}?${query}`));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, errorCode });
+    expect(mockSearchSite).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when search is disabled', async () => {
+    mockIsSiteSearchEnabled.mockReturnValue(false);
+
+    const response = await GET(new NextRequest(`${BASE_URL}?q=pump&locale=en`));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      success: false,
+      errorCode: API_ERROR_CODES.SEARCH_DISABLED,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Site Search API Route
+ *
+ * Full-text search across posts, products and pages of one locale.
+ *
+ * Usage:
+ * GET /api/search?q=pump&locale=en&type=products&limit=10
+ *   `locale` is required so the CDN cache key covers the result language,
+ *   `type` (posts | products | pages) and `limit` are optional
+ *
+ * @see src/lib/search/search.ts - Ranking and highlights
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ContentType, Locale } from '@/types/content.types';
+import { withRateLimit } from '@/lib/api/with-rate-limit';
+import {
+  isSiteSearchEnabled,
+  SEARCHABLE_CONTENT_TYPES,
+  searchSite,
+} from '@/lib/search';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+import { routing } from '@/i18n/routing-config';
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+// Results only change on deploy; let the CDN absorb repeated queries
+const CACHE_CONTROL = 'public, s-maxage=300, stale-while-revalidate=3600';
+
+function errorResponse(errorCode: string, status: number) {
+  return NextResponse.json({ success: false, errorCode }, { status });
+}
+
+function isLocale(value: string): value is Locale {
+  return (routing.locales as readonly string[]).includes(value);
+}
+
+function isContentType(value: string): value is ContentType {
+  return (SEARCHABLE_CONTENT_TYPES as readonly string[]).includes(value);
+}
+
+function handleGet(request: NextRequest): NextResponse {
+  if (!isSiteSearchEnabled()) {
+    return errorResponse(API_ERROR_CODES.SEARCH_DISABLED, HTTP_NOT_FOUND);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const locale = searchParams.get('locale');
+  if (locale === null || !isLocale(locale)) {
+    return errorResponse(
+      API_ERROR_CODES.INVALID_LOCALE_PARAMETER,
+      HTTP_BAD_REQUEST,
+    );
+  }
+  const type = searchParams.get('type');
+  if (type !== null && !isContentType(type)) {
+    return errorResponse(API_ERROR_CODES.SEARCH_INVALID_TYPE, HTTP_BAD_REQUEST);
+  }
+  const query = searchParams.get('q')?.trim() ?? '';
+  if (!query) {
+    return errorResponse(
+      API_ERROR_CODES.SEARCH_QUERY_REQUIRED,
+      HTTP_BAD_REQUEST,
+    );
+  }
+
+  const limit = Number.parseInt(searchParams.get('limit') ?? '', 10);
+  const response = searchSite(query, locale, {
+    ...(type !== null && { type }),
+    ...(Number.isFinite(limit) && { limit }),
+  });
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        query: response.query,
+        locale,
+        terms: response.terms,
+        total: response.total,
+        results: response.results.map((result) => ({
+          type: result.type,
+          slug: result.content.slug,
+          title: result.content.metadata.title,
+          description: result.content.metadata.description ?? '',
+          href: `/${locale}${result.href}`,
+          score: result.score,
+          highlights: result.highlights,
+        })),
+      },
+    },
+    { headers: { 'cache-control': CACHE_CONTROL } },
+  );
+}
+
+export const GET = withRateLimit('search', handleGet);
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkDistributedRateLimit } from '@/lib/security/distributed-rate-limit';
+import { POST } from '../route';
+
+const mockConfirm = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  sanitizeIP: (ip: string | undefined | null) =>
+    ip ? '[REDACTED_IP]' : '[NO_IP]',
+}));
+
+vi.mock('@/lib/security/distributed-rate-limit', () => ({
+  checkDistributedRateLimit: vi.fn(async () => ({
+    allowed: true,
+    remaining: 5,
+    resetTime: Date.now() + 60000,
+    retryAfter: null,
+  })),
+  createRateLimitHeaders: vi.fn(() => new Headers()),
+}));
+
+vi.mock('@/app/api/contact/contact-api-utils', () => ({
+  getClientIP: vi.fn(() => '192.168.1.1'),
+}));
+
+vi.mock('@/lib/newsletter', () => ({
+  confirmNewsletterSubscription: mockConfirm,
+}));
+
+function createRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/subscribe/confirm', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('/api/subscribe/confirm route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should confirm the subscription', async () => {
+    mockConfirm.mockResolvedValue({
+      success: true,
+      status: 'Subscribed',
+      locale: 'en',
+    });
+
+    const response = await POST(createRequest({ token: 'confirm-token' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      errorCode: 'NEWSLETTER_CONFIRMED',
+      status: 'Subscribed',
+    });
+    expect(mockConfirm).toHaveBeenCalledWith('confirm-token');
+  });
+
+  it('should reject invalid or expired tokens', async () => {
+    mockConfirm.mockResolvedValue({ success: false, error: 'INVALID_TOKEN' });
+
+    const response = await POST(createRequest({ token: 'expired' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      errorCode: 'NEWSLETTER_TOKEN_INVALID',
+    });
+  });
+
+  it('should reject requests without a token', async () => {
+    const response = await POST(createRequest({ token: 42 }));
+
+    expect(response.status).toBe(400);
+    expect(mockConfirm).not.toHaveBeenCalled();
+  });
+
+  it('should return 429 when rate limited', async () => {
+    vi.mocked(checkDistributedRateLimit).mockResolvedValueOnce({
+      allowed: false,
+      remaining: 0,
+      resetTime: Date.now() + 60000,
+      retryAfter: 60,
+    });
+
+    const response = await POST(createRequest({ token: 'confirm-token' }));
+
+    expect(response.status).toBe(429);
+    expect(mockConfirm).not.toHaveBeenCalled();
+  });
+});
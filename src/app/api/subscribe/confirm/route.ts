@@ -0,0 +1,43 @@
+/**
+ * Newsletter Confirmation API Route
+ *
+ * Completes the double opt-in: the localized confirm page posts the signed
+ * token from the confirmation email, and the CRM record is marked
+ * "Subscribed". Preference center tokens are accepted too (resubscribe).
+ *
+ * Usage:
+ * POST /api/subscribe/confirm
+ * { "token": "<signed token>" }
+ *
+ * @see src/lib/newsletter/subscription.ts - Status updates
+ */
+
+import { NextRequest } from 'next/server';
+import { createCorsPreflightResponse } from '@/lib/api/cors-utils';
+import { confirmNewsletterSubscription } from '@/lib/newsletter';
+import {
+  checkNewsletterRateLimit,
+  createInvalidTokenResponse,
+  createSubscriptionResponse,
+  readTokenFromBody,
+} from '@/app/api/subscribe/newsletter-api-utils';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+
+export async function POST(request: NextRequest) {
+  const rateLimited = await checkNewsletterRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const token = await readTokenFromBody(request, '/api/subscribe/confirm');
+  if (!token) return createInvalidTokenResponse();
+
+  const result = await confirmNewsletterSubscription(token);
+  return createSubscriptionResponse(
+    result,
+    API_ERROR_CODES.NEWSLETTER_CONFIRMED,
+  );
+}
+
+// 处理 OPTIONS 请求 (CORS)
+export function OPTIONS(request: NextRequest) {
+  return createCorsPreflightResponse(request);
+}
@@ -0,0 +1,94 @@
+/**
+ * Shared helpers for the signed newsletter link routes
+ * (`/api/subscribe/confirm`, `/api/unsubscribe`)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { safeParseJson } from '@/lib/api/safe-parse-json';
+import { logger, sanitizeIP } from '@/lib/logger';
+import type { NewsletterSubscriptionResult } from '@/lib/newsletter';
+import {
+  checkDistributedRateLimit,
+  createRateLimitHeaders,
+} from '@/lib/security/distributed-rate-limit';
+import { getClientIP } from '@/app/api/contact/contact-api-utils';
+import { HTTP_BAD_REQUEST_CONST } from '@/constants';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+
+const HTTP_INTERNAL_ERROR = 500;
+const HTTP_TOO_MANY_REQUESTS = 429;
+
+type ApiErrorCode = (typeof API_ERROR_CODES)[keyof typeof API_ERROR_CODES];
+
+/**
+ * Apply the newsletter rate limit
+ *
+ * @returns A 429 response when the limit is exceeded, otherwise null
+ */
+export async function checkNewsletterRateLimit(
+  request: NextRequest,
+): Promise<NextResponse | null> {
+  const clientIP = getClientIP(request);
+  const rateLimitResult = await checkDistributedRateLimit(
+    clientIP,
+    'newsletter',
+  );
+  if (rateLimitResult.allowed) return null;
+
+  logger.warn('Newsletter link rate limit exceeded', {
+    ip: sanitizeIP(clientIP),
+    retryAfter: rateLimitResult.retryAfter,
+  });
+  return NextResponse.json(
+    { success: false, errorCode: API_ERROR_CODES.RATE_LIMIT_EXCEEDED },
+    {
+      status: HTTP_TOO_MANY_REQUESTS,
+      headers: createRateLimitHeaders(rateLimitResult),
+    },
+  );
+}
+
+/**
+ * Read the token from a JSON body (`{ "token": "..." }`)
+ *
+ * @returns undefined when the body is invalid or has no token
+ */
+export async function readTokenFromBody(
+  request: NextRequest,
+  route: string,
+): Promise<string | undefined> {
+  const parsed = await safeParseJson<{ token?: unknown }>(request, { route });
+  if (!parsed.ok) return undefined;
+  const { token } = parsed.data;
+  return typeof token === 'string' && token !== '' ? token : undefined;
+}
+
+export function createInvalidTokenResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, errorCode: API_ERROR_CODES.NEWSLETTER_TOKEN_INVALID },
+    { status: HTTP_BAD_REQUEST_CONST },
+  );
+}
+
+/**
+ * Map a subscription update result to the API response
+ */
+export function createSubscriptionResponse(
+  result: NewsletterSubscriptionResult,
+  successCode: ApiErrorCode,
+): NextResponse {
+  if (result.success) {
+    return NextResponse.json(
+      { success: true, errorCode: successCode, status: result.status },
+      { headers: { 'cache-control': 'no-store' } },
+    );
+  }
+
+  if (result.error === 'INVALID_TOKEN') {
+    return createInvalidTokenResponse();
+  }
+  return NextResponse.json(
+    { success: false, errorCode: API_ERROR_CODES.NEWSLETTER_UPDATE_FAILED },
+    { status: HTTP_INTERNAL_ERROR },
+  );
+}
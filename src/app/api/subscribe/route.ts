@@ -1,10 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createCorsPreflightResponse } from '@/lib/api/cors-utils';
 import { safeParseJson as safeParseJsonHelper } from '@/lib/api/safe-parse-json';
 import { withIdempotency } from '@/lib/idempotency';
-import { processLead, type LeadResult } from '@/lib/lead-pipeline';
+import {
+  drainLeadOutboxInBackground,
+  processLead,
+  type LeadResult,
+} from '@/lib/lead-pipeline';
+import { extractAttribution } from '@/lib/lead-pipeline/attribution';
 import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
 import { logger, sanitizeEmail, sanitizeIP } from '@/lib/logger';
+import { resolveNewsletterLocale } from '@/lib/newsletter';
 import {
   checkDistributedRateLimit,
   createRateLimitHeaders,
@@ -94,6 +100,7 @@ export async function POST(request: NextRequest) {
   return withIdempotency(request, async () => {
     const parsedBody = await safeParseJson<{
       email?: string;
+      locale?: string;
       pageType?: string;
       turnstileToken?: string;
     }>(request);
@@ -149,14 +156,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Prepare lead input for newsletter subscription
+    // Prepare lead input for newsletter subscription; the locale picks the
+    // language of the double opt-in confirmation page
     const leadInput = {
       type: LEAD_TYPES.NEWSLETTER,
       email,
+      locale: resolveNewsletterLocale(parsedBody.data.locale),
+      attribution: extractAttribution(parsedBody.data),
     };
 
     // Process via unified Lead Pipeline
     const result = await processLead(leadInput);
+    after(drainLeadOutboxInBackground);
 
     return result.success
       ? createSuccessResponse(result, email)
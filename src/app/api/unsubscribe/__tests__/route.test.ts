@@ -0,0 +1,182 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '../route';
+
+const { mockUnsubscribe, mockVerifyToken, mockCheckRateLimit } = vi.hoisted(
+  () => ({
+    mockUnsubscribe: vi.fn(),
+    mockVerifyToken: vi.fn(),
+    mockCheckRateLimit: vi.fn(),
+  }),
+);
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  sanitizeIP: (ip: string | undefined | null) =>
+    ip ? '[REDACTED_IP]' : '[NO_IP]',
+}));
+
+vi.mock('@/lib/security/distributed-rate-limit', () => ({
+  checkDistributedRateLimit: mockCheckRateLimit,
+  createRateLimitHeaders: vi.fn(() => new Headers()),
+}));
+
+vi.mock('@/app/api/contact/contact-api-utils', () => ({
+  getClientIP: vi.fn(() => '192.168.1.1'),
+}));
+
+vi.mock('@/lib/newsletter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/newsletter')>()),
+  unsubscribeNewsletter: mockUnsubscribe,
+  verifyNewsletterToken: mockVerifyToken,
+}));
+
+const BASE_URL = 'http://localhost:3000/api/unsubscribe';
+
+describe('/api/unsubscribe route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyToken.mockResolvedValue(null);
+    mockCheckRateLimit.mockResolvedValue({
+      allowed: true,
+      remaining: 5,
+      resetTime: Date.now() + 60000,
+      retryAfter: null,
+    });
+    mockUnsubscribe.mockResolvedValue({
+      success: true,
+      status: 'Unsubscribed',
+      locale: 'en',
+    });
+  });
+
+  describe('POST', () => {
+    it('should handle one-click unsubscribe requests', async () => {
+      const request = new NextRequest(`${BASE_URL}?token=manage-token`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: 'List-Unsubscribe=One-Click',
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        success: true,
+        errorCode: 'NEWSLETTER_UNSUBSCRIBED',
+        status: 'Unsubscribed',
+      });
+      expect(mockUnsubscribe).toHaveBeenCalledWith('manage-token');
+    });
+
+    it('should exempt signed one-click requests from the IP limit', async () => {
+      mockCheckRateLimit.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        resetTime: Date.now() + 60000,
+        retryAfter: 60,
+      });
+      const oneClick = (token: string) =>
+        new NextRequest(`${BASE_URL}?token=${token}`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/x-www-form-urlencoded' },
+          body: 'List-Unsubscribe=One-Click',
+        });
+
+      mockVerifyToken.mockResolvedValueOnce({ email: 'a@example.com' });
+      const signed = await POST(oneClick('manage-token'));
+      const forged = await POST(oneClick('forged-token'));
+
+      expect(signed.status).toBe(200);
+      expect(forged.status).toBe(429);
+      expect(mockCheckRateLimit).toHaveBeenCalledTimes(1);
+      expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rate limit preference center requests', async () => {
+      mockCheckRateLimit.mockResolvedValue({
+        allowed: false,
+        remaining: 0,
+        resetTime: Date.now() + 60000,
+        retryAfter: 60,
+      });
+      mockVerifyToken.mockResolvedValue({ email: 'a@example.com' });
+
+      const response = await POST(
+        new NextRequest(`${BASE_URL}?token=manage-token`, { method: 'POST' }),
+      );
+
+      expect(response.status).toBe(429);
+      expect(mockUnsubscribe).not.toHaveBeenCalled();
+    });
+
+    it('should accept the token in a JSON body', async () => {
+      const request = new NextRequest(BASE_URL, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ token: 'manage-token' }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(mockUnsubscribe).toHaveBeenCalledWith('manage-token');
+    });
+
+    it('should reject requests without a token', async () => {
+      const request = new NextRequest(BASE_URL, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({
+        errorCode: 'NEWSLETTER_TOKEN_INVALID',
+      });
+      expect(mockUnsubscribe).not.toHaveBeenCalled();
+    });
+
+    it('should map failures to error responses', async () => {
+      mockUnsubscribe.mockResolvedValueOnce({
+        success: false,
+        error: 'INVALID_TOKEN',
+      });
+      mockUnsubscribe.mockResolvedValueOnce({
+        success: false,
+        error: 'UPDATE_FAILED',
+      });
+
+      const invalid = await POST(
+        new NextRequest(`${BASE_URL}?token=bad`, { method: 'POST' }),
+      );
+      const failed = await POST(
+        new NextRequest(`${BASE_URL}?token=manage-token`, { method: 'POST' }),
+      );
+
+      expect(invalid.status).toBe(400);
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toMatchObject({
+        errorCode: 'NEWSLETTER_UPDATE_FAILED',
+      });
+    });
+  });
+
+  describe('GET', () => {
+    it('should redirect to the localized preference center without unsubscribing', async () => {
+      mockVerifyToken.mockResolvedValue({ locale: 'zh' });
+
+      const response = await GET(
+        new NextRequest(`${BASE_URL}?token=manage-token`),
+      );
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get('location')).toMatch(
+        /\/zh\/newsletter\/preferences\?token=manage-token$/,
+      );
+      expect(mockUnsubscribe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Newsletter Unsubscribe API Route
+ *
+ * Usage:
+ * POST /api/unsubscribe?token=<signed token>
+ *   RFC 8058 one-click unsubscribe, sent by mailbox providers for the
+ *   `List-Unsubscribe` header (form body `List-Unsubscribe=One-Click`).
+ *   Requests with a valid signed token skip the per-IP rate limit, since
+ *   providers send them in bulk from shared IPs.
+ * POST /api/unsubscribe
+ *   { "token": "<signed token>" }, sent by the preference center
+ * GET /api/unsubscribe?token=<signed token>
+ *   Redirects to the localized preference center. GET never unsubscribes,
+ *   since link scanners prefetch URLs found in emails.
+ *
+ * @see src/lib/newsletter/subscription.ts - Status updates
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createCorsPreflightResponse } from '@/lib/api/cors-utils';
+import {
+  getNewsletterPageUrl,
+  NEWSLETTER_PAGES,
+  NEWSLETTER_TOKEN_PURPOSES,
+  resolveNewsletterLocale,
+  unsubscribeNewsletter,
+  verifyNewsletterToken,
+} from '@/lib/newsletter';
+import {
+  checkNewsletterRateLimit,
+  createInvalidTokenResponse,
+  createSubscriptionResponse,
+  readTokenFromBody,
+} from '@/app/api/subscribe/newsletter-api-utils';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+
+const HTTP_SEE_OTHER = 303;
+const ROUTE = '/api/unsubscribe';
+
+/**
+ * Whether the request is an RFC 8058 one-click unsubscribe carrying a token
+ * we signed; invalid tokens still count against the rate limit
+ */
+async function isSignedOneClickRequest(request: NextRequest): Promise<boolean> {
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) return false;
+
+  const body = await request
+    .clone()
+    .text()
+    .catch(() => '');
+  if (new URLSearchParams(body).get('List-Unsubscribe') !== 'One-Click') {
+    return false;
+  }
+  const payload = await verifyNewsletterToken(token, [
+    NEWSLETTER_TOKEN_PURPOSES.MANAGE,
+  ]).catch(() => null);
+  return Boolean(payload);
+}
+
+export async function POST(request: NextRequest) {
+  if (!(await isSignedOneClickRequest(request))) {
+    const rateLimited = await checkNewsletterRateLimit(request);
+    if (rateLimited) return rateLimited;
+  }
+
+  // One-click requests carry the token in the URL and a form body
+  const token =
+    request.nextUrl.searchParams.get('token') ||
+    (await readTokenFromBody(request, ROUTE));
+  if (!token) return createInvalidTokenResponse();
+
+  const result = await unsubscribeNewsletter(token);
+  return createSubscriptionResponse(
+    result,
+    API_ERROR_CODES.NEWSLETTER_UNSUBSCRIBED,
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') ?? '';
+  // The page shows the invalid-link state itself, so only the locale matters here
+  const payload = await verifyNewsletterToken(token, [
+    NEWSLETTER_TOKEN_PURPOSES.MANAGE,
+  ]).catch(() => null);
+
+  return NextResponse.redirect(
+    getNewsletterPageUrl(
+      NEWSLETTER_PAGES.PREFERENCES,
+      token,
+      resolveNewsletterLocale(payload?.locale),
+    ),
+    HTTP_SEE_OTHER,
+  );
+}
+
+// 处理 OPTIONS 请求 (CORS)
+export function OPTIONS(request: NextRequest) {
+  return createCorsPreflightResponse(request);
+}
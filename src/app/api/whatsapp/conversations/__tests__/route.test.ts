@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryConversationStore } from '@/lib/whatsapp/conversations/memory-store';
+import { GET } from '../route';
+
+const mockStore = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock('@/lib/whatsapp-service', async () => {
+  const { getServiceWindow } =
+    await import('@/lib/whatsapp/conversations/inbox');
+  return {
+    getConversationStore: () => mockStore.current,
+    getServiceWindow,
+  };
+});
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function createMockRequest(
+  query = '',
+  authorization = 'Bearer test-api-key-12345',
+): NextRequest {
+  return new NextRequest(
+    `http://localhost:3000/api/whatsapp/conversations${query}`,
+    { method: 'GET', headers: { Authorization: authorization } },
+  );
+}
+
+describe('WhatsApp Conversations Route', () => {
+  let store: MemoryConversationStore;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T12:00:00.000Z'));
+    vi.stubEnv('WHATSAPP_API_KEY', 'test-api-key-12345');
+    store = new MemoryConversationStore();
+    mockStore.current = store;
+    await store.appendMessage(
+      {
+        id: 'wamid.a',
+        phone: '111',
+        direction: 'inbound',
+        type: 'text',
+        text: 'Hello',
+        timestamp: '2026-03-02T11:00:00.000Z',
+      },
+      'Alice',
+    );
+    await store.appendMessage({
+      id: 'wamid.b',
+      phone: '222',
+      direction: 'inbound',
+      type: 'text',
+      text: 'Price?',
+      timestamp: '2026-03-01T08:00:00.000Z',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('should list conversations with their service window', async () => {
+    const response = await GET(createMockRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(data.conversations).toEqual([
+      expect.objectContaining({
+        phone: '111',
+        contactName: 'Alice',
+        serviceWindow: { open: true, expiresAt: '2026-03-03T11:00:00.000Z' },
+      }),
+      expect.objectContaining({
+        phone: '222',
+        serviceWindow: { open: false, expiresAt: '2026-03-02T08:00:00.000Z' },
+      }),
+    ]);
+  });
+
+  it('should honour the limit parameter', async () => {
+    const response = await GET(createMockRequest('?limit=1'));
+    const data = await response.json();
+
+    expect(data.conversations).toHaveLength(1);
+  });
+
+  it('should reject requests without a valid API key', async () => {
+    const response = await GET(createMockRequest('', 'Bearer wrong'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 500 when the store fails', async () => {
+    vi.spyOn(store, 'listConversations').mockRejectedValue(
+      new Error('Store unavailable'),
+    );
+
+    const response = await GET(createMockRequest());
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,151 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '../route';
+
+const mockReplyToConversation = vi.hoisted(() => vi.fn());
+const mockCheckDistributedRateLimit = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  replyToConversation: mockReplyToConversation,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/security/distributed-rate-limit', () => ({
+  checkDistributedRateLimit: mockCheckDistributedRateLimit,
+  createRateLimitHeaders: vi.fn(() => new Headers()),
+}));
+
+vi.mock('@/app/api/contact/contact-api-utils', () => ({
+  getClientIP: vi.fn(() => '127.0.0.1'),
+}));
+
+function createMockRequest(
+  body: Record<string, unknown>,
+  authorization = 'Bearer test-api-key-12345',
+): NextRequest {
+  return new NextRequest(
+    'http://localhost:3000/api/whatsapp/conversations/reply',
+    {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authorization,
+      },
+    },
+  );
+}
+
+describe('WhatsApp Conversation Reply Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('WHATSAPP_API_KEY', 'test-api-key-12345');
+    mockCheckDistributedRateLimit.mockResolvedValue({
+      allowed: true,
+      remaining: 10,
+      resetTime: Date.now() + 60000,
+      retryAfter: null,
+    });
+  });
+
+  it('should send the reply', async () => {
+    const result = {
+      success: true,
+      mode: 'text',
+      messageId: 'wamid.reply-1',
+      serviceWindow: { open: true, expiresAt: '2026-03-03T11:00:00.000Z' },
+    };
+    mockReplyToConversation.mockResolvedValue(result);
+
+    const response = await POST(
+      createMockRequest({
+        phone: '8613800000000',
+        text: 'Yes, we do.',
+        agent: 'alice',
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(result);
+    expect(mockReplyToConversation).toHaveBeenCalledWith('8613800000000', {
+      text: 'Yes, we do.',
+      agent: 'alice',
+    });
+  });
+
+  it('should return 409 when the service window is closed', async () => {
+    mockReplyToConversation.mockResolvedValue({
+      success: false,
+      serviceWindow: { open: false },
+      errorCode: 'service_window_closed',
+      error: 'The 24-hour customer service window is closed',
+    });
+
+    const response = await POST(
+      createMockRequest({ phone: '1', text: 'Hi', agent: 'alice' }),
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 400 when the template is not in the registry', async () => {
+    mockReplyToConversation.mockResolvedValue({
+      success: false,
+      serviceWindow: { open: false },
+      errorCode: 'invalid_template',
+      error: 'Invalid template message: Unknown template: follow_up',
+    });
+
+    const response = await POST(
+      createMockRequest({
+        phone: '1',
+        template: { name: 'follow_up', languageCode: 'en' },
+        agent: 'alice',
+      }),
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 502 when WhatsApp rejects the message', async () => {
+    mockReplyToConversation.mockResolvedValue({
+      success: false,
+      serviceWindow: { open: true },
+      errorCode: 'send_failed',
+      error: 'Rate limited',
+    });
+
+    const response = await POST(
+      createMockRequest({ phone: '1', text: 'Hi', agent: 'alice' }),
+    );
+
+    expect(response.status).toBe(502);
+  });
+
+  it('should return 500 when the reply throws', async () => {
+    mockReplyToConversation.mockRejectedValue(new Error('Store unavailable'));
+
+    const response = await POST(
+      createMockRequest({ phone: '1', text: 'Hi', agent: 'alice' }),
+    );
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should reject requests without a valid API key', async () => {
+    const response = await POST(
+      createMockRequest({ phone: '1', text: 'Hi' }, 'Bearer wrong'),
+    );
+
+    expect(response.status).toBe(401);
+    expect(mockReplyToConversation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * WhatsApp Conversation Reply API Route
+ *
+ * Sends an agent reply to a customer. Free-form text is only accepted
+ * inside Meta's 24-hour customer service window; outside it the request's
+ * template (or WHATSAPP_INBOX_FALLBACK_TEMPLATE) is sent instead. Templates
+ * missing from the template registry are rejected with 400.
+ *
+ * Usage:
+ * POST /api/whatsapp/conversations/reply
+ * Authorization: Bearer <WHATSAPP_API_KEY>
+ * { "phone": "8613800000000", "text": "...", "agent": "alice" }
+ * { "phone": "8613800000000", "template": { "name": "follow_up", "languageCode": "en" } }
+ *
+ * @see src/lib/whatsapp/conversations/inbox.ts - Inbox logic
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { safeParseJson } from '@/lib/api/safe-parse-json';
+import {
+  withRateLimit,
+  type RateLimitContext,
+} from '@/lib/api/with-rate-limit';
+import { logger } from '@/lib/logger';
+import { replyToConversation } from '@/lib/whatsapp-service';
+import { validateApiKey } from '@/app/api/whatsapp/whatsapp-api-utils';
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_CONFLICT = 409;
+const HTTP_BAD_GATEWAY = 502;
+const HTTP_INTERNAL_ERROR = 500;
+
+const REPLY_ERROR_STATUS = new Map<string | undefined, number>([
+  ['service_window_closed', HTTP_CONFLICT],
+  ['invalid_template', HTTP_BAD_REQUEST],
+]);
+
+const ReplySchema = z
+  .object({
+    phone: z.string().min(1, 'Recipient phone number is required'),
+    text: z.string().trim().min(1).max(4096).optional(),
+    template: z
+      .object({
+        name: z.string().min(1),
+        languageCode: z.string().min(1).default('en'),
+        parameters: z.array(z.string()).optional(),
+      })
+      .optional(),
+    agent: z.string().trim().min(1).max(100).default('agent'),
+  })
+  .refine((reply) => reply.text || reply.template, {
+    message: 'Provide "text" or "template"',
+  });
+
+async function handlePost(
+  request: NextRequest,
+  _ctx: RateLimitContext,
+): Promise<NextResponse> {
+  const authError = validateApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const parsedBody = await safeParseJson<unknown>(request, {
+    route: '/api/whatsapp/conversations/reply',
+  });
+  if (!parsedBody.ok) {
+    return NextResponse.json(
+      { error: parsedBody.error },
+      { status: HTTP_BAD_REQUEST },
+    );
+  }
+  const validation = ReplySchema.safeParse(parsedBody.data);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: validation.error.issues },
+      { status: HTTP_BAD_REQUEST },
+    );
+  }
+
+  try {
+    const { phone, ...reply } = validation.data;
+    const result = await replyToConversation(phone, reply);
+    if (result.success) {
+      return NextResponse.json(result);
+    }
+    return NextResponse.json(result, {
+      status: REPLY_ERROR_STATUS.get(result.errorCode) ?? HTTP_BAD_GATEWAY,
+    });
+  } catch (error) {
+    logger.error(
+      'WhatsApp conversation reply error',
+      {},
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return NextResponse.json(
+      { error: 'Failed to send reply' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
+
+/**
+ * POST /api/whatsapp/conversations/reply
+ */
+export const POST = withRateLimit('whatsapp', handlePost);
@@ -0,0 +1,60 @@
+/**
+ * WhatsApp Conversation List API Route
+ *
+ * Lists customer conversations for the agent inbox, most recent first.
+ *
+ * Usage:
+ * GET /api/whatsapp/conversations?limit=20
+ * Authorization: Bearer <WHATSAPP_API_KEY>
+ *
+ * @see src/lib/whatsapp/conversations/inbox.ts - Inbox logic
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { getConversationStore, getServiceWindow } from '@/lib/whatsapp-service';
+import {
+  parseLimitParam,
+  validateApiKey,
+} from '@/app/api/whatsapp/whatsapp-api-utils';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const HTTP_INTERNAL_ERROR = 500;
+
+export async function GET(request: NextRequest) {
+  const authError = validateApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const limit = parseLimitParam(
+    request.nextUrl.searchParams.get('limit'),
+    DEFAULT_LIMIT,
+    MAX_LIMIT,
+  );
+
+  try {
+    const conversations = await getConversationStore().listConversations(limit);
+    const now = new Date();
+    return NextResponse.json(
+      {
+        conversations: conversations.map((conversation) => ({
+          ...conversation,
+          serviceWindow: getServiceWindow(conversation, now),
+        })),
+      },
+      { headers: { 'cache-control': 'no-store' } },
+    );
+  } catch (error) {
+    logger.error(
+      'WhatsApp conversation list error',
+      {},
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return NextResponse.json(
+      { error: 'Failed to load conversations' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryConversationStore } from '@/lib/whatsapp/conversations/memory-store';
+import { GET } from '../route';
+
+const mockStore = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock('@/lib/whatsapp-service', async () => {
+  const { getServiceWindow } =
+    await import('@/lib/whatsapp/conversations/inbox');
+  return {
+    getConversationStore: () => mockStore.current,
+    getServiceWindow,
+  };
+});
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function createMockRequest(
+  query: string,
+  authorization = 'Bearer test-api-key-12345',
+): NextRequest {
+  return new NextRequest(
+    `http://localhost:3000/api/whatsapp/conversations/thread${query}`,
+    { method: 'GET', headers: { Authorization: authorization } },
+  );
+}
+
+describe('WhatsApp Conversation Thread Route', () => {
+  let store: MemoryConversationStore;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubEnv('WHATSAPP_API_KEY', 'test-api-key-12345');
+    store = new MemoryConversationStore();
+    mockStore.current = store;
+    for (const id of ['wamid.1', 'wamid.2', 'wamid.3']) {
+      await store.appendMessage({
+        id,
+        phone: '8613800000000',
+        direction: 'inbound',
+        type: 'text',
+        text: id,
+        timestamp: '2026-03-02T11:00:00.000Z',
+      });
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should return the thread for a formatted phone number', async () => {
+    const response = await GET(
+      createMockRequest('?phone=%2B86%20138-0000-0000&limit=2'),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.conversation.phone).toBe('8613800000000');
+    expect(data.messages.map((message: { id: string }) => message.id)).toEqual([
+      'wamid.2',
+      'wamid.3',
+    ]);
+    expect(data.serviceWindow).toHaveProperty('open');
+  });
+
+  it('should return 400 without a phone number', async () => {
+    const response = await GET(createMockRequest(''));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for an unknown conversation', async () => {
+    const response = await GET(createMockRequest('?phone=999'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject requests without a valid API key', async () => {
+    const response = await GET(createMockRequest('?phone=1', 'Bearer wrong'));
+
+    expect(response.status).toBe(401);
+  });
+});
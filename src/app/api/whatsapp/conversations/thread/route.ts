@@ -0,0 +1,72 @@
+/**
+ * WhatsApp Conversation Thread API Route
+ *
+ * Returns the message history of one customer with the state of the
+ * 24-hour customer service window.
+ *
+ * Usage:
+ * GET /api/whatsapp/conversations/thread?phone=<number>&limit=50
+ * Authorization: Bearer <WHATSAPP_API_KEY>
+ *
+ * @see src/lib/whatsapp/conversations/inbox.ts - Inbox logic
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { getConversationStore, getServiceWindow } from '@/lib/whatsapp-service';
+import { normalizeConversationPhone } from '@/lib/whatsapp/conversations/inbox';
+import { MAX_THREAD_MESSAGES } from '@/lib/whatsapp/conversations/memory-store';
+import {
+  parseLimitParam,
+  validateApiKey,
+} from '@/app/api/whatsapp/whatsapp-api-utils';
+
+const DEFAULT_LIMIT = 50;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+export async function GET(request: NextRequest) {
+  const authError = validateApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const { searchParams } = request.nextUrl;
+  const phone = normalizeConversationPhone(searchParams.get('phone') ?? '');
+  if (!phone) {
+    return NextResponse.json(
+      { error: 'Query parameter "phone" is required' },
+      { status: HTTP_BAD_REQUEST },
+    );
+  }
+  const limit = parseLimitParam(
+    searchParams.get('limit'),
+    DEFAULT_LIMIT,
+    MAX_THREAD_MESSAGES,
+  );
+
+  try {
+    const thread = await getConversationStore().getThread(phone, limit);
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: HTTP_NOT_FOUND },
+      );
+    }
+    return NextResponse.json(
+      { ...thread, serviceWindow: getServiceWindow(thread.conversation) },
+      { headers: { 'cache-control': 'no-store' } },
+    );
+  } catch (error) {
+    logger.error(
+      'WhatsApp conversation thread error',
+      {},
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return NextResponse.json(
+      { error: 'Failed to load conversation' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
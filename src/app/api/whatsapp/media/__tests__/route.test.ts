@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '../route';
+
+const mockGetMedia = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', async () => ({
+  getMediaStorage: () => ({ get: mockGetMedia }),
+  isMediaStorageKey: (
+    await vi.importActual<typeof import('@/lib/whatsapp/media/types')>(
+      '@/lib/whatsapp/media/types',
+    )
+  ).isMediaStorageKey,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function createMockRequest(
+  key?: string,
+  authorization = 'Bearer test-api-key-12345',
+): NextRequest {
+  const url = new URL('http://localhost:3000/api/whatsapp/media');
+  if (key !== undefined) {
+    url.searchParams.set('key', key);
+  }
+  return new NextRequest(url.toString(), {
+    method: 'GET',
+    headers: { Authorization: authorization },
+  });
+}
+
+describe('WhatsApp Media Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('WHATSAPP_API_KEY', 'test-api-key-12345');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should serve stored media with its content type', async () => {
+    mockGetMedia.mockResolvedValue({
+      data: Buffer.from('%PDF-1.7'),
+      contentType: 'application/pdf',
+    });
+
+    const response = await GET(createMockRequest('8613800000000/wamid.1.pdf'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/pdf');
+    expect(response.headers.get('content-disposition')).toBe(
+      'inline; filename="wamid.1.pdf"',
+    );
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(await response.text()).toBe('%PDF-1.7');
+    expect(mockGetMedia).toHaveBeenCalledWith('8613800000000/wamid.1.pdf');
+  });
+
+  it('should return 404 for unknown keys', async () => {
+    mockGetMedia.mockResolvedValue(null);
+
+    const response = await GET(createMockRequest('8613800000000/missing.pdf'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject missing and malformed keys', async () => {
+    expect((await GET(createMockRequest())).status).toBe(400);
+    expect((await GET(createMockRequest('../secrets.json'))).status).toBe(400);
+    expect(mockGetMedia).not.toHaveBeenCalled();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(
+      createMockRequest('8613800000000/wamid.1.pdf', 'Bearer wrong'),
+    );
+
+    expect(response.status).toBe(401);
+    expect(mockGetMedia).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when storage fails', async () => {
+    mockGetMedia.mockRejectedValue(new Error('disk error'));
+
+    const response = await GET(createMockRequest('8613800000000/wamid.1.pdf'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * WhatsApp Inbound Media API Route
+ *
+ * Serves a file a customer sent, from the copy stored by the media
+ * ingestion pipeline. The storage key is listed on the message in the
+ * conversation thread (`media.ingestion.storageKey`).
+ *
+ * Usage:
+ * GET /api/whatsapp/media?key=<storageKey>
+ * Authorization: Bearer <WHATSAPP_API_KEY>
+ *
+ * @see src/lib/whatsapp/media/ingest.ts - Media ingestion
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { getMediaStorage, isMediaStorageKey } from '@/lib/whatsapp-service';
+import { validateApiKey } from '@/app/api/whatsapp/whatsapp-api-utils';
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+export async function GET(request: NextRequest) {
+  const authError = validateApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const key = request.nextUrl.searchParams.get('key')?.trim() ?? '';
+  if (!isMediaStorageKey(key)) {
+    return NextResponse.json(
+      { error: 'Query parameter "key" must be a media storage key' },
+      { status: HTTP_BAD_REQUEST },
+    );
+  }
+
+  try {
+    const object = await getMediaStorage().get(key);
+    if (!object) {
+      return NextResponse.json(
+        { error: 'Media not found' },
+        { status: HTTP_NOT_FOUND },
+      );
+    }
+    return new NextResponse(new Uint8Array(object.data), {
+      headers: {
+        'content-type': object.contentType,
+        'content-length': String(object.data.length),
+        'content-disposition': `inline; filename="${key.split('/').pop()}"`,
+        'x-content-type-options': 'nosniff',
+        'cache-control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    logger.error(
+      'WhatsApp media download error',
+      {},
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return NextResponse.json(
+      { error: 'Failed to load media' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
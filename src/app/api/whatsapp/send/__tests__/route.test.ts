@@ -4,10 +4,23 @@ import { GET, POST } from '../route';
 
 // Mock dependencies
 const mockSendWhatsAppMessage = vi.hoisted(() => vi.fn());
+const mockRecordAcceptedMessage = vi.hoisted(() => vi.fn());
+const mockEnqueueWhatsAppMessage = vi.hoisted(() => vi.fn());
 const mockCheckDistributedRateLimit = vi.hoisted(() => vi.fn());
+const mockDrainWhatsAppSendQueueSoon = vi.hoisted(() => vi.fn());
+const mockAfter = vi.hoisted(() => vi.fn());
+
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: mockAfter,
+}));
 
 vi.mock('@/lib/whatsapp-service', () => ({
   sendWhatsAppMessage: mockSendWhatsAppMessage,
+  recordAcceptedMessage: mockRecordAcceptedMessage,
+  recordOutboundMessage: vi.fn(),
+  enqueueWhatsAppMessage: mockEnqueueWhatsAppMessage,
+  drainWhatsAppSendQueueSoon: mockDrainWhatsAppSendQueueSoon,
   getClientEnvironmentInfo: vi.fn(() => ({
     environment: 'test',
     clientType: 'mock',
@@ -167,8 +180,17 @@ describe('WhatsApp Send Route', () => {
         to: '+1234567890',
         type: 'template',
         content: {
-          templateName: 'welcome_message',
+          templateName: 'inquiry_received',
           languageCode: 'en',
+          components: [
+            {
+              type: 'body',
+              parameters: [
+                { type: 'text', text: 'John' },
+                { type: 'text', text: 'CON-123' },
+              ],
+            },
+          ],
         },
       });
 
@@ -182,7 +204,7 @@ describe('WhatsApp Send Route', () => {
           messaging_product: 'whatsapp',
           type: 'template',
           template: expect.objectContaining({
-            name: 'welcome_message',
+            name: 'inquiry_received',
             language: expect.objectContaining({ code: 'en' }),
           }),
         }),
@@ -194,7 +216,7 @@ describe('WhatsApp Send Route', () => {
         to: '+1234567890',
         type: 'template',
         content: {
-          templateName: 'order_confirmation',
+          templateName: 'inquiry_received',
           languageCode: 'en',
           components: [
             {
@@ -246,6 +268,180 @@ describe('WhatsApp Send Route', () => {
         'Template message requires "templateName" in content',
       );
     });
+
+    it('should return 400 for a template missing from the registry', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'template',
+        content: {
+          templateName: 'inquiry_recieved',
+          languageCode: 'en',
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid template message');
+      expect(data.details).toEqual(['Unknown template: inquiry_recieved']);
+      expect(mockSendWhatsAppMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the parameter count does not match', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'template',
+        content: {
+          templateName: 'inquiry_received',
+          languageCode: 'zh_CN',
+          components: [
+            { type: 'body', parameters: [{ type: 'text', text: 'John' }] },
+          ],
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details).toEqual(['Body expects 2 parameters, got 1']);
+      expect(mockSendWhatsAppMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a language the template is not approved in', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'template',
+        content: {
+          templateName: 'inquiry_received',
+          languageCode: 'de',
+          components: [
+            {
+              type: 'body',
+              parameters: [
+                { type: 'text', text: 'John' },
+                { type: 'text', text: 'CON-123' },
+              ],
+            },
+          ],
+        },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details).toEqual([
+        'Template inquiry_received is not approved in de (available: en, zh_CN)',
+      ]);
+    });
+  });
+
+  describe('POST - Queued Delivery', () => {
+    beforeEach(() => {
+      mockEnqueueWhatsAppMessage.mockImplementation(
+        (_message: unknown, options: { sendAt: number }) =>
+          Promise.resolve({
+            id: 'wajob_1',
+            status: 'queued',
+            sendAt: options.sendAt,
+          }),
+      );
+    });
+
+    it('should queue the message and return a job ID', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'text',
+        delivery: 'queued',
+        content: { body: 'Hello' },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(data).toMatchObject({
+        success: true,
+        jobId: 'wajob_1',
+        status: 'queued',
+      });
+      expect(mockEnqueueWhatsAppMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ to: '+1234567890', type: 'text' }),
+        { sendAt: expect.any(Number) },
+      );
+      expect(mockSendWhatsAppMessage).not.toHaveBeenCalled();
+      expect(mockRecordAcceptedMessage).not.toHaveBeenCalled();
+    });
+
+    it('should drain the queue after responding', async () => {
+      mockDrainWhatsAppSendQueueSoon.mockResolvedValue(undefined);
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'text',
+        delivery: 'queued',
+        content: { body: 'Hello' },
+      });
+
+      await POST(request);
+
+      expect(mockAfter).toHaveBeenCalledTimes(1);
+      expect(mockDrainWhatsAppSendQueueSoon).not.toHaveBeenCalled();
+      await mockAfter.mock.calls[0]?.[0]();
+      expect(mockDrainWhatsAppSendQueueSoon).toHaveBeenCalledTimes(1);
+    });
+
+    it('should schedule the message with sendAt', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'text',
+        sendAt: '2030-01-15T09:00:00+08:00',
+        content: { body: 'Good morning' },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(202);
+      expect(data.sendAt).toBe('2030-01-15T01:00:00.000Z');
+      expect(mockEnqueueWhatsAppMessage).toHaveBeenCalledWith(
+        expect.anything(),
+        { sendAt: Date.parse('2030-01-15T01:00:00Z') },
+      );
+    });
+
+    it('should return 400 for an invalid sendAt', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'text',
+        sendAt: 'tomorrow morning',
+        content: { body: 'Hello' },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('"sendAt" must be an ISO 8601 date-time');
+      expect(mockEnqueueWhatsAppMessage).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for sendAt with inline delivery', async () => {
+      const request = createMockRequest('POST', {
+        to: '+1234567890',
+        type: 'text',
+        delivery: 'inline',
+        sendAt: '2030-01-15T09:00:00Z',
+        content: { body: 'Hello' },
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('"sendAt" requires queued delivery');
+    });
   });
 
   describe('POST - Validation Errors', () => {
@@ -558,6 +754,10 @@ describe('WhatsApp Send Route', () => {
       const data = await response.json();
 
       expect(data.messageId).toBe('wamid.abc123');
+      expect(mockRecordAcceptedMessage).toHaveBeenCalledWith(
+        'wamid.abc123',
+        '+1234567890',
+      );
     });
 
     it('should handle missing messages array', async () => {
@@ -577,6 +777,7 @@ describe('WhatsApp Send Route', () => {
 
       expect(data.messageId).toBeUndefined();
       expect(data.success).toBe(true);
+      expect(mockRecordAcceptedMessage).not.toHaveBeenCalled();
     });
 
     it('should handle empty messages array', async () => {
@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '../route';
+
+const mockGetWhatsAppSendJob = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  getWhatsAppSendJob: mockGetWhatsAppSendJob,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function createMockRequest(
+  jobId?: string,
+  authorization = 'Bearer test-api-key-12345',
+): NextRequest {
+  const url = new URL('http://localhost:3000/api/whatsapp/send/jobs');
+  if (jobId !== undefined) {
+    url.searchParams.set('jobId', jobId);
+  }
+  return new NextRequest(url.toString(), {
+    method: 'GET',
+    headers: { Authorization: authorization },
+  });
+}
+
+describe('WhatsApp Send Jobs Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('WHATSAPP_API_KEY', 'test-api-key-12345');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should return the job status', async () => {
+    mockGetWhatsAppSendJob.mockResolvedValue({
+      id: 'wajob_1',
+      message: {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: '1234567890',
+        type: 'text',
+        text: { body: 'Hello' },
+      },
+      phoneNumberId: 'phone-1',
+      status: 'sent',
+      attempts: 2,
+      sendAt: Date.parse('2026-03-02T10:00:00Z'),
+      nextAttemptAt: null,
+      messageId: 'wamid.abc123',
+      lastError: 'HTTP 503',
+      createdAt: '2026-03-02T09:59:00.000Z',
+      updatedAt: '2026-03-02T10:00:30.000Z',
+    });
+
+    const response = await GET(createMockRequest('wajob_1'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(await response.json()).toEqual({
+      jobId: 'wajob_1',
+      status: 'sent',
+      to: '1234567890',
+      type: 'text',
+      attempts: 2,
+      sendAt: '2026-03-02T10:00:00.000Z',
+      nextAttemptAt: null,
+      messageId: 'wamid.abc123',
+      lastError: 'HTTP 503',
+      createdAt: '2026-03-02T09:59:00.000Z',
+      updatedAt: '2026-03-02T10:00:30.000Z',
+    });
+  });
+
+  it('should return 404 for unknown job IDs', async () => {
+    mockGetWhatsAppSendJob.mockResolvedValue(null);
+
+    const response = await GET(createMockRequest('wajob_missing'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should require the jobId parameter', async () => {
+    const response = await GET(createMockRequest());
+
+    expect(response.status).toBe(400);
+    expect(mockGetWhatsAppSendJob).not.toHaveBeenCalled();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(createMockRequest('wajob_1', 'Bearer wrong'));
+
+    expect(response.status).toBe(401);
+    expect(mockGetWhatsAppSendJob).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the store fails', async () => {
+    mockGetWhatsAppSendJob.mockRejectedValue(new Error('store down'));
+
+    const response = await GET(createMockRequest('wajob_1'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * WhatsApp Send Job Status API Route
+ *
+ * Reports the state of a message queued through `/api/whatsapp/send`
+ * (`queued` → `sent` or `failed`). Once sent, the job carries the message
+ * ID to follow on `/api/whatsapp/status`.
+ *
+ * Usage:
+ * GET /api/whatsapp/send/jobs?jobId=<jobId>
+ * Authorization: Bearer <WHATSAPP_API_KEY>
+ *
+ * @see src/lib/whatsapp/send-queue/queue.ts - Send queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { getWhatsAppSendJob } from '@/lib/whatsapp-service';
+import { validateApiKey } from '@/app/api/whatsapp/whatsapp-api-utils';
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+export async function GET(request: NextRequest) {
+  const authError = validateApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const jobId = request.nextUrl.searchParams.get('jobId')?.trim();
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'Query parameter "jobId" is required' },
+      { status: HTTP_BAD_REQUEST },
+    );
+  }
+
+  try {
+    const job = await getWhatsAppSendJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Unknown job ID' },
+        { status: HTTP_NOT_FOUND },
+      );
+    }
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        to: job.message.to,
+        type: job.message.type,
+        attempts: job.attempts,
+        sendAt: new Date(job.sendAt).toISOString(),
+        nextAttemptAt:
+          job.nextAttemptAt === null
+            ? null
+            : new Date(job.nextAttemptAt).toISOString(),
+        messageId: job.messageId ?? null,
+        lastError: job.lastError ?? null,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+      },
+      { headers: { 'cache-control': 'no-store' } },
+    );
+  } catch (error) {
+    logger.error(
+      'WhatsApp send job lookup error',
+      { jobId },
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return NextResponse.json(
+      { error: 'Failed to load send job' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '../route';
+
+const mockDrainWhatsAppSendQueue = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  drainWhatsAppSendQueue: mockDrainWhatsAppSendQueue,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function createRequest(method: string, token?: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/whatsapp/send/queue', {
+    method,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('/api/whatsapp/send/queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    mockDrainWhatsAppSendQueue.mockResolvedValue({
+      processed: 3,
+      sent: 2,
+      failed: 0,
+      retried: 1,
+      deferred: 1,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should drain the queue for the cron secret', async () => {
+    const response = await GET(createRequest('GET', 'cron-secret'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      processed: 3,
+      sent: 2,
+      failed: 0,
+      retried: 1,
+      deferred: 1,
+    });
+  });
+
+  it('should reject missing or invalid tokens', async () => {
+    expect((await GET(createRequest('GET'))).status).toBe(401);
+    expect((await POST(createRequest('POST', 'wrong'))).status).toBe(401);
+    expect(mockDrainWhatsAppSendQueue).not.toHaveBeenCalled();
+  });
+
+  it('should reject all requests when CRON_SECRET is not configured', async () => {
+    vi.stubEnv('CRON_SECRET', '');
+
+    const response = await POST(createRequest('POST', 'cron-secret'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 500 when draining fails', async () => {
+    mockDrainWhatsAppSendQueue.mockRejectedValue(new Error('store down'));
+
+    const response = await POST(createRequest('POST', 'cron-secret'));
+
+    expect(response.status).toBe(500);
+  });
+});
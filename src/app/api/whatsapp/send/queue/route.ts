@@ -0,0 +1,64 @@
+/**
+ * WhatsApp Send Queue Drain API Route
+ *
+ * Sends queued messages that are due, within the per-recipient and
+ * per-phone-number throughput limits.
+ *
+ * Usage:
+ * GET|POST /api/whatsapp/send/queue
+ * Authorization: Bearer <CRON_SECRET>
+ *
+ * Vercel Cron calls GET with the CRON_SECRET bearer token automatically.
+ * Queued sends are drained right after they are queued; the bundled daily
+ * schedule (the Vercel Hobby limit) is a backstop. `sendAt` schedules and
+ * retry backoff need a per-minute cron (Pro) or an external scheduler to go
+ * out on time.
+ *
+ * @see src/lib/whatsapp/send-queue/queue.ts - Send queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasBearerSecret } from '@/lib/api/bearer-secret';
+import { logger } from '@/lib/logger';
+import { drainWhatsAppSendQueue } from '@/lib/whatsapp-service';
+
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_INTERNAL_ERROR = 500;
+
+async function handleDrain(request: NextRequest): Promise<NextResponse> {
+  if (
+    !hasBearerSecret(request, process.env.CRON_SECRET, {
+      secretName: 'CRON_SECRET',
+      endpoint: 'WhatsApp send queue drain',
+    })
+  ) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: HTTP_UNAUTHORIZED },
+    );
+  }
+
+  try {
+    const summary = await drainWhatsAppSendQueue();
+    return NextResponse.json(
+      { success: true, ...summary },
+      { headers: { 'cache-control': 'no-store' } },
+    );
+  } catch (error) {
+    logger.error('WhatsApp send queue drain failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      { error: 'Failed to drain send queue' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
+
+export function GET(request: NextRequest) {
+  return handleDrain(request);
+}
+
+export function POST(request: NextRequest) {
+  return handleDrain(request);
+}
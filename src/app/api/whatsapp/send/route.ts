@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import type { SendMessageRequest, TemplateComponent } from '@/types/whatsapp';
 import { safeParseJson } from '@/lib/api/safe-parse-json';
@@ -7,11 +7,18 @@ import {
   type RateLimitContext,
 } from '@/lib/api/with-rate-limit';
 import { logger } from '@/lib/logger';
-import { constantTimeCompare } from '@/lib/security-crypto';
 import {
+  drainWhatsAppSendQueueSoon,
+  enqueueWhatsAppMessage,
   getClientEnvironmentInfo,
+  recordAcceptedMessage,
+  recordOutboundMessage,
   sendWhatsAppMessage,
 } from '@/lib/whatsapp-service';
+import { WHATSAPP_TEMPLATE_REGISTRY } from '@/lib/whatsapp-templates.generated';
+import { isRetryableSendError } from '@/lib/whatsapp/send-queue/retry-policy';
+import { validateTemplateSend } from '@/lib/whatsapp/template-registry';
+import { validateApiKey } from '@/app/api/whatsapp/whatsapp-api-utils';
 import { COUNT_THREE } from '@/constants/count';
 import {
   FIVE_SECONDS_MS,
@@ -19,62 +26,14 @@ import {
   TWO_SECONDS_MS,
 } from '@/constants/time';
 
-// HTTP status codes
-const HTTP_UNAUTHORIZED = 401;
-const HTTP_SERVICE_UNAVAILABLE = 503;
-
-/**
- * Validate API key authentication. WHATSAPP_API_KEY is mandatory.
- * Returns null if validation passes, or NextResponse if it fails.
- */
-function validateApiKey(request: NextRequest): NextResponse | null {
-  const configuredApiKey = process.env.WHATSAPP_API_KEY;
-
-  // API key is mandatory - return 503 if not configured
-  if (!configuredApiKey) {
-    logger.warn('WhatsApp API: WHATSAPP_API_KEY not configured');
-    return NextResponse.json(
-      { error: 'WhatsApp API service not configured' },
-      { status: HTTP_SERVICE_UNAVAILABLE },
-    );
-  }
-
-  const authHeader = request.headers.get('Authorization');
-  if (!authHeader) {
-    logger.warn('WhatsApp API: Missing Authorization header');
-    return NextResponse.json(
-      { error: 'Authentication required' },
-      { status: HTTP_UNAUTHORIZED },
-    );
-  }
-
-  // Extract Bearer token
-  const bearerMatch = authHeader.match(/^Bearer\s+(.+)$/i);
-  if (!bearerMatch) {
-    logger.warn('WhatsApp API: Invalid Authorization header format');
-    return NextResponse.json(
-      { error: 'Invalid authentication format' },
-      { status: HTTP_UNAUTHORIZED },
-    );
-  }
-
-  const providedKey = (bearerMatch[1] ?? '').trim();
-  // Use constant-time comparison to prevent timing attacks
-  if (!providedKey || !constantTimeCompare(providedKey, configuredApiKey)) {
-    logger.warn('WhatsApp API: Invalid API key provided');
-    return NextResponse.json(
-      { error: 'Invalid credentials' },
-      { status: HTTP_UNAUTHORIZED },
-    );
-  }
-
-  return null;
-}
-
 /**
  * WhatsApp Send Message API Endpoint
  *
- * Supports text messages and template messages with retry logic.
+ * Supports text messages and template messages with retry logic. Template
+ * messages are checked against the local template registry before sending.
+ *
+ * With `delivery: "queued"` (implied by `sendAt`) the message is queued and
+ * a job ID is returned right away; see `/api/whatsapp/send/jobs`.
  */
 
 // Request body validation schema
@@ -83,6 +42,8 @@ const SendMessageSchema = z.object({
   type: z.enum(['text', 'template'], {
     message: 'Message type must be "text" or "template"',
   }),
+  delivery: z.enum(['inline', 'queued']).optional(),
+  sendAt: z.string().optional(),
   content: z.object({
     body: z.string().optional(),
     templateName: z.string().optional(),
@@ -156,23 +117,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/**
- * Check if error is retryable (network issues, rate limits)
- */
-function isRetryableError(error: unknown): boolean {
-  if (error instanceof Error) {
-    const message = error.message.toLowerCase();
-    return (
-      message.includes('network') ||
-      message.includes('timeout') ||
-      message.includes('rate limit') ||
-      message.includes('429') ||
-      message.includes('503')
-    );
-  }
-  return false;
-}
-
 /**
  * Validate message content
  */
@@ -197,6 +141,25 @@ function validateMessageContent(
   return null;
 }
 
+/**
+ * Validate a template message against the template registry
+ */
+function validateTemplateContent(
+  content: Record<string, unknown>,
+): NextResponse | null {
+  const validation = validateTemplateSend({
+    name: content.templateName as string,
+    language: (content.languageCode as string) || 'en',
+    components: (content.components as TemplateComponent[]) ?? [],
+  });
+  if (validation.isValid) return null;
+
+  return NextResponse.json(
+    { error: 'Invalid template message', details: validation.errors },
+    { status: 400 },
+  );
+}
+
 /**
  * Build WhatsApp message object
  */
@@ -247,6 +210,33 @@ interface ParsedRequest {
   to: string;
   type: string;
   content: Record<string, unknown>;
+  /** Set for queued sends: epoch ms to send at */
+  sendAt?: number;
+}
+
+/**
+ * Resolve queued delivery options
+ * @returns the send time for queued sends, undefined for inline sends
+ */
+function parseDeliveryOptions(body: {
+  delivery?: string | undefined;
+  sendAt?: string | undefined;
+}): { error?: NextResponse; sendAt?: number } {
+  if (body.sendAt === undefined) {
+    return body.delivery === 'queued' ? { sendAt: Date.now() } : {};
+  }
+
+  const sendAt = Date.parse(body.sendAt);
+  let error: string | undefined;
+  if (Number.isNaN(sendAt)) {
+    error = '"sendAt" must be an ISO 8601 date-time';
+  } else if (body.delivery === 'inline') {
+    error = '"sendAt" requires queued delivery';
+  }
+  if (error) {
+    return { error: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { sendAt };
 }
 
 async function parseSendMessageRequest(
@@ -275,12 +265,25 @@ async function parseSendMessageRequest(
   }
 
   const { to, type, content } = validationResult.data;
-  const contentValidationError = validateMessageContent(type, content);
+  const delivery = parseDeliveryOptions(validationResult.data);
+  if (delivery.error) {
+    return { error: delivery.error };
+  }
+  const contentValidationError =
+    validateMessageContent(type, content) ??
+    (type === 'template' ? validateTemplateContent(content) : null);
   if (contentValidationError) {
     return { error: contentValidationError };
   }
 
-  return { data: { to, type, content } };
+  return {
+    data: {
+      to,
+      type,
+      content,
+      ...(delivery.sendAt === undefined ? {} : { sendAt: delivery.sendAt }),
+    },
+  };
 }
 
 function extractMessageId(
@@ -309,7 +312,7 @@ async function sendMessageWithRetry(
       }
 
       // Check if error is retryable
-      if (!isRetryableError(new Error(result.error || 'Unknown error'))) {
+      if (!isRetryableSendError(new Error(result.error || 'Unknown error'))) {
         return result;
       }
 
@@ -318,7 +321,7 @@ async function sendMessageWithRetry(
       lastError = error;
 
       // Don't retry non-retryable errors
-      if (!isRetryableError(error)) {
+      if (!isRetryableSendError(error)) {
         throw error;
       }
     }
@@ -343,8 +346,8 @@ async function sendMessageWithRetry(
  */
 function buildSuccessResponse(
   result: Awaited<ReturnType<typeof sendWhatsAppMessage>>,
+  messageId: string | undefined,
 ) {
-  const messageId = extractMessageId(result);
   const clientInfo = getClientEnvironmentInfo();
 
   return NextResponse.json(
@@ -359,6 +362,33 @@ function buildSuccessResponse(
   );
 }
 
+/**
+ * Queue the message and return its job
+ * Due jobs are drained once the response has been sent.
+ */
+async function handleQueuedSend(
+  message: SendMessageRequest,
+  sendAt: number,
+): Promise<NextResponse> {
+  const job = await enqueueWhatsAppMessage(message, { sendAt });
+  after(() =>
+    drainWhatsAppSendQueueSoon().catch((error: unknown) => {
+      logger.error('[WhatsAppSendQueue] Follow-up drain failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }),
+  );
+  return NextResponse.json(
+    {
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      sendAt: new Date(job.sendAt).toISOString(),
+    },
+    { status: 202 },
+  );
+}
+
 /**
  * Handle WhatsApp service errors
  */
@@ -403,16 +433,32 @@ async function handlePost(
     if (parsed.error) {
       return parsed.error;
     }
-    const { to, type, content } = parsed.data!;
+    const { to, type, content, sendAt } = parsed.data!;
 
     const message = buildWhatsAppMessage(to, type, content);
+    if (sendAt !== undefined) {
+      return await handleQueuedSend(message, sendAt);
+    }
     const result = await sendMessageWithRetry(message);
 
     if (!result.success) {
       throw new Error(result.error || 'Failed to send message');
     }
 
-    return buildSuccessResponse(result);
+    const messageId = extractMessageId(result);
+    if (messageId) {
+      await recordAcceptedMessage(messageId, to);
+      await recordOutboundMessage({
+        messageId,
+        to,
+        type,
+        text: content.body as string | undefined,
+        templateName: content.templateName as string | undefined,
+        sentBy: 'api',
+      });
+    }
+
+    return buildSuccessResponse(result, messageId);
   } catch (error) {
     return handleServiceError(error);
   }
@@ -444,13 +490,24 @@ export function GET(request: NextRequest) {
       body: {
         to: 'string (phone number with country code)',
         type: '"text" | "template"',
+        delivery:
+          '"inline" | "queued" (optional, default: "inline"; queued returns 202 with a jobId)',
+        sendAt: 'ISO 8601 date-time (optional, schedules a queued send)',
         content: {
           body: 'string (required for text messages)',
           templateName: 'string (required for template messages)',
           languageCode: 'string (optional, default: "en")',
-          components: 'array (optional, for template parameters)',
+          components:
+            'array (template parameters, checked against the registered template)',
         },
       },
+      templates: WHATSAPP_TEMPLATE_REGISTRY.map(({ name, languages }) => ({
+        name,
+        languages,
+      })),
+      jobStatus: 'GET /api/whatsapp/send/jobs?jobId=<jobId>',
+      deliveryStatus:
+        'GET /api/whatsapp/status?messageId=<messageId> (accepted → sent → delivered → read, or failed)',
     },
     examples: {
       textMessage: {
@@ -464,7 +521,7 @@ export function GET(request: NextRequest) {
         to: '+1234567890',
         type: 'template',
         content: {
-          templateName: 'welcome_message',
+          templateName: 'inquiry_received',
           languageCode: 'en',
           components: [
             {
@@ -472,7 +529,11 @@ export function GET(request: NextRequest) {
               parameters: [
                 {
                   type: 'text',
-                  text: 'John Doe',
+                  text: 'John',
+                },
+                {
+                  type: 'text',
+                  text: 'CON-mm8x2k1a-3f9c1b2e',
                 },
               ],
             },
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '../route';
+
+const mockGetWhatsAppDeliveryStatus = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  getWhatsAppDeliveryStatus: mockGetWhatsAppDeliveryStatus,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function createMockRequest(
+  messageId?: string,
+  authorization = 'Bearer test-api-key-12345',
+): NextRequest {
+  const url = new URL('http://localhost:3000/api/whatsapp/status');
+  if (messageId !== undefined) {
+    url.searchParams.set('messageId', messageId);
+  }
+  return new NextRequest(url.toString(), {
+    method: 'GET',
+    headers: { Authorization: authorization },
+  });
+}
+
+describe('WhatsApp Status Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('WHATSAPP_API_KEY', 'test-api-key-12345');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should return the delivery record', async () => {
+    const record = {
+      messageId: 'wamid.abc123',
+      recipientId: '1234567890',
+      status: 'delivered',
+      timestamps: {
+        accepted: '2026-03-02T10:00:00.000Z',
+        delivered: '2026-03-02T10:00:05.000Z',
+      },
+      updatedAt: '2026-03-02T10:00:06.000Z',
+    };
+    mockGetWhatsAppDeliveryStatus.mockResolvedValue(record);
+
+    const response = await GET(createMockRequest('wamid.abc123'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(record);
+    expect(mockGetWhatsAppDeliveryStatus).toHaveBeenCalledWith('wamid.abc123');
+  });
+
+  it('should return 404 for unknown message IDs', async () => {
+    mockGetWhatsAppDeliveryStatus.mockResolvedValue(null);
+
+    const response = await GET(createMockRequest('wamid.unknown'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 when messageId is missing', async () => {
+    const response = await GET(createMockRequest());
+
+    expect(response.status).toBe(400);
+    expect(mockGetWhatsAppDeliveryStatus).not.toHaveBeenCalled();
+  });
+
+  it('should require authentication', async () => {
+    const response = await GET(
+      createMockRequest('wamid.abc123', 'Bearer wrong-key'),
+    );
+
+    expect(response.status).toBe(401);
+    expect(mockGetWhatsAppDeliveryStatus).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the store fails', async () => {
+    mockGetWhatsAppDeliveryStatus.mockRejectedValue(new Error('store down'));
+
+    const response = await GET(createMockRequest('wamid.abc123'));
+
+    expect(response.status).toBe(500);
+  });
+});
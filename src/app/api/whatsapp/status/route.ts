@@ -0,0 +1,59 @@
+/**
+ * WhatsApp Delivery Status API Route
+ *
+ * Reports the delivery state of a message sent through
+ * `/api/whatsapp/send`, as recorded from the webhook `statuses` updates.
+ *
+ * Usage:
+ * GET /api/whatsapp/status?messageId=<wamid>
+ * Authorization: Bearer <WHATSAPP_API_KEY>
+ *
+ * @see src/lib/whatsapp/delivery-status.ts - State tracking
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { getWhatsAppDeliveryStatus } from '@/lib/whatsapp-service';
+import { validateApiKey } from '@/app/api/whatsapp/whatsapp-api-utils';
+
+const HTTP_BAD_REQUEST = 400;
+const HTTP_NOT_FOUND = 404;
+const HTTP_INTERNAL_ERROR = 500;
+
+export async function GET(request: NextRequest) {
+  const authError = validateApiKey(request);
+  if (authError) {
+    return authError;
+  }
+
+  const messageId = request.nextUrl.searchParams.get('messageId')?.trim();
+  if (!messageId) {
+    return NextResponse.json(
+      { error: 'Query parameter "messageId" is required' },
+      { status: HTTP_BAD_REQUEST },
+    );
+  }
+
+  try {
+    const record = await getWhatsAppDeliveryStatus(messageId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Unknown message ID' },
+        { status: HTTP_NOT_FOUND },
+      );
+    }
+    return NextResponse.json(record, {
+      headers: { 'cache-control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error(
+      'WhatsApp delivery status lookup error',
+      { messageId },
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return NextResponse.json(
+      { error: 'Failed to load delivery status' },
+      { status: HTTP_INTERNAL_ERROR },
+    );
+  }
+}
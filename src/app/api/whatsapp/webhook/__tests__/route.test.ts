@@ -4,13 +4,13 @@ import { GET, POST } from '../route';
 
 // Mock dependencies
 const mockVerifyWebhook = vi.hoisted(() => vi.fn());
-const mockHandleIncomingMessage = vi.hoisted(() => vi.fn());
+const mockProcessWebhookPayload = vi.hoisted(() => vi.fn());
 const mockVerifyWebhookSignature = vi.hoisted(() => vi.fn());
 const mockCheckDistributedRateLimit = vi.hoisted(() => vi.fn());
 
 vi.mock('@/lib/whatsapp-service', () => ({
   verifyWebhook: mockVerifyWebhook,
-  handleIncomingMessage: mockHandleIncomingMessage,
+  processWebhookPayload: mockProcessWebhookPayload,
   verifyWebhookSignature: mockVerifyWebhookSignature,
 }));
 
@@ -57,7 +57,7 @@ describe('WhatsApp Webhook Route', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockVerifyWebhook.mockReturnValue(null);
-    mockHandleIncomingMessage.mockResolvedValue(undefined);
+    mockProcessWebhookPayload.mockResolvedValue({ events: 1, failed: 0 });
     mockVerifyWebhookSignature.mockReturnValue(true);
     mockCheckDistributedRateLimit.mockResolvedValue({
       allowed: true,
@@ -229,7 +229,7 @@ describe('WhatsApp Webhook Route', () => {
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
-      expect(mockHandleIncomingMessage).toHaveBeenCalledWith(messagePayload);
+      expect(mockProcessWebhookPayload).toHaveBeenCalledWith(messagePayload);
     });
 
     it('should handle status update webhooks', async () => {
@@ -283,7 +283,7 @@ describe('WhatsApp Webhook Route', () => {
 
       expect(response.status).toBe(401);
       expect(data.error).toBe('Invalid signature');
-      expect(mockHandleIncomingMessage).not.toHaveBeenCalled();
+      expect(mockProcessWebhookPayload).not.toHaveBeenCalled();
     });
 
     it('should return 401 when signature header is missing', async () => {
@@ -337,7 +337,7 @@ describe('WhatsApp Webhook Route', () => {
     });
 
     it('should return 500 when message handler throws an error', async () => {
-      mockHandleIncomingMessage.mockRejectedValue(new Error('Handler error'));
+      mockProcessWebhookPayload.mockRejectedValue(new Error('Handler error'));
 
       const request = createMockPostRequest({
         object: 'whatsapp_business_account',
@@ -351,6 +351,24 @@ describe('WhatsApp Webhook Route', () => {
       expect(result.error).toBe('Failed to process message');
     });
 
+    it('should return 500 so Meta retries a batch with failed events', async () => {
+      mockProcessWebhookPayload.mockResolvedValue({
+        events: 1,
+        failed: 1,
+        duplicates: 0,
+        stale: 0,
+      });
+
+      const response = await POST(
+        createMockPostRequest({
+          object: 'whatsapp_business_account',
+          entry: [],
+        }),
+      );
+
+      expect(response.status).toBe(500);
+    });
+
     it('should process empty entry array gracefully', async () => {
       const request = createMockPostRequest({
         object: 'whatsapp_business_account',
@@ -385,7 +403,7 @@ describe('WhatsApp Webhook Route', () => {
 
       expect(response.status).toBe(200);
       expect(data.success).toBe(true);
-      expect(mockHandleIncomingMessage).toHaveBeenCalledWith(multiEntryPayload);
+      expect(mockProcessWebhookPayload).toHaveBeenCalledWith(multiEntryPayload);
     });
   });
 
@@ -438,7 +456,7 @@ describe('WhatsApp Webhook Route', () => {
 
       expect(response.status).toBe(429);
       expect(data.error).toBe('Too many requests');
-      expect(mockHandleIncomingMessage).not.toHaveBeenCalled();
+      expect(mockProcessWebhookPayload).not.toHaveBeenCalled();
     });
 
     it('should not consume rate limit quota for invalid signatures', async () => {
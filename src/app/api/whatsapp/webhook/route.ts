@@ -5,7 +5,7 @@ import {
   createRateLimitHeaders,
 } from '@/lib/security/distributed-rate-limit';
 import {
-  handleIncomingMessage,
+  processWebhookPayload,
   verifyWebhook,
   verifyWebhookSignature,
 } from '@/lib/whatsapp-service';
@@ -13,7 +13,11 @@ import {
 /**
  * WhatsApp Webhook Endpoint
  *
- * Handles Meta webhook verification (GET) and incoming messages (POST).
+ * Handles Meta webhook verification (GET) and webhook batches (POST):
+ * incoming messages, delivery/read statuses and errors. Events Meta
+ * redelivers are deduplicated by ID and stale events are dropped. A batch
+ * with failing processors is answered with 500 so Meta retries it; only
+ * the failed events are processed again.
  * Uses unified whatsapp-service for all operations.
  */
 
@@ -58,7 +62,7 @@ export function GET(request: NextRequest) {
   }
 }
 
-// POST: Receive incoming messages
+// POST: Receive webhook batches
 export async function POST(request: NextRequest) {
   try {
     // Get raw body for signature verification
@@ -97,10 +101,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
     }
 
-    // Handle incoming message with auto-reply
-    await handleIncomingMessage(body);
-
-    return NextResponse.json({ success: true }, { status: 200 });
+    // Dispatch every event in the batch to the registered processors
+    const summary = await processWebhookPayload(body);
+    return summary.failed > 0
+      ? NextResponse.json(
+          { error: 'Failed to process message' },
+          { status: 500 },
+        )
+      : NextResponse.json({ success: true }, { status: 200 });
   } catch (error) {
     logger.error(
       'WhatsApp webhook message handling error',
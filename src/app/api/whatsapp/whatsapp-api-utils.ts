@@ -0,0 +1,73 @@
+/**
+ * Shared helpers for the authenticated WhatsApp API routes
+ * (`/api/whatsapp/send`, `/api/whatsapp/status`, `/api/whatsapp/conversations`)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { constantTimeCompare } from '@/lib/security-crypto';
+
+// HTTP status codes
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_SERVICE_UNAVAILABLE = 503;
+
+/**
+ * Validate API key authentication. WHATSAPP_API_KEY is mandatory.
+ * Returns null if validation passes, or NextResponse if it fails.
+ */
+export function validateApiKey(request: NextRequest): NextResponse | null {
+  const configuredApiKey = process.env.WHATSAPP_API_KEY;
+
+  // API key is mandatory - return 503 if not configured
+  if (!configuredApiKey) {
+    logger.warn('WhatsApp API: WHATSAPP_API_KEY not configured');
+    return NextResponse.json(
+      { error: 'WhatsApp API service not configured' },
+      { status: HTTP_SERVICE_UNAVAILABLE },
+    );
+  }
+
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader) {
+    logger.warn('WhatsApp API: Missing Authorization header');
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: HTTP_UNAUTHORIZED },
+    );
+  }
+
+  // Extract Bearer token
+  const bearerMatch = authHeader.match(/^Bearer\s+(.+)$/i);
+  if (!bearerMatch) {
+    logger.warn('WhatsApp API: Invalid Authorization header format');
+    return NextResponse.json(
+      { error: 'Invalid authentication format' },
+      { status: HTTP_UNAUTHORIZED },
+    );
+  }
+
+  const providedKey = (bearerMatch[1] ?? '').trim();
+  // Use constant-time comparison to prevent timing attacks
+  if (!providedKey || !constantTimeCompare(providedKey, configuredApiKey)) {
+    logger.warn('WhatsApp API: Invalid API key provided');
+    return NextResponse.json(
+      { error: 'Invalid credentials' },
+      { status: HTTP_UNAUTHORIZED },
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Parse a `limit` query parameter, clamped to [1, max]
+ */
+export function parseLimitParam(
+  value: string | null,
+  fallback: number,
+  max: number,
+): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  if (!Number.isFinite(parsed) || parsed < 1) return fallback;
+  return Math.min(parsed, max);
+}
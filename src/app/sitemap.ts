@@ -5,6 +5,11 @@ import type {
   ProductSummary,
 } from '@/types/content.types';
 import { getAllPostsCached } from '@/lib/content/blog';
+import {
+  BLOG_ARCHIVE_KINDS,
+  collectTaxonomyTerms,
+  getBlogArchivePath,
+} from '@/lib/content/blog-taxonomy';
 import { getAllProductsCached } from '@/lib/content/products';
 import {
   getContentLastModified,
@@ -56,6 +61,7 @@ const PAGE_CONFIG_MAP = new Map<string, PageConfig>([
   ['/privacy', { changeFrequency: 'monthly', priority: 0.7 }],
   ['product', { changeFrequency: 'weekly', priority: 0.8 }],
   ['blogPost', { changeFrequency: 'monthly', priority: 0.6 }],
+  ['blogArchive', { changeFrequency: 'weekly', priority: 0.4 }],
 ]);
 
 const DEFAULT_CONFIG: PageConfig = {
@@ -270,10 +276,11 @@ function buildBlogAlternates(
 }
 
 // Generate blog post page entries for all locales
-async function generateBlogEntries(): Promise<MetadataRoute.Sitemap> {
+function generateBlogEntries(
+  allPostsByLocale: Map<string, PostSummary[]>,
+): MetadataRoute.Sitemap {
   const entries: MetadataRoute.Sitemap = [];
   const config = getPageConfig('blogPost');
-  const allPostsByLocale = await fetchAllPostsByLocale();
 
   // Track processed post slugs to avoid duplicates
   const processedSlugs = new Set<string>();
@@ -307,16 +314,81 @@ async function generateBlogEntries(): Promise<MetadataRoute.Sitemap> {
   return entries;
 }
 
+// Build alternate languages for a blog archive; term slugs are localized,
+// so only locales using the same term share the archive
+function buildArchiveAlternates(
+  path: string,
+  slugsByLocale: Map<string, Set<string>>,
+  slug: string,
+): Record<string, string> {
+  const entries = routing.locales
+    .filter((locale) => slugsByLocale.get(locale)?.has(slug) === true)
+    .map((locale) => [locale, `${BASE_URL}/${locale}${path}`]);
+
+  if (slugsByLocale.get(routing.defaultLocale)?.has(slug) === true) {
+    entries.push(['x-default', `${BASE_URL}/${routing.defaultLocale}${path}`]);
+  }
+
+  return Object.fromEntries(entries);
+}
+
+// Generate tag, category and author archive entries (first page only)
+function generateBlogArchiveEntries(
+  allPostsByLocale: Map<string, PostSummary[]>,
+): MetadataRoute.Sitemap {
+  const entries: MetadataRoute.Sitemap = [];
+  const config = getPageConfig('blogArchive');
+
+  for (const kind of BLOG_ARCHIVE_KINDS) {
+    const termsByLocale = new Map(
+      routing.locales.map((locale) => [
+        locale,
+        collectTaxonomyTerms(allPostsByLocale.get(locale) ?? [], kind),
+      ]),
+    );
+    const slugsByLocale = new Map(
+      [...termsByLocale].map(([locale, terms]) => [
+        locale,
+        new Set(terms.map((term) => term.slug)),
+      ]),
+    );
+
+    for (const [locale, terms] of termsByLocale) {
+      for (const term of terms) {
+        const path = getBlogArchivePath(kind, term.slug);
+        entries.push(
+          createSitemapEntry({
+            url: `${BASE_URL}/${locale}${path}`,
+            lastModified: getContentLastModified({
+              updatedAt: term.lastModified,
+            }),
+            config,
+            alternates: buildArchiveAlternates(path, slugsByLocale, term.slug),
+          }),
+        );
+      }
+    }
+  }
+
+  return entries;
+}
+
 /**
  * Dynamic sitemap generation for Next.js.
- * Includes all static pages and dynamic product pages with proper i18n alternates.
+ * Includes all static pages, dynamic product and blog pages and blog archives
+ * with proper i18n alternates.
  */
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const staticEntries = generateStaticPageEntries();
-  const [productEntries, blogEntries] = await Promise.all([
+  const [productEntries, allPostsByLocale] = await Promise.all([
     generateProductEntries(),
-    generateBlogEntries(),
+    fetchAllPostsByLocale(),
   ]);
 
-  return [...staticEntries, ...productEntries, ...blogEntries];
+  return [
+    ...staticEntries,
+    ...productEntries,
+    ...generateBlogEntries(allPostsByLocale),
+    ...generateBlogArchiveEntries(allPostsByLocale),
+  ];
 }
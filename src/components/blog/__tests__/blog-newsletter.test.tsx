@@ -22,6 +22,7 @@ vi.mock('@/lib/utm', () => ({
 
 // Mock next-intl
 vi.mock('next-intl', () => ({
+  useLocale: () => 'en',
   useTranslations: mockUseTranslations,
 }));
 
@@ -388,6 +389,9 @@ describe('BlogNewsletter', () => {
           body: expect.stringContaining('test@example.com'),
         });
       });
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body)).toMatchObject({
+        locale: 'en',
+      });
 
       // Verify success state
       await waitFor(() => {
@@ -0,0 +1,77 @@
+/**
+ * @vitest-environment jsdom
+ * Tests for TaxonomyCloud component
+ */
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import type { BlogTaxonomyTerm } from '@/lib/content/blog-taxonomy';
+import { TaxonomyCloud } from '../taxonomy-cloud';
+
+function createTerm(
+  slug: string,
+  count: number,
+  name: string = slug,
+): BlogTaxonomyTerm {
+  return {
+    kind: 'tag',
+    slug,
+    name,
+    names: [name],
+    count,
+    lastModified: '2024-01-01',
+  };
+}
+
+const TERMS = [createTerm('react', 6), createTerm('企业级', 1, '企业级')];
+
+describe('TaxonomyCloud', () => {
+  it('should render nothing without terms', () => {
+    const { container } = render(
+      <TaxonomyCloud
+        terms={[]}
+        getHref={() => '/'}
+        label='Browse by tag'
+      />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should link every term with its post count', () => {
+    render(
+      <TaxonomyCloud
+        terms={TERMS}
+        getHref={(term) => `/zh/blog/tag/${encodeURIComponent(term.slug)}`}
+        label='Browse by tag'
+        activeSlug='企业级'
+      />,
+    );
+
+    expect(
+      screen.getByRole('navigation', { name: 'Browse by tag' }),
+    ).toBeInTheDocument();
+    const active = screen.getByRole('link', { name: /企业级/ });
+    expect(active).toHaveAttribute(
+      'href',
+      '/zh/blog/tag/%E4%BC%81%E4%B8%9A%E7%BA%A7',
+    );
+    expect(active).toHaveAttribute('aria-current', 'page');
+    expect(screen.getByRole('link', { name: /react/ })).toHaveTextContent(
+      'react6',
+    );
+  });
+
+  it('should scale terms by usage when weighted', () => {
+    render(
+      <TaxonomyCloud
+        terms={TERMS}
+        getHref={() => '/'}
+        label='Browse by tag'
+        weighted
+      />,
+    );
+
+    expect(screen.getByText('react').closest('div')).toHaveClass('text-base');
+    expect(screen.getByText('企业级').closest('div')).toHaveClass('text-xs');
+  });
+});
@@ -3,7 +3,7 @@
 import { useActionState, useCallback, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { CheckCircle, Loader2, Mail, XCircle } from 'lucide-react';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { cn } from '@/lib/utils';
 import { getAttributionAsObject } from '@/lib/utm';
 import { Button } from '@/components/ui/button';
@@ -221,6 +221,7 @@ export function BlogNewsletter({
   variant = 'default',
 }: BlogNewsletterProps) {
   const t = useTranslations('blog.newsletter');
+  const locale = useLocale();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
   const turnstileTokenRef = useRef<string | null>(null);
@@ -258,6 +259,7 @@ export function BlogNewsletter({
         // Safe: attribution is from getAttributionAsObject() which returns sanitized alphanumeric values
         body: JSON.stringify({
           email,
+          locale,
           pageType: 'blog',
           turnstileToken: token,
           ...attribution,
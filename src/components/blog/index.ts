@@ -10,3 +10,7 @@ export {
   BlogNewsletter,
   type BlogNewsletterProps,
 } from '@/components/blog/blog-newsletter';
+export {
+  TaxonomyCloud,
+  type TaxonomyCloudProps,
+} from '@/components/blog/taxonomy-cloud';
@@ -0,0 +1,77 @@
+import Link from 'next/link';
+import type { BlogTaxonomyTerm } from '@/lib/content/blog-taxonomy';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+
+/** Font sizes from least to most used term */
+const CLOUD_SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base'] as const;
+
+export interface TaxonomyCloudProps {
+  terms: BlogTaxonomyTerm[];
+  /** Builds the archive link of a term, e.g. "/en/blog/tag/react" */
+  getHref: (term: BlogTaxonomyTerm) => string;
+  /** Accessible name of the navigation landmark */
+  label: string;
+  /** Slug of the term whose archive is being viewed */
+  activeSlug?: string;
+  /** Scale terms by usage instead of rendering them at one size */
+  weighted?: boolean;
+  className?: string;
+}
+
+function getSizeClass(count: number, maxCount: number): string {
+  const tier = Math.ceil((count / maxCount) * CLOUD_SIZE_CLASSES.length) - 1;
+  return CLOUD_SIZE_CLASSES.at(Math.max(tier, 0)) ?? 'text-xs';
+}
+
+/**
+ * Tag/category cloud linking to the blog archive pages (Server Component).
+ */
+export function TaxonomyCloud({
+  terms,
+  getHref,
+  label,
+  activeSlug,
+  weighted = false,
+  className,
+}: TaxonomyCloudProps) {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const maxCount = Math.max(...terms.map((term) => term.count));
+
+  return (
+    <nav
+      aria-label={label}
+      className={className}
+    >
+      <ul className='flex flex-wrap items-center gap-2'>
+        {terms.map((term) => {
+          const isActive = term.slug === activeSlug;
+
+          return (
+            <li key={term.slug}>
+              <Link
+                href={getHref(term)}
+                aria-current={isActive ? 'page' : undefined}
+                className='rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+              >
+                <Badge
+                  variant={isActive ? 'default' : 'outline'}
+                  className={cn(
+                    'cursor-pointer gap-1.5 font-medium',
+                    weighted && getSizeClass(term.count, maxCount),
+                  )}
+                >
+                  {term.name}
+                  <span className='tabular-nums opacity-70'>{term.count}</span>
+                </Badge>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
@@ -2,6 +2,8 @@ import type { CSSProperties } from 'react';
 import { Text } from '@react-email/components';
 import { ResendUtils } from '@/lib/resend-utils';
 import type { EmailTemplateData } from '@/lib/validations';
+import { EmailActivityField } from '@/components/emails/EmailActivityField';
+import { EmailAttributionField } from '@/components/emails/EmailAttributionField';
 import { EmailField } from '@/components/emails/EmailField';
 import { EmailLayout } from '@/components/emails/EmailLayout';
 import { COLORS, FONT_SIZES } from '@/components/emails/theme';
@@ -82,6 +84,8 @@ export function ContactFormEmail(data: EmailTemplateData) {
           </Text>
         </EmailField>
       ) : null}
+      <EmailActivityField activities={data.activities} />
+      <EmailAttributionField attribution={data.attribution} />
     </EmailLayout>
   );
 }
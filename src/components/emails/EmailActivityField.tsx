@@ -0,0 +1,52 @@
+import type { CSSProperties } from 'react';
+import { Text } from '@react-email/components';
+import { ResendUtils } from '@/lib/resend-utils';
+import type { LeadActivityEmailData } from '@/lib/validations';
+import { EmailField } from '@/components/emails/EmailField';
+import { COLORS, FONT_SIZES } from '@/components/emails/theme';
+
+interface EmailActivityFieldProps {
+  activities?: LeadActivityEmailData[] | undefined;
+}
+
+const activityHeaderStyle: CSSProperties = {
+  margin: '8px 0 4px 0',
+  fontSize: FONT_SIZES.sm,
+  fontWeight: 'bold',
+  color: COLORS.textLight,
+};
+
+const activityLineStyle: CSSProperties = {
+  margin: '0 0 4px 0',
+  lineHeight: '1.5',
+};
+
+/**
+ * Repeat submissions merged into this lead by the dedup window.
+ * Renders nothing when the lead has no follow-ups.
+ */
+export function EmailActivityField({ activities }: EmailActivityFieldProps) {
+  if (!activities || activities.length === 0) return null;
+
+  return (
+    <EmailField label={`Follow-up Submissions (${activities.length})`}>
+      {activities.map((activity) => (
+        <div key={activity.referenceId}>
+          <Text style={activityHeaderStyle}>
+            {`${ResendUtils.formatDateTime(activity.submittedAt)} · ${activity.referenceId}`}
+          </Text>
+          {activity.summary.split('\n').map((line, index) => (
+            <Text
+              key={`${activity.referenceId}-${index}`}
+              style={activityLineStyle}
+            >
+              {line || ' '}
+            </Text>
+          ))}
+        </div>
+      ))}
+    </EmailField>
+  );
+}
+
+export default EmailActivityField;
@@ -0,0 +1,40 @@
+import type { CSSProperties } from 'react';
+import { Text } from '@react-email/components';
+import {
+  getAttributionEntries,
+  type LeadAttribution,
+} from '@/lib/lead-pipeline/attribution';
+import { EmailField } from '@/components/emails/EmailField';
+
+interface EmailAttributionFieldProps {
+  attribution?: LeadAttribution | undefined;
+}
+
+const attributionLineStyle: CSSProperties = {
+  margin: '0 0 4px 0',
+  lineHeight: '1.5',
+};
+
+/**
+ * Campaign attribution block for internal notification emails.
+ * Renders nothing when the lead carries no attribution.
+ */
+export function EmailAttributionField({
+  attribution,
+}: EmailAttributionFieldProps) {
+  const entries = getAttributionEntries(attribution);
+  if (entries.length === 0) return null;
+
+  return (
+    <EmailField label='Campaign Attribution'>
+      {entries.map(({ field, label, value }) => (
+        <Text
+          key={field}
+          style={attributionLineStyle}
+        >{`${label}: ${value}`}</Text>
+      ))}
+    </EmailField>
+  );
+}
+
+export default EmailAttributionField;
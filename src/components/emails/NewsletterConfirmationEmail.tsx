@@ -0,0 +1,66 @@
+import type { CSSProperties } from 'react';
+import { Button, Link, Section, Text } from '@react-email/components';
+import type { NewsletterConfirmationEmailData } from '@/lib/validations';
+import { EmailLayout } from '@/components/emails/EmailLayout';
+import { COLORS, FONT_SIZES, SIZES, SPACING } from '@/components/emails/theme';
+import { getNewsletterConfirmationCopy } from '@/config/newsletter-confirmation-email';
+
+const ACCENT_COLOR = COLORS.primary;
+const CONTENT_BACKGROUND = COLORS.background;
+
+const paragraphStyle: CSSProperties = {
+  margin: `0 0 ${SPACING.md} 0`,
+  fontSize: FONT_SIZES.md,
+  lineHeight: '1.6',
+};
+
+const buttonStyle: CSSProperties = {
+  backgroundColor: ACCENT_COLOR,
+  borderRadius: SIZES.borderRadius,
+  color: COLORS.headerText,
+  fontSize: FONT_SIZES.md,
+  fontWeight: 'bold',
+  padding: `${SPACING.sm} ${SPACING.lg}`,
+  textDecoration: 'none',
+};
+
+const footnoteStyle: CSSProperties = {
+  margin: `${SPACING.lg} 0 0 0`,
+  fontSize: FONT_SIZES.xs,
+  color: COLORS.muted,
+  lineHeight: '1.5',
+};
+
+export function NewsletterConfirmationEmail(
+  data: NewsletterConfirmationEmailData,
+) {
+  const copy = getNewsletterConfirmationCopy(data.locale, data.email);
+
+  return (
+    <EmailLayout
+      title={copy.title}
+      preview={copy.preview}
+      accentColor={ACCENT_COLOR}
+      footerText={copy.footer}
+      contentBackgroundColor={CONTENT_BACKGROUND}
+    >
+      <Text style={paragraphStyle}>{copy.intro}</Text>
+      <Section style={{ margin: `${SPACING.lg} 0` }}>
+        <Button
+          href={data.confirmUrl}
+          style={buttonStyle}
+        >
+          {copy.button}
+        </Button>
+      </Section>
+      <Text style={paragraphStyle}>{copy.ignoreNotice}</Text>
+      <Text style={footnoteStyle}>
+        {copy.manageBefore}
+        <Link href={data.preferencesUrl}>{copy.manageLink}</Link>
+        {copy.manageAfter}
+      </Text>
+    </EmailLayout>
+  );
+}
+
+export default NewsletterConfirmationEmail;
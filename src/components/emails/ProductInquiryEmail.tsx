@@ -1,6 +1,8 @@
 import type { CSSProperties } from 'react';
 import { Section, Text } from '@react-email/components';
 import type { ProductInquiryEmailData } from '@/lib/validations';
+import { EmailActivityField } from '@/components/emails/EmailActivityField';
+import { EmailAttributionField } from '@/components/emails/EmailAttributionField';
 import { EmailField } from '@/components/emails/EmailField';
 import { EmailLayout } from '@/components/emails/EmailLayout';
 import { COLORS, FONT_SIZES, SPACING } from '@/components/emails/theme';
@@ -109,6 +111,8 @@ export function ProductInquiryEmail(data: ProductInquiryEmailData) {
           </Text>
         </EmailField>
       ) : null}
+      <EmailActivityField activities={data.activities} />
+      <EmailAttributionField attribution={data.attribution} />
     </EmailLayout>
   );
 }
@@ -0,0 +1,53 @@
+/**
+ * NewsletterConfirmationEmail Component Tests
+ */
+
+import { render } from '@react-email/render';
+import { describe, expect, it } from 'vitest';
+import { ResendUtils } from '@/lib/resend-utils';
+import type { NewsletterConfirmationEmailData } from '@/lib/validations';
+import { NewsletterConfirmationEmail } from '@/components/emails/NewsletterConfirmationEmail';
+import { SITE_CONFIG } from '@/config/paths/site-config';
+
+const baseData: NewsletterConfirmationEmailData = {
+  email: 'reader@example.com',
+  confirmUrl: 'https://example.com/en/newsletter/confirm?token=abc',
+  preferencesUrl: 'https://example.com/en/newsletter/preferences?token=abc',
+  unsubscribeUrl: 'https://example.com/api/unsubscribe?token=abc',
+};
+
+describe('NewsletterConfirmationEmail', () => {
+  it('should render the English copy by default', async () => {
+    const html = await render(<NewsletterConfirmationEmail {...baseData} />);
+
+    expect(html).toContain('Confirm subscription');
+    expect(html).toContain('reader@example.com');
+    expect(html).toContain(baseData.confirmUrl);
+    expect(html).toContain(SITE_CONFIG.name);
+  });
+
+  it('should render the copy in the signup locale', async () => {
+    const html = await render(
+      <NewsletterConfirmationEmail
+        {...baseData}
+        locale='zh'
+      />,
+    );
+
+    expect(html).toContain('确认订阅');
+    expect(html).toContain('订阅偏好中心');
+    expect(html).not.toContain('Confirm subscription');
+  });
+
+  it('should localize the subject with the body', () => {
+    expect(ResendUtils.generateNewsletterConfirmationSubject(baseData)).toBe(
+      `Please confirm your subscription - ${SITE_CONFIG.name}`,
+    );
+    expect(
+      ResendUtils.generateNewsletterConfirmationSubject({
+        ...baseData,
+        locale: 'zh',
+      }),
+    ).toBe(`请确认您的订阅 - ${SITE_CONFIG.name}`);
+  });
+});
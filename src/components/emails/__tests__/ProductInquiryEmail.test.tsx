@@ -83,6 +83,40 @@ describe('ProductInquiryEmail', () => {
       expect(html).not.toContain('>Company<');
     });
 
+    it('should render campaign attribution when provided', async () => {
+      const data = {
+        ...baseData,
+        attribution: { utmSource: 'google', gclid: 'g123' },
+      };
+      const html = await render(<ProductInquiryEmail {...data} />);
+      expect(html).toContain('Campaign Attribution');
+      expect(html).toContain('UTM Source: google');
+      expect(html).toContain('GCLID: g123');
+    });
+
+    it('should list merged follow-up submissions', async () => {
+      const data = {
+        ...baseData,
+        activities: [
+          {
+            referenceId: 'CON-2',
+            leadType: 'contact',
+            submittedAt: '2025-01-01T00:00:00.000Z',
+            summary: 'Contact form (other): Any update?',
+          },
+        ],
+      };
+      const html = await render(<ProductInquiryEmail {...data} />);
+      expect(html).toContain('Follow-up Submissions (1)');
+      expect(html).toContain('CON-2');
+      expect(html).toContain('Any update?');
+    });
+
+    it('should not render attribution section when not provided', async () => {
+      const html = await render(<ProductInquiryEmail {...baseData} />);
+      expect(html).not.toContain('Campaign Attribution');
+    });
+
     it('should render requirements when provided', async () => {
       const data = { ...baseData, requirements: 'Need urgent delivery' };
       const html = await render(<ProductInquiryEmail {...data} />);
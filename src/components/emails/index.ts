@@ -6,11 +6,14 @@
 // Layout and primitives
 export { EmailLayout } from '@/components/emails/EmailLayout';
 export { EmailField } from '@/components/emails/EmailField';
+export { EmailActivityField } from '@/components/emails/EmailActivityField';
+export { EmailAttributionField } from '@/components/emails/EmailAttributionField';
 
 // Email templates
 export { ContactFormEmail } from '@/components/emails/ContactFormEmail';
 export { ConfirmationEmail } from '@/components/emails/ConfirmationEmail';
 export { ProductInquiryEmail } from '@/components/emails/ProductInquiryEmail';
+export { NewsletterConfirmationEmail } from '@/components/emails/NewsletterConfirmationEmail';
 
 // Theme constants
 export {
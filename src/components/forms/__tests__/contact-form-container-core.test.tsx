@@ -55,6 +55,7 @@ const mockT = vi.fn((key: string) => {
 });
 
 vi.mock('next-intl', () => ({
+  useLocale: () => 'en',
   useTranslations: () => mockT,
 }));
 
@@ -63,6 +63,7 @@ const mockT = vi.fn((key: string) => {
 });
 
 vi.mock('next-intl', () => ({
+  useLocale: () => 'en',
   useTranslations: () => mockT,
 }));
 
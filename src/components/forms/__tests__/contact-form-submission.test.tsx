@@ -87,6 +87,7 @@ const mockT = vi.fn((key: string) => {
 });
 
 vi.mock('next-intl', () => ({
+  useLocale: () => 'en',
   useTranslations: () => mockT,
 }));
 
@@ -8,7 +8,7 @@ import {
   useState,
   useTransition,
 } from 'react';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { useFormStatus } from 'react-dom';
 import { logger } from '@/lib/logger';
 import { type ServerActionResult } from '@/lib/server-action-utils';
@@ -120,6 +120,7 @@ function useContactForm() {
     null,
   );
   const [turnstileToken, setTurnstileToken] = useState<string>('');
+  const locale = useLocale();
   const lastRecordedSuccessRef = useRef(false);
   const [isPendingTransition, startTransition] = useTransition();
 
@@ -164,6 +165,8 @@ function useContactForm() {
     // 添加Turnstile token和提交时间戳到FormData
     formData.append('turnstileToken', turnstileToken);
     formData.append('submittedAt', new Date().toISOString());
+    // Picks the language of the WhatsApp acknowledgement
+    formData.append('locale', locale);
 
     // Append marketing attribution data
     appendAttributionToFormData(formData);
@@ -5,6 +5,7 @@
  */
 import Link from 'next/link';
 import { getTranslations } from 'next-intl/server';
+import { isSiteSearchEnabled } from '@/lib/search';
 import { cn } from '@/lib/utils';
 import {
   LanguageToggleIsland,
@@ -14,13 +15,14 @@ import {
 import { HeaderScrollChrome } from '@/components/layout/header-scroll-chrome';
 import { Logo } from '@/components/layout/logo';
 import { Idle } from '@/components/lazy/idle';
+import { SearchForm } from '@/components/search';
 import { Button } from '@/components/ui/button';
 
 /**
  * Header Component
  *
  * Main navigation header with responsive design, logo, navigation menus,
- * and utility controls (language switcher, theme toggle).
+ * and utility controls (site search, language switcher, theme toggle).
  */
 
 // Simplified header props interface
@@ -89,6 +91,12 @@ export async function Header({
             className='header-nav-right'
             {...(!locale ? { 'data-testid': 'language-toggle-button' } : {})}
           >
+            {/* Desktop: Site search */}
+            <HeaderSearch
+              locale={locale}
+              label={t('searchPlaceholder')}
+              submitLabel={t('search')}
+            />
             {/* Desktop: Language toggle */}
             {locale ? (
               <div className='header-desktop-only h-10 w-28 items-center justify-end'>
@@ -160,6 +168,29 @@ function CenterNav({
   );
 }
 
+// 纯 GET 表单，无需客户端 JS
+function HeaderSearch({
+  locale,
+  label,
+  submitLabel,
+}: {
+  locale?: 'en' | 'zh' | undefined;
+  label: string;
+  submitLabel: string;
+}) {
+  if (!locale || !isSiteSearchEnabled()) return null;
+  return (
+    <SearchForm
+      locale={locale}
+      variant='compact'
+      label={label}
+      placeholder={label}
+      submitLabel={submitLabel}
+      className='header-desktop-only'
+    />
+  );
+}
+
 // Simplified convenience components (only keep the most commonly used ones)
 export function HeaderMinimal({ className }: { className?: string }) {
   return (
@@ -0,0 +1,77 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { createHeadingSlugger } from '@/lib/content/table-of-contents';
+import { createHeadingComponents, getNodeText } from '../heading-anchor';
+
+describe('heading-anchor', () => {
+  describe('getNodeText', () => {
+    it('should join the text of nested elements', () => {
+      expect(
+        getNodeText([
+          'Using ',
+          <code key='code'>next/image</code>,
+          ' in ',
+          <strong key='strong'>
+            <em>production</em>
+          </strong>,
+          2026,
+        ]),
+      ).toBe('Using next/image in production2026');
+    });
+
+    it('should ignore empty nodes', () => {
+      expect(getNodeText([null, undefined, false, 'Text'])).toBe('Text');
+    });
+  });
+
+  describe('createHeadingComponents', () => {
+    it('should render headings with ids and hover anchors', () => {
+      const { h2: H2 } = createHeadingComponents(createHeadingSlugger());
+
+      render(
+        <H2>
+          付款<strong>条款</strong>
+        </H2>,
+      );
+
+      const heading = screen.getByRole('heading', { level: 2 });
+      expect(heading).toHaveAttribute('id', '付款条款');
+      expect(heading).toHaveClass('group', 'scroll-mt-24');
+
+      const anchor = heading.querySelector('a');
+      expect(anchor).toHaveAttribute('href', '#付款条款');
+      expect(anchor).toHaveAttribute('aria-hidden', 'true');
+      expect(anchor).toHaveClass('opacity-0', 'group-hover:opacity-100');
+    });
+
+    it('should share the slugger across heading levels', () => {
+      const {
+        h1: H1,
+        h2: H2,
+        h3: H3,
+      } = createHeadingComponents(createHeadingSlugger());
+
+      render(
+        <>
+          <H1>Intro</H1>
+          <H2>Intro</H2>
+          <H3>Intro</H3>
+        </>,
+      );
+
+      expect(
+        screen.getAllByRole('heading').map((heading) => heading.id),
+      ).toEqual(['intro', 'intro-1', 'intro-2']);
+    });
+
+    it('should omit id and anchor when no id is returned', () => {
+      const { h3: H3 } = createHeadingComponents(() => '');
+
+      render(<H3>!!!</H3>);
+
+      const heading = screen.getByRole('heading', { level: 3 });
+      expect(heading).not.toHaveAttribute('id');
+      expect(heading.querySelector('a')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TocEntry } from '@/types/content.types';
+import { TableOfContents } from '../table-of-contents';
+
+const { mockUseActiveHeading } = vi.hoisted(() => ({
+  mockUseActiveHeading: vi.fn(),
+}));
+
+vi.mock('@/hooks/use-active-heading', () => ({
+  useActiveHeading: mockUseActiveHeading,
+}));
+
+const entries: TocEntry[] = [
+  { id: 'overview', text: 'Overview', depth: 2 },
+  { id: 'details', text: 'Details', depth: 3 },
+  { id: '付款条款', text: '付款条款', depth: 2 },
+];
+
+describe('TableOfContents', () => {
+  beforeEach(() => {
+    mockUseActiveHeading.mockReset();
+    mockUseActiveHeading.mockReturnValue(undefined);
+  });
+
+  it('should render a labelled navigation with one link per entry', () => {
+    render(
+      <TableOfContents
+        entries={entries}
+        title='On this page'
+      />,
+    );
+
+    const nav = screen.getByRole('navigation', { name: 'On this page' });
+    expect(nav).toHaveClass('lg:sticky');
+    expect(
+      screen.getByRole('heading', { name: 'On this page' }),
+    ).toBeInTheDocument();
+    expect(
+      screen.getAllByRole('link').map((link) => link.getAttribute('href')),
+    ).toEqual(['#overview', '#details', '#付款条款']);
+  });
+
+  it('should indent h3 entries', () => {
+    render(
+      <TableOfContents
+        entries={entries}
+        title='On this page'
+      />,
+    );
+
+    expect(screen.getByRole('link', { name: 'Details' })).toHaveClass('pl-6');
+    expect(screen.getByRole('link', { name: 'Overview' })).toHaveClass('pl-3');
+  });
+
+  it('should mark the active heading', () => {
+    mockUseActiveHeading.mockReturnValue('details');
+
+    render(
+      <TableOfContents
+        entries={entries}
+        title='On this page'
+      />,
+    );
+
+    expect(mockUseActiveHeading).toHaveBeenCalledWith([
+      'overview',
+      'details',
+      '付款条款',
+    ]);
+    expect(screen.getByRole('link', { name: 'Details' })).toHaveAttribute(
+      'aria-current',
+      'location',
+    );
+    expect(screen.getByRole('link', { name: 'Overview' })).not.toHaveAttribute(
+      'aria-current',
+    );
+  });
+
+  it('should render nothing without entries', () => {
+    const { container } = render(
+      <TableOfContents
+        entries={[]}
+        title='On this page'
+      />,
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  Children,
+  isValidElement,
+  type ComponentType,
+  type ReactNode,
+} from 'react';
+
+type HeadingProps = { children?: ReactNode };
+type HeadingLevel = 1 | 2 | 3;
+
+/**
+ * `#` link to a heading, revealed while the heading (`group`) is hovered.
+ *
+ * Hidden from assistive technology: the heading itself is the landmark and
+ * the table of contents already links to it.
+ */
+export function HeadingAnchor({ id }: { id: string }) {
+  return (
+    <a
+      href={`#${id}`}
+      aria-hidden='true'
+      tabIndex={-1}
+      className='ml-2 font-normal text-muted-foreground no-underline opacity-0 transition-opacity group-hover:opacity-100 hover:text-foreground'
+    >
+      #
+    </a>
+  );
+}
+
+/**
+ * Text content of rendered MDX children, e.g. `**Bold** text` → `Bold text`.
+ */
+export function getNodeText(node: ReactNode): string {
+  if (typeof node === 'string' || typeof node === 'number') {
+    return String(node);
+  }
+  if (Array.isArray(node)) {
+    return Children.toArray(node).map(getNodeText).join('');
+  }
+  if (isValidElement<HeadingProps>(node)) {
+    return getNodeText(node.props.children);
+  }
+  return '';
+}
+
+function getHeadingClassName(level: HeadingLevel): string {
+  switch (level) {
+    case 1:
+      return 'mb-6 text-4xl font-bold text-gray-900 dark:text-gray-100';
+    case 2:
+      return 'mb-4 text-3xl font-semibold text-gray-800 dark:text-gray-200';
+    default:
+      return 'mb-3 text-2xl font-medium text-gray-700 dark:text-gray-300';
+  }
+}
+
+function createHeading(
+  level: HeadingLevel,
+  getId: (text: string) => string,
+): ComponentType<HeadingProps> {
+  const Tag = `h${level}` as const;
+
+  function Heading({ children }: HeadingProps) {
+    const id = getId(getNodeText(children));
+
+    return (
+      <Tag
+        id={id || undefined}
+        className={`group scroll-mt-24 ${getHeadingClassName(level)}`}
+      >
+        {children}
+        {id !== '' && <HeadingAnchor id={id} />}
+      </Tag>
+    );
+  }
+  Heading.displayName = `MDXHeading${level}`;
+
+  return Heading;
+}
+
+/**
+ * `h1`–`h3` MDX components with anchor ids.
+ *
+ * `getId` maps heading text to an id. Pass a fresh `createHeadingSlugger()`
+ * per document to number repeated headings like the manifest TOC does.
+ */
+export function createHeadingComponents(getId: (text: string) => string): {
+  h1: ComponentType<HeadingProps>;
+  h2: ComponentType<HeadingProps>;
+  h3: ComponentType<HeadingProps>;
+} {
+  return {
+    h1: createHeading(1, getId),
+    h2: createHeading(2, getId),
+    h3: createHeading(3, getId),
+  };
+}
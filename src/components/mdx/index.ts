@@ -1 +1,5 @@
 export { MDXContent, MDXRenderer } from './mdx-content';
+export {
+  TableOfContents,
+  type TableOfContentsProps,
+} from './table-of-contents';
@@ -6,7 +6,9 @@
 
 import type { ComponentType, ReactNode } from 'react';
 import type { ContentType, Locale } from '@/types/content.types';
+import { createHeadingSlugger } from '@/lib/content/table-of-contents';
 import { getMDXComponent } from '@/lib/mdx-loader';
+import { createHeadingComponents } from './heading-anchor';
 
 interface MDXContentProps {
   type: ContentType;
@@ -27,9 +29,12 @@ export async function MDXContent({
     return null;
   }
 
+  // Fresh slugger per render: heading ids match the manifest TOC
+  const components = createHeadingComponents(createHeadingSlugger());
+
   return (
     <div className={className}>
-      <Content />
+      <Content components={components} />
     </div>
   );
 }
@@ -0,0 +1,68 @@
+'use client';
+
+import type { TocEntry } from '@/types/content.types';
+import { cn } from '@/lib/utils';
+import { useActiveHeading } from '@/hooks/use-active-heading';
+
+export interface TableOfContentsProps {
+  entries: TocEntry[];
+  /** Heading and accessible name of the navigation */
+  title: string;
+  className?: string;
+}
+
+/**
+ * Sticky table of contents with scroll-spy (Client Component).
+ *
+ * `entries` come from the content manifest, so the ids match the anchors
+ * rendered by the MDX heading components and the legal page renderer.
+ * Renders nothing when there are no entries.
+ */
+export function TableOfContents({
+  entries,
+  title,
+  className,
+}: TableOfContentsProps) {
+  const activeId = useActiveHeading(entries.map((entry) => entry.id));
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <nav
+      aria-label={title}
+      className={cn(
+        'text-sm lg:sticky lg:top-24 lg:max-h-[calc(100vh-8rem)] lg:overflow-y-auto',
+        className,
+      )}
+    >
+      <h2 className='mb-3 text-xs font-semibold tracking-wide text-muted-foreground uppercase'>
+        {title}
+      </h2>
+      <ol className='space-y-2 border-l'>
+        {entries.map((entry) => {
+          const isActive = entry.id === activeId;
+
+          return (
+            <li key={entry.id}>
+              <a
+                href={`#${entry.id}`}
+                aria-current={isActive ? 'location' : undefined}
+                className={cn(
+                  '-ml-px block border-l-2 py-0.5 text-xs transition-colors hover:text-foreground sm:text-sm',
+                  entry.depth === 3 ? 'pl-6' : 'pl-3',
+                  isActive
+                    ? 'border-primary font-medium text-foreground'
+                    : 'border-transparent text-muted-foreground',
+                )}
+              >
+                {entry.text}
+              </a>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * @vitest-environment jsdom
+ * Tests for NewsletterSubscriptionAction component
+ */
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NewsletterSubscriptionAction } from '../newsletter-subscription-action';
+
+const { mockFetch, mockSearchParams } = vi.hoisted(() => ({
+  mockFetch: vi.fn(),
+  mockSearchParams: { value: new URLSearchParams('token=signed-token') },
+}));
+
+vi.mock('lucide-react', () => ({
+  CheckCircle: () => <svg data-testid='check-circle-icon' />,
+  Loader2: () => <svg data-testid='loader-icon' />,
+  XCircle: () => <svg data-testid='x-circle-icon' />,
+}));
+
+vi.mock('next/navigation', () => ({
+  useSearchParams: () => mockSearchParams.value,
+}));
+
+vi.mock('next-intl', () => ({
+  useTranslations: (namespace: string) => (key: string) =>
+    `${namespace}.${key}`,
+}));
+
+describe('NewsletterSubscriptionAction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', mockFetch);
+    mockSearchParams.value = new URLSearchParams('token=signed-token');
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, errorCode: 'NEWSLETTER_CONFIRMED' }),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('confirms only after the button is clicked', async () => {
+    render(<NewsletterSubscriptionAction mode='confirm' />);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('newsletter.actions.confirm'));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('apiErrors.NEWSLETTER_CONFIRMED'),
+      ).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/subscribe/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: 'signed-token' }),
+    });
+  });
+
+  it('offers unsubscribe and resubscribe in the preference center', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      json: async () => ({
+        success: false,
+        errorCode: 'NEWSLETTER_TOKEN_INVALID',
+      }),
+    });
+    render(<NewsletterSubscriptionAction mode='preferences' />);
+
+    expect(
+      screen.getByText('newsletter.actions.resubscribe'),
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByText('newsletter.actions.unsubscribe'));
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('apiErrors.NEWSLETTER_TOKEN_INVALID'),
+      ).toBeInTheDocument();
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/unsubscribe',
+      expect.objectContaining({ method: 'POST' }),
+    );
+  });
+
+  it('shows the invalid link message without a token', () => {
+    mockSearchParams.value = new URLSearchParams();
+    render(<NewsletterSubscriptionAction mode='confirm' />);
+
+    expect(
+      screen.getByText('apiErrors.NEWSLETTER_TOKEN_INVALID'),
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,8 @@
+export {
+  NewsletterPage,
+  type NewsletterPageProps,
+} from '@/components/newsletter/newsletter-page';
+export {
+  NewsletterSubscriptionAction,
+  type NewsletterSubscriptionActionProps,
+} from '@/components/newsletter/newsletter-subscription-action';
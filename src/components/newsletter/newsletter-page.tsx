@@ -0,0 +1,37 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { NewsletterSubscriptionAction } from '@/components/newsletter/newsletter-subscription-action';
+import { Card } from '@/components/ui/card';
+
+export interface NewsletterPageProps {
+  locale: string;
+  mode: 'confirm' | 'preferences';
+}
+
+function NewsletterActionSkeleton() {
+  return <div className='h-10 w-48 animate-pulse rounded bg-muted' />;
+}
+
+/**
+ * Shared layout of the newsletter confirm page and preference center
+ */
+export async function NewsletterPage({ locale, mode }: NewsletterPageProps) {
+  const t = await getTranslations({ locale, namespace: 'newsletter' });
+
+  return (
+    <main className='min-h-[60vh] px-4 py-16'>
+      <Card className='mx-auto max-w-xl space-y-6 p-8'>
+        <div className='space-y-2'>
+          <h1 className='text-3xl font-bold tracking-tight'>
+            {t(`${mode}.title`)}
+          </h1>
+          <p className='text-muted-foreground'>{t(`${mode}.description`)}</p>
+        </div>
+        {/* The token is read from the query string, which is request-time data */}
+        <Suspense fallback={<NewsletterActionSkeleton />}>
+          <NewsletterSubscriptionAction mode={mode} />
+        </Suspense>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import {
+  API_ERROR_NAMESPACE,
+  translateApiError,
+} from '@/lib/api/translate-error-code';
+import { Button } from '@/components/ui/button';
+import { API_ERROR_CODES } from '@/constants/api-error-codes';
+
+const NEWSLETTER_ACTIONS = {
+  confirm: '/api/subscribe/confirm',
+  resubscribe: '/api/subscribe/confirm',
+  unsubscribe: '/api/unsubscribe',
+} as const;
+
+type NewsletterAction = keyof typeof NEWSLETTER_ACTIONS;
+
+export interface NewsletterSubscriptionActionProps {
+  /** confirm: double opt-in page; preferences: preference center */
+  mode: 'confirm' | 'preferences';
+}
+
+interface ActionResult {
+  success: boolean;
+  message: string;
+}
+
+function ResultMessage({ result }: { result: ActionResult }) {
+  const Icon = result.success ? CheckCircle : XCircle;
+  return (
+    <div
+      role='status'
+      className={
+        result.success
+          ? 'flex items-center gap-3 text-green-600'
+          : 'flex items-center gap-3 rounded-md bg-red-50 p-3 text-red-600'
+      }
+    >
+      <Icon className='h-5 w-5 shrink-0' />
+      <p className='text-sm font-medium'>{result.message}</p>
+    </div>
+  );
+}
+
+/**
+ * Buttons of the newsletter confirm page and preference center
+ *
+ * Changes are applied on click rather than on page load, so link scanners
+ * that open email links cannot confirm or unsubscribe on a reader's behalf.
+ */
+export function NewsletterSubscriptionAction({
+  mode,
+}: NewsletterSubscriptionActionProps) {
+  const t = useTranslations('newsletter');
+  const tErrors = useTranslations(API_ERROR_NAMESPACE);
+  const token = useSearchParams().get('token') ?? '';
+  const [pending, setPending] = useState<NewsletterAction | null>(null);
+  const [result, setResult] = useState<ActionResult | null>(null);
+
+  async function runAction(action: NewsletterAction) {
+    setPending(action);
+    try {
+      // eslint-disable-next-line security/detect-object-injection -- action is a NEWSLETTER_ACTIONS key
+      const response = await fetch(NEWSLETTER_ACTIONS[action], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = (await response.json()) as {
+        success?: boolean;
+        errorCode?: string;
+      };
+      setResult({
+        success: response.ok && data.success === true,
+        message: translateApiError(tErrors, data.errorCode),
+      });
+    } catch {
+      setResult({
+        success: false,
+        message: translateApiError(
+          tErrors,
+          API_ERROR_CODES.NEWSLETTER_UPDATE_FAILED,
+        ),
+      });
+    } finally {
+      setPending(null);
+    }
+  }
+
+  if (!token) {
+    return (
+      <ResultMessage
+        result={{
+          success: false,
+          message: translateApiError(
+            tErrors,
+            API_ERROR_CODES.NEWSLETTER_TOKEN_INVALID,
+          ),
+        }}
+      />
+    );
+  }
+
+  const actions: NewsletterAction[] =
+    mode === 'confirm' ? ['confirm'] : ['unsubscribe', 'resubscribe'];
+
+  return (
+    <div className='space-y-4'>
+      <div className='flex flex-wrap gap-3'>
+        {actions.map((action) => (
+          <Button
+            key={action}
+            type='button'
+            variant={action === 'unsubscribe' ? 'outline' : 'default'}
+            disabled={pending !== null}
+            onClick={() => runAction(action)}
+          >
+            {pending === action && (
+              <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+            )}
+            {t(`actions.${action}`)}
+          </Button>
+        ))}
+      </div>
+      {result && <ResultMessage result={result} />}
+    </div>
+  );
+}
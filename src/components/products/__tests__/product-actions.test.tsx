@@ -5,6 +5,7 @@
 import React from 'react';
 import { fireEvent, render, screen } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getActiveWhatsAppProductChat } from '@/lib/whatsapp-click-to-chat';
 import { ProductActions } from '../product-actions';
 
 // Mock IntersectionObserver
@@ -77,6 +78,23 @@ vi.mock('lucide-react', () => ({
       {...props}
     />
   ),
+  MessageCircle: (props: React.SVGProps<SVGSVGElement>) => (
+    <svg
+      data-testid='message-circle-icon'
+      {...props}
+    />
+  ),
+}));
+
+const mockCookieConsent = vi.hoisted(() => ({
+  value: null as null | {
+    ready: boolean;
+    consent: { analytics: boolean; marketing: boolean };
+  },
+}));
+
+vi.mock('@/lib/cookie-consent', () => ({
+  useCookieConsentOptional: () => mockCookieConsent.value,
 }));
 
 // Mock InquiryDrawer
@@ -232,6 +250,99 @@ describe('ProductActions', () => {
     });
   });
 
+  describe('Ask on WhatsApp', () => {
+    const whatsappProps = {
+      ...defaultProps,
+      whatsappNumber: '+86 138-0000-0000',
+      whatsappMessage: 'Hi! I would like to know more about Test Product',
+      askOnWhatsAppLabel: 'Ask on WhatsApp',
+    };
+
+    beforeEach(() => {
+      vi.spyOn(window, 'open').mockReturnValue(null);
+      sessionStorage.setItem(
+        'marketing_attribution',
+        JSON.stringify({ utmSource: 'google', gclid: 'abc123' }),
+      );
+    });
+
+    afterEach(() => {
+      mockCookieConsent.value = null;
+      sessionStorage.clear();
+      vi.restoreAllMocks();
+      vi.unstubAllGlobals();
+    });
+
+    function clickAskOnWhatsApp(): string {
+      render(<ProductActions {...whatsappProps} />);
+      fireEvent.click(
+        screen.getAllByRole('button', { name: /Ask on WhatsApp/i })[0]!,
+      );
+      const url = new URL(vi.mocked(window.open).mock.calls[0]![0] as string);
+      expect(url.searchParams.get('phone')).toBe('8613800000000');
+      return url.searchParams.get('text') ?? '';
+    }
+
+    it('does not render without a number or message', () => {
+      render(<ProductActions {...defaultProps} />);
+
+      expect(
+        screen.queryByRole('button', { name: /Ask on WhatsApp/i }),
+      ).not.toBeInTheDocument();
+    });
+
+    it('opens the chat with the product message and attribution', () => {
+      mockCookieConsent.value = {
+        ready: true,
+        consent: { analytics: true, marketing: true },
+      };
+
+      expect(clickAskOnWhatsApp()).toBe(
+        'Hi! I would like to know more about Test Product\n\nref: utm_source=google&gclid=abc123',
+      );
+    });
+
+    it('leaves attribution out without marketing consent', () => {
+      mockCookieConsent.value = {
+        ready: true,
+        consent: { analytics: true, marketing: false },
+      };
+
+      expect(clickAskOnWhatsApp()).toBe(
+        'Hi! I would like to know more about Test Product',
+      );
+    });
+
+    it('reports the click as a conversion event', () => {
+      const gtag = vi.fn();
+      vi.stubGlobal('gtag', gtag);
+
+      clickAskOnWhatsApp();
+
+      expect(gtag).toHaveBeenCalledWith(
+        'event',
+        'whatsapp_click',
+        expect.objectContaining({
+          source: 'product_actions',
+          product_slug: 'test-product',
+        }),
+      );
+    });
+
+    it('shares the product message with the floating button while mounted', () => {
+      const { unmount } = render(<ProductActions {...whatsappProps} />);
+
+      expect(getActiveWhatsAppProductChat()).toEqual({
+        productSlug: 'test-product',
+        message: whatsappProps.whatsappMessage,
+      });
+
+      unmount();
+
+      expect(getActiveWhatsAppProductChat()).toBeNull();
+    });
+  });
+
   describe('drawer interaction', () => {
     it('opens drawer when request quote button is clicked', () => {
       render(<ProductActions {...defaultProps} />);
@@ -15,6 +15,7 @@ const { mockFetch, mockUseTranslations } = vi.hoisted(() => ({
 
 // Mock next-intl
 vi.mock('next-intl', () => ({
+  useLocale: () => 'en',
   useTranslations: mockUseTranslations,
 }));
 
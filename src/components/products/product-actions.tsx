@@ -2,10 +2,18 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
-import { Download, MessageSquare } from 'lucide-react';
+import { Download, MessageCircle, MessageSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  getWhatsAppChatUrl,
+  normalizeWhatsAppNumber,
+  setActiveWhatsAppProductChat,
+  trackWhatsAppClick,
+  WHATSAPP_CLICK_SOURCES,
+} from '@/lib/whatsapp-click-to-chat';
 import { InquiryDrawer } from '@/components/products/inquiry-drawer';
 import { Button } from '@/components/ui/button';
+import { useWhatsAppAttribution } from '@/hooks/use-whatsapp-click-to-chat';
 
 export interface ProductActionsProps {
   /** Product slug for API submission */
@@ -22,6 +30,12 @@ export interface ProductActionsProps {
   requestQuoteLabel: string;
   /** Label for Download PDF button */
   downloadPdfLabel?: string;
+  /** WhatsApp number for the Ask on WhatsApp button */
+  whatsappNumber?: string;
+  /** Localized chat message with the product name, slug and link */
+  whatsappMessage?: string;
+  /** Label for Ask on WhatsApp button */
+  askOnWhatsAppLabel?: string;
   /** Custom class name */
   className?: string;
 }
@@ -31,16 +45,20 @@ export interface ProductActionsProps {
  */
 function ActionButtons({
   onRequestQuote,
+  onAskOnWhatsApp,
   pdfHref,
   requestQuoteLabel,
   downloadPdfLabel,
+  askOnWhatsAppLabel,
   size = 'lg',
   fullWidth = false,
 }: {
   onRequestQuote: () => void;
+  onAskOnWhatsApp: (() => void) | undefined;
   pdfHref: string | undefined;
   requestQuoteLabel: string;
   downloadPdfLabel: string | undefined;
+  askOnWhatsAppLabel: string | undefined;
   size?: 'default' | 'sm' | 'lg';
   fullWidth?: boolean;
 }) {
@@ -55,6 +73,18 @@ function ActionButtons({
         {requestQuoteLabel}
       </Button>
 
+      {onAskOnWhatsApp !== undefined && askOnWhatsAppLabel !== undefined && (
+        <Button
+          size={size}
+          variant='outline'
+          onClick={onAskOnWhatsApp}
+          className={cn(fullWidth && 'flex-1')}
+        >
+          <MessageCircle className='mr-2 h-4 w-4' />
+          {askOnWhatsAppLabel}
+        </Button>
+      )}
+
       {pdfHref !== undefined && downloadPdfLabel !== undefined && (
         <Button
           size={size}
@@ -83,16 +113,20 @@ function StickyBar({
   visible,
   productName,
   onRequestQuote,
+  onAskOnWhatsApp,
   pdfHref,
   requestQuoteLabel,
   downloadPdfLabel,
+  askOnWhatsAppLabel,
 }: {
   visible: boolean;
   productName: string;
   onRequestQuote: () => void;
+  onAskOnWhatsApp: (() => void) | undefined;
   pdfHref: string | undefined;
   requestQuoteLabel: string;
   downloadPdfLabel: string | undefined;
+  askOnWhatsAppLabel: string | undefined;
 }) {
   return (
     <div
@@ -107,9 +141,11 @@ function StickyBar({
         </div>
         <ActionButtons
           onRequestQuote={onRequestQuote}
+          onAskOnWhatsApp={onAskOnWhatsApp}
           pdfHref={pdfHref}
           requestQuoteLabel={requestQuoteLabel}
           downloadPdfLabel={downloadPdfLabel}
+          askOnWhatsAppLabel={askOnWhatsAppLabel}
           size='default'
         />
       </div>
@@ -122,6 +158,8 @@ function StickyBar({
  *
  * CTA buttons for product pages with sticky bottom bar behavior.
  * When the main CTA scrolls out of view, a sticky bar appears at the bottom.
+ * With a WhatsApp number and message, it also offers "Ask on WhatsApp" and
+ * shares the product message with the floating WhatsApp button.
  */
 export function ProductActions({
   productSlug,
@@ -131,6 +169,9 @@ export function ProductActions({
   pdfHref,
   requestQuoteLabel,
   downloadPdfLabel,
+  whatsappNumber,
+  whatsappMessage,
+  askOnWhatsAppLabel,
   className,
 }: ProductActionsProps) {
   const [mounted, setMounted] = useState(false);
@@ -142,6 +183,34 @@ export function ProductActions({
     setDrawerOpen(true);
   }, []);
 
+  const withAttribution = useWhatsAppAttribution();
+  const chatNumber =
+    whatsappNumber === undefined
+      ? null
+      : normalizeWhatsAppNumber(whatsappNumber);
+
+  const handleWhatsAppClick = useCallback(() => {
+    if (chatNumber === null || whatsappMessage === undefined) return;
+    const url = getWhatsAppChatUrl(
+      chatNumber,
+      withAttribution(whatsappMessage),
+    );
+    window.open(url, '_blank', 'noopener,noreferrer');
+    trackWhatsAppClick(WHATSAPP_CLICK_SOURCES.PRODUCT_ACTIONS, productSlug);
+  }, [chatNumber, whatsappMessage, withAttribution, productSlug]);
+
+  const handleAskOnWhatsApp =
+    chatNumber !== null && whatsappMessage !== undefined
+      ? handleWhatsAppClick
+      : undefined;
+
+  // Let the floating WhatsApp button open with this product's message
+  useEffect(() => {
+    if (whatsappMessage === undefined) return undefined;
+    setActiveWhatsAppProductChat({ productSlug, message: whatsappMessage });
+    return () => setActiveWhatsAppProductChat(null);
+  }, [productSlug, whatsappMessage]);
+
   // Intersection Observer to detect when main CTA is out of view
   useEffect(() => {
     // eslint-disable-next-line react-you-might-not-need-an-effect/no-initialize-state, react-hooks/set-state-in-effect -- hydration-safe mount flag to avoid SSR useId() mismatches in Radix-based drawer
@@ -182,9 +251,11 @@ export function ProductActions({
       >
         <ActionButtons
           onRequestQuote={handleRequestQuote}
+          onAskOnWhatsApp={handleAskOnWhatsApp}
           pdfHref={pdfHref}
           requestQuoteLabel={requestQuoteLabel}
           downloadPdfLabel={downloadPdfLabel}
+          askOnWhatsAppLabel={askOnWhatsAppLabel}
           size='lg'
         />
       </div>
@@ -194,9 +265,11 @@ export function ProductActions({
         visible={showStickyBar}
         productName={productName}
         onRequestQuote={handleRequestQuote}
+        onAskOnWhatsApp={handleAskOnWhatsApp}
         pdfHref={pdfHref}
         requestQuoteLabel={requestQuoteLabel}
         downloadPdfLabel={downloadPdfLabel}
+        askOnWhatsAppLabel={askOnWhatsAppLabel}
       />
 
       {/* Inquiry Drawer */}
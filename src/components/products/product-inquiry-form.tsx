@@ -3,7 +3,7 @@
 import { useActionState, useCallback, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { CheckCircle, Loader2, MessageSquare, XCircle } from 'lucide-react';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { cn } from '@/lib/utils';
 import { getAttributionAsObject } from '@/lib/utm';
 import { Button } from '@/components/ui/button';
@@ -199,6 +199,38 @@ function CompanyField({
   );
 }
 
+// Phone and WhatsApp opt-in fields component
+// Optional phone with WhatsApp acknowledgement opt-in
+function WhatsAppFields() {
+  const tContact = useTranslations('contact.form');
+  return (
+    <div className='space-y-2'>
+      <Label htmlFor='inquiry-phone'>{tContact('phone')}</Label>
+      <Input
+        id='inquiry-phone'
+        name='phone'
+        type='tel'
+        autoComplete='tel'
+        placeholder={tContact('phonePlaceholder')}
+      />
+      <div className='flex items-center space-x-2'>
+        <input
+          id='inquiry-whatsappOptIn'
+          name='whatsappOptIn'
+          type='checkbox'
+          className='h-4 w-4 rounded border border-input'
+        />
+        <Label
+          htmlFor='inquiry-whatsappOptIn'
+          className='text-sm'
+        >
+          {tContact('whatsappOptIn')}
+        </Label>
+      </div>
+    </div>
+  );
+}
+
 // Quantity and price fields component
 interface QuantityPriceFieldsProps {
   quantityLabel: string;
@@ -262,6 +294,8 @@ function extractFormData(formData: FormData) {
   const fullName = String(formData.get('name') ?? '').trim();
   const email = String(formData.get('email') ?? '').trim();
   const company = String(formData.get('company') ?? '').trim();
+  const phone = String(formData.get('phone') ?? '').trim();
+  const whatsappOptIn = formData.get('whatsappOptIn') === 'on';
   const quantity = String(formData.get('quantity') ?? '').trim();
   const targetPrice = String(formData.get('targetPrice') ?? '').trim();
   const requirementsRaw = String(formData.get('requirements') ?? '').trim();
@@ -269,7 +303,15 @@ function extractFormData(formData: FormData) {
     targetPrice !== ''
       ? `${requirementsRaw}\n\nTarget Price: ${targetPrice}`.trim()
       : requirementsRaw;
-  return { fullName, email, company, quantity, requirements };
+  return {
+    fullName,
+    email,
+    company,
+    phone,
+    whatsappOptIn,
+    quantity,
+    requirements,
+  };
 }
 
 // Submit inquiry to API
@@ -278,6 +320,7 @@ interface SubmitInquiryParams {
   productSlug: string;
   productName: string;
   token: string;
+  locale: string;
 }
 
 async function submitInquiry({
@@ -285,6 +328,7 @@ async function submitInquiry({
   productSlug,
   productName,
   token,
+  locale,
 }: SubmitInquiryParams): Promise<{ ok: boolean; error?: string }> {
   const attribution = getAttributionAsObject();
   const requestBody = {
@@ -295,7 +339,12 @@ async function submitInquiry({
     productName,
     quantity: data.quantity,
     turnstileToken: token,
+    locale,
     ...(data.company !== '' && { company: data.company }),
+    ...(data.phone !== '' && {
+      phone: data.phone,
+      whatsappOptIn: data.whatsappOptIn,
+    }),
     ...(data.requirements !== '' && { requirements: data.requirements }),
     ...attribution,
   };
@@ -320,6 +369,7 @@ export function ProductInquiryForm({
 }: ProductInquiryFormProps) {
   const t = useTranslations('products.inquiry');
   const tContact = useTranslations('contact.form');
+  const locale = useLocale();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
   const turnstileTokenRef = useRef<string | null>(null);
@@ -349,6 +399,7 @@ export function ProductInquiryForm({
         productSlug,
         productName,
         token,
+        locale,
       });
       if (!result.ok)
         return { success: false, error: result.error ?? t('error') };
@@ -407,6 +458,7 @@ export function ProductInquiryForm({
             label={tContact('company')}
             placeholder={tContact('companyPlaceholder')}
           />
+          <WhatsAppFields />
           <QuantityPriceFields
             quantityLabel={t('quantity')}
             quantityPlaceholder={t('quantityPlaceholder')}
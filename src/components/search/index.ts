@@ -0,0 +1,8 @@
+export {
+  SearchForm,
+  type SearchFormProps,
+} from '@/components/search/search-form';
+export {
+  SearchResults,
+  type SearchResultsProps,
+} from '@/components/search/search-results';
@@ -0,0 +1,69 @@
+import { Search } from 'lucide-react';
+import { MAX_SEARCH_QUERY_LENGTH } from '@/lib/search/constants';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+export interface SearchFormProps {
+  locale: string;
+  /** Accessible name of the search landmark and input */
+  label: string;
+  placeholder: string;
+  submitLabel: string;
+  defaultValue?: string;
+  /** `compact` is the header box: icon-only submit button */
+  variant?: 'default' | 'compact';
+  className?: string;
+}
+
+/**
+ * Site search form
+ *
+ * A plain GET form to `/[locale]/search?q=`, so it works without client
+ * JavaScript and needs no hydration in the header.
+ */
+export function SearchForm({
+  locale,
+  label,
+  placeholder,
+  submitLabel,
+  defaultValue,
+  variant = 'default',
+  className,
+}: SearchFormProps) {
+  const isCompact = variant === 'compact';
+
+  return (
+    <form
+      role='search'
+      aria-label={label}
+      action={`/${locale}/search`}
+      method='get'
+      className={cn('flex items-center gap-2', className)}
+    >
+      <Input
+        type='search'
+        name='q'
+        aria-label={label}
+        placeholder={placeholder}
+        defaultValue={defaultValue}
+        maxLength={MAX_SEARCH_QUERY_LENGTH}
+        required
+        className={cn(isCompact && 'h-8 w-40 lg:w-48')}
+      />
+      <Button
+        type='submit'
+        size={isCompact ? 'icon' : 'default'}
+        variant={isCompact ? 'ghost' : 'default'}
+        aria-label={isCompact ? submitLabel : undefined}
+        className={cn(isCompact && 'size-8 shrink-0')}
+      >
+        <Search
+          className='size-4'
+          aria-hidden='true'
+        />
+        {isCompact ? null : submitLabel}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from 'next/link';
+import type { ContentType } from '@/types/content.types';
+import type { SiteSearchResult } from '@/lib/search';
+import { splitHighlightParts } from '@/lib/search/highlight';
+import { Badge } from '@/components/ui/badge';
+
+export interface SearchResultsProps {
+  locale: string;
+  results: SiteSearchResult[];
+  /** Query terms to highlight */
+  terms: string[];
+  typeLabels: Record<ContentType, string>;
+}
+
+function HighlightedText({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlightParts(text, terms).map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className='rounded-sm bg-primary/15 px-0.5 text-foreground'
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/**
+ * Ranked search results with matched terms highlighted
+ */
+export function SearchResults({
+  locale,
+  results,
+  terms,
+  typeLabels,
+}: SearchResultsProps) {
+  return (
+    <ol
+      className='space-y-6'
+      data-testid='search-results'
+    >
+      {results.map((result) => (
+        <li
+          key={`${result.type}/${result.content.slug}`}
+          className='border-b border-border pb-6 last:border-b-0'
+        >
+          <Badge
+            variant='secondary'
+            className='mb-2'
+          >
+            {typeLabels[result.type]}
+          </Badge>
+          <h2 className='text-lg font-semibold'>
+            <Link
+              href={`/${locale}${result.href}`}
+              className='hover:underline'
+            >
+              <HighlightedText
+                text={result.content.metadata.title}
+                terms={terms}
+              />
+            </Link>
+          </h2>
+          {result.highlights.map((snippet) => (
+            <p
+              key={snippet}
+              className='mt-2 text-sm text-muted-foreground'
+            >
+              <HighlightedText
+                text={snippet}
+                terms={terms}
+              />
+            </p>
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
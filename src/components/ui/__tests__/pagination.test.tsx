@@ -0,0 +1,81 @@
+/**
+ * @vitest-environment jsdom
+ * Tests for Pagination component
+ */
+import { render, screen, within } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { getPaginationItems, Pagination } from '../pagination';
+
+const LABELS = {
+  navigation: 'Pagination',
+  previous: 'Previous',
+  next: 'Next',
+  page: (page: number) => `Go to page ${page}`,
+};
+
+function renderPagination(currentPage: number, totalPages: number) {
+  return render(
+    <Pagination
+      currentPage={currentPage}
+      totalPages={totalPages}
+      getPageHref={(page) =>
+        page === 1 ? '/en/blog/tag/react' : `/en/blog/tag/react/page/${page}`
+      }
+      labels={LABELS}
+    />,
+  );
+}
+
+describe('getPaginationItems', () => {
+  it('should list every page when there are few pages', () => {
+    expect(getPaginationItems(2, 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should collapse distant pages into ellipses', () => {
+    expect(getPaginationItems(5, 10)).toEqual([
+      1,
+      'ellipsis-start',
+      4,
+      5,
+      6,
+      'ellipsis-end',
+      10,
+    ]);
+    expect(getPaginationItems(1, 10)).toEqual([1, 2, 'ellipsis-end', 10]);
+  });
+});
+
+describe('Pagination', () => {
+  it('should render nothing for a single page', () => {
+    const { container } = renderPagination(1, 1);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should mark the current page and link neighbours with rel', () => {
+    renderPagination(2, 3);
+
+    const nav = screen.getByRole('navigation', { name: 'Pagination' });
+    expect(
+      within(nav).getByRole('link', { name: 'Go to page 2' }),
+    ).toHaveAttribute('aria-current', 'page');
+    expect(within(nav).getByRole('link', { name: 'Previous' })).toHaveAttribute(
+      'href',
+      '/en/blog/tag/react',
+    );
+    expect(within(nav).getByRole('link', { name: 'Next' })).toHaveAttribute(
+      'rel',
+      'next',
+    );
+  });
+
+  it('should disable the previous control on the first page', () => {
+    renderPagination(1, 3);
+
+    expect(screen.queryByRole('link', { name: 'Previous' })).toBeNull();
+    expect(screen.getByText('Previous')).toHaveAttribute(
+      'aria-disabled',
+      'true',
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/** Pages shown on each side of the current page before collapsing */
+const SIBLING_COUNT = 1;
+
+type PaginationItem = number | 'ellipsis-start' | 'ellipsis-end';
+
+export interface PaginationLabels {
+  /** Accessible name of the navigation landmark */
+  navigation: string;
+  previous: string;
+  next: string;
+  /** Accessible name of a page link, e.g. "Go to page 3" */
+  page: (page: number) => string;
+}
+
+export interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  /** Builds the link of a page; page 1 is the unpaginated listing */
+  getPageHref: (page: number) => string;
+  labels: PaginationLabels;
+  className?: string;
+}
+
+/**
+ * Page numbers to render: first, last and the current page with its
+ * siblings, with gaps collapsed into ellipses.
+ */
+export function getPaginationItems(
+  currentPage: number,
+  totalPages: number,
+): PaginationItem[] {
+  const start = Math.max(2, currentPage - SIBLING_COUNT);
+  const end = Math.min(totalPages - 1, currentPage + SIBLING_COUNT);
+  const items: PaginationItem[] = [1];
+
+  if (start > 2) items.push('ellipsis-start');
+  for (let page = start; page <= end; page += 1) items.push(page);
+  if (end < totalPages - 1) items.push('ellipsis-end');
+  if (totalPages > 1) items.push(totalPages);
+
+  return items;
+}
+
+const ITEM_CLASS =
+  'inline-flex h-9 min-w-9 items-center justify-center gap-1 rounded-md px-3 text-sm font-medium transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+interface StepLinkProps {
+  href: string | undefined;
+  rel: 'prev' | 'next';
+  label: string;
+}
+
+function StepLink({ href, rel, label }: StepLinkProps) {
+  const icon =
+    rel === 'prev' ? (
+      <ChevronLeft
+        className='h-4 w-4'
+        aria-hidden='true'
+      />
+    ) : (
+      <ChevronRight
+        className='h-4 w-4'
+        aria-hidden='true'
+      />
+    );
+
+  if (href === undefined) {
+    return (
+      <span
+        aria-disabled='true'
+        className={cn(ITEM_CLASS, 'text-muted-foreground opacity-50')}
+      >
+        {rel === 'prev' && icon}
+        {label}
+        {rel === 'next' && icon}
+      </span>
+    );
+  }
+
+  return (
+    <Link
+      href={href}
+      rel={rel}
+      className={cn(ITEM_CLASS, 'hover:bg-accent hover:text-accent-foreground')}
+    >
+      {rel === 'prev' && icon}
+      {label}
+      {rel === 'next' && icon}
+    </Link>
+  );
+}
+
+/**
+ * Numbered pagination for listing pages (Server Component).
+ *
+ * Renders nothing for single-page listings.
+ */
+export function Pagination({
+  currentPage,
+  totalPages,
+  getPageHref,
+  labels,
+  className,
+}: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  return (
+    <nav
+      aria-label={labels.navigation}
+      className={cn('mt-12 flex justify-center', className)}
+    >
+      <ul className='flex flex-wrap items-center gap-1'>
+        <li>
+          <StepLink
+            rel='prev'
+            label={labels.previous}
+            href={currentPage > 1 ? getPageHref(currentPage - 1) : undefined}
+          />
+        </li>
+        {getPaginationItems(currentPage, totalPages).map((item) => (
+          <li key={item}>
+            {typeof item === 'number' ? (
+              <Link
+                href={getPageHref(item)}
+                aria-label={labels.page(item)}
+                aria-current={item === currentPage ? 'page' : undefined}
+                className={cn(
+                  ITEM_CLASS,
+                  item === currentPage
+                    ? 'bg-primary text-primary-foreground'
+                    : 'hover:bg-accent hover:text-accent-foreground',
+                )}
+              >
+                {item}
+              </Link>
+            ) : (
+              <span
+                aria-hidden='true'
+                className={cn(ITEM_CLASS, 'px-1 text-muted-foreground')}
+              >
+                …
+              </span>
+            )}
+          </li>
+        ))}
+        <li>
+          <StepLink
+            rel='next'
+            label={labels.next}
+            href={
+              currentPage < totalPages
+                ? getPageHref(currentPage + 1)
+                : undefined
+            }
+          />
+        </li>
+      </ul>
+    </nav>
+  );
+}
@@ -1,35 +1,45 @@
 'use client';
 
-import { usePathname } from 'next/navigation';
 import { useTranslations } from 'next-intl';
+import {
+  trackWhatsAppClick,
+  WHATSAPP_CLICK_SOURCES,
+} from '@/lib/whatsapp-click-to-chat';
 import type { WhatsAppChatWindowTranslations } from '@/components/whatsapp/whatsapp-chat-window';
 import {
   WhatsAppFloatingButton,
   type WhatsAppFloatingButtonProps,
 } from '@/components/whatsapp/whatsapp-floating-button';
+import {
+  useActiveWhatsAppProductChat,
+  useWhatsAppAttribution,
+} from '@/hooks/use-whatsapp-click-to-chat';
 
 type WhatsAppButtonWithTranslationsProps = Omit<
   WhatsAppFloatingButtonProps,
-  'translations' | 'defaultMessage' | 'label'
+  'translations' | 'defaultMessage' | 'label' | 'onStartChat'
 >;
 
 /**
  * Generate contextual default message based on current page
+ *
+ * Product pages register a localized message with the product name, slug
+ * and link; other pages get the default greeting plus the page URL.
+ * Attribution is appended when marketing cookies are accepted.
  */
 function useContextualMessage(defaultMessage: string): string {
-  const pathname = usePathname();
+  const productChat = useActiveWhatsAppProductChat();
+  const withAttribution = useWhatsAppAttribution();
 
-  // If on product page, add product context
-  if (pathname.includes('/products/')) {
-    const productSlug = pathname.split('/products/')[1]?.split('/')[0];
-    if (productSlug) {
-      return `${defaultMessage}\n\nProduct: ${productSlug}\nPage: ${typeof window !== 'undefined' ? window.location.href : ''}`;
-    }
+  if (productChat) {
+    return withAttribution(productChat.message);
   }
 
   // Add page URL for context
   if (typeof window !== 'undefined') {
-    return `${defaultMessage}\n\nPage: ${window.location.href}`;
+    return withAttribution(
+      `${defaultMessage}\n\nPage: ${window.location.href}`,
+    );
   }
 
   return defaultMessage;
@@ -45,6 +55,7 @@ export function WhatsAppButtonWithTranslations({
 }: WhatsAppButtonWithTranslationsProps) {
   const t = useTranslations('common.whatsapp');
   const tClose = useTranslations('common');
+  const productChat = useActiveWhatsAppProductChat();
 
   const translations: WhatsAppChatWindowTranslations = {
     greeting: t('greeting'),
@@ -58,12 +69,20 @@ export function WhatsAppButtonWithTranslations({
   const contextualMessage = useContextualMessage(defaultMessage);
   const label = t('buttonLabel');
 
+  const handleStartChat = () => {
+    trackWhatsAppClick(
+      WHATSAPP_CLICK_SOURCES.FLOATING_BUTTON,
+      productChat?.productSlug,
+    );
+  };
+
   return (
     <WhatsAppFloatingButton
       number={number}
       translations={translations}
       defaultMessage={contextualMessage}
       label={label}
+      onStartChat={handleStartChat}
       {...(className ? { className } : {})}
     />
   );
@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { Send, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getWhatsAppChatUrl } from '@/lib/whatsapp-click-to-chat';
 
 export interface WhatsAppChatWindowTranslations {
   greeting: string;
@@ -16,30 +17,17 @@ export interface WhatsAppChatWindowProps {
   number: string;
   defaultMessage?: string;
   onClose: () => void;
+  /** Called with the final message when the chat opens */
+  onStartChat?: (message: string) => void;
   translations: WhatsAppChatWindowTranslations;
   className?: string;
 }
 
-/**
- * Generate device-aware WhatsApp URL
- * Desktop: web.whatsapp.com
- * Mobile: native deep link (whatsapp://send)
- */
-function getWhatsAppUrl(phone: string, message: string): string {
-  const text = encodeURIComponent(message);
-  const isMobile =
-    typeof navigator !== 'undefined' &&
-    /iPhone|iPad|Android/i.test(navigator.userAgent);
-
-  return isMobile
-    ? `whatsapp://send?phone=${phone}&text=${text}`
-    : `https://web.whatsapp.com/send?phone=${phone}&text=${text}`;
-}
-
 export function WhatsAppChatWindow({
   number,
   defaultMessage = '',
   onClose,
+  onStartChat,
   translations,
   className,
 }: WhatsAppChatWindowProps) {
@@ -64,8 +52,9 @@ export function WhatsAppChatWindow({
   }, [onClose]);
 
   const handleStartChat = () => {
-    const url = getWhatsAppUrl(number, message);
+    const url = getWhatsAppChatUrl(number, message);
     window.open(url, '_blank', 'noopener,noreferrer');
+    onStartChat?.(message);
     onClose();
   };
 
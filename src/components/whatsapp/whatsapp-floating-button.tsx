@@ -10,6 +10,7 @@ import {
 import { MessageCircle, X } from 'lucide-react';
 import Draggable from 'react-draggable';
 import { cn } from '@/lib/utils';
+import { normalizeWhatsAppNumber } from '@/lib/whatsapp-click-to-chat';
 import {
   WhatsAppChatWindow,
   type WhatsAppChatWindowTranslations,
@@ -22,17 +23,13 @@ export interface WhatsAppFloatingButtonProps {
   className?: string;
   translations?: WhatsAppChatWindowTranslations;
   defaultMessage?: string;
+  /** Called with the final message when the chat opens */
+  onStartChat?: (message: string) => void;
 }
 
 const POSITION_STORAGE_KEY = 'whatsapp-button-position';
 const DEFAULT_POSITION = { x: 0, y: 0 };
 
-const normalizePhoneNumber = (value: string) => {
-  const digits = value.replace(/[^0-9]/g, '');
-  if (!digits) return null;
-  return digits;
-};
-
 /**
  * 从 localStorage 读取保存的位置
  */
@@ -101,9 +98,10 @@ export function WhatsAppFloatingButton({
   className = '',
   translations = DEFAULT_TRANSLATIONS,
   defaultMessage = '',
+  onStartChat,
 }: WhatsAppFloatingButtonProps) {
   const tokens = WHATSAPP_STYLE_TOKENS;
-  const normalizedNumber = normalizePhoneNumber(number);
+  const normalizedNumber = normalizeWhatsAppNumber(number);
   const nodeRef = useRef<HTMLDivElement>(null);
   // 使用 useSyncExternalStore 安全读取 localStorage，避免 SSR/hydration CLS
   const storedPosition = useStoredPosition();
@@ -190,6 +188,7 @@ export function WhatsAppFloatingButton({
             number={normalizedNumber}
             defaultMessage={defaultMessage}
             onClose={() => setIsChatOpen(false)}
+            {...(onStartChat ? { onStartChat } : {})}
             translations={translations}
           />
         )}
@@ -25,6 +25,7 @@ export const CONTACT_FORM_FIELD_KEYS = [
   'message',
   'acceptPrivacy',
   'marketingConsent',
+  'whatsappOptIn',
   'website',
 ] as const;
 
@@ -90,6 +91,7 @@ export interface ContactFormFieldValues {
   subject?: string | undefined;
   acceptPrivacy: boolean;
   marketingConsent?: boolean | undefined;
+  whatsappOptIn?: boolean | undefined;
   website?: string | undefined;
 }
 
@@ -151,7 +153,7 @@ const DEFAULT_FIELD_CONFIGS: Record<
   },
   phone: {
     key: 'phone',
-    enabled: false, // Disabled per Lead Pipeline requirements - simplify form
+    enabled: true, // Optional; used for the WhatsApp acknowledgement
     required: false,
     type: 'tel',
     order: 5,
@@ -189,12 +191,20 @@ const DEFAULT_FIELD_CONFIGS: Record<
     order: 9,
     i18nKey: 'marketingConsent',
   },
+  whatsappOptIn: {
+    key: 'whatsappOptIn',
+    enabled: true,
+    required: false,
+    type: 'checkbox',
+    order: 10,
+    i18nKey: 'whatsappOptIn',
+  },
   website: {
     key: 'website',
     enabled: true,
     required: false,
     type: 'hidden',
-    order: 10,
+    order: 11,
     i18nKey: 'website',
   },
 };
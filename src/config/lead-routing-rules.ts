@@ -0,0 +1,78 @@
+/**
+ * Lead scoring and routing rules
+ *
+ * Declarative configuration evaluated by `@/lib/lead-pipeline/lead-scoring`:
+ * - scoring rules add points when all of their conditions match
+ * - routes are checked in order; the first match wins, otherwise the
+ *   default route applies
+ *
+ * Route recipients fall back to the default notification inbox
+ * (EMAIL_REPLY_TO) and can be overridden per route with
+ * LEAD_ROUTE_RECIPIENTS_<ROUTE_ID> (comma-separated, e.g.
+ * LEAD_ROUTE_RECIPIENTS_PARTNERSHIPS). The chosen route is written to the
+ * Airtable "Route" field, so each team can work from its own filtered view.
+ */
+
+import type { LeadRulesConfig } from '@/lib/lead-pipeline/lead-scoring';
+
+/**
+ * Consumer mailbox providers; leads from these domains score lower than
+ * company domains
+ */
+export const FREE_EMAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'icloud.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'qq.com',
+  '163.com',
+  '126.com',
+  'sina.com',
+] as const;
+
+/**
+ * Stable route IDs, persisted with each lead
+ */
+export const LEAD_ROUTE_IDS = {
+  PARTNERSHIPS: 'partnerships',
+  KEY_ACCOUNTS: 'key_accounts',
+  SALES: 'sales',
+  GENERAL: 'general',
+} as const;
+
+export const LEAD_ROUTING_RULES: LeadRulesConfig = {
+  freeEmailDomains: [...FREE_EMAIL_DOMAINS],
+  scoring: [
+    { id: 'oem_odm_request', when: { subjects: ['oem_odm'] }, points: 40 },
+    {
+      id: 'distributor_request',
+      when: { subjects: ['distributor'] },
+      points: 30,
+    },
+    { id: 'product_inquiry', when: { leadTypes: ['product'] }, points: 20 },
+    { id: 'quantity_above_moq', when: { quantityAboveMoq: true }, points: 30 },
+    { id: 'company_provided', when: { hasCompany: true }, points: 10 },
+    {
+      id: 'business_email',
+      when: { leadTypes: ['contact', 'product'], freeEmail: false },
+      points: 10,
+    },
+  ],
+  routes: [
+    {
+      id: LEAD_ROUTE_IDS.PARTNERSHIPS,
+      when: { subjects: ['oem_odm', 'distributor'] },
+    },
+    { id: LEAD_ROUTE_IDS.KEY_ACCOUNTS, when: { quantityAboveMoq: true } },
+    { id: LEAD_ROUTE_IDS.KEY_ACCOUNTS, when: { minScore: 60 } },
+    { id: LEAD_ROUTE_IDS.SALES, when: { leadTypes: ['product'] } },
+    { id: LEAD_ROUTE_IDS.SALES, when: { subjects: ['product_inquiry'] } },
+  ],
+  defaultRoute: LEAD_ROUTE_IDS.GENERAL,
+};
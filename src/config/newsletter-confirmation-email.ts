@@ -0,0 +1,94 @@
+/**
+ * Newsletter double opt-in email copy
+ *
+ * Used for the confirmation email subject and body, in the subscriber's
+ * signup locale. Text may use the `{siteName}`, `{email}` and `{year}`
+ * placeholders.
+ */
+
+import { SITE_CONFIG } from '@/config/paths/site-config';
+import { routing, type Locale } from '@/i18n/routing-config';
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export interface NewsletterConfirmationCopy {
+  subject: string;
+  preview: string;
+  title: string;
+  intro: string;
+  button: string;
+  ignoreNotice: string;
+  /** Rendered around the preference center link */
+  manageBefore: string;
+  manageLink: string;
+  manageAfter: string;
+  footer: string;
+}
+
+export const NEWSLETTER_CONFIRMATION_COPY: Record<
+  Locale,
+  NewsletterConfirmationCopy
+> = {
+  en: {
+    subject: 'Please confirm your subscription - {siteName}',
+    preview: 'Confirm your subscription to receive our updates.',
+    title: 'Confirm Your Subscription',
+    intro:
+      'Thanks for signing up for the {siteName} newsletter with {email}. Please confirm your subscription to start receiving our updates.',
+    button: 'Confirm subscription',
+    ignoreNotice:
+      'If you did not sign up, you can ignore this email and you will not be subscribed.',
+    manageBefore:
+      'You can unsubscribe or manage your subscription at any time from the ',
+    manageLink: 'preference center',
+    manageAfter: '.',
+    footer: '© {year} {siteName}. All rights reserved.',
+  },
+  zh: {
+    subject: '请确认您的订阅 - {siteName}',
+    preview: '确认订阅后即可收到我们的最新动态。',
+    title: '确认您的订阅',
+    intro:
+      '感谢您使用 {email} 订阅 {siteName} 的新闻通讯。请确认订阅，以便开始接收我们的最新动态。',
+    button: '确认订阅',
+    ignoreNotice: '如果这不是您本人的操作，请忽略此邮件，您将不会被订阅。',
+    manageBefore: '您可以随时在',
+    manageLink: '订阅偏好中心',
+    manageAfter: '退订或管理您的订阅。',
+    footer: '© {year} {siteName}。保留所有权利。',
+  },
+};
+
+/**
+ * Copy for the signup locale (falling back to the default locale), with the
+ * placeholders filled in
+ */
+export function getNewsletterConfirmationCopy(
+  locale: Locale | undefined,
+  email: string,
+): NewsletterConfirmationCopy {
+  const values = new Map([
+    ['siteName', SITE_CONFIG.name],
+    ['email', email],
+    ['year', String(new Date().getFullYear())],
+  ]);
+  const copy = NEWSLETTER_CONFIRMATION_COPY[locale ?? routing.defaultLocale];
+  const fill = (text: string) =>
+    text.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder, name: string) => values.get(name) ?? placeholder,
+    );
+
+  return {
+    subject: fill(copy.subject),
+    preview: fill(copy.preview),
+    title: fill(copy.title),
+    intro: fill(copy.intro),
+    button: fill(copy.button),
+    ignoreNotice: fill(copy.ignoreNotice),
+    manageBefore: fill(copy.manageBefore),
+    manageLink: fill(copy.manageLink),
+    manageAfter: fill(copy.manageAfter),
+    footer: fill(copy.footer),
+  };
+}
@@ -39,9 +39,12 @@ export interface CompanyInfo {
 }
 
 export interface BusinessHours {
+  /** Opening hours as `H:MM - H:MM` */
   weekdays: string;
   saturday: string;
   sundayClosed: boolean;
+  /** IANA time zone the hours are given in */
+  timeZone?: string;
 }
 
 export interface ContactInfo {
@@ -107,6 +110,7 @@ export const siteFacts: SiteFacts = {
       weekdays: '9:00 - 18:00',
       saturday: '10:00 - 16:00',
       sundayClosed: true,
+      timeZone: 'America/Los_Angeles',
     },
   },
   certifications: [
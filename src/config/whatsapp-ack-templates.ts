@@ -0,0 +1,24 @@
+/**
+ * WhatsApp inquiry acknowledgement templates
+ *
+ * Used by the `whatsapp_ack` lead sink for buyers who opted in to WhatsApp.
+ * Templates must be approved in WhatsApp Manager before use; each template
+ * body takes two parameters: {{1}} the buyer's first name and {{2}} the
+ * inquiry reference ID.
+ *
+ * WHATSAPP_ACK_TEMPLATE_<LOCALE> overrides the template name per locale
+ * (e.g. WHATSAPP_ACK_TEMPLATE_ZH).
+ */
+
+import type { Locale } from '@/i18n/routing-config';
+
+export interface WhatsAppAckTemplate {
+  name: string;
+  /** WhatsApp template language code, e.g. `en` or `zh_CN` */
+  languageCode: string;
+}
+
+export const WHATSAPP_ACK_TEMPLATES: Record<Locale, WhatsAppAckTemplate> = {
+  en: { name: 'inquiry_received', languageCode: 'en' },
+  zh: { name: 'inquiry_received', languageCode: 'zh_CN' },
+};
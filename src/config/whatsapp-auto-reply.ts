@@ -0,0 +1,248 @@
+/**
+ * WhatsApp auto-reply flows
+ *
+ * Used by the `auto_reply` webhook processor. Each locale defines keyword
+ * or regex intents, a numbered menu (sent as reply buttons, or as a list
+ * when it has more than three options) and a fallback reply.
+ *
+ * Replies marked `handoff` promise a reply from a person; outside business
+ * hours (`siteFacts.contact.businessHours`) they are replaced with the
+ * `afterHours` notice. Text may use the `{weekdays}`, `{saturday}` and
+ * `{timeZone}` placeholders, filled in from the business hours.
+ *
+ * WhatsApp limits: button titles 20 characters, list row titles 24
+ * characters, list rows 10.
+ */
+
+import { SITE_CONFIG } from '@/config/paths/site-config';
+import type { Locale } from '@/i18n/routing-config';
+
+export type AutoReplyContent =
+  | { type: 'text'; text: string }
+  | {
+      type: 'buttons';
+      body: string;
+      buttons: Array<{ id: string; title: string }>;
+      footer?: string;
+    }
+  | {
+      type: 'list';
+      body: string;
+      buttonText: string;
+      rows: Array<{ id: string; title: string; description?: string }>;
+      footer?: string;
+    };
+
+export interface AutoReplyAction {
+  reply: AutoReplyContent;
+  /** Promises a reply from the team; answered with `afterHours` when closed */
+  handoff?: boolean;
+}
+
+export interface AutoReplyIntent extends AutoReplyAction {
+  id: string;
+  /** Whole words or phrases, matched case-insensitively */
+  keywords?: string[];
+  patterns?: RegExp[];
+}
+
+export interface AutoReplyMenuOption extends AutoReplyAction {
+  /** Button / list row ID */
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface AutoReplyMenu {
+  keywords: string[];
+  body: string;
+  /** Label of the list button */
+  buttonText: string;
+  /** Selected by tapping, or by replying with the option number */
+  options: AutoReplyMenuOption[];
+}
+
+export interface WhatsAppAutoReplyFlow {
+  menu: AutoReplyMenu;
+  /** Checked in order; the first match wins */
+  intents: AutoReplyIntent[];
+  fallback: AutoReplyAction;
+  afterHours: string;
+}
+
+const CATALOG_URL = `${SITE_CONFIG.baseUrl}/products`;
+
+export const WHATSAPP_AUTO_REPLY_FLOWS: Record<Locale, WhatsAppAutoReplyFlow> =
+  {
+    en: {
+      menu: {
+        keywords: ['menu', 'options', 'start'],
+        body: 'How can we help? Tap an option or reply with its number.',
+        buttonText: 'View options',
+        options: [
+          {
+            id: 'menu_catalog',
+            title: 'Product catalog',
+            description: 'Browse our product range',
+            reply: {
+              type: 'text',
+              text: `You can browse our full product catalog here: ${CATALOG_URL}`,
+            },
+          },
+          {
+            id: 'menu_sales',
+            title: 'Talk to sales',
+            description: 'Quotes, samples and lead times',
+            reply: {
+              type: 'text',
+              text: 'Thanks! A member of our sales team will reply here shortly.',
+            },
+            handoff: true,
+          },
+          {
+            id: 'menu_hours',
+            title: 'Business hours',
+            description: 'When our team is available',
+            reply: {
+              type: 'text',
+              text: 'Our team is available Monday to Friday {weekdays} and Saturday {saturday} ({timeZone}).',
+            },
+          },
+        ],
+      },
+      intents: [
+        {
+          id: 'greeting',
+          keywords: ['hello', 'hi', 'hey'],
+          reply: {
+            type: 'text',
+            text: 'Hello! Thank you for contacting us. How can we help you today? Reply MENU to see your options.',
+          },
+        },
+        {
+          id: 'help',
+          keywords: ['help'],
+          reply: {
+            type: 'text',
+            text: "We're here to help! Please describe your question or concern, or reply MENU to see your options.",
+          },
+        },
+        {
+          id: 'pricing',
+          keywords: ['price', 'prices', 'pricing', 'cost', 'quote'],
+          patterns: [/how much/i],
+          reply: {
+            type: 'buttons',
+            body: 'For pricing information, tell us the product and quantity you need, or talk to our sales team.',
+            buttons: [
+              { id: 'menu_sales', title: 'Talk to sales' },
+              { id: 'menu_catalog', title: 'Product catalog' },
+            ],
+          },
+        },
+        {
+          id: 'sales',
+          keywords: ['sales', 'agent', 'human', 'person'],
+          reply: {
+            type: 'text',
+            text: 'Thanks! A member of our sales team will reply here shortly.',
+          },
+          handoff: true,
+        },
+      ],
+      fallback: {
+        reply: {
+          type: 'text',
+          text: 'Thank you for your message. Our team will get back to you soon! Reply MENU to see your options.',
+        },
+        handoff: true,
+      },
+      afterHours:
+        "Thank you for your message! Our team is currently offline. We're available Monday to Friday {weekdays} and Saturday {saturday} ({timeZone}) and will reply as soon as we're back.",
+    },
+    zh: {
+      menu: {
+        keywords: ['菜单', 'menu'],
+        body: '请问需要什么帮助？点击选项或回复对应数字。',
+        buttonText: '查看选项',
+        options: [
+          {
+            id: 'menu_catalog',
+            title: '产品目录',
+            description: '浏览全部产品',
+            reply: {
+              type: 'text',
+              text: `您可以在这里浏览完整产品目录：${CATALOG_URL}`,
+            },
+          },
+          {
+            id: 'menu_sales',
+            title: '联系销售',
+            description: '报价、样品与交期',
+            reply: {
+              type: 'text',
+              text: '谢谢！销售同事会尽快在这里回复您。',
+            },
+            handoff: true,
+          },
+          {
+            id: 'menu_hours',
+            title: '工作时间',
+            description: '团队在线时间',
+            reply: {
+              type: 'text',
+              text: '我们的工作时间为周一至周五 {weekdays}，周六 {saturday}（{timeZone}）。',
+            },
+          },
+        ],
+      },
+      intents: [
+        {
+          id: 'greeting',
+          keywords: ['你好', '您好', 'hello', 'hi'],
+          reply: {
+            type: 'text',
+            text: '您好！感谢您的联系，请问有什么可以帮您？回复“菜单”查看选项。',
+          },
+        },
+        {
+          id: 'help',
+          keywords: ['帮助', 'help'],
+          reply: {
+            type: 'text',
+            text: '我们随时为您提供帮助！请描述您的问题，或回复“菜单”查看选项。',
+          },
+        },
+        {
+          id: 'pricing',
+          keywords: ['价格', '报价', '多少钱', 'price'],
+          reply: {
+            type: 'buttons',
+            body: '如需报价，请告诉我们产品和数量，或直接联系销售。',
+            buttons: [
+              { id: 'menu_sales', title: '联系销售' },
+              { id: 'menu_catalog', title: '产品目录' },
+            ],
+          },
+        },
+        {
+          id: 'sales',
+          keywords: ['人工', '销售', '客服'],
+          reply: {
+            type: 'text',
+            text: '谢谢！销售同事会尽快在这里回复您。',
+          },
+          handoff: true,
+        },
+      ],
+      fallback: {
+        reply: {
+          type: 'text',
+          text: '感谢您的留言，我们的团队会尽快回复您！回复“菜单”查看选项。',
+        },
+        handoff: true,
+      },
+      afterHours:
+        '感谢您的留言！我们的团队目前不在线，工作时间为周一至周五 {weekdays}，周六 {saturday}（{timeZone}），上线后会第一时间回复您。',
+    },
+  };
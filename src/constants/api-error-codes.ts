@@ -37,6 +37,21 @@ export const API_ERROR_CODES = {
   SUBSCRIBE_SECURITY_FAILED: 'SUBSCRIBE_SECURITY_FAILED',
   SUBSCRIBE_PROCESSING_ERROR: 'SUBSCRIBE_PROCESSING_ERROR',
 
+  // ============================================
+  // Newsletter confirmation / unsubscribe API
+  // ============================================
+  NEWSLETTER_CONFIRMED: 'NEWSLETTER_CONFIRMED',
+  NEWSLETTER_UNSUBSCRIBED: 'NEWSLETTER_UNSUBSCRIBED',
+  NEWSLETTER_TOKEN_INVALID: 'NEWSLETTER_TOKEN_INVALID',
+  NEWSLETTER_UPDATE_FAILED: 'NEWSLETTER_UPDATE_FAILED',
+
+  // ============================================
+  // Site Search API
+  // ============================================
+  SEARCH_QUERY_REQUIRED: 'SEARCH_QUERY_REQUIRED',
+  SEARCH_INVALID_TYPE: 'SEARCH_INVALID_TYPE',
+  SEARCH_DISABLED: 'SEARCH_DISABLED',
+
   // ============================================
   // Web Vitals API
   // ============================================
@@ -78,6 +93,12 @@ export const API_ERROR_CODES = {
   CACHE_INVALID_DOMAIN: 'CACHE_INVALID_DOMAIN',
   CACHE_INVALIDATION_FAILED: 'CACHE_INVALIDATION_FAILED',
 
+  // ============================================
+  // Lead Outbox API
+  // ============================================
+  LEAD_OUTBOX_DRAINED: 'LEAD_OUTBOX_DRAINED',
+  LEAD_OUTBOX_DRAIN_FAILED: 'LEAD_OUTBOX_DRAIN_FAILED',
+
   // ============================================
   // Generic Error (fallback)
   // ============================================
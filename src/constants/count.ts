@@ -52,6 +52,7 @@ export const MAGIC_18 = 18 as const;
 export const MAGIC_20 = 20 as const;
 export const MAGIC_22 = 22 as const;
 export const COUNT_23 = 23 as const;
+export const COUNT_30 = 30 as const;
 export const MAGIC_32 = 32 as const;
 export const COUNT_35 = 35 as const;
 export const MAGIC_36 = 36 as const;
@@ -41,18 +41,28 @@ export const HEX_PNG_SIGNATURE_6 = 0x0a as const; // PNG signature byte 6
 export const HEX_JPEG_MARKER_1 = 0xff as const; // JPEG marker start
 export const HEX_JPEG_SOI = 0xd8 as const; // JPEG Start of Image
 
+// ============================================================================
+// 文件签名常量 - GIF
+// ============================================================================
+
+export const HEX_GIF_SIGNATURE_1 = 0x47 as const; // GIF signature 'G'
+export const HEX_GIF_SIGNATURE_2 = 0x49 as const; // GIF signature 'I'
+export const HEX_GIF_SIGNATURE_3 = 0x46 as const; // GIF signature 'F'
+
 // ============================================================================
 // 文件签名常量 - PDF
 // ============================================================================
 
 export const HEX_PDF_MARKER = 0x25 as const; // PDF marker '%'
 export const HEX_PDF_SIGNATURE_1 = 0x50 as const; // PDF signature 'P'
+export const HEX_PDF_SIGNATURE_2 = 0x44 as const; // PDF signature 'D'
+export const HEX_PDF_SIGNATURE_3 = 0x46 as const; // PDF signature 'F'
 
 // ============================================================================
 // 文件签名常量 - ZIP
 // ============================================================================
 
-export const HEX_ZIP_SIGNATURE = 0x50 as const; // ZIP signature 'P'
+export const HEX_ZIP_SIGNATURE = 0x4b as const; // ZIP signature 'K' (after 'P')
 
 // ============================================================================
 // 通用十六进制数值
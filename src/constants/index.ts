@@ -46,8 +46,13 @@ export {
   HEX_PNG_SIGNATURE_6,
   HEX_JPEG_MARKER_1,
   HEX_JPEG_SOI,
+  HEX_GIF_SIGNATURE_1,
+  HEX_GIF_SIGNATURE_2,
+  HEX_GIF_SIGNATURE_3,
   HEX_PDF_MARKER,
   HEX_PDF_SIGNATURE_1,
+  HEX_PDF_SIGNATURE_2,
+  HEX_PDF_SIGNATURE_3,
   HEX_ZIP_SIGNATURE,
   MAGIC_HEX_03,
   MAGIC_HEX_04,
@@ -82,6 +87,7 @@ export {
   MAGIC_20,
   MAGIC_22,
   COUNT_23,
+  COUNT_30,
   MAGIC_32,
   COUNT_35,
   MAGIC_36,
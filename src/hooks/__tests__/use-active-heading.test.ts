@@ -0,0 +1,102 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useActiveHeading } from '../use-active-heading';
+
+type ObserverCallback = (records: Partial<IntersectionObserverEntry>[]) => void;
+
+const mockObserve = vi.fn();
+const mockDisconnect = vi.fn();
+let observerCallback: ObserverCallback | undefined;
+
+function addHeading(id: string): HTMLElement {
+  const heading = document.createElement('h2');
+  heading.id = id;
+  document.body.appendChild(heading);
+  return heading;
+}
+
+function intersect(heading: HTMLElement, isIntersecting: boolean) {
+  act(() => {
+    observerCallback?.([{ target: heading, isIntersecting }]);
+  });
+}
+
+describe('useActiveHeading', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    observerCallback = undefined;
+    vi.stubGlobal(
+      'IntersectionObserver',
+      vi.fn(function MockIntersectionObserver(callback: ObserverCallback) {
+        observerCallback = callback;
+        return { observe: mockObserve, disconnect: mockDisconnect };
+      }),
+    );
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.unstubAllGlobals();
+  });
+
+  it('should observe the headings that exist in the document', () => {
+    const intro = addHeading('intro');
+
+    renderHook(() => useActiveHeading(['intro', 'missing']));
+
+    expect(mockObserve).toHaveBeenCalledTimes(1);
+    expect(mockObserve).toHaveBeenCalledWith(intro);
+  });
+
+  it('should return the first visible heading in document order', () => {
+    const intro = addHeading('intro');
+    const usage = addHeading('usage');
+    const { result } = renderHook(() => useActiveHeading(['intro', 'usage']));
+
+    expect(result.current).toBeUndefined();
+
+    intersect(usage, true);
+    expect(result.current).toBe('usage');
+
+    intersect(intro, true);
+    expect(result.current).toBe('intro');
+  });
+
+  it('should keep the last active heading between headings', () => {
+    const intro = addHeading('intro');
+    addHeading('usage');
+    const { result } = renderHook(() => useActiveHeading(['intro', 'usage']));
+
+    intersect(intro, true);
+    intersect(intro, false);
+
+    expect(result.current).toBe('intro');
+  });
+
+  it('should not recreate the observer for an equal id list', () => {
+    addHeading('intro');
+    const { rerender } = renderHook(({ ids }) => useActiveHeading(ids), {
+      initialProps: { ids: ['intro'] },
+    });
+
+    rerender({ ids: ['intro'] });
+
+    expect(IntersectionObserver).toHaveBeenCalledTimes(1);
+  });
+
+  it('should disconnect on unmount', () => {
+    addHeading('intro');
+    const { unmount } = renderHook(() => useActiveHeading(['intro']));
+
+    unmount();
+
+    expect(mockDisconnect).toHaveBeenCalled();
+  });
+
+  it('should do nothing without headings', () => {
+    const { result } = renderHook(() => useActiveHeading([]));
+
+    expect(IntersectionObserver).not.toHaveBeenCalled();
+    expect(result.current).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Band of the viewport that counts as "reading": below the sticky header
+ * (`scroll-mt-24` = 96px) and above the lower 60% of the screen.
+ */
+const READING_BAND_ROOT_MARGIN = '-96px 0px -60% 0px';
+
+/**
+ * Scroll-spy for a table of contents.
+ *
+ * Returns the id of the first heading inside the reading band. Between
+ * headings the last one passed stays active, so the highlight never
+ * flickers off while reading a long section.
+ *
+ * @param ids - Heading ids in document order
+ */
+export function useActiveHeading(ids: readonly string[]): string | undefined {
+  const [activeId, setActiveId] = useState<string>();
+  // Stable dependency: callers usually pass a fresh array on every render
+  const idsKey = ids.join('\n');
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.IntersectionObserver) {
+      return undefined;
+    }
+
+    const order = idsKey === '' ? [] : idsKey.split('\n');
+    const headings = order
+      .map((id) => document.getElementById(id))
+      .filter((heading): heading is HTMLElement => heading !== null);
+    if (headings.length === 0) return undefined;
+
+    const visible = new Set<string>();
+    const observer = new IntersectionObserver(
+      (records) => {
+        for (const record of records) {
+          if (record.isIntersecting) visible.add(record.target.id);
+          else visible.delete(record.target.id);
+        }
+        const first = order.find((id) => visible.has(id));
+        if (first !== undefined) setActiveId(first);
+      },
+      { rootMargin: READING_BAND_ROOT_MARGIN },
+    );
+
+    for (const heading of headings) observer.observe(heading);
+
+    return () => observer.disconnect();
+  }, [idsKey]);
+
+  return activeId;
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useCookieConsentOptional } from '@/lib/cookie-consent';
+import { getAttributionAsObject } from '@/lib/utm';
+import {
+  appendAttributionReference,
+  getActiveWhatsAppProductChat,
+  subscribeActiveWhatsAppProductChat,
+  type WhatsAppProductChat,
+} from '@/lib/whatsapp-click-to-chat';
+
+/**
+ * Returns a function that adds the visitor's attribution to a message
+ * Attribution is only shared once marketing cookies are accepted
+ */
+export function useWhatsAppAttribution(): (message: string) => string {
+  const cookieConsent = useCookieConsentOptional();
+
+  const marketingAllowed = cookieConsent
+    ? cookieConsent.ready && cookieConsent.consent.marketing
+    : true;
+
+  return useCallback(
+    (message: string) =>
+      marketingAllowed
+        ? appendAttributionReference(message, getAttributionAsObject())
+        : message,
+    [marketingAllowed],
+  );
+}
+
+/**
+ * Product chat registered by the current product page, if any
+ */
+export function useActiveWhatsAppProductChat(): WhatsAppProductChat | null {
+  return useSyncExternalStore(
+    subscribeActiveWhatsAppProductChat,
+    getActiveWhatsAppProductChat,
+    () => null,
+  );
+}
@@ -387,4 +387,154 @@ describe('Airtable Service - Create Operations Tests', () => {
       );
     });
   });
+
+  describe('创建线索记录', () => {
+    it('should write marketing attribution columns when provided', async () => {
+      const service = new AirtableServiceClass();
+      setServiceReady(service);
+      mockCreate.mockResolvedValue([
+        createMockRecord({
+          id: 'rec-lead',
+          fields: {},
+          createdTime: '2023-01-01T00:00:00Z',
+        }),
+      ]);
+
+      await service.createLead('newsletter', {
+        email: 'reader@example.com',
+        referenceId: 'NEW-1',
+        attribution: { utmSource: 'google', utmCampaign: 'spring_sale' },
+      });
+
+      const [[{ fields }]] = mockCreate.mock.calls[0] as [
+        [{ fields: Record<string, unknown> }],
+      ];
+      expect(fields).toMatchObject({
+        'Reference ID': 'NEW-1',
+        'UTM Source': 'google',
+        'UTM Campaign': 'spring_sale',
+      });
+      expect(fields).not.toHaveProperty('GCLID');
+    });
+
+    it('should write the lead score and route when provided', async () => {
+      const service = new AirtableServiceClass();
+      setServiceReady(service);
+      mockCreate.mockResolvedValue([
+        createMockRecord({
+          id: 'rec-lead',
+          fields: {},
+          createdTime: '2023-01-01T00:00:00Z',
+        }),
+      ]);
+
+      await service.createLead('product', {
+        firstName: 'Jane',
+        lastName: 'Buyer',
+        email: 'jane@acme.com',
+        message: 'Product: Pump',
+        productSlug: 'pump',
+        productName: 'Pump',
+        quantity: 5000,
+        score: 70,
+        route: 'key_accounts',
+      });
+
+      const [[{ fields }]] = mockCreate.mock.calls[0] as [
+        [{ fields: Record<string, unknown> }],
+      ];
+      expect(fields).toMatchObject({
+        'Lead Score': 70,
+        'Route': 'key_accounts',
+      });
+    });
+
+    it('should append merged activity to the lead found by reference ID', async () => {
+      const service = new AirtableServiceClass();
+      setServiceReady(service);
+      mockSelectAll.mockResolvedValue([
+        { id: 'rec-lead', get: vi.fn(() => 'Earlier activity') },
+      ]);
+      mockUpdate.mockResolvedValue([]);
+
+      await expect(
+        service.appendLeadActivity('CON-1', 'New activity'),
+      ).resolves.toBe('rec-lead');
+
+      expect(mockSelect).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filterByFormula: '{Reference ID} = "CON-1"',
+        }),
+      );
+      expect(mockUpdate).toHaveBeenCalledWith([
+        {
+          id: 'rec-lead',
+          fields: expect.objectContaining({
+            Activity: 'Earlier activity\n\nNew activity',
+          }),
+        },
+      ]);
+    });
+
+    it('should throw when the lead record does not exist yet', async () => {
+      const service = new AirtableServiceClass();
+      setServiceReady(service);
+      mockSelectAll.mockResolvedValue([]);
+
+      await expect(
+        service.appendLeadActivity('CON-404', 'New activity'),
+      ).rejects.toThrow('Lead record CON-404 not found');
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('更新订阅状态', () => {
+    it('should update the status on existing newsletter records', async () => {
+      const service = new AirtableServiceClass();
+      setServiceReady(service);
+      mockSelectAll.mockResolvedValue([{ id: 'rec-news' }]);
+      mockUpdate.mockResolvedValue([]);
+
+      await expect(
+        service.updateNewsletterSubscription(
+          'Reader@Example.com',
+          'Unsubscribed',
+        ),
+      ).resolves.toBe(1);
+
+      expect(mockSelect).toHaveBeenCalledWith({
+        filterByFormula:
+          'AND({Email} = "reader@example.com", {Source} = "Newsletter Subscription")',
+      });
+      expect(mockUpdate).toHaveBeenCalledWith([
+        {
+          id: 'rec-news',
+          fields: expect.objectContaining({
+            'Subscription Status': 'Unsubscribed',
+          }),
+        },
+      ]);
+    });
+
+    it('should create a record when the email is unknown', async () => {
+      const service = new AirtableServiceClass();
+      setServiceReady(service);
+      mockSelectAll.mockResolvedValue([]);
+      mockCreate.mockResolvedValue([createMockRecord({ id: 'rec-new' })]);
+
+      await service.updateNewsletterSubscription(
+        'reader@example.com',
+        'Unsubscribed',
+      );
+
+      const [[{ fields }]] = mockCreate.mock.calls[0] as [
+        [{ fields: Record<string, unknown> }],
+      ];
+      expect(fields).toMatchObject({
+        'Email': 'reader@example.com',
+        'Subscription Status': 'Unsubscribed',
+      });
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostSummary } from '@/types/content.types';
+import {
+  collectTaxonomyTerms,
+  getBlogArchivePageCached,
+  getBlogArchivePath,
+  slugifyTaxonomyTerm,
+} from '@/lib/content/blog-taxonomy';
+
+const { mockGetAllPostsCached, mockGetContentConfig } = vi.hoisted(() => ({
+  mockGetAllPostsCached: vi.fn(),
+  mockGetContentConfig: vi.fn(),
+}));
+
+vi.mock('@/lib/content/blog', () => ({
+  getAllPostsCached: mockGetAllPostsCached,
+}));
+
+vi.mock('@/lib/content-utils', () => ({
+  getContentConfig: mockGetContentConfig,
+}));
+
+function createPost(
+  slug: string,
+  overrides: Partial<PostSummary> = {},
+): PostSummary {
+  return {
+    slug,
+    locale: 'en',
+    title: slug,
+    publishedAt: '2024-01-01',
+    ...overrides,
+  };
+}
+
+const POSTS: PostSummary[] = [
+  createPost('newest', {
+    publishedAt: '2024-03-01',
+    tags: ['Next.js', 'React'],
+    categories: ['Technology'],
+    author: 'Editorial Team',
+  }),
+  createPost('middle', {
+    publishedAt: '2024-02-01',
+    updatedAt: '2024-04-01',
+    tags: ['next js', 'React'],
+    categories: ['Technology'],
+  }),
+  createPost('oldest', { tags: ['React', 'React'] }),
+];
+
+describe('slugifyTaxonomyTerm', () => {
+  it.each([
+    ['Web Development', 'web-development'],
+    ['Next.js', 'next-js'],
+    ['  C++ / Rust ', 'c-rust'],
+    ['企业级', '企业级'],
+    ['B2B Web Template 团队', 'b2b-web-template-团队'],
+    ['ＡＢＣ', 'abc'],
+    ['---', ''],
+  ])('should slugify %j as %j', (term, slug) => {
+    expect(slugifyTaxonomyTerm(term)).toBe(slug);
+  });
+});
+
+describe('getBlogArchivePath', () => {
+  it('should encode localized slugs and only add page segments after page 1', () => {
+    expect(getBlogArchivePath('tag', 'react')).toBe('/blog/tag/react');
+    expect(getBlogArchivePath('category', '技术', 1)).toBe(
+      '/blog/category/%E6%8A%80%E6%9C%AF',
+    );
+    expect(getBlogArchivePath('author', 'team', 3)).toBe(
+      '/blog/author/team/page/3',
+    );
+  });
+});
+
+describe('collectTaxonomyTerms', () => {
+  it('should count posts per term, most used first', () => {
+    const terms = collectTaxonomyTerms(POSTS, 'tag');
+
+    expect(terms.map((term) => [term.slug, term.count])).toEqual([
+      ['react', 3],
+      ['next-js', 2],
+    ]);
+  });
+
+  it('should merge spellings that share a slug and track the latest change', () => {
+    const [, nextJs] = collectTaxonomyTerms(POSTS, 'tag');
+
+    expect(nextJs).toEqual({
+      kind: 'tag',
+      slug: 'next-js',
+      name: 'Next.js',
+      names: ['Next.js', 'next js'],
+      count: 2,
+      lastModified: '2024-04-01',
+    });
+  });
+
+  it('should group posts by category and author', () => {
+    expect(collectTaxonomyTerms(POSTS, 'category')).toMatchObject([
+      { slug: 'technology', count: 2 },
+    ]);
+    expect(collectTaxonomyTerms(POSTS, 'author')).toMatchObject([
+      { slug: 'editorial-team', name: 'Editorial Team', count: 1 },
+    ]);
+  });
+});
+
+describe('getBlogArchivePageCached', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetContentConfig.mockReturnValue({ postsPerPage: 2 });
+    mockGetAllPostsCached.mockImplementation(
+      async (_locale, options?: { limit?: number }) =>
+        options?.limit === undefined ? POSTS : POSTS.slice(0, options.limit),
+    );
+  });
+
+  it('should query one page of the term through the content query', async () => {
+    const archive = await getBlogArchivePageCached('en', {
+      kind: 'tag',
+      slug: 'react',
+      page: 2,
+    });
+
+    expect(mockGetAllPostsCached).toHaveBeenLastCalledWith('en', {
+      tags: ['React'],
+      sortBy: 'publishedAt',
+      sortOrder: 'desc',
+      draft: false,
+      limit: 2,
+      offset: 2,
+    });
+    expect(archive).toMatchObject({
+      currentPage: 2,
+      totalPages: 2,
+      offset: 2,
+      term: { slug: 'react', count: 3 },
+    });
+  });
+
+  it('should filter author archives by every spelling of the author', async () => {
+    await getBlogArchivePageCached('en', {
+      kind: 'author',
+      slug: 'editorial-team',
+    });
+
+    expect(mockGetAllPostsCached).toHaveBeenLastCalledWith(
+      'en',
+      expect.objectContaining({ authors: ['Editorial Team'], offset: 0 }),
+    );
+  });
+
+  it.each([
+    ['unknown term', 'missing', 1],
+    ['page beyond the last', 'react', 3],
+    ['page zero', 'react', 0],
+    ['non-numeric page', 'react', Number.NaN],
+  ])('should return null for an %s', async (_case, slug, page) => {
+    await expect(
+      getBlogArchivePageCached('en', { kind: 'tag', slug, page }),
+    ).resolves.toBeNull();
+  });
+});
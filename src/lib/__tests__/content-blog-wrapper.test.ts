@@ -1,17 +1,33 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { BlogPost, BlogPostMetadata, Locale } from '@/types/content.types';
 // Import after mocks so that the wrapper uses the mocked content-query functions.
-import { getAllPostsCached, getPostBySlugCached } from '@/lib/content/blog';
+import {
+  getAllPostsCached,
+  getPostBySlugCached,
+  getPostListingPageCached,
+} from '@/lib/content/blog';
 
 // Use vi.hoisted to ensure mocks are set up before the module under test is imported.
-const { mockGetAllPosts, mockGetPostBySlug } = vi.hoisted(() => ({
-  mockGetAllPosts: vi.fn(),
-  mockGetPostBySlug: vi.fn(),
-}));
-
-vi.mock('@/lib/content-query', () => ({
+const { mockGetAllPosts, mockGetPostBySlug, mockGetContentConfig } = vi.hoisted(
+  () => ({
+    mockGetAllPosts: vi.fn(),
+    mockGetPostBySlug: vi.fn(),
+    mockGetContentConfig: vi.fn(),
+  }),
+);
+
+vi.mock('@/lib/content-query', async () => ({
   getAllPosts: mockGetAllPosts,
   getPostBySlug: mockGetPostBySlug,
+  paginatePosts: (
+    await vi.importActual<typeof import('@/lib/content-query/sorting')>(
+      '@/lib/content-query/sorting',
+    )
+  ).paginatePosts,
+}));
+
+vi.mock('@/lib/content-utils', () => ({
+  getContentConfig: mockGetContentConfig,
 }));
 
 // Mock the blog module to avoid 'use cache' directive issues in test environment
@@ -137,6 +153,57 @@ describe('content blog wrappers', () => {
     });
   });
 
+  describe('getPostListingPageCached', () => {
+    const posts = ['a', 'b', 'c'].map((slug) =>
+      createBlogPost('en', { slug, title: slug }),
+    );
+
+    beforeEach(() => {
+      mockGetContentConfig.mockReturnValue({ postsPerPage: 2 });
+      mockGetAllPosts.mockReturnValue(posts);
+    });
+
+    it('should return one page of published posts, newest first', async () => {
+      const listing = await getPostListingPageCached('en', 2);
+
+      expect(mockGetAllPosts).toHaveBeenCalledWith('en', {
+        sortBy: 'publishedAt',
+        sortOrder: 'desc',
+        draft: false,
+      });
+      expect(listing).toMatchObject({
+        currentPage: 2,
+        totalPages: 2,
+        totalItems: 3,
+        offset: 2,
+      });
+      expect(listing?.items.map((post) => post.slug)).toEqual(['c']);
+    });
+
+    it('should default to the first page', async () => {
+      const listing = await getPostListingPageCached('en');
+
+      expect(listing?.items.map((post) => post.slug)).toEqual(['a', 'b']);
+    });
+
+    it('should return a single empty page when there are no posts', async () => {
+      mockGetAllPosts.mockReturnValue([]);
+
+      await expect(getPostListingPageCached('en')).resolves.toMatchObject({
+        items: [],
+        currentPage: 1,
+        totalPages: 1,
+      });
+    });
+
+    it.each([0, 3, Number.NaN])(
+      'should return null for page %s',
+      async (page) => {
+        await expect(getPostListingPageCached('en', page)).resolves.toBeNull();
+      },
+    );
+  });
+
   describe('getPostBySlugCached', () => {
     it('should return mapped PostDetail for a given slug', async () => {
       const locale: Locale = 'zh';
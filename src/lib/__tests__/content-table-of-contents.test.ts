@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createHeadingSlugger,
+  extractTableOfContents,
+  getHeadingText,
+  slugifyHeading,
+} from '@/lib/content/table-of-contents';
+
+describe('table-of-contents', () => {
+  describe('slugifyHeading', () => {
+    it.each([
+      ['Getting Started', 'getting-started'],
+      ['What is Next.js?', 'what-is-nextjs'],
+      ['Step 1: Install', 'step-1-install'],
+      ['付款条款', '付款条款'],
+      ['第一章 概述', '第一章-概述'],
+      ['🚀 Developer Experience First', 'developer-experience-first'],
+      ['ＡＢＣ　１２３', 'abc-123'],
+      ['Café  au   lait', 'café-au-lait'],
+    ])('should turn %j into %j', (text, slug) => {
+      expect(slugifyHeading(text)).toBe(slug);
+    });
+
+    it('should return an empty string when nothing is left', () => {
+      expect(slugifyHeading('!!! ???')).toBe('');
+    });
+  });
+
+  describe('createHeadingSlugger', () => {
+    it('should number repeated headings in order', () => {
+      const slug = createHeadingSlugger();
+
+      expect(slug('FAQ')).toBe('faq');
+      expect(slug('FAQ')).toBe('faq-1');
+      expect(slug('faq')).toBe('faq-2');
+    });
+
+    it('should not reuse an id taken by an explicit suffix', () => {
+      const slug = createHeadingSlugger();
+
+      expect(slug('Step 1')).toBe('step-1');
+      expect(slug('Step')).toBe('step');
+      expect(slug('Step')).toBe('step-2');
+    });
+
+    it('should fall back to "section" for headings without text', () => {
+      const slug = createHeadingSlugger();
+
+      expect(slug('🎉')).toBe('section');
+      expect(slug('')).toBe('section-1');
+    });
+
+    it('should keep separate state per slugger', () => {
+      createHeadingSlugger()('Intro');
+
+      expect(createHeadingSlugger()('Intro')).toBe('intro');
+    });
+  });
+
+  describe('getHeadingText', () => {
+    it('should strip inline markdown and HTML', () => {
+      expect(
+        getHeadingText(
+          'Use **bold**, `code`, ~~old~~ and [links](https://example.com)',
+        ),
+      ).toBe('Use bold, code, old and links');
+      expect(getHeadingText('<Badge>New</Badge>   feature')).toBe(
+        'New feature',
+      );
+    });
+  });
+
+  describe('extractTableOfContents', () => {
+    it('should list h2 and h3 headings with their depth', () => {
+      const body = [
+        '# Title',
+        '',
+        '## Overview',
+        'Text',
+        '### Details ###',
+        '#### Too deep',
+        '## 常见问题',
+      ].join('\n');
+
+      expect(extractTableOfContents(body)).toEqual([
+        { id: 'overview', text: 'Overview', depth: 2 },
+        { id: 'details', text: 'Details', depth: 3 },
+        { id: '常见问题', text: '常见问题', depth: 2 },
+      ]);
+    });
+
+    it('should skip headings inside fenced code blocks', () => {
+      const body = [
+        '## Setup',
+        '```bash',
+        '## not a heading',
+        '```',
+        '~~~',
+        '### also not a heading',
+        '~~~',
+        '## Usage',
+      ].join('\n');
+
+      expect(extractTableOfContents(body).map((entry) => entry.id)).toEqual([
+        'setup',
+        'usage',
+      ]);
+    });
+
+    it('should number duplicates including the h1', () => {
+      const body = ['# Intro', '## Intro', '## Intro'].join('\n');
+
+      expect(extractTableOfContents(body).map((entry) => entry.id)).toEqual([
+        'intro-1',
+        'intro-2',
+      ]);
+    });
+
+    it('should use the plain text of formatted headings', () => {
+      expect(extractTableOfContents('## Using `**next/image**`')).toEqual([
+        { id: 'using-nextimage', text: 'Using next/image', depth: 2 },
+      ]);
+    });
+
+    it('should return an empty list without headings', () => {
+      expect(extractTableOfContents('Just a paragraph.')).toEqual([]);
+    });
+  });
+});
@@ -250,6 +250,7 @@ describe('Content Utils', () => {
         postsPerPage: 10,
         enableDrafts: process.env.NODE_ENV === 'development',
         enableSearch: true,
+        feedContent: 'full',
         enableComments: false,
         autoGenerateExcerpt: true,
         excerptLength: 160,
@@ -276,6 +277,7 @@ describe('Content Utils', () => {
         postsPerPage: 20, // Overridden
         enableDrafts: process.env.NODE_ENV === 'development',
         enableSearch: true,
+        feedContent: 'full',
         enableComments: true, // Overridden
         autoGenerateExcerpt: true,
         excerptLength: 160,
@@ -298,6 +300,7 @@ describe('Content Utils', () => {
         postsPerPage: 10,
         enableDrafts: process.env.NODE_ENV === 'development',
         enableSearch: true,
+        feedContent: 'full',
         enableComments: false,
         autoGenerateExcerpt: true,
         excerptLength: 160,
@@ -326,6 +329,7 @@ describe('Content Utils', () => {
         postsPerPage: 10,
         enableDrafts: process.env.NODE_ENV === 'development',
         enableSearch: true,
+        feedContent: 'full',
         enableComments: false,
         autoGenerateExcerpt: true,
         excerptLength: 160,
@@ -361,6 +365,7 @@ describe('Content Utils', () => {
         postsPerPage: 10,
         enableDrafts: process.env.NODE_ENV === 'development',
         enableSearch: true,
+        feedContent: 'full',
         enableComments: false,
         autoGenerateExcerpt: true,
         excerptLength: 160,
@@ -369,6 +374,19 @@ describe('Content Utils', () => {
       });
     });
 
+    it('should only accept known feed content modes', () => {
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({ feedContent: 'excerpt' }),
+      );
+      expect(getContentConfig().feedContent).toBe('excerpt');
+
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({ feedContent: 'summary' }),
+      );
+      expect(getContentConfig().feedContent).toBe('full');
+    });
+
     it('should handle partial config override', () => {
       const partialConfig = {
         defaultLocale: 'zh',
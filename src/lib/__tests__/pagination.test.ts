@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getPageOffset,
+  getPageStaticParams,
+  getPaginatedPath,
+  getTotalPages,
+  isValidPage,
+  parsePageParam,
+} from '@/lib/pagination';
+
+describe('pagination', () => {
+  describe('getTotalPages', () => {
+    it.each([
+      [0, 12, 1],
+      [12, 12, 1],
+      [13, 12, 2],
+      [25, 12, 3],
+    ])(
+      'should split %i items of %i per page into %i pages',
+      (total, perPage, pages) => {
+        expect(getTotalPages(total, perPage)).toBe(pages);
+      },
+    );
+  });
+
+  it('should compute the offset of a page', () => {
+    expect(getPageOffset(1, 12)).toBe(0);
+    expect(getPageOffset(3, 12)).toBe(24);
+  });
+
+  it.each([
+    [1, 3, true],
+    [3, 3, true],
+    [0, 3, false],
+    [4, 3, false],
+    [1.5, 3, false],
+    [Number.NaN, 3, false],
+  ])('should treat page %s of %i as valid: %s', (page, total, valid) => {
+    expect(isValidPage(page, total)).toBe(valid);
+  });
+
+  it('should keep the listing path for the first page', () => {
+    expect(getPaginatedPath('/blog', 1)).toBe('/blog');
+    expect(getPaginatedPath('/blog', 2)).toBe('/blog/page/2');
+  });
+
+  it.each([
+    ['2', 2],
+    ['10', 10],
+    ['1', Number.NaN],
+    ['0', Number.NaN],
+    ['2a', Number.NaN],
+    ['-2', Number.NaN],
+  ])('should parse page segment %j as %s', (value, page) => {
+    expect(parsePageParam(value)).toBe(page);
+  });
+
+  it('should list static params for every page after the first', () => {
+    expect(getPageStaticParams(1)).toEqual([]);
+    expect(getPageStaticParams(3)).toEqual([{ page: '2' }, { page: '3' }]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Redis REST Client Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRedisRestConfig, RedisRestClient } from '../redis-rest';
+
+const mockFetch = vi.fn();
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe('getRedisRestConfig', () => {
+  beforeEach(() => {
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', '');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('KV_REST_API_TOKEN', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should return null when nothing is configured', () => {
+    expect(getRedisRestConfig()).toBeNull();
+  });
+
+  it('should prefer Upstash Redis over Vercel KV', () => {
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://upstash.example.com');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'upstash-token');
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.example.com');
+    vi.stubEnv('KV_REST_API_TOKEN', 'kv-token');
+
+    expect(getRedisRestConfig()).toEqual({
+      provider: 'upstash',
+      url: 'https://upstash.example.com',
+      token: 'upstash-token',
+    });
+  });
+
+  it('should fall back to Vercel KV', () => {
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://upstash.example.com');
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.example.com');
+    vi.stubEnv('KV_REST_API_TOKEN', 'kv-token');
+
+    expect(getRedisRestConfig()).toMatchObject({ provider: 'kv' });
+  });
+});
+
+describe('RedisRestClient', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the command with the bearer token', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ result: 'OK' }));
+    const client = new RedisRestClient(
+      'https://redis.example.com/',
+      'token',
+      'Test store',
+    );
+
+    await expect(client.command(['SET', 'key', 'value'])).resolves.toBe('OK');
+    expect(mockFetch).toHaveBeenCalledWith('https://redis.example.com', {
+      method: 'POST',
+      headers: {
+        'Authorization': 'Bearer token',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(['SET', 'key', 'value']),
+    });
+  });
+
+  it('should name the store in HTTP failures', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({}, 503));
+    const client = new RedisRestClient('https://redis.example.com', 't', 'X');
+
+    await expect(client.command(['GET', 'key'])).rejects.toThrow(
+      'X request failed: 503',
+    );
+  });
+
+  it('should surface errors reported by Redis', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'WRONGTYPE' }));
+    const client = new RedisRestClient('https://redis.example.com', 't', 'X');
+
+    await expect(client.command(['GET', 'key'])).rejects.toThrow(
+      'X error: WRONGTYPE',
+    );
+  });
+});
@@ -152,8 +152,7 @@ describe('security-file-upload', () => {
     });
 
     it('should validate matching JPEG signature', async () => {
-      // Implementation expects [HEX_BYTE_MAX, HEX_JPEG_MARKER_1, HEX_BYTE_MAX] = [0xff, 0xff, 0xff]
-      const jpegBytes = new Uint8Array([0xff, 0xff, 0xff]);
+      const jpegBytes = new Uint8Array([0xff, 0xd8, 0xff]);
       const mockFile = {
         name: 'test.jpg',
         type: 'image/jpeg',
@@ -179,8 +178,8 @@ describe('security-file-upload', () => {
     });
 
     it('should validate matching GIF signature', async () => {
-      // Implementation expects [HEX_PNG_SIGNATURE_4, HEX_PNG_SIGNATURE_5, HEX_PNG_SIGNATURE_6] = [0x47, 0x0d, 0x0a]
-      const gifBytes = new Uint8Array([0x47, 0x0d, 0x0a]);
+      // 'GIF'
+      const gifBytes = new Uint8Array([0x47, 0x49, 0x46]);
       const mockFile = {
         name: 'test.gif',
         type: 'image/gif',
@@ -193,8 +192,8 @@ describe('security-file-upload', () => {
     });
 
     it('should validate matching PDF signature', async () => {
-      // Implementation expects [HEX_PDF_MARKER, HEX_PNG_SIGNATURE_2, HEX_PDF_SIGNATURE_1, HEX_PNG_SIGNATURE_6] = [0x25, 0x50, 0x50, 0x0a]
-      const pdfBytes = new Uint8Array([0x25, 0x50, 0x50, 0x0a]);
+      // '%PDF'
+      const pdfBytes = new Uint8Array([0x25, 0x50, 0x44, 0x46]);
       const mockFile = {
         name: 'test.pdf',
         type: 'application/pdf',
@@ -207,8 +206,8 @@ describe('security-file-upload', () => {
     });
 
     it('should validate matching ZIP signature', async () => {
-      // Implementation expects [HEX_PNG_SIGNATURE_2, HEX_ZIP_SIGNATURE, MAGIC_HEX_03, MAGIC_HEX_04] = [0x50, 0x50, 0x03, 0x04]
-      const zipBytes = new Uint8Array([0x50, 0x50, 0x03, 0x04]);
+      // 'PK\x03\x04'
+      const zipBytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
       const mockFile = {
         name: 'test.zip',
         type: 'application/zip',
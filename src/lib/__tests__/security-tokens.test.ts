@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  createSignedToken,
   createTokenWithExpiry,
   generateApiKey,
   generateCsrfToken,
@@ -13,6 +14,7 @@ import {
   isTokenExpired,
   isValidToken,
   isValidUUID,
+  verifySignedToken,
 } from '../security-tokens';
 
 describe('security-tokens', () => {
@@ -429,4 +431,45 @@ describe('security-tokens', () => {
       expect(isTokenExpired(customToken)).toBe(true);
     });
   });
+
+  describe('signed tokens', () => {
+    const secret = 'test-secret';
+
+    it('should round-trip the payload', async () => {
+      const token = await createSignedToken(
+        { email: 'reader@example.com', note: '订阅' },
+        secret,
+      );
+
+      await expect(verifySignedToken(token, secret)).resolves.toEqual({
+        email: 'reader@example.com',
+        note: '订阅',
+      });
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const token = await createSignedToken({ id: 1 }, 'other-secret');
+      await expect(verifySignedToken(token, secret)).resolves.toBeNull();
+    });
+
+    it('should reject tampered payloads', async () => {
+      const token = await createSignedToken({ id: 1 }, secret);
+      const [, signature] = token.split('.');
+      const forged = `${btoa(JSON.stringify({ id: 2 }))}.${signature}`;
+
+      await expect(verifySignedToken(forged, secret)).resolves.toBeNull();
+      await expect(
+        verifySignedToken('not-a-token', secret),
+      ).resolves.toBeNull();
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await createSignedToken({ exp: 1000 }, secret);
+
+      await expect(verifySignedToken(token, secret, 999)).resolves.toEqual({
+        exp: 1000,
+      });
+      await expect(verifySignedToken(token, secret, 1001)).resolves.toBeNull();
+    });
+  });
 });
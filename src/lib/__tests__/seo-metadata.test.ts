@@ -264,6 +264,53 @@ describe('SEO Metadata', () => {
       const openGraph = metadata.openGraph as unknown as { url?: string };
       expect(openGraph.url).toBe('https://example.com/en/about');
     });
+
+    it('should point canonical at the current page and link its neighbours', () => {
+      const metadata = generateMetadataForPath({
+        locale: 'en',
+        pageType: 'blog',
+        path: '/blog',
+        pagination: { currentPage: 2, totalPages: 3 },
+      });
+
+      expect(metadata.alternates?.canonical).toBe(
+        'https://example.com/en/blog/page/2',
+      );
+      expect(metadata.alternates?.languages).toMatchObject({
+        zh: 'https://example.com/zh/blog/page/2',
+      });
+      expect(metadata.pagination).toEqual({
+        previous: 'https://example.com/en/blog',
+        next: 'https://example.com/en/blog/page/3',
+      });
+    });
+
+    it('should omit rel=prev on the first page and rel=next on the last', () => {
+      const first = generateMetadataForPath({
+        locale: 'en',
+        pageType: 'products',
+        path: '/products',
+        pagination: { currentPage: 1, totalPages: 1 },
+      });
+
+      expect(first.alternates?.canonical).toBe(
+        'https://example.com/en/products',
+      );
+      expect(first.pagination).toEqual({ previous: null, next: null });
+    });
+
+    it('should limit hreflang alternates to the given locales', () => {
+      const metadata = generateMetadataForPath({
+        locale: 'zh',
+        pageType: 'blog',
+        path: '/blog/tag/企业级',
+        locales: ['zh'],
+      });
+
+      expect(metadata.alternates?.languages).toEqual({
+        zh: 'https://example.com/zh/blog/tag/%E4%BC%81%E4%B8%9A%E7%BA%A7',
+      });
+    });
   });
 
   describe('createPageSEOConfig', () => {
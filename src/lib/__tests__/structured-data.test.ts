@@ -847,4 +847,42 @@ describe('Structured Data Generation', () => {
       expect(result['@context']).toBe('https://schema.org');
     });
   });
+
+  describe('CollectionPage Generation', () => {
+    it('should list the collection items in an ItemList', async () => {
+      const result = await generateLocalizedStructuredData(
+        'zh',
+        'CollectionPage',
+        {
+          name: '标签：企业级',
+          description: '1 篇文章',
+          url: 'https://example.com/zh/blog/tag/企业级',
+          items: [
+            {
+              name: '欢迎',
+              url: 'https://example.com/zh/blog/welcome',
+              position: 13,
+            },
+          ],
+        },
+      );
+
+      expect(result).toMatchObject({
+        '@type': 'CollectionPage',
+        'name': '标签：企业级',
+        'inLanguage': 'zh',
+        'mainEntity': {
+          '@type': 'ItemList',
+          'numberOfItems': 1,
+          'itemListElement': [
+            {
+              '@type': 'ListItem',
+              'position': 13,
+              'url': 'https://example.com/zh/blog/welcome',
+            },
+          ],
+        },
+      });
+    });
+  });
 });
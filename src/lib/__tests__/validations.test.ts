@@ -116,16 +116,25 @@ describe('validations - Schema Validation', () => {
       }
     });
 
-    it('should handle phone field based on config (disabled by default)', () => {
-      // Default config has phone.enabled = false, so phone should be excluded from schema
-      const defaultSchema = createContactFormSchemaFromConfig(
-        CONTACT_FORM_CONFIG,
+    it('should ignore the phone field when disabled in config', () => {
+      const configWithoutPhone = {
+        ...CONTACT_FORM_CONFIG,
+        fields: {
+          ...CONTACT_FORM_CONFIG.fields,
+          phone: {
+            ...CONTACT_FORM_CONFIG.fields.phone,
+            enabled: false,
+          },
+        },
+      };
+      const schemaWithoutPhone = createContactFormSchemaFromConfig(
+        configWithoutPhone,
         contactFieldValidators,
       );
 
       // Phone field should NOT be in schema when disabled
       const dataWithPhone = { ...validFormData, phone: '+1234567890' };
-      const result = defaultSchema.safeParse(dataWithPhone);
+      const result = schemaWithoutPhone.safeParse(dataWithPhone);
 
       // Should still succeed, phone is just ignored (not validated)
       expect(result.success).toBe(true);
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  appendAttributionReference,
+  getActiveWhatsAppProductChat,
+  getWhatsAppChatUrl,
+  normalizeWhatsAppNumber,
+  setActiveWhatsAppProductChat,
+  subscribeActiveWhatsAppProductChat,
+  trackWhatsAppClick,
+} from '../whatsapp-click-to-chat';
+
+describe('whatsapp-click-to-chat', () => {
+  afterEach(() => {
+    setActiveWhatsAppProductChat(null);
+    vi.unstubAllGlobals();
+  });
+
+  describe('getWhatsAppChatUrl', () => {
+    it('links desktop browsers to WhatsApp Web with an encoded message', () => {
+      expect(getWhatsAppChatUrl('8613800000000', 'Hi & bye\nref: x')).toBe(
+        'https://web.whatsapp.com/send?phone=8613800000000&text=Hi%20%26%20bye%0Aref%3A%20x',
+      );
+    });
+
+    it('uses the app deep link on mobile', () => {
+      vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 (iPhone)' });
+
+      expect(getWhatsAppChatUrl('1555', 'Hi')).toBe(
+        'whatsapp://send?phone=1555&text=Hi',
+      );
+    });
+  });
+
+  it('normalizes phone numbers to digits', () => {
+    expect(normalizeWhatsAppNumber('+1 (555) 012-3')).toBe('15550123');
+    expect(normalizeWhatsAppNumber('n/a')).toBeNull();
+  });
+
+  describe('appendAttributionReference', () => {
+    it('appends UTM parameters and click ids in a fixed order', () => {
+      expect(
+        appendAttributionReference('Hello', {
+          fbclid: 'fb1',
+          utmCampaign: 'spring',
+          utmSource: 'google',
+        }),
+      ).toBe('Hello\n\nref: utm_source=google&utm_campaign=spring&fbclid=fb1');
+    });
+
+    it('leaves the message unchanged without attribution', () => {
+      expect(appendAttributionReference('Hello', {})).toBe('Hello');
+    });
+  });
+
+  describe('trackWhatsAppClick', () => {
+    it('sends a GA4 event when gtag is loaded', () => {
+      const gtag = vi.fn();
+      vi.stubGlobal('gtag', gtag);
+
+      trackWhatsAppClick('floating_button');
+
+      expect(gtag).toHaveBeenCalledWith('event', 'whatsapp_click', {
+        event_category: 'lead',
+        event_label: window.location.pathname,
+        source: 'floating_button',
+      });
+    });
+
+    it('does nothing without analytics', () => {
+      expect(() => trackWhatsAppClick('product_actions', 'x')).not.toThrow();
+    });
+  });
+
+  it('notifies subscribers when the active product chat changes', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeActiveWhatsAppProductChat(listener);
+
+    setActiveWhatsAppProductChat({ productSlug: 'pump', message: 'Hi' });
+    unsubscribe();
+    setActiveWhatsAppProductChat(null);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getActiveWhatsAppProductChat()).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WhatsAppError } from '@/types/whatsapp-service-errors';
 import { WhatsAppMediaService } from '../whatsapp-media';
 
 // Mock the logger to prevent console output during tests
@@ -417,4 +418,45 @@ describe('WhatsAppMediaService', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('fetchMediaInfo and fetchMediaData', () => {
+    it('should throw retryable errors for network failures and 5xx', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi
+          .fn()
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockResolvedValueOnce({ ok: false, status: 503 }),
+      );
+
+      const networkError = await service
+        .fetchMediaInfo('media-123')
+        .catch((error: unknown) => error);
+      const serverError = await service
+        .fetchMediaData('https://cdn.example.com/media/12345')
+        .catch((error: unknown) => error);
+
+      expect(networkError).toMatchObject({ name: 'WhatsAppNetworkError' });
+      expect((networkError as WhatsAppError).isRetryable()).toBe(true);
+      expect(serverError).toMatchObject({
+        name: 'WhatsAppApiError',
+        code: 503,
+      });
+      expect((serverError as WhatsAppError).isRetryable()).toBe(true);
+    });
+
+    it('should throw non-retryable errors for 4xx responses', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: false, status: 404 }),
+      );
+
+      const error = await service
+        .fetchMediaInfo('media-123')
+        .catch((caught: unknown) => caught);
+
+      expect(error).toMatchObject({ name: 'WhatsAppApiError', code: 404 });
+      expect((error as WhatsAppError).isRetryable()).toBe(false);
+    });
+  });
 });
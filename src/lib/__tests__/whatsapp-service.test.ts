@@ -1,15 +1,28 @@
 import { createHmac } from 'crypto';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetIdempotencyKeyStore } from '@/lib/idempotency';
 import {
+  getWebhookGuardStats,
+  getWhatsAppDeliveryStatus,
   getWhatsAppService,
-  handleIncomingMessage,
+  processWebhookPayload,
+  recordAcceptedMessage,
+  registerWebhookProcessor,
+  resetAutoReplySessionStore,
+  resetWebhookGuardStats,
+  resetWebhookProcessorRegistry,
+  resetWhatsAppDeliveryStore,
   resetWhatsAppService,
+  sendWhatsAppButtons,
   sendWhatsAppImage,
+  sendWhatsAppList,
   sendWhatsAppMessage,
   sendWhatsAppTemplate,
   sendWhatsAppText,
+  unregisterWebhookProcessor,
   verifyWebhook,
   verifyWebhookSignature,
+  WEBHOOK_PROCESSOR_NAMES,
   WhatsAppMediaService,
   WhatsAppMessageService,
   WhatsAppService,
@@ -90,6 +103,7 @@ describe('WhatsApp Service Module', () => {
     mockClient.sendTextMessage.mockResolvedValue({ success: true });
     mockClient.sendImageMessage.mockResolvedValue({ success: true });
     mockClient.sendTemplateMessage.mockResolvedValue({ success: true });
+    mockClient.sendButtonMessage.mockResolvedValue({ success: true });
     resetWhatsAppService();
   });
 
@@ -174,8 +188,17 @@ describe('WhatsApp Service Module', () => {
     });
   });
 
-  describe('handleIncomingMessage', () => {
-    it('should return success for valid message with text and auto-reply', async () => {
+  describe('processWebhookPayload', () => {
+    afterEach(() => {
+      resetWebhookProcessorRegistry();
+      resetWhatsAppDeliveryStore();
+      resetAutoReplySessionStore();
+      resetIdempotencyKeyStore();
+      resetWebhookGuardStats();
+      vi.useRealTimers();
+    });
+
+    it('should auto-reply to a text message', async () => {
       const body = {
         entry: [
           {
@@ -190,13 +213,13 @@ describe('WhatsApp Service Module', () => {
         ],
       };
 
-      const result = await handleIncomingMessage(body);
-      expect(result.success).toBe(true);
-      expect(result.autoReplySent).toBe(true);
+      const result = await processWebhookPayload(body);
+      expect(result).toEqual({ events: 1, failed: 0, duplicates: 0, stale: 0 });
       expect(mockClient.sendTextMessage).toHaveBeenCalled();
     });
 
-    it('should return success without auto-reply when disabled', async () => {
+    it('should not auto-reply when the processor is unregistered', async () => {
+      unregisterWebhookProcessor(WEBHOOK_PROCESSOR_NAMES.AUTO_REPLY);
       const body = {
         entry: [
           {
@@ -211,24 +234,23 @@ describe('WhatsApp Service Module', () => {
         ],
       };
 
-      const result = await handleIncomingMessage(body, false);
-      expect(result.success).toBe(true);
-      expect(result.autoReplySent).toBeUndefined();
+      const result = await processWebhookPayload(body);
+      expect(result.events).toBe(1);
       expect(mockClient.sendTextMessage).not.toHaveBeenCalled();
     });
 
     it('should return success for empty entry', async () => {
-      const result = await handleIncomingMessage({ entry: [] });
-      expect(result.success).toBe(true);
+      const result = await processWebhookPayload({ entry: [] });
+      expect(result).toEqual({ events: 0, failed: 0, duplicates: 0, stale: 0 });
     });
 
     it('should return success for invalid body', async () => {
-      const result = await handleIncomingMessage('invalid');
-      expect(result.success).toBe(true);
+      const result = await processWebhookPayload('invalid');
+      expect(result).toEqual({ events: 0, failed: 0, duplicates: 0, stale: 0 });
     });
 
     it('should send greeting reply for hello message', async () => {
-      await handleIncomingMessage({
+      await processWebhookPayload({
         entry: [
           {
             changes: [
@@ -249,7 +271,7 @@ describe('WhatsApp Service Module', () => {
     });
 
     it('should send help reply for help message', async () => {
-      await handleIncomingMessage({
+      await processWebhookPayload({
         entry: [
           {
             changes: [
@@ -270,7 +292,7 @@ describe('WhatsApp Service Module', () => {
     });
 
     it('should send pricing reply for price message', async () => {
-      await handleIncomingMessage({
+      await processWebhookPayload({
         entry: [
           {
             changes: [
@@ -284,10 +306,202 @@ describe('WhatsApp Service Module', () => {
         ],
       });
 
-      expect(mockClient.sendTextMessage).toHaveBeenCalled();
-      const callArgs = mockClient.sendTextMessage.mock.calls[0];
-      expect(callArgs?.[0]).toBe('123');
-      expect(callArgs?.[1]).toContain('pricing');
+      expect(mockClient.sendTextMessage).not.toHaveBeenCalled();
+      expect(mockClient.sendButtonMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: '123',
+          bodyText: expect.stringContaining('pricing'),
+          buttons: expect.arrayContaining([
+            { id: 'menu_sales', title: 'Talk to sales' },
+          ]),
+        }),
+      );
+    });
+
+    it('should process every message in a batched payload', async () => {
+      await processWebhookPayload({
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  messages: [
+                    { from: '111', text: { body: 'hi' } },
+                    { from: '222', text: { body: 'help' } },
+                  ],
+                },
+              },
+            ],
+          },
+          {
+            changes: [
+              {
+                value: {
+                  messages: [{ from: '333', text: { body: 'thanks' } }],
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(
+        mockClient.sendTextMessage.mock.calls.map((call) => call[0]),
+      ).toEqual(['111', '222', '333']);
+    });
+
+    it('should record delivery statuses for outbound messages', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-03-02T10:01:00.000Z'));
+      await recordAcceptedMessage('wamid.out-1', '1234567890');
+
+      const result = await processWebhookPayload({
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  metadata: { phone_number_id: 'phone-1' },
+                  statuses: [
+                    {
+                      id: 'wamid.out-1',
+                      status: 'delivered',
+                      timestamp: '1772445605',
+                      recipient_id: '1234567890',
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toEqual({ events: 2, failed: 0, duplicates: 0, stale: 0 });
+      expect(mockClient.sendTextMessage).not.toHaveBeenCalled();
+      const record = await getWhatsAppDeliveryStatus('wamid.out-1');
+      expect(record?.status).toBe('delivered');
+      expect(record?.timestamps.delivered).toBe('2026-03-02T10:00:05.000Z');
+    });
+
+    it('should not reply twice to a redelivered message', async () => {
+      const body = {
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  messages: [
+                    {
+                      id: 'wamid.in-1',
+                      from: '123',
+                      timestamp: String(Math.floor(Date.now() / 1000)),
+                      text: { body: 'hello' },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      const first = await processWebhookPayload(body);
+      const retry = await processWebhookPayload(body);
+
+      expect(first).toEqual({ events: 1, failed: 0, duplicates: 0, stale: 0 });
+      expect(retry).toEqual({ events: 0, failed: 0, duplicates: 1, stale: 0 });
+      expect(mockClient.sendTextMessage).toHaveBeenCalledTimes(1);
+      expect(getWebhookGuardStats()).toMatchObject({
+        accepted: 1,
+        duplicate: 1,
+      });
+    });
+
+    it('should drop messages older than the maximum event age', async () => {
+      const result = await processWebhookPayload({
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  messages: [
+                    {
+                      id: 'wamid.old',
+                      from: '123',
+                      timestamp: '1700000000',
+                      text: { body: 'hello' },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toEqual({ events: 0, failed: 0, duplicates: 0, stale: 1 });
+      expect(mockClient.sendTextMessage).not.toHaveBeenCalled();
+    });
+
+    it('should count failing processors without stopping the batch', async () => {
+      registerWebhookProcessor('broken', {
+        onMessageReceived: () => {
+          throw new Error('boom');
+        },
+      });
+
+      const result = await processWebhookPayload({
+        entry: [
+          {
+            changes: [
+              { value: { messages: [{ from: '123', text: { body: 'hi' } }] } },
+            ],
+          },
+        ],
+      });
+
+      expect(result).toEqual({ events: 1, failed: 1, duplicates: 0, stale: 0 });
+      expect(mockClient.sendTextMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should process a failed event again when Meta retries', async () => {
+      const onMessageReceived = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('store down'))
+        .mockResolvedValue(undefined);
+      registerWebhookProcessor('flaky', { onMessageReceived });
+      const body = {
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  messages: [
+                    {
+                      id: 'wamid.in-2',
+                      from: '123',
+                      timestamp: String(Math.floor(Date.now() / 1000)),
+                      text: { body: 'hello' },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      const first = await processWebhookPayload(body);
+      const retry = await processWebhookPayload(body);
+      const replay = await processWebhookPayload(body);
+
+      expect(first).toMatchObject({ events: 1, failed: 1 });
+      expect(retry).toEqual({ events: 1, failed: 0, duplicates: 0, stale: 0 });
+      expect(replay).toMatchObject({ events: 0, duplicates: 1 });
+      expect(onMessageReceived).toHaveBeenCalledTimes(2);
+      // The auto-reply succeeded the first time and is not sent again
+      expect(mockClient.sendTextMessage).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -403,6 +617,33 @@ describe('WhatsApp Service Module', () => {
     });
   });
 
+  describe('sendWhatsAppButtons', () => {
+    it('should send reply buttons', async () => {
+      const args = {
+        to: '1234567890',
+        bodyText: 'Pick one',
+        buttons: [{ id: 'a', title: 'Option A' }],
+      };
+
+      await sendWhatsAppButtons(args);
+      expect(mockClient.sendButtonMessage).toHaveBeenCalledWith(args);
+    });
+  });
+
+  describe('sendWhatsAppList', () => {
+    it('should send a list message', async () => {
+      const args = {
+        to: '1234567890',
+        bodyText: 'Pick one',
+        buttonText: 'Options',
+        sections: [{ rows: [{ id: 'a', title: 'Option A' }] }],
+      };
+
+      await sendWhatsAppList(args);
+      expect(mockClient.sendListMessage).toHaveBeenCalledWith(args);
+    });
+  });
+
   describe('singleton behavior', () => {
     it('should reuse the same service instance across calls', async () => {
       await sendWhatsAppText('111', 'First');
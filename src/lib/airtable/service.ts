@@ -16,12 +16,18 @@ import type {
   ProductLeadData,
 } from '@/lib/airtable/types';
 import { env } from '@/lib/env';
+import { getAttributionEntries } from '@/lib/lead-pipeline/attribution';
 import { LEAD_TYPES, type LeadType } from '@/lib/lead-pipeline/lead-schema';
 import { logger, sanitizeCompany, sanitizeEmail } from '@/lib/logger';
+import {
+  NEWSLETTER_SUBSCRIPTION_STATUS,
+  type NewsletterSubscriptionStatus,
+} from '@/lib/newsletter/types';
 import { sanitizePlainText } from '@/lib/security-validation';
 import { airtableRecordSchema } from '@/lib/validations';
 import {
   ANIMATION_DURATION_VERY_SLOW,
+  COUNT_TEN,
   ONE,
   PERCENTAGE_FULL,
   ZERO,
@@ -262,6 +268,20 @@ export class AirtableService {
         baseFields['Reference ID'] = data.referenceId;
       }
 
+      // Add marketing attribution columns (only populated values)
+      for (const { label, value } of getAttributionEntries(data.attribution)) {
+        // eslint-disable-next-line security/detect-object-injection -- label comes from ATTRIBUTION_LABELS
+        baseFields[label] = value;
+      }
+
+      // Add lead routing fields (sales views filter on Route)
+      if (data.score !== undefined) {
+        baseFields['Lead Score'] = data.score;
+      }
+      if (data.route) {
+        baseFields['Route'] = data.route;
+      }
+
       // Add type-specific fields
       if (type === LEAD_TYPES.CONTACT) {
         const contactData = data as ContactLeadData;
@@ -272,6 +292,9 @@ export class AirtableService {
           : '';
         baseFields['Subject'] = contactData.subject || '';
         baseFields['Message'] = sanitizePlainText(contactData.message);
+        if (contactData.phone) {
+          baseFields['Phone'] = sanitizePlainText(contactData.phone);
+        }
         baseFields['Marketing Consent'] = contactData.marketingConsent || false;
       } else if (type === LEAD_TYPES.PRODUCT) {
         const productData = data as ProductLeadData;
@@ -292,6 +315,9 @@ export class AirtableService {
             productData.requirements,
           );
         }
+        if (productData.phone) {
+          baseFields['Phone'] = sanitizePlainText(productData.phone);
+        }
         baseFields['Marketing Consent'] = productData.marketingConsent || false;
       } else if (type === LEAD_TYPES.NEWSLETTER) {
         // Newsletter only needs email which is already in baseFields
@@ -299,6 +325,9 @@ export class AirtableService {
         baseFields['Last Name'] = '';
         baseFields['Company'] = '';
         baseFields['Message'] = 'Newsletter subscription';
+        baseFields['Subscription Status'] =
+          (data as NewsletterLeadData).subscriptionStatus ??
+          NEWSLETTER_SUBSCRIPTION_STATUS.PENDING;
       }
 
       // Create record
@@ -383,6 +412,100 @@ export class AirtableService {
     }
   }
 
+  /**
+   * 追加线索活动记录
+   * Append a merged repeat submission to a lead's Activity field
+   *
+   * The lead is located by its Reference ID, so this works whether or not
+   * the caller knows the Airtable record ID.
+   */
+  public async appendLeadActivity(
+    referenceId: string,
+    activity: string,
+  ): Promise<string> {
+    await this.ensureReady();
+    if (!this.isReady()) {
+      throw new Error('Airtable service is not configured');
+    }
+
+    const [record] = await this.base!.table(this.tableName)
+      .select({
+        filterByFormula: `{Reference ID} = "${referenceId}"`,
+        maxRecords: ONE,
+      })
+      .all();
+    if (!record) {
+      // The lead record may still be waiting for its own retry
+      throw new Error(`Lead record ${referenceId} not found`);
+    }
+
+    const existing = record.get('Activity');
+    await this.base!.table(this.tableName).update([
+      {
+        id: record.id,
+        fields: {
+          'Activity':
+            typeof existing === 'string' && existing
+              ? `${existing}\n\n${activity}`
+              : activity,
+          'Updated At': new Date().toISOString(),
+        },
+      },
+    ]);
+
+    logger.info('Lead activity appended', { referenceId, recordId: record.id });
+    return record.id;
+  }
+
+  /**
+   * Set the newsletter subscription status on every record for an email
+   * A record is created when none exists, so removal requests are always kept.
+   *
+   * @returns Number of records written
+   */
+  public async updateNewsletterSubscription(
+    email: string,
+    status: NewsletterSubscriptionStatus,
+  ): Promise<number> {
+    await this.ensureReady();
+    if (!this.isReady()) {
+      throw new Error('Airtable service is not configured');
+    }
+
+    const normalizedEmail = email.toLowerCase().trim();
+    const records = await this.base!.table(this.tableName)
+      .select({
+        filterByFormula: `AND({Email} = "${normalizedEmail.replace(/"/g, '\\"')}", {Source} = "${this.getLeadSource(LEAD_TYPES.NEWSLETTER)}")`,
+      })
+      .all();
+
+    if (records.length === ZERO) {
+      await this.createLead(LEAD_TYPES.NEWSLETTER, {
+        email: normalizedEmail,
+        subscriptionStatus: status,
+      });
+      return ONE;
+    }
+
+    const updatedAt = new Date().toISOString();
+    // Airtable accepts at most 10 records per update request
+    for (let i = ZERO; i < records.length; i += COUNT_TEN) {
+      await this.base!.table(this.tableName).update(
+        records.slice(i, i + COUNT_TEN).map((record) => ({
+          id: record.id,
+          fields: { 'Subscription Status': status, 'Updated At': updatedAt },
+        })),
+      );
+    }
+
+    logger.info('Newsletter subscription updated', {
+      email: sanitizeEmail(normalizedEmail),
+      status,
+      records: records.length,
+    });
+    return records.length;
+  }
+
   /**
    * 更新联系人记录状态
    * Update contact record status
@@ -2,6 +2,9 @@
  * Airtable 相关类型定义
  */
 
+import type { LeadAttribution } from '@/lib/lead-pipeline/attribution';
+import type { NewsletterSubscriptionStatus } from '@/lib/newsletter/types';
+
 // 重新导出验证相关类型
 export type { AirtableRecord, ContactFormData } from '@/lib/validations';
 
@@ -37,6 +40,10 @@ export type LeadSource =
 export interface BaseLeadData {
   email: string;
   referenceId?: string;
+  attribution?: LeadAttribution | undefined;
+  /** Lead routing score and route */
+  score?: number | undefined;
+  route?: string | undefined;
 }
 
 // Contact lead data
@@ -46,6 +53,7 @@ export interface ContactLeadData extends BaseLeadData {
   company?: string;
   subject?: string;
   message: string;
+  phone?: string | undefined;
   marketingConsent?: boolean;
 }
 
@@ -59,12 +67,15 @@ export interface ProductLeadData extends BaseLeadData {
   productName: string;
   quantity: string | number;
   requirements?: string;
+  phone?: string | undefined;
   marketingConsent?: boolean;
 }
 
 // Newsletter subscription lead data
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type -- intentionally minimal, only email from BaseLeadData
-export interface NewsletterLeadData extends BaseLeadData {}
+export interface NewsletterLeadData extends BaseLeadData {
+  /** Defaults to Pending until the double opt-in link is confirmed */
+  subscriptionStatus?: NewsletterSubscriptionStatus;
+}
 
 // Union type for all lead data
 export type LeadData = ContactLeadData | ProductLeadData | NewsletterLeadData;
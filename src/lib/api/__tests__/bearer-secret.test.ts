@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hasBearerSecret } from '../bearer-secret';
+
+const mockLoggerError = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    error: mockLoggerError,
+  },
+}));
+
+const OPTIONS = { secretName: 'CRON_SECRET', endpoint: 'test drain' };
+
+function createRequest(authorization?: string): NextRequest {
+  const headers = new Headers();
+  if (authorization) headers.set('authorization', authorization);
+  return new NextRequest('http://localhost/api/test', { headers });
+}
+
+describe('hasBearerSecret', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('accepts the configured secret', () => {
+    expect(
+      hasBearerSecret(createRequest('Bearer s3cret'), 's3cret', OPTIONS),
+    ).toBe(true);
+  });
+
+  it('rejects a wrong or missing token', () => {
+    expect(
+      hasBearerSecret(createRequest('Bearer wrong'), 's3cret', OPTIONS),
+    ).toBe(false);
+    expect(hasBearerSecret(createRequest('Bearer '), 's3cret', OPTIONS)).toBe(
+      false,
+    );
+    expect(hasBearerSecret(createRequest('s3cret'), 's3cret', OPTIONS)).toBe(
+      false,
+    );
+    expect(hasBearerSecret(createRequest(), 's3cret', OPTIONS)).toBe(false);
+  });
+
+  it('rejects every request and logs when the secret is not configured', () => {
+    expect(
+      hasBearerSecret(createRequest('Bearer anything'), undefined, OPTIONS),
+    ).toBe(false);
+    expect(mockLoggerError).toHaveBeenCalledWith(
+      'CRON_SECRET not configured for test drain',
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import type { NextRequest } from 'next/server';
+import { logger } from '@/lib/logger';
+import { constantTimeCompare } from '@/lib/security-crypto';
+
+/**
+ * 校验 `Authorization: Bearer <secret>` 请求头（定时任务、监控等内部接口共用）。
+ *
+ * - 未配置密钥时记录错误日志并拒绝请求；
+ * - 使用常量时间比较，避免时序攻击。
+ */
+export function hasBearerSecret(
+  request: NextRequest,
+  secret: string | undefined,
+  options: {
+    /** 日志中的环境变量名，如 `CRON_SECRET` */
+    secretName: string;
+    /** 日志中的接口说明，如 `lead outbox drain` */
+    endpoint: string;
+  },
+): boolean {
+  if (!secret) {
+    logger.error(
+      `${options.secretName} not configured for ${options.endpoint}`,
+    );
+    return false;
+  }
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const token = authHeader.slice('Bearer '.length).trim();
+  return token.length > 0 && constantTimeCompare(token, secret);
+}
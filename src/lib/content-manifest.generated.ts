@@ -7,7 +7,7 @@
  * No runtime fs dependency - works in dev and production builds.
  */
 
-import type { ContentType, Locale } from '@/types/content.types';
+import type { ContentType, Locale, TocEntry } from '@/types/content.types';
 
 export interface ContentEntry {
   type: ContentType;
@@ -16,6 +16,8 @@ export interface ContentEntry {
   extension: string;
   filePath: string;
   relativePath: string;
+  /** Headings for the table of contents; empty when disabled */
+  toc: TocEntry[];
 }
 
 export interface ContentManifest {
@@ -23,201 +25,27 @@ export interface ContentManifest {
   byKey: Record<string, ContentEntry>;
 }
 
+const entries: ContentEntry[] = [
+  {"type":"posts","locale":"en","slug":"welcome","extension":".mdx","filePath":"/content/posts/en/welcome.mdx","relativePath":"content/posts/en/welcome.mdx","toc":[{"id":"what-makes-this-template-special","text":"What Makes This Template Special?","depth":2},{"id":"modern-technology-stack","text":"Modern Technology Stack","depth":3},{"id":"international-ready","text":"International Ready","depth":3},{"id":"enterprise-design-system","text":"Enterprise Design System","depth":3},{"id":"key-features","text":"Key Features","depth":2},{"id":"performance-optimized","text":"Performance Optimized","depth":3},{"id":"type-safe-development","text":"Type-Safe Development","depth":3},{"id":"enterprise-security","text":"Enterprise Security","depth":3},{"id":"getting-started","text":"Getting Started","depth":2},{"id":"quick-setup","text":"Quick Setup","depth":3},{"id":"configuration","text":"Configuration","depth":3},{"id":"architecture-highlights","text":"Architecture Highlights","depth":2},{"id":"component-structure","text":"Component Structure","depth":3},{"id":"content-management","text":"Content Management","depth":3},{"id":"whats-next","text":"What's Next?","depth":2},{"id":"join-our-community","text":"Join Our Community","depth":2}]},
+  {"type":"posts","locale":"zh","slug":"welcome","extension":".mdx","filePath":"/content/posts/zh/welcome.mdx","relativePath":"content/posts/zh/welcome.mdx","toc":[{"id":"本模板的独特之处","text":"本模板的独特之处","depth":2},{"id":"现代技术栈","text":"现代技术栈","depth":3},{"id":"国际化就绪","text":"国际化就绪","depth":3},{"id":"企业设计系统","text":"企业设计系统","depth":3},{"id":"核心特性","text":"核心特性","depth":2},{"id":"性能优化","text":"性能优化","depth":3},{"id":"类型安全开发","text":"类型安全开发","depth":3},{"id":"企业安全","text":"企业安全","depth":3},{"id":"快速开始","text":"快速开始","depth":2},{"id":"快速设置","text":"快速设置","depth":3},{"id":"配置","text":"配置","depth":3},{"id":"架构亮点","text":"架构亮点","depth":2},{"id":"组件结构","text":"组件结构","depth":3},{"id":"内容管理","text":"内容管理","depth":3},{"id":"下一步计划","text":"下一步计划","depth":2},{"id":"加入我们的社区","text":"加入我们的社区","depth":2}]},
+  {"type":"pages","locale":"en","slug":"about","extension":".mdx","filePath":"/content/pages/en/about.mdx","relativePath":"content/pages/en/about.mdx","toc":[{"id":"our-mission","text":"Our Mission","depth":2},{"id":"what-we-stand-for","text":"What We Stand For","depth":2},{"id":"developer-experience-first","text":"🎯 Developer Experience First","depth":3},{"id":"performance-by-default","text":"🚀 Performance by Default","depth":3},{"id":"global-accessibility","text":"🌍 Global Accessibility","depth":3},{"id":"enterprise-security","text":"🔒 Enterprise Security","depth":3},{"id":"our-technology-philosophy","text":"Our Technology Philosophy","depth":2},{"id":"modern-stack-proven-patterns","text":"Modern Stack, Proven Patterns","depth":3},{"id":"quality-assurance","text":"Quality Assurance","depth":3},{"id":"the-team-behind-b2b-web-template","text":"The Team Behind B2B Web Template","depth":2},{"id":"engineering-excellence","text":"Engineering Excellence","depth":3},{"id":"design-innovation","text":"Design Innovation","depth":3},{"id":"product-strategy","text":"Product Strategy","depth":3},{"id":"our-commitment-to-open-source","text":"Our Commitment to Open Source","depth":2},{"id":"transparency","text":"Transparency","depth":3},{"id":"community-first","text":"Community First","depth":3},{"id":"enterprise-solutions","text":"Enterprise Solutions","depth":2},{"id":"consulting-services","text":"Consulting Services","depth":3},{"id":"custom-development","text":"Custom Development","depth":3},{"id":"industry-recognition","text":"Industry Recognition","depth":2},{"id":"looking-forward","text":"Looking Forward","depth":2},{"id":"roadmap-highlights","text":"Roadmap Highlights","depth":3},{"id":"innovation-areas","text":"Innovation Areas","depth":3},{"id":"get-involved","text":"Get Involved","depth":2},{"id":"for-developers","text":"For Developers","depth":3},{"id":"for-organizations","text":"For Organizations","depth":3},{"id":"contact-us","text":"Contact Us","depth":2}]},
+  {"type":"pages","locale":"en","slug":"faq","extension":".mdx","filePath":"/content/pages/en/faq.mdx","relativePath":"content/pages/en/faq.mdx","toc":[]},
+  {"type":"pages","locale":"en","slug":"privacy","extension":".mdx","filePath":"/content/pages/en/privacy.mdx","relativePath":"content/pages/en/privacy.mdx","toc":[{"id":"introduction","text":"Introduction","depth":2},{"id":"information-we-collect","text":"Information We Collect","depth":2},{"id":"information-you-provide-to-us","text":"Information You Provide to Us","depth":3},{"id":"information-automatically-collected","text":"Information Automatically Collected","depth":3},{"id":"cookies-and-tracking-technologies","text":"Cookies and Tracking Technologies","depth":3},{"id":"how-we-use-your-information","text":"How We Use Your Information","depth":2},{"id":"business-operations","text":"Business Operations","depth":3},{"id":"website-improvement","text":"Website Improvement","depth":3},{"id":"marketing-with-your-consent","text":"Marketing (With Your Consent)","depth":3},{"id":"legal-and-compliance","text":"Legal and Compliance","depth":3},{"id":"legal-basis-for-processing-gdpr","text":"Legal Basis for Processing (GDPR)","depth":2},{"id":"information-sharing-and-disclosure","text":"Information Sharing and Disclosure","depth":2},{"id":"service-providers","text":"Service Providers","depth":3},{"id":"business-partners","text":"Business Partners","depth":3},{"id":"legal-requirements","text":"Legal Requirements","depth":3},{"id":"international-data-transfers","text":"International Data Transfers","depth":2},{"id":"data-security","text":"Data Security","depth":2},{"id":"data-retention","text":"Data Retention","depth":2},{"id":"your-privacy-rights","text":"Your Privacy Rights","depth":2},{"id":"for-all-users","text":"For All Users","depth":3},{"id":"for-eea-residents-gdpr","text":"For EEA Residents (GDPR)","depth":3},{"id":"for-california-residents-ccpa","text":"For California Residents (CCPA)","depth":3},{"id":"childrens-privacy","text":"Children's Privacy","depth":2},{"id":"third-party-links","text":"Third-Party Links","depth":2},{"id":"changes-to-this-policy","text":"Changes to This Policy","depth":2},{"id":"contact-us","text":"Contact Us","depth":2}]},
+  {"type":"pages","locale":"en","slug":"terms","extension":".mdx","filePath":"/content/pages/en/terms.mdx","relativePath":"content/pages/en/terms.mdx","toc":[{"id":"introduction","text":"Introduction","depth":2},{"id":"acceptance-of-terms","text":"Acceptance of Terms","depth":2},{"id":"services-description","text":"Services Description","depth":2},{"id":"orders-and-contracts","text":"Orders and Contracts","depth":2},{"id":"inquiry-and-quotation","text":"Inquiry and Quotation","depth":3},{"id":"order-confirmation","text":"Order Confirmation","depth":3},{"id":"contract-formation","text":"Contract Formation","depth":3},{"id":"payment-terms","text":"Payment Terms","depth":2},{"id":"accepted-payment-methods","text":"Accepted Payment Methods","depth":3},{"id":"standard-payment-terms","text":"Standard Payment Terms","depth":3},{"id":"late-payment","text":"Late Payment","depth":3},{"id":"shipping-and-delivery","text":"Shipping and Delivery","depth":2},{"id":"trade-terms-incoterms-2020","text":"Trade Terms (Incoterms® 2020)","depth":3},{"id":"delivery-schedule","text":"Delivery Schedule","depth":3},{"id":"risk-transfer","text":"Risk Transfer","depth":3},{"id":"warranty-and-returns","text":"Warranty and Returns","depth":2},{"id":"product-warranty","text":"Product Warranty","depth":3},{"id":"claims-process","text":"Claims Process","depth":3},{"id":"remedies","text":"Remedies","depth":3},{"id":"limitation-of-liability","text":"Limitation of Liability","depth":2},{"id":"maximum-liability","text":"Maximum Liability","depth":3},{"id":"exclusions","text":"Exclusions","depth":3},{"id":"force-majeure","text":"Force Majeure","depth":3},{"id":"intellectual-property","text":"Intellectual Property","depth":2},{"id":"our-property","text":"Our Property","depth":3},{"id":"customer-specifications","text":"Customer Specifications","depth":3},{"id":"usage-rights","text":"Usage Rights","depth":3},{"id":"confidentiality","text":"Confidentiality","depth":2},{"id":"termination","text":"Termination","depth":2},{"id":"by-either-party","text":"By Either Party","depth":3},{"id":"immediate-termination","text":"Immediate Termination","depth":3},{"id":"effect-of-termination","text":"Effect of Termination","depth":3},{"id":"governing-law-and-disputes","text":"Governing Law and Disputes","depth":2},{"id":"governing-law","text":"Governing Law","depth":3},{"id":"dispute-resolution","text":"Dispute Resolution","depth":3},{"id":"export-compliance","text":"Export Compliance","depth":2},{"id":"regulations","text":"Regulations","depth":3},{"id":"buyers-obligations","text":"Buyer's Obligations","depth":3},{"id":"general-provisions","text":"General Provisions","depth":2},{"id":"entire-agreement","text":"Entire Agreement","depth":3},{"id":"severability","text":"Severability","depth":3},{"id":"waiver","text":"Waiver","depth":3},{"id":"assignment","text":"Assignment","depth":3},{"id":"amendments","text":"Amendments","depth":3},{"id":"contact-information","text":"Contact Information","depth":2}]},
+  {"type":"pages","locale":"zh","slug":"about","extension":".mdx","filePath":"/content/pages/zh/about.mdx","relativePath":"content/pages/zh/about.mdx","toc":[{"id":"我们的使命","text":"我们的使命","depth":2},{"id":"我们的价值观","text":"我们的价值观","depth":2},{"id":"开发者体验优先","text":"🎯 开发者体验优先","depth":3},{"id":"默认高性能","text":"🚀 默认高性能","depth":3},{"id":"全球无障碍","text":"🌍 全球无障碍","depth":3},{"id":"企业安全","text":"🔒 企业安全","depth":3},{"id":"我们的技术理念","text":"我们的技术理念","depth":2},{"id":"现代技术栈经过验证的模式","text":"现代技术栈，经过验证的模式","depth":3},{"id":"质量保证","text":"质量保证","depth":3},{"id":"b2b-web-template-背后的团队","text":"B2B Web Template 背后的团队","depth":2},{"id":"工程卓越","text":"工程卓越","depth":3},{"id":"设计创新","text":"设计创新","depth":3},{"id":"产品策略","text":"产品策略","depth":3},{"id":"我们对开源的承诺","text":"我们对开源的承诺","depth":2},{"id":"透明度","text":"透明度","depth":3},{"id":"社区优先","text":"社区优先","depth":3},{"id":"企业解决方案","text":"企业解决方案","depth":2},{"id":"咨询服务","text":"咨询服务","depth":3},{"id":"定制开发","text":"定制开发","depth":3},{"id":"行业认可","text":"行业认可","depth":2},{"id":"展望未来","text":"展望未来","depth":2},{"id":"路线图亮点","text":"路线图亮点","depth":3},{"id":"创新领域","text":"创新领域","depth":3},{"id":"参与其中","text":"参与其中","depth":2},{"id":"对于开发者","text":"对于开发者","depth":3},{"id":"对于组织","text":"对于组织","depth":3},{"id":"联系我们","text":"联系我们","depth":2}]},
+  {"type":"pages","locale":"zh","slug":"faq","extension":".mdx","filePath":"/content/pages/zh/faq.mdx","relativePath":"content/pages/zh/faq.mdx","toc":[]},
+  {"type":"pages","locale":"zh","slug":"privacy","extension":".mdx","filePath":"/content/pages/zh/privacy.mdx","relativePath":"content/pages/zh/privacy.mdx","toc":[{"id":"引言","text":"引言","depth":2},{"id":"我们收集的信息","text":"我们收集的信息","depth":2},{"id":"您主动提供的信息","text":"您主动提供的信息","depth":3},{"id":"自动收集的信息","text":"自动收集的信息","depth":3},{"id":"cookie和跟踪技术","text":"Cookie和跟踪技术","depth":3},{"id":"我们如何使用您的信息","text":"我们如何使用您的信息","depth":2},{"id":"业务运营","text":"业务运营","depth":3},{"id":"网站改进","text":"网站改进","depth":3},{"id":"营销经您同意","text":"营销（经您同意）","depth":3},{"id":"法律与合规","text":"法律与合规","depth":3},{"id":"处理的法律依据gdpr","text":"处理的法律依据（GDPR）","depth":2},{"id":"信息共享与披露","text":"信息共享与披露","depth":2},{"id":"服务提供商","text":"服务提供商","depth":3},{"id":"业务合作伙伴","text":"业务合作伙伴","depth":3},{"id":"法律要求","text":"法律要求","depth":3},{"id":"国际数据传输","text":"国际数据传输","depth":2},{"id":"数据安全","text":"数据安全","depth":2},{"id":"数据保留","text":"数据保留","depth":2},{"id":"您的隐私权利","text":"您的隐私权利","depth":2},{"id":"所有用户","text":"所有用户","depth":3},{"id":"欧洲经济区居民gdpr","text":"欧洲经济区居民（GDPR）","depth":3},{"id":"加州居民ccpa","text":"加州居民（CCPA）","depth":3},{"id":"儿童隐私","text":"儿童隐私","depth":2},{"id":"第三方链接","text":"第三方链接","depth":2},{"id":"本政策的变更","text":"本政策的变更","depth":2},{"id":"联系我们","text":"联系我们","depth":2}]},
+  {"type":"pages","locale":"zh","slug":"terms","extension":".mdx","filePath":"/content/pages/zh/terms.mdx","relativePath":"content/pages/zh/terms.mdx","toc":[{"id":"引言","text":"引言","depth":2},{"id":"条款接受","text":"条款接受","depth":2},{"id":"服务说明","text":"服务说明","depth":2},{"id":"订单与合同","text":"订单与合同","depth":2},{"id":"询价与报价","text":"询价与报价","depth":3},{"id":"订单确认","text":"订单确认","depth":3},{"id":"合同成立","text":"合同成立","depth":3},{"id":"付款条款","text":"付款条款","depth":2},{"id":"接受的付款方式","text":"接受的付款方式","depth":3},{"id":"标准付款条款","text":"标准付款条款","depth":3},{"id":"逾期付款","text":"逾期付款","depth":3},{"id":"运输与交货","text":"运输与交货","depth":2},{"id":"贸易术语incoterms-2020","text":"贸易术语（Incoterms® 2020）","depth":3},{"id":"交货时间","text":"交货时间","depth":3},{"id":"风险转移","text":"风险转移","depth":3},{"id":"保修与退换","text":"保修与退换","depth":2},{"id":"产品保修","text":"产品保修","depth":3},{"id":"索赔流程","text":"索赔流程","depth":3},{"id":"补救措施","text":"补救措施","depth":3},{"id":"责任限制","text":"责任限制","depth":2},{"id":"最大责任","text":"最大责任","depth":3},{"id":"免责范围","text":"免责范围","depth":3},{"id":"不可抗力","text":"不可抗力","depth":3},{"id":"知识产权","text":"知识产权","depth":2},{"id":"我方财产","text":"我方财产","depth":3},{"id":"客户规格","text":"客户规格","depth":3},{"id":"使用权","text":"使用权","depth":3},{"id":"保密条款","text":"保密条款","depth":2},{"id":"终止条款","text":"终止条款","depth":2},{"id":"任一方终止","text":"任一方终止","depth":3},{"id":"立即终止","text":"立即终止","depth":3},{"id":"终止效力","text":"终止效力","depth":3},{"id":"适用法律与争议解决","text":"适用法律与争议解决","depth":2},{"id":"适用法律","text":"适用法律","depth":3},{"id":"争议解决","text":"争议解决","depth":3},{"id":"出口合规","text":"出口合规","depth":2},{"id":"法规","text":"法规","depth":3},{"id":"买方义务","text":"买方义务","depth":3},{"id":"一般条款","text":"一般条款","depth":2},{"id":"完整协议","text":"完整协议","depth":3},{"id":"可分割性","text":"可分割性","depth":3},{"id":"弃权","text":"弃权","depth":3},{"id":"转让","text":"转让","depth":3},{"id":"修订","text":"修订","depth":3},{"id":"联系方式","text":"联系方式","depth":2}]},
+  {"type":"products","locale":"en","slug":"sample-product","extension":".mdx","filePath":"/content/products/en/sample-product.mdx","relativePath":"content/products/en/sample-product.mdx","toc":[]},
+  {"type":"products","locale":"zh","slug":"sample-product","extension":".mdx","filePath":"/content/products/zh/sample-product.mdx","relativePath":"content/products/zh/sample-product.mdx","toc":[]},
+];
+
 export const CONTENT_MANIFEST: ContentManifest = {
-  entries: [
-  {
-    "type": "posts",
-    "locale": "en",
-    "slug": "welcome",
-    "extension": ".mdx",
-    "filePath": "/content/posts/en/welcome.mdx",
-    "relativePath": "content/posts/en/welcome.mdx"
-  },
-  {
-    "type": "posts",
-    "locale": "zh",
-    "slug": "welcome",
-    "extension": ".mdx",
-    "filePath": "/content/posts/zh/welcome.mdx",
-    "relativePath": "content/posts/zh/welcome.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "en",
-    "slug": "about",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/about.mdx",
-    "relativePath": "content/pages/en/about.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "en",
-    "slug": "faq",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/faq.mdx",
-    "relativePath": "content/pages/en/faq.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "en",
-    "slug": "privacy",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/privacy.mdx",
-    "relativePath": "content/pages/en/privacy.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "en",
-    "slug": "terms",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/terms.mdx",
-    "relativePath": "content/pages/en/terms.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "about",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/about.mdx",
-    "relativePath": "content/pages/zh/about.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "faq",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/faq.mdx",
-    "relativePath": "content/pages/zh/faq.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "privacy",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/privacy.mdx",
-    "relativePath": "content/pages/zh/privacy.mdx"
-  },
-  {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "terms",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/terms.mdx",
-    "relativePath": "content/pages/zh/terms.mdx"
-  },
-  {
-    "type": "products",
-    "locale": "en",
-    "slug": "sample-product",
-    "extension": ".mdx",
-    "filePath": "/content/products/en/sample-product.mdx",
-    "relativePath": "content/products/en/sample-product.mdx"
-  },
-  {
-    "type": "products",
-    "locale": "zh",
-    "slug": "sample-product",
-    "extension": ".mdx",
-    "filePath": "/content/products/zh/sample-product.mdx",
-    "relativePath": "content/products/zh/sample-product.mdx"
-  }
-],
-  byKey: {
-  "posts/en/welcome": {
-    "type": "posts",
-    "locale": "en",
-    "slug": "welcome",
-    "extension": ".mdx",
-    "filePath": "/content/posts/en/welcome.mdx",
-    "relativePath": "content/posts/en/welcome.mdx"
-  },
-  "posts/zh/welcome": {
-    "type": "posts",
-    "locale": "zh",
-    "slug": "welcome",
-    "extension": ".mdx",
-    "filePath": "/content/posts/zh/welcome.mdx",
-    "relativePath": "content/posts/zh/welcome.mdx"
-  },
-  "pages/en/about": {
-    "type": "pages",
-    "locale": "en",
-    "slug": "about",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/about.mdx",
-    "relativePath": "content/pages/en/about.mdx"
-  },
-  "pages/en/faq": {
-    "type": "pages",
-    "locale": "en",
-    "slug": "faq",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/faq.mdx",
-    "relativePath": "content/pages/en/faq.mdx"
-  },
-  "pages/en/privacy": {
-    "type": "pages",
-    "locale": "en",
-    "slug": "privacy",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/privacy.mdx",
-    "relativePath": "content/pages/en/privacy.mdx"
-  },
-  "pages/en/terms": {
-    "type": "pages",
-    "locale": "en",
-    "slug": "terms",
-    "extension": ".mdx",
-    "filePath": "/content/pages/en/terms.mdx",
-    "relativePath": "content/pages/en/terms.mdx"
-  },
-  "pages/zh/about": {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "about",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/about.mdx",
-    "relativePath": "content/pages/zh/about.mdx"
-  },
-  "pages/zh/faq": {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "faq",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/faq.mdx",
-    "relativePath": "content/pages/zh/faq.mdx"
-  },
-  "pages/zh/privacy": {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "privacy",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/privacy.mdx",
-    "relativePath": "content/pages/zh/privacy.mdx"
-  },
-  "pages/zh/terms": {
-    "type": "pages",
-    "locale": "zh",
-    "slug": "terms",
-    "extension": ".mdx",
-    "filePath": "/content/pages/zh/terms.mdx",
-    "relativePath": "content/pages/zh/terms.mdx"
-  },
-  "products/en/sample-product": {
-    "type": "products",
-    "locale": "en",
-    "slug": "sample-product",
-    "extension": ".mdx",
-    "filePath": "/content/products/en/sample-product.mdx",
-    "relativePath": "content/products/en/sample-product.mdx"
-  },
-  "products/zh/sample-product": {
-    "type": "products",
-    "locale": "zh",
-    "slug": "sample-product",
-    "extension": ".mdx",
-    "filePath": "/content/products/zh/sample-product.mdx",
-    "relativePath": "content/products/zh/sample-product.mdx"
-  }
-},
-} as const;
+  entries,
+  byKey: Object.fromEntries(
+    entries.map((entry) => [
+      `${entry.type}/${entry.locale}/${entry.slug}`,
+      entry,
+    ]),
+  ),
+};
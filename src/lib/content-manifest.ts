@@ -5,7 +5,7 @@
  * Uses static import from generated TypeScript file - no runtime fs dependency.
  */
 
-import type { ContentType, Locale } from '@/types/content.types';
+import type { ContentType, Locale, TocEntry } from '@/types/content.types';
 import {
   CONTENT_MANIFEST,
   type ContentEntry,
@@ -28,6 +28,18 @@ export function getContentEntry(
   return CONTENT_MANIFEST.byKey[key];
 }
 
+/**
+ * Table of contents extracted by `pnpm content:manifest`. Empty when TOC is
+ * disabled for the content type or the file sets `showToc: false`.
+ */
+export function getTableOfContents(
+  type: ContentType,
+  locale: Locale,
+  slug: string,
+): TocEntry[] {
+  return getContentEntry(type, locale, slug)?.toc ?? [];
+}
+
 export function getContentEntriesByType(
   type: ContentType,
   locale?: Locale,
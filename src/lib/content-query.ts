@@ -9,6 +9,7 @@ export {
   matchesFeaturedFilter,
   matchesTags,
   matchesCategories,
+  matchesAuthors,
   filterPosts,
 } from '@/lib/content-query/filters';
 
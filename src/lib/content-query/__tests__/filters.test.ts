@@ -6,6 +6,7 @@
  * - matchesFeaturedFilter
  * - matchesTags
  * - matchesCategories
+ * - matchesAuthors
  * - filterPosts
  */
 
@@ -21,6 +22,7 @@ import type {
 import {
   filterPosts,
   isDraftAllowed,
+  matchesAuthors,
   matchesCategories,
   matchesFeaturedFilter,
   matchesTags,
@@ -357,6 +359,36 @@ describe('content-query/filters', () => {
     });
   });
 
+  describe('matchesAuthors', () => {
+    it('should return true when no authors filter specified', () => {
+      const post = createMockParsedContent();
+
+      expect(matchesAuthors(post, undefined)).toBe(true);
+    });
+
+    it('should return true when post author is in the filter', () => {
+      const post = createMockParsedContent({
+        metadata: createMockBlogPostMetadata({ author: 'Jane Doe' }),
+      });
+
+      expect(matchesAuthors(post, ['John Roe', 'Jane Doe'])).toBe(true);
+    });
+
+    it('should return false when post author is not in the filter', () => {
+      const post = createMockParsedContent({
+        metadata: createMockBlogPostMetadata({ author: 'Jane Doe' }),
+      });
+
+      expect(matchesAuthors(post, ['John Roe'])).toBe(false);
+    });
+
+    it('should return false when post has no author and filter is specified', () => {
+      const post = createMockParsedContent();
+
+      expect(matchesAuthors(post, ['Jane Doe'])).toBe(false);
+    });
+  });
+
   describe('filterPosts', () => {
     it('should return all posts when no filters applied', () => {
       const posts = [
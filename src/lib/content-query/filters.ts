@@ -75,6 +75,23 @@ export function matchesCategories(
   return true;
 }
 
+/**
+ * Check if post matches author filters
+ */
+export function matchesAuthors(
+  post: ParsedContent<BlogPostMetadata>,
+  authors?: string[],
+): boolean {
+  if (
+    authors &&
+    (post.metadata.author === undefined ||
+      !authors.includes(post.metadata.author))
+  ) {
+    return false;
+  }
+  return true;
+}
+
 /**
  * Filter posts based on content configuration and query options
  */
@@ -87,7 +104,8 @@ export function filterPosts(
       isDraftAllowed(post, options) &&
       matchesFeaturedFilter(post, options) &&
       matchesTags(post, options.tags) &&
-      matchesCategories(post, options.categories)
+      matchesCategories(post, options.categories) &&
+      matchesAuthors(post, options.authors)
     );
   }) as BlogPost[];
 }
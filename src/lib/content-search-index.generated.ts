@@ -0,0 +1,32 @@
+/**
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ *
+ * Generated by: pnpm content:manifest
+ *
+ * Per-locale site search index: plain text and tokenized fields of every
+ * published post, page and product.
+ */
+
+import type { SearchIndex } from '@/lib/search/types';
+
+export const CONTENT_SEARCH_INDEX: SearchIndex = {
+  enabled: true,
+  locales: {
+    en: [
+      {"id":"pages/en/about","type":"pages","locale":"en","slug":"about","title":"About B2B Web Template","description":"Learn about our mission to provide enterprise-grade web development solutions with modern technologies and best practices.","content":"About B2B Web Template Our Mission At B2B Web Template, we believe that enterprise web development should be fast, reliable, and enjoyable. Our mission is to provide world-class web development templates and tools that empower teams to build exceptional digital experiences. What We Stand For 🎯 Developer Experience First We prioritize developer experience in everything we build. From comprehensive TypeScript support to intuitive APIs, every decision is made with developers in mind. 🚀 Performance by Default Performance isn't an afterthought—it's built into the foundation. Our templates are optimized for Core Web Vitals and real-world usage patterns. 🌍 Global Accessibility We build for everyone, everywhere. Our solutions support multiple languages, accessibility standards, and diverse user needs. 🔒 Enterprise Security Security is paramount in enterprise environments. We implement industry best practices and security standards from day one. Our Technology Philosophy Modern Stack, Proven Patterns We embrace cutting-edge technologies while maintaining stability and reliability: Next.js 16 - For its excellent developer experience and production readiness React 19 - Leveraging the latest concurrent features and improvements TypeScript - Ensuring type safety and better code maintainability Tailwind CSS - For rapid, consistent styling Quality Assurance Every line of code goes through rigorous quality checks: Automated Testing - Unit, integration, and E2E tests Code Review - Peer review process for all changes Performance Monitoring - Continuous performance tracking Security Scanning - Regular vulnerability assessments The Team Behind B2B Web Template Our diverse team brings together expertise from various domains: Engineering Excellence Our engineering team consists of senior developers with extensive experience in: Large-scale web applications Enterprise architecture Performance optimization Security implementation Design Innovation Our design team focuses on: User experience research Accessibility standards Visual design systems Cross-cultural design patterns Product Strategy Our product team ensures: Market-driven feature development User feedback integration Roadmap planning Community engagement Our Commitment to Open Source We believe in the power of open source software and community collaboration: Transparency Open Development - All development happens in public repositories Clear Documentation - Comprehensive guides and API references Regular Updates - Consistent release cycles and changelogs Community First Responsive Support - Active community engagement and support Contribution Welcome - Clear contribution guidelines and mentorship Feedback Driven - Feature development based on community needs Enterprise Solutions Consulting Services We offer specialized consulting for enterprise clients: Architecture Review - Assessment of existing systems and recommendations Migration Planning - Strategies for modernizing legacy applications Performance Optimization - Identifying and resolving performance bottlenecks Security Audits - Comprehensive security assessments and improvements Custom Development For organizations with unique requirements: Tailored Solutions - Custom features and integrations White-label Options - Branded versions of our templates Training Programs - Team training on modern web development practices Ongoing Support - Long-term maintenance and support contracts Industry Recognition Our work has been recognized by leading organizations: Performance Excellence - Top scores in Core Web Vitals benchmarks Security Standards - Compliance with OWASP and industry security frameworks Accessibility Awards - Recognition for inclusive design practices Developer Choice - High satisfaction ratings in developer surveys Looking Forward Roadmap Highlights We're continuously evolving to meet the changing needs of enterprise development: Q1 2024 Enhanced internationalization features Advanced analytics integration Improved development tools Q2 2024 AI-powered content optimization Advanced caching strategies Mobile-first enhancements Q3 2024 Micro-frontend architecture support Advanced testing frameworks Performance monitoring dashboard Innovation Areas We're actively researching and developing: Edge Computing - Leveraging edge networks for better performance AI Integration - Smart content generation and optimization Progressive Enhancement - Better offline and low-connectivity experiences Sustainability - Reducing carbon footprint through efficient code Get Involved For Developers Contribute Code - Submit pull requests and improvements Report Issues - Help us identify and fix problems Share Feedback - Tell us about your experience and suggestions Join Discussions - Participate in community forums and events For Organizations Pilot Programs - Early access to new features and templates Partnership Opportunities - Collaboration on enterprise solutions Case Studies - Share your success stories with our solutions Advisory Board - Provide strategic input on product direction Contact Us Ready to transform your web development experience? Email: hello-web-template.com GitHub: https://github.com/Alx-707/b2b-web-template Twitter: https://x.com/b2b-web-template LinkedIn: https://www.linkedin.com/company/b2b-web-template/ _Building the future of enterprise web development, one line of code at a time._","tags":[],"categories":[],"publishedAt":"2024-01-10","href":"/about","filePath":"/content/pages/en/about.mdx","terms":{"title":["about","b2b","web","template"],"tags":[],"body":["learn","about","our","mission","to","provide","enterprise","grade","web","development","solutions","with","modern","technologies","and","best","practices","b2b","template","at","we","believe","that","should","be","fast","reliable","enjoyable","is","world","class","templates","tools","empower","teams","build","exceptional","digital","experiences","what","stand","for","developer","experience","first","prioritize","in","everything","from","comprehensive","typescript","support","intuitive","apis","every","decision","made","developers","mind","performance","by","default","isn","an","afterthought","it","built","into","the","foundation","are","optimized","core","vitals","real","usage","patterns","global","accessibility","everyone","everywhere","multiple","languages","standards","diverse","user","needs","security","paramount","environments","implement","industry","day","one","technology","philosophy","stack","proven","embrace","cutting","edge","while","maintaining","stability","reliability","next","js","16","its","excellent","production","readiness","react","19","leveraging","latest","concurrent","features","improvements","ensuring","type","safety","better","code","maintainability","tailwind","css","rapid","consistent","styling","quality","assurance","line","of","goes","through","rigorous","checks","automated","testing","unit","integration","e2e","tests","review","peer","process","all","changes","monitoring","continuous","tracking","scanning","regular","vulnerability","assessments","team","behind","brings","together","expertise","various","domains","engineering","excellence","consists","senior","extensive","large","scale","applications","architecture","optimization","implementation","design","innovation","focuses","on","research","visual","systems","cross","cultural","product","strategy","ensures","market","driven","feature","feedback","roadmap","planning","community","engagement","commitment","open","source","power","software","collaboration","transparency","happens","public","repositories","clear","documentation","guides","api","references","updates","release","cycles","changelogs","responsive","active","contribution","welcome","guidelines","mentorship","based","consulting","services","offer","specialized","clients","assessment","existing","recommendations","migration","strategies","modernizing","legacy","identifying","resolving","bottlenecks","audits","custom","organizations","unique","requirements","tailored","integrations","white","label","options","branded","versions","training","programs","ongoing","long","term","maintenance","contracts","recognition","work","has","been","recognized","leading","top","scores","benchmarks","compliance","owasp","frameworks","awards","inclusive","choice","high","satisfaction","ratings","surveys","looking","forward","highlights","re","continuously","evolving","meet","changing","q1","2024","enhanced","internationalization","advanced","analytics","improved","q2","ai","powered","content","caching","mobile","enhancements","q3","micro","frontend","dashboard","areas","actively","researching","developing","computing","networks","smart","generation","progressive","enhancement","offline","low","connectivity","sustainability","reducing","carbon","footprint","efficient","get","involved","contribute","submit","pull","requests","report","issues","help","us","identify","fix","problems","share","tell","your","suggestions","join","discussions","participate","forums","events","pilot","early","access","new","partnership","opportunities","case","studies","success","stories","advisory","board","strategic","input","direction","contact","ready","transform","email","hello","com","github","https","alx","707","twitter","linkedin","www","company","building","future","time"]}},
+      {"id":"pages/en/faq","type":"pages","locale":"en","slug":"faq","title":"Frequently Asked Questions","description":"Find answers to common questions about ordering, payment, shipping, and after-sales service for international B2B trade.","content":"Ordering & Purchasing What is the minimum order quantity (MOQ)? Our MOQ varies by product category. Most industrial equipment has an MOQ of 2-5 units, while components and hardware may have MOQs starting from 50-100 units. Please check individual product pages for specific MOQ requirements, or contact us for custom arrangements on trial orders. Can I request a sample before placing a bulk order? Yes, we encourage sample evaluation before committing to large orders. Sample policies vary by product: Standard products: Samples available at product cost plus shipping Custom products: Sample fees may apply, often credited toward bulk orders High-value items: We can arrange factory visits or video demonstrations Contact our sales team to discuss sample arrangements for your specific needs. How do I get a quotation? You can request a quotation through several channels: Online inquiry form: Fill out the product inquiry form on any product page Email: Send your requirements to our sales team WhatsApp/WeChat: Connect with our sales representatives directly Please include product specifications, quantity needed, destination country, and preferred shipping terms for the most accurate quote. Can products be customized to my specifications? Yes, we offer customization services for most product lines: Dimensional modifications: Custom sizes and configurations Material changes: Alternative materials for specific environments Branding: OEM/ODM services with your logo and packaging Technical specifications: Modified performance parameters Customization typically requires additional lead time and may have higher MOQ requirements. Payment & Settlement What payment methods do you accept? We accept multiple payment methods to accommodate different business needs: Method Suitable For Processing Time T/T (Bank Transfer) All orders 2-3 business days Letter of Credit (L/C) Large orders, new relationships Per L/C terms PayPal Small orders, samples Immediate Western Union Urgent small payments Same day What are your standard payment terms? Our typical payment structure for new customers: Standard orders: 30% deposit, 70% before shipment Custom/OEM orders: 50% deposit, 50% before shipment Established customers: Flexible terms based on relationship For qualified customers with a track record, we may offer more favorable terms such as 30-60 day credit. Is my payment secure? Yes, we prioritize payment security: Bank transfers go directly to our verified corporate account L/C transactions are processed through reputable international banks We never request payments to personal accounts All transactions are documented with official invoices Can I pay in my local currency? We primarily invoice in USD, but can accommodate EUR, GBP, or CNY for qualifying orders. Currency conversion rates are based on the day's bank rate plus a small handling fee. Logistics & Shipping What shipping methods are available? We offer flexible shipping options: Sea Freight (FCL/LCL): Most economical for large orders Air Freight: Fast delivery for urgent or lightweight shipments Express Courier: DHL, FedEx, UPS for samples and small orders Rail Freight: Cost-effective for Europe via China-Europe Express How long does shipping take? Typical transit times (after production completion): Destination Sea Freight Air Freight Express Southeast Asia 7-15 days 3-5 days 3-5 days Europe 25-35 days 7-10 days 5-7 days North America 20-30 days 7-10 days 5-7 days Middle East 15-25 days 5-7 days 4-6 days South America 35-45 days 10-15 days 7-10 days Do you handle customs clearance? Our standard terms (FOB/CIF) include export customs clearance from China. Import customs clearance is typically the buyer's responsibility, but we can: Provide all necessary export documents Assist with HS code classification Recommend reliable customs brokers in your country Offer DDP terms where we handle everything door-to-door How can I track my shipment? We provide comprehensive tracking support: Booking confirmation: Container/AWB number shared upon shipment Online tracking: Links to carrier tracking portals Proactive updates: Key milestone notifications via email Documentation: Bill of lading and shipping documents via email/courier Quality & After-Sales What quality certifications do your products have? Our products hold relevant international certifications including: CE Marking: European conformity ISO 9001: Quality management system RoHS: Restriction of hazardous substances UL Listed: North American safety (selected products) Industry-specific: API, ASME, etc. where applicable Certification documents are provided with shipments and available upon request during quotation. Can I inspect goods before shipment? Absolutely. We support multiple inspection options: Self-inspection: Visit our facility or authorized warehouse Third-party inspection: SGS, Bureau Veritas, or your preferred agency Video inspection: Real-time video call walkthrough of finished goods Photo documentation: Detailed photos of packed goods before shipment What is your warranty policy? Our standard warranty terms: Equipment: 12-24 months from shipment date Components: 6-12 months depending on product type Wear parts: Excluded from warranty Warranty covers manufacturing defects and does not include damage from misuse, improper installation, or normal wear. How do you handle quality issues or returns? We take quality issues seriously and follow a structured resolution process: Report: Submit issue with photos/videos within 7 days of receipt Assessment: Our QC team evaluates the claim Resolution: We offer repair, replacement, or credit based on findings Prevention: Root cause analysis to prevent recurrence For valid claims, we cover replacement costs including shipping. Returns require our authorization and are processed case-by-case. Do you provide technical support? Yes, we offer comprehensive technical support: Pre-sale: Application engineering and product selection guidance Installation: Manuals, videos, and remote support Operation: Technical hotline and email support Training: On-site or online training available for complex equipment Still Have Questions? If you couldn't find the answer you're looking for, please don't hesitate to contact us: Email: Contact our sales team Phone: Reach our support hotline Live Chat: Available during business hours Inquiry Form: Submit your question and we'll respond within 24 hours","tags":[],"categories":[],"publishedAt":"2024-01-10","href":"/faq","filePath":"/content/pages/en/faq.mdx","terms":{"title":["frequently","asked","questions"],"tags":[],"body":["find","answers","to","common","questions","about","ordering","payment","shipping","and","after","sales","service","for","international","b2b","trade","purchasing","what","is","the","minimum","order","quantity","moq","our","varies","by","product","category","most","industrial","equipment","has","an","of","2","5","units","while","components","hardware","may","have","moqs","starting","from","50","100","please","check","individual","pages","specific","requirements","or","contact","us","custom","arrangements","on","trial","orders","can","request","sample","before","placing","bulk","yes","we","encourage","evaluation","committing","large","policies","vary","standard","products","samples","available","at","cost","plus","fees","apply","often","credited","toward","high","value","items","arrange","factory","visits","video","demonstrations","team","discuss","your","needs","how","do","get","quotation","you","through","several","channels","online","inquiry","form","fill","out","any","page","email","send","whatsapp","wechat","connect","with","representatives","directly","include","specifications","needed","destination","country","preferred","terms","accurate","quote","be","customized","my","offer","customization","services","lines","dimensional","modifications","sizes","configurations","material","changes","alternative","materials","environments","branding","oem","odm","logo","packaging","technical","modified","performance","parameters","typically","requires","additional","lead","time","higher","settlement","methods","accept","multiple","accommodate","different","business","method","suitable","processing","bank","transfer","all","3","days","letter","credit","new","relationships","per","paypal","small","immediate","western","union","urgent","payments","same","day","are","typical","structure","customers","30","deposit","70","shipment","established","flexible","based","relationship","qualified","track","record","more","favorable","such","as","60","secure","prioritize","security","transfers","go","verified","corporate","account","transactions","processed","reputable","banks","never","personal","accounts","documented","official","invoices","pay","in","local","currency","primarily","invoice","usd","but","eur","gbp","cny","qualifying","conversion","rates","rate","handling","fee","logistics","options","sea","freight","fcl","lcl","economical","air","fast","delivery","lightweight","shipments","express","courier","dhl","fedex","ups","rail","effective","europe","via","china","long","does","take","transit","times","production","completion","southeast","asia","7","15","25","35","10","north","america","20","middle","east","4","6","south","45","handle","customs","clearance","fob","cif","export","import","buyer","responsibility","provide","necessary","documents","assist","hs","code","classification","recommend","reliable","brokers","ddp","where","everything","door","comprehensive","tracking","support","booking","confirmation","container","awb","number","shared","upon","links","carrier","portals","proactive","updates","key","milestone","notifications","documentation","bill","lading","quality","certifications","hold","relevant","including","ce","marking","european","conformity","iso","9001","management","system","rohs","restriction","hazardous","substances","ul","listed","american","safety","selected","industry","api","asme","etc","applicable","certification","provided","during","inspect","goods","absolutely","inspection","self","visit","facility","authorized","warehouse","third","party","sgs","bureau","veritas","agency","real","call","walkthrough","finished","photo","detailed","photos","packed","warranty","policy","12","24","months","date","depending","type","wear","parts","excluded","covers","manufacturing","defects","not","damage","misuse","improper","installation","normal","issues","returns","seriously","follow","structured","resolution","process","report","submit","issue","videos","within","receipt","assessment","qc","evaluates","claim","repair","replacement","findings","prevention","root","cause","analysis","prevent","recurrence","valid","claims","cover","costs","require","authorization","case","pre","sale","application","engineering","selection","guidance","manuals","remote","operation","hotline","training","site","complex","still","if","couldn","answer","re","looking","don","hesitate","phone","reach","live","chat","hours","question","ll","respond"]}},
+      {"id":"pages/en/privacy","type":"pages","locale":"en","slug":"privacy","title":"Privacy Policy","description":"Learn how [Company Name] collects, uses, and protects your personal information. Our privacy policy explains your rights and our data handling practices.","content":"Effective Date: January 1, 2024 Last Updated: April 1, 2024 Introduction [Company Name] (\"we,\" \"our,\" or \"us\") is committed to protecting your privacy. This Privacy Policy explains how we collect, use, disclose, and safeguard your information when you visit our website or engage with our services. Please read this privacy policy carefully. If you do not agree with the terms of this privacy policy, please do not access the site. Information We Collect Information You Provide to Us We may collect information that you voluntarily provide when you: Fill out inquiry or contact forms Request a quotation Subscribe to our newsletter Create an account Communicate with us via email, phone, or chat This information may include: Contact Information: Name, email address, phone number, company name, job title Business Information: Company address, industry, purchasing requirements Communication Records: Correspondence history, inquiry details Account Information: Username, password (encrypted) Information Automatically Collected When you visit our website, we automatically collect certain information about your device and usage patterns: Device Information: IP address, browser type, operating system, device identifiers Usage Data: Pages visited, time spent on pages, click patterns, referring URLs Location Data: Country and city based on IP address (not precise location) Cookies and Tracking Technologies We use cookies and similar tracking technologies to enhance your experience: Cookie Type Purpose Duration Essential Website functionality Session Preference Remember your settings 1 year Analytics Understand usage patterns 2 years Marketing Personalized content (if enabled) 1 year You can control cookie preferences through your browser settings or our cookie consent banner. How We Use Your Information We use the information we collect for the following purposes: Business Operations Process and respond to your inquiries Provide quotations and facilitate orders Communicate about products and services Manage customer relationships Website Improvement Analyze website usage and performance Improve user experience and navigation Develop new features and content Troubleshoot technical issues Marketing (With Your Consent) Send newsletters and product updates Provide personalized recommendations Conduct customer surveys Legal and Compliance Comply with legal obligations Protect against fraud and abuse Enforce our terms of service Legal Basis for Processing (GDPR) For users in the European Economic Area (EEA), we process your personal data based on: Consent: When you opt-in to marketing communications Contract Performance: To fulfill business transactions Legitimate Interests: For business operations and website improvement Legal Obligation: To comply with applicable laws Information Sharing and Disclosure We do not sell your personal information. We may share your information with: Service Providers Third parties who assist our business operations: Website hosting providers Email service providers Analytics services Customer relationship management (CRM) systems These providers are contractually obligated to protect your data. Business Partners With your consent, we may share information with: Logistics and shipping partners (for order fulfillment) Payment processors (for transaction processing) Legal Requirements We may disclose information when required by: Court orders or legal processes Government requests Protection of our legal rights Emergency situations involving safety International Data Transfers As an international business, your data may be transferred to and processed in countries outside your residence, including China. We implement appropriate safeguards: Standard contractual clauses Data processing agreements Security measures compliant with international standards Data Security We implement industry-standard security measures: Encryption: SSL/TLS for data in transit Access Controls: Role-based access to data Monitoring: Regular security audits and monitoring Employee Training: Data protection awareness programs However, no method of transmission over the Internet is 100% secure. We cannot guarantee absolute security. Data Retention We retain your personal information for: Active Business Relationships: Duration of relationship plus 5 years Inquiry Data: 2 years from last contact Analytics Data: 26 months (aggregated) Marketing Preferences: Until withdrawal of consent After retention periods expire, data is securely deleted or anonymized. Your Privacy Rights For All Users You have the right to: Access: Request a copy of your personal data Correction: Update inaccurate information Deletion: Request deletion of your data Objection: Object to certain processing activities Portability: Receive your data in a portable format For EEA Residents (GDPR) Additional rights include: Withdraw consent at any time Lodge a complaint with a supervisory authority Restrict processing in certain circumstances For California Residents (CCPA) You have the right to: Know what personal information is collected Know if personal information is sold or disclosed Say no to the sale of personal information Access your personal information Equal service and price (non-discrimination) To exercise these rights, contact us using the information below. Children's Privacy Our website is not intended for individuals under 16 years of age. We do not knowingly collect personal information from children. If you believe we have collected information from a child, please contact us immediately. Third-Party Links Our website may contain links to third-party websites. We are not responsible for the privacy practices of these external sites. We encourage you to review their privacy policies. Changes to This Policy We may update this Privacy Policy periodically. Changes will be posted on this page with an updated \"Last Updated\" date. Significant changes will be communicated via email or website notice. Contact Us If you have questions about this Privacy Policy or wish to exercise your rights, please contact us: Data Protection Contact [Company Name] Email: privacy@[company-domain].com Address: [Company Address] For EU residents, you may also contact our EU representative at [EU Representative Contact]. Document Version: 2.0 Approved By: Legal Department Review Cycle: Annual","tags":[],"categories":[],"publishedAt":"2024-01-01","href":"/privacy","filePath":"/content/pages/en/privacy.mdx","terms":{"title":["privacy","policy"],"tags":[],"body":["learn","how","company","name","collects","uses","and","protects","your","personal","information","our","privacy","policy","explains","rights","data","handling","practices","effective","date","january","1","2024","last","updated","april","introduction","we","or","us","is","committed","to","protecting","this","collect","use","disclose","safeguard","when","you","visit","website","engage","with","services","please","read","carefully","if","do","not","agree","the","terms","of","access","site","provide","may","that","voluntarily","fill","out","inquiry","contact","forms","request","quotation","subscribe","newsletter","create","an","account","communicate","via","email","phone","chat","include","address","number","job","title","business","industry","purchasing","requirements","communication","records","correspondence","history","details","username","password","encrypted","automatically","collected","certain","about","device","usage","patterns","ip","browser","type","operating","system","identifiers","pages","visited","time","spent","on","click","referring","urls","location","country","city","based","precise","cookies","tracking","technologies","similar","enhance","experience","cookie","purpose","duration","essential","functionality","session","preference","remember","settings","year","analytics","understand","2","years","marketing","personalized","content","enabled","can","control","preferences","through","consent","banner","for","following","purposes","operations","process","respond","inquiries","quotations","facilitate","orders","products","manage","customer","relationships","improvement","analyze","performance","improve","user","navigation","develop","new","features","troubleshoot","technical","issues","send","newsletters","product","updates","recommendations","conduct","surveys","legal","compliance","comply","obligations","protect","against","fraud","abuse","enforce","service","basis","processing","gdpr","users","in","european","economic","area","eea","opt","communications","contract","fulfill","transactions","legitimate","interests","obligation","applicable","laws","sharing","disclosure","sell","share","providers","third","parties","who","assist","hosting","relationship","management","crm","systems","these","are","contractually","obligated","partners","logistics","shipping","order","fulfillment","payment","processors","transaction","required","by","court","processes","government","requests","protection","emergency","situations","involving","safety","international","transfers","as","be","transferred","processed","countries","outside","residence","including","china","implement","appropriate","safeguards","standard","contractual","clauses","agreements","security","measures","compliant","standards","encryption","ssl","tls","transit","controls","role","monitoring","regular","audits","employee","training","awareness","programs","however","no","method","transmission","over","internet","100","secure","cannot","guarantee","absolute","retention","retain","active","plus","5","from","26","months","aggregated","until","withdrawal","after","periods","expire","securely","deleted","anonymized","all","have","right","copy","correction","update","inaccurate","deletion","objection","object","activities","portability","receive","portable","format","residents","additional","withdraw","at","any","lodge","complaint","supervisory","authority","restrict","circumstances","california","ccpa","know","what","sold","disclosed","say","sale","equal","price","non","discrimination","exercise","using","below","children","intended","individuals","under","16","age","knowingly","believe","child","immediately","party","links","contain","websites","responsible","external","sites","encourage","review","their","policies","changes","periodically","will","posted","page","significant","communicated","notice","questions","wish","domain","com","eu","also","representative","document","version","0","approved","department","cycle","annual"]}},
+      {"id":"pages/en/terms","type":"pages","locale":"en","slug":"terms","title":"Terms of Service","description":"Read our terms and conditions for using our services and purchasing products. These terms govern the business relationship between [Company Name] and our customers.","content":"Effective Date: January 1, 2024 Last Updated: April 1, 2024 Introduction Welcome to [Company Name]. These Terms of Service (\"Terms\") govern your access to and use of our website, products, and services. By accessing our website or engaging in business with us, you agree to be bound by these Terms. Please read these Terms carefully before using our services. If you do not agree to these Terms, please do not use our website or services. Acceptance of Terms By accessing or using our website, placing an order, or engaging in any business transaction with us, you acknowledge that you have read, understood, and agree to be bound by these Terms and our Privacy Policy. If you are entering into these Terms on behalf of a company or other legal entity, you represent that you have the authority to bind such entity to these Terms. Services Description [Company Name] provides: Manufacturing and export of industrial products Product customization services Technical consultation and support Quality assurance and certification services Logistics coordination Detailed product specifications and service offerings are available upon request. Orders and Contracts Inquiry and Quotation All inquiries should include detailed specifications and quantity requirements Quotations are valid for 30 days unless otherwise stated Prices are subject to change based on market conditions and order specifications Order Confirmation An order is confirmed when: Written purchase order is received We issue a Proforma Invoice (PI) Deposit payment is received (if applicable) We provide written order confirmation Contract Formation A binding contract is formed upon our written acceptance of your order. Order modifications require mutual written consent. Payment Terms Accepted Payment Methods Method Minimum Order Processing Time T/T (Telegraphic Transfer) No minimum 1-3 business days L/C (Letter of Credit) $10,000+ As per L/C terms D/P (Documents against Payment) Case by case As per bank terms Standard Payment Terms Deposit: 30% upon order confirmation Balance: 70% before shipment (T/T) or upon document presentation (L/C) Custom Terms: Available for established customers with good credit history Late Payment Late payments may incur: Interest at 1.5% per month on outstanding amounts Suspension of pending orders Requirement for prepayment on future orders Shipping and Delivery Trade Terms (Incoterms® 2020) We typically operate under the following terms: FOB (Free On Board): Named port of shipment CIF (Cost, Insurance, Freight): Named port of destination EXW (Ex Works): Our factory location Specific terms will be stated in the quotation and contract. Delivery Schedule Standard lead time: 30-45 days after order confirmation Custom orders: Timeline provided at quotation stage Delivery dates are estimates and not guaranteed Risk Transfer Risk of loss transfers to the buyer according to the agreed Incoterm. Warranty and Returns Product Warranty Standard warranty: 12 months from delivery date Warranty covers manufacturing defects only Excludes damage from misuse, modification, or improper storage Claims Process Submit written claim within 15 days of delivery (visible defects) Submit written claim within warranty period (hidden defects) Provide photos, documentation, and sample if requested Our quality team will investigate within 10 business days Remedies At our discretion, we will: Repair or replace defective products Provide credit for future orders Refund the affected portion (for confirmed manufacturing defects) Limitation of Liability Maximum Liability Our total liability for any claim shall not exceed the amount paid by you for the specific products or services giving rise to the claim. Exclusions We are not liable for: Indirect, incidental, or consequential damages Lost profits or business opportunities Damages arising from improper use Delays caused by force majeure events Force Majeure Neither party shall be liable for delays or failures caused by circumstances beyond reasonable control, including but not limited to: Natural disasters War, terrorism, or civil unrest Government actions or regulations Epidemics or pandemics Shipping or logistics disruptions Intellectual Property Our Property All content on our website, including text, images, logos, and product designs, is the property of [Company Name] or its licensors. Customer Specifications Custom designs provided by customers remain their property We will maintain confidentiality of customer specifications Manufacturing of custom products does not transfer design rights to us Usage Rights You may not: Reproduce our materials without written permission Reverse engineer our products Use our trademarks without authorization Confidentiality Both parties agree to: Protect confidential information received from the other party Use confidential information only for the purpose of the business relationship Not disclose confidential information to third parties without consent Confidentiality obligations survive termination of the business relationship for 5 years. Termination By Either Party Either party may terminate the business relationship by providing 30 days written notice. Immediate Termination We may terminate immediately if: Payment defaults occur Material breach of these Terms Insolvency or bankruptcy proceedings Violation of applicable laws Effect of Termination Upon termination: Outstanding payments become immediately due Pending orders may be cancelled or completed at our discretion Confidentiality obligations continue Governing Law and Disputes Governing Law These Terms are governed by the laws of the People's Republic of China. Dispute Resolution Negotiation: Parties shall first attempt to resolve disputes through good-faith negotiation Mediation: If negotiation fails within 30 days, parties may attempt mediation Arbitration: Unresolved disputes shall be submitted to: China International Economic and Trade Arbitration Commission (CIETAC) Rules: CIETAC Arbitration Rules Location: Hong Kong or Beijing (mutual agreement) Language: English or Chinese (mutual agreement) The arbitral award shall be final and binding on both parties. Export Compliance Regulations Both parties shall comply with all applicable export control laws and regulations, including: Export Administration Regulations (EAR) International Traffic in Arms Regulations (ITAR) Applicable UN and national sanctions Buyer's Obligations Buyer warrants that: Products will not be used for prohibited purposes Products will not be re-exported in violation of export laws Buyer is not on any denied party list General Provisions Entire Agreement These Terms, together with any quotations, orders, and written agreements, constitute the entire agreement between the parties. Severability If any provision is found invalid or unenforceable, the remaining provisions shall continue in effect. Waiver Failure to enforce any right or provision shall not constitute a waiver of such right or provision. Assignment You may not assign your rights or obligations without our prior written consent. Amendments We reserve the right to modify these Terms. Changes will be effective upon posting to our website. Contact Information For questions about these Terms of Service: [Company Name] Email: legal@[company-domain].com Address: [Company Address] For order-related inquiries: Email: sales@[company-domain].com Phone: [Company Phone] Document Version: 2.0 Approved By: Legal Department Review Cycle: Annual","tags":[],"categories":[],"publishedAt":"2024-01-01","href":"/terms","filePath":"/content/pages/en/terms.mdx","terms":{"title":["terms","of","service"],"tags":[],"body":["read","our","terms","and","conditions","for","using","services","purchasing","products","these","govern","the","business","relationship","between","company","name","customers","effective","date","january","1","2024","last","updated","april","introduction","welcome","to","of","service","your","access","use","website","by","accessing","or","engaging","in","with","us","you","agree","be","bound","please","carefully","before","if","do","not","acceptance","placing","an","order","any","transaction","acknowledge","that","have","understood","privacy","policy","are","entering","into","on","behalf","other","legal","entity","represent","authority","bind","such","description","provides","manufacturing","export","industrial","product","customization","technical","consultation","support","quality","assurance","certification","logistics","coordination","detailed","specifications","offerings","available","upon","request","orders","contracts","inquiry","quotation","all","inquiries","should","include","quantity","requirements","quotations","valid","30","days","unless","otherwise","stated","prices","subject","change","based","market","confirmation","is","confirmed","when","written","purchase","received","we","issue","proforma","invoice","pi","deposit","payment","applicable","provide","contract","formation","binding","formed","modifications","require","mutual","consent","accepted","methods","method","minimum","processing","time","telegraphic","transfer","no","3","letter","credit","10","000","as","per","documents","against","case","bank","standard","balance","70","shipment","document","presentation","custom","established","good","history","late","payments","may","incur","interest","at","5","month","outstanding","amounts","suspension","pending","requirement","prepayment","future","shipping","delivery","trade","incoterms","2020","typically","operate","under","following","fob","free","board","named","port","cif","cost","insurance","freight","destination","exw","ex","works","factory","location","specific","will","schedule","lead","45","after","timeline","provided","stage","dates","estimates","guaranteed","risk","loss","transfers","buyer","according","agreed","incoterm","warranty","returns","12","months","from","covers","defects","only","excludes","damage","misuse","modification","improper","storage","claims","process","submit","claim","within","15","visible","period","hidden","photos","documentation","sample","requested","team","investigate","remedies","discretion","repair","replace","defective","refund","affected","portion","limitation","liability","maximum","total","shall","exceed","amount","paid","giving","rise","exclusions","liable","indirect","incidental","consequential","damages","lost","profits","opportunities","arising","delays","caused","force","majeure","events","neither","party","failures","circumstances","beyond","reasonable","control","including","but","limited","natural","disasters","war","terrorism","civil","unrest","government","actions","regulations","epidemics","pandemics","disruptions","intellectual","property","content","text","images","logos","designs","its","licensors","customer","remain","their","maintain","confidentiality","does","design","rights","usage","reproduce","materials","without","permission","reverse","engineer","trademarks","authorization","both","parties","protect","confidential","information","purpose","disclose","third","obligations","survive","termination","years","either","terminate","providing","notice","immediate","immediately","defaults","occur","material","breach","insolvency","bankruptcy","proceedings","violation","laws","effect","become","due","cancelled","completed","continue","governing","law","disputes","governed","people","republic","china","dispute","resolution","negotiation","first","attempt","resolve","through","faith","mediation","fails","arbitration","unresolved","submitted","international","economic","commission","cietac","rules","hong","kong","beijing","agreement","language","english","chinese","arbitral","award","final","compliance","comply","administration","ear","traffic","arms","itar","un","national","sanctions","warrants","used","prohibited","purposes","re","exported","denied","list","general","provisions","entire","together","agreements","constitute","severability","provision","found","invalid","unenforceable","remaining","waiver","failure","enforce","right","assignment","assign","prior","amendments","reserve","modify","changes","posting","contact","questions","about","email","domain","com","address","related","sales","phone","version","2","0","approved","department","review","cycle","annual"]}},
+      {"id":"posts/en/welcome","type":"posts","locale":"en","slug":"welcome","title":"Welcome to B2B Web Template","description":"Discover the power of modern web development with our enterprise-grade Next.js template featuring React 19, TypeScript, and Tailwind CSS.","content":"Welcome to B2B Web Template We're excited to introduce B2B Web Template, a cutting-edge enterprise web template built with the latest technologies and best practices. This template represents the pinnacle of modern web development, combining performance, scalability, and developer experience. What Makes This Template Special? Modern Technology Stack Our template is built on the foundation of industry-leading technologies: Next.js 16 - The React framework for production React 19 - The latest version with concurrent features TypeScript 5 - Type safety and enhanced developer experience Tailwind CSS 4 - Utility-first CSS framework International Ready Built with global businesses in mind: Dual Language Support - English and Chinese localization RTL Support - Ready for right-to-left languages Cultural Adaptations - Locale-specific formatting and content Enterprise Design System Consistent UI Components - Built with Radix UI primitives Dark/Light Themes - Automatic system preference detection Responsive Design - Mobile-first approach Accessibility - WCAG 2.1 AA compliant Key Features Performance Optimized Type-Safe Development Every component, utility, and configuration is fully typed, ensuring: Compile-time Error Detection Enhanced IDE Support Refactoring Safety Documentation Through Types Enterprise Security Content Security Policy - Configured for production Security Headers - OWASP recommended headers Dependency Scanning - Automated vulnerability detection Code Quality Gates - ESLint, Prettier, and custom rules Getting Started Quick Setup Clone the repository bash git clone https://github.com/Alx-707/b2b-web-template cd B2B Web Template Install dependencies bash pnpm install Start development server bash pnpm dev --turbo Configuration The template comes with sensible defaults, but you can customize everything: Branding - Update colors, fonts, and logos Content - Add your own pages and blog posts Integrations - Connect your analytics, CMS, and services Architecture Highlights Component Structure Content Management Our MDX-based content system provides: Type-safe Content - Validated frontmatter Rich Media Support - Images, videos, and embeds SEO Optimization - Automatic meta tag generation Multi-language - Seamless i18n integration What's Next? This is just the beginning. We're continuously improving the template with: New Components - Expanding the design system Performance Enhancements - Optimizing for Core Web Vitals Developer Tools - Better debugging and development experience Community Contributions - Open source collaboration Join Our Community We believe in the power of community-driven development. Here's how you can get involved: GitHub Discussions - Share ideas and ask questions Issue Tracking - Report bugs and request features Pull Requests - Contribute code improvements Documentation - Help improve our guides Ready to build something amazing? Get started with B2B Web Template today and experience the future of enterprise web development. _Happy coding!_","tags":["Next.js","React","TypeScript","Enterprise","Web Development"],"categories":["Technology","Web Development"],"publishedAt":"2024-01-15","href":"/blog/welcome","filePath":"/content/posts/en/welcome.mdx","terms":{"title":["welcome","to","b2b","web","template"],"tags":["next","js","react","typescript","enterprise","web","development","technology"],"body":["discover","the","power","of","modern","web","development","with","our","enterprise","grade","next","js","template","featuring","react","19","typescript","and","tailwind","css","welcome","to","b2b","we","re","excited","introduce","cutting","edge","built","latest","technologies","best","practices","this","represents","pinnacle","combining","performance","scalability","developer","experience","what","makes","special","technology","stack","is","on","foundation","industry","leading","16","framework","for","production","version","concurrent","features","5","type","safety","enhanced","4","utility","first","international","ready","global","businesses","in","mind","dual","language","support","english","chinese","localization","rtl","right","left","languages","cultural","adaptations","locale","specific","formatting","content","design","system","consistent","ui","components","radix","primitives","dark","light","themes","automatic","preference","detection","responsive","mobile","approach","accessibility","wcag","2","1","aa","compliant","key","optimized","safe","every","component","configuration","fully","typed","ensuring","compile","time","error","ide","refactoring","documentation","through","types","security","policy","configured","headers","owasp","recommended","dependency","scanning","automated","vulnerability","code","quality","gates","eslint","prettier","custom","rules","getting","started","quick","setup","clone","repository","bash","git","https","github","com","alx","707","cd","install","dependencies","pnpm","start","server","dev","turbo","comes","sensible","defaults","but","you","can","customize","everything","branding","update","colors","fonts","logos","add","your","own","pages","blog","posts","integrations","connect","analytics","cms","services","architecture","highlights","structure","management","mdx","based","provides","validated","frontmatter","rich","media","images","videos","embeds","seo","optimization","meta","tag","generation","multi","seamless","i18n","integration","just","beginning","continuously","improving","new","expanding","enhancements","optimizing","core","vitals","tools","better","debugging","community","contributions","open","source","collaboration","join","believe","driven","here","how","get","involved","discussions","share","ideas","ask","questions","issue","tracking","report","bugs","request","pull","requests","contribute","improvements","help","improve","guides","build","something","amazing","today","future","happy","coding"]}},
+      {"id":"products/en/sample-product","type":"products","locale":"en","slug":"sample-product","title":"Sample Product","description":"This is a sample product placeholder. Replace with your actual product content.","content":"Sample Product This is a placeholder product page. Replace this content with your actual product information. Features Feature 1 Feature 2 Feature 3 Specifications Replace with actual product specifications.","tags":[],"categories":["Sample"],"publishedAt":"2024-01-01","href":"/products/sample-product","filePath":"/content/products/en/sample-product.mdx","terms":{"title":["sample","product"],"tags":["sample"],"body":["this","is","sample","product","placeholder","replace","with","your","actual","content","page","information","features","feature","1","2","3","specifications"]}},
+    ],
+    zh: [
+      {"id":"pages/zh/about","type":"pages","locale":"zh","slug":"about","title":"关于 B2B Web Template","description":"了解我们的使命：通过现代技术和最佳实践提供企业级网络开发解决方案。","content":"关于 B2B Web Template 我们的使命 在 B2B Web Template，我们相信企业网络开发应该是快速、可靠和愉悦的。我们的使命是提供世界级的网络开发模板和工具，赋能团队构建卓越的数字体验。 我们的价值观 🎯 开发者体验优先 我们在构建的每一个产品中都优先考虑开发者体验。从全面的 TypeScript 支持到直观的 API，每个决策都以开发者为中心。 🚀 默认高性能 性能不是事后考虑——它内置在基础架构中。我们的模板针对核心网络指标和真实世界使用模式进行了优化。 🌍 全球无障碍 我们为每个人、每个地方构建产品。我们的解决方案支持多种语言、无障碍标准和多样化的用户需求。 🔒 企业安全 安全在企业环境中至关重要。我们从第一天起就实施行业最佳实践和安全标准。 我们的技术理念 现代技术栈，经过验证的模式 我们拥抱前沿技术，同时保持稳定性和可靠性： Next.js 16 - 出色的开发者体验和生产就绪性 React 19 - 利用最新的并发特性和改进 TypeScript - 确保类型安全和更好的代码可维护性 Tailwind CSS - 快速、一致的样式设计 质量保证 每一行代码都经过严格的质量检查： 自动化测试 - 单元测试、集成测试和端到端测试 代码审查 - 所有变更的同行评审流程 性能监控 - 持续的性能跟踪 安全扫描 - 定期漏洞评估 B2B Web Template 背后的团队 我们多元化的团队汇集了各个领域的专业知识： 工程卓越 我们的工程团队由在以下领域拥有丰富经验的高级开发者组成： 大规模网络应用 企业架构 性能优化 安全实施 设计创新 我们的设计团队专注于： 用户体验研究 无障碍标准 视觉设计系统 跨文化设计模式 产品策略 我们的产品团队确保： 市场驱动的功能开发 用户反馈集成 路线图规划 社区参与 我们对开源的承诺 我们相信开源软件和社区协作的力量： 透明度 开放开发 - 所有开发都在公共仓库中进行 清晰文档 - 全面的指南和 API 参考 定期更新 - 一致的发布周期和变更日志 社区优先 响应式支持 - 积极的社区参与和支持 欢迎贡献 - 清晰的贡献指南和指导 反馈驱动 - 基于社区需求的功能开发 企业解决方案 咨询服务 我们为企业客户提供专业咨询： 架构审查 - 现有系统评估和建议 迁移规划 - 现代化遗留应用的策略 性能优化 - 识别和解决性能瓶颈 安全审计 - 全面的安全评估和改进 定制开发 为有独特需求的组织： 定制解决方案 - 自定义功能和集成 白标选项 - 我们模板的品牌版本 培训计划 - 现代网络开发实践的团队培训 持续支持 - 长期维护和支持合同 行业认可 我们的工作得到了领先组织的认可： 性能卓越 - 在核心网络指标基准测试中获得最高分 安全标准 - 符合 OWASP 和行业安全框架 无障碍奖项 - 包容性设计实践的认可 开发者选择 - 在开发者调查中获得高满意度评级 展望未来 路线图亮点 我们持续发展以满足企业开发不断变化的需求： 2024年第一季度 增强的国际化功能 高级分析集成 改进的开发工具 2024年第二季度 AI 驱动的内容优化 高级缓存策略 移动优先增强 2024年第三季度 微前端架构支持 高级测试框架 性能监控仪表板 创新领域 我们正在积极研究和开发： 边缘计算 - 利用边缘网络提高性能 AI 集成 - 智能内容生成和优化 渐进式增强 - 更好的离线和低连接体验 可持续性 - 通过高效代码减少碳足迹 参与其中 对于开发者 贡献代码 - 提交拉取请求和改进 报告问题 - 帮助我们识别和修复问题 分享反馈 - 告诉我们您的体验和建议 加入讨论 - 参与社区论坛和活动 对于组织 试点项目 - 早期访问新功能和模板 合作机会 - 企业解决方案的协作 案例研究 - 分享您使用我们解决方案的成功故事 顾问委员会 - 为产品方向提供战略输入 联系我们 准备好转变您的网络开发体验了吗？ 邮箱: hello@b2b-web-template.com GitHub: https://github.com/Alx-707/b2b-web-template X (Twitter): https://x.com/b2b-web-template LinkedIn: https://www.linkedin.com/company/b2b-web-template/ _一行代码一行代码地构建企业网络开发的未来。_","tags":[],"categories":[],"publishedAt":"2024-01-10","href":"/about","filePath":"/content/pages/zh/about.mdx","terms":{"title":["关","于","关于","b2b","web","template"],"tags":[],"body":["了","解","我","们","的","使","命","了解","解我","我们","们的","的使","使命","通","过","现","代","技","术","和","最","佳","实","践","提","供","企","业","级","网","络","开","发","决","方","案","通过","过现","现代","代技","技术","术和","和最","最佳","佳实","实践","践提","提供","供企","企业","业级","级网","网络","络开","开发","发解","解决","决方","方案","关","于","关于","b2b","web","template","在","相","信","应","该","是","快","速","们相","相信","信企","业网","发应","应该","该是","是快","快速","可","靠","愉","悦","可靠","靠和","和愉","愉悦","悦的","世","界","模","板","工","具","命是","是提","供世","世界","界级","级的","的网","发模","模板","板和","和工","工具","赋","能","团","队","构","建","卓","越","数","字","体","验","赋能","能团","团队","队构","构建","建卓","卓越","越的","的数","数字","字体","体验","价","值","观","的价","价值","值观","者","优","先","发者","者体","验优","优先","每","一","个","产","品","中","都","考","虑","们在","在构","建的","的每","每一","一个","个产","产品","品中","中都","都优","先考","考虑","虑开","从","全","面","从全","全面","面的","typescript","支","持","到","直","支持","持到","到直","直观","观的","api","策","以","为","心","每个","个决","决策","策都","都以","以开","者为","为中","中心","默","认","高","性","默认","认高","高性","性能","不","事","后","能不","不是","是事","事后","后考","它","内","置","基","础","架","它内","内置","置在","在基","基础","础架","架构","构中","针","对","核","指","标","真","用","式","进","行","化","的模","板针","针对","对核","核心","心网","络指","指标","标和","和真","真实","实世","界使","使用","用模","模式","式进","进行","行了","了优","优化","球","无","障","碍","全球","球无","无障","障碍","人","们为","为每","个人","地","个地","地方","方构","建产","多","种","语","言","的解","案支","持多","多种","种语","语言","准","样","户","需","求","碍标","标准","准和","和多","多样","样化","化的","的用","用户","户需","需求","安","业安","安全","环","境","至","重","要","全在","在企","业环","环境","境中","中至","至关","关重","重要","第","天","起","就","施","们从","从第","第一","一天","天起","起就","就实","实施","施行","行业","业最","践和","和安","全标","理","念","的技","术理","理念","栈","术栈","经","证","经过","过验","验证","证的","拥","抱","前","沿","们拥","拥抱","抱前","前沿","沿技","同","时","保","稳","定","同时","时保","保持","持稳","稳定","定性","性和","和可","靠性","next","js","16","出","色","生","绪","出色","色的","的开","验和","和生","生产","产就","就绪","绪性","react","19","利","新","并","特","改","利用","用最","最新","新的","的并","并发","发特","特性","和改","改进","确","类","型","更","好","码","维","护","确保","保类","类型","型安","全和","和更","更好","好的","的代","代码","码可","可维","维护","护性","tailwind","css","致","设","计","一致","致的","的样","样式","式设","设计","质","量","质量","量保","保证","严","格","检","查","一行","行代","码都","都经","过严","严格","格的","的质","量检","检查","自","动","测","试","自动","动化","化测","测试","单","元","单元","元测","集","成","端","集成","成测","试和","和端","端到","到端","端测","审","码审","审查","所","有","变","评","流","程","所有","有变","变更","更的","的同","同行","行评","评审","审流","流程","监","控","能监","监控","续","跟","踪","持续","续的","的性","能跟","跟踪","扫","描","全扫","扫描","期","漏","洞","估","定期","期漏","漏洞","洞评","评估","背","背后","后的","的团","汇","各","领","域","专","知","识","们多","多元","元化","队汇","汇集","集了","了各","各个","个领","领域","域的","的专","专业","业知","知识","工程","程卓","由","下","丰","富","组","的工","程团","队由","由在","在以","以下","下领","域拥","拥有","有丰","丰富","富经","经验","验的","的高","高级","级开","者组","组成","大","规","大规","规模","模网","络应","应用","业架","能优","全实","创","计创","创新","注","的设","计团","队专","专注","注于","研","究","户体","验研","研究","视","觉","系","统","视觉","觉设","计系","系统","跨","文","跨文","文化","化设","计模","略","品策","策略","的产","品团","队确","市","场","驱","功","市场","场驱","驱动","动的","的功","功能","能开","反","馈","户反","反馈","馈集","路","线","图","划","路线","线图","图规","规划","社","区","参","与","社区","区参","参与","源","承","诺","们对","对开","开源","源的","的承","承诺","软","件","协","作","力","信开","源软","软件","件和","和社","区协","协作","作的","的力","力量","透","明","度","透明","明度","放","开放","放开","公","共","仓","库","有开","发都","都在","在公","公共","共仓","仓库","库中","中进","清","晰","档","清晰","晰文","文档","南","的指","指南","南和","参考","期更","更新","布","周","日","志","的发","发布","布周","周期","期和","和变","更日","日志","区优","响","响应","应式","式支","积","极","积极","极的","的社","与和","和支","欢","迎","贡","献","欢迎","迎贡","贡献","导","晰的","的贡","献指","和指","指导","馈驱","基于","于社","区需","求的","业解","咨","询","服","务","咨询","询服","服务","客","为企","业客","客户","户提","供专","业咨","构审","议","现有","有系","统评","估和","和建","建议","迁","移","迁移","移规","遗","留","代化","化遗","遗留","留应","用的","的策","别","瓶","颈","识别","别和","和解","决性","能瓶","瓶颈","全审","审计","的安","全评","制","定制","制开","独","织","为有","有独","独特","特需","的组","组织","制解","义","自定","定义","义功","能和","和集","白","选","项","白标","标选","选项","牌","版","本","们模","板的","的品","品牌","牌版","版本","培","训","培训","训计","计划","代网","发实","践的","队培","续支","长","合","长期","期维","护和","持合","合同","业认","认可","得","工作","作得","得到","到了","了领","领先","先组","织的","的认","能卓","获","分","在核","标基","基准","准测","试中","中获","获得","得最","最高","高分","符","符合","owasp","框","和行","全框","框架","奖","碍奖","奖项","包","容","包容","容性","性设","计实","择","者选","选择","调","满","意","在开","者调","调查","查中","得高","高满","满意","意度","度评","评级","展","望","未","来","展望","望未","未来","亮","点","图亮","亮点","足","断","们持","续发","发展","展以","以满","满足","足企","业开","发不","不断","断变","变化","的需","2024","年","季","年第","一季","季度","增","强","国","际","增强","强的","的国","国际","际化","化功","析","级分","分析","析集","进的","发工","二","第二","二季","ai","的内","内容","容优","缓","存","级缓","缓存","存策","移动","动优","先增","三","第三","三季","微","微前","前端","端架","构支","级测","试框","仪","表","控仪","仪表","表板","新领","正","们正","正在","在积","极研","究和","和开","边","缘","算","边缘","缘计","计算","用边","缘网","络提","提高","智","智能","能内","容生","生成","成和","和优","渐","渐进","进式","式增","离","低","连","接","的离","离线","线和","和低","低连","连接","接体","可持","续性","效","减","少","碳","迹","过高","高效","效代","码减","减少","少碳","碳足","足迹","其","与其","其中","对于","于开","献代","交","拉","取","请","提交","交拉","拉取","取请","请求","求和","报","告","问","题","报告","告问","问题","帮","助","修","复","帮助","助我","们识","和修","修复","复问","享","分享","享反","诉","您","告诉","诉我","们您","您的","的体","加","入","讨","论","加入","入讨","讨论","坛","活","与社","区论","论坛","坛和","和活","活动","于组","目","试点","点项","项目","早","访","早期","期访","访问","问新","新功","和模","机","会","合作","作机","机会","案的","的协","例","案例","例研","故","享您","您使","用我","们解","的成","成功","功故","故事","顾","委","员","顾问","问委","委员","员会","向","战","输","为产","品方","方向","向提","供战","战略","略输","输入","联","联系","系我","备","转","吗","准备","备好","好转","转变","变您","发体","验了","了吗","邮","箱","邮箱","hello","com","github","https","alx","707","twitter","linkedin","www","company","码一","码地","地构","建企","发的","的未"]}},
+      {"id":"pages/zh/faq","type":"pages","locale":"zh","slug":"faq","title":"常见问题","description":"查找关于国际B2B贸易中订购、付款、运输和售后服务常见问题的解答。","content":"订购与采购 最小起订量（MOQ）是多少？ 我们的MOQ因产品类别而异。大多数工业设备的MOQ为2-5台，而零部件和五金件的MOQ可能从50-100件起。请查看各产品页面了解具体MOQ要求，或联系我们商讨试订单的特殊安排。 批量订购前可以先申请样品吗？ 可以，我们鼓励在承诺大订单前进行样品评估。样品政策因产品而异： 标准产品：按产品成本加运费提供样品 定制产品：可能收取样品费，通常可抵扣批量订单款项 高价值产品：可安排工厂参观或视频演示 请联系我们的销售团队讨论您的具体样品需求。 如何获取报价？ 您可以通过多种渠道获取报价： 在线询价表：填写任意产品页面的询价表格 电子邮件：将您的需求发送给我们的销售团队 WhatsApp/微信：直接联系我们的销售代表 请提供产品规格、所需数量、目的国和首选贸易条款，以便获得最准确的报价。 产品可以按我的规格定制吗？ 可以，我们为大多数产品线提供定制服务： 尺寸修改：定制尺寸和配置 材料变更：适用于特定环境的替代材料 品牌定制：带有您的标志和包装的OEM/ODM服务 技术规格：修改性能参数 定制通常需要额外的交货时间，MOQ要求也可能更高。 付款与结算 你们接受哪些付款方式？ 我们接受多种付款方式以满足不同的业务需求： 方式 适用于 处理时间 电汇（T/T） 所有订单 2-3个工作日 信用证（L/C） 大订单、新合作关系 按信用证条款 PayPal 小订单、样品 即时 西联汇款 紧急小额付款 当天 你们的标准付款条款是什么？ 我们对新客户的典型付款结构： 标准订单：30%定金，70%发货前付清 定制/OEM订单：50%定金，50%发货前付清 老客户：根据合作关系灵活安排 对于有良好交易记录的合格客户，我们可以提供更优惠的条款，如30-60天账期。 我的付款安全吗？ 是的，我们优先保障付款安全： 银行转账直接汇入我们经验证的公司账户 信用证交易通过信誉良好的国际银行处理 我们从不要求汇款到个人账户 所有交易都有正式发票作为凭证 可以用我当地的货币付款吗？ 我们主要以美元开具发票，但对于符合条件的订单可以接受欧元、英镑或人民币。汇率转换基于当日银行汇率加少量手续费。 物流与运输 有哪些运输方式可选？ 我们提供灵活的运输选择： 海运（整柜/拼柜）：大订单最经济的选择 空运：紧急或轻量货物的快速交付 国际快递：DHL、FedEx、UPS适用于样品和小订单 铁路运输：通过中欧班列运往欧洲的高性价比方案 运输需要多长时间？ 生产完成后的典型运输时间： 目的地 海运 空运 快递 东南亚 7-15天 3-5天 3-5天 欧洲 25-35天 7-10天 5-7天 北美 20-30天 7-10天 5-7天 中东 15-25天 5-7天 4-6天 南美 35-45天 10-15天 7-10天 你们办理清关吗？ 我们的标准条款（FOB/CIF）包括从中国的出口清关。进口清关通常由买方负责，但我们可以： 提供所有必要的出口单证 协助海关编码分类 推荐您所在国家可靠的报关行 提供DDP条款，我们负责门到门的所有事宜 如何追踪我的货物？ 我们提供全面的追踪支持： 订舱确认：发货时分享集装箱号/运单号 在线追踪：承运人追踪门户链接 主动更新：通过邮件通知关键里程碑 文件资料：通过邮件/快递发送提单和运输单据 质量与售后 你们的产品有哪些质量认证？ 我们的产品拥有相关的国际认证，包括： CE标志：欧洲合格认证 ISO 9001：质量管理体系 RoHS：有害物质限制 UL认证：北美安全认证（部分产品） 行业特定认证：如API、ASME等（如适用） 认证文件随货提供，也可在报价阶段应要求提供。 发货前可以验货吗？ 当然可以。我们支持多种验货方式： 自行验货：到访我们的工厂或授权仓库 第三方验货：SGS、必维或您指定的机构 视频验货：实时视频连线查看成品 照片记录：发货前包装货物的详细照片 你们的保修政策是什么？ 我们的标准保修条款： 设备：发货之日起12-24个月 零部件：根据产品类型6-12个月 易损件：不在保修范围内 保修涵盖制造缺陷，不包括误用、安装不当或正常磨损造成的损坏。 你们如何处理质量问题或退货？ 我们认真对待质量问题，遵循结构化的解决流程： 报告：收货后7天内提交问题及照片/视频 评估：我们的QC团队评估索赔 解决：根据评估结果提供维修、更换或退款 预防：进行根本原因分析以防止再次发生 对于有效的索赔，我们承担更换费用，包括运费。退货需要我们的授权，并按具体情况处理。 你们提供技术支持吗？ 是的，我们提供全面的技术支持： 售前：应用工程和产品选型指导 安装：手册、视频和远程支持 运行：技术热线和邮件支持 培训：复杂设备可安排现场或在线培训 还有其他问题？ 如果您没有找到所需的答案，请随时联系我们： 电子邮件：联系我们的销售团队 电话：拨打我们的支持热线 在线客服：工作时间在线 询价表单：提交您的问题，我们将在24小时内回复","tags":[],"categories":[],"publishedAt":"2024-01-10","href":"/faq","filePath":"/content/pages/zh/faq.mdx","terms":{"title":["常","见","问","题","常见","见问","问题"],"tags":[],"body":["查","找","关","于","国","际","查找","找关","关于","于国","国际","b2b","贸","易","中","订","购","贸易","易中","中订","订购","付","款","付款","运","输","和","售","后","服","务","常","见","问","题","的","解","答","运输","输和","和售","售后","后服","服务","务常","常见","见问","问题","题的","的解","解答","与","采","购与","与采","采购","最","小","起","量","最小","小起","起订","订量","moq","是","多","少","是多","多少","我","们","我们","们的","因","产","品","类","别","而","异","因产","产品","品类","类别","别而","而异","大","数","工","业","设","备","大多","多数","数工","工业","业设","设备","备的","为","2","5","台","零","部","件","五","金","而零","零部","部件","件和","和五","五金","金件","件的","可","能","从","可能","能从","50","100","件起","请","看","各","页","面","了","具","体","请查","查看","看各","各产","品页","页面","面了","了解","解具","具体","要","求","要求","或","联","系","商","讨","试","单","特","殊","安","排","或联","联系","系我","们商","商讨","讨试","试订","订单","单的","的特","特殊","殊安","安排","批","前","以","先","申","样","吗","批量","量订","购前","前可","可以","以先","先申","申请","请样","样品","品吗","鼓","励","在","承","诺","进","行","评","估","们鼓","鼓励","励在","在承","承诺","诺大","大订","单前","前进","进行","行样","品评","评估","政","策","品政","政策","策因","品而","标","准","标准","准产","按","成","本","加","费","提","供","按产","品成","成本","本加","加运","运费","费提","提供","供样","定","制","定制","制产","收","取","能收","收取","取样","品费","通","抵","扣","项","通常","常可","可抵","抵扣","扣批","单款","款项","高","价","值","高价","价值","值产","厂","参","观","视","频","演","示","可安","排工","工厂","厂参","参观","观或","或视","视频","频演","演示","销","团","队","论","您","需","请联","的销","销售","售团","团队","队讨","讨论","论您","您的","的具","体样","品需","需求","如","何","获","报","如何","何获","获取","取报","报价","过","种","渠","道","您可","以通","通过","过多","多种","种渠","渠道","道获","线","询","表","在线","线询","询价","价表","填","写","任","意","格","填写","写任","任意","意产","面的","的询","表格","电","子","邮","电子","子邮","邮件","将","发","送","给","将您","的需","求发","发送","送给","给我","whatsapp","微","信","微信","直","接","代","直接","接联","售代","代表","规","请提","供产","品规","规格","所","所需","需数","数量","目","首","选","条","目的","的国","国和","和首","首选","选贸","易条","条款","便","得","确","以便","便获","获得","得最","最准","准确","确的","的报","品可","以按","按我","我的","的规","格定","制吗","们为","为大","数产","品线","线提","供定","制服","尺","寸","修","改","尺寸","寸修","修改","配","置","制尺","寸和","和配","配置","材","料","变","更","材料","料变","变更","适","用","环","境","替","适用","用于","于特","特定","定环","环境","境的","的替","替代","代材","牌","品牌","牌定","带","有","志","包","装","带有","有您","的标","标志","志和","和包","包装","装的","oem","odm","技","术","技术","术规","性","改性","性能","能参","参数","额","外","交","货","时","间","制通","常需","需要","要额","额外","外的","的交","交货","货时","时间","也","求也","也可","能更","更高","结","算","款与","与结","结算","你","受","哪","些","方","式","你们","们接","接受","受哪","哪些","些付","款方","方式","满","足","不","同","受多","种付","式以","以满","满足","足不","不同","同的","的业","业务","务需","处","理","处理","理时","汇","电汇","所有","有订","3","个","作","日","个工","工作","作日","证","信用","用证","新","合","新合","合作","作关","关系","按信","证条","paypal","小订","即","即时","西","西联","联汇","汇款","紧","急","紧急","急小","小额","额付","当","天","当天","什","么","准付","款条","款是","是什","什么","对","客","户","典","型","构","们对","对新","新客","客户","户的","的典","典型","型付","款结","结构","准订","30","定金","70","清","发货","货前","前付","付清","老","老客","根","据","灵","活","根据","据合","系灵","灵活","活安","良","好","记","录","对于","于有","有良","良好","好交","交易","易记","记录","录的","的合","合格","格客","优","惠","们可","以提","供更","更优","优惠","惠的","的条","60","账","期","天账","账期","全","的付","款安","安全","全吗","是的","保","障","们优","优先","先保","保障","障付","银","转","入","经","验","公","司","银行","行转","转账","账直","接汇","汇入","入我","们经","经验","验证","证的","的公","公司","司账","账户","誉","证交","易通","过信","信誉","誉良","好的","际银","行处","到","人","们从","从不","不要","求汇","款到","到个","个人","人账","都","正","票","凭","有交","易都","都有","有正","正式","式发","发票","票作","作为","为凭","凭证","地","币","以用","用我","我当","当地","地的","的货","货币","币付","款吗","主","美","元","开","们主","主要","要以","以美","美元","元开","开具","具发","但","符","欧","但对","于符","符合","合条","条件","的订","单可","以接","受欧","欧元","英","镑","民","英镑","镑或","或人","人民","民币","率","换","基","手","续","汇率","率转","转换","换基","基于","于当","当日","日银","行汇","率加","加少","少量","量手","手续","续费","物","流","物流","流与","与运","有哪","些运","输方","式可","可选","择","们提","供灵","活的","的运","输选","选择","海","海运","整","柜","整柜","拼","拼柜","济","单最","最经","经济","济的","的选","空","空运","轻","快","速","急或","或轻","轻量","量货","货物","物的","的快","快速","速交","交付","递","际快","快递","dhl","fedex","ups","于样","品和","和小","铁","路","铁路","路运","班","列","往","洲","比","案","过中","中欧","欧班","班列","列运","运往","往欧","欧洲","洲的","的高","高性","性价","价比","比方","方案","长","输需","要多","多长","长时","生","完","生产","产完","完成","成后","后的","型运","输时","的地","东","南","亚","东南","南亚","7","15","25","35","10","北","北美","20","中东","4","6","南美","45","办","们办","办理","理清","清关","关吗","准条","fob","cif","括","出","口","包括","括从","从中","中国","国的","的出","出口","口清","由","买","负","责","进口","关通","常由","由买","买方","方负","负责","但我","必","供所","有必","必要","要的","口单","单证","协","助","编","码","分","协助","助海","海关","关编","编码","码分","分类","推","荐","家","靠","推荐","荐您","您所","所在","在国","国家","家可","可靠","靠的","报关","关行","ddp","门","事","宜","们负","责门","门到","到门","门的","的所","有事","事宜","追","踪","何追","追踪","踪我","支","持","供全","全面","的追","踪支","支持","舱","认","订舱","舱确","确认","享","集","箱","号","时分","分享","享集","集装","装箱","箱号","运单","单号","线追","链","承运","运人","人追","踪门","门户","户链","链接","动","主动","动更","更新","知","键","里","程","碑","过邮","件通","通知","知关","关键","键里","里程","程碑","文","资","文件","件资","资料","递发","送提","提单","单和","和运","输单","单据","质","质量","量与","与售","的产","品有","些质","量认","认证","拥","相","品拥","拥有","有相","相关","关的","际认","ce","洲合","格认","iso","9001","管","量管","管理","理体","体系","rohs","害","限","有害","害物","物质","质限","限制","ul","美安","全认","部分","分产","行业","业特","定认","api","asme","等","如适","随","证文","件随","随货","货提","阶","段","应","可在","在报","价阶","阶段","段应","应要","求提","以验","验货","货吗","然","当然","然可","们支","持多","种验","货方","自","自行","行验","访","授","权","仓","库","到访","访我","的工","厂或","或授","授权","权仓","仓库","第","三","第三","三方","方验","sgs","维","指","机","必维","维或","或您","您指","指定","定的","的机","机构","频验","实","连","实时","时视","频连","连线","线查","看成","成品","照","片","照片","片记","详","细","前包","装货","的详","详细","细照","的保","保修","修政","策是","准保","修条","之","货之","之日","日起","12","24","月","个月","据产","类型","损","易损","损件","范","围","内","不在","在保","修范","范围","围内","涵","盖","造","缺","陷","修涵","涵盖","盖制","制造","造缺","缺陷","误","不包","括误","误用","磨","坏","安装","装不","不当","当或","或正","正常","常磨","磨损","损造","造成","成的","的损","损坏","退","们如","何处","理质","量问","题或","或退","退货","真","待","们认","认真","真对","对待","待质","遵","循","化","决","遵循","循结","构化","化的","解决","决流","流程","告","报告","收货","货后","及","天内","内提","提交","交问","题及","及照","qc","索","赔","队评","估索","索赔","果","据评","估结","结果","果提","供维","维修","更换","换或","退款","预","防","预防","原","析","止","再","次","行根","根本","本原","原因","因分","分析","析以","以防","防止","止再","再次","次发","发生","效","有效","效的","的索","担","们承","承担","担更","换费","费用","括运","货需","要我","的授","并","情","况","并按","按具","体情","情况","况处","供技","术支","持吗","的技","售前","导","应用","用工","工程","程和","和产","品选","选型","型指","指导","册","手册","远","频和","和远","远程","程支","运行","热","术热","热线","线和","和邮","件支","培","训","培训","复","杂","现","场","复杂","杂设","备可","排现","现场","场或","或在","线培","还","其","他","还有","有其","其他","他问","没","如果","果您","您没","没有","有找","找到","到所","需的","的答","答案","请随","随时","时联","话","电话","拨","打","拨打","打我","的支","持热","线客","客服","作时","间在","表单","交您","的问","们将","将在","回","小时","时内","内回","回复"]}},
+      {"id":"pages/zh/privacy","type":"pages","locale":"zh","slug":"privacy","title":"隐私政策","description":"了解[公司名称]如何收集、使用和保护您的个人信息。我们的隐私政策说明了您的权利和我们的数据处理实践。","content":"生效日期： 2024年1月1日 最后更新： 2024年4月1日 引言 [公司名称]（以下称\"我们\"）致力于保护您的隐私。本隐私政策说明当您访问我们的网站或使用我们的服务时，我们如何收集、使用、披露和保护您的信息。 请仔细阅读本隐私政策。如果您不同意本隐私政策的条款，请勿访问本网站。 我们收集的信息 您主动提供的信息 当您进行以下操作时，我们可能收集您自愿提供的信息： 填写询价或联系表单 请求报价 订阅我们的新闻通讯 创建账户 通过电子邮件、电话或在线聊天与我们沟通 这些信息可能包括： 联系信息：姓名、电子邮件地址、电话号码、公司名称、职位 业务信息：公司地址、行业、采购需求 通信记录：往来通信历史、询价详情 账户信息：用户名、密码（加密存储） 自动收集的信息 当您访问我们的网站时，我们会自动收集有关您设备和使用模式的某些信息： 设备信息：IP地址、浏览器类型、操作系统、设备标识符 使用数据：访问的页面、页面停留时间、点击模式、来源URL 位置数据：基于IP地址的国家和城市（非精确位置） Cookie和跟踪技术 我们使用Cookie和类似的跟踪技术来增强您的体验： Cookie类型 用途 有效期 必要性 网站功能 会话期间 偏好设置 记住您的设置 1年 分析 了解使用模式 2年 营销 个性化内容（如启用） 1年 您可以通过浏览器设置或我们的Cookie同意横幅控制Cookie偏好。 我们如何使用您的信息 我们将收集的信息用于以下目的： 业务运营 处理和回复您的询价 提供报价并促成订单 就产品和服务进行沟通 管理客户关系 网站改进 分析网站使用情况和性能 改善用户体验和导航 开发新功能和内容 排除技术问题 营销（经您同意） 发送新闻通讯和产品更新 提供个性化推荐 进行客户调查 法律与合规 遵守法律义务 防范欺诈和滥用 执行我们的服务条款 处理的法律依据（GDPR） 对于欧洲经济区（EEA）的用户，我们基于以下依据处理您的个人数据： 同意：当您选择接收营销通讯时 合同履行：为完成商业交易 合法利益：用于业务运营和网站改进 法律义务：遵守适用法律 信息共享与披露 我们不会出售您的个人信息。我们可能与以下方共享您的信息： 服务提供商 协助我们业务运营的第三方： 网站托管服务商 电子邮件服务提供商 分析服务 客户关系管理（CRM）系统 这些服务商在合同上有义务保护您的数据。 业务合作伙伴 经您同意，我们可能与以下方共享信息： 物流和运输合作伙伴（用于订单履行） 支付处理商（用于交易处理） 法律要求 在以下情况下，我们可能披露信息： 法院命令或法律程序 政府要求 保护我们的合法权益 涉及安全的紧急情况 国际数据传输 作为国际企业，您的数据可能被传输至并在您居住地以外的国家/地区处理，包括中国。我们实施适当的保障措施： 标准合同条款 数据处理协议 符合国际标准的安全措施 数据安全 我们实施行业标准的安全措施： 加密：数据传输使用SSL/TLS加密 访问控制：基于角色的数据访问权限 监控：定期安全审计和监控 员工培训：数据保护意识培训计划 然而，任何互联网传输方式都不是100%安全的。我们无法保证绝对安全。 数据保留 我们按以下期限保留您的个人信息： 活跃业务关系：关系存续期间加5年 询价数据：最后联系起2年 分析数据：26个月（汇总数据） 营销偏好：直至撤回同意 保留期限届满后，数据将被安全删除或匿名化处理。 您的隐私权利 所有用户 您有权： 访问：请求获取您个人数据的副本 更正：更新不准确的信息 删除：请求删除您的数据 反对：反对某些处理活动 可携带性：以可移植格式接收您的数据 欧洲经济区居民（GDPR） 额外权利包括： 随时撤回同意 向监管机构投诉 在特定情况下限制处理 加州居民（CCPA） 您有权： 了解收集了哪些个人信息 了解个人信息是否被出售或披露 拒绝出售个人信息 访问您的个人信息 获得平等的服务和价格（不受歧视） 如需行使这些权利，请使用以下信息联系我们。 儿童隐私 我们的网站不面向16岁以下的个人。我们不会故意收集儿童的个人信息。如果您认为我们收集了儿童的信息，请立即联系我们。 第三方链接 我们的网站可能包含第三方网站的链接。我们对这些外部网站的隐私实践不承担责任。我们建议您查阅它们的隐私政策。 本政策的变更 我们可能会定期更新本隐私政策。变更将在本页面发布，并更新\"最后更新\"日期。重大变更将通过电子邮件或网站通知告知您。 联系我们 如果您对本隐私政策有疑问或希望行使您的权利，请联系我们： 数据保护联系方式 [公司名称] 电子邮件：privacy@[公司域名].com 地址：[公司地址] 对于欧盟居民，您也可以联系我们的欧盟代表：[欧盟代表联系方式] 文档版本： 2.0 批准部门： 法务部 审核周期： 每年","tags":[],"categories":[],"publishedAt":"2024-01-01","href":"/privacy","filePath":"/content/pages/zh/privacy.mdx","terms":{"title":["隐","私","政","策","隐私","私政","政策"],"tags":[],"body":["了","解","了解","公","司","名","称","公司","司名","名称","如","何","收","集","如何","何收","收集","使","用","和","保","护","您","的","个","人","信","息","使用","用和","和保","保护","护您","您的","的个","个人","人信","信息","我","们","隐","私","政","策","说","明","权","利","数","据","处","理","实","践","我们","们的","的隐","隐私","私政","政策","策说","说明","明了","了您","的权","权利","利和","和我","的数","数据","据处","处理","理实","实践","生","效","日","期","生效","效日","日期","2024","年","1","月","最","后","更","新","最后","后更","更新","4","引","言","引言","以","下","以下","下称","致","力","于","致力","力于","于保","本","当","访","问","网","站","或","服","务","时","本隐","明当","当您","您访","访问","问我","的网","网站","站或","或使","用我","的服","服务","务时","们如","披","露","披露","露和","的信","请","仔","细","阅","读","请仔","仔细","细阅","阅读","读本","果","不","同","意","条","款","如果","果您","您不","不同","同意","意本","策的","的条","条款","勿","请勿","勿访","问本","本网","们收","集的","主","动","提","供","您主","主动","动提","提供","供的","进","行","操","作","您进","进行","行以","下操","操作","作时","可","能","自","愿","们可","可能","能收","集您","您自","自愿","愿提","填","写","询","价","联","系","表","单","填写","写询","询价","价或","或联","联系","系表","表单","求","报","请求","求报","报价","订","闻","通","讯","订阅","阅我","的新","新闻","闻通","通讯","创","建","账","户","创建","建账","账户","过","电","子","邮","件","通过","过电","电子","子邮","邮件","话","在","线","聊","天","与","沟","电话","话或","或在","在线","线聊","聊天","天与","与我","们沟","沟通","这","些","包","括","这些","些信","息可","能包","包括","系信","姓","姓名","地","址","件地","地址","号","码","话号","号码","职","位","职位","业","业务","务信","司地","行业","采","购","需","采购","购需","需求","记","录","通信","信记","记录","往","来","历","史","往来","来通","信历","历史","详","情","价详","详情","户信","用户","户名","密","密码","加","存","储","加密","密存","存储","自动","动收","站时","会","有","关","设","备","模","式","某","们会","会自","集有","有关","关您","您设","设备","备和","和使","用模","模式","式的","的某","某些","备信","ip","浏","览","器","类","型","浏览","览器","器类","类型","统","作系","系统","标","识","符","备标","标识","识符","用数","页","面","问的","的页","页面","停","留","间","面停","停留","留时","时间","点","击","点击","击模","源","来源","url","置","位置","置数","基","基于","国","家","城","市","址的","的国","国家","家和","和城","城市","非","精","确","非精","精确","确位","cookie","跟","踪","技","术","和跟","跟踪","踪技","技术","们使","似","增","强","体","验","和类","类似","似的","的跟","术来","来增","增强","强您","的体","体验","途","用途","有效","效期","必","要","性","必要","要性","功","站功","功能","会话","话期","期间","偏","好","偏好","好设","设置","住","记住","住您","的设","分","析","分析","解使","2","营","销","营销","化","内","容","个性","性化","化内","内容","启","如启","启用","您可","可以","以通","过浏","器设","置或","或我","横","幅","控","制","意横","横幅","幅控","控制","何使","用您","将","目","们将","将收","息用","用于","于以","下目","目的","运","务运","运营","回","复","理和","和回","回复","复您","的询","并","促","成","供报","价并","并促","促成","成订","订单","就","产","品","就产","产品","品和","和服","务进","行沟","管","客","管理","理客","客户","户关","关系","改","站改","改进","况","析网","站使","用情","情况","况和","和性","性能","善","导","航","改善","善用","户体","验和","和导","导航","开","发","开发","发新","新功","能和","和内","排","除","题","排除","除技","术问","问题","经","经您","您同","送","发送","送新","讯和","和产","品更","推","荐","供个","化推","推荐","调","查","行客","户调","调查","法","律","合","规","法律","律与","与合","合规","遵","守","义","遵守","守法","律义","义务","防","范","欺","诈","滥","防范","范欺","欺诈","诈和","和滥","滥用","执","执行","行我","务条","依","理的","的法","律依","依据","gdpr","对","欧","洲","济","区","对于","于欧","欧洲","洲经","经济","济区","eea","的用","们基","下依","理您","人数","选","择","接","您选","选择","择接","接收","收营","销通","讯时","履","合同","同履","履行","为","完","商","交","易","为完","完成","成商","商业","业交","交易","益","合法","法利","利益","于业","营和","和网","适","守适","适用","用法","共","享","息共","共享","享与","与披","出","售","们不","不会","会出","出售","售您","方","能与","与以","下方","方共","享您","务提","供商","协","助","第","三","协助","助我","们业","营的","的第","第三","三方","托","站托","托管","管服","务商","件服","析服","系管","crm","上","些服","商在","在合","同上","上有","有义","务保","伙","伴","务合","合作","作伙","伙伴","享信","物","流","输","物流","流和","和运","运输","输合","于订","单履","支","付","支付","付处","理商","于交","易处","律要","要求","在以","下情","况下","能披","露信","院","命","令","程","序","法院","院命","命令","令或","或法","律程","程序","府","政府","府要","护我","的合","法权","权益","涉","及","安","全","紧","急","涉及","及安","安全","全的","的紧","紧急","急情","际","传","国际","际数","据传","传输","企","作为","为国","际企","企业","被","至","居","外","据可","能被","被传","输至","至并","并在","在您","您居","居住","住地","地以","以外","外的","地区","区处","中","括中","中国","施","障","措","们实","实施","施适","适当","当的","的保","保障","障措","措施","准","标准","准合","同条","议","理协","协议","符合","合国","际标","准的","的安","全措","据安","施行","业标","输使","ssl","tls","问控","角","色","限","于角","角色","色的","据访","问权","权限","监","监控","定","审","计","定期","期安","全审","审计","计和","和监","员","工","培","训","员工","工培","培训","划","据保","护意","意识","识培","训计","计划","然","而","然而","任","互","都","是","任何","何互","互联","联网","网传","输方","方式","式都","都不","不是","100","无","证","绝","们无","无法","法保","保证","证绝","绝对","对安","保留","按","们按","按以","下期","期限","限保","留您","活","跃","活跃","跃业","务关","续","系存","存续","续期","间加","5","价数","起","后联","系起","析数","26","个月","汇","总","汇总","总数","销偏","直","撤","直至","至撤","撤回","回同","届","满","留期","限届","届满","满后","删","匿","据将","将被","被安","全删","删除","除或","或匿","匿名","名化","化处","私权","所","所有","有用","您有","有权","获","取","副","求获","获取","取您","您个","据的","的副","副本","正","更正","新不","不准","准确","确的","求删","除您","反","反对","对某","些处","理活","活动","携","带","可携","携带","带性","移","植","格","以可","可移","移植","植格","格式","式接","收您","民","区居","居民","额","额外","外权","利包","随","随时","时撤","向","机","构","投","诉","向监","监管","管机","机构","构投","投诉","特","在特","特定","定情","下限","限制","制处","州","加州","州居","ccpa","哪","解收","集了","了哪","哪些","些个","否","解个","息是","是否","否被","被出","售或","或披","拒","拒绝","绝出","售个","问您","得","平","等","获得","得平","平等","等的","务和","和价","价格","受","歧","视","不受","受歧","歧视","如需","需行","行使","使这","些权","请使","用以","下信","息联","系我","儿","童","儿童","童隐","站不","不面","面向","16","岁","岁以","下的","故","会故","故意","意收","集儿","童的","认","您认","认为","为我","了儿","立","即","请立","立即","即联","链","方链","链接","含","站可","包含","含第","方网","站的","的链","部","承","担","责","们对","对这","些外","外部","部网","私实","践不","不承","承担","担责","责任","它","们建","建议","议您","您查","查阅","阅它","它们","变","本政","的变","变更","能会","会定","期更","新本","布","更将","将在","在本","本页","面发","发布","并更","重","大","知","告","重大","大变","将通","件或","或网","站通","通知","知告","告知","知您","疑","希","望","您对","对本","策有","有疑","疑问","问或","或希","希望","望行","使您","请联","护联","系方","privacy","域","司域","域名","com","盟","欧盟","盟居","也","代","您也","也可","以联","的欧","盟代","代表","表联","文","档","版","文档","档版","版本","0","批","门","批准","准部","部门","法务","务部","核","周","审核","核周","周期","每","每年"]}},
+      {"id":"pages/zh/terms","type":"pages","locale":"zh","slug":"terms","title":"服务条款","description":"阅读我们的服务使用条款和产品采购条件。本条款规定了[公司名称]与客户之间的业务关系。","content":"生效日期： 2024年1月1日 最后更新： 2024年4月1日 引言 欢迎访问[公司名称]。本服务条款（以下简称\"条款\"）规定您访问和使用我们的网站、产品及服务的条件。访问我们的网站或与我们进行业务往来，即表示您同意受本条款的约束。 请在使用我们的服务前仔细阅读本条款。如果您不同意本条款，请勿使用我们的网站或服务。 条款接受 访问或使用我们的网站、下订单或与我们进行任何业务交易，即表示您确认已阅读、理解并同意受本条款及我们的隐私政策的约束。 如果您代表公司或其他法律实体签订本条款，您声明您有权使该实体受本条款约束。 服务说明 [公司名称]提供： 工业产品制造和出口 产品定制服务 技术咨询和支持 质量保证和认证服务 物流协调 详细的产品规格和服务内容可应要求提供。 订单与合同 询价与报价 所有询价应包括详细的规格和数量要求 报价有效期为30天，除非另有说明 价格可能根据市场条件和订单规格进行调整 订单确认 订单在以下情况下确认： 收到书面采购订单 我们开具形式发票（PI） 收到定金（如适用） 我们提供书面订单确认 合同成立 合同在我们书面接受您的订单时成立。订单变更需双方书面同意。 付款条款 接受的付款方式 方式 最低订单金额 处理时间 电汇（T/T） 无最低要求 1-3个工作日 信用证（L/C） 10,000美元以上 按信用证条款 付款交单（D/P） 个案处理 按银行条款 标准付款条款 定金：订单确认后支付30% 余款：发货前支付70%（电汇）或交单时支付（信用证） 自定义条款：信用记录良好的老客户可协商 逾期付款 逾期付款可能产生： 未付金额按每月1.5%计息 暂停待处理订单 未来订单需预付款 运输与交货 贸易术语（Incoterms® 2020） 我们通常采用以下贸易术语： FOB（离岸价）：指定装运港 CIF（成本加保险费加运费）：指定目的港 EXW（工厂交货）：我方工厂所在地 具体条款将在报价和合同中注明。 交货时间 标准交货期：订单确认后30-45天 定制订单：报价阶段提供时间表 交货日期为预估时间，不作保证 风险转移 货物灭失风险按照约定的贸易术语转移至买方。 保修与退换 产品保修 标准保修期：交货之日起12个月 保修范围仅限制造缺陷 不包括因误用、改装或不当存储造成的损坏 索赔流程 在交货后15天内提交书面索赔（外观缺陷） 在保修期内提交书面索赔（隐性缺陷） 根据要求提供照片、文件和样品 我们的质量团队将在10个工作日内进行调查 补救措施 我们将酌情： 修理或更换有缺陷的产品 提供未来订单的抵扣额度 退还受影响部分的款项（经确认为制造缺陷） 责任限制 最大责任 我们对任何索赔的总责任不超过您为引起索赔的特定产品或服务所支付的金额。 免责范围 我们不对以下情况负责： 间接、附带或后果性损害 利润损失或商机损失 不当使用造成的损害 不可抗力事件造成的延误 不可抗力 任何一方均不对超出合理控制范围的情况造成的延误或失败承担责任，包括但不限于： 自然灾害 战争、恐怖主义或内乱 政府行为或法规 流行病或疫情 航运或物流中断 知识产权 我方财产 我们网站上的所有内容，包括文字、图像、标志和产品设计，均为[公司名称]或其许可方的财产。 客户规格 客户提供的定制设计仍归客户所有 我们将对客户规格保密 定制产品的生产不会将设计权转让给我们 使用权 您不得： 未经书面许可复制我们的材料 对我们的产品进行逆向工程 未经授权使用我们的商标 保密条款 双方同意： 保护从对方收到的保密信息 仅将保密信息用于业务关系目的 未经同意不向第三方披露保密信息 保密义务在业务关系终止后5年内继续有效。 终止条款 任一方终止 任何一方可提前30天书面通知终止业务关系。 立即终止 在以下情况下，我们可立即终止： 发生付款违约 严重违反本条款 破产或清算程序 违反适用法律 终止效力 终止后： 所有未付款项立即到期 待处理订单可由我方酌情取消或完成 保密义务继续有效 适用法律与争议解决 适用法律 本条款受中华人民共和国法律管辖。 争议解决 协商：双方应首先通过善意协商解决争议 调解：如协商在30天内失败，双方可尝试调解 仲裁：未解决的争议应提交至： 中国国际经济贸易仲裁委员会（CIETAC） 规则：CIETAC仲裁规则 地点：香港或北京（双方协商） 语言：英文或中文（双方协商） 仲裁裁决为最终裁决，对双方均有约束力。 出口合规 法规 双方应遵守所有适用的出口管制法律法规，包括： 出口管理条例（EAR） 国际武器运输条例（ITAR） 适用的联合国和国家制裁 买方义务 买方保证： 产品不会用于禁止用途 产品不会违反出口法律再出口 买方未列入任何禁止交易名单 一般条款 完整协议 本条款连同任何报价、订单和书面协议，构成双方之间的完整协议。 可分割性 如任何条款被认定为无效或不可执行，其余条款将继续有效。 弃权 未能执行任何权利或条款不构成对该权利或条款的放弃。 转让 未经我方事先书面同意，您不得转让您的权利或义务。 修订 我们保留修改本条款的权利。变更将在发布到我们网站后生效。 联系方式 如对本服务条款有任何疑问： [公司名称] 邮箱：legal@[company-domain].com 地址：[公司地址] 订单相关咨询： 邮箱：sales@[company-domain].com 电话：[公司电话] 文件版本： 2.0 审批： 法务部 审核周期： 年度","tags":[],"categories":[],"publishedAt":"2024-01-01","href":"/terms","filePath":"/content/pages/zh/terms.mdx","terms":{"title":["服","务","条","款","服务","务条","条款"],"tags":[],"body":["阅","读","我","们","的","服","务","使","用","条","款","和","产","品","采","购","件","阅读","读我","我们","们的","的服","服务","务使","使用","用条","条款","款和","和产","产品","品采","采购","购条","条件","本","规","定","了","本条","款规","规定","定了","公","司","名","称","公司","司名","名称","与","客","户","之","间","业","关","系","与客","客户","户之","之间","间的","的业","业务","务关","关系","生","效","日","期","生效","效日","日期","2024","年","1","月","最","后","更","新","最后","后更","更新","4","引","言","引言","欢","迎","访","问","欢迎","迎访","访问","本服","务条","以","下","简","以下","下简","简称","您","网","站","定您","您访","问和","和使","用我","的网","网站","及","品及","及服","务的","的条","或","进","行","往","来","问我","站或","或与","与我","们进","进行","行业","务往","往来","即","表","示","同","意","受","约","束","即表","表示","示您","您同","同意","意受","受本","款的","的约","约束","请","在","前","仔","细","请在","在使","务前","前仔","仔细","细阅","读本","如","果","不","如果","果您","您不","不同","意本","勿","请勿","勿使","或服","接","款接","接受","问或","或使","订","单","任","何","交","易","下订","订单","单或","行任","任何","何业","务交","交易","确","认","已","您确","确认","认已","已阅","理","解","并","隐","私","政","策","理解","解并","并同","款及","及我","的隐","隐私","私政","政策","策的","代","其","他","法","律","实","体","签","您代","代表","表公","司或","或其","其他","他法","法律","律实","实体","体签","签订","订本","声","明","有","权","该","您声","声明","明您","您有","有权","权使","使该","该实","体受","款约","说","务说","说明","提","供","提供","工","制","造","出","口","工业","业产","品制","制造","造和","和出","出口","品定","定制","制服","技","术","咨","询","支","持","技术","术咨","咨询","询和","和支","支持","质","量","保","证","质量","量保","保证","证和","和认","认证","证服","物","流","协","调","物流","流协","协调","详","格","内","容","可","应","要","求","详细","细的","的产","品规","规格","格和","和服","务内","内容","容可","可应","应要","要求","求提","合","单与","与合","合同","价","报","询价","价与","与报","报价","所","包","括","数","所有","有询","价应","应包","包括","括详","的规","和数","数量","量要","为","价有","有效","效期","期为","30","天","除","非","另","除非","非另","另有","有说","能","根","据","市","场","整","价格","格可","可能","能根","根据","据市","市场","场条","件和","和订","单规","格进","行调","调整","单确","情","况","单在","在以","下情","情况","况下","下确","收","到","书","面","收到","到书","书面","面采","购订","开","具","形","式","发","票","们开","开具","具形","形式","式发","发票","pi","金","到定","定金","适","如适","适用","们提","供书","面订","成","立","同成","成立","时","同在","在我","们书","面接","受您","您的","的订","单时","时成","变","需","双","方","单变","变更","更需","需双","双方","方书","面同","付","付款","款条","受的","的付","款方","方式","低","额","最低","低订","单金","金额","处","处理","理时","时间","电","汇","电汇","无","无最","低要","3","个","作","个工","工作","作日","信","信用","用证","10","000","美","元","上","美元","元以","以上","按","按信","证条","款交","交单","案","个案","案处","银","按银","银行","行条","标","准","标准","准付","认后","后支","支付","余","余款","货","发货","货前","前支","70","或交","时支","自","义","自定","定义","义条","记","录","良","好","老","商","用记","记录","录良","良好","好的","的老","老客","户可","可协","协商","逾","逾期","期付","款可","能产","产生","未","每","未付","付金","额按","按每","每月","5","计","息","计息","暂","停","待","暂停","停待","待处","理订","预","未来","来订","单需","需预","预付","运","输","运输","输与","与交","交货","贸","语","贸易","易术","术语","incoterms","2020","通","常","们通","通常","常采","采用","用以","下贸","fob","离","岸","离岸","岸价","指","装","港","指定","定装","装运","运港","cif","加","险","费","成本","本加","加保","保险","险费","费加","加运","运费","目","定目","目的","的港","exw","厂","工厂","厂交","地","我方","方工","厂所","所在","在地","将","中","注","具体","体条","款将","将在","在报","价和","和合","同中","中注","注明","货时","准交","货期","45","制订","阶","段","价阶","阶段","段提","供时","间表","估","货日","为预","预估","估时","不作","作保","风","转","移","风险","险转","转移","灭","失","照","至","买","货物","物灭","灭失","失风","险按","按照","照约","约定","定的","的贸","语转","移至","至买","买方","修","退","换","保修","修与","与退","退换","品保","准保","修期","起","货之","之日","日起","12","个月","范","围","仅","限","缺","陷","修范","范围","围仅","仅限","限制","造缺","缺陷","因","误","不包","括因","因误","误用","改","当","存","储","损","坏","改装","装或","或不","不当","当存","存储","储造","造成","成的","的损","损坏","索","赔","程","索赔","赔流","流程","在交","货后","15","天内","内提","提交","交书","面索","外","观","外观","观缺","在保","期内","性","隐性","性缺","片","据要","供照","照片","文","样","文件","和样","样品","团","队","的质","量团","团队","队将","查","日内","内进","调查","补","救","措","施","补救","救措","措施","酌","们将","将酌","酌情","修理","理或","或更","更换","换有","有缺","陷的","抵","扣","度","供未","单的","的抵","抵扣","扣额","额度","还","影","响","部","分","项","退还","还受","受影","影响","响部","部分","分的","的款","款项","经","经确","认为","为制","责","责任","任限","大","最大","大责","对","总","超","过","特","们对","对任","何索","赔的","的总","总责","任不","不超","超过","过您","您为","为引","引起","起索","的特","特定","定产","品或","务所","所支","付的","的金","免","免责","责范","负","们不","不对","对以","况负","负责","间接","附","带","害","附带","带或","或后","后果","果性","性损","损害","利","润","机","利润","润损","损失","失或","或商","商机","机损","当使","用造","抗","力","事","延","不可","可抗","抗力","力事","事件","件造","的延","延误","一","均","控","败","承","担","何一","一方","方均","均不","对超","超出","出合","合理","理控","控制","制范","围的","的情","况造","误或","或失","失败","败承","承担","担责","但","于","括但","但不","不限","限于","然","灾","自然","然灾","灾害","战","争","战争","恐","怖","主","乱","恐怖","怖主","主义","义或","或内","内乱","府","政府","府行","行为","为或","或法","法规","病","疫","流行","行病","病或","或疫","疫情","航","断","航运","运或","或物","流中","中断","知","识","知识","识产","产权","财","方财","财产","们网","站上","上的","的所","有内","字","括文","文字","图","像","图像","志","设","标志","志和","品设","设计","均为","许","其许","许可","可方","方的","的财","户规","仍","归","户提","供的","的定","制设","计仍","仍归","归客","户所","密","将对","对客","格保","保密","会","让","给","制产","品的","的生","生产","产不","不会","会将","将设","计权","权转","转让","让给","给我","用权","得","不得","复","材","料","未经","经书","面许","可复","复制","制我","的材","材料","逆","向","对我","品进","行逆","逆向","向工","工程","授","经授","授权","的商","商标","密条","方同","护","从","保护","护从","从对","对方","方收","到的","的保","密信","信息","仅将","将保","息用","用于","于业","系目","第","三","披","露","经同","意不","不向","向第","第三","三方","方披","披露","露保","终","止","密义","义务","务在","在业","系终","终止","止后","继","续","年内","内继","继续","续有","止条","任一","方终","方可","可提","提前","天书","面通","通知","知终","止业","立即","即终","们可","可立","违","发生","生付","款违","违约","严","重","反","严重","重违","违反","反本","破","清","算","序","破产","产或","或清","清算","算程","程序","反适","用法","止效","效力","有未","项立","即到","到期","由","取","消","完","单可","可由","由我","方酌","情取","取消","消或","或完","完成","务继","议","决","律与","与争","争议","议解","解决","华","人","民","共","国","管","辖","款受","受中","中华","华人","人民","民共","共和","和国","国法","律管","管辖","首","先","善","方应","应首","首先","先通","通过","过善","善意","意协","商解","决争","调解","如协","商在","内失","尝","试","可尝","尝试","试调","仲","裁","仲裁","未解","决的","的争","议应","应提","交至","际","济","委","员","中国","国国","国际","际经","经济","济贸","易仲","裁委","委员","员会","cietac","则","规则","裁规","点","地点","香","北","京","香港","港或","或北","北京","方协","语言","英","英文","文或","或中","中文","裁裁","裁决","决为","为最","最终","终裁","对双","均有","有约","束力","口合","合规","遵","守","应遵","遵守","守所","有适","用的","的出","口管","管制","制法","律法","例","管理","理条","条例","ear","武","器","际武","武器","器运","输条","itar","联","家","的联","联合","合国","国和","国家","家制","制裁","方义","方保","禁","途","品不","会用","于禁","禁止","止用","用途","再","会违","反出","口法","律再","再出","列","入","方未","未列","列入","入任","何禁","止交","易名","名单","般","一般","般条","完整","整协","协议","连","款连","连同","同任","何报","单和","和书","面协","构","构成","成双","方之","的完","割","可分","分割","割性","被","执","如任","何条","款被","被认","认定","定为","为无","无效","效或","可执","执行","其余","余条","将继","弃","弃权","放","未能","能执","何权","权利","利或","或条","款不","不构","成对","对该","该权","的放","放弃","经我","方事","事先","先书","得转","让您","的权","或义","修订","留","们保","保留","留修","修改","改本","布","更将","在发","发布","布到","到我","站后","后生","联系","系方","疑","如对","对本","款有","有任","何疑","疑问","邮","箱","邮箱","legal","company","domain","com","址","地址","司地","相","单相","相关","关咨","sales","话","电话","司电","版","件版","版本","2","0","审","批","审批","法务","务部","核","周","审核","核周","周期","年度"]}},
+      {"id":"posts/zh/welcome","type":"posts","locale":"zh","slug":"welcome","title":"欢迎使用 B2B Web Template","description":"探索现代网络开发的强大功能，我们的企业级 Next.js 模板集成了 React 19、TypeScript 和 Tailwind CSS。","content":"欢迎使用 B2B Web Template 我们很高兴向您介绍 B2B Web Template，这是一个采用最新技术和最佳实践构建的前沿企业网络模板。该模板代表了现代网络开发的巅峰，结合了性能、可扩展性和开发者体验。 本模板的独特之处 现代技术栈 我们的模板建立在行业领先技术的基础上： Next.js 16 - 生产级 React 框架 React 19 - 具有并发特性的最新版本 TypeScript 5 - 类型安全和增强的开发体验 Tailwind CSS 4 - 实用优先的 CSS 框架 国际化就绪 专为全球企业设计： 双语支持 - 英文和中文本地化 RTL 支持 - 为从右到左的语言做好准备 文化适应 - 特定地区的格式和内容 企业设计系统 一致的 UI 组件 - 基于 Radix UI 原语构建 深色/浅色主题 - 自动系统偏好检测 响应式设计 - 移动优先方法 无障碍性 - 符合 WCAG 2.1 AA 标准 核心特性 性能优化 类型安全开发 每个组件、工具和配置都是完全类型化的，确保： 编译时错误检测 增强的 IDE 支持 重构安全性 通过类型进行文档化 企业安全 内容安全策略 - 为生产环境配置 安全头 - OWASP 推荐的头部 依赖扫描 - 自动漏洞检测 代码质量门 - ESLint、Prettier 和自定义规则 快速开始 快速设置 克隆仓库 bash git clone https://github.com/Alx-707/b2b-web-template cd B2B Web Template 安装依赖 bash pnpm install 启动开发服务器 bash pnpm dev --turbo 配置 模板提供了合理的默认设置，但您可以自定义一切： 品牌 - 更新颜色、字体和标志 内容 - 添加您自己的页面和博客文章 集成 - 连接您的分析、CMS 和服务 架构亮点 组件结构 内容管理 我们基于 MDX 的内容系统提供： 类型安全内容 - 验证的前置元数据 丰富媒体支持 - 图像、视频和嵌入 SEO 优化 - 自动元标签生成 多语言 - 无缝 i18n 集成 下一步计划 这只是开始。我们正在持续改进模板： 新组件 - 扩展设计系统 性能增强 - 针对核心网络指标优化 开发者工具 - 更好的调试和开发体验 社区贡献 - 开源协作 加入我们的社区 我们相信社区驱动开发的力量。以下是您可以参与的方式： GitHub 讨论 - 分享想法和提问 问题跟踪 - 报告错误和请求功能 拉取请求 - 贡献代码改进 文档 - 帮助改进我们的指南 准备好构建令人惊叹的项目了吗？立即开始使用 B2B Web Template，体验企业网络开发的未来。 _编程愉快！_","tags":["Next.js","React","TypeScript","企业级","网络开发"],"categories":["技术","网络开发"],"publishedAt":"2024-01-15","href":"/blog/welcome","filePath":"/content/posts/zh/welcome.mdx","terms":{"title":["欢","迎","使","用","欢迎","迎使","使用","b2b","web","template"],"tags":["next","js","react","typescript","企","业","级","企业","业级","网","络","开","发","网络","络开","开发","技","术","技术"],"body":["探","索","现","代","网","络","开","发","的","强","大","功","能","探索","索现","现代","代网","网络","络开","开发","发的","的强","强大","大功","功能","我","们","企","业","级","我们","们的","的企","企业","业级","next","js","模","板","集","成","了","模板","板集","集成","成了","react","19","typescript","和","tailwind","css","欢","迎","使","用","欢迎","迎使","使用","b2b","web","template","很","高","兴","向","您","介","绍","们很","很高","高兴","兴向","向您","您介","介绍","这","是","一","个","采","最","新","技","术","佳","实","践","构","建","前","沿","这是","是一","一个","个采","采用","用最","最新","新技","技术","术和","和最","最佳","佳实","实践","践构","构建","建的","的前","前沿","沿企","业网","络模","该","表","巅","峰","该模","板代","代表","表了","了现","的巅","巅峰","结","合","性","结合","合了","了性","性能","可","扩","展","者","体","验","可扩","扩展","展性","性和","和开","发者","者体","体验","本","独","特","之","处","本模","板的","的独","独特","特之","之处","栈","代技","术栈","立","在","行","领","先","基","础","上","的模","板建","建立","立在","在行","行业","业领","领先","先技","术的","的基","基础","础上","16","生","产","生产","产级","框","架","框架","具","有","并","版","具有","有并","并发","发特","特性","性的","的最","新版","版本","5","类","型","安","全","增","类型","型安","安全","全和","和增","增强","强的","的开","发体","4","优","实用","用优","优先","先的","国","际","化","就","绪","国际","际化","化就","就绪","专","为","球","设","计","专为","为全","全球","球企","业设","设计","双","语","支","持","双语","语支","支持","英","文","中","地","英文","文和","和中","中文","文本","本地","地化","rtl","从","右","到","左","言","做","好","准","备","为从","从右","右到","到左","左的","的语","语言","言做","做好","好准","准备","适","应","文化","化适","适应","定","区","格","式","内","容","特定","定地","地区","区的","的格","格式","式和","和内","内容","系","统","计系","系统","致","一致","致的","ui","组","件","组件","于","基于","radix","原","原语","语构","深","色","深色","浅","主","题","浅色","色主","主题","自","动","偏","检","测","自动","动系","统偏","偏好","好检","检测","响","响应","应式","式设","移","方","法","移动","动优","先方","方法","无","障","碍","无障","障碍","碍性","符","符合","wcag","2","1","aa","标","标准","核","心","核心","心特","能优","优化","全开","每","每个","个组","工","配","置","都","完","工具","具和","和配","配置","置都","都是","是完","完全","全类","型化","化的","确","保","确保","编","译","时","错","误","编译","译时","时错","错误","误检","ide","重","重构","构安","全性","通","过","进","档","通过","过类","型进","进行","行文","文档","档化","业安","策","略","容安","全策","策略","环","境","为生","产环","环境","境配","头","全头","owasp","推","荐","部","推荐","荐的","的头","头部","依","赖","扫","描","依赖","赖扫","扫描","漏","洞","动漏","漏洞","洞检","码","质","量","门","代码","码质","质量","量门","eslint","prettier","义","规","则","和自","自定","定义","义规","规则","快","速","始","快速","速开","开始","速设","设置","克","隆","仓","库","克隆","隆仓","仓库","bash","git","clone","https","github","com","alx","707","cd","装","安装","装依","pnpm","install","启","服","务","器","启动","动开","发服","服务","务器","dev","turbo","提","供","理","默","认","板提","提供","供了","了合","合理","理的","的默","默认","认设","但","以","切","但您","您可","可以","以自","义一","一切","品","牌","品牌","更","颜","更新","新颜","颜色","字","志","字体","体和","和标","标志","添","加","己","页","面","博","客","章","添加","加您","您自","自己","己的","的页","页面","面和","和博","博客","客文","文章","连","接","分","析","连接","接您","您的","的分","分析","cms","和服","亮","点","架构","构亮","亮点","件结","结构","管","容管","管理","们基","mdx","的内","容系","统提","全内","证","元","数","据","验证","证的","前置","置元","元数","数据","丰","富","媒","丰富","富媒","媒体","体支","图","像","图像","视","频","嵌","入","视频","频和","和嵌","嵌入","seo","签","动元","元标","标签","签生","生成","多","多语","缝","无缝","i18n","下","步","划","下一","一步","步计","计划","只","这只","只是","是开","正","续","改","们正","正在","在持","持续","续改","改进","进模","新组","展设","能增","针","对","指","针对","对核","心网","络指","指标","标优","者工","调","试","更好","好的","的调","调试","试和","社","贡","献","社区","区贡","贡献","源","协","作","开源","源协","协作","加入","入我","的社","相","信","驱","力","们相","相信","信社","区驱","驱动","的力","力量","参","与","以下","下是","是您","以参","参与","与的","的方","方式","讨","论","讨论","享","想","问","分享","享想","想法","法和","和提","提问","跟","踪","问题","题跟","跟踪","报","告","请","求","报告","告错","误和","和请","请求","求功","拉","取","拉取","取请","献代","码改","帮","助","南","帮助","助改","进我","的指","指南","令","人","惊","叹","项","目","吗","备好","好构","建令","令人","人惊","惊叹","叹的","的项","项目","目了","了吗","即","立即","即开","始使","未","来","验企","的未","未来","程","愉","编程","程愉","愉快"]}},
+      {"id":"products/zh/sample-product","type":"products","locale":"zh","slug":"sample-product","title":"示例产品","description":"这是一个示例产品占位符。请替换为您的实际产品内容。","content":"示例产品 这是一个占位产品页面。请将此内容替换为您的实际产品信息。 特性 特性 1 特性 2 特性 3 规格 请替换为实际产品规格。","tags":[],"categories":["示例"],"publishedAt":"2024-01-01","href":"/products/sample-product","filePath":"/content/products/zh/sample-product.mdx","terms":{"title":["示","例","产","品","示例","例产","产品"],"tags":["示","例","示例"],"body":["这","是","一","个","示","例","产","品","占","位","符","这是","是一","一个","个示","示例","例产","产品","品占","占位","位符","请","替","换","为","您","的","实","际","内","容","请替","替换","换为","为您","您的","的实","实际","际产","品内","内容","页","面","个占","位产","品页","页面","将","此","信","息","请将","将此","此内","容替","品信","信息","特","性","特性","1","2","3","规","格","规格","为实","品规"]}},
+    ],
+  },
+};
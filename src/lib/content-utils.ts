@@ -52,6 +52,7 @@ const DEFAULT_CONFIG: ContentConfig = {
   postsPerPage: COUNT_TEN,
   enableDrafts: resolveDraftsEnabled(),
   enableSearch: true,
+  feedContent: 'full',
   enableComments: false,
   autoGenerateExcerpt: true,
   excerptLength: COUNT_160,
@@ -59,6 +60,15 @@ const DEFAULT_CONFIG: ContentConfig = {
   timeZone: 'UTC',
 };
 
+function resolveFeedContent(
+  value: unknown,
+  baseConfig: ContentConfig,
+): ContentConfig['feedContent'] {
+  return value === 'full' || value === 'excerpt'
+    ? value
+    : baseConfig.feedContent;
+}
+
 /**
  * Merge content configuration using an explicit field whitelist.
  *
@@ -77,6 +87,7 @@ function mergeContentConfig(
     postsPerPage: override.postsPerPage ?? baseConfig.postsPerPage,
     enableDrafts: resolveDraftsEnabled(override.enableDrafts),
     enableSearch: override.enableSearch ?? baseConfig.enableSearch,
+    feedContent: resolveFeedContent(override.feedContent, baseConfig),
     autoGenerateExcerpt:
       override.autoGenerateExcerpt ?? baseConfig.autoGenerateExcerpt,
     excerptLength: override.excerptLength ?? baseConfig.excerptLength,
@@ -0,0 +1,232 @@
+/**
+ * Blog taxonomy archives
+ *
+ * Groups published posts by tag, category and author for the archive pages
+ * under `/blog/{tag,category,author}/[slug]`.
+ *
+ * Term slugs are derived from the localized frontmatter values
+ * (`Web Development` → `web-development`, `网络开发` → `网络开发`), so every
+ * locale keeps its own archive URLs. Two locales share an archive only when
+ * they use the same term.
+ *
+ * Archive pages are paginated through the regular content query
+ * (`limit`/`offset` → `paginatePosts`), using `postsPerPage` from the
+ * content config.
+ */
+
+import { cacheLife, cacheTag } from 'next/cache';
+import type {
+  Locale,
+  PostListOptions,
+  PostSummary,
+} from '@/types/content.types';
+import { getAllPostsCached } from '@/lib/content/blog';
+import { contentTags } from '@/lib/cache/cache-tags';
+import { getContentConfig } from '@/lib/content-utils';
+import {
+  FIRST_PAGE,
+  getPageOffset,
+  getPaginatedPath,
+  getTotalPages,
+  isValidPage,
+} from '@/lib/pagination';
+import { ONE } from '@/constants';
+
+export type BlogArchiveKind = 'tag' | 'category' | 'author';
+
+export const BLOG_ARCHIVE_KINDS: readonly BlogArchiveKind[] = [
+  'tag',
+  'category',
+  'author',
+];
+
+export interface BlogTaxonomyTerm {
+  kind: BlogArchiveKind;
+  slug: string;
+  /** Display name (first spelling seen in the newest post) */
+  name: string;
+  /** Every frontmatter spelling that maps to `slug` */
+  names: string[];
+  /** Number of published posts using the term */
+  count: number;
+  /** Latest `updatedAt`/`publishedAt` among those posts */
+  lastModified: string;
+}
+
+export interface BlogArchiveQuery {
+  kind: BlogArchiveKind;
+  slug: string;
+  /** 1-based page number (default: 1) */
+  page?: number;
+}
+
+export interface BlogArchivePage {
+  term: BlogTaxonomyTerm;
+  posts: PostSummary[];
+  currentPage: number;
+  totalPages: number;
+  /** Zero-based index of the first post on this page */
+  offset: number;
+}
+
+/**
+ * Turn a localized term into a URL slug.
+ *
+ * Keeps letters and digits of every script so Chinese terms stay readable;
+ * everything else collapses into single dashes.
+ */
+export function slugifyTaxonomyTerm(term: string): string {
+  return term
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Path of an archive page without the locale prefix.
+ */
+export function getBlogArchivePath(
+  kind: BlogArchiveKind,
+  slug: string,
+  page: number = FIRST_PAGE,
+): string {
+  return getPaginatedPath(`/blog/${kind}/${encodeURIComponent(slug)}`, page);
+}
+
+function getPostTerms(post: PostSummary, kind: BlogArchiveKind): string[] {
+  switch (kind) {
+    case 'tag':
+      return post.tags ?? [];
+    case 'category':
+      return post.categories ?? [];
+    case 'author':
+      return post.author !== undefined ? [post.author] : [];
+    default:
+      return [];
+  }
+}
+
+function getPostLastModified(post: PostSummary): string {
+  return post.updatedAt ?? post.publishedAt;
+}
+
+function addPostToTerm(
+  terms: Map<string, BlogTaxonomyTerm>,
+  post: PostSummary,
+  term: { kind: BlogArchiveKind; name: string },
+): void {
+  const slug = slugifyTaxonomyTerm(term.name);
+  if (slug === '') return;
+
+  const lastModified = getPostLastModified(post);
+  const existing = terms.get(slug);
+
+  if (existing === undefined) {
+    terms.set(slug, {
+      kind: term.kind,
+      slug,
+      name: term.name,
+      names: [term.name],
+      count: ONE,
+      lastModified,
+    });
+    return;
+  }
+
+  existing.count += ONE;
+  if (!existing.names.includes(term.name)) existing.names.push(term.name);
+  if (lastModified > existing.lastModified) {
+    existing.lastModified = lastModified;
+  }
+}
+
+/**
+ * Collect the terms of one taxonomy, most used first.
+ *
+ * Spellings that produce the same slug (e.g. `Next.js` and `next js`) are
+ * merged into one term.
+ */
+export function collectTaxonomyTerms(
+  posts: PostSummary[],
+  kind: BlogArchiveKind,
+): BlogTaxonomyTerm[] {
+  const terms = new Map<string, BlogTaxonomyTerm>();
+
+  for (const post of posts) {
+    for (const name of new Set(getPostTerms(post, kind))) {
+      addPostToTerm(terms, post, { kind, name });
+    }
+  }
+
+  return [...terms.values()].sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name),
+  );
+}
+
+function getTermQueryOptions(term: BlogTaxonomyTerm): PostListOptions {
+  switch (term.kind) {
+    case 'tag':
+      return { tags: term.names };
+    case 'category':
+      return { categories: term.names };
+    case 'author':
+      return { authors: term.names };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Get all terms of a taxonomy for a locale.
+ *
+ * Cache tags:
+ * - `content:list:blog:{locale}` - Invalidated together with the blog list
+ */
+export async function getBlogTaxonomyCached(
+  locale: Locale,
+  kind: BlogArchiveKind,
+): Promise<BlogTaxonomyTerm[]> {
+  'use cache';
+  cacheLife('days');
+  cacheTag(contentTags.blogList(locale));
+
+  const posts = await getAllPostsCached(locale, { draft: false });
+
+  return collectTaxonomyTerms(posts, kind);
+}
+
+/**
+ * Get one page of an archive, or `null` when the term or page does not exist.
+ *
+ * Cache tags:
+ * - `content:list:blog:{locale}` - Invalidated together with the blog list
+ */
+export async function getBlogArchivePageCached(
+  locale: Locale,
+  { kind, slug, page = FIRST_PAGE }: BlogArchiveQuery,
+): Promise<BlogArchivePage | null> {
+  'use cache';
+  cacheLife('days');
+  cacheTag(contentTags.blogList(locale));
+
+  const terms = await getBlogTaxonomyCached(locale, kind);
+  const term = terms.find((candidate) => candidate.slug === slug);
+  if (term === undefined) return null;
+
+  const { postsPerPage } = getContentConfig();
+  const totalPages = getTotalPages(term.count, postsPerPage);
+  if (!isValidPage(page, totalPages)) return null;
+
+  const offset = getPageOffset(page, postsPerPage);
+  const posts = await getAllPostsCached(locale, {
+    ...getTermQueryOptions(term),
+    sortBy: 'publishedAt',
+    sortOrder: 'desc',
+    draft: false,
+    limit: postsPerPage,
+    offset,
+  });
+
+  return { term, posts, currentPage: page, totalPages, offset };
+}
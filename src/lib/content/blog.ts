@@ -24,8 +24,20 @@ import type {
   PostListOptions,
   PostSummary,
 } from '@/types/content.types';
-import { getAllPosts, getPostBySlug } from '@/lib/content-query';
+import {
+  getAllPosts,
+  getPostBySlug,
+  paginatePosts,
+} from '@/lib/content-query';
 import { contentTags } from '@/lib/cache/cache-tags';
+import { getContentConfig } from '@/lib/content-utils';
+import {
+  FIRST_PAGE,
+  getPageOffset,
+  getTotalPages,
+  isValidPage,
+  type ListingPage,
+} from '@/lib/pagination';
 
 /**
  * Assign optional metadata fields to summary
@@ -37,6 +49,7 @@ function assignOptionalSummaryFields(
 ): void {
   if (metadata.description !== undefined) summary.description = metadata.description;
   if (metadata.updatedAt !== undefined) summary.updatedAt = metadata.updatedAt;
+  if (metadata.author !== undefined) summary.author = metadata.author;
   if (metadata.tags !== undefined) summary.tags = metadata.tags;
   if (metadata.categories !== undefined) summary.categories = metadata.categories;
   if (metadata.featured !== undefined) summary.featured = metadata.featured;
@@ -72,6 +85,7 @@ function mapBlogPostToSummary(post: BlogPost, locale: Locale): PostSummary {
 function copyOptionalFieldsToDetail(detail: PostDetail, summary: PostSummary): void {
   if (summary.description !== undefined) detail.description = summary.description;
   if (summary.updatedAt !== undefined) detail.updatedAt = summary.updatedAt;
+  if (summary.author !== undefined) detail.author = summary.author;
   if (summary.tags !== undefined) detail.tags = summary.tags;
   if (summary.categories !== undefined) detail.categories = summary.categories;
   if (summary.featured !== undefined) detail.featured = summary.featured;
@@ -105,6 +119,18 @@ function mapBlogPostToDetail(post: BlogPost, locale: Locale): PostDetail {
   return detail;
 }
 
+/**
+ * Copy tag, category and author filters to query options
+ */
+function assignTaxonomyFilters(
+  normalized: ContentQueryOptions,
+  options: PostListOptions,
+): void {
+  if (options.tags !== undefined) normalized.tags = options.tags;
+  if (options.categories !== undefined) normalized.categories = options.categories;
+  if (options.authors !== undefined) normalized.authors = options.authors;
+}
+
 function toContentQueryOptions(options?: PostListOptions): ContentQueryOptions {
   if (!options) {
     return {};
@@ -128,13 +154,7 @@ function toContentQueryOptions(options?: PostListOptions): ContentQueryOptions {
     normalized.sortOrder = options.sortOrder;
   }
 
-  if (options.tags !== undefined) {
-    normalized.tags = options.tags;
-  }
-
-  if (options.categories !== undefined) {
-    normalized.categories = options.categories;
-  }
+  assignTaxonomyFilters(normalized, options);
 
   if (options.featured !== undefined) {
     normalized.featured = options.featured;
@@ -171,6 +191,46 @@ export const getAllPostsCached: GetAllPostsCachedFn = async (
   return posts.map((post) => mapBlogPostToSummary(post, locale));
 };
 
+/**
+ * Get one page of the published blog listing, newest first, or `null` when
+ * the page does not exist. Page size is `postsPerPage` from the content
+ * config.
+ *
+ * Cache tags enable selective invalidation:
+ * - `content:list:blog:{locale}` - Invalidate blog list for this locale
+ */
+export async function getPostListingPageCached(
+  locale: Locale,
+  page: number = FIRST_PAGE,
+): Promise<ListingPage<PostSummary> | null> {
+  'use cache';
+  cacheLife('days');
+  cacheTag(contentTags.blogList(locale));
+
+  const posts = await Promise.resolve(
+    getAllPosts(locale, {
+      sortBy: 'publishedAt',
+      sortOrder: 'desc',
+      draft: false,
+    }),
+  );
+
+  const { postsPerPage } = getContentConfig();
+  const totalPages = getTotalPages(posts.length, postsPerPage);
+  if (!isValidPage(page, totalPages)) return null;
+
+  const offset = getPageOffset(page, postsPerPage);
+  const items = paginatePosts(posts, { limit: postsPerPage, offset });
+
+  return {
+    items: items.map((post) => mapBlogPostToSummary(post, locale)),
+    currentPage: page,
+    totalPages,
+    totalItems: posts.length,
+    offset,
+  };
+}
+
 /**
  * Get a single blog post by slug as a PostDetail model.
  *
@@ -29,6 +29,14 @@ import {
   getFeaturedProducts,
 } from '@/lib/content/products-source';
 import { productTags } from '@/lib/cache/cache-tags';
+import { getContentConfig } from '@/lib/content-utils';
+import {
+  FIRST_PAGE,
+  getPageOffset,
+  getTotalPages,
+  isValidPage,
+  type ListingPage,
+} from '@/lib/pagination';
 
 /**
  * Map a ProductDetail to a ProductSummary (list view).
@@ -101,6 +109,39 @@ export const getAllProductsCached: GetAllProductsCachedFn = async (locale, optio
   return filtered.map((product) => mapProductDetailToSummary(product));
 };
 
+/**
+ * Get one page of the product listing, or `null` when the page does not exist.
+ * Page size is `postsPerPage` from the content config, shared with the blog.
+ *
+ * Cache tags enable selective invalidation:
+ * - `product:list:all:{locale}` - Invalidate product list
+ */
+export async function getProductListingPageCached(
+  locale: Locale,
+  page: number = FIRST_PAGE,
+): Promise<ListingPage<ProductSummary> | null> {
+  'use cache';
+  cacheLife('days');
+  cacheTag(productTags.list(locale));
+
+  const products = await Promise.resolve(getProductListing(locale));
+
+  const { postsPerPage } = getContentConfig();
+  const totalPages = getTotalPages(products.length, postsPerPage);
+  if (!isValidPage(page, totalPages)) return null;
+
+  const offset = getPageOffset(page, postsPerPage);
+  const items = products.slice(offset, offset + postsPerPage);
+
+  return {
+    items: items.map((product) => mapProductDetailToSummary(product)),
+    currentPage: page,
+    totalPages,
+    totalItems: products.length,
+    offset,
+  };
+}
+
 /**
  * Get a single product by slug as a ProductDetail model.
  *
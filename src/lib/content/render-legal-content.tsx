@@ -3,9 +3,17 @@
  *
  * Renders MDX legal content (Terms, Privacy) into React elements.
  * Supports headings, lists, tables, and inline bold text.
+ *
+ * Headings get the same anchor ids as the table of contents extracted by
+ * `pnpm content:manifest`.
  */
 
 import type { ReactNode } from 'react';
+import {
+  createHeadingSlugger,
+  getHeadingText,
+} from '@/lib/content/table-of-contents';
+import { HeadingAnchor } from '@/components/mdx/heading-anchor';
 
 /** Magic number: slice offset for removing ** wrapper from bold text */
 const BOLD_WRAPPER_LENGTH = 2;
@@ -13,18 +21,6 @@ const H2_PREFIX_LENGTH = 3;
 const H3_PREFIX_LENGTH = 4;
 const LIST_ITEM_PREFIX_LENGTH = 2;
 
-export function slugifyHeading(text: string): string {
-  const trimmed = text.trim();
-  if (trimmed === '') {
-    return '';
-  }
-
-  return trimmed
-    .toLowerCase()
-    .replace(/[^a-z0-9\u4e00-\u9fff\s-]/g, '')
-    .replace(/\s+/g, '-');
-}
-
 interface RenderState {
   elements: ReactNode[];
   listItems: string[];
@@ -32,6 +28,8 @@ interface RenderState {
   tableHeaders: string[];
   inTable: boolean;
   index: number;
+  /** Per-document heading id generator */
+  slug: (text: string) => string;
 }
 
 function createListElement(state: RenderState): ReactNode | null {
@@ -185,14 +183,15 @@ function handleListLine(state: RenderState, trimmed: string): boolean {
 /** Render H2 heading */
 function renderH2(state: RenderState, trimmed: string): void {
   const text = trimmed.slice(H2_PREFIX_LENGTH).trim();
-  const id = slugifyHeading(text);
+  const id = state.slug(getHeadingText(text));
   state.elements.push(
     <h2
-      key={`h2-${id || state.index}`}
-      id={id || undefined}
-      className='mt-8 scroll-mt-24 text-xl font-semibold tracking-tight text-foreground first:mt-0'
+      key={`h2-${id}`}
+      id={id}
+      className='group mt-8 scroll-mt-24 text-xl font-semibold tracking-tight text-foreground first:mt-0'
     >
       {text}
+      <HeadingAnchor id={id} />
     </h2>,
   );
   state.index += 1;
@@ -201,14 +200,15 @@ function renderH2(state: RenderState, trimmed: string): void {
 /** Render H3 heading */
 function renderH3(state: RenderState, trimmed: string): void {
   const text = trimmed.slice(H3_PREFIX_LENGTH).trim();
-  const id = slugifyHeading(text);
+  const id = state.slug(getHeadingText(text));
   state.elements.push(
     <h3
-      key={`h3-${id || state.index}`}
-      id={id || undefined}
-      className='mt-6 scroll-mt-24 text-base font-semibold text-foreground'
+      key={`h3-${id}`}
+      id={id}
+      className='group mt-6 scroll-mt-24 text-base font-semibold text-foreground'
     >
       {text}
+      <HeadingAnchor id={id} />
     </h3>,
   );
   state.index += 1;
@@ -261,6 +261,7 @@ export function renderLegalContent(content: string): ReactNode {
     tableHeaders: [],
     inTable: false,
     index: 0,
+    slug: createHeadingSlugger(),
   };
 
   for (const line of lines) {
@@ -0,0 +1,113 @@
+/**
+ * Heading anchors and table of contents
+ *
+ * Shared by `scripts/generate-content-manifest.ts` (TOC extraction), the MDX
+ * heading components and the legal page renderer, so a TOC link always
+ * points at the id its heading is rendered with. Kept free of `fs` so it can
+ * be unit tested.
+ *
+ * Ids follow GitHub's style: lowercase text with punctuation dropped and
+ * whitespace turned into dashes. Letters of every script are kept, so
+ * `## 付款条款` becomes `#付款条款`. Repeated headings get `-1`, `-2`, …
+ * suffixes in document order.
+ */
+
+import type { TocEntry } from '@/types/content.types';
+
+/** Headings that receive anchors (`h1`–`h3` in `mdx-components.tsx`) */
+const MAX_ANCHORED_DEPTH = 3;
+/** Headings listed in the TOC; `h1` is the document title */
+const MIN_TOC_DEPTH = 2;
+
+const FALLBACK_SLUG = 'section';
+
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*)$/;
+/** Optional closing sequence: `## Title ##` */
+const ATX_CLOSING_PATTERN = /[ \t]#+[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Inline markup removed or unwrapped from heading text, applied in order */
+const INLINE_CLEANUPS: ReadonlyArray<[RegExp, string]> = [
+  [/<\/?[A-Za-z][^>]*>/g, ''],
+  [/!\[([^\]]*)\]\([^)]*\)/g, '$1'],
+  [/\[([^\]]+)\]\([^)]*\)/g, '$1'],
+  [/(\*{1,2}|_{2}|~{2}|`)/g, ''],
+  [/\s+/g, ' '],
+];
+
+/**
+ * Plain text of a markdown heading, as React renders it.
+ */
+export function getHeadingText(markdown: string): string {
+  return INLINE_CLEANUPS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    markdown,
+  ).trim();
+}
+
+/**
+ * Turn heading text into an anchor id; empty when nothing is left.
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Create a slugger for one document: every call returns an id that has not
+ * been handed out before.
+ */
+export function createHeadingSlugger(): (text: string) => string {
+  const used = new Set<string>();
+
+  return (text) => {
+    const base = slugifyHeading(text) || FALLBACK_SLUG;
+    let slug = base;
+    for (let suffix = 1; used.has(slug); suffix += 1) {
+      slug = `${base}-${suffix}`;
+    }
+    used.add(slug);
+    return slug;
+  };
+}
+
+function isTocDepth(depth: number): depth is TocEntry['depth'] {
+  return depth >= MIN_TOC_DEPTH && depth <= MAX_ANCHORED_DEPTH;
+}
+
+/**
+ * Extract the `h2`/`h3` entries of an MDX body (without frontmatter).
+ *
+ * Headings inside fenced code blocks are skipped. `h1` headings are not
+ * listed but still take their id, so later duplicates are numbered exactly
+ * as they are when rendered.
+ */
+export function extractTableOfContents(body: string): TocEntry[] {
+  const slug = createHeadingSlugger();
+  const entries: TocEntry[] = [];
+  let fence: string | null = null;
+
+  for (const line of body.split('\n')) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch?.[1] !== undefined) {
+      if (fence === null) fence = fenceMatch[1];
+      else if (fenceMatch[1].startsWith(fence)) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const match = ATX_HEADING_PATTERN.exec(line);
+    const depth = match?.[1]?.length ?? 0;
+    if (match === null || depth > MAX_ANCHORED_DEPTH) continue;
+
+    const text = getHeadingText((match[2] ?? '').replace(ATX_CLOSING_PATTERN, ''));
+    const id = slug(text);
+    if (isTocDepth(depth)) entries.push({ id, text, depth });
+  }
+
+  return entries;
+}
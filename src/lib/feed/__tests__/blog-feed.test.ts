@@ -0,0 +1,71 @@
+import { cacheTag } from 'next/cache';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostSummary } from '@/types/content.types';
+import { getBlogFeedCached } from '@/lib/feed/blog-feed';
+
+const { mockGetAllPostsCached, mockGetPostBySlugCached, mockGetContentConfig } =
+  vi.hoisted(() => ({
+    mockGetAllPostsCached: vi.fn(),
+    mockGetPostBySlugCached: vi.fn(),
+    mockGetContentConfig: vi.fn(),
+  }));
+
+vi.mock('@/lib/content/blog', () => ({
+  getAllPostsCached: mockGetAllPostsCached,
+  getPostBySlugCached: mockGetPostBySlugCached,
+}));
+
+vi.mock('@/lib/content-utils', () => ({
+  getContentConfig: mockGetContentConfig,
+}));
+
+vi.mock('@/lib/i18n/server/getTranslationsCached', () => ({
+  getTranslationsCached: vi.fn(async () => (key: string) => `blog.${key}`),
+}));
+
+const SUMMARY: PostSummary = {
+  slug: 'welcome',
+  locale: 'en',
+  title: 'Welcome',
+  excerpt: 'Excerpt',
+  publishedAt: '2024-01-15',
+};
+
+describe('getBlogFeedCached', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetAllPostsCached.mockResolvedValue([SUMMARY]);
+    mockGetPostBySlugCached.mockResolvedValue({
+      ...SUMMARY,
+      content: 'Body',
+      filePath: '/content/posts/en/welcome.mdx',
+    });
+  });
+
+  it('should load full posts and tag the feed with each post', async () => {
+    mockGetContentConfig.mockReturnValue({ feedContent: 'full' });
+
+    const feed = await getBlogFeedCached('en');
+
+    expect(mockGetAllPostsCached).toHaveBeenCalledWith(
+      'en',
+      expect.objectContaining({ sortBy: 'publishedAt', sortOrder: 'desc' }),
+    );
+    expect(mockGetPostBySlugCached).toHaveBeenCalledWith('en', 'welcome');
+    expect(cacheTag).toHaveBeenCalledWith('content:list:blog:en');
+    expect(cacheTag).toHaveBeenCalledWith('content:blog:welcome:en');
+    expect(feed.title).toContain('blog.pageTitle');
+    expect(feed.items[0]?.contentHtml).toBe('<p>Body</p>');
+  });
+
+  it('should only use summaries in excerpt mode', async () => {
+    mockGetContentConfig.mockReturnValue({ feedContent: 'excerpt' });
+
+    const feed = await getBlogFeedCached('en');
+
+    expect(mockGetPostBySlugCached).not.toHaveBeenCalled();
+    expect(cacheTag).not.toHaveBeenCalledWith('content:blog:welcome:en');
+    expect(feed.contentMode).toBe('excerpt');
+    expect(feed.items[0]?.summary).toBe('Excerpt');
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBlogFeedHandler } from '@/lib/feed/feed-route';
+import type { BlogFeed } from '@/lib/feed/types';
+
+const { mockGetBlogFeedCached } = vi.hoisted(() => ({
+  mockGetBlogFeedCached: vi.fn(),
+}));
+
+vi.mock('@/lib/feed/blog-feed', () => ({
+  getBlogFeedCached: mockGetBlogFeedCached,
+}));
+
+const FEED: BlogFeed = {
+  locale: 'zh',
+  title: '博客',
+  description: '新闻',
+  homePageUrl: 'https://example.com/zh/blog',
+  updatedAt: '2024-01-15T00:00:00.000Z',
+  author: 'Site',
+  contentMode: 'excerpt',
+  items: [],
+};
+
+function callRoute(
+  format: Parameters<typeof createBlogFeedHandler>[0],
+  locale: string,
+) {
+  return createBlogFeedHandler(format)(new Request('https://example.com'), {
+    params: Promise.resolve({ locale }),
+  });
+}
+
+describe('createBlogFeedHandler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetBlogFeedCached.mockResolvedValue(FEED);
+  });
+
+  it.each([
+    ['rss', 'application/rss+xml; charset=utf-8'],
+    ['atom', 'application/atom+xml; charset=utf-8'],
+    ['json', 'application/feed+json; charset=utf-8'],
+  ] as const)(
+    'should serve the %s feed of the locale',
+    async (format, type) => {
+      const response = await callRoute(format, 'zh');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe(type);
+      expect(response.headers.get('cache-control')).toContain('s-maxage');
+      expect(await response.text()).toContain('博客');
+      expect(mockGetBlogFeedCached).toHaveBeenCalledWith('zh');
+    },
+  );
+
+  it('should return 404 for unsupported locales', async () => {
+    const response = await callRoute('rss', 'fr');
+
+    expect(response.status).toBe(404);
+    expect(mockGetBlogFeedCached).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToHtml } from '@/lib/feed/markdown-to-html';
+
+const BASE_URL = 'https://example.com';
+
+describe('markdownToHtml', () => {
+  it('should render headings, paragraphs and emphasis', () => {
+    const markdown = [
+      '# Title',
+      '',
+      'A **bold** and *italic* line',
+      'that wraps, with `<code>`.',
+    ].join('\n');
+
+    expect(markdownToHtml(markdown, BASE_URL)).toBe(
+      [
+        '<h1>Title</h1>',
+        '<p>A <strong>bold</strong> and <em>italic</em> line that wraps, with <code>&lt;code&gt;</code>.</p>',
+      ].join('\n'),
+    );
+  });
+
+  it('should group list items and keep ordered list numbering', () => {
+    const markdown = ['- One', '- Two', '', '3. Three', '4. Four'].join('\n');
+
+    expect(markdownToHtml(markdown, BASE_URL)).toBe(
+      [
+        '<ul><li>One</li><li>Two</li></ul>',
+        '<ol start="3"><li>Three</li><li>Four</li></ol>',
+      ].join('\n'),
+    );
+  });
+
+  it('should escape fenced code and strip list indentation from it', () => {
+    const markdown = [
+      '1. Run',
+      '',
+      '   ```bash',
+      '   echo "<hi>"',
+      '   ```',
+    ].join('\n');
+
+    expect(markdownToHtml(markdown, BASE_URL)).toBe(
+      [
+        '<ol><li>Run</li></ol>',
+        '<pre><code class="language-bash">echo &quot;&lt;hi&gt;&quot;</code></pre>',
+      ].join('\n'),
+    );
+  });
+
+  it('should make relative link and image URLs absolute', () => {
+    const markdown =
+      'See [products](/en/products) and ![Pump](/images/pump.jpg) or [docs](https://docs.example.org).';
+
+    expect(markdownToHtml(markdown, BASE_URL)).toBe(
+      '<p>See <a href="https://example.com/en/products">products</a> and <img src="https://example.com/images/pump.jpg" alt="Pump" /> or <a href="https://docs.example.org">docs</a>.</p>',
+    );
+  });
+
+  it('should render tables, quotes and rules', () => {
+    const markdown = [
+      '| Model | Flow |',
+      '| --- | ---: |',
+      '| A1 | 10 |',
+      '',
+      '> Quoted',
+      '> text',
+      '',
+      '---',
+    ].join('\n');
+
+    expect(markdownToHtml(markdown, BASE_URL)).toBe(
+      [
+        '<table><thead><tr><th>Model</th><th>Flow</th></tr></thead><tbody><tr><td>A1</td><td>10</td></tr></tbody></table>',
+        '<blockquote><p>Quoted text</p></blockquote>',
+        '<hr />',
+      ].join('\n'),
+    );
+  });
+
+  it('should drop MDX imports, JSX elements and comments', () => {
+    const markdown = [
+      "import { Chart } from '@/components/chart';",
+      '',
+      '<Chart data={points} />',
+      '<!-- editor note -->',
+      'Visible text',
+    ].join('\n');
+
+    expect(markdownToHtml(markdown, BASE_URL)).toBe('<p>Visible text</p>');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { PostDetail } from '@/types/content.types';
+import { buildBlogFeed } from '@/lib/feed/build-blog-feed';
+import { getBlogUrl, getFeedUrl } from '@/lib/feed/feed-links';
+import {
+  renderAtomFeed,
+  renderJsonFeed,
+  renderRssFeed,
+} from '@/lib/feed/serialize';
+
+function createPost(overrides: Partial<PostDetail> = {}): PostDetail {
+  return {
+    slug: 'welcome',
+    locale: 'en',
+    title: 'Welcome & hello',
+    description: 'Description',
+    excerpt: 'Short excerpt',
+    publishedAt: '2024-01-15',
+    updatedAt: '2024-02-01',
+    author: 'Editorial Team',
+    tags: ['Next.js'],
+    coverImage: '/images/blog/welcome-cover.jpg',
+    content: '## Intro\n\nSee [products](/en/products).',
+    filePath: '/content/posts/en/welcome.mdx',
+    ...overrides,
+  };
+}
+
+function createFeed(contentMode: 'full' | 'excerpt' = 'full') {
+  return buildBlogFeed({
+    locale: 'en',
+    title: 'Blog | Site',
+    description: 'News',
+    contentMode,
+    posts: [
+      createPost(),
+      createPost({
+        slug: 'older',
+        title: 'Older',
+        publishedAt: '2023-06-01',
+        updatedAt: undefined,
+      }),
+    ],
+  });
+}
+
+describe('buildBlogFeed', () => {
+  it('should map posts to items with absolute URLs and ISO dates', () => {
+    const feed = createFeed();
+    const [item] = feed.items;
+
+    expect(feed.homePageUrl).toBe(getBlogUrl('en'));
+    expect(feed.updatedAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(item).toMatchObject({
+      url: `${getBlogUrl('en')}/welcome`,
+      summary: 'Short excerpt',
+      publishedAt: '2024-01-15T00:00:00.000Z',
+      author: 'Editorial Team',
+      image: expect.stringMatching(
+        /^https?:\/\/.+\/images\/blog\/welcome-cover\.jpg$/,
+      ),
+    });
+    expect(item?.contentHtml).toContain('<h2>Intro</h2>');
+    expect(feed.items[1]?.updatedAt).toBe('2023-06-01T00:00:00.000Z');
+  });
+
+  it('should link translations that share the slug', () => {
+    const [welcome, older] = createFeed().items;
+
+    // content/posts/zh/welcome.mdx exists, zh/older does not
+    expect(welcome?.alternates).toEqual([
+      { hreflang: 'zh', href: `${getBlogUrl('zh')}/welcome` },
+    ]);
+    expect(older?.alternates).toEqual([]);
+  });
+
+  it('should omit the rendered body in excerpt mode', () => {
+    const [item] = createFeed('excerpt').items;
+
+    expect(item?.contentHtml).toBeUndefined();
+    expect(item?.summary).toBe('Short excerpt');
+  });
+});
+
+describe('feed serializers', () => {
+  it('should render RSS 2.0 with self and hreflang alternate links', () => {
+    const rss = renderRssFeed(createFeed());
+
+    expect(rss).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<rss /);
+    expect(rss).toContain('<title>Welcome &amp; hello</title>');
+    expect(rss).toContain('<language>en</language>');
+    expect(rss).toContain(
+      `<atom:link rel="self" type="application/rss+xml" href="${getFeedUrl('en', 'rss')}" />`,
+    );
+    expect(rss).toContain(
+      `<atom:link rel="alternate" type="application/rss+xml" hreflang="zh" href="${getFeedUrl('zh', 'rss')}" />`,
+    );
+    expect(rss).toContain('<pubDate>Mon, 15 Jan 2024 00:00:00 GMT</pubDate>');
+    expect(rss).toContain('<content:encoded>&lt;h2&gt;Intro&lt;/h2&gt;');
+    expect(rss).toContain('<dc:creator>Editorial Team</dc:creator>');
+  });
+
+  it('should render Atom entries with language alternates', () => {
+    const atom = renderAtomFeed(createFeed());
+
+    expect(atom).toContain(
+      '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    );
+    expect(atom).toContain(`<id>${getFeedUrl('en', 'atom')}</id>`);
+    expect(atom).toContain('<updated>2024-02-01T00:00:00.000Z</updated>');
+    expect(atom).toContain(
+      `<link rel="alternate" type="text/html" hreflang="zh" href="${getBlogUrl('zh')}/welcome" />`,
+    );
+    expect(atom).toContain('<content type="html">&lt;h2&gt;Intro');
+    expect(atom).toContain('<category term="Next.js" />');
+  });
+
+  it('should render JSON Feed 1.1 with content_text in excerpt mode', () => {
+    const json = JSON.parse(renderJsonFeed(createFeed('excerpt')));
+
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: getFeedUrl('en', 'json'),
+      language: 'en',
+    });
+    expect(json.items[0]).toMatchObject({
+      id: `${getBlogUrl('en')}/welcome`,
+      content_text: 'Short excerpt',
+      date_modified: '2024-02-01T00:00:00.000Z',
+      authors: [{ name: 'Editorial Team' }],
+      tags: ['Next.js'],
+    });
+    expect(json.items[0]).not.toHaveProperty('content_html');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Cached blog feed data
+ *
+ * Tagged with the blog list tag of the locale and, in full-content mode,
+ * with each post's tag, so `invalidateContent.blogList()` or
+ * `invalidateContent.blogPost()` also refreshes the feeds.
+ *
+ * @see src/lib/cache/cache-tags.ts - contentTags
+ */
+
+import { cacheLife, cacheTag } from 'next/cache';
+import type { Locale, PostDetail, PostSummary } from '@/types/content.types';
+import { contentTags } from '@/lib/cache/cache-tags';
+import { getContentConfig } from '@/lib/content-utils';
+import { getAllPostsCached, getPostBySlugCached } from '@/lib/content/blog';
+import { buildBlogFeed } from '@/lib/feed/build-blog-feed';
+import type { BlogFeed } from '@/lib/feed/types';
+import { getTranslationsCached } from '@/lib/i18n/server/getTranslationsCached';
+import { SITE_CONFIG } from '@/config/paths';
+
+/** Most feed readers only look at the newest entries */
+export const FEED_ITEM_LIMIT = 20;
+
+export async function getBlogFeedCached(locale: Locale): Promise<BlogFeed> {
+  'use cache';
+  cacheLife('days');
+  cacheTag(contentTags.blogList(locale));
+
+  const { feedContent } = getContentConfig();
+  const summaries = await getAllPostsCached(locale, {
+    sortBy: 'publishedAt',
+    sortOrder: 'desc',
+    draft: false,
+    limit: FEED_ITEM_LIMIT,
+  });
+
+  let posts: Array<PostSummary | PostDetail> = summaries;
+  if (feedContent === 'full') {
+    cacheTag(
+      ...summaries.map((post) => contentTags.blogPost(post.slug, locale)),
+    );
+    posts = await Promise.all(
+      summaries.map((post) => getPostBySlugCached(locale, post.slug)),
+    );
+  }
+
+  const t = await getTranslationsCached({ locale, namespace: 'blog' });
+  return buildBlogFeed({
+    locale,
+    title: SITE_CONFIG.seo.titleTemplate.replace('%s', t('pageTitle')),
+    description: t('pageDescription'),
+    contentMode: feedContent,
+    posts,
+  });
+}
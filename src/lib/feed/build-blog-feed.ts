@@ -0,0 +1,96 @@
+/**
+ * Blog Feed Builder
+ *
+ * Maps blog posts to the format-neutral {@link BlogFeed} model that the
+ * RSS, Atom and JSON Feed serializers render.
+ */
+
+import type { Locale, PostDetail, PostSummary } from '@/types/content.types';
+import { getContentEntry } from '@/lib/content-manifest';
+import { getBlogPostUrl, getBlogUrl } from '@/lib/feed/feed-links';
+import { markdownToHtml } from '@/lib/feed/markdown-to-html';
+import type {
+  BlogFeed,
+  FeedAlternateLink,
+  FeedContentMode,
+  FeedItem,
+} from '@/lib/feed/types';
+import { SITE_CONFIG } from '@/config/paths';
+import { urlGenerator } from '@/services/url-generator';
+
+export interface BuildBlogFeedInput {
+  locale: Locale;
+  title: string;
+  description: string;
+  contentMode: FeedContentMode;
+  /** Newest first; full mode renders `content` when present */
+  posts: Array<PostSummary | PostDetail>;
+}
+
+function toIsoDate(date: string): string {
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? date : parsed.toISOString();
+}
+
+/**
+ * Locales that have a translation of the post (translations share the slug)
+ */
+function getPostAlternates(locale: Locale, slug: string): FeedAlternateLink[] {
+  return urlGenerator
+    .getSupportedLocales()
+    .filter(
+      (candidate) =>
+        candidate !== locale &&
+        getContentEntry('posts', candidate, slug) !== undefined,
+    )
+    .map((candidate) => ({
+      href: getBlogPostUrl(candidate, slug),
+      hreflang: candidate,
+    }));
+}
+
+function toFeedItem(
+  post: PostSummary | PostDetail,
+  contentMode: FeedContentMode,
+): FeedItem {
+  const summary = post.excerpt ?? post.description;
+  const item: FeedItem = {
+    url: getBlogPostUrl(post.locale, post.slug),
+    title: post.title,
+    publishedAt: toIsoDate(post.publishedAt),
+    updatedAt: toIsoDate(post.updatedAt ?? post.publishedAt),
+    tags: post.tags ?? [],
+    alternates: getPostAlternates(post.locale, post.slug),
+  };
+
+  if (summary !== undefined) item.summary = summary;
+  if (contentMode === 'full' && 'content' in post) {
+    item.contentHtml = markdownToHtml(post.content, SITE_CONFIG.baseUrl);
+  }
+  if (post.author !== undefined) item.author = post.author;
+  if (post.coverImage !== undefined) {
+    item.image = new URL(post.coverImage, SITE_CONFIG.baseUrl).toString();
+  }
+
+  return item;
+}
+
+export function buildBlogFeed(input: BuildBlogFeedInput): BlogFeed {
+  const items = input.posts.map((post) => toFeedItem(post, input.contentMode));
+  const updatedAt = items.reduce<string | undefined>(
+    (latest, item) =>
+      latest === undefined || item.updatedAt > latest ? item.updatedAt : latest,
+    undefined,
+  );
+
+  return {
+    locale: input.locale,
+    title: input.title,
+    description: input.description,
+    homePageUrl: getBlogUrl(input.locale),
+    updatedAt: updatedAt ?? new Date().toISOString(),
+    author: SITE_CONFIG.name,
+    contentMode: input.contentMode,
+    items,
+  };
+}
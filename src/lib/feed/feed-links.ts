@@ -0,0 +1,68 @@
+/**
+ * Feed URLs and autodiscovery links
+ *
+ * Feeds live next to the blog index of each locale:
+ * `/en/blog/feed.xml` (RSS 2.0), `/en/blog/atom.xml`, `/en/blog/feed.json`.
+ */
+
+import type { Locale } from '@/types/content.types';
+import type { FeedAlternateLink, FeedFormat } from '@/lib/feed/types';
+import { urlGenerator } from '@/services/url-generator';
+
+export const FEED_FORMATS: Record<
+  FeedFormat,
+  { fileName: string; contentType: string; label: string }
+> = {
+  rss: {
+    fileName: 'feed.xml',
+    contentType: 'application/rss+xml',
+    label: 'RSS',
+  },
+  atom: {
+    fileName: 'atom.xml',
+    contentType: 'application/atom+xml',
+    label: 'Atom',
+  },
+  json: {
+    fileName: 'feed.json',
+    contentType: 'application/feed+json',
+    label: 'JSON Feed',
+  },
+};
+
+export function getBlogUrl(locale: Locale): string {
+  return urlGenerator.generateCanonicalURL('blog', locale);
+}
+
+export function getBlogPostUrl(locale: Locale, slug: string): string {
+  return `${getBlogUrl(locale)}/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Site-relative feed path, for `<link rel="alternate">` autodiscovery
+ */
+export function getFeedPath(locale: Locale, format: FeedFormat): string {
+  // eslint-disable-next-line security/detect-object-injection -- format is a FeedFormat literal
+  return `${urlGenerator.generatePageURL('blog', locale)}/${FEED_FORMATS[format].fileName}`;
+}
+
+export function getFeedUrl(locale: Locale, format: FeedFormat): string {
+  // eslint-disable-next-line security/detect-object-injection -- format is a FeedFormat literal
+  return `${getBlogUrl(locale)}/${FEED_FORMATS[format].fileName}`;
+}
+
+/**
+ * The same feed in the other locales, for `hreflang` alternate links
+ */
+export function getFeedAlternates(
+  locale: Locale,
+  format: FeedFormat,
+): FeedAlternateLink[] {
+  return urlGenerator
+    .getSupportedLocales()
+    .filter((candidate) => candidate !== locale)
+    .map((candidate) => ({
+      href: getFeedUrl(candidate, format),
+      hreflang: candidate,
+    }));
+}
@@ -0,0 +1,43 @@
+/**
+ * Route handler factory for `/[locale]/blog/{feed.xml,atom.xml,feed.json}`
+ */
+
+import type { Locale } from '@/types/content.types';
+import { getBlogFeedCached } from '@/lib/feed/blog-feed';
+import { FEED_FORMATS } from '@/lib/feed/feed-links';
+import { serializeFeed } from '@/lib/feed/serialize';
+import type { FeedFormat } from '@/lib/feed/types';
+import { routing } from '@/i18n/routing-config';
+
+const HTTP_NOT_FOUND = 404;
+// Feeds change on deploy or tag invalidation; readers poll often
+const CACHE_CONTROL = 'public, s-maxage=3600, stale-while-revalidate=86400';
+
+interface FeedRouteContext {
+  params: Promise<{ locale: string }>;
+}
+
+function isLocale(value: string): value is Locale {
+  return (routing.locales as readonly string[]).includes(value);
+}
+
+export function createBlogFeedHandler(format: FeedFormat) {
+  return async function GET(
+    _request: Request,
+    { params }: FeedRouteContext,
+  ): Promise<Response> {
+    const { locale } = await params;
+    if (!isLocale(locale)) {
+      return new Response('Not Found', { status: HTTP_NOT_FOUND });
+    }
+
+    const feed = await getBlogFeedCached(locale);
+    return new Response(serializeFeed(feed, format), {
+      headers: {
+        // eslint-disable-next-line security/detect-object-injection -- format is a FeedFormat literal
+        'content-type': `${FEED_FORMATS[format].contentType}; charset=utf-8`,
+        'cache-control': CACHE_CONTROL,
+      },
+    });
+  };
+}
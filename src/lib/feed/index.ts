@@ -0,0 +1,35 @@
+/**
+ * Blog Feed Module
+ * RSS 2.0, Atom and JSON Feed for the localized blog
+ */
+
+export {
+  buildBlogFeed,
+  type BuildBlogFeedInput,
+} from '@/lib/feed/build-blog-feed';
+
+export {
+  FEED_FORMATS,
+  getBlogPostUrl,
+  getBlogUrl,
+  getFeedAlternates,
+  getFeedPath,
+  getFeedUrl,
+} from '@/lib/feed/feed-links';
+
+export { markdownToHtml } from '@/lib/feed/markdown-to-html';
+
+export {
+  renderAtomFeed,
+  renderJsonFeed,
+  renderRssFeed,
+  serializeFeed,
+} from '@/lib/feed/serialize';
+
+export type {
+  BlogFeed,
+  FeedAlternateLink,
+  FeedContentMode,
+  FeedFormat,
+  FeedItem,
+} from '@/lib/feed/types';
@@ -0,0 +1,244 @@
+/**
+ * Markdown to HTML for feed readers
+ *
+ * Feed readers cannot run our MDX components, so full-content feeds carry a
+ * static HTML rendering of the markdown instead. Covers what blog posts use:
+ * headings, paragraphs, lists, blockquotes, tables, fenced code, links,
+ * images and emphasis. MDX imports/exports and JSX elements are dropped;
+ * relative link and image URLs are made absolute.
+ */
+
+import { escapeXml } from '@/lib/feed/xml';
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: string[] }
+  | { kind: 'quote'; lines: string[] }
+  | { kind: 'table'; rows: string[][] }
+  | { kind: 'code'; language: string; indent: number; lines: string[] }
+  | { kind: 'rule' };
+
+const FENCE_PATTERN = /^(\s*)```\s*([\w-]*)/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const RULE_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\|?[\s:|-]*-{3}[\s:|-]*$/;
+const MDX_LINE_PATTERN = /^(?:(?:import|export)\s|<\/?[A-Z])/;
+const HTML_COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+
+/** Inline markdown, applied to HTML-escaped text in order */
+const INLINE_RULES: ReadonlyArray<[RegExp, string]> = [
+  [/!\[([^\]]*)\]\(([^)\s]+)\)/g, '<img src="$2" alt="$1" />'],
+  [/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>'],
+  [/\*\*([^*]+)\*\*/g, '<strong>$1</strong>'],
+  [/__([^_]+)__/g, '<strong>$1</strong>'],
+  [/\*([^*\s][^*]*)\*/g, '<em>$1</em>'],
+  [/\b_([^_\s][^_]*)_\b/g, '<em>$1</em>'],
+];
+const CODE_SPAN_PATTERN = /`([^`]+)`/g;
+const RELATIVE_URL_PATTERN = /(src|href)="(\/[^"]*)"/g;
+const CODE_PLACEHOLDER = '\u0000';
+
+function renderInline(text: string, baseUrl: string): string {
+  // Code spans are set aside so their contents are not treated as markdown
+  const codeSpans: string[] = [];
+  const withoutCode = escapeXml(text).replace(
+    CODE_SPAN_PATTERN,
+    (_match, code: string) => {
+      codeSpans.push(`<code>${code}</code>`);
+      return CODE_PLACEHOLDER;
+    },
+  );
+
+  const html = INLINE_RULES.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    withoutCode,
+  ).replace(
+    RELATIVE_URL_PATTERN,
+    (_match, attribute: string, path: string) =>
+      `${attribute}="${new URL(path, baseUrl).toString()}"`,
+  );
+
+  let codeIndex = 0;
+  return html.replace(new RegExp(CODE_PLACEHOLDER, 'g'), () => {
+    const code = codeSpans.at(codeIndex) ?? '';
+    codeIndex += 1;
+    return code;
+  });
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Append a line to the open block when it continues it
+ * @returns false when the line starts a new block
+ */
+function continueBlock(block: Block | undefined, line: string): boolean {
+  if (block?.kind === 'paragraph') {
+    block.lines.push(line.trim());
+    return true;
+  }
+  if (block?.kind === 'list' && /^\s+\S/.test(line)) {
+    block.items.push(`${block.items.pop() ?? ''} ${line.trim()}`);
+    return true;
+  }
+  return false;
+}
+
+function parseListItem(
+  blocks: Block[],
+  match: RegExpMatchArray,
+  previous: Block | undefined,
+): void {
+  const ordered = match[1] !== undefined;
+  const text = match[2] ?? '';
+  if (previous?.kind === 'list' && previous.ordered === ordered) {
+    previous.items.push(text);
+  } else {
+    const start = ordered ? Number(match[1]) : 1;
+    blocks.push({ kind: 'list', ordered, start, items: [text] });
+  }
+}
+
+/**
+ * Quote and table lines, which group with the lines around them
+ * @returns false for any other line
+ */
+function parseGroupedLine(blocks: Block[], trimmed: string): boolean {
+  const previous = blocks.at(-1);
+  const quote = QUOTE_PATTERN.exec(trimmed);
+  if (quote) {
+    if (previous?.kind === 'quote') previous.lines.push(quote[1] ?? '');
+    else blocks.push({ kind: 'quote', lines: [quote[1] ?? ''] });
+    return true;
+  }
+  if (!trimmed.startsWith('|')) return false;
+  if (TABLE_SEPARATOR_PATTERN.test(trimmed)) return true;
+  if (previous?.kind === 'table') previous.rows.push(splitTableRow(trimmed));
+  else blocks.push({ kind: 'table', rows: [splitTableRow(trimmed)] });
+  return true;
+}
+
+/**
+ * @param isBlockStart - The line follows a blank line, so it cannot
+ *   continue a paragraph or list item
+ */
+function parseLine(blocks: Block[], line: string, isBlockStart: boolean): void {
+  const previous = blocks.at(-1);
+  const trimmed = line.trim();
+  const heading = HEADING_PATTERN.exec(trimmed);
+  const listItem = LIST_ITEM_PATTERN.exec(line);
+
+  if (heading) {
+    blocks.push({
+      kind: 'heading',
+      level: heading[1]?.length ?? 1,
+      text: heading[2] ?? '',
+    });
+  } else if (RULE_PATTERN.test(trimmed)) {
+    blocks.push({ kind: 'rule' });
+  } else if (listItem) {
+    parseListItem(blocks, listItem, previous);
+  } else if (parseGroupedLine(blocks, trimmed)) {
+    // Added to a quote or table
+  } else if (isBlockStart || !continueBlock(previous, line)) {
+    blocks.push({ kind: 'paragraph', lines: [trimmed] });
+  }
+}
+
+/**
+ * Fences nested in list items are indented; strip that from the code
+ */
+function stripIndent(line: string, indent: number): string {
+  const leading = line.length - line.trimStart().length;
+  return line.slice(Math.min(indent, leading));
+}
+
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let code: Extract<Block, { kind: 'code' }> | null = null;
+  let isBlockStart = true;
+
+  for (const line of markdown.replace(HTML_COMMENT_PATTERN, '').split('\n')) {
+    const fence = FENCE_PATTERN.exec(line);
+    if (code) {
+      if (fence) code = null;
+      else code.lines.push(stripIndent(line, code.indent));
+    } else if (fence) {
+      code = {
+        kind: 'code',
+        language: fence[2] ?? '',
+        indent: fence[1]?.length ?? 0,
+        lines: [],
+      };
+      blocks.push(code);
+    } else if (line.trim() === '' || MDX_LINE_PATTERN.test(line.trim())) {
+      isBlockStart = true;
+    } else {
+      parseLine(blocks, line, isBlockStart);
+      isBlockStart = false;
+    }
+  }
+  return blocks;
+}
+
+function renderTable(rows: string[][], baseUrl: string): string {
+  const [header = [], ...body] = rows;
+  const cells = (row: string[], tag: 'th' | 'td') =>
+    row
+      .map((cell) => `<${tag}>${renderInline(cell, baseUrl)}</${tag}>`)
+      .join('');
+  const bodyRows = body.map((row) => `<tr>${cells(row, 'td')}</tr>`).join('');
+  return `<table><thead><tr>${cells(header, 'th')}</tr></thead><tbody>${bodyRows}</tbody></table>`;
+}
+
+function renderBlock(block: Block, baseUrl: string): string {
+  switch (block.kind) {
+    case 'heading':
+      return `<h${block.level}>${renderInline(block.text, baseUrl)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${renderInline(block.lines.join(' '), baseUrl)}</p>`;
+    case 'list': {
+      const items = block.items
+        .map((item) => `<li>${renderInline(item, baseUrl)}</li>`)
+        .join('');
+      if (!block.ordered) return `<ul>${items}</ul>`;
+      return block.start === 1
+        ? `<ol>${items}</ol>`
+        : `<ol start="${block.start}">${items}</ol>`;
+    }
+    case 'quote':
+      return `<blockquote><p>${renderInline(block.lines.join(' '), baseUrl)}</p></blockquote>`;
+    case 'table':
+      return renderTable(block.rows, baseUrl);
+    case 'code': {
+      const language = block.language
+        ? ` class="language-${escapeXml(block.language)}"`
+        : '';
+      return `<pre><code${language}>${escapeXml(block.lines.join('\n'))}</code></pre>`;
+    }
+    case 'rule':
+      return '<hr />';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render a markdown/MDX body to HTML
+ * @param baseUrl - Origin used to resolve root-relative link and image URLs
+ */
+export function markdownToHtml(markdown: string, baseUrl: string): string {
+  return parseBlocks(markdown)
+    .map((block) => renderBlock(block, baseUrl))
+    .join('\n');
+}
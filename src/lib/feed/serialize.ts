@@ -0,0 +1,198 @@
+/**
+ * Feed Serializers
+ *
+ * Render a {@link BlogFeed} as RSS 2.0, Atom 1.0 or JSON Feed 1.1. Every
+ * format links the same feed in the other locales with `hreflang`, and Atom
+ * and RSS entries also link their translations.
+ */
+
+import {
+  FEED_FORMATS,
+  getFeedAlternates,
+  getFeedUrl,
+} from '@/lib/feed/feed-links';
+import type { BlogFeed, FeedFormat, FeedItem } from '@/lib/feed/types';
+import { xmlElement, xmlEmptyElement } from '@/lib/feed/xml';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+const JSON_FEED_VERSION = 'https://jsonfeed.org/version/1.1';
+const HTML_TYPE = 'text/html';
+
+function toRfc822(isoDate: string): string {
+  return new Date(isoDate).toUTCString();
+}
+
+function renderRssItem(item: FeedItem): string {
+  const lines = [
+    xmlElement('title', item.title),
+    xmlElement('link', item.url),
+    xmlElement('guid', item.url, { isPermaLink: 'true' }),
+    xmlElement('pubDate', toRfc822(item.publishedAt)),
+    ...(item.summary ? [xmlElement('description', item.summary)] : []),
+    ...(item.contentHtml
+      ? [xmlElement('content:encoded', item.contentHtml)]
+      : []),
+    ...(item.author ? [xmlElement('dc:creator', item.author)] : []),
+    ...item.tags.map((tag) => xmlElement('category', tag)),
+    ...item.alternates.map((link) =>
+      xmlEmptyElement('atom:link', {
+        rel: 'alternate',
+        type: HTML_TYPE,
+        hreflang: link.hreflang,
+        href: link.href,
+      }),
+    ),
+  ];
+  return `<item>\n${lines.join('\n')}\n</item>`;
+}
+
+export function renderRssFeed(feed: BlogFeed): string {
+  const { contentType } = FEED_FORMATS.rss;
+  const channel = [
+    xmlElement('title', feed.title),
+    xmlElement('link', feed.homePageUrl),
+    xmlElement('description', feed.description),
+    xmlElement('language', feed.locale),
+    xmlElement('lastBuildDate', toRfc822(feed.updatedAt)),
+    xmlEmptyElement('atom:link', {
+      rel: 'self',
+      type: contentType,
+      href: getFeedUrl(feed.locale, 'rss'),
+    }),
+    ...getFeedAlternates(feed.locale, 'rss').map((link) =>
+      xmlEmptyElement('atom:link', {
+        rel: 'alternate',
+        type: contentType,
+        hreflang: link.hreflang,
+        href: link.href,
+      }),
+    ),
+    ...feed.items.map(renderRssItem),
+  ];
+
+  return [
+    XML_DECLARATION,
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    ...channel,
+    '</channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function renderAtomEntry(item: FeedItem, feed: BlogFeed): string {
+  const lines = [
+    xmlElement('id', item.url),
+    xmlElement('title', item.title),
+    xmlEmptyElement('link', {
+      rel: 'alternate',
+      type: HTML_TYPE,
+      hreflang: feed.locale,
+      href: item.url,
+    }),
+    ...item.alternates.map((link) =>
+      xmlEmptyElement('link', {
+        rel: 'alternate',
+        type: HTML_TYPE,
+        hreflang: link.hreflang,
+        href: link.href,
+      }),
+    ),
+    xmlElement('published', item.publishedAt),
+    xmlElement('updated', item.updatedAt),
+    ...(item.author
+      ? [`<author>${xmlElement('name', item.author)}</author>`]
+      : []),
+    ...item.tags.map((tag) => xmlEmptyElement('category', { term: tag })),
+    ...(item.summary ? [xmlElement('summary', item.summary)] : []),
+    ...(item.contentHtml
+      ? [xmlElement('content', item.contentHtml, { type: 'html' })]
+      : []),
+  ];
+  return `<entry>\n${lines.join('\n')}\n</entry>`;
+}
+
+export function renderAtomFeed(feed: BlogFeed): string {
+  const selfUrl = getFeedUrl(feed.locale, 'atom');
+  const { contentType } = FEED_FORMATS.atom;
+  const lines = [
+    xmlElement('id', selfUrl),
+    xmlElement('title', feed.title),
+    xmlElement('subtitle', feed.description),
+    xmlElement('updated', feed.updatedAt),
+    xmlEmptyElement('link', { rel: 'self', type: contentType, href: selfUrl }),
+    xmlEmptyElement('link', {
+      rel: 'alternate',
+      type: HTML_TYPE,
+      hreflang: feed.locale,
+      href: feed.homePageUrl,
+    }),
+    ...getFeedAlternates(feed.locale, 'atom').map((link) =>
+      xmlEmptyElement('link', {
+        rel: 'alternate',
+        type: contentType,
+        hreflang: link.hreflang,
+        href: link.href,
+      }),
+    ),
+    `<author>${xmlElement('name', feed.author)}</author>`,
+    ...feed.items.map((item) => renderAtomEntry(item, feed)),
+  ];
+
+  return [
+    XML_DECLARATION,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.locale}">`,
+    ...lines,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function toJsonFeedItem(item: FeedItem, feed: BlogFeed) {
+  return {
+    id: item.url,
+    url: item.url,
+    title: item.title,
+    ...(item.contentHtml
+      ? { content_html: item.contentHtml }
+      : { content_text: item.summary ?? '' }),
+    ...(item.summary && { summary: item.summary }),
+    ...(item.image && { image: item.image }),
+    date_published: item.publishedAt,
+    date_modified: item.updatedAt,
+    ...(item.author && { authors: [{ name: item.author }] }),
+    ...(item.tags.length > 0 && { tags: item.tags }),
+    language: feed.locale,
+  };
+}
+
+export function renderJsonFeed(feed: BlogFeed): string {
+  return JSON.stringify(
+    {
+      version: JSON_FEED_VERSION,
+      title: feed.title,
+      home_page_url: feed.homePageUrl,
+      feed_url: getFeedUrl(feed.locale, 'json'),
+      description: feed.description,
+      language: feed.locale,
+      authors: [{ name: feed.author }],
+      items: feed.items.map((item) => toJsonFeedItem(item, feed)),
+    },
+    null,
+    2,
+  );
+}
+
+export function serializeFeed(feed: BlogFeed, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRssFeed(feed);
+    case 'atom':
+      return renderAtomFeed(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+    default:
+      return format satisfies never;
+  }
+}
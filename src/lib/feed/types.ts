@@ -0,0 +1,52 @@
+/**
+ * Blog Feed Type Definitions
+ */
+
+import type { ContentConfig, Locale } from '@/types/content.types';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * `full` embeds the rendered post, `excerpt` only its summary
+ */
+export type FeedContentMode = ContentConfig['feedContent'];
+
+/**
+ * A language version of a page or feed
+ */
+export interface FeedAlternateLink {
+  href: string;
+  hreflang: Locale;
+}
+
+export interface FeedItem {
+  /** Absolute post URL, also used as the permanent id */
+  url: string;
+  title: string;
+  summary?: string;
+  /** Rendered post body; only set in `full` mode */
+  contentHtml?: string;
+  /** ISO 8601 */
+  publishedAt: string;
+  /** ISO 8601 */
+  updatedAt: string;
+  tags: string[];
+  author?: string;
+  /** Absolute cover image URL */
+  image?: string;
+  /** The same post in other locales */
+  alternates: FeedAlternateLink[];
+}
+
+export interface BlogFeed {
+  locale: Locale;
+  title: string;
+  description: string;
+  /** Absolute URL of the localized blog index */
+  homePageUrl: string;
+  /** Newest item date, ISO 8601 */
+  updatedAt: string;
+  author: string;
+  contentMode: FeedContentMode;
+  items: FeedItem[];
+}
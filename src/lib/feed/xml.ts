@@ -0,0 +1,50 @@
+/**
+ * XML helpers shared by the RSS and Atom serializers
+ */
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+// Control characters other than tab and newlines are invalid in XML 1.0
+// eslint-disable-next-line no-control-regex -- matching them is the point
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+export function escapeXml(value: string): string {
+  return value.replace(INVALID_XML_CHARS, '').replace(
+    /[&<>"']/g,
+    // eslint-disable-next-line security/detect-object-injection -- char is one of the matched literals
+    (char) => XML_ESCAPES[char] ?? char,
+  );
+}
+
+/**
+ * Element with escaped text content, e.g. `<title>A &amp; B</title>`
+ */
+export function xmlElement(
+  name: string,
+  text: string,
+  attributes: Record<string, string> = {},
+): string {
+  return `<${name}${xmlAttributes(attributes)}>${escapeXml(text)}</${name}>`;
+}
+
+/**
+ * Empty element, e.g. `<link rel="self" href="…" />`
+ */
+export function xmlEmptyElement(
+  name: string,
+  attributes: Record<string, string>,
+): string {
+  return `<${name}${xmlAttributes(attributes)} />`;
+}
+
+function xmlAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+}
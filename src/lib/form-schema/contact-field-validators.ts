@@ -152,6 +152,11 @@ export function marketingConsent({ field }: ContactFormFieldValidatorContext) {
   return applyOptionality(schema, field);
 }
 
+export function whatsappOptIn({ field }: ContactFormFieldValidatorContext) {
+  const schema = z.boolean();
+  return applyOptionality(schema, field);
+}
+
 export function website({ field }: ContactFormFieldValidatorContext) {
   const schema = z
     .string()
@@ -173,5 +178,6 @@ export const contactFieldValidators: ContactFormFieldValidators = {
   subject,
   acceptPrivacy,
   marketingConsent,
+  whatsappOptIn,
   website,
 };
@@ -0,0 +1,162 @@
+/**
+ * Service health tests
+ * Covers status rules and the Prometheus rendering
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  formatPrometheusMetrics,
+  getDetailedHealth,
+  SERVICE_STATUS,
+} from '@/lib/health';
+import {
+  LeadPipelineMetrics,
+  METRIC_SERVICES,
+} from '@/lib/lead-pipeline/metrics';
+import { whatsappServiceMonitor } from '@/lib/whatsapp/service-monitor';
+
+const mockEnv = vi.hoisted(() => ({}) as Record<string, string | undefined>);
+
+vi.mock('@/lib/env', () => ({ env: mockEnv }));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const FULL_ENV = {
+  RESEND_API_KEY: 're_test',
+  AIRTABLE_API_KEY: 'key',
+  AIRTABLE_BASE_ID: 'app',
+  WHATSAPP_ACCESS_TOKEN: 'token',
+  WHATSAPP_PHONE_NUMBER_ID: '123',
+  TURNSTILE_SECRET_KEY: 'secret',
+  NEXT_PUBLIC_TURNSTILE_SITE_KEY: 'site',
+};
+
+describe('getDetailedHealth', () => {
+  let metrics: LeadPipelineMetrics;
+
+  beforeEach(() => {
+    metrics = new LeadPipelineMetrics({ consecutiveFailureThreshold: 2 });
+    Object.assign(mockEnv, FULL_ENV);
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://redis.example.com');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'token');
+  });
+
+  afterEach(() => {
+    for (const key of Object.keys(mockEnv)) delete mockEnv[key];
+    vi.unstubAllEnvs();
+    whatsappServiceMonitor.reset();
+  });
+
+  it('should be ok when every service is configured and healthy', () => {
+    metrics.recordSuccess(METRIC_SERVICES.RESEND, 120);
+
+    const health = getDetailedHealth(metrics);
+
+    expect(health.status).toBe(SERVICE_STATUS.OK);
+    expect(health.services.rate_limit_store).toEqual({
+      configured: true,
+      status: SERVICE_STATUS.OK,
+      detail: 'upstash',
+    });
+    expect(health.services.resend.metrics).toMatchObject({
+      successCount: 1,
+      latencyP50Ms: 120,
+    });
+    expect(health.leadPipeline.resend?.successRate).toBe(1);
+  });
+
+  it('should report missing credentials and the memory rate limit store', () => {
+    delete mockEnv.AIRTABLE_BASE_ID;
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+
+    const health = getDetailedHealth(metrics);
+
+    expect(health.status).toBe(SERVICE_STATUS.DEGRADED);
+    expect(health.services.airtable.status).toBe(SERVICE_STATUS.UNCONFIGURED);
+    expect(health.services.rate_limit_store).toMatchObject({
+      configured: false,
+      detail: 'memory',
+    });
+  });
+
+  it('should degrade when a service keeps failing', () => {
+    metrics.recordFailure(METRIC_SERVICES.AIRTABLE, 50, new Error('down'));
+    metrics.recordFailure(METRIC_SERVICES.AIRTABLE, 50, new Error('down'));
+
+    const health = getDetailedHealth(metrics);
+
+    expect(health.status).toBe(SERVICE_STATUS.DEGRADED);
+    expect(health.services.airtable.status).toBe(SERVICE_STATUS.DEGRADED);
+  });
+
+  it('should degrade when a custom sink keeps failing', () => {
+    metrics.recordFailure(METRIC_SERVICES.SLACK, 50, new Error('down'));
+    metrics.recordFailure(METRIC_SERVICES.SLACK, 50, new Error('down'));
+
+    expect(getDetailedHealth(metrics).status).toBe(SERVICE_STATUS.DEGRADED);
+  });
+
+  it('should degrade WhatsApp while the Cloud API is unreachable', () => {
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', 'token');
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', '123');
+    whatsappServiceMonitor.recordApiCall({
+      kind: 'send',
+      success: false,
+      durationMs: 40,
+      error: 'Network error: socket hang up',
+    });
+
+    const health = getDetailedHealth(metrics);
+
+    expect(health.status).toBe(SERVICE_STATUS.DEGRADED);
+    expect(health.services.whatsapp.status).toBe(SERVICE_STATUS.DEGRADED);
+    expect(health.whatsappService).toMatchObject({
+      status: 'unhealthy',
+      errorRate: 100,
+      apiCalls: 1,
+      messagesFailed: 1,
+    });
+  });
+
+  it('should ignore optional services that are not configured', () => {
+    delete mockEnv.WHATSAPP_ACCESS_TOKEN;
+    vi.stubEnv('HEALTH_OPTIONAL_SERVICES', 'whatsapp');
+
+    const health = getDetailedHealth(metrics);
+
+    expect(health.services.whatsapp.status).toBe(SERVICE_STATUS.UNCONFIGURED);
+    expect(health.status).toBe(SERVICE_STATUS.OK);
+  });
+});
+
+describe('formatPrometheusMetrics', () => {
+  it('should render gauges and counters with labels', () => {
+    Object.assign(mockEnv, FULL_ENV);
+    const metrics = new LeadPipelineMetrics();
+    metrics.recordSuccess(METRIC_SERVICES.RESEND, 100);
+    metrics.recordFailure(METRIC_SERVICES.RESEND, 300, new Error('down'));
+
+    const output = formatPrometheusMetrics(getDetailedHealth(metrics));
+
+    expect(output).toContain('# TYPE lead_pipeline_calls_total counter');
+    expect(output).toContain(
+      'lead_pipeline_calls_total{service="resend",outcome="failure"} 1',
+    );
+    expect(output).toContain(
+      'lead_pipeline_success_ratio{service="resend"} 0.5',
+    );
+    expect(output).toContain(
+      'lead_pipeline_latency_ms{service="resend",quantile="0.95"} 300',
+    );
+    expect(output).toContain('service_configured{service="resend"} 1');
+    expect(output).toContain('service_up{service="rate_limit_store"} 0');
+    expect(output).toContain(
+      'whatsapp_webhook_events_total{outcome="duplicate"} 0',
+    );
+    expect(output).toContain('whatsapp_messages_total{outcome="sent"} 0');
+    expect(output).toContain('whatsapp_uptime_percent 100');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+});
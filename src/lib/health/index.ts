@@ -0,0 +1,21 @@
+/**
+ * Health Module
+ * Detailed health report and Prometheus metrics for uptime monitoring
+ */
+
+export {
+  HEALTH_SERVICES,
+  SERVICE_STATUS,
+  getDetailedHealth,
+  type DetailedHealth,
+  type HealthService,
+  type OverallHealthStatus,
+  type ServiceHealth,
+  type ServiceStatus,
+  type WhatsAppServiceSummary,
+} from '@/lib/health/service-health';
+
+export {
+  PROMETHEUS_CONTENT_TYPE,
+  formatPrometheusMetrics,
+} from '@/lib/health/prometheus';
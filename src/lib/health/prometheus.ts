@@ -0,0 +1,206 @@
+/**
+ * Prometheus Text Format
+ * Renders the detailed health report for `/api/metrics` scrapers.
+ *
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+import {
+  SERVICE_STATUS,
+  type DetailedHealth,
+  type WhatsAppServiceSummary,
+} from '@/lib/health/service-health';
+import type { ServiceStats } from '@/lib/lead-pipeline/metrics';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4';
+
+interface MetricSample {
+  labels: Record<string, string>;
+  value: number | null;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: MetricSample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatFamily(family: MetricFamily): string[] {
+  // Missing values (no calls yet) are left out rather than reported as 0
+  const samples = family.samples.filter((sample) => sample.value !== null);
+  return [
+    `# HELP ${family.name} ${family.help}`,
+    `# TYPE ${family.name} ${family.type}`,
+    ...samples.map(
+      (sample) =>
+        `${family.name}${formatLabels(sample.labels)} ${String(sample.value)}`,
+    ),
+  ];
+}
+
+function pipelineSamples(
+  stats: ServiceStats[],
+  pick: (item: ServiceStats) => number | null,
+): MetricSample[] {
+  return stats.map((item) => ({
+    labels: { service: item.service },
+    value: pick(item),
+  }));
+}
+
+function whatsappServiceFamilies(
+  whatsapp: WhatsAppServiceSummary,
+): MetricFamily[] {
+  return [
+    {
+      name: 'whatsapp_api_calls_total',
+      help: 'WhatsApp Cloud API calls by outcome since the instance started',
+      type: 'counter',
+      samples: [
+        {
+          labels: { outcome: 'success' },
+          value: whatsapp.apiCalls - whatsapp.apiErrors,
+        },
+        { labels: { outcome: 'failure' }, value: whatsapp.apiErrors },
+      ],
+    },
+    {
+      name: 'whatsapp_messages_total',
+      help: 'WhatsApp messages by send outcome since the instance started',
+      type: 'counter',
+      samples: [
+        { labels: { outcome: 'sent' }, value: whatsapp.messagesSent },
+        { labels: { outcome: 'failed' }, value: whatsapp.messagesFailed },
+      ],
+    },
+    {
+      name: 'whatsapp_rate_limited_total',
+      help: 'WhatsApp Cloud API calls rejected by rate limits',
+      type: 'counter',
+      samples: [{ labels: {}, value: whatsapp.rateLimited }],
+    },
+    {
+      name: 'whatsapp_error_rate_percent',
+      help: 'Share of failed WhatsApp Cloud API calls',
+      type: 'gauge',
+      samples: [{ labels: {}, value: whatsapp.errorRate }],
+    },
+    {
+      name: 'whatsapp_uptime_percent',
+      help: 'Share of time the WhatsApp Cloud API answered',
+      type: 'gauge',
+      samples: [{ labels: {}, value: whatsapp.uptime }],
+    },
+    {
+      name: 'whatsapp_response_time_ms',
+      help: 'Average WhatsApp Cloud API response time',
+      type: 'gauge',
+      samples: [{ labels: {}, value: whatsapp.averageResponseTimeMs }],
+    },
+  ];
+}
+
+/**
+ * Render the health report in the Prometheus text exposition format
+ */
+export function formatPrometheusMetrics(health: DetailedHealth): string {
+  const services = Object.entries(health.services);
+  const stats = Object.values(health.leadPipeline);
+
+  const families: MetricFamily[] = [
+    {
+      name: 'app_health_status',
+      help: 'Overall health, 1 when ok and 0 when degraded',
+      type: 'gauge',
+      samples: [
+        { labels: {}, value: health.status === SERVICE_STATUS.OK ? 1 : 0 },
+      ],
+    },
+    {
+      name: 'service_configured',
+      help: 'Whether the integration is configured',
+      type: 'gauge',
+      samples: services.map(([service, item]) => ({
+        labels: { service },
+        value: item.configured ? 1 : 0,
+      })),
+    },
+    {
+      name: 'service_up',
+      help: 'Whether the integration is configured and not failing',
+      type: 'gauge',
+      samples: services.map(([service, item]) => ({
+        labels: { service },
+        value: item.status === SERVICE_STATUS.OK ? 1 : 0,
+      })),
+    },
+    {
+      name: 'lead_pipeline_calls_total',
+      help: 'Lead sink calls by outcome since the instance started',
+      type: 'counter',
+      samples: stats.flatMap((item) => [
+        {
+          labels: { service: item.service, outcome: 'success' },
+          value: item.successCount,
+        },
+        {
+          labels: { service: item.service, outcome: 'failure' },
+          value: item.failureCount,
+        },
+      ]),
+    },
+    {
+      name: 'lead_pipeline_success_ratio',
+      help: 'Share of successful lead sink calls',
+      type: 'gauge',
+      samples: pipelineSamples(stats, (item) => item.successRate),
+    },
+    {
+      name: 'lead_pipeline_latency_ms',
+      help: 'Lead sink latency percentiles over recent calls',
+      type: 'gauge',
+      samples: stats.flatMap((item) => [
+        {
+          labels: { service: item.service, quantile: '0.5' },
+          value: item.latencyP50Ms,
+        },
+        {
+          labels: { service: item.service, quantile: '0.95' },
+          value: item.latencyP95Ms,
+        },
+      ]),
+    },
+    {
+      name: 'lead_pipeline_consecutive_failures',
+      help: 'Consecutive failed lead sink calls',
+      type: 'gauge',
+      samples: pipelineSamples(stats, (item) => item.consecutiveFailures),
+    },
+    {
+      name: 'whatsapp_webhook_events_total',
+      help: 'WhatsApp webhook events by replay protection outcome since the instance started',
+      type: 'counter',
+      samples: Object.entries(health.whatsappWebhook).map(
+        ([outcome, value]) => ({ labels: { outcome }, value }),
+      ),
+    },
+    ...whatsappServiceFamilies(health.whatsappService),
+  ];
+
+  return `${families.flatMap(formatFamily).join('\n')}\n`;
+}
@@ -0,0 +1,226 @@
+/**
+ * Service Health
+ *
+ * Combines integration configuration (Resend, Airtable, WhatsApp,
+ * Turnstile, rate limit store) with the lead pipeline metrics, the
+ * WhatsApp service monitor and the WhatsApp webhook counters into one
+ * report for uptime monitors.
+ *
+ * A service is:
+ * - unconfigured: required credentials are missing
+ * - degraded: its consecutive failures reached the alert threshold, or
+ *   (WhatsApp) the service monitor reports recorded calls as unhealthy
+ * - ok: otherwise
+ *
+ * The overall status is degraded when any service is not ok. Services
+ * listed in HEALTH_OPTIONAL_SERVICES (comma-separated, e.g. `whatsapp`)
+ * may stay unconfigured without degrading it.
+ */
+
+import { env } from '@/lib/env';
+import {
+  leadPipelineMetrics,
+  METRIC_SERVICES,
+  type LeadPipelineMetrics,
+  type MetricService,
+  type ServiceStats,
+} from '@/lib/lead-pipeline/metrics';
+import { getRateLimitStoreKind } from '@/lib/security/distributed-rate-limit';
+import { whatsappServiceMonitor } from '@/lib/whatsapp/service-monitor';
+import {
+  getWebhookGuardStats,
+  type WebhookGuardStats,
+} from '@/lib/whatsapp/webhook-replay-guard';
+
+export const HEALTH_SERVICES = {
+  RESEND: 'resend',
+  AIRTABLE: 'airtable',
+  WHATSAPP: 'whatsapp',
+  TURNSTILE: 'turnstile',
+  RATE_LIMIT_STORE: 'rate_limit_store',
+} as const;
+
+export type HealthService =
+  (typeof HEALTH_SERVICES)[keyof typeof HEALTH_SERVICES];
+
+export const SERVICE_STATUS = {
+  OK: 'ok',
+  DEGRADED: 'degraded',
+  UNCONFIGURED: 'unconfigured',
+} as const;
+
+export type ServiceStatus =
+  (typeof SERVICE_STATUS)[keyof typeof SERVICE_STATUS];
+
+export type OverallHealthStatus =
+  | typeof SERVICE_STATUS.OK
+  | typeof SERVICE_STATUS.DEGRADED;
+
+export interface ServiceHealth {
+  configured: boolean;
+  status: ServiceStatus;
+  /** Extra context, e.g. the rate limit store in use */
+  detail?: string;
+  /** Lead pipeline metrics of the service, when it records any */
+  metrics?: ServiceStats;
+}
+
+/**
+ * WhatsApp Cloud API figures recorded by the service monitor
+ */
+export interface WhatsAppServiceSummary {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  /** Failed calls, in percent */
+  errorRate: number;
+  /** Time the Cloud API answered, in percent */
+  uptime: number;
+  averageResponseTimeMs: number;
+  apiCalls: number;
+  apiErrors: number;
+  messagesSent: number;
+  messagesFailed: number;
+  rateLimited: number;
+}
+
+export interface DetailedHealth {
+  status: OverallHealthStatus;
+  timestamp: string;
+  services: Record<HealthService, ServiceHealth>;
+  /** Metrics of every lead sink that recorded a call on this instance */
+  leadPipeline: Record<string, ServiceStats>;
+  /** WhatsApp webhook events by replay protection outcome */
+  whatsappWebhook: WebhookGuardStats;
+  whatsappService: WhatsAppServiceSummary;
+}
+
+interface ServiceCheck {
+  configured: () => boolean;
+  detail?: () => string;
+  /** Lead pipeline metric service that reflects this integration */
+  metricService?: MetricService;
+  /** Integration-specific failure signal */
+  degraded?: () => boolean;
+}
+
+const SERVICE_CHECKS: Record<HealthService, ServiceCheck> = {
+  [HEALTH_SERVICES.RESEND]: {
+    configured: () => Boolean(env.RESEND_API_KEY),
+    metricService: METRIC_SERVICES.RESEND,
+  },
+  [HEALTH_SERVICES.AIRTABLE]: {
+    configured: () => Boolean(env.AIRTABLE_API_KEY && env.AIRTABLE_BASE_ID),
+    metricService: METRIC_SERVICES.AIRTABLE,
+  },
+  [HEALTH_SERVICES.WHATSAPP]: {
+    configured: () =>
+      Boolean(env.WHATSAPP_ACCESS_TOKEN && env.WHATSAPP_PHONE_NUMBER_ID),
+    // Only judge the monitor once the instance has made Cloud API calls
+    degraded: () =>
+      whatsappServiceMonitor.getMetrics().apiCalls > 0 &&
+      whatsappServiceMonitor.getHealth().status === 'unhealthy',
+  },
+  [HEALTH_SERVICES.TURNSTILE]: {
+    configured: () =>
+      Boolean(env.TURNSTILE_SECRET_KEY && env.NEXT_PUBLIC_TURNSTILE_SITE_KEY),
+  },
+  [HEALTH_SERVICES.RATE_LIMIT_STORE]: {
+    // The in-memory fallback does not share limits across instances
+    configured: () => getRateLimitStoreKind() !== 'memory',
+    detail: getRateLimitStoreKind,
+  },
+};
+
+function getOptionalServices(): string[] {
+  return (process.env.HEALTH_OPTIONAL_SERVICES ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function checkService(
+  check: ServiceCheck,
+  metrics: LeadPipelineMetrics,
+): ServiceHealth {
+  const configured = check.configured();
+  const stats = check.metricService
+    ? metrics.getServiceStats(check.metricService)
+    : undefined;
+  const hasCalls =
+    stats !== undefined && stats.successCount + stats.failureCount > 0;
+
+  let status: ServiceStatus = SERVICE_STATUS.OK;
+  if (!configured) status = SERVICE_STATUS.UNCONFIGURED;
+  else if (stats?.alerting || check.degraded?.()) {
+    status = SERVICE_STATUS.DEGRADED;
+  }
+
+  return {
+    configured,
+    status,
+    ...(check.detail && { detail: check.detail() }),
+    ...(hasCalls && { metrics: stats }),
+  };
+}
+
+function isServiceHealthy(
+  service: HealthService,
+  health: ServiceHealth,
+  optionalServices: string[],
+): boolean {
+  if (health.status === SERVICE_STATUS.OK) return true;
+  return (
+    health.status === SERVICE_STATUS.UNCONFIGURED &&
+    optionalServices.includes(service)
+  );
+}
+
+function getWhatsAppServiceSummary(): WhatsAppServiceSummary {
+  const health = whatsappServiceMonitor.getHealth();
+  const metrics = whatsappServiceMonitor.getMetrics();
+  return {
+    status: health.status,
+    errorRate: health.errorRate ?? 0,
+    uptime: metrics.uptime,
+    averageResponseTimeMs: metrics.averageResponseTime,
+    apiCalls: metrics.apiCalls,
+    apiErrors: metrics.apiErrors,
+    messagesSent: metrics.messagesSent,
+    messagesFailed: metrics.messagesFailed,
+    rateLimited: whatsappServiceMonitor.getRateLimitStats().count,
+  };
+}
+
+/**
+ * Build the detailed health report
+ */
+export function getDetailedHealth(
+  metrics: LeadPipelineMetrics = leadPipelineMetrics,
+  now: Date = new Date(),
+): DetailedHealth {
+  const entries = Object.entries(SERVICE_CHECKS) as [
+    HealthService,
+    ServiceCheck,
+  ][];
+  const services = Object.fromEntries(
+    entries.map(([service, check]) => [service, checkService(check, metrics)]),
+  ) as Record<HealthService, ServiceHealth>;
+  const pipelineStats = metrics.getAllServiceStats();
+
+  const optionalServices = getOptionalServices();
+  const healthy =
+    (Object.entries(services) as [HealthService, ServiceHealth][]).every(
+      ([service, health]) =>
+        isServiceHealthy(service, health, optionalServices),
+    ) && pipelineStats.every((stats) => !stats.alerting);
+
+  return {
+    status: healthy ? SERVICE_STATUS.OK : SERVICE_STATUS.DEGRADED,
+    timestamp: now.toISOString(),
+    services,
+    leadPipeline: Object.fromEntries(
+      pipelineStats.map((stats) => [stats.service, stats]),
+    ),
+    whatsappWebhook: getWebhookGuardStats(),
+    whatsappService: getWhatsAppServiceSummary(),
+  };
+}
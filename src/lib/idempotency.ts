@@ -11,6 +11,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
+import { getRedisRestConfig, RedisRestClient } from '@/lib/redis-rest';
 import { HTTP_BAD_REQUEST, HTTP_OK } from '@/constants';
 
 /**
@@ -291,3 +292,168 @@ export function getIdempotencyCacheStats() {
     keys: Array.from(idempotencyCache.keys()),
   };
 }
+
+// ==================== 分布式键占用（跨实例去重） ====================
+
+/**
+ * 分布式幂等键存储
+ *
+ * claim 首次占用返回 true，窗口期内重复占用返回 false；
+ * release 释放占用，使该键可以被再次占用（处理失败后允许重试）。
+ * 与分布式限流共用存储：配置 Upstash Redis / Vercel KV 时跨实例共享，
+ * 否则退回进程内存储（仅单实例有效）。
+ */
+export interface IdempotencyKeyStore {
+  claim(key: string, ttlMs: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+}
+
+/**
+ * 内存存储：每次占用前清理过期键，避免只写不读的键常驻内存
+ */
+export class MemoryIdempotencyKeyStore implements IdempotencyKeyStore {
+  private keys = new Map<string, number>();
+
+  private sweep(now: number): void {
+    for (const [key, expiresAt] of this.keys.entries()) {
+      if (expiresAt <= now) this.keys.delete(key);
+    }
+  }
+
+  claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    this.sweep(now);
+    if (this.keys.has(key)) {
+      return Promise.resolve(false);
+    }
+    this.keys.set(key, now + ttlMs);
+    return Promise.resolve(true);
+  }
+
+  release(key: string): Promise<void> {
+    this.keys.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * 当前未过期的键数量（用于测试）
+   */
+  get size(): number {
+    return this.keys.size;
+  }
+}
+
+/**
+ * Redis REST 存储（Upstash Redis / Vercel KV），使用 SET NX PX 原子占用
+ */
+export class RedisIdempotencyKeyStore implements IdempotencyKeyStore {
+  private redis: RedisRestClient;
+
+  constructor(url: string, token: string) {
+    this.redis = new RedisRestClient(url, token, 'Idempotency store');
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.command<string | null>([
+      'SET',
+      `idempotency:${key}`,
+      '1',
+      'NX',
+      'PX',
+      Math.ceil(ttlMs),
+    ]);
+    return result === 'OK';
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.command(['DEL', `idempotency:${key}`]);
+  }
+}
+
+function createIdempotencyKeyStore(): IdempotencyKeyStore {
+  const redis = getRedisRestConfig();
+  return redis
+    ? new RedisIdempotencyKeyStore(redis.url, redis.token)
+    : new MemoryIdempotencyKeyStore();
+}
+
+let idempotencyKeyStore: IdempotencyKeyStore | null = null;
+
+function getIdempotencyKeyStore(): IdempotencyKeyStore {
+  if (!idempotencyKeyStore) {
+    idempotencyKeyStore = createIdempotencyKeyStore();
+  }
+  return idempotencyKeyStore;
+}
+
+/**
+ * 占用幂等键
+ *
+ * @returns 首次占用返回 true；ttlMs 内已被任一实例占用返回 false
+ * 存储不可用时抛出异常，由调用方决定放行还是拒绝。
+ */
+export function claimIdempotencyKey(
+  key: string,
+  ttlMs: number,
+): Promise<boolean> {
+  return getIdempotencyKeyStore().claim(key, ttlMs);
+}
+
+/**
+ * 释放已占用的幂等键
+ *
+ * 存储不可用时抛出异常；键会保留到 ttlMs 到期。
+ */
+export function releaseIdempotencyKey(key: string): Promise<void> {
+  return getIdempotencyKeyStore().release(key);
+}
+
+/**
+ * 以幂等键作为锁执行任务，同一时间只有一个实例执行（如队列 drain）
+ *
+ * @returns 任务结果；锁已被其他执行占用时返回 null
+ * 占用锁时存储不可用则直接执行（宁可并发也不停摆）；ttlMs 应长于任务的最长
+ * 执行时间，进程中途退出时锁在 ttlMs 后自动失效。
+ */
+export async function runExclusively<T>(
+  key: string,
+  ttlMs: number,
+  task: () => Promise<T>,
+): Promise<T | null> {
+  let locked: boolean;
+  try {
+    locked = await claimIdempotencyKey(key, ttlMs);
+  } catch (error) {
+    logger.warn('[Idempotency] Lock store unavailable, running task', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    locked = true;
+  }
+  if (!locked) return null;
+
+  try {
+    return await task();
+  } finally {
+    await releaseIdempotencyKey(key).catch((error: unknown) => {
+      logger.warn('[Idempotency] Failed to release lock', {
+        key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  }
+}
+
+/**
+ * 替换键存储（用于测试或自定义存储）
+ */
+export function setIdempotencyKeyStore(store: IdempotencyKeyStore): void {
+  idempotencyKeyStore = store;
+}
+
+/**
+ * 重置键存储（用于测试）
+ */
+export function resetIdempotencyKeyStore(): void {
+  idempotencyKeyStore = null;
+}
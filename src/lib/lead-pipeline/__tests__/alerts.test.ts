@@ -0,0 +1,260 @@
+/**
+ * Pipeline Alert Tests
+ * Tests for alert transports, per-channel cooldowns and recovery delivery
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ALERT_DELIVERY_STATUS,
+  dispatchPipelineAlert,
+  getAlertCooldownMs,
+  resetAlertDispatchState,
+} from '../alerts/dispatcher';
+import { emailAlertTransport } from '../alerts/email-transport';
+import {
+  registerAlertTransport,
+  resetAlertTransportRegistry,
+} from '../alerts/registry';
+import {
+  formatSlackAlertMessage,
+  slackAlertTransport,
+} from '../alerts/slack-transport';
+import {
+  PIPELINE_ALERT_TYPES,
+  type AlertTransport,
+  type PipelineAlert,
+} from '../alerts/types';
+import {
+  ALERT_WEBHOOK_EVENTS,
+  webhookAlertTransport,
+} from '../alerts/webhook-transport';
+import { whatsappAlertTransport } from '../alerts/whatsapp-transport';
+
+const mockSendAlertEmail = vi.hoisted(() => vi.fn());
+const mockSendWhatsAppText = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/resend', () => ({
+  resendService: { sendAlertEmail: mockSendAlertEmail },
+}));
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  sendWhatsAppText: mockSendWhatsAppText,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const MINUTE = 60_000;
+
+const failureAlert: PipelineAlert = {
+  type: PIPELINE_ALERT_TYPES.FAILURE,
+  service: 'airtable',
+  consecutiveFailures: 5,
+  threshold: 5,
+  lastErrorType: 'timeout',
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+const recoveryAlert: PipelineAlert = {
+  ...failureAlert,
+  type: PIPELINE_ALERT_TYPES.RECOVERY,
+  lastErrorType: undefined,
+};
+
+function createTransport(id: string, cooldownMs: number): AlertTransport {
+  return {
+    id,
+    cooldownMs,
+    isConfigured: () => true,
+    send: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+const mockFetch = vi.fn();
+
+describe('alert transports', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('should sign webhook alerts when a secret is set', async () => {
+    vi.stubEnv('ALERT_WEBHOOK_URL', 'https://alerts.example.com/hook');
+    vi.stubEnv('ALERT_WEBHOOK_SECRET', 'alert-secret');
+
+    await webhookAlertTransport.send(failureAlert);
+
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://alerts.example.com/hook');
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      event: ALERT_WEBHOOK_EVENTS.failure,
+      service: 'airtable',
+      consecutiveFailures: 5,
+    });
+    expect(
+      (init.headers as Record<string, string>)['X-Alert-Signature'],
+    ).toMatch(/^sha256=[a-f0-9]{64}$/);
+  });
+
+  it('should throw when the webhook responds with an error', async () => {
+    vi.stubEnv('ALERT_WEBHOOK_URL', 'https://alerts.example.com/hook');
+    mockFetch.mockResolvedValue(new Response(null, { status: 500 }));
+
+    await expect(webhookAlertTransport.send(failureAlert)).rejects.toThrow(
+      'Alert webhook request failed: 500',
+    );
+  });
+
+  it('should post Slack-compatible messages', async () => {
+    vi.stubEnv('ALERT_SLACK_WEBHOOK_URL', 'https://hooks.slack.test/x');
+
+    await slackAlertTransport.send(recoveryAlert);
+
+    const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(String(init.body))).toEqual({
+      text: formatSlackAlertMessage(recoveryAlert),
+    });
+    expect(formatSlackAlertMessage(recoveryAlert)).toContain(
+      '[RESOLVED] Lead pipeline: airtable recovered',
+    );
+    expect(formatSlackAlertMessage(failureAlert)).toContain(
+      'Last error type: timeout',
+    );
+    expect(
+      formatSlackAlertMessage({ ...failureAlert, service: '<!here>' }),
+    ).toContain('*[ALERT] Lead pipeline: &lt;!here&gt; is failing*');
+  });
+
+  it('should email the configured recipients', async () => {
+    vi.stubEnv('ALERT_EMAIL_TO', 'ops@example.com, oncall@example.com');
+    mockSendAlertEmail.mockResolvedValue('email-1');
+
+    expect(emailAlertTransport.isConfigured()).toBe(true);
+    await emailAlertTransport.send(failureAlert);
+
+    expect(mockSendAlertEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subject: '[ALERT] Lead pipeline: airtable is failing',
+      }),
+      { to: ['ops@example.com', 'oncall@example.com'] },
+    );
+  });
+
+  it('should message every WhatsApp recipient and report failures', async () => {
+    vi.stubEnv('ALERT_WHATSAPP_TO', '+15550001,+15550002');
+    mockSendWhatsAppText
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: 'outside window' });
+
+    await expect(whatsappAlertTransport.send(failureAlert)).rejects.toThrow(
+      'WhatsApp alert failed: outside window',
+    );
+    expect(mockSendWhatsAppText).toHaveBeenCalledTimes(2);
+    expect(mockSendWhatsAppText).toHaveBeenCalledWith(
+      '+15550002',
+      expect.stringContaining('airtable failed 5 times in a row'),
+    );
+  });
+
+  it('should report unconfigured built-in transports', () => {
+    expect(webhookAlertTransport.isConfigured()).toBe(false);
+    expect(slackAlertTransport.isConfigured()).toBe(false);
+    expect(emailAlertTransport.isConfigured()).toBe(false);
+    expect(whatsappAlertTransport.isConfigured()).toBe(false);
+  });
+});
+
+describe('dispatchPipelineAlert', () => {
+  const now = Date.parse('2025-01-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    resetAlertDispatchState();
+  });
+
+  afterEach(() => {
+    resetAlertTransportRegistry();
+    vi.unstubAllEnvs();
+  });
+
+  it('should skip transports that are not configured', async () => {
+    expect(await dispatchPipelineAlert(failureAlert, now)).toEqual([]);
+  });
+
+  it('should apply each transport cooldown separately', async () => {
+    const fast = createTransport('fast', MINUTE);
+    const slow = createTransport('slow', 60 * MINUTE);
+    registerAlertTransport(fast);
+    registerAlertTransport(slow);
+
+    await dispatchPipelineAlert(failureAlert, now);
+    const results = await dispatchPipelineAlert(failureAlert, now + 2 * MINUTE);
+
+    expect(results).toEqual([
+      { transport: 'fast', status: ALERT_DELIVERY_STATUS.SENT },
+      { transport: 'slow', status: ALERT_DELIVERY_STATUS.SKIPPED },
+    ]);
+    expect(fast.send).toHaveBeenCalledTimes(2);
+    expect(slow.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track cooldowns per service', async () => {
+    const transport = createTransport('ops', 60 * MINUTE);
+    registerAlertTransport(transport);
+
+    await dispatchPipelineAlert(failureAlert, now);
+    await dispatchPipelineAlert({ ...failureAlert, service: 'resend' }, now);
+
+    expect(transport.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send recoveries only where a failure alert was delivered', async () => {
+    const alerted = createTransport('alerted', MINUTE);
+    registerAlertTransport(alerted);
+    await dispatchPipelineAlert(failureAlert, now);
+
+    const late = createTransport('late', MINUTE);
+    registerAlertTransport(late);
+    const results = await dispatchPipelineAlert(recoveryAlert, now + 1);
+
+    expect(results).toEqual([
+      { transport: 'alerted', status: ALERT_DELIVERY_STATUS.SENT },
+      { transport: 'late', status: ALERT_DELIVERY_STATUS.SKIPPED },
+    ]);
+
+    // Recovery clears the cooldown, so a new outage alerts immediately
+    await dispatchPipelineAlert(failureAlert, now + 2);
+    expect(alerted.send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry a failed transport on the next alert', async () => {
+    const flaky = createTransport('flaky', 60 * MINUTE);
+    vi.mocked(flaky.send).mockRejectedValueOnce(new Error('down'));
+    registerAlertTransport(flaky);
+
+    const [first] = await dispatchPipelineAlert(failureAlert, now);
+    const [second] = await dispatchPipelineAlert(failureAlert, now + 1);
+
+    expect(first?.status).toBe(ALERT_DELIVERY_STATUS.FAILED);
+    expect(second?.status).toBe(ALERT_DELIVERY_STATUS.SENT);
+  });
+
+  it('should let the environment override a cooldown', () => {
+    vi.stubEnv('ALERT_COOLDOWN_MINUTES_EMAIL', '5');
+
+    expect(getAlertCooldownMs(emailAlertTransport)).toBe(5 * MINUTE);
+    expect(getAlertCooldownMs(slackAlertTransport)).toBe(
+      slackAlertTransport.cooldownMs,
+    );
+  });
+});
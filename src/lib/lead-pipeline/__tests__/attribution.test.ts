@@ -0,0 +1,103 @@
+/**
+ * Lead Attribution Tests
+ * Tests for attribution extraction, labelling and summaries
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  extractAttribution,
+  formatAttributionSummary,
+  getAttributionEntries,
+} from '../attribution';
+import { LEAD_TYPES, leadSchema } from '../lead-schema';
+
+vi.unmock('zod');
+
+describe('extractAttribution', () => {
+  it('should pick attribution fields from a request body', () => {
+    const attribution = extractAttribution({
+      email: 'john@example.com',
+      utmSource: 'google',
+      utmCampaign: 'spring_sale',
+      gclid: 'g123',
+    });
+
+    expect(attribution).toEqual({
+      utmSource: 'google',
+      utmCampaign: 'spring_sale',
+      gclid: 'g123',
+    });
+  });
+
+  it('should pick attribution fields from FormData', () => {
+    const formData = new FormData();
+    formData.append('utmMedium', 'cpc');
+    formData.append('msclkid', 'm789');
+
+    expect(extractAttribution(formData)).toEqual({
+      utmMedium: 'cpc',
+      msclkid: 'm789',
+    });
+  });
+
+  it('should drop invalid values instead of failing', () => {
+    const attribution = extractAttribution({
+      utmSource: '<script>',
+      utmMedium: 'email',
+      utmTerm: 42,
+      fbclid: 'x'.repeat(300),
+    });
+
+    expect(attribution).toEqual({ utmMedium: 'email' });
+  });
+
+  it('should return undefined when nothing is present', () => {
+    expect(extractAttribution({ email: 'john@example.com' })).toBeUndefined();
+    expect(extractAttribution(null)).toBeUndefined();
+    expect(extractAttribution(new FormData())).toBeUndefined();
+  });
+});
+
+describe('getAttributionEntries', () => {
+  it('should list populated fields in display order with labels', () => {
+    expect(
+      getAttributionEntries({ gclid: 'g123', utmSource: 'google' }),
+    ).toEqual([
+      { field: 'utmSource', label: 'UTM Source', value: 'google' },
+      { field: 'gclid', label: 'GCLID', value: 'g123' },
+    ]);
+    expect(getAttributionEntries(undefined)).toEqual([]);
+  });
+});
+
+describe('formatAttributionSummary', () => {
+  it('should join entries into one line', () => {
+    expect(
+      formatAttributionSummary({ utmSource: 'google', utmMedium: 'cpc' }),
+    ).toBe('UTM Source: google, UTM Medium: cpc');
+    expect(formatAttributionSummary({})).toBeUndefined();
+  });
+});
+
+describe('leadSchema attribution', () => {
+  it('should keep valid attribution on every lead type', () => {
+    const result = leadSchema.safeParse({
+      type: LEAD_TYPES.NEWSLETTER,
+      email: 'reader@example.com',
+      attribution: { utmSource: 'newsletter_swap' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.attribution).toEqual({ utmSource: 'newsletter_swap' });
+  });
+
+  it('should reject malformed attribution values', () => {
+    const result = leadSchema.safeParse({
+      type: LEAD_TYPES.NEWSLETTER,
+      email: 'reader@example.com',
+      attribution: { utmSource: 'bad value!' },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
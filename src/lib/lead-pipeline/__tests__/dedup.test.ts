@@ -0,0 +1,250 @@
+/**
+ * Lead Dedup Tests
+ * Tests for the merge window, deferred notifications and activity merging
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildDedupKey, getLeadDedupConfig } from '../dedup';
+import { drainLeadOutbox, submitLeadToOutbox } from '../lead-outbox';
+import { LEAD_TYPES, type LeadInput } from '../lead-schema';
+import { MemoryLeadOutboxStore } from '../outbox/memory-store';
+import { resetLeadOutboxStore, setLeadOutboxStore } from '../outbox/store';
+import { DELIVERY_STATUS, type OutboxLead } from '../outbox/types';
+import { processLead } from '../process-lead';
+import { LEAD_SINK_IDS } from '../sinks/types';
+
+vi.unmock('zod');
+
+const mockCreateLead = vi.hoisted(() => vi.fn());
+const mockAppendLeadActivity = vi.hoisted(() => vi.fn());
+const mockSendContactFormEmail = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/resend', () => ({
+  resendService: {
+    sendContactFormEmail: mockSendContactFormEmail,
+    sendConfirmationEmail: vi.fn(),
+    sendProductInquiryEmail: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/airtable', () => ({
+  airtableService: {
+    createLead: mockCreateLead,
+    appendLeadActivity: mockAppendLeadActivity,
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  sanitizeEmail: (email: string) => email,
+}));
+
+vi.mock('@/config/contact-form-config', () => ({
+  CONTACT_FORM_CONFIG: {
+    features: { sendConfirmationEmail: false },
+  },
+}));
+
+const WINDOW_MS = 10 * 60 * 1000;
+
+const contactLead = {
+  type: LEAD_TYPES.CONTACT,
+  fullName: 'John Doe',
+  email: 'John@Example.com',
+  company: 'Acme',
+  subject: 'other',
+  message: 'This is a test message with enough characters.',
+  turnstileToken: 'token',
+  marketingConsent: false,
+} as LeadInput;
+
+const productLead = {
+  type: LEAD_TYPES.PRODUCT,
+  fullName: 'John Doe',
+  email: 'john@example.com',
+  company: 'Acme Inc',
+  productSlug: 'pump',
+  productName: 'Pump',
+  quantity: 10,
+  marketingConsent: false,
+} as LeadInput;
+
+describe('lead dedup', () => {
+  let store: MemoryLeadOutboxStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('LEAD_DEDUP_WINDOW_MINUTES', '10');
+    vi.stubEnv('LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES', '5');
+    store = new MemoryLeadOutboxStore();
+    setLeadOutboxStore(store);
+    mockCreateLead.mockResolvedValue({ id: 'rec-1' });
+    mockAppendLeadActivity.mockResolvedValue('rec-1');
+    mockSendContactFormEmail.mockResolvedValue('msg-1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetLeadOutboxStore();
+  });
+
+  describe('getLeadDedupConfig', () => {
+    it('should read the window in minutes', () => {
+      expect(getLeadDedupConfig()).toEqual({
+        windowMs: WINDOW_MS,
+        matchCompany: false,
+      });
+    });
+
+    it('should disable dedup for missing or invalid values', () => {
+      vi.stubEnv('LEAD_DEDUP_WINDOW_MINUTES', 'soon');
+      expect(getLeadDedupConfig().windowMs).toBe(0);
+      vi.stubEnv('LEAD_DEDUP_WINDOW_MINUTES', '');
+      expect(getLeadDedupConfig().windowMs).toBe(0);
+    });
+
+    it('should refuse a window the outbox is not drained within', () => {
+      vi.stubEnv('LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES', '');
+      expect(getLeadDedupConfig().windowMs).toBe(0);
+      vi.stubEnv('LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES', '1440');
+      expect(getLeadDedupConfig().windowMs).toBe(0);
+      vi.stubEnv('LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES', '10');
+      expect(getLeadDedupConfig().windowMs).toBe(WINDOW_MS);
+    });
+  });
+
+  describe('buildDedupKey', () => {
+    it('should normalize email and optionally company', () => {
+      const lead = contactLead as OutboxLead;
+
+      expect(buildDedupKey(lead, { matchCompany: false })).toBe(
+        'john@example.com',
+      );
+      expect(
+        buildDedupKey({ ...lead, company: '  ACME   Corp ' } as OutboxLead, {
+          matchCompany: true,
+        }),
+      ).toBe('john@example.com|acme corp');
+    });
+
+    it('should never deduplicate newsletter signups', () => {
+      expect(
+        buildDedupKey(
+          { type: LEAD_TYPES.NEWSLETTER, email: 'a@example.com' },
+          { matchCompany: false },
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('merge window', () => {
+    it('should deliver CRM now and defer the notification email', async () => {
+      const { entry, results } = await submitLeadToOutbox(contactLead, 'CON-1');
+
+      expect(results.map((result) => result.target)).toEqual([
+        LEAD_SINK_IDS.CRM,
+      ]);
+      expect(mockSendContactFormEmail).not.toHaveBeenCalled();
+      expect(entry.dedupKey).toBe('john@example.com');
+      const email = entry.deliveries.find(
+        (delivery) => delivery.target === LEAD_SINK_IDS.EMAIL,
+      );
+      expect(email?.status).toBe(DELIVERY_STATUS.PENDING);
+      expect(email?.nextAttemptAt).toBeGreaterThanOrEqual(
+        Date.parse(entry.createdAt) + WINDOW_MS,
+      );
+    });
+
+    it('should merge repeat submissions and send one consolidated email', async () => {
+      const { entry: primary } = await submitLeadToOutbox(contactLead, 'CON-1');
+      const { entry: merged, results } = await submitLeadToOutbox(
+        productLead,
+        'PRO-2',
+      );
+
+      expect(merged.mergedInto).toBe('CON-1');
+      expect(results.map((result) => result.target)).toEqual([
+        LEAD_SINK_IDS.CRM,
+      ]);
+      expect(mockCreateLead).toHaveBeenCalledTimes(1);
+      expect(mockAppendLeadActivity).toHaveBeenCalledWith(
+        'CON-1',
+        expect.stringContaining('Product: Pump'),
+      );
+
+      await drainLeadOutbox({ now: (primary.nextAttemptAt ?? 0) + 1 });
+
+      expect(mockSendContactFormEmail).toHaveBeenCalledTimes(1);
+      expect(mockSendContactFormEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          activities: [
+            expect.objectContaining({
+              referenceId: 'PRO-2',
+              leadType: LEAD_TYPES.PRODUCT,
+            }),
+          ],
+        }),
+        { to: [] },
+      );
+    });
+
+    it('should keep merged activities when a stale copy of the primary is saved', async () => {
+      const { entry: primary } = await submitLeadToOutbox(contactLead, 'CON-1');
+      await submitLeadToOutbox(productLead, 'PRO-2');
+
+      // The primary's own delivery persists the copy it read before the merge
+      await store.save({ ...primary, updatedAt: new Date().toISOString() });
+
+      const stored = await store.get('CON-1');
+      expect(
+        stored?.activities?.map((activity) => activity.referenceId),
+      ).toEqual(['PRO-2']);
+    });
+
+    it('should not merge leads from different companies when configured', async () => {
+      vi.stubEnv('LEAD_DEDUP_MATCH_COMPANY', 'true');
+      await submitLeadToOutbox(contactLead, 'CON-1');
+
+      const { entry } = await submitLeadToOutbox(productLead, 'PRO-2');
+
+      expect(entry.mergedInto).toBeUndefined();
+      expect(mockCreateLead).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send notifications inline when the outbox is unavailable', async () => {
+      setLeadOutboxStore({
+        save: vi.fn().mockRejectedValue(new Error('store down')),
+        get: vi.fn(),
+        listDue: vi.fn(),
+        findByDedupKey: vi.fn().mockResolvedValue(null),
+        listCreatedBetween: vi.fn(),
+        appendActivity: vi.fn(),
+      });
+
+      const { results } = await submitLeadToOutbox(contactLead, 'CON-1');
+
+      expect(results.map((result) => result.target).sort()).toEqual([
+        LEAD_SINK_IDS.CRM,
+        LEAD_SINK_IDS.EMAIL,
+      ]);
+    });
+  });
+
+  describe('processLead', () => {
+    it('should report merged submissions as accepted', async () => {
+      const first = await processLead(contactLead);
+      mockAppendLeadActivity.mockRejectedValue(new Error('not found yet'));
+      const second = await processLead(productLead);
+
+      expect(first).toMatchObject({ success: true, emailSent: false });
+      expect(second).toMatchObject({
+        success: true,
+        mergedInto: first.referenceId,
+      });
+    });
+  });
+});
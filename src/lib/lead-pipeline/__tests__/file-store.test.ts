@@ -0,0 +1,188 @@
+/**
+ * File Lead Outbox Store Tests
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileLeadOutboxStore } from '../outbox/file-store';
+import { OUTBOX_ENTRY_STATUS, type LeadOutboxEntry } from '../outbox/types';
+
+function buildEntry(
+  id: string,
+  overrides: Partial<LeadOutboxEntry> = {},
+): LeadOutboxEntry {
+  const timestamp = new Date().toISOString();
+  return {
+    id,
+    leadType: 'newsletter',
+    lead: { type: 'newsletter', email: 'reader@example.com' },
+    status: OUTBOX_ENTRY_STATUS.PENDING,
+    deliveries: [],
+    nextAttemptAt: Date.now(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+}
+
+describe('FileLeadOutboxStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'lead-outbox-'));
+    filePath = path.join(dir, 'nested', 'outbox.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return nothing when the file does not exist yet', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+
+    expect(await store.get('missing')).toBeNull();
+    expect(await store.listDue(Date.now(), 10)).toEqual([]);
+  });
+
+  it('should persist entries across store instances', async () => {
+    await new FileLeadOutboxStore(filePath).save(buildEntry('NEW-1'));
+
+    const reopened = new FileLeadOutboxStore(filePath);
+    expect((await reopened.get('NEW-1'))?.id).toBe('NEW-1');
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- test temp file
+    const raw = JSON.parse(await readFile(filePath, 'utf8'));
+    expect(raw.entries).toHaveLength(1);
+  });
+
+  it('should replace entries with the same id', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+    await Promise.all([
+      store.save(buildEntry('NEW-1')),
+      store.save(buildEntry('NEW-2')),
+      store.save(
+        buildEntry('NEW-1', {
+          status: OUTBOX_ENTRY_STATUS.COMPLETED,
+          nextAttemptAt: null,
+        }),
+      ),
+    ]);
+
+    expect((await store.get('NEW-1'))?.status).toBe(
+      OUTBOX_ENTRY_STATUS.COMPLETED,
+    );
+    expect((await store.get('NEW-2'))?.id).toBe('NEW-2');
+  });
+
+  it('should keep appended activities when a stale copy is saved', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+    const entry = buildEntry('CON-1', { leadType: 'contact' });
+    await store.save(entry);
+
+    await store.appendActivity('CON-1', {
+      referenceId: 'PRO-2',
+      leadType: 'product',
+      submittedAt: new Date().toISOString(),
+      summary: 'Product: Pump',
+    });
+    await store.save({ ...entry, updatedAt: new Date().toISOString() });
+
+    expect(
+      (await store.get('CON-1'))?.activities?.map(
+        (activity) => activity.referenceId,
+      ),
+    ).toEqual(['PRO-2']);
+  });
+
+  it('should reject activities for unknown entries', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+
+    await expect(
+      store.appendActivity('missing', {
+        referenceId: 'PRO-2',
+        leadType: 'product',
+        submittedAt: new Date().toISOString(),
+        summary: 'Product: Pump',
+      }),
+    ).rejects.toThrow('not found');
+  });
+
+  it('should only list pending entries that are due', async () => {
+    const now = Date.now();
+    const store = new FileLeadOutboxStore(filePath);
+    await store.save(buildEntry('due', { nextAttemptAt: now - 1 }));
+    await store.save(buildEntry('later', { nextAttemptAt: now + 60_000 }));
+    await store.save(
+      buildEntry('done', {
+        status: OUTBOX_ENTRY_STATUS.COMPLETED,
+        nextAttemptAt: null,
+      }),
+    );
+
+    const due = await store.listDue(now, 10);
+    expect(due.map((entry) => entry.id)).toEqual(['due']);
+  });
+
+  it('should prune settled entries past retention', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+    await store.save(
+      buildEntry('old', {
+        status: OUTBOX_ENTRY_STATUS.COMPLETED,
+        nextAttemptAt: null,
+        updatedAt: '2000-01-01T00:00:00.000Z',
+      }),
+    );
+    await store.save(buildEntry('new'));
+
+    expect(await store.get('old')).toBeNull();
+    expect((await store.get('new'))?.id).toBe('new');
+  });
+
+  it('should find the newest unmerged entry for a dedup key', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+    const now = Date.now();
+    await store.save(
+      buildEntry('older', {
+        dedupKey: 'buyer@example.com',
+        createdAt: new Date(now - 2000).toISOString(),
+      }),
+    );
+    await store.save(
+      buildEntry('newer', {
+        dedupKey: 'buyer@example.com',
+        createdAt: new Date(now - 1000).toISOString(),
+      }),
+    );
+    await store.save(
+      buildEntry('merged', {
+        dedupKey: 'buyer@example.com',
+        mergedInto: 'newer',
+        createdAt: new Date(now).toISOString(),
+      }),
+    );
+
+    expect(
+      (await store.findByDedupKey('buyer@example.com', now - 5000))?.id,
+    ).toBe('newer');
+    expect(await store.findByDedupKey('buyer@example.com', now)).toBeNull();
+    expect(await store.findByDedupKey('other@example.com', 0)).toBeNull();
+  });
+
+  it('should list entries created within a range, oldest first', async () => {
+    const store = new FileLeadOutboxStore(filePath);
+    const at = (iso: string) => ({ createdAt: iso, updatedAt: iso });
+    await store.save(buildEntry('late', at('2026-03-02T18:00:00.000Z')));
+    await store.save(buildEntry('early', at('2026-03-02T09:00:00.000Z')));
+    await store.save(buildEntry('outside', at('2026-03-03T09:00:00.000Z')));
+
+    const entries = await store.listCreatedBetween(
+      Date.parse('2026-03-02T00:00:00.000Z'),
+      Date.parse('2026-03-02T23:59:59.999Z'),
+    );
+
+    expect(entries.map((entry) => entry.id)).toEqual(['early', 'late']);
+  });
+});
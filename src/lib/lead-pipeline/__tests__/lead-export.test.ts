@@ -0,0 +1,268 @@
+/**
+ * Lead Export and Replay Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  findOutboxLeads,
+  formatLeadExport,
+  LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_FORMATS,
+  REPLAY_TURNSTILE_TOKEN,
+  replayOutboxLeads,
+  toLeadExportRecord,
+  toReplayInput,
+} from '../lead-export';
+import { LEAD_TYPES } from '../lead-schema';
+import { MemoryLeadOutboxStore } from '../outbox/memory-store';
+import { resetLeadOutboxStore, setLeadOutboxStore } from '../outbox/store';
+import {
+  DELIVERY_STATUS,
+  OUTBOX_ENTRY_STATUS,
+  type LeadOutboxEntry,
+} from '../outbox/types';
+import { LEAD_SINK_IDS } from '../sinks/types';
+
+vi.unmock('zod');
+
+const mockCreateLead = vi.hoisted(() => vi.fn());
+const mockSendContactFormEmail = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/resend', () => ({
+  resendService: {
+    sendContactFormEmail: mockSendContactFormEmail,
+    sendConfirmationEmail: vi.fn(),
+    sendProductInquiryEmail: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/airtable', () => ({
+  airtableService: {
+    createLead: mockCreateLead,
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  sanitizeEmail: (email: string | undefined | null) =>
+    email ? '[REDACTED_EMAIL]' : '[NO_EMAIL]',
+  sanitizeCompany: (company: string | undefined | null) =>
+    company ? '[REDACTED]' : '[NO_COMPANY]',
+}));
+
+function buildContactEntry(
+  id: string,
+  overrides: Partial<LeadOutboxEntry> = {},
+): LeadOutboxEntry {
+  return {
+    id,
+    leadType: LEAD_TYPES.CONTACT,
+    lead: {
+      type: LEAD_TYPES.CONTACT,
+      fullName: 'Jane Doe',
+      email: 'jane@acme.com',
+      company: 'Acme',
+      phone: '+1 555 010 2030',
+      subject: 'other',
+      message: 'Please send the catalog.',
+      marketingConsent: false,
+      whatsappOptIn: false,
+    },
+    status: OUTBOX_ENTRY_STATUS.PENDING,
+    deliveries: [
+      {
+        target: LEAD_SINK_IDS.EMAIL,
+        status: DELIVERY_STATUS.DELIVERED,
+        attempts: 1,
+        nextAttemptAt: null,
+      },
+      {
+        target: LEAD_SINK_IDS.CRM,
+        status: DELIVERY_STATUS.PENDING,
+        attempts: 2,
+        nextAttemptAt: Date.now() + 60_000,
+        lastError: 'Airtable down',
+      },
+    ],
+    nextAttemptAt: Date.now() + 60_000,
+    createdAt: '2026-03-02T10:00:00.000Z',
+    updatedAt: '2026-03-02T10:00:00.000Z',
+    qualification: { score: 20, route: 'general', matchedRules: [] },
+    ...overrides,
+  };
+}
+
+const MARCH_2 = {
+  from: Date.parse('2026-03-02T00:00:00.000Z'),
+  to: Date.parse('2026-03-02T23:59:59.999Z'),
+};
+
+describe('lead export', () => {
+  let store: MemoryLeadOutboxStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = new MemoryLeadOutboxStore();
+    setLeadOutboxStore(store);
+  });
+
+  afterEach(() => {
+    resetLeadOutboxStore();
+  });
+
+  describe('findOutboxLeads', () => {
+    it('should select entries by date range and failed sink', async () => {
+      await store.save(buildContactEntry('CON-1'));
+      await store.save(
+        buildContactEntry('CON-2', {
+          status: OUTBOX_ENTRY_STATUS.COMPLETED,
+          deliveries: [],
+        }),
+      );
+      await store.save(
+        buildContactEntry('CON-3', { createdAt: '2026-03-04T10:00:00.000Z' }),
+      );
+
+      const entries = await findOutboxLeads({
+        ...MARCH_2,
+        undeliveredTo: LEAD_SINK_IDS.CRM,
+      });
+
+      expect(entries.map((entry) => entry.id)).toEqual(['CON-1']);
+    });
+
+    it('should filter by type, status and reference ID', async () => {
+      await store.save(buildContactEntry('CON-1'));
+      await store.save(buildContactEntry('CON-2'));
+
+      expect(
+        await findOutboxLeads({ ...MARCH_2, leadTypes: [LEAD_TYPES.PRODUCT] }),
+      ).toEqual([]);
+      expect(
+        await findOutboxLeads({
+          ...MARCH_2,
+          statuses: [OUTBOX_ENTRY_STATUS.PENDING],
+          ids: ['CON-2'],
+        }),
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('toLeadExportRecord', () => {
+    it('should flatten the lead and its delivery state', () => {
+      const record = toLeadExportRecord(buildContactEntry('CON-1'));
+
+      expect(record).toMatchObject({
+        referenceId: 'CON-1',
+        email: 'jane@acme.com',
+        fullName: 'Jane Doe',
+        subject: 'other',
+        message: 'Please send the catalog.',
+        route: 'general',
+        score: '20',
+        deliveries: 'email:delivered;crm:pending',
+        lastErrors: 'crm:Airtable down',
+      });
+    });
+
+    it('should redact the selected PII fields like the logger', () => {
+      const record = toLeadExportRecord(buildContactEntry('CON-1'), [
+        'email',
+        'company',
+        'phone',
+      ]);
+
+      expect(record.email).toBe('[REDACTED_EMAIL]');
+      expect(record.company).toBe('[REDACTED]');
+      expect(record.phone).toBe('[REDACTED]');
+      expect(record.fullName).toBe('Jane Doe');
+    });
+  });
+
+  describe('formatLeadExport', () => {
+    it('should write a CSV header and escape cells', () => {
+      const entry = buildContactEntry('CON-1');
+      const record = toLeadExportRecord({
+        ...entry,
+        lead: {
+          ...entry.lead,
+          fullName: 'Doe, "JD"',
+          message: '=HYPERLINK("x")',
+        } as LeadOutboxEntry['lead'],
+      });
+
+      const [header, row] = formatLeadExport(
+        [record],
+        LEAD_EXPORT_FORMATS.CSV,
+      ).split('\n');
+
+      expect(header).toBe(LEAD_EXPORT_COLUMNS.join(','));
+      expect(row).toContain('"Doe, ""JD"""');
+      expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+    });
+
+    it('should write JSON records', () => {
+      const record = toLeadExportRecord(buildContactEntry('CON-1'));
+
+      const parsed = JSON.parse(
+        formatLeadExport([record], LEAD_EXPORT_FORMATS.JSON),
+      );
+
+      expect(parsed).toEqual([record]);
+    });
+  });
+
+  describe('replayOutboxLeads', () => {
+    it('should add a placeholder Turnstile token to contact leads', () => {
+      const input = toReplayInput(buildContactEntry('CON-1').lead);
+
+      expect(input).toMatchObject({ turnstileToken: REPLAY_TURNSTILE_TOKEN });
+    });
+
+    it('should report planned deliveries without sending on dry runs', async () => {
+      const results = await replayOutboxLeads(
+        [
+          buildContactEntry('CON-1'),
+          buildContactEntry('CON-2', { mergedInto: 'CON-1' }),
+        ],
+        { sinks: [LEAD_SINK_IDS.CRM], dryRun: true },
+      );
+
+      expect(results).toEqual([
+        { referenceId: 'CON-1', targets: [LEAD_SINK_IDS.CRM] },
+        { referenceId: 'CON-2', targets: [], skipped: 'merged' },
+      ]);
+      expect(mockCreateLead).not.toHaveBeenCalled();
+    });
+
+    it('should skip leads not routed to the selected sinks', async () => {
+      const results = await replayOutboxLeads([buildContactEntry('CON-1')], {
+        sinks: ['unknown_sink'],
+      });
+
+      expect(results[0]?.skipped).toBe('no_matching_sinks');
+    });
+
+    it('should re-submit leads to the selected sinks only', async () => {
+      mockCreateLead.mockResolvedValue({ id: 'rec-1' });
+
+      const [replayed] = await replayOutboxLeads([buildContactEntry('CON-1')], {
+        sinks: [LEAD_SINK_IDS.CRM],
+      });
+
+      expect(replayed?.result?.success).toBe(true);
+      expect(mockCreateLead).toHaveBeenCalledTimes(1);
+      expect(mockSendContactFormEmail).not.toHaveBeenCalled();
+
+      const stored = await store.get(replayed?.result?.referenceId ?? '');
+      expect(stored?.replayOf).toBe('CON-1');
+      expect(stored?.deliveries.map((delivery) => delivery.target)).toEqual([
+        LEAD_SINK_IDS.CRM,
+      ]);
+    });
+  });
+});
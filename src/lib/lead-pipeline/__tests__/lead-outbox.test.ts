@@ -0,0 +1,300 @@
+/**
+ * Lead Outbox Tests
+ * Tests for outbox persistence, inline delivery and drain retries
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  claimIdempotencyKey,
+  resetIdempotencyKeyStore,
+} from '@/lib/idempotency';
+import {
+  createOutboxEntry,
+  drainLeadOutbox,
+  persistOutboxEntry,
+  submitLeadToOutbox,
+} from '../lead-outbox';
+import { LEAD_TYPES, type LeadInput } from '../lead-schema';
+import { MemoryLeadOutboxStore } from '../outbox/memory-store';
+import { resetLeadOutboxStore, setLeadOutboxStore } from '../outbox/store';
+import {
+  DELIVERY_STATUS,
+  OUTBOX_ENTRY_STATUS,
+  type LeadOutboxStore,
+} from '../outbox/types';
+import { LEAD_SINK_IDS } from '../sinks/types';
+
+vi.unmock('zod');
+
+const mockCreateLead = vi.hoisted(() => vi.fn());
+const mockSendNewsletterConfirmation = vi.hoisted(() => vi.fn());
+const mockLoggerError = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/resend', () => ({
+  resendService: {
+    sendContactFormEmail: vi.fn(),
+    sendConfirmationEmail: vi.fn(),
+    sendProductInquiryEmail: vi.fn(),
+    sendNewsletterConfirmationEmail: mockSendNewsletterConfirmation,
+  },
+}));
+
+vi.mock('@/lib/airtable', () => ({
+  airtableService: {
+    createLead: mockCreateLead,
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: mockLoggerError,
+  },
+}));
+
+const newsletterLead: LeadInput = {
+  type: LEAD_TYPES.NEWSLETTER,
+  email: 'reader@example.com',
+};
+
+const contactLead: LeadInput = {
+  type: LEAD_TYPES.CONTACT,
+  fullName: 'John Doe',
+  email: 'john@example.com',
+  subject: 'other',
+  message: 'This is a test message with enough characters.',
+  turnstileToken: 'secret-token',
+} as LeadInput;
+
+describe('lead outbox', () => {
+  let store: MemoryLeadOutboxStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NEWSLETTER_TOKEN_SECRET', 'test-secret');
+    mockSendNewsletterConfirmation.mockResolvedValue('email-1');
+    store = new MemoryLeadOutboxStore();
+    setLeadOutboxStore(store);
+  });
+
+  afterEach(() => {
+    resetLeadOutboxStore();
+    resetIdempotencyKeyStore();
+    vi.unstubAllEnvs();
+  });
+
+  describe('createOutboxEntry', () => {
+    it('should strip the turnstile token from stored leads', () => {
+      const entry = createOutboxEntry(contactLead, 'CON-1');
+
+      expect(entry.lead).not.toHaveProperty('turnstileToken');
+      expect(entry.status).toBe(OUTBOX_ENTRY_STATUS.PENDING);
+      expect(entry.deliveries.map((d) => d.target)).toEqual(
+        expect.arrayContaining([LEAD_SINK_IDS.EMAIL, LEAD_SINK_IDS.CRM]),
+      );
+    });
+
+    it('should plan CRM and double opt-in deliveries for newsletter leads', () => {
+      const entry = createOutboxEntry(newsletterLead, 'NEW-1');
+
+      expect(entry.deliveries.map((d) => d.target)).toEqual([
+        LEAD_SINK_IDS.CRM,
+        LEAD_SINK_IDS.NEWSLETTER_CONFIRMATION,
+      ]);
+    });
+  });
+
+  describe('submitLeadToOutbox', () => {
+    it('should complete the entry when deliveries succeed', async () => {
+      mockCreateLead.mockResolvedValue({ id: 'rec-1' });
+
+      const { entry, results } = await submitLeadToOutbox(
+        newsletterLead,
+        'NEW-1',
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(entry.status).toBe(OUTBOX_ENTRY_STATUS.COMPLETED);
+      expect(mockSendNewsletterConfirmation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'reader@example.com',
+          confirmUrl: expect.stringContaining('/newsletter/confirm?token='),
+          unsubscribeUrl: expect.stringContaining('/api/unsubscribe?token='),
+        }),
+      );
+
+      const stored = await store.get('NEW-1');
+      expect(stored?.status).toBe(OUTBOX_ENTRY_STATUS.COMPLETED);
+      expect(stored?.deliveries[0]?.externalId).toBe('rec-1');
+    });
+
+    it('should send the confirmation email in the signup locale', async () => {
+      mockCreateLead.mockResolvedValue({ id: 'rec-1' });
+
+      await submitLeadToOutbox({ ...newsletterLead, locale: 'zh' }, 'NEW-2');
+
+      expect(mockSendNewsletterConfirmation).toHaveBeenCalledWith(
+        expect.objectContaining({
+          locale: 'zh',
+          confirmUrl: expect.stringContaining('/zh/newsletter/confirm?token='),
+        }),
+      );
+    });
+    it('should keep failed deliveries queued for retry', async () => {
+      mockCreateLead.mockRejectedValue(new Error('CRM down'));
+
+      const { entry } = await submitLeadToOutbox(newsletterLead, 'NEW-2');
+
+      expect(entry.status).toBe(OUTBOX_ENTRY_STATUS.PENDING);
+      const stored = await store.get('NEW-2');
+      expect(stored?.deliveries[0]).toMatchObject({
+        status: DELIVERY_STATUS.PENDING,
+        attempts: 1,
+        lastError: 'CRM down',
+      });
+    });
+
+    it('should only deliver to the selected sinks of a replay', async () => {
+      mockCreateLead.mockResolvedValue({ id: 'rec-9' });
+
+      const { entry, results } = await submitLeadToOutbox(
+        newsletterLead,
+        'NEW-9',
+        { sinks: [LEAD_SINK_IDS.CRM], replayOf: 'NEW-1' },
+      );
+
+      expect(results.map((result) => result.target)).toEqual([
+        LEAD_SINK_IDS.CRM,
+      ]);
+      expect(mockSendNewsletterConfirmation).not.toHaveBeenCalled();
+      expect(entry.replayOf).toBe('NEW-1');
+      expect((await store.get('NEW-9'))?.replayOf).toBe('NEW-1');
+    });
+
+    it('should still attempt deliveries when the store is unavailable', async () => {
+      const failingStore: LeadOutboxStore = {
+        save: vi.fn().mockRejectedValue(new Error('store down')),
+        get: vi.fn(),
+        listDue: vi.fn(),
+        findByDedupKey: vi.fn(),
+        listCreatedBetween: vi.fn(),
+        appendActivity: vi.fn(),
+      };
+      setLeadOutboxStore(failingStore);
+      mockCreateLead.mockResolvedValue({ id: 'rec-2' });
+
+      const { results } = await submitLeadToOutbox(newsletterLead, 'NEW-3');
+
+      expect(results[0]?.success).toBe(true);
+      expect(mockLoggerError).toHaveBeenCalledWith(
+        '[Lead Outbox] Failed to persist entry (fail-open)',
+        expect.objectContaining({ referenceId: 'NEW-3' }),
+      );
+    });
+  });
+
+  describe('persistOutboxEntry', () => {
+    it('should report whether the entry was written', async () => {
+      const entry = createOutboxEntry(newsletterLead, 'NEW-4');
+      expect(await persistOutboxEntry(entry)).toBe(true);
+
+      setLeadOutboxStore({
+        save: vi.fn().mockRejectedValue(new Error('store down')),
+        get: vi.fn(),
+        listDue: vi.fn(),
+        findByDedupKey: vi.fn(),
+        listCreatedBetween: vi.fn(),
+        appendActivity: vi.fn(),
+      });
+      expect(await persistOutboxEntry(entry)).toBe(false);
+    });
+  });
+
+  describe('drainLeadOutbox', () => {
+    it('should retry due deliveries and complete the entry', async () => {
+      mockCreateLead.mockRejectedValueOnce(new Error('CRM down'));
+      const { entry } = await submitLeadToOutbox(newsletterLead, 'NEW-5');
+
+      mockCreateLead.mockResolvedValue({ id: 'rec-5' });
+      const summary = await drainLeadOutbox({
+        now: (entry.nextAttemptAt ?? 0) + 1,
+      });
+
+      expect(summary).toEqual({
+        processed: 1,
+        delivered: 1,
+        failed: 0,
+        deadLettered: 0,
+      });
+      const stored = await store.get('NEW-5');
+      expect(stored?.status).toBe(OUTBOX_ENTRY_STATUS.COMPLETED);
+    });
+
+    it('should leave deliveries running inline to the submission', async () => {
+      let finishCrm: (value: { id: string }) => void = () => undefined;
+      mockCreateLead.mockReturnValue(
+        new Promise((resolve) => {
+          finishCrm = resolve;
+        }),
+      );
+      const submitted = submitLeadToOutbox(newsletterLead, 'NEW-8');
+      await vi.waitFor(() => expect(mockCreateLead).toHaveBeenCalled());
+
+      const summary = await drainLeadOutbox();
+      finishCrm({ id: 'rec-8' });
+      await submitted;
+
+      expect(summary.processed).toBe(0);
+      expect(mockCreateLead).toHaveBeenCalledTimes(1);
+      expect((await store.get('NEW-8'))?.status).toBe(
+        OUTBOX_ENTRY_STATUS.COMPLETED,
+      );
+    });
+
+    it('should skip the drain while another drain holds the lock', async () => {
+      await store.save(createOutboxEntry(newsletterLead, 'NEW-9'));
+      await claimIdempotencyKey('lead-outbox:drain', 60_000);
+
+      const summary = await drainLeadOutbox({ now: Date.now() + 1 });
+
+      expect(summary.processed).toBe(0);
+      expect(mockCreateLead).not.toHaveBeenCalled();
+    });
+
+    it('should skip entries that are not yet due', async () => {
+      mockCreateLead.mockRejectedValue(new Error('CRM down'));
+      await submitLeadToOutbox(newsletterLead, 'NEW-6');
+
+      const summary = await drainLeadOutbox();
+
+      expect(summary.processed).toBe(0);
+    });
+
+    it('should dead-letter deliveries after the final attempt', async () => {
+      mockCreateLead.mockRejectedValue(new Error('CRM down'));
+      const entry = createOutboxEntry(newsletterLead, 'NEW-7');
+      await store.save({
+        ...entry,
+        deliveries: entry.deliveries.map((delivery) => ({
+          ...delivery,
+          attempts: 9,
+        })),
+      });
+
+      const summary = await drainLeadOutbox({ now: Date.now() + 1 });
+
+      expect(summary.deadLettered).toBe(1);
+      const stored = await store.get('NEW-7');
+      expect(stored?.status).toBe(OUTBOX_ENTRY_STATUS.DEAD_LETTERED);
+      expect(mockLoggerError).toHaveBeenCalledWith(
+        '[Lead Outbox] Delivery dead-lettered',
+        expect.objectContaining({
+          event: 'lead_outbox_dead_letter',
+          referenceId: 'NEW-7',
+        }),
+      );
+    });
+  });
+});
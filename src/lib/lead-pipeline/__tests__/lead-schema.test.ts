@@ -131,6 +131,35 @@ describe('Lead Schema', () => {
       const result = productLeadSchema.safeParse(minimalLead);
       expect(result.success).toBe(true);
     });
+
+    it('should accept a WhatsApp opt-in with phone and locale', () => {
+      const result = productLeadSchema.safeParse({
+        ...validProductLead,
+        phone: '+86 138-0000-0000',
+        whatsappOptIn: true,
+        locale: 'zh',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.whatsappOptIn).toBe(true);
+      }
+    });
+
+    it('should default the WhatsApp opt-in to false', () => {
+      const result = productLeadSchema.safeParse(validProductLead);
+      expect(result.success && result.data.whatsappOptIn).toBe(false);
+    });
+
+    it('should reject malformed phone numbers and unknown locales', () => {
+      expect(
+        productLeadSchema.safeParse({ ...validProductLead, phone: 'call me' })
+          .success,
+      ).toBe(false);
+      expect(
+        productLeadSchema.safeParse({ ...validProductLead, locale: 'fr' })
+          .success,
+      ).toBe(false);
+    });
   });
 
   describe('newsletterLeadSchema', () => {
@@ -0,0 +1,192 @@
+/**
+ * Lead Scoring Tests
+ * Tests for rule evaluation, product lookups and route recipients
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  LEAD_ROUTE_IDS,
+  LEAD_ROUTING_RULES,
+} from '@/config/lead-routing-rules';
+import { LEAD_TYPES } from '../lead-schema';
+import {
+  buildLeadFacts,
+  evaluateLeadRules,
+  getRouteRecipients,
+  parseQuantity,
+  qualifyLead,
+  type LeadRulesConfig,
+} from '../lead-scoring';
+import type { OutboxLead } from '../outbox/types';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const contactLead: OutboxLead = {
+  type: LEAD_TYPES.CONTACT,
+  fullName: 'John Doe',
+  email: 'john@gmail.com',
+  subject: 'other',
+  message: 'Do you ship to Canada?',
+  marketingConsent: false,
+};
+
+const productLead: OutboxLead = {
+  type: LEAD_TYPES.PRODUCT,
+  fullName: 'Jane Buyer',
+  email: 'jane@acme-industrial.com',
+  company: 'Acme Industrial',
+  productSlug: 'pump-x1',
+  productName: 'Pump X1',
+  quantity: '5,000 pcs',
+  marketingConsent: false,
+};
+
+describe('parseQuantity', () => {
+  it('should read the leading number of free-form quantities', () => {
+    expect(parseQuantity('5,000 pcs')).toBe(5000);
+    expect(parseQuantity('100 pieces')).toBe(100);
+    expect(parseQuantity(250)).toBe(250);
+  });
+
+  it('should return undefined for values without a number', () => {
+    expect(parseQuantity('a few')).toBeUndefined();
+    expect(parseQuantity(undefined)).toBeUndefined();
+  });
+});
+
+describe('evaluateLeadRules', () => {
+  it('should route OEM/ODM requests to partnerships', () => {
+    const result = evaluateLeadRules(
+      buildLeadFacts({ ...contactLead, subject: 'oem_odm' }),
+      LEAD_ROUTING_RULES,
+    );
+
+    expect(result.route).toBe(LEAD_ROUTE_IDS.PARTNERSHIPS);
+    expect(result.matchedRules).toEqual(['oem_odm_request']);
+    expect(result.score).toBe(40);
+  });
+
+  it('should route quantities at or above the MOQ to key accounts', () => {
+    const result = evaluateLeadRules(
+      buildLeadFacts(productLead, { category: 'Pumps', moq: 1000 }),
+      LEAD_ROUTING_RULES,
+    );
+
+    expect(result.route).toBe(LEAD_ROUTE_IDS.KEY_ACCOUNTS);
+    expect(result.matchedRules).toEqual([
+      'product_inquiry',
+      'quantity_above_moq',
+      'company_provided',
+      'business_email',
+    ]);
+    expect(result.score).toBe(70);
+  });
+
+  it('should fall back to the default route for low-intent leads', () => {
+    const result = evaluateLeadRules(
+      buildLeadFacts(contactLead),
+      LEAD_ROUTING_RULES,
+    );
+
+    expect(result).toEqual({
+      score: 0,
+      route: LEAD_ROUTE_IDS.GENERAL,
+      matchedRules: [],
+    });
+  });
+
+  it('should skip MOQ conditions when the MOQ is unknown', () => {
+    const result = evaluateLeadRules(
+      buildLeadFacts(productLead),
+      LEAD_ROUTING_RULES,
+    );
+
+    expect(result.matchedRules).not.toContain('quantity_above_moq');
+    expect(result.route).toBe(LEAD_ROUTE_IDS.SALES);
+  });
+
+  it('should match domains, categories and score thresholds', () => {
+    const config: LeadRulesConfig = {
+      freeEmailDomains: [],
+      scoring: [
+        { id: 'pumps', when: { productCategories: ['pumps'] }, points: 25 },
+        {
+          id: 'acme',
+          when: { emailDomains: ['ACME-industrial.com'], minQuantity: 5000 },
+          points: 50,
+        },
+      ],
+      routes: [{ id: 'vip', when: { minScore: 75 } }],
+      defaultRoute: 'general',
+    };
+
+    const result = evaluateLeadRules(
+      buildLeadFacts(productLead, { category: 'Pumps' }),
+      config,
+    );
+
+    expect(result).toEqual({
+      score: 75,
+      route: 'vip',
+      matchedRules: ['pumps', 'acme'],
+    });
+  });
+});
+
+describe('qualifyLead', () => {
+  it('should use catalog data from the product resolver', async () => {
+    const resolveProduct = vi.fn().mockResolvedValue({ moq: 10000 });
+
+    const result = await qualifyLead(productLead, { resolveProduct });
+
+    expect(resolveProduct).toHaveBeenCalledWith('pump-x1');
+    expect(result.matchedRules).not.toContain('quantity_above_moq');
+  });
+
+  it('should still score the lead when the product lookup fails', async () => {
+    const resolveProduct = vi.fn().mockRejectedValue(new Error('not found'));
+
+    const result = await qualifyLead(productLead, { resolveProduct });
+
+    expect(result.route).toBe(LEAD_ROUTE_IDS.SALES);
+  });
+});
+
+describe('getRouteRecipients', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const config: LeadRulesConfig = {
+    ...LEAD_ROUTING_RULES,
+    routes: [
+      { id: 'partnerships', when: {}, recipients: ['partners@example.com'] },
+    ],
+  };
+
+  it('should use the recipients configured for the route', () => {
+    expect(getRouteRecipients('partnerships', config)).toEqual([
+      'partners@example.com',
+    ]);
+    expect(getRouteRecipients('general', config)).toEqual([]);
+    expect(getRouteRecipients(undefined, config)).toEqual([]);
+  });
+
+  it('should prefer the environment override', () => {
+    vi.stubEnv(
+      'LEAD_ROUTE_RECIPIENTS_PARTNERSHIPS',
+      'a@example.com, b@example.com',
+    );
+
+    expect(getRouteRecipients('partnerships', config)).toEqual([
+      'a@example.com',
+      'b@example.com',
+    ]);
+  });
+});
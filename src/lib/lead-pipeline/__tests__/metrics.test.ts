@@ -4,6 +4,7 @@
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PIPELINE_ALERT_TYPES } from '../alerts/types';
 import {
   categorizeError,
   createLatencyTimer,
@@ -11,6 +12,7 @@ import {
   LeadPipelineMetrics,
   METRIC_SERVICES,
   METRIC_TYPES,
+  percentile,
 } from '../metrics';
 
 vi.mock('@/lib/logger', () => ({
@@ -170,6 +172,16 @@ describe('LeadPipelineMetrics', () => {
         metrics.getFailureState(METRIC_SERVICES.RESEND).consecutiveFailures,
       ).toBe(2);
     });
+
+    it('should track failures for custom sink services', () => {
+      metrics.recordFailure('custom-crm', 100, new Error('test'));
+      metrics.recordFailure('custom-crm', 100, new Error('test'));
+
+      expect(metrics.getFailureState('custom-crm').consecutiveFailures).toBe(2);
+      expect(
+        metrics.getFailureState(METRIC_SERVICES.RESEND).consecutiveFailures,
+      ).toBe(0);
+    });
   });
 
   describe('alerting', () => {
@@ -304,6 +316,83 @@ describe('LeadPipelineMetrics', () => {
     });
   });
 
+  describe('alert notifications', () => {
+    it('should notify on failure and on recovery', async () => {
+      const notify = vi.fn().mockResolvedValue(undefined);
+      const alertMetrics = new LeadPipelineMetrics({
+        consecutiveFailureThreshold: 2,
+        alertCooldownMs: 0,
+        notify,
+      });
+
+      alertMetrics.recordFailure(
+        METRIC_SERVICES.AIRTABLE,
+        100,
+        new Error('Request timed out'),
+      );
+      alertMetrics.recordFailure(
+        METRIC_SERVICES.AIRTABLE,
+        100,
+        new Error('Request timed out'),
+      );
+      alertMetrics.recordSuccess(METRIC_SERVICES.AIRTABLE, 50);
+
+      expect(notify).toHaveBeenCalledTimes(2);
+      expect(notify).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          type: PIPELINE_ALERT_TYPES.FAILURE,
+          service: METRIC_SERVICES.AIRTABLE,
+          consecutiveFailures: 2,
+          lastErrorType: ERROR_TYPES.TIMEOUT,
+        }),
+      );
+      expect(notify).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: PIPELINE_ALERT_TYPES.RECOVERY,
+          service: METRIC_SERVICES.AIRTABLE,
+          consecutiveFailures: 2,
+        }),
+      );
+      expect(
+        alertMetrics.getFailureState(METRIC_SERVICES.AIRTABLE).alertActive,
+      ).toBe(false);
+    });
+
+    it('should not send a recovery when no alert was raised', () => {
+      const notify = vi.fn().mockResolvedValue(undefined);
+      const alertMetrics = new LeadPipelineMetrics({
+        consecutiveFailureThreshold: 3,
+        notify,
+      });
+
+      alertMetrics.recordFailure(METRIC_SERVICES.SLACK, 100, new Error('x'));
+      alertMetrics.recordSuccess(METRIC_SERVICES.SLACK, 50);
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('should log notifier errors without throwing', async () => {
+      const { logger } = await import('@/lib/logger');
+      const alertMetrics = new LeadPipelineMetrics({
+        consecutiveFailureThreshold: 1,
+        notify: vi.fn().mockRejectedValue(new Error('dispatch down')),
+      });
+
+      expect(() =>
+        alertMetrics.recordFailure(METRIC_SERVICES.RESEND, 100, new Error('x')),
+      ).not.toThrow();
+
+      await vi.waitFor(() =>
+        expect(logger.warn).toHaveBeenCalledWith(
+          '[Lead Alerts] Alert dispatch failed',
+          expect.objectContaining({ error: 'dispatch down' }),
+        ),
+      );
+    });
+  });
+
   describe('logPipelineSummary', () => {
     it('should log success summary with info level', async () => {
       const { logger } = await import('@/lib/logger');
@@ -312,8 +401,10 @@ describe('LeadPipelineMetrics', () => {
         leadId: 'CON-123',
         leadType: 'contact',
         totalLatencyMs: 500,
-        resend: { success: true, latencyMs: 200 },
-        airtable: { success: true, latencyMs: 300 },
+        sinks: {
+          email: { service: 'resend', success: true, latencyMs: 200 },
+          crm: { service: 'airtable', success: true, latencyMs: 300 },
+        },
         overallSuccess: true,
         timestamp: '2025-01-01T00:00:00.000Z',
       });
@@ -335,15 +426,19 @@ describe('LeadPipelineMetrics', () => {
         leadId: 'CON-456',
         leadType: 'contact',
         totalLatencyMs: 500,
-        resend: {
-          success: false,
-          latencyMs: 200,
-          errorType: ERROR_TYPES.TIMEOUT,
-        },
-        airtable: {
-          success: false,
-          latencyMs: 300,
-          errorType: ERROR_TYPES.NETWORK,
+        sinks: {
+          email: {
+            service: 'resend',
+            success: false,
+            latencyMs: 200,
+            errorType: ERROR_TYPES.TIMEOUT,
+          },
+          crm: {
+            service: 'airtable',
+            success: false,
+            latencyMs: 300,
+            errorType: ERROR_TYPES.NETWORK,
+          },
         },
         overallSuccess: false,
         timestamp: '2025-01-01T00:00:00.000Z',
@@ -360,7 +455,67 @@ describe('LeadPipelineMetrics', () => {
     });
   });
 
+  describe('getServiceStats', () => {
+    it('should report counts, success rate and latency percentiles', () => {
+      for (let latency = 10; latency <= 100; latency += 10) {
+        metrics.recordSuccess(METRIC_SERVICES.RESEND, latency);
+      }
+      metrics.recordFailure(METRIC_SERVICES.RESEND, 200, new Error('timeout'));
+
+      expect(metrics.getServiceStats(METRIC_SERVICES.RESEND)).toMatchObject({
+        successCount: 10,
+        failureCount: 1,
+        successRate: 10 / 11,
+        latencyP50Ms: 60,
+        latencyP95Ms: 200,
+        consecutiveFailures: 1,
+        alerting: false,
+        lastErrorType: ERROR_TYPES.TIMEOUT,
+      });
+    });
+
+    it('should flag services at the alert threshold', () => {
+      const strict = new LeadPipelineMetrics({
+        consecutiveFailureThreshold: 2,
+      });
+      strict.recordFailure(METRIC_SERVICES.AIRTABLE, 100, new Error('down'));
+      strict.recordFailure(METRIC_SERVICES.AIRTABLE, 100, new Error('down'));
+
+      expect(strict.getServiceStats(METRIC_SERVICES.AIRTABLE).alerting).toBe(
+        true,
+      );
+    });
+
+    it('should report empty stats for services without calls', () => {
+      expect(metrics.getServiceStats(METRIC_SERVICES.SLACK)).toMatchObject({
+        successCount: 0,
+        failureCount: 0,
+        successRate: null,
+        latencyP50Ms: null,
+        latencyP95Ms: null,
+      });
+      expect(metrics.getAllServiceStats()).toEqual([]);
+    });
+
+    it('should list every service that recorded a call', () => {
+      metrics.recordSuccess(METRIC_SERVICES.SLACK, 10);
+      metrics.recordSuccess(METRIC_SERVICES.AIRTABLE, 10);
+
+      expect(
+        metrics.getAllServiceStats().map((stats) => stats.service),
+      ).toEqual([METRIC_SERVICES.AIRTABLE, METRIC_SERVICES.SLACK]);
+    });
+  });
+
   describe('resetAllStates', () => {
+    it('should clear service stats', () => {
+      metrics.recordSuccess(METRIC_SERVICES.RESEND, 100);
+
+      metrics.resetAllStates();
+
+      expect(metrics.getAllServiceStats()).toEqual([]);
+    });
+
     it('should reset all failure states', () => {
       metrics.recordFailure(METRIC_SERVICES.RESEND, 100, new Error('test'));
       metrics.recordFailure(METRIC_SERVICES.AIRTABLE, 100, new Error('test'));
@@ -376,3 +531,11 @@ describe('LeadPipelineMetrics', () => {
     });
   });
 });
+
+describe('percentile', () => {
+  it('should use the nearest-rank method', () => {
+    expect(percentile([5, 1, 3, 2, 4], 0.5)).toBe(3);
+    expect(percentile([5, 1, 3, 2, 4], 0.95)).toBe(5);
+    expect(percentile([], 0.5)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Lead Outbox Store Selection Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileLeadOutboxStore } from '../outbox/file-store';
+import { MemoryLeadOutboxStore } from '../outbox/memory-store';
+import { RedisLeadOutboxStore } from '../outbox/redis-store';
+import { getLeadOutboxStore, resetLeadOutboxStore } from '../outbox/store';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('getLeadOutboxStore', () => {
+  beforeEach(() => {
+    vi.stubEnv('LEAD_OUTBOX_STORE', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', '');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('KV_REST_API_TOKEN', '');
+    resetLeadOutboxStore();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetLeadOutboxStore();
+  });
+
+  it('should use the in-memory store in tests', () => {
+    expect(getLeadOutboxStore()).toBeInstanceOf(MemoryLeadOutboxStore);
+  });
+
+  it('should prefer Redis when configured', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://redis.example.com');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'token');
+
+    expect(getLeadOutboxStore()).toBeInstanceOf(RedisLeadOutboxStore);
+  });
+
+  it('should refuse the implicit file store in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(() => getLeadOutboxStore()).toThrow(/requires UPSTASH_REDIS/);
+  });
+
+  it('should allow an explicitly forced file store in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('LEAD_OUTBOX_STORE', 'file');
+
+    expect(getLeadOutboxStore()).toBeInstanceOf(FileLeadOutboxStore);
+  });
+});
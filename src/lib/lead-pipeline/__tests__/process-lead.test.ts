@@ -5,6 +5,7 @@
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { CONTACT_SUBJECTS, LEAD_TYPES } from '../lead-schema';
+import { resetLeadOutboxStore, setLeadOutboxStore } from '../outbox/store';
 import { processLead } from '../process-lead';
 
 // Ensure real Zod is used
@@ -43,9 +44,21 @@ vi.mock('@/lib/logger', () => ({
     company ? '[REDACTED]' : '[NO_COMPANY]',
 }));
 
+function useUnavailableOutbox(): void {
+  setLeadOutboxStore({
+    save: vi.fn().mockRejectedValue(new Error('store down')),
+    get: vi.fn(),
+    listDue: vi.fn(),
+    findByDedupKey: vi.fn().mockResolvedValue(null),
+    listCreatedBetween: vi.fn(),
+    appendActivity: vi.fn(),
+  });
+}
+
 describe('processLead', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    resetLeadOutboxStore();
   });
 
   describe('Validation', () => {
@@ -133,13 +146,29 @@ describe('processLead', () => {
       expect(result.recordCreated).toBe(true);
     });
 
-    it('should fail when both services fail', async () => {
+    it('should accept the lead as queued when both services fail', async () => {
+      mockSendContactFormEmail.mockRejectedValue(new Error('Email failed'));
+      mockCreateLead.mockRejectedValue(new Error('CRM failed'));
+
+      const result = await processLead(validContactLead);
+
+      expect(result.success).toBe(true);
+      expect(result.queued).toBe(true);
+      expect(result.referenceId?.startsWith('CON-')).toBe(true);
+      expect(result.emailSent).toBe(false);
+      expect(result.recordCreated).toBe(false);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should fail when both services fail and the outbox is unavailable', async () => {
+      useUnavailableOutbox();
       mockSendContactFormEmail.mockRejectedValue(new Error('Email failed'));
       mockCreateLead.mockRejectedValue(new Error('CRM failed'));
 
       const result = await processLead(validContactLead);
 
       expect(result.success).toBe(false);
+      expect(result.referenceId).toBeUndefined();
       expect(result.emailSent).toBe(false);
       expect(result.recordCreated).toBe(false);
       expect(result.error).toBe('PROCESSING_FAILED');
@@ -156,6 +185,7 @@ describe('processLead', () => {
           firstName: 'John',
           lastName: 'Doe',
         }),
+        { to: [] },
       );
     });
   });
@@ -228,6 +258,7 @@ describe('processLead', () => {
           productSlug: 'industrial-pump-x100',
           quantity: '500 units',
         }),
+        { to: [] },
       );
     });
   });
@@ -288,6 +319,7 @@ describe('processLead', () => {
     });
 
     it('should fail when CRM fails for newsletter (no email fallback)', async () => {
+      useUnavailableOutbox();
       mockCreateLead.mockRejectedValue(new Error('CRM failed'));
 
       const result = await processLead(validNewsletterLead);
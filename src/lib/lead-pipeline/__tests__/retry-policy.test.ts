@@ -0,0 +1,139 @@
+/**
+ * Lead Outbox Retry Policy Tests
+ * Tests for backoff computation and delivery state transitions
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyDeliveryAttempt,
+  computeRetryDelay,
+  createPendingDelivery,
+  isDeliveryDue,
+  summarizeDeliveries,
+} from '../outbox/retry-policy';
+import { DELIVERY_STATUS, OUTBOX_ENTRY_STATUS } from '../outbox/types';
+import { LEAD_SINK_IDS } from '../sinks/types';
+
+const NOW = Date.parse('2025-01-01T00:00:00.000Z');
+const POLICY = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe('computeRetryDelay', () => {
+  it('should double the delay for each attempt', () => {
+    expect(computeRetryDelay(1, POLICY)).toBe(1000);
+    expect(computeRetryDelay(2, POLICY)).toBe(2000);
+    expect(computeRetryDelay(3, POLICY)).toBe(4000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeRetryDelay(10, POLICY)).toBe(5000);
+  });
+});
+
+describe('isDeliveryDue', () => {
+  it('should treat new deliveries as due immediately', () => {
+    const delivery = createPendingDelivery(LEAD_SINK_IDS.EMAIL, NOW);
+    expect(isDeliveryDue(delivery, NOW)).toBe(true);
+  });
+
+  it('should not treat future or settled deliveries as due', () => {
+    const delivery = createPendingDelivery(LEAD_SINK_IDS.EMAIL, NOW + 1);
+    expect(isDeliveryDue(delivery, NOW)).toBe(false);
+    expect(
+      isDeliveryDue(
+        { ...delivery, status: DELIVERY_STATUS.DELIVERED, nextAttemptAt: null },
+        NOW + 1,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('applyDeliveryAttempt', () => {
+  it('should mark successful attempts as delivered', () => {
+    const delivery = createPendingDelivery(LEAD_SINK_IDS.CRM, NOW);
+    const result = applyDeliveryAttempt(
+      { ...delivery, lastError: 'previous failure' },
+      { success: true, externalId: 'rec-1' },
+      { now: NOW, policy: POLICY },
+    );
+
+    expect(result.status).toBe(DELIVERY_STATUS.DELIVERED);
+    expect(result.attempts).toBe(1);
+    expect(result.nextAttemptAt).toBeNull();
+    expect(result.externalId).toBe('rec-1');
+    expect(result.lastError).toBeUndefined();
+  });
+
+  it('should reschedule failed attempts with backoff', () => {
+    const delivery = createPendingDelivery(LEAD_SINK_IDS.CRM, NOW);
+    const result = applyDeliveryAttempt(
+      delivery,
+      { success: false, error: new Error('CRM down') },
+      { now: NOW, policy: POLICY },
+    );
+
+    expect(result.status).toBe(DELIVERY_STATUS.PENDING);
+    expect(result.attempts).toBe(1);
+    expect(result.nextAttemptAt).toBe(NOW + 1000);
+    expect(result.lastError).toBe('CRM down');
+  });
+
+  it('should dead-letter once the attempt budget is exhausted', () => {
+    const delivery = {
+      ...createPendingDelivery(LEAD_SINK_IDS.EMAIL, NOW),
+      attempts: 2,
+    };
+    const result = applyDeliveryAttempt(
+      delivery,
+      { success: false, error: new Error('Email down') },
+      { now: NOW, policy: POLICY },
+    );
+
+    expect(result.status).toBe(DELIVERY_STATUS.DEAD_LETTERED);
+    expect(result.attempts).toBe(3);
+    expect(result.nextAttemptAt).toBeNull();
+  });
+});
+
+describe('summarizeDeliveries', () => {
+  it('should stay pending with the earliest next attempt', () => {
+    const summary = summarizeDeliveries([
+      createPendingDelivery(LEAD_SINK_IDS.EMAIL, NOW + 2000),
+      createPendingDelivery(LEAD_SINK_IDS.CRM, NOW + 1000),
+    ]);
+
+    expect(summary).toEqual({
+      status: OUTBOX_ENTRY_STATUS.PENDING,
+      nextAttemptAt: NOW + 1000,
+    });
+  });
+
+  it('should complete when every delivery succeeded', () => {
+    const summary = summarizeDeliveries([
+      {
+        ...createPendingDelivery(LEAD_SINK_IDS.CRM, NOW),
+        status: DELIVERY_STATUS.DELIVERED,
+        nextAttemptAt: null,
+      },
+    ]);
+
+    expect(summary.status).toBe(OUTBOX_ENTRY_STATUS.COMPLETED);
+    expect(summary.nextAttemptAt).toBeNull();
+  });
+
+  it('should report dead-lettered when nothing is pending and one failed permanently', () => {
+    const summary = summarizeDeliveries([
+      {
+        ...createPendingDelivery(LEAD_SINK_IDS.EMAIL, NOW),
+        status: DELIVERY_STATUS.DELIVERED,
+        nextAttemptAt: null,
+      },
+      {
+        ...createPendingDelivery(LEAD_SINK_IDS.CRM, NOW),
+        status: DELIVERY_STATUS.DEAD_LETTERED,
+        nextAttemptAt: null,
+      },
+    ]);
+
+    expect(summary.status).toBe(OUTBOX_ENTRY_STATUS.DEAD_LETTERED);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Lead Sink Routing Tests
+ * Tests for per-type sink routing, success policies and custom sinks
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { planDeliveries } from '../deliveries';
+import { LEAD_TYPES } from '../lead-schema';
+import { leadPipelineMetrics } from '../metrics';
+import { resetLeadOutboxStore, setLeadOutboxStore } from '../outbox/store';
+import { processLead } from '../process-lead';
+import {
+  registerLeadSink,
+  resetLeadSinkRegistry,
+  unregisterLeadSink,
+} from '../sinks/registry';
+import {
+  evaluateSuccessPolicy,
+  getLeadTypeRouting,
+  parseSuccessPolicy,
+  resetLeadRouting,
+  setLeadRouting,
+} from '../sinks/routing';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  LEAD_SUCCESS_MODES,
+  type LeadSink,
+} from '../sinks/types';
+
+vi.unmock('zod');
+
+const mockCreateLead = vi.hoisted(() => vi.fn());
+const mockSendProductInquiryEmail = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/resend', () => ({
+  resendService: {
+    sendProductInquiryEmail: mockSendProductInquiryEmail,
+  },
+}));
+
+vi.mock('@/lib/airtable', () => ({
+  airtableService: {
+    createLead: mockCreateLead,
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+  sanitizeEmail: (email: string | undefined | null) =>
+    email ? '[REDACTED_EMAIL]' : '[NO_EMAIL]',
+}));
+
+const productLead = {
+  type: LEAD_TYPES.PRODUCT,
+  fullName: 'Jane Smith',
+  email: 'jane@example.com',
+  productSlug: 'industrial-pump-x100',
+  productName: 'Industrial Pump X100',
+  quantity: '500 units',
+};
+
+function createSink(overrides: Partial<LeadSink> = {}): LeadSink {
+  return {
+    id: 'custom',
+    category: LEAD_SINK_CATEGORIES.NOTIFICATION,
+    deliver: vi.fn().mockResolvedValue('custom-id'),
+    ...overrides,
+  };
+}
+
+describe('lead sink routing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSendProductInquiryEmail.mockResolvedValue('email-id');
+    mockCreateLead.mockResolvedValue({ id: 'rec-id' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetLeadRouting();
+    resetLeadSinkRegistry();
+    resetLeadOutboxStore();
+    leadPipelineMetrics.resetAllStates();
+  });
+
+  describe('parseSuccessPolicy', () => {
+    it('should parse supported policies', () => {
+      expect(parseSuccessPolicy('any')).toEqual({ mode: 'any' });
+      expect(parseSuccessPolicy(' all ')).toEqual({ mode: 'all' });
+      expect(parseSuccessPolicy('required:hubspot')).toEqual({
+        mode: 'required',
+        sink: 'hubspot',
+      });
+    });
+
+    it('should reject missing or invalid policies', () => {
+      expect(parseSuccessPolicy(undefined)).toBeNull();
+      expect(parseSuccessPolicy('required:')).toBeNull();
+      expect(parseSuccessPolicy('most')).toBeNull();
+    });
+  });
+
+  describe('evaluateSuccessPolicy', () => {
+    const outcomes = [
+      { sink: { id: 'email' }, success: false },
+      { sink: { id: 'crm' }, success: true },
+      {
+        sink: { id: 'confirmation_email', affectsSuccess: false },
+        success: true,
+      },
+    ];
+
+    it('should succeed with any successful sink', () => {
+      expect(
+        evaluateSuccessPolicy({ mode: LEAD_SUCCESS_MODES.ANY }, outcomes),
+      ).toBe(true);
+    });
+
+    it('should require every sink for the all policy', () => {
+      expect(
+        evaluateSuccessPolicy({ mode: LEAD_SUCCESS_MODES.ALL }, outcomes),
+      ).toBe(false);
+    });
+
+    it('should follow the named sink for the required policy', () => {
+      expect(
+        evaluateSuccessPolicy(
+          { mode: LEAD_SUCCESS_MODES.REQUIRED, sink: 'email' },
+          outcomes,
+        ),
+      ).toBe(false);
+      expect(
+        evaluateSuccessPolicy(
+          { mode: LEAD_SUCCESS_MODES.REQUIRED, sink: 'crm' },
+          outcomes,
+        ),
+      ).toBe(true);
+    });
+
+    it('should ignore sinks that opt out of success', () => {
+      expect(
+        evaluateSuccessPolicy({ mode: LEAD_SUCCESS_MODES.ANY }, [
+          { sink: { id: 'email' }, success: false },
+          {
+            sink: { id: 'confirmation_email', affectsSuccess: false },
+            success: true,
+          },
+        ]),
+      ).toBe(false);
+    });
+  });
+
+  describe('getLeadTypeRouting', () => {
+    it('should default to email, CRM and WhatsApp acknowledgement for product leads', () => {
+      expect(getLeadTypeRouting(LEAD_TYPES.PRODUCT)).toEqual({
+        sinks: [
+          LEAD_SINK_IDS.EMAIL,
+          LEAD_SINK_IDS.CRM,
+          LEAD_SINK_IDS.WHATSAPP_ACK,
+        ],
+        successPolicy: { mode: LEAD_SUCCESS_MODES.ANY },
+      });
+    });
+
+    it('should read sinks and policies from the environment', () => {
+      vi.stubEnv('LEAD_SINKS_PRODUCT', 'hubspot, slack');
+      vi.stubEnv('LEAD_SUCCESS_POLICY', 'all');
+      vi.stubEnv('LEAD_SUCCESS_POLICY_PRODUCT', 'required:hubspot');
+
+      expect(getLeadTypeRouting(LEAD_TYPES.PRODUCT)).toEqual({
+        sinks: ['hubspot', 'slack'],
+        successPolicy: { mode: 'required', sink: 'hubspot' },
+      });
+      expect(getLeadTypeRouting(LEAD_TYPES.NEWSLETTER).successPolicy).toEqual({
+        mode: 'all',
+      });
+    });
+
+    it('should prefer programmatic overrides', () => {
+      vi.stubEnv('LEAD_SINKS_PRODUCT', 'hubspot');
+      setLeadRouting({
+        [LEAD_TYPES.PRODUCT]: {
+          sinks: ['custom'],
+          successPolicy: { mode: LEAD_SUCCESS_MODES.ALL },
+        },
+      });
+
+      expect(getLeadTypeRouting(LEAD_TYPES.PRODUCT).sinks).toEqual(['custom']);
+    });
+  });
+
+  describe('planDeliveries', () => {
+    it('should skip unregistered and duplicate sinks', () => {
+      vi.stubEnv('LEAD_SINKS_NEWSLETTER', 'crm,missing,crm');
+
+      expect(
+        planDeliveries({ type: LEAD_TYPES.NEWSLETTER, email: 'a@b.co' }),
+      ).toEqual([LEAD_SINK_IDS.CRM]);
+    });
+
+    it('should skip sinks that do not accept the lead', () => {
+      registerLeadSink(
+        createSink({ accepts: (lead) => lead.type === LEAD_TYPES.PRODUCT }),
+      );
+      vi.stubEnv('LEAD_SINKS_NEWSLETTER', 'crm,custom');
+
+      expect(
+        planDeliveries({ type: LEAD_TYPES.NEWSLETTER, email: 'a@b.co' }),
+      ).toEqual([LEAD_SINK_IDS.CRM]);
+    });
+  });
+
+  describe('processLead with custom sinks', () => {
+    it('should deliver to registered sinks and record their metrics', async () => {
+      const sink = createSink();
+      registerLeadSink(sink);
+      setLeadRouting({
+        [LEAD_TYPES.PRODUCT]: {
+          sinks: [LEAD_SINK_IDS.EMAIL, 'custom'],
+          successPolicy: { mode: LEAD_SUCCESS_MODES.ANY },
+        },
+      });
+      const recordSuccess = vi.spyOn(leadPipelineMetrics, 'recordSuccess');
+
+      const result = await processLead(productLead);
+
+      expect(result.success).toBe(true);
+      expect(result.emailSent).toBe(true);
+      expect(result.recordCreated).toBe(false);
+      expect(sink.deliver).toHaveBeenCalledWith(
+        expect.objectContaining({ productSlug: 'industrial-pump-x100' }),
+        expect.objectContaining({ referenceId: result.referenceId }),
+      );
+      expect(recordSuccess).toHaveBeenCalledWith('custom', expect.any(Number));
+      expect(mockCreateLead).not.toHaveBeenCalled();
+    });
+
+    it('should queue the lead when a required sink fails even if others succeed', async () => {
+      registerLeadSink(
+        createSink({
+          id: 'hubspot-eu',
+          category: LEAD_SINK_CATEGORIES.CRM,
+          deliver: vi.fn().mockRejectedValue(new Error('HubSpot down')),
+        }),
+      );
+      setLeadRouting({
+        [LEAD_TYPES.PRODUCT]: {
+          sinks: [LEAD_SINK_IDS.EMAIL, 'hubspot-eu'],
+          successPolicy: {
+            mode: LEAD_SUCCESS_MODES.REQUIRED,
+            sink: 'hubspot-eu',
+          },
+        },
+      });
+
+      const result = await processLead(productLead);
+
+      expect(result.success).toBe(true);
+      expect(result.queued).toBe(true);
+      expect(result.referenceId).toBeDefined();
+      expect(result.emailSent).toBe(true);
+    });
+
+    it('should fail the all policy when one sink fails and the outbox is unavailable', async () => {
+      setLeadOutboxStore({
+        save: vi.fn().mockRejectedValue(new Error('store down')),
+        get: vi.fn(),
+        listDue: vi.fn(),
+        findByDedupKey: vi.fn().mockResolvedValue(null),
+        listCreatedBetween: vi.fn(),
+        appendActivity: vi.fn(),
+      });
+      mockCreateLead.mockRejectedValue(new Error('CRM failed'));
+      setLeadRouting({
+        [LEAD_TYPES.PRODUCT]: {
+          sinks: [LEAD_SINK_IDS.EMAIL, LEAD_SINK_IDS.CRM],
+          successPolicy: { mode: LEAD_SUCCESS_MODES.ALL },
+        },
+      });
+
+      const result = await processLead(productLead);
+
+      expect(result.success).toBe(false);
+      expect(result.queued).toBeUndefined();
+      expect(result.error).toBe('PROCESSING_FAILED');
+    });
+
+    it('should stop routing to unregistered sinks', async () => {
+      const sink = createSink();
+      registerLeadSink(sink);
+      unregisterLeadSink('custom');
+      setLeadRouting({
+        [LEAD_TYPES.PRODUCT]: {
+          sinks: [LEAD_SINK_IDS.EMAIL, 'custom'],
+          successPolicy: { mode: LEAD_SUCCESS_MODES.ALL },
+        },
+      });
+
+      const result = await processLead(productLead);
+
+      expect(result.success).toBe(true);
+      expect(sink.deliver).not.toHaveBeenCalled();
+    });
+  });
+});
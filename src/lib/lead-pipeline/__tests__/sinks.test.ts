@@ -0,0 +1,371 @@
+/**
+ * Built-in Lead Sink Tests
+ * Tests for the HubSpot, webhook, Slack and WhatsApp sinks
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LEAD_TYPES } from '../lead-schema';
+import type { OutboxLead } from '../outbox/types';
+import { hubspotSink } from '../sinks/hubspot-sink';
+import { formatSlackLeadMessage, slackSink } from '../sinks/slack-sink';
+import { LEAD_WEBHOOK_EVENT, webhookSink } from '../sinks/webhook-sink';
+import {
+  getWhatsAppAckTemplate,
+  normalizeWhatsAppNumber,
+  whatsappAckSink,
+} from '../sinks/whatsapp-sink';
+
+const mockSendWhatsAppTemplate = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  sendWhatsAppTemplate: mockSendWhatsAppTemplate,
+}));
+
+const contactLead: OutboxLead = {
+  type: LEAD_TYPES.CONTACT,
+  fullName: 'John Doe',
+  email: 'john@example.com',
+  company: 'Acme',
+  subject: 'other',
+  message: 'Hello there, we need pumps.',
+  marketingConsent: false,
+};
+
+const context = {
+  referenceId: 'CON-ABC',
+  submittedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const mockFetch = vi.fn();
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('built-in lead sinks', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal('fetch', mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe('hubspotSink', () => {
+    it('should throw when not configured', async () => {
+      vi.stubEnv('HUBSPOT_ACCESS_TOKEN', '');
+
+      await expect(hubspotSink.deliver(contactLead, context)).rejects.toThrow(
+        'HubSpot sink is not configured',
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should create a contact and return its ID', async () => {
+      vi.stubEnv('HUBSPOT_ACCESS_TOKEN', 'hs-token');
+      mockFetch.mockResolvedValue(jsonResponse({ id: '101' }, 201));
+
+      await expect(hubspotSink.deliver(contactLead, context)).resolves.toBe(
+        '101',
+      );
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(init.headers).toMatchObject({
+        Authorization: 'Bearer hs-token',
+      });
+      expect(JSON.parse(init.body as string).properties).toMatchObject({
+        email: 'john@example.com',
+        firstname: 'John',
+        lastname: 'Doe',
+        company: 'Acme',
+        message: '[CON-ABC] Hello there, we need pumps.',
+      });
+    });
+
+    it('should append attribution to the message note', async () => {
+      vi.stubEnv('HUBSPOT_ACCESS_TOKEN', 'hs-token');
+      mockFetch.mockResolvedValue(jsonResponse({ id: '102' }, 201));
+
+      await hubspotSink.deliver(
+        { ...contactLead, attribution: { utmSource: 'linkedin' } },
+        context,
+      );
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string).properties.message).toBe(
+        '[CON-ABC] Hello there, we need pumps.\n\nUTM Source: linkedin',
+      );
+    });
+
+    it('should add the inquiry as a note on an existing contact', async () => {
+      vi.stubEnv('HUBSPOT_ACCESS_TOKEN', 'hs-token');
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse(
+            { message: 'Contact already exists. Existing ID: 77' },
+            409,
+          ),
+        )
+        .mockResolvedValueOnce(jsonResponse({ id: '901' }, 201));
+
+      await expect(
+        hubspotSink.deliver(
+          {
+            ...contactLead,
+            message: 'Need <b>2</b> pumps',
+            attribution: { utmSource: 'linkedin' },
+          },
+          context,
+        ),
+      ).resolves.toBe('77');
+
+      const [url, init] = mockFetch.mock.calls[1] as [string, RequestInit];
+      expect(url).toBe('https://api.hubapi.com/crm/v3/objects/notes');
+      expect(JSON.parse(init.body as string)).toEqual({
+        properties: {
+          hs_timestamp: '2025-01-01T00:00:00.000Z',
+          hs_note_body:
+            '[CON-ABC] Need &lt;b&gt;2&lt;/b&gt; pumps<br><br>UTM Source: linkedin',
+        },
+        associations: [
+          {
+            to: { id: '77' },
+            types: [
+              {
+                associationCategory: 'HUBSPOT_DEFINED',
+                associationTypeId: 202,
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should retry when the note on an existing contact fails', async () => {
+      vi.stubEnv('HUBSPOT_ACCESS_TOKEN', 'hs-token');
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse({ message: 'Existing ID: 77' }, 409),
+        )
+        .mockResolvedValueOnce(jsonResponse({}, 502));
+
+      await expect(hubspotSink.deliver(contactLead, context)).rejects.toThrow(
+        'HubSpot note request failed: 502',
+      );
+    });
+
+    it('should throw on other errors so the outbox retries', async () => {
+      vi.stubEnv('HUBSPOT_ACCESS_TOKEN', 'hs-token');
+      mockFetch.mockResolvedValue(jsonResponse({}, 503));
+
+      await expect(hubspotSink.deliver(contactLead, context)).rejects.toThrow(
+        'HubSpot request failed: 503',
+      );
+    });
+  });
+
+  describe('webhookSink', () => {
+    it('should post the lead with an idempotency key', async () => {
+      vi.stubEnv('LEAD_WEBHOOK_URL', 'https://hooks.example.com/leads');
+      vi.stubEnv('LEAD_WEBHOOK_SECRET', '');
+      mockFetch.mockResolvedValue(new Response(null, { status: 204 }));
+
+      await webhookSink.deliver(contactLead, context);
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('https://hooks.example.com/leads');
+      expect(init.headers).toMatchObject({ 'Idempotency-Key': 'CON-ABC' });
+      expect(init.headers).not.toHaveProperty('X-Lead-Signature');
+      expect(JSON.parse(init.body as string)).toEqual({
+        event: LEAD_WEBHOOK_EVENT,
+        referenceId: 'CON-ABC',
+        submittedAt: context.submittedAt,
+        lead: contactLead,
+      });
+    });
+
+    it('should sign the body when a secret is configured', async () => {
+      vi.stubEnv('LEAD_WEBHOOK_URL', 'https://hooks.example.com/leads');
+      vi.stubEnv('LEAD_WEBHOOK_SECRET', 'shh');
+      mockFetch.mockResolvedValue(new Response(null, { status: 200 }));
+
+      await webhookSink.deliver(contactLead, context);
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(headers['X-Lead-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+    });
+
+    it('should throw on non-2xx responses', async () => {
+      vi.stubEnv('LEAD_WEBHOOK_URL', 'https://hooks.example.com/leads');
+      mockFetch.mockResolvedValue(new Response(null, { status: 500 }));
+
+      await expect(webhookSink.deliver(contactLead, context)).rejects.toThrow(
+        'Lead webhook request failed: 500',
+      );
+    });
+  });
+
+  describe('slackSink', () => {
+    it('should format a readable summary', () => {
+      const text = formatSlackLeadMessage(contactLead, context);
+
+      expect(text).toContain('New contact lead `CON-ABC`');
+      expect(text).toContain('*From:* John Doe &lt;john@example.com&gt;');
+      expect(text).toContain('*Company:* Acme');
+      expect(text).not.toContain('*Campaign:*');
+    });
+
+    it('should escape Slack control characters in visitor input', () => {
+      const text = formatSlackLeadMessage(
+        {
+          ...contactLead,
+          fullName: '<!channel> Eve',
+          company: 'R&D <https://evil.example|Acme>',
+          message: 'Click <https://evil.example|here>\n> now',
+        },
+        context,
+      );
+
+      expect(text).toContain('*From:* &lt;!channel&gt; Eve');
+      expect(text).toContain(
+        '*Company:* R&amp;D &lt;https://evil.example|Acme&gt;',
+      );
+      expect(text).toContain(
+        '>Click &lt;https://evil.example|here&gt;\n>&gt; now',
+      );
+      expect(text).not.toMatch(/<[!h]/);
+    });
+
+    it('should include campaign attribution when present', () => {
+      const text = formatSlackLeadMessage(
+        { ...contactLead, attribution: { utmCampaign: 'spring_sale' } },
+        context,
+      );
+
+      expect(text).toContain('*Campaign:* UTM Campaign: spring_sale');
+    });
+
+    it('should include the lead score and route when qualified', () => {
+      const text = formatSlackLeadMessage(contactLead, {
+        ...context,
+        qualification: {
+          score: 70,
+          route: 'partnerships',
+          matchedRules: ['oem_odm_request'],
+        },
+      });
+
+      expect(text).toContain('*Score:* 70 · *Route:* partnerships');
+    });
+
+    it('should post to the incoming webhook', async () => {
+      vi.stubEnv('SLACK_WEBHOOK_URL', 'https://hooks.slack.com/services/x');
+      mockFetch.mockResolvedValue(new Response('ok', { status: 200 }));
+
+      await slackSink.deliver(contactLead, context);
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('https://hooks.slack.com/services/x');
+      expect(JSON.parse(init.body as string).text).toContain('CON-ABC');
+    });
+
+    it('should throw when not configured', async () => {
+      vi.stubEnv('SLACK_WEBHOOK_URL', '');
+
+      await expect(slackSink.deliver(contactLead, context)).rejects.toThrow(
+        'Slack sink is not configured',
+      );
+    });
+  });
+
+  describe('whatsappAckSink', () => {
+    const optedInLead: OutboxLead = {
+      ...contactLead,
+      phone: '+1 (555) 010-2030',
+      whatsappOptIn: true,
+      locale: 'zh',
+    };
+
+    beforeEach(() => {
+      mockSendWhatsAppTemplate.mockReset();
+      vi.stubEnv('WHATSAPP_ACCESS_TOKEN', 'wa-token');
+      vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', '12345');
+    });
+
+    it('should only accept opted-in leads with a phone number', () => {
+      expect(whatsappAckSink.accepts?.(optedInLead)).toBe(true);
+      expect(
+        whatsappAckSink.accepts?.({ ...optedInLead, whatsappOptIn: false }),
+      ).toBe(false);
+      expect(
+        whatsappAckSink.accepts?.({ ...optedInLead, phone: undefined }),
+      ).toBe(false);
+      expect(
+        whatsappAckSink.accepts?.({
+          type: LEAD_TYPES.NEWSLETTER,
+          email: 'reader@example.com',
+        }),
+      ).toBe(false);
+    });
+
+    it('should not accept leads while WhatsApp is not configured', () => {
+      vi.stubEnv('WHATSAPP_ACCESS_TOKEN', '');
+
+      expect(whatsappAckSink.accepts?.(optedInLead)).toBe(false);
+    });
+
+    it('should send the locale template with the reference ID', async () => {
+      mockSendWhatsAppTemplate.mockResolvedValue({
+        success: true,
+        data: { messages: [{ id: 'wamid.1' }] },
+      });
+
+      await expect(whatsappAckSink.deliver(optedInLead, context)).resolves.toBe(
+        'wamid.1',
+      );
+      expect(mockSendWhatsAppTemplate).toHaveBeenCalledWith({
+        to: '15550102030',
+        templateName: 'inquiry_received',
+        languageCode: 'zh_CN',
+        parameters: ['John', 'CON-ABC'],
+      });
+    });
+
+    it('should throw when the template message fails', async () => {
+      mockSendWhatsAppTemplate.mockResolvedValue({
+        success: false,
+        error: 'Template not approved',
+      });
+
+      await expect(
+        whatsappAckSink.deliver(optedInLead, context),
+      ).rejects.toThrow(
+        'WhatsApp template message failed: Template not approved',
+      );
+    });
+
+    it('should let the environment override the template name', () => {
+      vi.stubEnv('WHATSAPP_ACK_TEMPLATE_EN', 'inquiry_ack_v2');
+
+      expect(getWhatsAppAckTemplate('en')).toEqual({
+        name: 'inquiry_ack_v2',
+        languageCode: 'en',
+      });
+      expect(getWhatsAppAckTemplate().name).toBe('inquiry_ack_v2');
+    });
+
+    it('should reject numbers that cannot be international', () => {
+      expect(normalizeWhatsAppNumber('+86 138 0000 0000')).toBe(
+        '8613800000000',
+      );
+      expect(normalizeWhatsAppNumber('12345')).toBeNull();
+      expect(normalizeWhatsAppNumber(undefined)).toBeNull();
+    });
+  });
+});
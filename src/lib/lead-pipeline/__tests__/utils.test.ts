@@ -5,6 +5,7 @@
 
 import { describe, expect, it } from 'vitest';
 import {
+  escapeSlackText,
   formatQuantity,
   generateLeadReferenceId,
   generateProductInquiryMessage,
@@ -150,6 +151,18 @@ describe('Lead Pipeline Utils', () => {
     });
   });
 
+  describe('escapeSlackText', () => {
+    it('should escape Slack control characters', () => {
+      expect(escapeSlackText('<!channel> R&D <https://x.test|link>')).toBe(
+        '&lt;!channel&gt; R&amp;D &lt;https://x.test|link&gt;',
+      );
+    });
+
+    it('should leave other text unchanged', () => {
+      expect(escapeSlackText('*Bold* 询盘 `code`')).toBe('*Bold* 询盘 `code`');
+    });
+  });
+
   describe('generateLeadReferenceId', () => {
     it('should generate ID with correct prefix for contact', () => {
       const id = generateLeadReferenceId('contact');
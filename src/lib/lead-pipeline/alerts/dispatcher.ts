@@ -0,0 +1,124 @@
+/**
+ * Alert Dispatcher
+ *
+ * Fans pipeline alerts out to every configured transport:
+ *
+ * - Failure alerts respect a cooldown per transport and service, so a
+ *   chatty channel (webhook) can repeat more often than a noisy one (email).
+ *   ALERT_COOLDOWN_MINUTES_<TRANSPORT_ID> overrides a transport's default.
+ * - Recovery alerts go only to the transports that delivered a failure alert
+ *   for that service, regardless of cooldown, and reset their cooldown.
+ *
+ * Delivery state is kept in memory per server instance. Transport errors are
+ * logged and never reach the lead pipeline.
+ */
+
+import { listAlertTransports } from '@/lib/lead-pipeline/alerts/registry';
+import {
+  PIPELINE_ALERT_TYPES,
+  type AlertTransport,
+  type PipelineAlert,
+} from '@/lib/lead-pipeline/alerts/types';
+import { logger } from '@/lib/logger';
+import { MINUTE_MS, ZERO } from '@/constants';
+
+export const ALERT_DELIVERY_STATUS = {
+  SENT: 'sent',
+  SKIPPED: 'skipped',
+  FAILED: 'failed',
+} as const;
+
+export type AlertDeliveryStatus =
+  (typeof ALERT_DELIVERY_STATUS)[keyof typeof ALERT_DELIVERY_STATUS];
+
+export interface AlertDeliveryResult {
+  transport: string;
+  status: AlertDeliveryStatus;
+}
+
+/** Last failure alert sent, keyed by `<transport>:<service>` */
+const lastFailureAlertAt = new Map<string, number>();
+
+function stateKey(transport: AlertTransport, alert: PipelineAlert): string {
+  return `${transport.id}:${alert.service}`;
+}
+
+/**
+ * Cooldown of a transport, after the environment override
+ */
+export function getAlertCooldownMs(transport: AlertTransport): number {
+  const minutes = Number.parseInt(
+    process.env[`ALERT_COOLDOWN_MINUTES_${transport.id.toUpperCase()}`] ?? '',
+    10,
+  );
+  return Number.isFinite(minutes) && minutes >= ZERO
+    ? minutes * MINUTE_MS
+    : transport.cooldownMs;
+}
+
+function shouldSend(
+  transport: AlertTransport,
+  alert: PipelineAlert,
+  now: number,
+): boolean {
+  const lastSentAt = lastFailureAlertAt.get(stateKey(transport, alert));
+  if (alert.type === PIPELINE_ALERT_TYPES.RECOVERY) {
+    return lastSentAt !== undefined;
+  }
+  return (
+    lastSentAt === undefined ||
+    now - lastSentAt >= getAlertCooldownMs(transport)
+  );
+}
+
+async function deliver(
+  transport: AlertTransport,
+  alert: PipelineAlert,
+  now: number,
+): Promise<AlertDeliveryResult> {
+  if (!shouldSend(transport, alert, now)) {
+    return { transport: transport.id, status: ALERT_DELIVERY_STATUS.SKIPPED };
+  }
+
+  try {
+    await transport.send(alert);
+  } catch (error) {
+    logger.warn('[Lead Alerts] Transport failed', {
+      transport: transport.id,
+      service: alert.service,
+      alertType: alert.type,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { transport: transport.id, status: ALERT_DELIVERY_STATUS.FAILED };
+  }
+
+  const key = stateKey(transport, alert);
+  if (alert.type === PIPELINE_ALERT_TYPES.RECOVERY) {
+    lastFailureAlertAt.delete(key);
+  } else {
+    lastFailureAlertAt.set(key, now);
+  }
+  return { transport: transport.id, status: ALERT_DELIVERY_STATUS.SENT };
+}
+
+/**
+ * Deliver an alert to every configured transport
+ */
+export function dispatchPipelineAlert(
+  alert: PipelineAlert,
+  now: number = Date.now(),
+): Promise<AlertDeliveryResult[]> {
+  const transports = listAlertTransports().filter((transport) =>
+    transport.isConfigured(),
+  );
+  return Promise.all(
+    transports.map((transport) => deliver(transport, alert, now)),
+  );
+}
+
+/**
+ * Forget cooldowns and sent failure alerts (for testing)
+ */
+export function resetAlertDispatchState(): void {
+  lastFailureAlertAt.clear();
+}
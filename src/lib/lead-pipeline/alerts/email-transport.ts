@@ -0,0 +1,39 @@
+/**
+ * Email alert transport
+ * Sends plain-text alerts through Resend to ALERT_EMAIL_TO
+ * (comma-separated).
+ */
+
+import {
+  formatAlertText,
+  formatAlertTitle,
+  parseAlertRecipients,
+} from '@/lib/lead-pipeline/alerts/format';
+import {
+  ALERT_TRANSPORT_IDS,
+  type AlertTransport,
+  type PipelineAlert,
+} from '@/lib/lead-pipeline/alerts/types';
+import { HOUR_MS } from '@/constants';
+
+async function sendAlertEmail(alert: PipelineAlert): Promise<void> {
+  const to = parseAlertRecipients(process.env.ALERT_EMAIL_TO);
+  if (to.length === 0) {
+    throw new Error('Alert email recipients are not configured');
+  }
+
+  // Dynamic import to avoid circular dependencies
+  const { resendService } = await import('@/lib/resend');
+  await resendService.sendAlertEmail(
+    { subject: formatAlertTitle(alert), text: formatAlertText(alert) },
+    { to },
+  );
+}
+
+export const emailAlertTransport: AlertTransport = {
+  id: ALERT_TRANSPORT_IDS.EMAIL,
+  cooldownMs: HOUR_MS,
+  isConfigured: () =>
+    parseAlertRecipients(process.env.ALERT_EMAIL_TO).length > 0,
+  send: sendAlertEmail,
+};
@@ -0,0 +1,42 @@
+/**
+ * Alert message formatting shared by the text-based transports
+ */
+
+import {
+  PIPELINE_ALERT_TYPES,
+  type PipelineAlert,
+} from '@/lib/lead-pipeline/alerts/types';
+
+export function formatAlertTitle(alert: PipelineAlert): string {
+  return alert.type === PIPELINE_ALERT_TYPES.RECOVERY
+    ? `[RESOLVED] Lead pipeline: ${alert.service} recovered`
+    : `[ALERT] Lead pipeline: ${alert.service} is failing`;
+}
+
+/**
+ * Plain-text alert body, one fact per line
+ */
+export function formatAlertText(alert: PipelineAlert): string {
+  const lines =
+    alert.type === PIPELINE_ALERT_TYPES.RECOVERY
+      ? [
+          `${alert.service} succeeded again after ${alert.consecutiveFailures} consecutive failures.`,
+        ]
+      : [
+          `${alert.service} failed ${alert.consecutiveFailures} times in a row (threshold ${alert.threshold}).`,
+          ...(alert.lastErrorType
+            ? [`Last error type: ${alert.lastErrorType}`]
+            : []),
+        ];
+  return [...lines, `Time: ${alert.timestamp}`].join('\n');
+}
+
+/**
+ * Split a comma-separated recipient list from the environment
+ */
+export function parseAlertRecipients(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
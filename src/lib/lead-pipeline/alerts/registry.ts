@@ -0,0 +1,51 @@
+/**
+ * Alert Transport Registry
+ * Built-in transports are registered by default and only used once
+ * configured; custom transports can be added with `registerAlertTransport`.
+ */
+
+import { emailAlertTransport } from '@/lib/lead-pipeline/alerts/email-transport';
+import { slackAlertTransport } from '@/lib/lead-pipeline/alerts/slack-transport';
+import type { AlertTransport } from '@/lib/lead-pipeline/alerts/types';
+import { webhookAlertTransport } from '@/lib/lead-pipeline/alerts/webhook-transport';
+import { whatsappAlertTransport } from '@/lib/lead-pipeline/alerts/whatsapp-transport';
+
+const BUILT_IN_TRANSPORTS: readonly AlertTransport[] = [
+  webhookAlertTransport,
+  slackAlertTransport,
+  emailAlertTransport,
+  whatsappAlertTransport,
+];
+
+function createRegistry(): Map<string, AlertTransport> {
+  return new Map(
+    BUILT_IN_TRANSPORTS.map((transport) => [transport.id, transport]),
+  );
+}
+
+let registry = createRegistry();
+
+/**
+ * Register a transport, replacing any transport with the same ID
+ */
+export function registerAlertTransport(transport: AlertTransport): void {
+  registry.set(transport.id, transport);
+}
+
+/**
+ * Remove a transport from the registry
+ */
+export function unregisterAlertTransport(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function listAlertTransports(): AlertTransport[] {
+  return [...registry.values()];
+}
+
+/**
+ * Restore the built-in transports (for testing)
+ */
+export function resetAlertTransportRegistry(): void {
+  registry = createRegistry();
+}
@@ -0,0 +1,55 @@
+/**
+ * Slack alert transport
+ * Posts to a Slack-compatible incoming webhook (ALERT_SLACK_WEBHOOK_URL).
+ * Mattermost, Rocket.Chat and similar accept the same `{ text }` payload.
+ */
+
+import {
+  formatAlertText,
+  formatAlertTitle,
+} from '@/lib/lead-pipeline/alerts/format';
+import {
+  ALERT_TRANSPORT_IDS,
+  PIPELINE_ALERT_TYPES,
+  type AlertTransport,
+  type PipelineAlert,
+} from '@/lib/lead-pipeline/alerts/types';
+import { escapeSlackText } from '@/lib/lead-pipeline/utils';
+import { MINUTE_MS } from '@/constants';
+
+const SLACK_COOLDOWN_MINUTES = 15;
+
+/**
+ * Build the Slack message text for an alert
+ * Service names and error types are escaped like visitor input.
+ */
+export function formatSlackAlertMessage(alert: PipelineAlert): string {
+  const icon =
+    alert.type === PIPELINE_ALERT_TYPES.RECOVERY
+      ? ':white_check_mark:'
+      : ':rotating_light:';
+  return `${icon} *${escapeSlackText(formatAlertTitle(alert))}*\n${escapeSlackText(formatAlertText(alert))}`;
+}
+
+async function sendToSlack(alert: PipelineAlert): Promise<void> {
+  const url = process.env.ALERT_SLACK_WEBHOOK_URL;
+  if (!url) {
+    throw new Error('Slack alert webhook is not configured');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: formatSlackAlertMessage(alert) }),
+  });
+  if (!response.ok) {
+    throw new Error(`Slack alert request failed: ${response.status}`);
+  }
+}
+
+export const slackAlertTransport: AlertTransport = {
+  id: ALERT_TRANSPORT_IDS.SLACK,
+  cooldownMs: SLACK_COOLDOWN_MINUTES * MINUTE_MS,
+  isConfigured: () => Boolean(process.env.ALERT_SLACK_WEBHOOK_URL),
+  send: sendToSlack,
+};
@@ -0,0 +1,54 @@
+/**
+ * Pipeline Alert Types
+ * Alerts raised by `LeadPipelineMetrics` and the transports that deliver them
+ */
+
+import type { ErrorType, MetricService } from '@/lib/lead-pipeline/metrics';
+
+export const PIPELINE_ALERT_TYPES = {
+  /** Consecutive failures reached the threshold */
+  FAILURE: 'failure',
+  /** First success after a failure alert */
+  RECOVERY: 'recovery',
+} as const;
+
+export type PipelineAlertType =
+  (typeof PIPELINE_ALERT_TYPES)[keyof typeof PIPELINE_ALERT_TYPES];
+
+export interface PipelineAlert {
+  type: PipelineAlertType;
+  service: MetricService;
+  /** Failures in a row; for recoveries, the streak that just ended */
+  consecutiveFailures: number;
+  threshold: number;
+  lastErrorType?: ErrorType;
+  timestamp: string;
+}
+
+/**
+ * Built-in transport identifiers
+ */
+export const ALERT_TRANSPORT_IDS = {
+  WEBHOOK: 'webhook',
+  SLACK: 'slack',
+  EMAIL: 'email',
+  WHATSAPP: 'whatsapp',
+} as const;
+
+/**
+ * A channel alerts can be delivered to
+ */
+export interface AlertTransport {
+  id: string;
+  /** Minimum time between failure alerts for the same service */
+  cooldownMs: number;
+  /** Transports without configuration are skipped */
+  isConfigured: () => boolean;
+  /** Throws when the alert could not be delivered */
+  send: (alert: PipelineAlert) => Promise<void>;
+}
+
+/**
+ * Receives alerts from `LeadPipelineMetrics`
+ */
+export type PipelineAlertNotifier = (alert: PipelineAlert) => Promise<void>;
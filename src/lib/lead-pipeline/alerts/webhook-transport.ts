@@ -0,0 +1,53 @@
+/**
+ * Generic webhook alert transport
+ * POSTs the alert as JSON to ALERT_WEBHOOK_URL. When ALERT_WEBHOOK_SECRET is
+ * set, the body is signed with HMAC-SHA256 in the `X-Alert-Signature` header
+ * (`sha256=<hex>`), like the lead webhook sink.
+ */
+
+import {
+  ALERT_TRANSPORT_IDS,
+  PIPELINE_ALERT_TYPES,
+  type AlertTransport,
+  type PipelineAlert,
+} from '@/lib/lead-pipeline/alerts/types';
+import { generateHMAC } from '@/lib/security-crypto';
+import { MINUTE_MS } from '@/constants';
+
+const WEBHOOK_COOLDOWN_MINUTES = 5;
+
+export const ALERT_WEBHOOK_EVENTS = {
+  [PIPELINE_ALERT_TYPES.FAILURE]: 'lead_pipeline.alert',
+  [PIPELINE_ALERT_TYPES.RECOVERY]: 'lead_pipeline.recovered',
+} as const;
+
+async function sendToWebhook(alert: PipelineAlert): Promise<void> {
+  const url = process.env.ALERT_WEBHOOK_URL;
+  if (!url) {
+    throw new Error('Alert webhook is not configured');
+  }
+
+  const body = JSON.stringify({
+    event: ALERT_WEBHOOK_EVENTS[alert.type],
+    ...alert,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  const secret = process.env.ALERT_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Alert-Signature'] = `sha256=${await generateHMAC(body, secret)}`;
+  }
+
+  const response = await fetch(url, { method: 'POST', headers, body });
+  if (!response.ok) {
+    throw new Error(`Alert webhook request failed: ${response.status}`);
+  }
+}
+
+export const webhookAlertTransport: AlertTransport = {
+  id: ALERT_TRANSPORT_IDS.WEBHOOK,
+  cooldownMs: WEBHOOK_COOLDOWN_MINUTES * MINUTE_MS,
+  isConfigured: () => Boolean(process.env.ALERT_WEBHOOK_URL),
+  send: sendToWebhook,
+};
@@ -0,0 +1,49 @@
+/**
+ * WhatsApp alert transport
+ * Sends alerts as text messages to ALERT_WHATSAPP_TO (comma-separated
+ * numbers in international format) via the WhatsApp Cloud API.
+ *
+ * Free-form text is only delivered inside the 24-hour customer service
+ * window, so recipients should message the business number first.
+ */
+
+import {
+  formatAlertText,
+  formatAlertTitle,
+  parseAlertRecipients,
+} from '@/lib/lead-pipeline/alerts/format';
+import {
+  ALERT_TRANSPORT_IDS,
+  type AlertTransport,
+  type PipelineAlert,
+} from '@/lib/lead-pipeline/alerts/types';
+import { HOUR_MS } from '@/constants';
+
+async function sendAlertMessages(alert: PipelineAlert): Promise<void> {
+  const recipients = parseAlertRecipients(process.env.ALERT_WHATSAPP_TO);
+  if (recipients.length === 0) {
+    throw new Error('Alert WhatsApp recipients are not configured');
+  }
+
+  // Dynamic import to avoid circular dependencies
+  const { sendWhatsAppText } = await import('@/lib/whatsapp-service');
+  const text = `*${formatAlertTitle(alert)}*\n${formatAlertText(alert)}`;
+  const responses = await Promise.all(
+    recipients.map((to) => sendWhatsAppText(to, text)),
+  );
+
+  const failed = responses.find((response) => !response.success);
+  if (failed) {
+    throw new Error(
+      `WhatsApp alert failed: ${failed.error ?? 'Unknown error'}`,
+    );
+  }
+}
+
+export const whatsappAlertTransport: AlertTransport = {
+  id: ALERT_TRANSPORT_IDS.WHATSAPP,
+  cooldownMs: HOUR_MS,
+  isConfigured: () =>
+    parseAlertRecipients(process.env.ALERT_WHATSAPP_TO).length > 0,
+  send: sendAlertMessages,
+};
@@ -0,0 +1,133 @@
+/**
+ * Lead Attribution
+ * Server-side counterpart of `@/lib/utm`: validates the first-touch UTM
+ * parameters and click IDs that forms submit alongside each lead.
+ */
+
+import { z } from 'zod';
+import { MAGIC_256, ONE } from '@/constants';
+
+// Mirrors the client-side sanitizer in src/lib/utm.ts
+const ATTRIBUTION_VALUE_MAX_LENGTH = MAGIC_256;
+const ATTRIBUTION_VALUE_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Attribution fields as sent by the forms (flat request body / FormData keys)
+ */
+export const ATTRIBUTION_FIELDS = [
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'utmTerm',
+  'utmContent',
+  'gclid',
+  'fbclid',
+  'msclkid',
+] as const;
+
+export type AttributionField = (typeof ATTRIBUTION_FIELDS)[number];
+
+/**
+ * Human-readable labels, used as Airtable column names and email labels
+ */
+export const ATTRIBUTION_LABELS: Record<AttributionField, string> = {
+  utmSource: 'UTM Source',
+  utmMedium: 'UTM Medium',
+  utmCampaign: 'UTM Campaign',
+  utmTerm: 'UTM Term',
+  utmContent: 'UTM Content',
+  gclid: 'GCLID',
+  fbclid: 'FBCLID',
+  msclkid: 'MSCLKID',
+};
+
+const attributionValueSchema = z
+  .string()
+  .trim()
+  .min(ONE)
+  .max(ATTRIBUTION_VALUE_MAX_LENGTH)
+  .regex(ATTRIBUTION_VALUE_PATTERN);
+
+export const leadAttributionSchema = z.object({
+  utmSource: attributionValueSchema.optional(),
+  utmMedium: attributionValueSchema.optional(),
+  utmCampaign: attributionValueSchema.optional(),
+  utmTerm: attributionValueSchema.optional(),
+  utmContent: attributionValueSchema.optional(),
+  gclid: attributionValueSchema.optional(),
+  fbclid: attributionValueSchema.optional(),
+  msclkid: attributionValueSchema.optional(),
+});
+
+export type LeadAttribution = z.infer<typeof leadAttributionSchema>;
+
+function readField(source: unknown, field: AttributionField): unknown {
+  if (source instanceof FormData) return source.get(field);
+  if (source && typeof source === 'object') {
+    // eslint-disable-next-line security/detect-object-injection -- field is an ATTRIBUTION_FIELDS literal
+    return (source as Record<string, unknown>)[field];
+  }
+  return undefined;
+}
+
+/**
+ * Pick attribution fields from a request body or FormData
+ *
+ * Invalid values are dropped instead of failing the submission, since
+ * attribution is best-effort metadata.
+ *
+ * @returns undefined when no valid attribution is present
+ */
+export function extractAttribution(
+  source: unknown,
+): LeadAttribution | undefined {
+  const attribution: LeadAttribution = {};
+
+  for (const field of ATTRIBUTION_FIELDS) {
+    const value = readField(source, field);
+    if (typeof value !== 'string') continue;
+
+    const parsed = attributionValueSchema.safeParse(value);
+    if (parsed.success) {
+      // eslint-disable-next-line security/detect-object-injection -- field is an ATTRIBUTION_FIELDS literal
+      attribution[field] = parsed.data;
+    }
+  }
+
+  return Object.keys(attribution).length > 0 ? attribution : undefined;
+}
+
+export interface AttributionEntry {
+  field: AttributionField;
+  label: string;
+  value: string;
+}
+
+/**
+ * List the populated attribution fields with their labels, in display order
+ */
+export function getAttributionEntries(
+  attribution: LeadAttribution | undefined,
+): AttributionEntry[] {
+  if (!attribution) return [];
+
+  return ATTRIBUTION_FIELDS.flatMap((field) => {
+    // eslint-disable-next-line security/detect-object-injection -- field is an ATTRIBUTION_FIELDS literal
+    const value = attribution[field];
+    // eslint-disable-next-line security/detect-object-injection -- field is an ATTRIBUTION_FIELDS literal
+    return value ? [{ field, label: ATTRIBUTION_LABELS[field], value }] : [];
+  });
+}
+
+/**
+ * One-line attribution summary for plain-text channels (CRM notes, chat)
+ *
+ * @returns undefined when no attribution is present
+ */
+export function formatAttributionSummary(
+  attribution: LeadAttribution | undefined,
+): string | undefined {
+  const entries = getAttributionEntries(attribution);
+  if (entries.length === 0) return undefined;
+  return entries.map(({ label, value }) => `${label}: ${value}`).join(', ');
+}
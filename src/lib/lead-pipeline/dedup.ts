@@ -0,0 +1,246 @@
+/**
+ * Lead Deduplication
+ *
+ * Repeat submissions from the same buyer inside a configurable window are
+ * folded into the first lead instead of creating new CRM records and
+ * notifications:
+ *
+ * - The first lead is delivered to CRM sinks immediately, while its email
+ *   and notification sinks are deferred until the window closes so they go
+ *   out once, listing every merged submission.
+ * - A repeat submission is appended to the first lead as an activity and is
+ *   only delivered to sinks that implement `mergeActivity`.
+ *
+ * Environment:
+ * - LEAD_DEDUP_WINDOW_MINUTES: window length, 0 or unset disables dedup
+ * - LEAD_DEDUP_MATCH_COMPANY: `true` to also require the same company
+ * - LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES: how often `/api/lead-outbox` is
+ *   scheduled. Deferred notifications are only sent by a drain, so the
+ *   window is refused unless this is set and no longer than the window
+ *   (the bundled daily cron would hold sales alerts for up to a day).
+ *
+ * Matching is best-effort: store failures disable dedup for that lead
+ * rather than blocking it.
+ */
+
+import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
+import { withDeliveries } from '@/lib/lead-pipeline/outbox/retry-policy';
+import { getLeadOutboxStore } from '@/lib/lead-pipeline/outbox/store';
+import {
+  DELIVERY_STATUS,
+  type LeadOutboxEntry,
+  type OutboxDelivery,
+  type OutboxLead,
+} from '@/lib/lead-pipeline/outbox/types';
+import { getLeadSink } from '@/lib/lead-pipeline/sinks/registry';
+import {
+  LEAD_SINK_CATEGORIES,
+  type LeadSinkCategory,
+} from '@/lib/lead-pipeline/sinks/types';
+import { describeLeadActivity } from '@/lib/lead-pipeline/utils';
+import { logger, sanitizeEmail } from '@/lib/logger';
+import { MINUTE_MS, ZERO } from '@/constants';
+
+/**
+ * Sink categories whose deliveries wait for the window to close
+ */
+const CONSOLIDATED_CATEGORIES: readonly LeadSinkCategory[] = [
+  LEAD_SINK_CATEGORIES.EMAIL,
+  LEAD_SINK_CATEGORIES.NOTIFICATION,
+];
+
+export interface LeadDedupConfig {
+  /** Window length in ms; 0 disables dedup */
+  windowMs: number;
+  /** Also match on normalized company name */
+  matchCompany: boolean;
+}
+
+function readMinutes(value: string | undefined): number {
+  const minutes = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(minutes) && minutes > ZERO
+    ? minutes * MINUTE_MS
+    : ZERO;
+}
+
+/**
+ * Read the dedup configuration from the environment
+ * The window is disabled (with a warning) when the outbox is not drained
+ * at least once per window.
+ */
+export function getLeadDedupConfig(): LeadDedupConfig {
+  const windowMs = readMinutes(process.env.LEAD_DEDUP_WINDOW_MINUTES);
+  const drainIntervalMs = readMinutes(
+    process.env.LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES,
+  );
+  const drainedInTime = drainIntervalMs > ZERO && drainIntervalMs <= windowMs;
+  if (windowMs > ZERO && !drainedInTime) {
+    logger.warn(
+      '[Lead Dedup] Window disabled: LEAD_OUTBOX_DRAIN_INTERVAL_MINUTES must be set and no longer than LEAD_DEDUP_WINDOW_MINUTES',
+      { windowMs, drainIntervalMs },
+    );
+  }
+  return {
+    windowMs: drainedInTime ? windowMs : ZERO,
+    matchCompany: process.env.LEAD_DEDUP_MATCH_COMPANY === 'true',
+  };
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Build the identity repeat submissions are matched on
+ *
+ * @returns null for leads that are never deduplicated (newsletter signups)
+ */
+export function buildDedupKey(
+  lead: OutboxLead,
+  config: Pick<LeadDedupConfig, 'matchCompany'>,
+): string | null {
+  if (lead.type === LEAD_TYPES.NEWSLETTER) return null;
+
+  const email = normalize(lead.email);
+  return config.matchCompany
+    ? `${email}|${normalize(lead.company ?? '')}`
+    : email;
+}
+
+function isConsolidatedDelivery(delivery: OutboxDelivery): boolean {
+  const category = getLeadSink(delivery.target)?.category;
+  return category !== undefined && CONSOLIDATED_CATEGORIES.includes(category);
+}
+
+/**
+ * Check whether a delivery is waiting for its dedup window to close
+ */
+export function isDeferredDelivery(
+  delivery: OutboxDelivery,
+  now: number,
+): boolean {
+  return (
+    delivery.status === DELIVERY_STATUS.PENDING &&
+    delivery.attempts === ZERO &&
+    delivery.nextAttemptAt !== null &&
+    delivery.nextAttemptAt > now
+  );
+}
+
+/**
+ * Hold email and notification deliveries until `notifyAt`
+ */
+export function deferConsolidatedDeliveries(
+  entry: LeadOutboxEntry,
+  notifyAt: number,
+  now: number,
+): LeadOutboxEntry {
+  const deliveries = entry.deliveries.map((delivery) =>
+    isConsolidatedDelivery(delivery)
+      ? { ...delivery, nextAttemptAt: notifyAt }
+      : delivery,
+  );
+  return withDeliveries(entry, deliveries, now);
+}
+
+/**
+ * Make deferred deliveries due now
+ * Used when the entry could not be persisted, so nothing would send them later.
+ */
+export function releaseDeferredDeliveries(
+  entry: LeadOutboxEntry,
+  now: number,
+): LeadOutboxEntry {
+  const deliveries = entry.deliveries.map((delivery) =>
+    isDeferredDelivery(delivery, now)
+      ? { ...delivery, nextAttemptAt: now }
+      : delivery,
+  );
+  return withDeliveries(entry, deliveries, now);
+}
+
+function toMergedEntry(
+  entry: LeadOutboxEntry,
+  primaryId: string,
+  now: number,
+): LeadOutboxEntry {
+  const deliveries = entry.deliveries.filter(
+    (delivery) => getLeadSink(delivery.target)?.mergeActivity,
+  );
+  return withDeliveries({ ...entry, mergedInto: primaryId }, deliveries, now);
+}
+
+async function findPrimaryEntry(
+  dedupKey: string,
+  since: number,
+): Promise<LeadOutboxEntry | null> {
+  try {
+    return await getLeadOutboxStore().findByDedupKey(dedupKey, since);
+  } catch (error) {
+    logger.warn('[Lead Dedup] Lookup failed; treating lead as new', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Record the repeat submission on the primary entry
+ *
+ * Appended through the store rather than by saving the primary entry, which
+ * its own inline or drain delivery may be rewriting at the same time.
+ *
+ * @returns true when the primary entry was updated
+ */
+async function appendActivity(
+  primary: LeadOutboxEntry,
+  entry: LeadOutboxEntry,
+): Promise<boolean> {
+  const activity = describeLeadActivity(entry.lead, entry.id, entry.createdAt);
+  try {
+    await getLeadOutboxStore().appendActivity(primary.id, activity);
+    return true;
+  } catch (error) {
+    logger.warn(
+      '[Lead Dedup] Failed to record activity; treating lead as new',
+      {
+        primaryReferenceId: primary.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    );
+    return false;
+  }
+}
+
+/**
+ * Apply the dedup window to a freshly created outbox entry
+ *
+ * @returns The entry merged into an earlier lead, the entry with its
+ *          notifications deferred, or the entry unchanged when dedup is off
+ */
+export async function applyLeadDedup(
+  entry: LeadOutboxEntry,
+  now: number,
+): Promise<LeadOutboxEntry> {
+  const config = getLeadDedupConfig();
+  if (config.windowMs === ZERO) return entry;
+
+  const dedupKey = buildDedupKey(entry.lead, config);
+  if (!dedupKey) return entry;
+
+  const primary = await findPrimaryEntry(dedupKey, now - config.windowMs);
+  if (primary && (await appendActivity(primary, entry))) {
+    logger.info('[Lead Dedup] Merged repeat submission', {
+      referenceId: entry.id,
+      primaryReferenceId: primary.id,
+      email: sanitizeEmail(entry.lead.email),
+    });
+    return toMergedEntry(entry, primary.id, now);
+  }
+
+  return deferConsolidatedDeliveries(
+    { ...entry, dedupKey },
+    now + config.windowMs,
+    now,
+  );
+}
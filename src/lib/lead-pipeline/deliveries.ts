@@ -0,0 +1,82 @@
+/**
+ * Lead Delivery Planning and Execution
+ * Resolves the sinks routed for a lead and runs one sink per delivery.
+ * Sinks are stateless so deliveries can run both inline and from outbox retries.
+ */
+
+import { LEAD_TYPES, type LeadInput } from '@/lib/lead-pipeline/lead-schema';
+import type {
+  DeliveryTarget,
+  LeadOutboxEntry,
+  OutboxLead,
+} from '@/lib/lead-pipeline/outbox/types';
+import { getLeadSink } from '@/lib/lead-pipeline/sinks/registry';
+import { getLeadTypeRouting } from '@/lib/lead-pipeline/sinks/routing';
+import { describeLeadActivity } from '@/lib/lead-pipeline/utils';
+import { logger } from '@/lib/logger';
+
+/**
+ * Remove transient request fields before the lead is persisted
+ */
+export function toOutboxLead(lead: LeadInput): OutboxLead {
+  if (lead.type === LEAD_TYPES.CONTACT) {
+    const { turnstileToken: _turnstileToken, ...stored } = lead;
+    return stored;
+  }
+  return lead;
+}
+
+/**
+ * Decide which sinks a lead is delivered to
+ * Unregistered sink IDs are skipped so a configuration typo cannot block leads,
+ * as are sinks that do not accept the lead (e.g. no WhatsApp opt-in).
+ */
+export function planDeliveries(lead: OutboxLead): DeliveryTarget[] {
+  const sinks = [...new Set(getLeadTypeRouting(lead.type).sinks)];
+  const unknown = sinks.filter((id) => !getLeadSink(id));
+  if (unknown.length > 0) {
+    logger.warn('[Lead Sinks] Skipping unregistered sinks', {
+      leadType: lead.type,
+      sinks: unknown,
+    });
+  }
+  return sinks.filter((id) => {
+    const sink = getLeadSink(id);
+    return sink !== undefined && (sink.accepts?.(lead) ?? true);
+  });
+}
+
+/**
+ * Execute one delivery for an outbox entry
+ * Entries merged into an earlier lead are appended to it as an activity.
+ *
+ * @returns Identifier reported by the downstream service, if any
+ */
+export function executeDelivery(
+  target: DeliveryTarget,
+  entry: LeadOutboxEntry,
+): Promise<string | undefined> {
+  const sink = getLeadSink(target);
+  if (!sink) {
+    return Promise.reject(new Error(`Unknown lead sink: ${target}`));
+  }
+
+  if (entry.mergedInto) {
+    if (!sink.mergeActivity) {
+      return Promise.reject(
+        new Error(`Lead sink ${target} does not support merged leads`),
+      );
+    }
+    return sink.mergeActivity(
+      describeLeadActivity(entry.lead, entry.id, entry.createdAt),
+      entry.mergedInto,
+    );
+  }
+
+  return sink.deliver(entry.lead, {
+    referenceId: entry.id,
+    submittedAt: entry.createdAt,
+    activities: entry.activities,
+    qualification: entry.qualification,
+  });
+}
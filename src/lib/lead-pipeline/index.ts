@@ -21,6 +21,34 @@ export {
   type ContactSubject,
 } from '@/lib/lead-pipeline/lead-schema';
 
+export {
+  ATTRIBUTION_FIELDS,
+  ATTRIBUTION_LABELS,
+  leadAttributionSchema,
+  extractAttribution,
+  formatAttributionSummary,
+  getAttributionEntries,
+  type AttributionEntry,
+  type AttributionField,
+  type LeadAttribution,
+} from '@/lib/lead-pipeline/attribution';
+
+export {
+  buildLeadFacts,
+  evaluateLeadRules,
+  getRouteRecipients,
+  parseQuantity,
+  qualifyLead,
+  type LeadFacts,
+  type LeadProductFacts,
+  type LeadProductResolver,
+  type LeadQualification,
+  type LeadRouteRule,
+  type LeadRuleCondition,
+  type LeadRulesConfig,
+  type LeadScoringRule,
+} from '@/lib/lead-pipeline/lead-scoring';
+
 export {
   splitName,
   formatQuantity,
@@ -32,6 +60,96 @@ export {
 
 export { processLead, type LeadResult } from '@/lib/lead-pipeline/process-lead';
 
+export {
+  drainLeadOutbox,
+  drainLeadOutboxInBackground,
+  type LeadSubmitOptions,
+  type OutboxDrainSummary,
+} from '@/lib/lead-pipeline/lead-outbox';
+
+export {
+  LEAD_EXPORT_COLUMNS,
+  LEAD_EXPORT_FORMATS,
+  LEAD_PII_FIELDS,
+  findOutboxLeads,
+  formatLeadExport,
+  replayOutboxLeads,
+  toLeadExportRecord,
+  type LeadExportFilter,
+  type LeadExportFormat,
+  type LeadExportRecord,
+  type LeadPiiField,
+  type LeadReplayOptions,
+  type LeadReplayResult,
+} from '@/lib/lead-pipeline/lead-export';
+
+export {
+  getLeadOutboxStore,
+  setLeadOutboxStore,
+  resetLeadOutboxStore,
+} from '@/lib/lead-pipeline/outbox/store';
+
+export {
+  DELIVERY_STATUS,
+  OUTBOX_ENTRY_STATUS,
+  type DeliveryTarget,
+  type DeliveryStatus,
+  type OutboxEntryStatus,
+  type LeadOutboxEntry,
+  type LeadOutboxStore,
+  type OutboxDelivery,
+} from '@/lib/lead-pipeline/outbox/types';
+
+export {
+  registerLeadSink,
+  unregisterLeadSink,
+  getLeadSink,
+  listLeadSinks,
+  resetLeadSinkRegistry,
+} from '@/lib/lead-pipeline/sinks/registry';
+
+export {
+  getLeadTypeRouting,
+  setLeadRouting,
+  resetLeadRouting,
+  parseSuccessPolicy,
+  evaluateSuccessPolicy,
+} from '@/lib/lead-pipeline/sinks/routing';
+
+export {
+  LEAD_SINK_IDS,
+  LEAD_SINK_CATEGORIES,
+  LEAD_SUCCESS_MODES,
+  type LeadSink,
+  type LeadSinkCategory,
+  type LeadSinkContext,
+  type LeadSuccessPolicy,
+  type LeadTypeRouting,
+  type LeadRoutingConfig,
+} from '@/lib/lead-pipeline/sinks/types';
+
+export {
+  registerAlertTransport,
+  unregisterAlertTransport,
+  listAlertTransports,
+  resetAlertTransportRegistry,
+} from '@/lib/lead-pipeline/alerts/registry';
+
+export {
+  ALERT_DELIVERY_STATUS,
+  dispatchPipelineAlert,
+  resetAlertDispatchState,
+  type AlertDeliveryResult,
+} from '@/lib/lead-pipeline/alerts/dispatcher';
+
+export {
+  ALERT_TRANSPORT_IDS,
+  PIPELINE_ALERT_TYPES,
+  type AlertTransport,
+  type PipelineAlert,
+  type PipelineAlertNotifier,
+} from '@/lib/lead-pipeline/alerts/types';
+
 export {
   METRIC_SERVICES,
   METRIC_TYPES,
@@ -41,9 +159,12 @@ export {
   createLatencyTimer,
   categorizeError,
   type MetricService,
+  type KnownMetricService,
   type MetricType,
   type ErrorType,
   type ServiceMetric,
   type PipelineSummary,
+  type PipelineSinkSummary,
   type AlertConfig,
+  type ServiceStats,
 } from '@/lib/lead-pipeline/metrics';
@@ -0,0 +1,323 @@
+/**
+ * Lead Export and Replay
+ *
+ * Backs the `scripts/leads.ts` CLI: selects outbox entries by creation
+ * date, status and delivery state, flattens them into CSV/JSON records
+ * with optional PII redaction, and re-submits selected leads through
+ * `processLead` into specific sinks.
+ *
+ * Replays create a new outbox entry that records the original reference ID
+ * in `replayOf` and skip the dedup window, so they are never merged back
+ * into the lead they repeat.
+ */
+
+import { planDeliveries } from '@/lib/lead-pipeline/deliveries';
+import {
+  LEAD_TYPES,
+  type LeadInput,
+  type LeadType,
+} from '@/lib/lead-pipeline/lead-schema';
+import { getLeadOutboxStore } from '@/lib/lead-pipeline/outbox/store';
+import {
+  DELIVERY_STATUS,
+  type DeliveryTarget,
+  type LeadOutboxEntry,
+  type LeadOutboxStore,
+  type OutboxEntryStatus,
+  type OutboxLead,
+} from '@/lib/lead-pipeline/outbox/types';
+import { processLead, type LeadResult } from '@/lib/lead-pipeline/process-lead';
+import { sanitizeCompany, sanitizeEmail } from '@/lib/logger';
+
+/**
+ * Columns of an exported lead, in CSV order
+ */
+export const LEAD_EXPORT_COLUMNS = [
+  'referenceId',
+  'createdAt',
+  'leadType',
+  'status',
+  'email',
+  'fullName',
+  'company',
+  'phone',
+  'subject',
+  'productSlug',
+  'productName',
+  'quantity',
+  'message',
+  'route',
+  'score',
+  'deliveries',
+  'lastErrors',
+  'mergedInto',
+  'replayOf',
+] as const;
+
+export type LeadExportColumn = (typeof LEAD_EXPORT_COLUMNS)[number];
+export type LeadExportRecord = Record<LeadExportColumn, string>;
+
+/**
+ * Columns that hold personal data and can be redacted
+ */
+export const LEAD_PII_FIELDS = [
+  'email',
+  'fullName',
+  'company',
+  'phone',
+  'message',
+] as const satisfies readonly LeadExportColumn[];
+
+export type LeadPiiField = (typeof LEAD_PII_FIELDS)[number];
+
+export const LEAD_EXPORT_FORMATS = {
+  CSV: 'csv',
+  JSON: 'json',
+} as const;
+
+export type LeadExportFormat =
+  (typeof LEAD_EXPORT_FORMATS)[keyof typeof LEAD_EXPORT_FORMATS];
+
+/**
+ * Outbox entries to export or replay
+ */
+export interface LeadExportFilter {
+  /** Creation time range, epoch ms (inclusive) */
+  from: number;
+  to: number;
+  leadTypes?: LeadType[] | undefined;
+  statuses?: OutboxEntryStatus[] | undefined;
+  /** Only entries whose delivery to this sink has not succeeded */
+  undeliveredTo?: DeliveryTarget | undefined;
+  /** Only these reference IDs */
+  ids?: string[] | undefined;
+}
+
+function isUndelivered(
+  entry: LeadOutboxEntry,
+  target: DeliveryTarget,
+): boolean {
+  return entry.deliveries.some(
+    (delivery) =>
+      delivery.target === target &&
+      delivery.status !== DELIVERY_STATUS.DELIVERED,
+  );
+}
+
+/**
+ * Check whether an entry matches the filter (apart from the date range)
+ */
+export function matchesLeadExportFilter(
+  entry: LeadOutboxEntry,
+  filter: Omit<LeadExportFilter, 'from' | 'to'>,
+): boolean {
+  const { leadTypes, statuses, undeliveredTo, ids } = filter;
+  return (
+    (!leadTypes || leadTypes.includes(entry.leadType)) &&
+    (!statuses || statuses.includes(entry.status)) &&
+    (!undeliveredTo || isUndelivered(entry, undeliveredTo)) &&
+    (!ids || ids.includes(entry.id))
+  );
+}
+
+/**
+ * Load the outbox entries matching a filter, oldest first
+ */
+export async function findOutboxLeads(
+  filter: LeadExportFilter,
+  store: LeadOutboxStore = getLeadOutboxStore(),
+): Promise<LeadOutboxEntry[]> {
+  const entries = await store.listCreatedBetween(filter.from, filter.to);
+  return entries.filter((entry) => matchesLeadExportFilter(entry, filter));
+}
+
+type LeadDetailFields = Pick<
+  LeadExportRecord,
+  | 'fullName'
+  | 'company'
+  | 'phone'
+  | 'subject'
+  | 'productSlug'
+  | 'productName'
+  | 'quantity'
+  | 'message'
+>;
+
+function describeLeadFields(lead: OutboxLead): LeadDetailFields {
+  const empty: LeadDetailFields = {
+    fullName: '',
+    company: '',
+    phone: '',
+    subject: '',
+    productSlug: '',
+    productName: '',
+    quantity: '',
+    message: '',
+  };
+  if (lead.type === LEAD_TYPES.NEWSLETTER) return empty;
+
+  const shared = {
+    ...empty,
+    fullName: lead.fullName,
+    company: lead.company ?? '',
+    phone: lead.phone ?? '',
+  };
+  if (lead.type === LEAD_TYPES.CONTACT) {
+    return { ...shared, subject: lead.subject, message: lead.message };
+  }
+  return {
+    ...shared,
+    productSlug: lead.productSlug,
+    productName: lead.productName,
+    quantity: String(lead.quantity),
+    message: lead.requirements ?? '',
+  };
+}
+
+function redactValue(field: LeadPiiField, value: string): string {
+  if (value === '') return value;
+  if (field === 'email') return sanitizeEmail(value);
+  if (field === 'company') return sanitizeCompany(value);
+  return '[REDACTED]';
+}
+
+/**
+ * Flatten an outbox entry into an export record
+ *
+ * @param redact - PII columns to replace with the same placeholders the
+ *                 logger uses (e.g. "[REDACTED_EMAIL]")
+ */
+export function toLeadExportRecord(
+  entry: LeadOutboxEntry,
+  redact: readonly LeadPiiField[] = [],
+): LeadExportRecord {
+  const record: LeadExportRecord = {
+    referenceId: entry.id,
+    createdAt: entry.createdAt,
+    leadType: entry.leadType,
+    status: entry.status,
+    email: entry.lead.email,
+    ...describeLeadFields(entry.lead),
+    route: entry.qualification?.route ?? '',
+    score:
+      entry.qualification === undefined
+        ? ''
+        : String(entry.qualification.score),
+    deliveries: entry.deliveries
+      .map((delivery) => `${delivery.target}:${delivery.status}`)
+      .join(';'),
+    lastErrors: entry.deliveries
+      .filter((delivery) => delivery.lastError)
+      .map((delivery) => `${delivery.target}:${delivery.lastError}`)
+      .join(';'),
+    mergedInto: entry.mergedInto ?? '',
+    replayOf: entry.replayOf ?? '',
+  };
+
+  for (const field of redact) {
+    // eslint-disable-next-line security/detect-object-injection -- field is a LEAD_PII_FIELDS literal
+    record[field] = redactValue(field, record[field]);
+  }
+  return record;
+}
+
+/**
+ * Quote a CSV cell (RFC 4180)
+ * Cells starting with a formula character are prefixed with a quote so
+ * spreadsheet apps do not evaluate submitted text.
+ */
+function toCsvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize export records
+ */
+export function formatLeadExport(
+  records: LeadExportRecord[],
+  format: LeadExportFormat,
+): string {
+  if (format === LEAD_EXPORT_FORMATS.JSON) {
+    return `${JSON.stringify(records, null, 2)}\n`;
+  }
+
+  const rows = records.map((record) =>
+    LEAD_EXPORT_COLUMNS.map((column) =>
+      // eslint-disable-next-line security/detect-object-injection -- column is a LEAD_EXPORT_COLUMNS literal
+      toCsvCell(record[column]),
+    ).join(','),
+  );
+  return `${[LEAD_EXPORT_COLUMNS.join(','), ...rows].join('\n')}\n`;
+}
+
+/**
+ * Placeholder token for replayed contact leads
+ * Turnstile was verified when the lead was first submitted; the schema only
+ * requires a token to be present.
+ */
+export const REPLAY_TURNSTILE_TOKEN = 'replay';
+
+/**
+ * Rebuild the `processLead` input for a stored lead
+ */
+export function toReplayInput(lead: OutboxLead): LeadInput {
+  return lead.type === LEAD_TYPES.CONTACT
+    ? { ...lead, turnstileToken: REPLAY_TURNSTILE_TOKEN }
+    : lead;
+}
+
+export interface LeadReplayOptions {
+  /** Only deliver to these sinks; defaults to every sink routed for the lead */
+  sinks?: DeliveryTarget[] | undefined;
+  /** Report the planned deliveries without sending anything */
+  dryRun?: boolean | undefined;
+}
+
+export interface LeadReplayResult {
+  referenceId: string;
+  /** Sinks the lead is (or would be) delivered to */
+  targets: DeliveryTarget[];
+  /** Why the lead was not replayed */
+  skipped?: 'merged' | 'no_matching_sinks';
+  /** Outcome of the replay; absent for dry runs and skipped leads */
+  result?: LeadResult;
+}
+
+async function replayOutboxLead(
+  entry: LeadOutboxEntry,
+  options: LeadReplayOptions,
+): Promise<LeadReplayResult> {
+  const { sinks, dryRun = false } = options;
+  const referenceId = entry.id;
+  // Merged submissions only exist as activities on their primary lead
+  if (entry.mergedInto) return { referenceId, targets: [], skipped: 'merged' };
+
+  const targets = planDeliveries(entry.lead).filter(
+    (target) => !sinks || sinks.includes(target),
+  );
+  if (targets.length === 0) {
+    return { referenceId, targets, skipped: 'no_matching_sinks' };
+  }
+  if (dryRun) return { referenceId, targets };
+
+  const result = await processLead(toReplayInput(entry.lead), {
+    sinks: targets,
+    replayOf: referenceId,
+  });
+  return { referenceId, targets, result };
+}
+
+/**
+ * Re-submit stored leads through `processLead`, one at a time
+ */
+export async function replayOutboxLeads(
+  entries: LeadOutboxEntry[],
+  options: LeadReplayOptions = {},
+): Promise<LeadReplayResult[]> {
+  const results: LeadReplayResult[] = [];
+  for (const entry of entries) {
+    results.push(await replayOutboxLead(entry, options));
+  }
+  return results;
+}
@@ -0,0 +1,397 @@
+/**
+ * Lead Outbox Orchestration
+ *
+ * Every validated lead is written to the outbox before any downstream call.
+ * Deliveries are then attempted inline; failures stay in the outbox and are
+ * retried with exponential backoff by `drainLeadOutbox` until they succeed
+ * or are dead-lettered.
+ *
+ * The submission routes drain the outbox after each response
+ * (`drainLeadOutboxInBackground`), on top of the `/api/lead-outbox` cron.
+ * One drain runs at a time across instances, and deliveries being attempted
+ * inline are leased so a concurrent drain does not attempt them as well.
+ */
+
+import { runExclusively } from '@/lib/idempotency';
+import {
+  applyLeadDedup,
+  releaseDeferredDeliveries,
+} from '@/lib/lead-pipeline/dedup';
+import {
+  executeDelivery,
+  planDeliveries,
+  toOutboxLead,
+} from '@/lib/lead-pipeline/deliveries';
+import type { LeadInput } from '@/lib/lead-pipeline/lead-schema';
+import { qualifyLead } from '@/lib/lead-pipeline/lead-scoring';
+import {
+  createLatencyTimer,
+  leadPipelineMetrics,
+  type MetricService,
+} from '@/lib/lead-pipeline/metrics';
+import {
+  applyDeliveryAttempt,
+  createPendingDelivery,
+  isDeliveryDue,
+  withDeliveries,
+} from '@/lib/lead-pipeline/outbox/retry-policy';
+import { getLeadOutboxStore } from '@/lib/lead-pipeline/outbox/store';
+import {
+  DELIVERY_STATUS,
+  OUTBOX_ENTRY_STATUS,
+  type DeliveryTarget,
+  type LeadOutboxEntry,
+  type OutboxDelivery,
+} from '@/lib/lead-pipeline/outbox/types';
+import { getLeadSink } from '@/lib/lead-pipeline/sinks/registry';
+import { logger } from '@/lib/logger';
+import { COUNT_TEN, MINUTE_MS, TEN_SECONDS_MS } from '@/constants';
+
+const OPERATION_TIMEOUT_MS = TEN_SECONDS_MS;
+const DEFAULT_DRAIN_LIMIT = COUNT_TEN * COUNT_TEN;
+/** Outlives the inline delivery timeout; a dead submission is retried after it */
+const INLINE_LEASE_MS = MINUTE_MS;
+const DRAIN_LOCK_KEY = 'lead-outbox:drain';
+/** Outlives the API route's maxDuration, in case a drain dies mid-way */
+const DRAIN_LOCK_TTL_MS = MINUTE_MS;
+
+/**
+ * Result of one delivery attempt
+ */
+export interface DeliveryRunResult {
+  target: DeliveryTarget;
+  success: boolean;
+  latencyMs: number;
+  externalId?: string | undefined;
+  error?: Error | undefined;
+}
+
+/**
+ * Outcome of running deliveries for an entry
+ */
+export interface OutboxRunOutcome {
+  entry: LeadOutboxEntry;
+  results: DeliveryRunResult[];
+}
+
+/**
+ * Outcome of submitting a new lead
+ */
+export interface OutboxSubmitOutcome extends OutboxRunOutcome {
+  /** The entry is stored, so pending deliveries will be retried by the drain */
+  persisted: boolean;
+}
+
+/**
+ * Options for submitting a lead to the outbox
+ */
+export interface LeadSubmitOptions {
+  /** Only deliver to these sinks (other routed sinks are skipped) */
+  sinks?: DeliveryTarget[] | undefined;
+  /** Reference ID of the lead being replayed; replays skip the dedup window */
+  replayOf?: string | undefined;
+}
+
+/**
+ * Summary returned by a drain pass
+ */
+export interface OutboxDrainSummary {
+  processed: number;
+  delivered: number;
+  failed: number;
+  deadLettered: number;
+}
+
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  operationName: string,
+): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`${operationName} timed out`)),
+      timeoutMs,
+    );
+  });
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Service reported in metrics for a sink (falls back to the sink ID)
+ */
+export function getMetricService(target: DeliveryTarget): MetricService {
+  return getLeadSink(target)?.metricService ?? target;
+}
+
+function recordDeliveryMetric(result: DeliveryRunResult): void {
+  const service = getMetricService(result.target);
+  if (result.success) {
+    leadPipelineMetrics.recordSuccess(service, result.latencyMs);
+  } else {
+    leadPipelineMetrics.recordFailure(service, result.latencyMs, result.error);
+  }
+}
+
+async function runDelivery(
+  delivery: OutboxDelivery,
+  entry: LeadOutboxEntry,
+): Promise<DeliveryRunResult> {
+  const timer = createLatencyTimer();
+  try {
+    const externalId = await withTimeout(
+      executeDelivery(delivery.target, entry),
+      OPERATION_TIMEOUT_MS,
+      `Delivery ${delivery.target}`,
+    );
+    return {
+      target: delivery.target,
+      success: true,
+      latencyMs: timer.stop(),
+      externalId,
+    };
+  } catch (error) {
+    return {
+      target: delivery.target,
+      success: false,
+      latencyMs: timer.stop(),
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
+/**
+ * Create a new outbox entry with every planned delivery due now
+ */
+export function createOutboxEntry(
+  lead: LeadInput,
+  referenceId: string,
+  now: number = Date.now(),
+): LeadOutboxEntry {
+  const storedLead = toOutboxLead(lead);
+  const deliveries = planDeliveries(storedLead).map((target) =>
+    createPendingDelivery(target, now),
+  );
+  const timestamp = new Date(now).toISOString();
+
+  return withDeliveries(
+    {
+      id: referenceId,
+      leadType: lead.type,
+      lead: storedLead,
+      status: OUTBOX_ENTRY_STATUS.PENDING,
+      deliveries: [],
+      nextAttemptAt: now,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+    deliveries,
+    now,
+  );
+}
+
+/**
+ * Persist an entry; storage failures are logged but never block a lead
+ *
+ * @returns true when the entry was written
+ */
+export async function persistOutboxEntry(
+  entry: LeadOutboxEntry,
+): Promise<boolean> {
+  try {
+    await getLeadOutboxStore().save(entry);
+    return true;
+  } catch (error) {
+    logger.error('[Lead Outbox] Failed to persist entry (fail-open)', {
+      referenceId: entry.id,
+      status: entry.status,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return false;
+  }
+}
+
+/**
+ * Attempt every delivery that is due, record metrics and apply the retry policy
+ */
+export async function runDueDeliveries(
+  entry: LeadOutboxEntry,
+  now: number = Date.now(),
+): Promise<OutboxRunOutcome> {
+  const due = entry.deliveries.filter((delivery) =>
+    isDeliveryDue(delivery, now),
+  );
+  const results = await Promise.all(
+    due.map((delivery) => runDelivery(delivery, entry)),
+  );
+  results.forEach(recordDeliveryMetric);
+
+  const deliveries = entry.deliveries.map((delivery) => {
+    const result = results.find((item) => item.target === delivery.target);
+    return result ? applyDeliveryAttempt(delivery, result, { now }) : delivery;
+  });
+
+  return { entry: withDeliveries(entry, deliveries, now), results };
+}
+
+/**
+ * Apply the sink selection and replay marker of the submit options
+ */
+function applySubmitOptions(
+  entry: LeadOutboxEntry,
+  options: LeadSubmitOptions,
+  now: number,
+): LeadOutboxEntry {
+  const { sinks, replayOf } = options;
+  const deliveries = sinks
+    ? entry.deliveries.filter((delivery) => sinks.includes(delivery.target))
+    : entry.deliveries;
+  return withDeliveries(
+    { ...entry, ...(replayOf ? { replayOf } : {}) },
+    deliveries,
+    now,
+  );
+}
+
+/**
+ * Copy of the entry with its due deliveries held until `until`
+ * Stored while those deliveries run inline.
+ */
+function leaseDueDeliveries(
+  entry: LeadOutboxEntry,
+  until: number,
+  now: number,
+): LeadOutboxEntry {
+  const deliveries = entry.deliveries.map((delivery) =>
+    isDeliveryDue(delivery, now)
+      ? { ...delivery, nextAttemptAt: until }
+      : delivery,
+  );
+  return withDeliveries(entry, deliveries, now);
+}
+
+/**
+ * Score, route and write a new lead to the outbox, then attempt its
+ * deliveries inline
+ * Deliveries deferred by the dedup window are left for `drainLeadOutbox`.
+ */
+export async function submitLeadToOutbox(
+  lead: LeadInput,
+  referenceId: string,
+  options: LeadSubmitOptions = {},
+): Promise<OutboxSubmitOutcome> {
+  const now = Date.now();
+  const created = applySubmitOptions(
+    createOutboxEntry(lead, referenceId, now),
+    options,
+    now,
+  );
+  const qualification = await qualifyLead(created.lead);
+  const qualified = { ...created, qualification };
+  const planned = options.replayOf
+    ? qualified
+    : await applyLeadDedup(qualified, now);
+  // Deferred deliveries only go out later if the entry is stored
+  const stored = await persistOutboxEntry(
+    leaseDueDeliveries(planned, now + INLINE_LEASE_MS, now),
+  );
+  const entry = stored ? planned : releaseDeferredDeliveries(planned, now);
+
+  const outcome = await runDueDeliveries(entry, now);
+  const persisted = (await persistOutboxEntry(outcome.entry)) || stored;
+
+  if (outcome.results.some((result) => !result.success)) {
+    logger.warn('[Lead Outbox] Deliveries queued for retry', {
+      referenceId,
+      pending: outcome.entry.deliveries
+        .filter((delivery) => delivery.status === DELIVERY_STATUS.PENDING)
+        .map((delivery) => delivery.target),
+      nextAttemptAt: outcome.entry.nextAttemptAt,
+    });
+  }
+
+  return { ...outcome, persisted };
+}
+
+function logDeadLetters(entry: LeadOutboxEntry): void {
+  const deadLettered = entry.deliveries.filter(
+    (delivery) => delivery.status === DELIVERY_STATUS.DEAD_LETTERED,
+  );
+  if (deadLettered.length === 0) return;
+
+  logger.error('[Lead Outbox] Delivery dead-lettered', {
+    event: 'lead_outbox_dead_letter',
+    referenceId: entry.id,
+    leadType: entry.leadType,
+    targets: deadLettered.map((delivery) => delivery.target),
+    lastErrors: deadLettered.map((delivery) => delivery.lastError),
+  });
+}
+
+function createDrainSummary(): OutboxDrainSummary {
+  return { processed: 0, delivered: 0, failed: 0, deadLettered: 0 };
+}
+
+async function drainDueEntries(options: {
+  limit?: number;
+  now?: number;
+}): Promise<OutboxDrainSummary> {
+  const { limit = DEFAULT_DRAIN_LIMIT, now = Date.now() } = options;
+  const entries = await getLeadOutboxStore().listDue(now, limit);
+  const summary = createDrainSummary();
+
+  for (const entry of entries) {
+    const outcome = await runDueDeliveries(entry, now);
+    await persistOutboxEntry(outcome.entry);
+
+    summary.processed += 1;
+    summary.delivered += outcome.results.filter((r) => r.success).length;
+    summary.failed += outcome.results.filter((r) => !r.success).length;
+    if (outcome.entry.status === OUTBOX_ENTRY_STATUS.DEAD_LETTERED) {
+      summary.deadLettered += 1;
+      logDeadLetters(outcome.entry);
+    }
+  }
+
+  logger.info('[Lead Outbox] Drain completed', {
+    event: 'lead_outbox_drain',
+    ...summary,
+  });
+  return summary;
+}
+
+/**
+ * Retry due deliveries across the outbox
+ * Skipped (empty summary) while another drain holds the lock.
+ */
+export async function drainLeadOutbox(
+  options: { limit?: number; now?: number } = {},
+): Promise<OutboxDrainSummary> {
+  const summary = await runExclusively(DRAIN_LOCK_KEY, DRAIN_LOCK_TTL_MS, () =>
+    drainDueEntries(options),
+  );
+  if (!summary) {
+    logger.info('[Lead Outbox] Another drain is running, skipping');
+  }
+  return summary ?? createDrainSummary();
+}
+
+/**
+ * Drain the outbox, logging failures instead of throwing
+ * Run from `after()` once a submission has been answered, so retries and
+ * notifications held by the dedup window go out without waiting for the
+ * cron.
+ */
+export async function drainLeadOutboxInBackground(): Promise<void> {
+  try {
+    await drainLeadOutbox();
+  } catch (error) {
+    logger.error('[Lead Outbox] Background drain failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { leadAttributionSchema } from '@/lib/lead-pipeline/attribution';
 import { sanitizePlainText } from '@/lib/security-validation';
 import {
   COUNT_TEN,
@@ -13,6 +14,7 @@ import {
   ONE,
   PERCENTAGE_FULL,
 } from '@/constants';
+import { routing } from '@/i18n/routing-config';
 
 // Validation limits for lead fields - using named constants from project constants
 const EMAIL_MAX_LENGTH = MAGIC_255 - 1; // 254 (RFC 5321)
@@ -22,6 +24,8 @@ const MESSAGE_MIN_LENGTH = COUNT_TEN; // 10
 const MESSAGE_MAX_LENGTH = MAGIC_2500 + MAGIC_2500; // 5000
 const PRODUCT_NAME_MAX_LENGTH = COMPANY_MAX_LENGTH;
 const REQUIREMENTS_MAX_LENGTH = MAGIC_2000;
+const PHONE_MAX_LENGTH = 32;
+const PHONE_PATTERN = /^\+?[0-9\s\-().]+$/;
 
 /**
  * Lead type discriminator
@@ -60,6 +64,24 @@ const baseLeadFields = {
   email: z.string().email().max(EMAIL_MAX_LENGTH),
   company: sanitizedString().max(COMPANY_MAX_LENGTH).optional(),
   marketingConsent: z.boolean().optional().default(false),
+  attribution: leadAttributionSchema.optional(),
+};
+
+/**
+ * Optional WhatsApp contact shared by contact and product leads
+ * The acknowledgement is only sent when the buyer opted in.
+ */
+const whatsappLeadFields = {
+  phone: z
+    .string()
+    .trim()
+    .min(ONE)
+    .max(PHONE_MAX_LENGTH)
+    .regex(PHONE_PATTERN)
+    .optional(),
+  whatsappOptIn: z.boolean().optional().default(false),
+  /** Submission locale, used to pick the acknowledgement template */
+  locale: z.enum(routing.locales).optional(),
 };
 
 /**
@@ -79,6 +101,7 @@ export const contactLeadSchema = z.object({
   turnstileToken: z.string().min(ONE),
   submittedAt: z.string().optional(),
   ...baseLeadFields,
+  ...whatsappLeadFields,
 });
 
 /**
@@ -93,6 +116,7 @@ export const productLeadSchema = z.object({
   quantity: z.union([z.string().trim().min(ONE), z.coerce.number().positive()]),
   requirements: sanitizedString().max(REQUIREMENTS_MAX_LENGTH).optional(),
   ...baseLeadFields,
+  ...whatsappLeadFields,
 });
 
 /**
@@ -102,6 +126,9 @@ export const productLeadSchema = z.object({
 export const newsletterLeadSchema = z.object({
   type: z.literal(LEAD_TYPES.NEWSLETTER),
   email: z.string().email().max(EMAIL_MAX_LENGTH),
+  /** Signup locale, used for the localized confirmation page */
+  locale: z.enum(routing.locales).optional(),
+  attribution: leadAttributionSchema.optional(),
 });
 
 /**
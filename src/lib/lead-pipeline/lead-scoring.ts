@@ -0,0 +1,318 @@
+/**
+ * Lead Scoring and Routing
+ *
+ * Evaluates the declarative rules in `@/config/lead-routing-rules` against
+ * the fields a lead already carries (subject, quantity, company, email
+ * domain, product) and records the resulting score and route on the
+ * outbox entry. Sinks use the route to pick notification recipients and to
+ * tag CRM records.
+ *
+ * Product category and MOQ are looked up from the product catalog; lookup
+ * failures only disable the product-based conditions.
+ */
+
+import {
+  LEAD_TYPES,
+  type ContactSubject,
+  type LeadType,
+} from '@/lib/lead-pipeline/lead-schema';
+import type { OutboxLead } from '@/lib/lead-pipeline/outbox/types';
+import { logger } from '@/lib/logger';
+import { LEAD_ROUTING_RULES } from '@/config/lead-routing-rules';
+import { ZERO } from '@/constants';
+
+/**
+ * Conditions of a rule; every condition that is set must match
+ */
+export interface LeadRuleCondition {
+  leadTypes?: LeadType[];
+  subjects?: ContactSubject[];
+  /** Requested quantity is at least this many units */
+  minQuantity?: number;
+  /** Requested quantity reaches the product MOQ (true) or stays below it (false) */
+  quantityAboveMoq?: boolean;
+  hasCompany?: boolean;
+  /** Email domain is (true) or is not (false) a free mailbox provider */
+  freeEmail?: boolean;
+  emailDomains?: string[];
+  productSlugs?: string[];
+  productCategories?: string[];
+  /** Only for routes: score computed by the scoring rules */
+  minScore?: number;
+}
+
+export interface LeadScoringRule {
+  id: string;
+  when: LeadRuleCondition;
+  points: number;
+}
+
+export interface LeadRouteRule {
+  id: string;
+  when: LeadRuleCondition;
+  /** Notification recipients; empty or unset uses the default inbox */
+  recipients?: string[];
+}
+
+export interface LeadRulesConfig {
+  scoring: LeadScoringRule[];
+  /** Checked in order, first match wins */
+  routes: LeadRouteRule[];
+  defaultRoute: string;
+  freeEmailDomains: string[];
+}
+
+/**
+ * Catalog data used by the product conditions
+ */
+export interface LeadProductFacts {
+  category?: string | undefined;
+  /** Minimum order quantity in units */
+  moq?: number | undefined;
+}
+
+/**
+ * Normalized view of a lead that rules are evaluated against
+ */
+export interface LeadFacts {
+  leadType: LeadType;
+  subject?: ContactSubject | undefined;
+  quantity?: number | undefined;
+  company?: string | undefined;
+  emailDomain: string;
+  productSlug?: string | undefined;
+  productCategory?: string | undefined;
+  productMoq?: number | undefined;
+}
+
+/**
+ * Score and route recorded on a lead
+ */
+export interface LeadQualification {
+  score: number;
+  route: string;
+  /** IDs of the scoring rules that contributed points */
+  matchedRules: string[];
+}
+
+export type LeadProductResolver = (
+  slug: string,
+) => Promise<LeadProductFacts | undefined>;
+
+/**
+ * Parse a free-form quantity ("5,000 pcs", "100 pieces", 250)
+ *
+ * @returns undefined when the value has no leading number
+ */
+export function parseQuantity(
+  value: string | number | undefined,
+): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  const parsed = Number.parseFloat(value?.replace(/[,\s]/g, '') ?? '');
+  return Number.isFinite(parsed) && parsed >= ZERO ? parsed : undefined;
+}
+
+function normalizeValue(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Build the facts rules are evaluated against
+ */
+export function buildLeadFacts(
+  lead: OutboxLead,
+  product?: LeadProductFacts,
+): LeadFacts {
+  const emailDomain = normalizeValue(lead.email.split('@').pop() ?? '');
+
+  if (lead.type === LEAD_TYPES.NEWSLETTER) {
+    return { leadType: lead.type, emailDomain };
+  }
+
+  const facts: LeadFacts = {
+    leadType: lead.type,
+    company: lead.company?.trim() || undefined,
+    emailDomain,
+  };
+  if (lead.type === LEAD_TYPES.CONTACT) {
+    return { ...facts, subject: lead.subject };
+  }
+  return {
+    ...facts,
+    quantity: parseQuantity(lead.quantity),
+    productSlug: lead.productSlug,
+    productCategory: product?.category,
+    productMoq: product?.moq,
+  };
+}
+
+function includesIfSet<T extends string>(
+  allowed: readonly T[] | undefined,
+  value: T | undefined,
+): boolean {
+  if (!allowed) return true;
+  return value !== undefined && allowed.includes(value);
+}
+
+function includesNormalized(
+  allowed: readonly string[] | undefined,
+  value: string | undefined,
+): boolean {
+  if (!allowed) return true;
+  if (value === undefined) return false;
+  const normalized = normalizeValue(value);
+  return allowed.some((item) => normalizeValue(item) === normalized);
+}
+
+function isAboveMoq(facts: LeadFacts): boolean | undefined {
+  if (facts.quantity === undefined || facts.productMoq === undefined) {
+    return undefined;
+  }
+  return facts.quantity >= facts.productMoq;
+}
+
+interface RuleEvaluation {
+  facts: LeadFacts;
+  config: Pick<LeadRulesConfig, 'freeEmailDomains'>;
+  score: number;
+}
+
+type ConditionCheck = (
+  condition: LeadRuleCondition,
+  evaluation: RuleEvaluation,
+) => boolean;
+
+const CONDITION_CHECKS: ConditionCheck[] = [
+  (when, { facts }) => includesIfSet(when.leadTypes, facts.leadType),
+  (when, { facts }) => includesIfSet(when.subjects, facts.subject),
+  (when, { facts }) =>
+    when.minQuantity === undefined ||
+    (facts.quantity !== undefined && facts.quantity >= when.minQuantity),
+  (when, { facts }) =>
+    when.quantityAboveMoq === undefined ||
+    isAboveMoq(facts) === when.quantityAboveMoq,
+  (when, { facts }) =>
+    when.hasCompany === undefined || Boolean(facts.company) === when.hasCompany,
+  (when, { facts, config }) =>
+    when.freeEmail === undefined ||
+    includesNormalized(config.freeEmailDomains, facts.emailDomain) ===
+      when.freeEmail,
+  (when, { facts }) => includesNormalized(when.emailDomains, facts.emailDomain),
+  (when, { facts }) => includesIfSet(when.productSlugs, facts.productSlug),
+  (when, { facts }) =>
+    includesNormalized(when.productCategories, facts.productCategory),
+  (when, { score }) => when.minScore === undefined || score >= when.minScore,
+];
+
+/**
+ * Check whether every condition of a rule matches
+ */
+function matchesLeadCondition(
+  condition: LeadRuleCondition,
+  evaluation: RuleEvaluation,
+): boolean {
+  return CONDITION_CHECKS.every((check) => check(condition, evaluation));
+}
+
+/**
+ * Score a lead and pick its route
+ * Pure function of the facts and the rules, for unit testing rule sets.
+ */
+export function evaluateLeadRules(
+  facts: LeadFacts,
+  config: LeadRulesConfig,
+): LeadQualification {
+  const base = { facts, config, score: ZERO };
+  const matched = config.scoring.filter((rule) =>
+    matchesLeadCondition(rule.when, base),
+  );
+  const score = matched.reduce((total, rule) => total + rule.points, ZERO);
+  const route = config.routes.find((rule) =>
+    matchesLeadCondition(rule.when, { ...base, score }),
+  );
+
+  return {
+    score,
+    route: route?.id ?? config.defaultRoute,
+    matchedRules: matched.map((rule) => rule.id),
+  };
+}
+
+/**
+ * Look up a product in the default-locale catalog
+ */
+async function resolveCatalogProduct(
+  slug: string,
+): Promise<LeadProductFacts | undefined> {
+  // Lazy import keeps the content layer out of non-product lead paths
+  const [{ getProductDetail }, { routing }] = await Promise.all([
+    import('@/lib/content/products-source'),
+    import('@/i18n/routing'),
+  ]);
+  const product = getProductDetail(routing.defaultLocale, slug);
+  return { category: product.category, moq: parseQuantity(product.moq) };
+}
+
+async function resolveProductFacts(
+  lead: OutboxLead,
+  resolveProduct: LeadProductResolver,
+): Promise<LeadProductFacts | undefined> {
+  if (lead.type !== LEAD_TYPES.PRODUCT) return undefined;
+  try {
+    return await resolveProduct(lead.productSlug);
+  } catch (error) {
+    logger.warn(
+      '[Lead Scoring] Product lookup failed; skipping product rules',
+      {
+        productSlug: lead.productSlug,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Score and route a lead with the configured rules
+ */
+export async function qualifyLead(
+  lead: OutboxLead,
+  options: {
+    config?: LeadRulesConfig;
+    resolveProduct?: LeadProductResolver;
+  } = {},
+): Promise<LeadQualification> {
+  const {
+    config = LEAD_ROUTING_RULES,
+    resolveProduct = resolveCatalogProduct,
+  } = options;
+  const product = await resolveProductFacts(lead, resolveProduct);
+  return evaluateLeadRules(buildLeadFacts(lead, product), config);
+}
+
+function parseRecipientList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > ZERO);
+}
+
+/**
+ * Notification recipients for a route
+ * LEAD_ROUTE_RECIPIENTS_<ROUTE_ID> overrides the configured recipients.
+ *
+ * @returns An empty list when the default inbox should be used
+ */
+export function getRouteRecipients(
+  routeId: string | undefined,
+  config: LeadRulesConfig = LEAD_ROUTING_RULES,
+): string[] {
+  if (!routeId) return [];
+  const fromEnv = parseRecipientList(
+    process.env[`LEAD_ROUTE_RECIPIENTS_${routeId.toUpperCase()}`],
+  );
+  if (fromEnv.length > ZERO) return fromEnv;
+  return config.routes.find((rule) => rule.id === routeId)?.recipients ?? [];
+}
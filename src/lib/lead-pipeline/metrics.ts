@@ -1,10 +1,23 @@
 /**
  * Lead Pipeline Metrics and Observability
  * Provides structured metrics, latency tracking, and failure alerting
+ *
+ * Per-service counters and latency samples are kept in memory, so they
+ * describe the current server instance since it started.
  */
 
+import {
+  PIPELINE_ALERT_TYPES,
+  type PipelineAlert,
+  type PipelineAlertNotifier,
+} from '@/lib/lead-pipeline/alerts/types';
 import { logger } from '@/lib/logger';
-import { COUNT_FIVE, TEN_SECONDS_MS } from '@/constants';
+import { COUNT_FIVE, ONE, TEN_SECONDS_MS, ZERO } from '@/constants';
+
+/** Latency samples kept per service for percentiles */
+const LATENCY_SAMPLE_SIZE = 100;
+const P50 = 0.5;
+const P95 = 0.95;
 
 /**
  * Service identifiers for metrics
@@ -12,11 +25,20 @@ import { COUNT_FIVE, TEN_SECONDS_MS } from '@/constants';
 export const METRIC_SERVICES = {
   RESEND: 'resend',
   AIRTABLE: 'airtable',
+  HUBSPOT: 'hubspot',
+  WEBHOOK: 'webhook',
+  SLACK: 'slack',
+  WHATSAPP: 'whatsapp',
 } as const;
 
-export type MetricService =
+export type KnownMetricService =
   (typeof METRIC_SERVICES)[keyof typeof METRIC_SERVICES];
 
+/**
+ * Built-in services plus any custom lead sink ID
+ */
+export type MetricService = KnownMetricService | (string & {});
+
 /**
  * Metric event types
  */
@@ -53,6 +75,16 @@ export interface ServiceMetric {
   errorMessage?: string;
 }
 
+/**
+ * Per-sink entry of a pipeline summary
+ */
+export interface PipelineSinkSummary {
+  service: MetricService;
+  success: boolean;
+  latencyMs: number;
+  errorType?: ErrorType;
+}
+
 /**
  * Pipeline processing summary log structure
  */
@@ -60,8 +92,8 @@ export interface PipelineSummary {
   leadId: string;
   leadType: string;
   totalLatencyMs: number;
-  resend: { success: boolean; latencyMs: number; errorType?: ErrorType };
-  airtable: { success: boolean; latencyMs: number; errorType?: ErrorType };
+  /** Outcome per sink ID */
+  sinks: Record<string, PipelineSinkSummary>;
   overallSuccess: boolean;
   timestamp: string;
 }
@@ -72,11 +104,21 @@ export interface PipelineSummary {
 export interface AlertConfig {
   consecutiveFailureThreshold: number;
   alertCooldownMs: number;
+  /** Delivers failure and recovery alerts; defaults to the alert transports */
+  notify: PipelineAlertNotifier;
+}
+
+async function dispatchToAlertTransports(alert: PipelineAlert): Promise<void> {
+  // Dynamic import to avoid circular dependencies
+  const { dispatchPipelineAlert } =
+    await import('@/lib/lead-pipeline/alerts/dispatcher');
+  await dispatchPipelineAlert(alert);
 }
 
 const DEFAULT_ALERT_CONFIG: AlertConfig = {
   consecutiveFailureThreshold: COUNT_FIVE,
   alertCooldownMs: TEN_SECONDS_MS,
+  notify: dispatchToAlertTransports,
 };
 
 /**
@@ -85,6 +127,8 @@ const DEFAULT_ALERT_CONFIG: AlertConfig = {
 interface FailureState {
   consecutiveFailures: number;
   lastAlertTimestamp: number;
+  /** A failure alert was sent and no success has been seen since */
+  alertActive: boolean;
 }
 
 /**
@@ -92,6 +136,48 @@ interface FailureState {
  */
 type FailureStateMap = Map<MetricService, FailureState>;
 
+/**
+ * Running counters for one service
+ */
+interface ServiceCounters {
+  successCount: number;
+  failureCount: number;
+  /** Most recent latencies, oldest first */
+  latencies: number[];
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastErrorType?: ErrorType;
+}
+
+/**
+ * Aggregated metrics for one service
+ */
+export interface ServiceStats {
+  service: MetricService;
+  successCount: number;
+  failureCount: number;
+  /** Share of successful calls (0-1); null before the first call */
+  successRate: number | null;
+  latencyP50Ms: number | null;
+  latencyP95Ms: number | null;
+  consecutiveFailures: number;
+  /** Consecutive failures reached the alert threshold */
+  alerting: boolean;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastErrorType?: ErrorType;
+}
+
+/**
+ * Nearest-rank percentile of a sample
+ */
+export function percentile(values: number[], fraction: number): number | null {
+  if (values.length === ZERO) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(Math.ceil(fraction * sorted.length) - ONE, ZERO);
+  return sorted[Math.min(rank, sorted.length - ONE)] ?? null;
+}
+
 /**
  * Categorize error into known error types
  */
@@ -138,7 +224,14 @@ export function categorizeError(error: Error | unknown): ErrorType {
  * Create initial failure state
  */
 function createInitialFailureState(): FailureState {
-  return { consecutiveFailures: 0, lastAlertTimestamp: 0 };
+  return { consecutiveFailures: 0, lastAlertTimestamp: 0, alertActive: false };
+}
+
+/**
+ * Create empty counters for a service
+ */
+function createInitialCounters(): ServiceCounters {
+  return { successCount: 0, failureCount: 0, latencies: [] };
 }
 
 /**
@@ -147,14 +240,13 @@ function createInitialFailureState(): FailureState {
  */
 export class LeadPipelineMetrics {
   private failureState: FailureStateMap;
+  private counters: Map<MetricService, ServiceCounters>;
   private alertConfig: AlertConfig;
 
   constructor(config?: Partial<AlertConfig>) {
     this.alertConfig = { ...DEFAULT_ALERT_CONFIG, ...config };
-    this.failureState = new Map<MetricService, FailureState>([
-      [METRIC_SERVICES.RESEND, createInitialFailureState()],
-      [METRIC_SERVICES.AIRTABLE, createInitialFailureState()],
-    ]);
+    this.failureState = new Map<MetricService, FailureState>();
+    this.counters = new Map<MetricService, ServiceCounters>();
   }
 
   /**
@@ -165,6 +257,7 @@ export class LeadPipelineMetrics {
       event: 'lead_pipeline_metric',
       ...metric,
     };
+    this.updateCounters(metric);
 
     if (metric.type === METRIC_TYPES.SUCCESS) {
       logger.info('Lead pipeline metric', metricLog);
@@ -225,14 +318,43 @@ export class LeadPipelineMetrics {
     }
   }
 
+  /**
+   * Add a metric to the running counters of its service
+   */
+  private updateCounters(metric: ServiceMetric): void {
+    const counters =
+      this.counters.get(metric.service) ?? createInitialCounters();
+
+    counters.latencies.push(metric.latencyMs);
+    if (counters.latencies.length > LATENCY_SAMPLE_SIZE) {
+      counters.latencies.shift();
+    }
+
+    if (metric.type === METRIC_TYPES.SUCCESS) {
+      counters.successCount += 1;
+      counters.lastSuccessAt = metric.timestamp;
+    } else {
+      counters.failureCount += 1;
+      counters.lastFailureAt = metric.timestamp;
+      counters.lastErrorType = metric.errorType ?? ERROR_TYPES.UNKNOWN;
+    }
+
+    this.counters.set(metric.service, counters);
+  }
+
   /**
    * Reset consecutive failure count for a service
+   * Sends a recovery alert when the failure streak had raised an alert.
    */
   private resetFailureCount(service: MetricService): void {
     const state = this.failureState.get(service);
-    if (state) {
-      state.consecutiveFailures = 0;
+    if (!state) return;
+
+    if (state.alertActive) {
+      this.triggerRecovery(service, state.consecutiveFailures);
+      state.alertActive = false;
     }
+    state.consecutiveFailures = 0;
   }
 
   /**
@@ -242,14 +364,19 @@ export class LeadPipelineMetrics {
     service: MetricService,
     errorType?: ErrorType,
   ): void {
-    const state = this.failureState.get(service);
-    if (!state) return;
+    let state = this.failureState.get(service);
+    if (!state) {
+      // Services are tracked on first failure so custom sinks need no setup
+      state = createInitialFailureState();
+      this.failureState.set(service, state);
+    }
 
     state.consecutiveFailures += 1;
 
     if (this.shouldTriggerAlert(service)) {
       this.triggerAlert(service, state.consecutiveFailures, errorType);
       state.lastAlertTimestamp = Date.now();
+      state.alertActive = true;
     }
   }
 
@@ -276,13 +403,55 @@ export class LeadPipelineMetrics {
     failureCount: number,
     errorType?: ErrorType,
   ): void {
+    const alert: PipelineAlert = {
+      type: PIPELINE_ALERT_TYPES.FAILURE,
+      service,
+      consecutiveFailures: failureCount,
+      threshold: this.alertConfig.consecutiveFailureThreshold,
+      lastErrorType: errorType ?? ERROR_TYPES.UNKNOWN,
+      timestamp: new Date().toISOString(),
+    };
     logger.error('Lead pipeline alert: consecutive failures', {
       event: 'lead_pipeline_alert',
       service,
+      consecutiveFailures: alert.consecutiveFailures,
+      threshold: alert.threshold,
+      lastErrorType: alert.lastErrorType,
+      timestamp: alert.timestamp,
+    });
+    this.notify(alert);
+  }
+
+  /**
+   * Announce that a service succeeded after a failure alert
+   */
+  private triggerRecovery(service: MetricService, failureCount: number): void {
+    const alert: PipelineAlert = {
+      type: PIPELINE_ALERT_TYPES.RECOVERY,
+      service,
       consecutiveFailures: failureCount,
       threshold: this.alertConfig.consecutiveFailureThreshold,
-      lastErrorType: errorType ?? ERROR_TYPES.UNKNOWN,
       timestamp: new Date().toISOString(),
+    };
+    logger.info('Lead pipeline alert resolved', {
+      event: 'lead_pipeline_recovery',
+      service,
+      consecutiveFailures: failureCount,
+      timestamp: alert.timestamp,
+    });
+    this.notify(alert);
+  }
+
+  /**
+   * Hand an alert to the notifier without blocking metric emission
+   */
+  private notify(alert: PipelineAlert): void {
+    this.alertConfig.notify(alert).catch((error: unknown) => {
+      logger.warn('[Lead Alerts] Alert dispatch failed', {
+        service: alert.service,
+        alertType: alert.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     });
   }
 
@@ -295,14 +464,47 @@ export class LeadPipelineMetrics {
   }
 
   /**
-   * Reset all failure states (for testing)
+   * Alert threshold for consecutive failures
+   */
+  getAlertThreshold(): number {
+    return this.alertConfig.consecutiveFailureThreshold;
+  }
+
+  /**
+   * Aggregated metrics for a service
+   */
+  getServiceStats(service: MetricService): ServiceStats {
+    const { latencies, ...counters } =
+      this.counters.get(service) ?? createInitialCounters();
+    const { consecutiveFailures } = this.getFailureState(service);
+    const total = counters.successCount + counters.failureCount;
+
+    return {
+      service,
+      ...counters,
+      successRate: total > 0 ? counters.successCount / total : null,
+      latencyP50Ms: percentile(latencies, P50),
+      latencyP95Ms: percentile(latencies, P95),
+      consecutiveFailures,
+      alerting: consecutiveFailures >= this.getAlertThreshold(),
+    };
+  }
+
+  /**
+   * Aggregated metrics for every service that recorded a call
+   */
+  getAllServiceStats(): ServiceStats[] {
+    return [...this.counters.keys()]
+      .sort()
+      .map((service) => this.getServiceStats(service));
+  }
+
+  /**
+   * Reset all failure states and counters (for testing)
    */
   resetAllStates(): void {
-    this.failureState.set(METRIC_SERVICES.RESEND, createInitialFailureState());
-    this.failureState.set(
-      METRIC_SERVICES.AIRTABLE,
-      createInitialFailureState(),
-    );
+    this.failureState.clear();
+    this.counters.clear();
   }
 }
 
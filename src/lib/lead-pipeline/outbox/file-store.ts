@@ -0,0 +1,139 @@
+/**
+ * File-backed lead outbox store
+ * Default store for local development and single-instance deployments.
+ * Entries are kept in one JSON document that is rewritten atomically.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  mergeActivities,
+  selectCreatedBetween,
+  selectDedupMatch,
+  selectDueEntries,
+} from '@/lib/lead-pipeline/outbox/memory-store';
+import {
+  OUTBOX_ENTRY_STATUS,
+  type LeadActivity,
+  type LeadOutboxEntry,
+  type LeadOutboxStore,
+} from '@/lib/lead-pipeline/outbox/types';
+import {
+  DAYS_PER_MONTH,
+  HOURS_PER_DAY,
+  MILLISECONDS_PER_HOUR,
+} from '@/constants';
+
+/**
+ * Settled entries (completed or dead-lettered) older than this are pruned
+ */
+const SETTLED_RETENTION_MS =
+  DAYS_PER_MONTH * HOURS_PER_DAY * MILLISECONDS_PER_HOUR;
+
+interface OutboxDocument {
+  entries: LeadOutboxEntry[];
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    'code' in error &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
+
+function isExpired(entry: LeadOutboxEntry, now: number): boolean {
+  if (entry.status === OUTBOX_ENTRY_STATUS.PENDING) return false;
+  return now - Date.parse(entry.updatedAt) > SETTLED_RETENTION_MS;
+}
+
+export class FileLeadOutboxStore implements LeadOutboxStore {
+  private filePath: string;
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  private async readEntries(): Promise<LeadOutboxEntry[]> {
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+      const raw = await readFile(this.filePath, 'utf8');
+      const document = JSON.parse(raw) as Partial<OutboxDocument>;
+      return Array.isArray(document.entries) ? document.entries : [];
+    } catch (error) {
+      if (isMissingFileError(error)) return [];
+      throw error;
+    }
+  }
+
+  private async writeEntries(entries: LeadOutboxEntry[]): Promise<void> {
+    const document: OutboxDocument = { entries };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+    await writeFile(tempPath, JSON.stringify(document, null, 2), 'utf8');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Serialize read-modify-write cycles within this process
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.writeChain.then(operation, operation);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  save(entry: LeadOutboxEntry): Promise<void> {
+    return this.enqueue(async () => {
+      const now = Date.now();
+      const stored = await this.readEntries();
+      const activities = mergeActivities(
+        stored.find((existing) => existing.id === entry.id)?.activities,
+        entry.activities,
+      );
+      const entries = stored.filter(
+        (existing) => existing.id !== entry.id && !isExpired(existing, now),
+      );
+      entries.push(activities ? { ...entry, activities } : entry);
+      await this.writeEntries(entries);
+    });
+  }
+
+  appendActivity(id: string, activity: LeadActivity): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.readEntries();
+      const entry = entries.find((existing) => existing.id === id);
+      if (!entry) throw new Error(`Lead outbox entry not found: ${id}`);
+
+      entry.activities = [...(entry.activities ?? []), activity];
+      await this.writeEntries(entries);
+    });
+  }
+
+  async get(id: string): Promise<LeadOutboxEntry | null> {
+    const entries = await this.readEntries();
+    return entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  async listDue(now: number, limit: number): Promise<LeadOutboxEntry[]> {
+    return selectDueEntries(await this.readEntries(), now, limit);
+  }
+
+  async findByDedupKey(
+    dedupKey: string,
+    since: number,
+  ): Promise<LeadOutboxEntry | null> {
+    return selectDedupMatch(await this.readEntries(), dedupKey, since);
+  }
+
+  async listCreatedBetween(
+    from: number,
+    to: number,
+  ): Promise<LeadOutboxEntry[]> {
+    return selectCreatedBetween(await this.readEntries(), from, to);
+  }
+}
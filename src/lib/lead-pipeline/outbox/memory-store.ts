@@ -0,0 +1,143 @@
+/**
+ * In-memory lead outbox store
+ * Used in tests and as a last-resort fallback; entries do not survive restarts.
+ */
+
+import type {
+  LeadActivity,
+  LeadOutboxEntry,
+  LeadOutboxStore,
+} from '@/lib/lead-pipeline/outbox/types';
+
+/**
+ * Combine two activity lists, keeping the first copy of each submission
+ * in submission order
+ */
+export function mergeActivities(
+  current: LeadActivity[] | undefined,
+  added: LeadActivity[] | undefined,
+): LeadActivity[] | undefined {
+  if (!added?.length) return current;
+  if (!current?.length) return added;
+
+  const merged = new Map<string, LeadActivity>();
+  for (const activity of [...current, ...added]) {
+    if (!merged.has(activity.referenceId)) {
+      merged.set(activity.referenceId, activity);
+    }
+  }
+  return [...merged.values()].sort((a, b) =>
+    a.submittedAt.localeCompare(b.submittedAt),
+  );
+}
+
+/**
+ * Select due entries ordered by their next attempt time
+ */
+export function selectDueEntries(
+  entries: Iterable<LeadOutboxEntry>,
+  now: number,
+  limit: number,
+): LeadOutboxEntry[] {
+  return Array.from(entries)
+    .filter(
+      (entry) => entry.nextAttemptAt !== null && entry.nextAttemptAt <= now,
+    )
+    .sort((a, b) => (a.nextAttemptAt ?? 0) - (b.nextAttemptAt ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * Select the newest unmerged entry matching a dedup key
+ */
+export function selectDedupMatch(
+  entries: Iterable<LeadOutboxEntry>,
+  dedupKey: string,
+  since: number,
+): LeadOutboxEntry | null {
+  const matches = Array.from(entries)
+    .filter(
+      (entry) =>
+        entry.dedupKey === dedupKey &&
+        !entry.mergedInto &&
+        Date.parse(entry.createdAt) >= since,
+    )
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  return matches[0] ?? null;
+}
+
+/**
+ * Select entries created within [from, to], oldest first
+ */
+export function selectCreatedBetween(
+  entries: Iterable<LeadOutboxEntry>,
+  from: number,
+  to: number,
+): LeadOutboxEntry[] {
+  return Array.from(entries)
+    .filter((entry) => {
+      const createdAt = Date.parse(entry.createdAt);
+      return createdAt >= from && createdAt <= to;
+    })
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export class MemoryLeadOutboxStore implements LeadOutboxStore {
+  private entries = new Map<string, LeadOutboxEntry>();
+  private activities = new Map<string, LeadActivity[]>();
+
+  private read(entry: LeadOutboxEntry): LeadOutboxEntry {
+    const activities = mergeActivities(
+      entry.activities,
+      this.activities.get(entry.id),
+    );
+    return structuredClone(activities ? { ...entry, activities } : entry);
+  }
+
+  save(entry: LeadOutboxEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+    return Promise.resolve();
+  }
+
+  appendActivity(id: string, activity: LeadActivity): Promise<void> {
+    this.activities.set(id, [
+      ...(this.activities.get(id) ?? []),
+      structuredClone(activity),
+    ]);
+    return Promise.resolve();
+  }
+
+  get(id: string): Promise<LeadOutboxEntry | null> {
+    const entry = this.entries.get(id);
+    return Promise.resolve(entry ? this.read(entry) : null);
+  }
+
+  listDue(now: number, limit: number): Promise<LeadOutboxEntry[]> {
+    return Promise.resolve(
+      selectDueEntries(this.entries.values(), now, limit).map((entry) =>
+        this.read(entry),
+      ),
+    );
+  }
+
+  findByDedupKey(
+    dedupKey: string,
+    since: number,
+  ): Promise<LeadOutboxEntry | null> {
+    const match = selectDedupMatch(this.entries.values(), dedupKey, since);
+    return Promise.resolve(match ? this.read(match) : null);
+  }
+
+  listCreatedBetween(from: number, to: number): Promise<LeadOutboxEntry[]> {
+    return Promise.resolve(
+      selectCreatedBetween(this.entries.values(), from, to).map((entry) =>
+        this.read(entry),
+      ),
+    );
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.activities.clear();
+  }
+}
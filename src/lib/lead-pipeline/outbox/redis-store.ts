@@ -0,0 +1,188 @@
+/**
+ * Redis REST lead outbox store (Upstash Redis / Vercel KV)
+ *
+ * Entries are stored as JSON strings; sorted sets index pending entries
+ * by their next attempt time and every entry by its creation time, and a
+ * plain key per dedup key points at the newest unmerged entry.
+ * Merged submissions are pushed to a list per entry, so saving a stale copy
+ * of the entry cannot drop them.
+ */
+
+import { mergeActivities } from '@/lib/lead-pipeline/outbox/memory-store';
+import type {
+  LeadActivity,
+  LeadOutboxEntry,
+  LeadOutboxStore,
+} from '@/lib/lead-pipeline/outbox/types';
+import { logger } from '@/lib/logger';
+import { RedisRestClient } from '@/lib/redis-rest';
+import {
+  DAYS_PER_MONTH,
+  HOURS_PER_DAY,
+  MILLISECONDS_PER_HOUR,
+} from '@/constants';
+
+const KEY_PREFIX = 'lead-outbox';
+const DUE_INDEX_KEY = `${KEY_PREFIX}:due`;
+const CREATED_INDEX_KEY = `${KEY_PREFIX}:created`;
+
+/**
+ * Entries expire 30 days after their last update
+ */
+const ENTRY_TTL_MS = DAYS_PER_MONTH * HOURS_PER_DAY * MILLISECONDS_PER_HOUR;
+
+export class RedisLeadOutboxStore implements LeadOutboxStore {
+  private redis: RedisRestClient;
+
+  constructor(url: string, token: string) {
+    this.redis = new RedisRestClient(url, token, 'Lead outbox store');
+  }
+
+  private entryKey(id: string): string {
+    return `${KEY_PREFIX}:entry:${id}`;
+  }
+
+  private activitiesKey(id: string): string {
+    return `${KEY_PREFIX}:activities:${id}`;
+  }
+
+  private dedupKey(dedupKey: string): string {
+    return `${KEY_PREFIX}:dedup:${dedupKey}`;
+  }
+
+  async save(entry: LeadOutboxEntry): Promise<void> {
+    await this.redis.command([
+      'SET',
+      this.entryKey(entry.id),
+      JSON.stringify(entry),
+      'PX',
+      ENTRY_TTL_MS,
+    ]);
+
+    if (entry.dedupKey && !entry.mergedInto) {
+      await this.redis.command([
+        'SET',
+        this.dedupKey(entry.dedupKey),
+        entry.id,
+        'PX',
+        ENTRY_TTL_MS,
+      ]);
+    }
+
+    await this.redis.command([
+      'ZADD',
+      CREATED_INDEX_KEY,
+      Date.parse(entry.createdAt),
+      entry.id,
+    ]);
+
+    if (entry.nextAttemptAt === null) {
+      await this.redis.command(['ZREM', DUE_INDEX_KEY, entry.id]);
+    } else {
+      await this.redis.command([
+        'ZADD',
+        DUE_INDEX_KEY,
+        entry.nextAttemptAt,
+        entry.id,
+      ]);
+    }
+  }
+
+  async appendActivity(id: string, activity: LeadActivity): Promise<void> {
+    const key = this.activitiesKey(id);
+    await this.redis.command(['RPUSH', key, JSON.stringify(activity)]);
+    await this.redis.command(['PEXPIRE', key, ENTRY_TTL_MS]);
+  }
+
+  async get(id: string): Promise<LeadOutboxEntry | null> {
+    const [raw, appended] = await Promise.all([
+      this.redis.command<string | null>(['GET', this.entryKey(id)]),
+      this.redis.command<string[] | null>([
+        'LRANGE',
+        this.activitiesKey(id),
+        0,
+        -1,
+      ]),
+    ]);
+    if (!raw) return null;
+
+    try {
+      const entry = JSON.parse(raw) as LeadOutboxEntry;
+      const activities = mergeActivities(
+        entry.activities,
+        (appended ?? []).map((item) => JSON.parse(item) as LeadActivity),
+      );
+      return activities ? { ...entry, activities } : entry;
+    } catch {
+      logger.warn('[Lead Outbox] Ignoring unreadable entry', { id });
+      return null;
+    }
+  }
+
+  async findByDedupKey(
+    dedupKey: string,
+    since: number,
+  ): Promise<LeadOutboxEntry | null> {
+    const id = await this.redis.command<string | null>([
+      'GET',
+      this.dedupKey(dedupKey),
+    ]);
+    if (!id) return null;
+
+    const entry = await this.get(id);
+    if (!entry || Date.parse(entry.createdAt) < since) return null;
+    return entry;
+  }
+
+  async listDue(now: number, limit: number): Promise<LeadOutboxEntry[]> {
+    const ids = await this.redis.command<string[] | null>([
+      'ZRANGEBYSCORE',
+      DUE_INDEX_KEY,
+      '-inf',
+      now,
+      'LIMIT',
+      0,
+      limit,
+    ]);
+    return this.loadIndexed(DUE_INDEX_KEY, ids);
+  }
+
+  async listCreatedBetween(
+    from: number,
+    to: number,
+  ): Promise<LeadOutboxEntry[]> {
+    const ids = await this.redis.command<string[] | null>([
+      'ZRANGEBYSCORE',
+      CREATED_INDEX_KEY,
+      from,
+      to,
+    ]);
+    return this.loadIndexed(CREATED_INDEX_KEY, ids);
+  }
+
+  /**
+   * Load the entries listed by an index, in index order
+   */
+  private async loadIndexed(
+    indexKey: string,
+    ids: string[] | null,
+  ): Promise<LeadOutboxEntry[]> {
+    if (!ids || ids.length === 0) return [];
+
+    const loaded = await Promise.all(
+      ids.map(async (id) => ({ id, entry: await this.get(id) })),
+    );
+    const missing = loaded.filter(({ entry }) => entry === null);
+    if (missing.length > 0) {
+      // Entry expired or was removed; drop dangling index members
+      await this.redis.command([
+        'ZREM',
+        indexKey,
+        ...missing.map(({ id }) => id),
+      ]);
+    }
+    return loaded
+      .map(({ entry }) => entry)
+      .filter((entry): entry is LeadOutboxEntry => entry !== null);
+  }
+}
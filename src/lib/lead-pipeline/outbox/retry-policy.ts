@@ -0,0 +1,173 @@
+/**
+ * Lead Outbox Retry Policy
+ * Pure state transitions for delivery attempts (exponential backoff + dead-lettering)
+ */
+
+import {
+  DELIVERY_STATUS,
+  OUTBOX_ENTRY_STATUS,
+  type DeliveryTarget,
+  type LeadOutboxEntry,
+  type OutboxDelivery,
+  type OutboxEntryStatus,
+  type OutboxRetryPolicy,
+} from '@/lib/lead-pipeline/outbox/types';
+import { COUNT_TEN, MILLISECONDS_PER_HOUR, MINUTE_MS, ONE } from '@/constants';
+
+/**
+ * Default retry policy
+ * 1m, 2m, 4m ... capped at 1h between attempts; gives up after 10 attempts.
+ * The delays are minimums: a retry runs at the next drain after it is due
+ * (a later submission or the `/api/lead-outbox` cron). Drained every few
+ * minutes, the attempts span roughly four hours, which covers a typical CRM
+ * or email provider outage; with only the daily cron, they span days.
+ */
+export const DEFAULT_OUTBOX_RETRY_POLICY: OutboxRetryPolicy = {
+  maxAttempts: COUNT_TEN,
+  baseDelayMs: MINUTE_MS,
+  maxDelayMs: MILLISECONDS_PER_HOUR,
+};
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export interface DeliveryAttemptOutcome {
+  success: boolean;
+  externalId?: string | undefined;
+  error?: Error | undefined;
+}
+
+/**
+ * Context for applying an attempt outcome
+ */
+export interface DeliveryAttemptContext {
+  now: number;
+  policy?: OutboxRetryPolicy;
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempts - Number of attempts already made (1 after the first failure)
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempts: number,
+  policy: OutboxRetryPolicy = DEFAULT_OUTBOX_RETRY_POLICY,
+): number {
+  const exponent = Math.max(attempts - ONE, 0);
+  const delay = policy.baseDelayMs * 2 ** exponent;
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Create a delivery that is due immediately
+ */
+export function createPendingDelivery(
+  target: DeliveryTarget,
+  now: number,
+): OutboxDelivery {
+  return {
+    target,
+    status: DELIVERY_STATUS.PENDING,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+}
+
+/**
+ * Check whether a delivery should be attempted at `now`
+ */
+export function isDeliveryDue(delivery: OutboxDelivery, now: number): boolean {
+  return (
+    delivery.status === DELIVERY_STATUS.PENDING &&
+    delivery.nextAttemptAt !== null &&
+    delivery.nextAttemptAt <= now
+  );
+}
+
+/**
+ * Apply the outcome of an attempt to a delivery
+ * Successful attempts are marked delivered; failures are rescheduled with
+ * backoff until the policy's attempt budget is exhausted.
+ */
+export function applyDeliveryAttempt(
+  delivery: OutboxDelivery,
+  outcome: DeliveryAttemptOutcome,
+  context: DeliveryAttemptContext,
+): OutboxDelivery {
+  const policy = context.policy ?? DEFAULT_OUTBOX_RETRY_POLICY;
+  const attempts = delivery.attempts + ONE;
+  const lastAttemptAt = new Date(context.now).toISOString();
+
+  if (outcome.success) {
+    const { lastError: _lastError, ...rest } = delivery;
+    return {
+      ...rest,
+      status: DELIVERY_STATUS.DELIVERED,
+      attempts,
+      lastAttemptAt,
+      nextAttemptAt: null,
+      ...(outcome.externalId ? { externalId: outcome.externalId } : {}),
+    };
+  }
+
+  const exhausted = attempts >= policy.maxAttempts;
+  return {
+    ...delivery,
+    status: exhausted ? DELIVERY_STATUS.DEAD_LETTERED : DELIVERY_STATUS.PENDING,
+    attempts,
+    lastAttemptAt,
+    nextAttemptAt: exhausted
+      ? null
+      : context.now + computeRetryDelay(attempts, policy),
+    lastError: outcome.error?.message ?? 'Unknown error',
+  };
+}
+
+/**
+ * Derive aggregate status and next attempt time from deliveries
+ */
+export function summarizeDeliveries(deliveries: OutboxDelivery[]): {
+  status: OutboxEntryStatus;
+  nextAttemptAt: number | null;
+} {
+  const pendingTimes = deliveries
+    .filter((delivery) => delivery.status === DELIVERY_STATUS.PENDING)
+    .map((delivery) => delivery.nextAttemptAt)
+    .filter((time): time is number => time !== null);
+
+  if (pendingTimes.length > 0) {
+    return {
+      status: OUTBOX_ENTRY_STATUS.PENDING,
+      nextAttemptAt: Math.min(...pendingTimes),
+    };
+  }
+
+  const hasDeadLetter = deliveries.some(
+    (delivery) => delivery.status === DELIVERY_STATUS.DEAD_LETTERED,
+  );
+  return {
+    status: hasDeadLetter
+      ? OUTBOX_ENTRY_STATUS.DEAD_LETTERED
+      : OUTBOX_ENTRY_STATUS.COMPLETED,
+    nextAttemptAt: null,
+  };
+}
+
+/**
+ * Return a copy of the entry with refreshed aggregate fields
+ */
+export function withDeliveries(
+  entry: LeadOutboxEntry,
+  deliveries: OutboxDelivery[],
+  now: number,
+): LeadOutboxEntry {
+  return {
+    ...entry,
+    deliveries,
+    ...summarizeDeliveries(deliveries),
+    updatedAt: new Date(now).toISOString(),
+  };
+}
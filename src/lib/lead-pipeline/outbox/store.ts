@@ -0,0 +1,89 @@
+/**
+ * Lead Outbox Store Selection
+ *
+ * Resolution order:
+ * 1. LEAD_OUTBOX_STORE=memory|file forces a local store
+ * 2. Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 3. Vercel KV (KV_REST_API_URL + KV_REST_API_TOKEN)
+ * 4. JSON file at LEAD_OUTBOX_FILE_PATH (default: .data/lead-outbox.json);
+ *    tests default to the in-memory store
+ *
+ * Production refuses the implicit file fallback: serverless file systems are
+ * read-only or per-instance, so the outbox would silently lose leads. Set
+ * LEAD_OUTBOX_STORE=file explicitly to use it on a persistent disk.
+ */
+
+import path from 'path';
+import { FileLeadOutboxStore } from '@/lib/lead-pipeline/outbox/file-store';
+import { MemoryLeadOutboxStore } from '@/lib/lead-pipeline/outbox/memory-store';
+import { RedisLeadOutboxStore } from '@/lib/lead-pipeline/outbox/redis-store';
+import type { LeadOutboxStore } from '@/lib/lead-pipeline/outbox/types';
+import { logger } from '@/lib/logger';
+import { getRedisRestConfig } from '@/lib/redis-rest';
+
+const DEFAULT_OUTBOX_FILE = path.join('.data', 'lead-outbox.json');
+
+function createLocalStore(kind: string | undefined): LeadOutboxStore {
+  if (kind === 'memory') {
+    logger.warn(
+      '[Lead Outbox] Using in-memory store. Pending deliveries are lost on restart.',
+    );
+    return new MemoryLeadOutboxStore();
+  }
+
+  const filePath = process.env.LEAD_OUTBOX_FILE_PATH || DEFAULT_OUTBOX_FILE;
+  logger.info('[Lead Outbox] Using file store', { filePath });
+  return new FileLeadOutboxStore(filePath);
+}
+
+function createLeadOutboxStore(): LeadOutboxStore {
+  const forced = process.env.LEAD_OUTBOX_STORE;
+  if (forced === 'memory' || forced === 'file') {
+    return createLocalStore(forced);
+  }
+
+  const redis = getRedisRestConfig();
+  if (redis) {
+    logger.info('[Lead Outbox] Using Redis store', {
+      provider: redis.provider,
+    });
+    return new RedisLeadOutboxStore(redis.url, redis.token);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    logger.error(
+      '[Lead Outbox] No Redis configured for production; refusing the file store',
+    );
+    throw new Error(
+      'Lead outbox requires UPSTASH_REDIS_REST_URL/TOKEN or KV_REST_API_URL/TOKEN in production',
+    );
+  }
+
+  return createLocalStore(process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+}
+
+let leadOutboxStore: LeadOutboxStore | null = null;
+
+/**
+ * Get the active outbox store (created lazily)
+ */
+export function getLeadOutboxStore(): LeadOutboxStore {
+  if (!leadOutboxStore) {
+    leadOutboxStore = createLeadOutboxStore();
+  }
+  return leadOutboxStore;
+}
+
+/**
+ * Plug in a custom store implementation
+ */
+export function setLeadOutboxStore(store: LeadOutboxStore): void {
+  leadOutboxStore = store;
+}
+
+/**
+ * Reset store instance (for testing)
+ */
+export function resetLeadOutboxStore(): void {
+  leadOutboxStore = null;
+}
@@ -0,0 +1,143 @@
+/**
+ * Lead Outbox Type Definitions
+ * Persistent record of every validated lead and its downstream deliveries
+ */
+
+import type { LeadInput, LeadType } from '@/lib/lead-pipeline/lead-schema';
+import type { LeadQualification } from '@/lib/lead-pipeline/lead-scoring';
+
+/**
+ * Downstream delivery target: the ID of a registered lead sink
+ * @see src/lib/lead-pipeline/sinks/registry.ts
+ */
+export type DeliveryTarget = string;
+
+/**
+ * Lifecycle status of a single delivery
+ */
+export const DELIVERY_STATUS = {
+  PENDING: 'pending',
+  DELIVERED: 'delivered',
+  DEAD_LETTERED: 'dead_lettered',
+} as const;
+
+export type DeliveryStatus =
+  (typeof DELIVERY_STATUS)[keyof typeof DELIVERY_STATUS];
+
+/**
+ * Aggregate status of an outbox entry
+ * - pending: at least one delivery is still waiting for a retry
+ * - completed: every delivery succeeded
+ * - dead_lettered: no retries left and at least one delivery gave up
+ */
+export const OUTBOX_ENTRY_STATUS = {
+  PENDING: 'pending',
+  COMPLETED: 'completed',
+  DEAD_LETTERED: 'dead_lettered',
+} as const;
+
+export type OutboxEntryStatus =
+  (typeof OUTBOX_ENTRY_STATUS)[keyof typeof OUTBOX_ENTRY_STATUS];
+
+/**
+ * Lead payload as persisted in the outbox
+ * Transient request fields (the Turnstile token) are never stored.
+ */
+type WithoutToken<T> = T extends unknown ? Omit<T, 'turnstileToken'> : never;
+export type OutboxLead = WithoutToken<LeadInput>;
+
+/**
+ * State of one downstream delivery
+ */
+export interface OutboxDelivery {
+  target: DeliveryTarget;
+  status: DeliveryStatus;
+  attempts: number;
+  /** Epoch ms of the next scheduled attempt, null when no retry is due */
+  nextAttemptAt: number | null;
+  lastAttemptAt?: string;
+  lastError?: string;
+  /** Identifier returned by the downstream service (message ID, record ID) */
+  externalId?: string;
+}
+
+/**
+ * Repeat submission folded into an earlier lead by the dedup window
+ * @see src/lib/lead-pipeline/dedup.ts
+ */
+export interface LeadActivity {
+  /** Reference ID issued for the repeat submission */
+  referenceId: string;
+  leadType: LeadType;
+  /** ISO timestamp of the repeat submission */
+  submittedAt: string;
+  /** Plain-text description for CRM notes and notifications */
+  summary: string;
+}
+
+/**
+ * Persisted lead with its delivery state
+ *
+ * The lead payload is stored after validation with transient fields
+ * (e.g. the Turnstile token) removed, so retries can rebuild every
+ * downstream request without the original HTTP request.
+ */
+export interface LeadOutboxEntry {
+  /** Lead reference ID, also used as the outbox key */
+  id: string;
+  leadType: LeadType;
+  lead: OutboxLead;
+  status: OutboxEntryStatus;
+  deliveries: OutboxDelivery[];
+  /** Earliest nextAttemptAt across pending deliveries */
+  nextAttemptAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Normalized identity that later submissions are matched on */
+  dedupKey?: string;
+  /** Reference ID of the earlier lead this submission was merged into */
+  mergedInto?: string;
+  /** Repeat submissions merged into this lead, oldest first */
+  activities?: LeadActivity[];
+  /** Score and route assigned by the lead routing rules */
+  qualification?: LeadQualification;
+  /** Reference ID of the lead this entry re-submitted through the replay CLI */
+  replayOf?: string;
+}
+
+/**
+ * Retry policy for failed deliveries
+ */
+export interface OutboxRetryPolicy {
+  /** Total attempts (including the first one) before dead-lettering */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Storage backend for the lead outbox
+ *
+ * Implementations must be safe to call from concurrent requests within
+ * one instance. Draining is expected to run from a single scheduler.
+ */
+export interface LeadOutboxStore {
+  /**
+   * Insert or replace an entry
+   * Activities appended with `appendActivity` are kept even when `entry` is a
+   * copy read before they were added.
+   */
+  save(entry: LeadOutboxEntry): Promise<void>;
+  /** Add a merged repeat submission to an entry without rewriting it */
+  appendActivity(id: string, activity: LeadActivity): Promise<void>;
+  get(id: string): Promise<LeadOutboxEntry | null>;
+  /** Entries with a pending delivery scheduled at or before `now` */
+  listDue(now: number, limit: number): Promise<LeadOutboxEntry[]>;
+  /** Most recent unmerged entry with this dedup key created at or after `since` */
+  findByDedupKey(
+    dedupKey: string,
+    since: number,
+  ): Promise<LeadOutboxEntry | null>;
+  /** Entries created within [from, to] (epoch ms), oldest first */
+  listCreatedBetween(from: number, to: number): Promise<LeadOutboxEntry[]>;
+}
@@ -3,31 +3,39 @@
  * Unified handler for all lead sources: contact, product inquiry, newsletter
  */
 
+import { isDeferredDelivery } from '@/lib/lead-pipeline/dedup';
 import {
-  isContactLead,
-  isNewsletterLead,
-  isProductLead,
-  LEAD_TYPES,
-  leadSchema,
-  type ContactLeadInput,
-  type LeadInput,
-  type NewsletterLeadInput,
-  type ProductLeadInput,
-} from '@/lib/lead-pipeline/lead-schema';
+  getMetricService,
+  submitLeadToOutbox,
+  type DeliveryRunResult,
+  type LeadSubmitOptions,
+  type OutboxSubmitOutcome,
+} from '@/lib/lead-pipeline/lead-outbox';
+import { leadSchema, type LeadInput } from '@/lib/lead-pipeline/lead-schema';
 import {
   categorizeError,
   createLatencyTimer,
   leadPipelineMetrics,
-  METRIC_SERVICES,
+  type PipelineSinkSummary,
   type PipelineSummary,
 } from '@/lib/lead-pipeline/metrics';
 import {
-  generateLeadReferenceId,
-  generateProductInquiryMessage,
-  splitName,
-} from '@/lib/lead-pipeline/utils';
+  DELIVERY_STATUS,
+  type LeadOutboxEntry,
+} from '@/lib/lead-pipeline/outbox/types';
+import { getLeadSink } from '@/lib/lead-pipeline/sinks/registry';
+import {
+  evaluateSuccessPolicy,
+  getLeadTypeRouting,
+  type SinkOutcome,
+} from '@/lib/lead-pipeline/sinks/routing';
+import {
+  LEAD_SINK_CATEGORIES,
+  type LeadSinkCategory,
+  type LeadSuccessPolicy,
+} from '@/lib/lead-pipeline/sinks/types';
+import { generateLeadReferenceId } from '@/lib/lead-pipeline/utils';
 import { logger, sanitizeEmail } from '@/lib/logger';
-import { CONTACT_FORM_CONFIG } from '@/config/contact-form-config';
 
 /**
  * Result of lead processing operation
@@ -37,351 +45,124 @@ export interface LeadResult {
   emailSent: boolean;
   recordCreated: boolean;
   referenceId?: string | undefined;
+  /** Reference ID of the earlier lead this submission was merged into */
+  mergedInto?: string | undefined;
+  /**
+   * The success policy is not met yet, but the lead is stored in the outbox
+   * and its failed deliveries will be retried
+   */
+  queued?: boolean | undefined;
   error?: 'VALIDATION_ERROR' | 'PROCESSING_FAILED' | string | undefined;
 }
 
 /**
- * Internal result type for service operations
+ * Check whether any sink of a category delivered the lead
  */
-interface ServiceResult {
-  success: boolean;
-  id?: string | undefined;
-  error?: Error | undefined;
-  latencyMs: number;
+function hasCategorySuccess(
+  results: DeliveryRunResult[],
+  category: LeadSinkCategory,
+): boolean {
+  return results.some(
+    (result) =>
+      result.success && getLeadSink(result.target)?.category === category,
+  );
 }
 
 /**
- * Timeout wrapper for async operations with latency tracking
+ * How the success policy judged a submission
+ * - delivered: the policy is met
+ * - queued: the policy is met once pending retries succeed
+ * - rejected: the lead could not be delivered or stored
  */
-interface TimedResult<T> {
-  result: T;
-  latencyMs: number;
-}
-
-async function withTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs: number,
-  operationName: string,
-): Promise<TimedResult<T>> {
-  const timer = createLatencyTimer();
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(
-      () => reject(new Error(`${operationName} timed out`)),
-      timeoutMs,
-    );
-  });
-  const result = await Promise.race([promise, timeoutPromise]);
-  return { result, latencyMs: timer.stop() };
-}
-
-const OPERATION_TIMEOUT_MS = 10000; // 10 seconds
-const DEFAULT_LATENCY = 0;
+type LeadAcceptance = 'delivered' | 'queued' | 'rejected';
 
 /**
- * Process contact lead
+ * Sink outcomes of an entry
+ *
+ * Deliveries deferred by the dedup window are durably queued and count as
+ * successful; `countRetries` also counts deliveries waiting for a retry.
  */
-async function processContactLead(
-  lead: ContactLeadInput,
-  referenceId: string,
-): Promise<{ emailResult: ServiceResult; crmResult: ServiceResult }> {
-  const { firstName, lastName } = splitName(lead.fullName);
-
-  // Lazy import to avoid circular dependencies
-  const { resendService } = await import('@/lib/resend');
-  const { airtableService } = await import('@/lib/airtable');
-
-  const emailData = {
-    firstName,
-    lastName,
-    email: lead.email,
-    company: lead.company ?? '',
-    subject: lead.subject,
-    message: lead.message,
-    submittedAt: lead.submittedAt || new Date().toISOString(),
-    marketingConsent: lead.marketingConsent,
-  };
-
-  const emailTimer = createLatencyTimer();
-  const crmTimer = createLatencyTimer();
-
-  const [emailSettled, crmSettled] = await Promise.allSettled([
-    withTimeout(
-      resendService.sendContactFormEmail(emailData),
-      OPERATION_TIMEOUT_MS,
-      'Email send',
-    ),
-    withTimeout(
-      airtableService.createLead(LEAD_TYPES.CONTACT, {
-        firstName,
-        lastName,
-        email: lead.email,
-        company: lead.company,
-        subject: lead.subject,
-        message: lead.message,
-        marketingConsent: lead.marketingConsent,
-        referenceId,
-      }),
-      OPERATION_TIMEOUT_MS,
-      'CRM record',
-    ),
-  ]);
-
-  // Send confirmation email if enabled (fire-and-forget, non-blocking)
-  if (CONTACT_FORM_CONFIG.features.sendConfirmationEmail) {
-    resendService.sendConfirmationEmail(emailData).catch((error) => {
-      logger.warn('Confirmation email failed (non-blocking)', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        email: sanitizeEmail(lead.email),
-      });
-    });
-  }
-
-  const emailLatency =
-    emailSettled.status === 'fulfilled'
-      ? emailSettled.value.latencyMs
-      : emailTimer.stop();
-  const crmLatency =
-    crmSettled.status === 'fulfilled'
-      ? crmSettled.value.latencyMs
-      : crmTimer.stop();
-
-  return {
-    emailResult:
-      emailSettled.status === 'fulfilled'
-        ? {
-            success: true,
-            id: emailSettled.value.result,
-            latencyMs: emailLatency,
-          }
-        : {
-            success: false,
-            error: emailSettled.reason,
-            latencyMs: emailLatency,
-          },
-    crmResult:
-      crmSettled.status === 'fulfilled'
-        ? {
-            success: true,
-            id: crmSettled.value.result?.id,
-            latencyMs: crmLatency,
-          }
-        : { success: false, error: crmSettled.reason, latencyMs: crmLatency },
-  };
+function getSinkOutcomes(
+  entry: LeadOutboxEntry,
+  countRetries: boolean,
+): SinkOutcome[] {
+  const now = Date.now();
+  return entry.deliveries.map((delivery) => ({
+    sink: getLeadSink(delivery.target) ?? { id: delivery.target },
+    success:
+      delivery.status === DELIVERY_STATUS.DELIVERED ||
+      isDeferredDelivery(delivery, now) ||
+      (countRetries && delivery.status === DELIVERY_STATUS.PENDING),
+  }));
 }
 
 /**
- * Process product inquiry lead
+ * Decide whether the lead was accepted
+ *
+ * A submission merged into an earlier lead is accepted once its activity is
+ * recorded. A stored lead whose failed deliveries are still being retried is
+ * accepted as queued, so the visitor is not asked to submit it again.
  */
-async function processProductLead(
-  lead: ProductLeadInput,
-  referenceId: string,
-): Promise<{ emailResult: ServiceResult; crmResult: ServiceResult }> {
-  const { firstName, lastName } = splitName(lead.fullName);
-  const message = generateProductInquiryMessage(
-    lead.productName,
-    lead.quantity,
-    lead.requirements,
-  );
-
-  // Lazy import to avoid circular dependencies
-  const { resendService } = await import('@/lib/resend');
-  const { airtableService } = await import('@/lib/airtable');
-
-  const emailTimer = createLatencyTimer();
-  const crmTimer = createLatencyTimer();
-
-  const [emailSettled, crmSettled] = await Promise.allSettled([
-    withTimeout(
-      resendService.sendProductInquiryEmail({
-        firstName,
-        lastName,
-        email: lead.email,
-        company: lead.company,
-        productName: lead.productName,
-        productSlug: lead.productSlug,
-        quantity: lead.quantity,
-        requirements: lead.requirements,
-        marketingConsent: lead.marketingConsent,
-      }),
-      OPERATION_TIMEOUT_MS,
-      'Email send',
-    ),
-    withTimeout(
-      airtableService.createLead(LEAD_TYPES.PRODUCT, {
-        firstName,
-        lastName,
-        email: lead.email,
-        company: lead.company,
-        message,
-        productSlug: lead.productSlug,
-        productName: lead.productName,
-        quantity: lead.quantity,
-        requirements: lead.requirements,
-        marketingConsent: lead.marketingConsent,
-        referenceId,
-      }),
-      OPERATION_TIMEOUT_MS,
-      'CRM record',
-    ),
-  ]);
-
-  const emailLatency =
-    emailSettled.status === 'fulfilled'
-      ? emailSettled.value.latencyMs
-      : emailTimer.stop();
-  const crmLatency =
-    crmSettled.status === 'fulfilled'
-      ? crmSettled.value.latencyMs
-      : crmTimer.stop();
-
-  return {
-    emailResult:
-      emailSettled.status === 'fulfilled'
-        ? {
-            success: true,
-            id: emailSettled.value.result,
-            latencyMs: emailLatency,
-          }
-        : {
-            success: false,
-            error: emailSettled.reason,
-            latencyMs: emailLatency,
-          },
-    crmResult:
-      crmSettled.status === 'fulfilled'
-        ? {
-            success: true,
-            id: crmSettled.value.result?.id,
-            latencyMs: crmLatency,
-          }
-        : { success: false, error: crmSettled.reason, latencyMs: crmLatency },
-  };
+function getLeadAcceptance(
+  outcome: OutboxSubmitOutcome,
+  policy: LeadSuccessPolicy,
+): LeadAcceptance {
+  const { entry, persisted } = outcome;
+  if (entry.mergedInto) return 'delivered';
+  if (evaluateSuccessPolicy(policy, getSinkOutcomes(entry, false))) {
+    return 'delivered';
+  }
+  return persisted &&
+    evaluateSuccessPolicy(policy, getSinkOutcomes(entry, true))
+    ? 'queued'
+    : 'rejected';
 }
 
 /**
- * Process newsletter subscription lead
+ * Log individual sink failures
  */
-async function processNewsletterLead(
-  lead: NewsletterLeadInput,
+function logFailedDeliveries(
+  leadType: string,
   referenceId: string,
-): Promise<{ emailResult: ServiceResult; crmResult: ServiceResult }> {
-  // Lazy import to avoid circular dependencies
-  const { airtableService } = await import('@/lib/airtable');
-
-  const crmTimer = createLatencyTimer();
-
-  // Newsletter only creates CRM record, no email notification
-  const [crmSettled] = await Promise.allSettled([
-    withTimeout(
-      airtableService.createLead(LEAD_TYPES.NEWSLETTER, {
-        email: lead.email,
-        referenceId,
-      }),
-      OPERATION_TIMEOUT_MS,
-      'CRM record',
-    ),
-  ]);
-
-  const crmLatency =
-    crmSettled.status === 'fulfilled'
-      ? crmSettled.value.latencyMs
-      : crmTimer.stop();
-
-  return {
-    // Newsletter has no email operation - success depends solely on CRM
-    emailResult: { success: false, latencyMs: DEFAULT_LATENCY },
-    crmResult:
-      crmSettled.status === 'fulfilled'
-        ? {
-            success: true,
-            id: crmSettled.value.result?.id,
-            latencyMs: crmLatency,
-          }
-        : { success: false, error: crmSettled.reason, latencyMs: crmLatency },
-  };
-}
-
-/**
- * Emit metrics for service results
- */
-function emitServiceMetrics(
-  emailResult: ServiceResult,
-  crmResult: ServiceResult,
-  hasEmailOperation: boolean,
+  results: DeliveryRunResult[],
 ): void {
-  // Emit Resend metrics (only for leads with email operations)
-  if (hasEmailOperation) {
-    if (emailResult.success) {
-      leadPipelineMetrics.recordSuccess(
-        METRIC_SERVICES.RESEND,
-        emailResult.latencyMs,
-      );
-    } else {
-      leadPipelineMetrics.recordFailure(
-        METRIC_SERVICES.RESEND,
-        emailResult.latencyMs,
-        emailResult.error,
-      );
-    }
-  }
-
-  // Emit Airtable metrics
-  if (crmResult.success) {
-    leadPipelineMetrics.recordSuccess(
-      METRIC_SERVICES.AIRTABLE,
-      crmResult.latencyMs,
-    );
-  } else {
-    leadPipelineMetrics.recordFailure(
-      METRIC_SERVICES.AIRTABLE,
-      crmResult.latencyMs,
-      crmResult.error,
-    );
+  for (const result of results.filter((item) => !item.success)) {
+    logger.error('Lead sink delivery failed', {
+      type: leadType,
+      referenceId,
+      sink: result.target,
+      error: result.error?.message,
+    });
   }
 }
 
 /**
- * Parameters for logging pipeline summary
+ * Log pipeline processing summary
  */
-interface LogPipelineSummaryParams {
+function logPipelineSummary(params: {
   referenceId: string;
   leadType: string;
-  emailResult: ServiceResult;
-  crmResult: ServiceResult;
+  results: DeliveryRunResult[];
   totalLatencyMs: number;
   overallSuccess: boolean;
-}
+}): void {
+  const { referenceId, leadType, results, totalLatencyMs, overallSuccess } =
+    params;
+  const sinks: Record<string, PipelineSinkSummary> = {};
+  for (const result of results) {
+    sinks[result.target] = {
+      service: getMetricService(result.target),
+      success: result.success,
+      latencyMs: result.latencyMs,
+      ...(result.error ? { errorType: categorizeError(result.error) } : {}),
+    };
+  }
 
-/**
- * Log pipeline processing summary
- */
-function logPipelineSummary(params: LogPipelineSummaryParams): void {
-  const {
-    referenceId,
-    leadType,
-    emailResult,
-    crmResult,
-    totalLatencyMs,
-    overallSuccess,
-  } = params;
   const summary: PipelineSummary = {
     leadId: referenceId,
     leadType,
     totalLatencyMs,
-    resend: {
-      success: emailResult.success,
-      latencyMs: emailResult.latencyMs,
-      ...(emailResult.error
-        ? { errorType: categorizeError(emailResult.error) }
-        : {}),
-    },
-    airtable: {
-      success: crmResult.success,
-      latencyMs: crmResult.latencyMs,
-      ...(crmResult.error
-        ? { errorType: categorizeError(crmResult.error) }
-        : {}),
-    },
+    sinks,
     overallSuccess,
     timestamp: new Date().toISOString(),
   };
@@ -391,13 +172,21 @@ function logPipelineSummary(params: LogPipelineSummaryParams): void {
 
 /**
  * Main lead processing function
- * Validates input, routes to appropriate handler, and ensures at least one service succeeds
+ * Validates input, writes the lead to the outbox, delivers it to the sinks
+ * routed for its type and applies the configured success policy (by default
+ * at least one sink must succeed). Failed deliveries are retried from the
+ * outbox by `drainLeadOutbox`; a stored lead that only misses the policy
+ * because of those retries is accepted as `queued`.
  *
  * @param rawInput - Raw input data (will be validated)
+ * @param options - Sink selection and replay marker (used by the replay CLI)
  * @returns LeadResult indicating success/failure and service statuses
  */
-// eslint-disable-next-line complexity, max-statements -- orchestration logic requires branching
-export async function processLead(rawInput: unknown): Promise<LeadResult> {
+// eslint-disable-next-line max-statements -- orchestration logic requires branching
+export async function processLead(
+  rawInput: unknown,
+  options: LeadSubmitOptions = {},
+): Promise<LeadResult> {
   const pipelineTimer = createLatencyTimer();
 
   // Step 1: Validate input
@@ -422,57 +211,34 @@ export async function processLead(rawInput: unknown): Promise<LeadResult> {
     type: lead.type,
     email: sanitizeEmail(lead.email),
     referenceId,
+    ...(options.replayOf ? { replayOf: options.replayOf } : {}),
   });
 
   try {
-    // Step 2: Route to appropriate handler
-    let results: { emailResult: ServiceResult; crmResult: ServiceResult };
-    let hasEmailOperation = true;
-
-    if (isContactLead(lead)) {
-      results = await processContactLead(lead, referenceId);
-    } else if (isProductLead(lead)) {
-      results = await processProductLead(lead, referenceId);
-    } else if (isNewsletterLead(lead)) {
-      results = await processNewsletterLead(lead, referenceId);
-      hasEmailOperation = false;
-    } else {
-      // This should never happen due to discriminated union
-      throw new Error('Unknown lead type');
-    }
-
-    const { emailResult, crmResult } = results;
+    // Step 2: Persist to the outbox and deliver to every routed sink
+    // Failed deliveries stay in the outbox and are retried by drainLeadOutbox
+    const outcome = await submitLeadToOutbox(lead, referenceId, options);
+    const { results } = outcome;
+    const { mergedInto, qualification } = outcome.entry;
     const totalLatencyMs = pipelineTimer.stop();
 
-    // Step 3: Emit metrics for service results
-    emitServiceMetrics(emailResult, crmResult, hasEmailOperation);
-
-    // Log individual failures
-    if (hasEmailOperation && !emailResult.success) {
-      logger.error('Lead email send failed', {
-        type: lead.type,
-        referenceId,
-        error: emailResult.error?.message,
-      });
-    }
-
-    if (!crmResult.success) {
-      logger.error('Lead CRM record failed', {
-        type: lead.type,
-        referenceId,
-        error: crmResult.error?.message,
-      });
-    }
+    logFailedDeliveries(lead.type, referenceId, results);
 
-    // Step 4: At least one success = overall success
-    const success = emailResult.success || crmResult.success;
+    // Step 3: Combine sink outcomes with the configured success policy
+    const acceptance = getLeadAcceptance(
+      outcome,
+      getLeadTypeRouting(lead.type).successPolicy,
+    );
+    const success = acceptance !== 'rejected';
+    const queued = acceptance === 'queued';
+    const emailSent = hasCategorySuccess(results, LEAD_SINK_CATEGORIES.EMAIL);
+    const recordCreated = hasCategorySuccess(results, LEAD_SINK_CATEGORIES.CRM);
 
-    // Step 5: Log pipeline summary
+    // Step 4: Log pipeline summary
     logPipelineSummary({
       referenceId,
       leadType: lead.type,
-      emailResult,
-      crmResult,
+      results,
       totalLatencyMs,
       overallSuccess: success,
     });
@@ -481,23 +247,30 @@ export async function processLead(rawInput: unknown): Promise<LeadResult> {
       logger.info('Lead processed successfully', {
         type: lead.type,
         referenceId,
-        emailSent: emailResult.success,
-        recordCreated: crmResult.success,
+        emailSent,
+        recordCreated,
+        score: qualification?.score,
+        route: qualification?.route,
+        queued,
+        ...(mergedInto ? { mergedInto } : {}),
       });
     } else {
-      logger.error('Lead processing failed completely', {
+      logger.error('Lead processing failed', {
         type: lead.type,
         referenceId,
-        emailError: emailResult.error?.message,
-        crmError: crmResult.error?.message,
+        failedSinks: results
+          .filter((result) => !result.success)
+          .map((result) => result.target),
       });
     }
 
     return {
       success,
-      emailSent: emailResult.success,
-      recordCreated: crmResult.success,
+      emailSent,
+      recordCreated,
       referenceId: success ? referenceId : undefined,
+      ...(mergedInto ? { mergedInto } : {}),
+      ...(queued ? { queued } : {}),
       error: success ? undefined : 'PROCESSING_FAILED',
     };
   } catch (error) {
@@ -0,0 +1,109 @@
+/**
+ * Airtable CRM sink
+ * Creates one lead record per submission, keyed by the lead reference ID,
+ * tagged with the lead score and route.
+ * Repeat submissions merged by the dedup window are appended to the
+ * record's Activity field instead.
+ */
+
+import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
+import { METRIC_SERVICES } from '@/lib/lead-pipeline/metrics';
+import type {
+  LeadActivity,
+  OutboxLead,
+} from '@/lib/lead-pipeline/outbox/types';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  type LeadSink,
+  type LeadSinkContext,
+} from '@/lib/lead-pipeline/sinks/types';
+import {
+  formatLeadActivity,
+  generateProductInquiryMessage,
+  splitName,
+} from '@/lib/lead-pipeline/utils';
+
+async function deliverToAirtable(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  // Lazy import to avoid circular dependencies
+  const { airtableService } = await import('@/lib/airtable');
+  const { referenceId } = context;
+  const routing = {
+    score: context.qualification?.score,
+    route: context.qualification?.route,
+  };
+
+  if (lead.type === LEAD_TYPES.NEWSLETTER) {
+    const record = await airtableService.createLead(LEAD_TYPES.NEWSLETTER, {
+      email: lead.email,
+      referenceId,
+      attribution: lead.attribution,
+      ...routing,
+    });
+    return record?.id;
+  }
+
+  const { firstName, lastName } = splitName(lead.fullName);
+
+  if (lead.type === LEAD_TYPES.CONTACT) {
+    const record = await airtableService.createLead(LEAD_TYPES.CONTACT, {
+      firstName,
+      lastName,
+      email: lead.email,
+      company: lead.company,
+      subject: lead.subject,
+      message: lead.message,
+      phone: lead.phone,
+      marketingConsent: lead.marketingConsent,
+      referenceId,
+      attribution: lead.attribution,
+      ...routing,
+    });
+    return record?.id;
+  }
+
+  const record = await airtableService.createLead(LEAD_TYPES.PRODUCT, {
+    firstName,
+    lastName,
+    email: lead.email,
+    company: lead.company,
+    message: generateProductInquiryMessage(
+      lead.productName,
+      lead.quantity,
+      lead.requirements,
+    ),
+    productSlug: lead.productSlug,
+    productName: lead.productName,
+    quantity: lead.quantity,
+    requirements: lead.requirements,
+    phone: lead.phone,
+    marketingConsent: lead.marketingConsent,
+    referenceId,
+    attribution: lead.attribution,
+    ...routing,
+  });
+  return record?.id;
+}
+
+async function mergeIntoAirtable(
+  activity: LeadActivity,
+  primaryReferenceId: string,
+): Promise<string | undefined> {
+  // Lazy import to avoid circular dependencies
+  const { airtableService } = await import('@/lib/airtable');
+  return airtableService.appendLeadActivity(
+    primaryReferenceId,
+    formatLeadActivity(activity),
+  );
+}
+
+export const airtableSink: LeadSink = {
+  id: LEAD_SINK_IDS.CRM,
+  category: LEAD_SINK_CATEGORIES.CRM,
+  metricService: METRIC_SERVICES.AIRTABLE,
+  deliver: deliverToAirtable,
+  mergeActivity: mergeIntoAirtable,
+};
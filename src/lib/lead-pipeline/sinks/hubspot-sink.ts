@@ -0,0 +1,187 @@
+/**
+ * HubSpot CRM sink
+ * Creates a contact through the CRM v3 API. When the email already belongs
+ * to a contact, the inquiry is attached to it as a note instead. Requires a
+ * private app token with the `crm.objects.contacts.write` scope in
+ * HUBSPOT_ACCESS_TOKEN.
+ */
+
+import { formatAttributionSummary } from '@/lib/lead-pipeline/attribution';
+import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
+import { METRIC_SERVICES } from '@/lib/lead-pipeline/metrics';
+import type { OutboxLead } from '@/lib/lead-pipeline/outbox/types';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  type LeadSink,
+  type LeadSinkContext,
+} from '@/lib/lead-pipeline/sinks/types';
+import {
+  generateProductInquiryMessage,
+  splitName,
+} from '@/lib/lead-pipeline/utils';
+
+const HUBSPOT_CONTACTS_URL = 'https://api.hubapi.com/crm/v3/objects/contacts';
+const HUBSPOT_NOTES_URL = 'https://api.hubapi.com/crm/v3/objects/notes';
+const HTTP_CONFLICT = 409;
+const EXISTING_ID_PATTERN = /Existing ID:\s*(\d+)/;
+
+/**
+ * HubSpot-defined association type for note → contact
+ */
+const NOTE_TO_CONTACT_ASSOCIATION_TYPE_ID = 202;
+
+function describeSubmission(lead: OutboxLead): string {
+  if (lead.type === LEAD_TYPES.CONTACT) return lead.message;
+  if (lead.type === LEAD_TYPES.PRODUCT) {
+    return generateProductInquiryMessage(
+      lead.productName,
+      lead.quantity,
+      lead.requirements,
+    );
+  }
+  return 'Newsletter subscription';
+}
+
+/**
+ * Describe the submission: reference ID, message and attribution
+ */
+function buildLeadMessage(lead: OutboxLead, context: LeadSinkContext): string {
+  // HubSpot's own analytics source fields are read-only, so attribution
+  // travels in the message note instead
+  const attribution = formatAttributionSummary(lead.attribution);
+
+  return [`[${context.referenceId}] ${describeSubmission(lead)}`, attribution]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function buildContactProperties(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Record<string, string> {
+  if (lead.type === LEAD_TYPES.NEWSLETTER) {
+    return { email: lead.email, lifecyclestage: 'subscriber' };
+  }
+
+  const { firstName, lastName } = splitName(lead.fullName);
+  return {
+    email: lead.email,
+    firstname: firstName,
+    lastname: lastName,
+    company: lead.company ?? '',
+    message: buildLeadMessage(lead, context),
+    lifecyclestage: 'lead',
+    hs_lead_status: 'NEW',
+  };
+}
+
+/**
+ * Note bodies are rendered as HTML; keep visitor input as plain text
+ */
+function toNoteBody(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Record a submission from a known email as a note on the existing contact
+ * The contact's own properties are left alone so a repeat inquiry does not
+ * overwrite what sales already edited.
+ */
+async function addNoteToContact(
+  contactId: string,
+  token: string,
+  note: { body: string; timestamp: string },
+): Promise<void> {
+  const response = await fetch(HUBSPOT_NOTES_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      properties: {
+        hs_timestamp: note.timestamp,
+        hs_note_body: toNoteBody(note.body),
+      },
+      associations: [
+        {
+          to: { id: contactId },
+          types: [
+            {
+              associationCategory: 'HUBSPOT_DEFINED',
+              associationTypeId: NOTE_TO_CONTACT_ASSOCIATION_TYPE_ID,
+            },
+          ],
+        },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HubSpot note request failed: ${response.status}`);
+  }
+}
+
+/**
+ * HubSpot rejects duplicate emails with 409 and reports the existing ID
+ */
+async function readExistingContactId(
+  response: Response,
+): Promise<string | undefined> {
+  const body = (await response.json().catch(() => ({}))) as {
+    message?: string;
+  };
+  return body.message?.match(EXISTING_ID_PATTERN)?.[1];
+}
+
+async function deliverToHubSpot(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  const token = process.env.HUBSPOT_ACCESS_TOKEN;
+  if (!token) {
+    throw new Error('HubSpot sink is not configured');
+  }
+
+  const response = await fetch(HUBSPOT_CONTACTS_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      properties: buildContactProperties(lead, context),
+    }),
+  });
+
+  if (response.status === HTTP_CONFLICT) {
+    const contactId = await readExistingContactId(response);
+    if (!contactId) {
+      throw new Error('HubSpot reported a duplicate contact without its ID');
+    }
+    await addNoteToContact(contactId, token, {
+      body: buildLeadMessage(lead, context),
+      timestamp: context.submittedAt,
+    });
+    return contactId;
+  }
+
+  if (!response.ok) {
+    throw new Error(`HubSpot request failed: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { id?: string };
+  return data.id;
+}
+
+export const hubspotSink: LeadSink = {
+  id: LEAD_SINK_IDS.HUBSPOT,
+  category: LEAD_SINK_CATEGORIES.CRM,
+  metricService: METRIC_SERVICES.HUBSPOT,
+  deliver: deliverToHubSpot,
+};
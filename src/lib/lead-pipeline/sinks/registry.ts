@@ -0,0 +1,63 @@
+/**
+ * Lead Sink Registry
+ * Built-in sinks are registered by default; custom sinks can be added at
+ * startup with `registerLeadSink` and routed by ID.
+ */
+
+import { airtableSink } from '@/lib/lead-pipeline/sinks/airtable-sink';
+import { hubspotSink } from '@/lib/lead-pipeline/sinks/hubspot-sink';
+import {
+  resendConfirmationSink,
+  resendEmailSink,
+  resendNewsletterConfirmationSink,
+} from '@/lib/lead-pipeline/sinks/resend-sinks';
+import { slackSink } from '@/lib/lead-pipeline/sinks/slack-sink';
+import type { LeadSink } from '@/lib/lead-pipeline/sinks/types';
+import { webhookSink } from '@/lib/lead-pipeline/sinks/webhook-sink';
+import { whatsappAckSink } from '@/lib/lead-pipeline/sinks/whatsapp-sink';
+
+const BUILT_IN_SINKS: readonly LeadSink[] = [
+  resendEmailSink,
+  resendConfirmationSink,
+  resendNewsletterConfirmationSink,
+  airtableSink,
+  hubspotSink,
+  webhookSink,
+  slackSink,
+  whatsappAckSink,
+];
+
+function createRegistry(): Map<string, LeadSink> {
+  return new Map(BUILT_IN_SINKS.map((sink) => [sink.id, sink]));
+}
+
+let registry = createRegistry();
+
+/**
+ * Register a sink, replacing any sink with the same ID
+ */
+export function registerLeadSink(sink: LeadSink): void {
+  registry.set(sink.id, sink);
+}
+
+/**
+ * Remove a sink from the registry
+ */
+export function unregisterLeadSink(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function getLeadSink(id: string): LeadSink | undefined {
+  return registry.get(id);
+}
+
+export function listLeadSinks(): LeadSink[] {
+  return [...registry.values()];
+}
+
+/**
+ * Restore the built-in sinks (for testing)
+ */
+export function resetLeadSinkRegistry(): void {
+  registry = createRegistry();
+}
@@ -0,0 +1,139 @@
+/**
+ * Resend email sinks
+ * - email: internal notification for contact and product leads, sent to
+ *   the recipients of the lead's route
+ * - confirmation_email: customer-facing confirmation for contact leads
+ * - newsletter_confirmation: double opt-in email for newsletter signups
+ */
+
+import {
+  LEAD_TYPES,
+  type ContactLeadInput,
+} from '@/lib/lead-pipeline/lead-schema';
+import { getRouteRecipients } from '@/lib/lead-pipeline/lead-scoring';
+import { METRIC_SERVICES } from '@/lib/lead-pipeline/metrics';
+import type { OutboxLead } from '@/lib/lead-pipeline/outbox/types';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  type LeadSink,
+  type LeadSinkContext,
+} from '@/lib/lead-pipeline/sinks/types';
+import { splitName } from '@/lib/lead-pipeline/utils';
+import { buildNewsletterLinks } from '@/lib/newsletter/links';
+
+type StoredContactLead = Omit<ContactLeadInput, 'turnstileToken'>;
+
+function buildContactEmailData(
+  lead: StoredContactLead,
+  context: LeadSinkContext,
+) {
+  const { firstName, lastName } = splitName(lead.fullName);
+  return {
+    firstName,
+    lastName,
+    email: lead.email,
+    company: lead.company ?? '',
+    subject: lead.subject,
+    message: lead.message,
+    submittedAt: lead.submittedAt || context.submittedAt,
+    marketingConsent: lead.marketingConsent,
+    attribution: lead.attribution,
+    activities: context.activities,
+  };
+}
+
+async function deliverNotificationEmail(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  // Lazy import to avoid circular dependencies
+  const { resendService } = await import('@/lib/resend');
+  const options = { to: getRouteRecipients(context.qualification?.route) };
+
+  if (lead.type === LEAD_TYPES.CONTACT) {
+    return resendService.sendContactFormEmail(
+      buildContactEmailData(lead, context),
+      options,
+    );
+  }
+
+  if (lead.type === LEAD_TYPES.PRODUCT) {
+    const { firstName, lastName } = splitName(lead.fullName);
+    return resendService.sendProductInquiryEmail(
+      {
+        firstName,
+        lastName,
+        email: lead.email,
+        company: lead.company,
+        productName: lead.productName,
+        productSlug: lead.productSlug,
+        quantity: lead.quantity,
+        requirements: lead.requirements,
+        marketingConsent: lead.marketingConsent,
+        attribution: lead.attribution,
+        activities: context.activities,
+      },
+      options,
+    );
+  }
+
+  throw new Error(`Email sink does not support ${lead.type} leads`);
+}
+
+async function deliverConfirmationEmail(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  if (lead.type !== LEAD_TYPES.CONTACT) {
+    throw new Error(`Confirmation sink does not support ${lead.type} leads`);
+  }
+
+  // Lazy import to avoid circular dependencies
+  const { resendService } = await import('@/lib/resend');
+  return resendService.sendConfirmationEmail(
+    buildContactEmailData(lead, context),
+  );
+}
+
+async function deliverNewsletterConfirmation(
+  lead: OutboxLead,
+): Promise<string | undefined> {
+  if (lead.type !== LEAD_TYPES.NEWSLETTER) {
+    throw new Error(
+      `Newsletter confirmation sink does not support ${lead.type} leads`,
+    );
+  }
+
+  const links = await buildNewsletterLinks(lead);
+  // Lazy import to avoid circular dependencies
+  const { resendService } = await import('@/lib/resend');
+  return resendService.sendNewsletterConfirmationEmail({
+    email: lead.email,
+    ...links,
+    ...(lead.locale ? { locale: lead.locale } : {}),
+  });
+}
+
+export const resendEmailSink: LeadSink = {
+  id: LEAD_SINK_IDS.EMAIL,
+  category: LEAD_SINK_CATEGORIES.EMAIL,
+  metricService: METRIC_SERVICES.RESEND,
+  deliver: deliverNotificationEmail,
+};
+
+export const resendConfirmationSink: LeadSink = {
+  id: LEAD_SINK_IDS.CONFIRMATION_EMAIL,
+  category: LEAD_SINK_CATEGORIES.CONFIRMATION,
+  metricService: METRIC_SERVICES.RESEND,
+  affectsSuccess: false,
+  deliver: deliverConfirmationEmail,
+};
+
+export const resendNewsletterConfirmationSink: LeadSink = {
+  id: LEAD_SINK_IDS.NEWSLETTER_CONFIRMATION,
+  category: LEAD_SINK_CATEGORIES.CONFIRMATION,
+  metricService: METRIC_SERVICES.RESEND,
+  affectsSuccess: false,
+  deliver: deliverNewsletterConfirmation,
+};
@@ -0,0 +1,166 @@
+/**
+ * Lead Sink Routing
+ *
+ * Decides which sinks receive each lead type and how their outcomes combine.
+ *
+ * Environment overrides (comma-separated sink IDs):
+ * - LEAD_SINKS_CONTACT, LEAD_SINKS_PRODUCT, LEAD_SINKS_NEWSLETTER
+ *
+ * Success policy (`any`, `all` or `required:<sinkId>`):
+ * - LEAD_SUCCESS_POLICY applies to every lead type
+ * - LEAD_SUCCESS_POLICY_CONTACT / _PRODUCT / _NEWSLETTER override per type
+ */
+
+import { LEAD_TYPES, type LeadType } from '@/lib/lead-pipeline/lead-schema';
+import {
+  LEAD_SINK_IDS,
+  LEAD_SUCCESS_MODES,
+  type LeadRoutingConfig,
+  type LeadSink,
+  type LeadSuccessPolicy,
+  type LeadTypeRouting,
+} from '@/lib/lead-pipeline/sinks/types';
+import { logger } from '@/lib/logger';
+import { CONTACT_FORM_CONFIG } from '@/config/contact-form-config';
+
+const REQUIRED_PREFIX = `${LEAD_SUCCESS_MODES.REQUIRED}:`;
+
+const DEFAULT_SUCCESS_POLICY: LeadSuccessPolicy = {
+  mode: LEAD_SUCCESS_MODES.ANY,
+};
+
+function getDefaultSinks(type: LeadType): string[] {
+  switch (type) {
+    case LEAD_TYPES.CONTACT:
+      return CONTACT_FORM_CONFIG.features.sendConfirmationEmail
+        ? [
+            LEAD_SINK_IDS.EMAIL,
+            LEAD_SINK_IDS.CRM,
+            LEAD_SINK_IDS.CONFIRMATION_EMAIL,
+            LEAD_SINK_IDS.WHATSAPP_ACK,
+          ]
+        : [LEAD_SINK_IDS.EMAIL, LEAD_SINK_IDS.CRM, LEAD_SINK_IDS.WHATSAPP_ACK];
+    case LEAD_TYPES.PRODUCT:
+      // The WhatsApp acknowledgement only applies to opted-in leads
+      return [
+        LEAD_SINK_IDS.EMAIL,
+        LEAD_SINK_IDS.CRM,
+        LEAD_SINK_IDS.WHATSAPP_ACK,
+      ];
+    case LEAD_TYPES.NEWSLETTER:
+      // CRM record (Pending) plus the double opt-in email, no notification
+      return [LEAD_SINK_IDS.CRM, LEAD_SINK_IDS.NEWSLETTER_CONFIRMATION];
+    default:
+      return [];
+  }
+}
+
+function readTypeEnv(prefix: string, type: LeadType): string | undefined {
+  return process.env[`${prefix}_${type.toUpperCase()}`];
+}
+
+function parseSinkList(value: string | undefined): string[] | null {
+  if (value === undefined) return null;
+  return value
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+}
+
+/**
+ * Parse a success policy string (`any`, `all`, `required:<sinkId>`)
+ *
+ * @returns null when the value is missing or invalid
+ */
+export function parseSuccessPolicy(
+  value: string | undefined,
+): LeadSuccessPolicy | null {
+  const normalized = value?.trim();
+  if (!normalized) return null;
+
+  if (normalized === LEAD_SUCCESS_MODES.ANY) {
+    return { mode: LEAD_SUCCESS_MODES.ANY };
+  }
+  if (normalized === LEAD_SUCCESS_MODES.ALL) {
+    return { mode: LEAD_SUCCESS_MODES.ALL };
+  }
+  if (normalized.startsWith(REQUIRED_PREFIX)) {
+    const sink = normalized.slice(REQUIRED_PREFIX.length).trim();
+    if (sink) return { mode: LEAD_SUCCESS_MODES.REQUIRED, sink };
+  }
+
+  logger.warn('[Lead Sinks] Ignoring invalid success policy', { value });
+  return null;
+}
+
+function resolveTypeRouting(type: LeadType): LeadTypeRouting {
+  return {
+    sinks:
+      parseSinkList(readTypeEnv('LEAD_SINKS', type)) ?? getDefaultSinks(type),
+    successPolicy:
+      parseSuccessPolicy(readTypeEnv('LEAD_SUCCESS_POLICY', type)) ??
+      parseSuccessPolicy(process.env.LEAD_SUCCESS_POLICY) ??
+      DEFAULT_SUCCESS_POLICY,
+  };
+}
+
+let routingOverride: Partial<LeadRoutingConfig> = {};
+
+/**
+ * Get routing for a lead type
+ * Programmatic overrides win over environment variables and defaults.
+ */
+export function getLeadTypeRouting(type: LeadType): LeadTypeRouting {
+  // eslint-disable-next-line security/detect-object-injection -- type is a LeadType literal
+  return routingOverride[type] ?? resolveTypeRouting(type);
+}
+
+/**
+ * Override routing for one or more lead types
+ */
+export function setLeadRouting(config: Partial<LeadRoutingConfig>): void {
+  routingOverride = { ...routingOverride, ...config };
+}
+
+/**
+ * Clear programmatic overrides (for testing)
+ */
+export function resetLeadRouting(): void {
+  routingOverride = {};
+}
+
+/**
+ * Outcome of one sink for success evaluation
+ */
+export interface SinkOutcome {
+  sink: Pick<LeadSink, 'id' | 'affectsSuccess'>;
+  success: boolean;
+}
+
+/**
+ * Combine sink outcomes according to the success policy
+ *
+ * Sinks that opt out of success (confirmations) are ignored. A required
+ * sink that is not routed for the lead falls back to `any`.
+ */
+export function evaluateSuccessPolicy(
+  policy: LeadSuccessPolicy,
+  outcomes: SinkOutcome[],
+): boolean {
+  const relevant = outcomes.filter(({ sink }) => sink.affectsSuccess !== false);
+  if (relevant.length === 0) return false;
+
+  if (policy.mode === LEAD_SUCCESS_MODES.ALL) {
+    return relevant.every(({ success }) => success);
+  }
+
+  if (policy.mode === LEAD_SUCCESS_MODES.REQUIRED) {
+    const required = relevant.find(({ sink }) => sink.id === policy.sink);
+    if (required) return required.success;
+    logger.warn('[Lead Sinks] Required sink not routed; falling back to any', {
+      sink: policy.sink,
+    });
+  }
+
+  return relevant.some(({ success }) => success);
+}
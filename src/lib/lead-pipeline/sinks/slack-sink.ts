@@ -0,0 +1,100 @@
+/**
+ * Slack sink
+ * Posts a short lead summary to an incoming webhook (SLACK_WEBHOOK_URL).
+ */
+
+import { formatAttributionSummary } from '@/lib/lead-pipeline/attribution';
+import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
+import { METRIC_SERVICES } from '@/lib/lead-pipeline/metrics';
+import type { OutboxLead } from '@/lib/lead-pipeline/outbox/types';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  type LeadSink,
+  type LeadSinkContext,
+} from '@/lib/lead-pipeline/sinks/types';
+import { escapeSlackText } from '@/lib/lead-pipeline/utils';
+
+function quote(text: string): string {
+  return `>${escapeSlackText(text).replace(/\n/g, '\n>')}`;
+}
+
+function describeLead(lead: OutboxLead): string[] {
+  switch (lead.type) {
+    case LEAD_TYPES.CONTACT:
+      return [
+        `*From:* ${escapeSlackText(lead.fullName)} ${escapeSlackText(`<${lead.email}>`)}`,
+        ...(lead.company
+          ? [`*Company:* ${escapeSlackText(lead.company)}`]
+          : []),
+        `*Subject:* ${escapeSlackText(lead.subject)}`,
+        quote(lead.message),
+      ];
+    case LEAD_TYPES.PRODUCT:
+      return [
+        `*From:* ${escapeSlackText(lead.fullName)} ${escapeSlackText(`<${lead.email}>`)}`,
+        ...(lead.company
+          ? [`*Company:* ${escapeSlackText(lead.company)}`]
+          : []),
+        `*Product:* ${escapeSlackText(lead.productName)} × ${escapeSlackText(String(lead.quantity))}`,
+        ...(lead.requirements ? [quote(lead.requirements)] : []),
+      ];
+    case LEAD_TYPES.NEWSLETTER:
+      return [`*Email:* ${escapeSlackText(lead.email)}`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Build the Slack message text for a lead
+ * Visitor-supplied values are escaped so they render as plain text.
+ */
+export function formatSlackLeadMessage(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): string {
+  const attribution = formatAttributionSummary(lead.attribution);
+  return [
+    `:incoming_envelope: New ${lead.type} lead \`${context.referenceId}\``,
+    ...describeLead(lead),
+    ...(attribution ? [`*Campaign:* ${escapeSlackText(attribution)}`] : []),
+    ...(context.qualification
+      ? [
+          `*Score:* ${context.qualification.score} · *Route:* ${context.qualification.route}`,
+        ]
+      : []),
+    ...(context.activities ?? []).map(
+      (activity) =>
+        `*Follow-up* \`${activity.referenceId}\`: ${escapeSlackText(activity.summary).replace(/\n/g, ' · ')}`,
+    ),
+  ].join('\n');
+}
+
+async function deliverToSlack(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  const url = process.env.SLACK_WEBHOOK_URL;
+  if (!url) {
+    throw new Error('Slack sink is not configured');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: formatSlackLeadMessage(lead, context) }),
+  });
+  if (!response.ok) {
+    throw new Error(`Slack webhook request failed: ${response.status}`);
+  }
+
+  return undefined;
+}
+
+export const slackSink: LeadSink = {
+  id: LEAD_SINK_IDS.SLACK,
+  category: LEAD_SINK_CATEGORIES.NOTIFICATION,
+  metricService: METRIC_SERVICES.SLACK,
+  deliver: deliverToSlack,
+};
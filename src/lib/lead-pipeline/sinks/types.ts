@@ -0,0 +1,132 @@
+/**
+ * Lead Sink Type Definitions
+ * A sink is one downstream destination a lead is delivered to
+ * (notification email, CRM, webhook, chat channel...).
+ */
+
+import type { LeadType } from '@/lib/lead-pipeline/lead-schema';
+import type { LeadQualification } from '@/lib/lead-pipeline/lead-scoring';
+import type { MetricService } from '@/lib/lead-pipeline/metrics';
+import type {
+  LeadActivity,
+  OutboxLead,
+} from '@/lib/lead-pipeline/outbox/types';
+
+/**
+ * Built-in sink IDs
+ * IDs are persisted in outbox entries, so they must never change.
+ */
+export const LEAD_SINK_IDS = {
+  EMAIL: 'email',
+  CRM: 'crm',
+  CONFIRMATION_EMAIL: 'confirmation_email',
+  NEWSLETTER_CONFIRMATION: 'newsletter_confirmation',
+  HUBSPOT: 'hubspot',
+  WEBHOOK: 'webhook',
+  SLACK: 'slack',
+  WHATSAPP_ACK: 'whatsapp_ack',
+} as const;
+
+/**
+ * Sink categories
+ * Used to derive the `emailSent` / `recordCreated` flags of a lead result.
+ */
+export const LEAD_SINK_CATEGORIES = {
+  /** Internal notification email to the sales team */
+  EMAIL: 'email',
+  /** System of record (Airtable, HubSpot...) */
+  CRM: 'crm',
+  /** Customer-facing confirmation */
+  CONFIRMATION: 'confirmation',
+  /** Chat or generic integration (Slack, webhooks) */
+  NOTIFICATION: 'notification',
+} as const;
+
+export type LeadSinkCategory =
+  (typeof LEAD_SINK_CATEGORIES)[keyof typeof LEAD_SINK_CATEGORIES];
+
+/**
+ * Context passed to a sink for every delivery
+ */
+export interface LeadSinkContext {
+  referenceId: string;
+  /** ISO timestamp of the original submission */
+  submittedAt: string;
+  /** Repeat submissions merged into this lead (consolidated notifications) */
+  activities?: LeadActivity[] | undefined;
+  /** Score and route assigned by the lead routing rules */
+  qualification?: LeadQualification | undefined;
+}
+
+/**
+ * Downstream lead destination
+ *
+ * Sinks must be stateless: the same delivery may be retried from the
+ * outbox long after the original request.
+ */
+export interface LeadSink {
+  /** Stable identifier, persisted in outbox entries */
+  id: string;
+  category: LeadSinkCategory;
+  /** Service name reported to leadPipelineMetrics (defaults to the id) */
+  metricService?: MetricService;
+  /**
+   * Whether the delivery outcome counts toward the success policy
+   * Defaults to true; customer-facing confirmations opt out.
+   */
+  affectsSuccess?: boolean;
+  /**
+   * Whether a routed lead should be delivered to this sink
+   * Checked when deliveries are planned; sinks without it take every lead.
+   */
+  accepts?(lead: OutboxLead): boolean;
+  /**
+   * Deliver a lead
+   *
+   * @returns Identifier reported by the downstream service, if any
+   * @throws When the delivery failed and should be retried
+   */
+  deliver(
+    lead: OutboxLead,
+    context: LeadSinkContext,
+  ): Promise<string | undefined>;
+  /**
+   * Append a repeat submission to the lead it was merged into
+   * Optional; sinks without it are skipped for merged submissions.
+   *
+   * @param primaryReferenceId - Reference ID of the earlier lead
+   * @throws When the update failed and should be retried
+   */
+  mergeActivity?(
+    activity: LeadActivity,
+    primaryReferenceId: string,
+  ): Promise<string | undefined>;
+}
+
+/**
+ * How individual sink outcomes combine into the lead result
+ * - any: at least one sink succeeded
+ * - all: every sink succeeded
+ * - required: the named sink succeeded
+ */
+export const LEAD_SUCCESS_MODES = {
+  ANY: 'any',
+  ALL: 'all',
+  REQUIRED: 'required',
+} as const;
+
+export type LeadSuccessPolicy =
+  | { mode: typeof LEAD_SUCCESS_MODES.ANY }
+  | { mode: typeof LEAD_SUCCESS_MODES.ALL }
+  | { mode: typeof LEAD_SUCCESS_MODES.REQUIRED; sink: string };
+
+/**
+ * Sink routing for one lead type
+ */
+export interface LeadTypeRouting {
+  /** Sink IDs, in delivery order */
+  sinks: string[];
+  successPolicy: LeadSuccessPolicy;
+}
+
+export type LeadRoutingConfig = Record<LeadType, LeadTypeRouting>;
@@ -0,0 +1,61 @@
+/**
+ * Generic webhook sink
+ * POSTs the lead as JSON to LEAD_WEBHOOK_URL. When LEAD_WEBHOOK_SECRET is
+ * set, the body is signed with HMAC-SHA256 in the `X-Lead-Signature` header
+ * (`sha256=<hex>`) so receivers can verify the sender.
+ */
+
+import { METRIC_SERVICES } from '@/lib/lead-pipeline/metrics';
+import type { OutboxLead } from '@/lib/lead-pipeline/outbox/types';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  type LeadSink,
+  type LeadSinkContext,
+} from '@/lib/lead-pipeline/sinks/types';
+import { generateHMAC } from '@/lib/security-crypto';
+
+export const LEAD_WEBHOOK_EVENT = 'lead.created';
+
+async function deliverToWebhook(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  const url = process.env.LEAD_WEBHOOK_URL;
+  if (!url) {
+    throw new Error('Webhook sink is not configured');
+  }
+
+  const body = JSON.stringify({
+    event: LEAD_WEBHOOK_EVENT,
+    referenceId: context.referenceId,
+    submittedAt: context.submittedAt,
+    lead,
+    ...(context.activities?.length ? { activities: context.activities } : {}),
+    ...(context.qualification ? { qualification: context.qualification } : {}),
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    // Receivers can deduplicate retried deliveries on this key
+    'Idempotency-Key': context.referenceId,
+  };
+  const secret = process.env.LEAD_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Lead-Signature'] = `sha256=${await generateHMAC(body, secret)}`;
+  }
+
+  const response = await fetch(url, { method: 'POST', headers, body });
+  if (!response.ok) {
+    throw new Error(`Lead webhook request failed: ${response.status}`);
+  }
+
+  return undefined;
+}
+
+export const webhookSink: LeadSink = {
+  id: LEAD_SINK_IDS.WEBHOOK,
+  category: LEAD_SINK_CATEGORIES.NOTIFICATION,
+  metricService: METRIC_SERVICES.WEBHOOK,
+  deliver: deliverToWebhook,
+};
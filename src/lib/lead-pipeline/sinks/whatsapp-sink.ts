@@ -0,0 +1,106 @@
+/**
+ * WhatsApp acknowledgement sink
+ * Sends an approved template message acknowledging the inquiry, with its
+ * reference ID, to buyers who left a phone number and opted in to WhatsApp.
+ * Only used once the WhatsApp Cloud API credentials are configured.
+ */
+
+import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
+import { METRIC_SERVICES } from '@/lib/lead-pipeline/metrics';
+import type { OutboxLead } from '@/lib/lead-pipeline/outbox/types';
+import {
+  LEAD_SINK_CATEGORIES,
+  LEAD_SINK_IDS,
+  type LeadSink,
+  type LeadSinkContext,
+} from '@/lib/lead-pipeline/sinks/types';
+import { splitName } from '@/lib/lead-pipeline/utils';
+import {
+  WHATSAPP_ACK_TEMPLATES,
+  type WhatsAppAckTemplate,
+} from '@/config/whatsapp-ack-templates';
+import { routing, type Locale } from '@/i18n/routing-config';
+
+// E.164 numbers have at most 15 digits including the country code
+const MIN_PHONE_DIGITS = 8;
+const MAX_PHONE_DIGITS = 15;
+
+/**
+ * Reduce a phone number to the digits WhatsApp expects
+ *
+ * @returns null when the number cannot be an international number
+ */
+export function normalizeWhatsAppNumber(
+  phone: string | undefined,
+): string | null {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS
+    ? digits
+    : null;
+}
+
+/**
+ * Acknowledgement template for a locale, after the environment override
+ */
+export function getWhatsAppAckTemplate(
+  locale: Locale = routing.defaultLocale,
+): WhatsAppAckTemplate {
+  // eslint-disable-next-line security/detect-object-injection -- locale is a Locale literal
+  const template = WHATSAPP_ACK_TEMPLATES[locale];
+  const name = process.env[`WHATSAPP_ACK_TEMPLATE_${locale.toUpperCase()}`];
+  return name ? { ...template, name } : template;
+}
+
+function isWhatsAppConfigured(): boolean {
+  return Boolean(
+    process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID,
+  );
+}
+
+function acceptsLead(lead: OutboxLead): boolean {
+  return (
+    lead.type !== LEAD_TYPES.NEWSLETTER &&
+    lead.whatsappOptIn === true &&
+    normalizeWhatsAppNumber(lead.phone) !== null &&
+    isWhatsAppConfigured()
+  );
+}
+
+async function deliverAcknowledgement(
+  lead: OutboxLead,
+  context: LeadSinkContext,
+): Promise<string | undefined> {
+  if (lead.type === LEAD_TYPES.NEWSLETTER || !lead.whatsappOptIn) {
+    throw new Error('WhatsApp sink requires an opted-in inquiry');
+  }
+  const to = normalizeWhatsAppNumber(lead.phone);
+  if (!to) {
+    throw new Error('WhatsApp sink requires a valid phone number');
+  }
+
+  const template = getWhatsAppAckTemplate(lead.locale);
+  // Lazy import to avoid circular dependencies
+  const { sendWhatsAppTemplate } = await import('@/lib/whatsapp-service');
+  const response = await sendWhatsAppTemplate({
+    to,
+    templateName: template.name,
+    languageCode: template.languageCode,
+    parameters: [splitName(lead.fullName).firstName, context.referenceId],
+  });
+  if (!response.success) {
+    throw new Error(
+      `WhatsApp template message failed: ${response.error ?? 'Unknown error'}`,
+    );
+  }
+
+  return response.data?.messages[0]?.id;
+}
+
+export const whatsappAckSink: LeadSink = {
+  id: LEAD_SINK_IDS.WHATSAPP_ACK,
+  category: LEAD_SINK_CATEGORIES.CONFIRMATION,
+  metricService: METRIC_SERVICES.WHATSAPP,
+  affectsSuccess: false,
+  accepts: acceptsLead,
+  deliver: deliverAcknowledgement,
+};
@@ -3,6 +3,11 @@
  */
 
 import { randomBytes } from 'crypto';
+import { LEAD_TYPES } from '@/lib/lead-pipeline/lead-schema';
+import type {
+  LeadActivity,
+  OutboxLead,
+} from '@/lib/lead-pipeline/outbox/types';
 import { sanitizePlainText } from '@/lib/security-validation';
 import { ONE, ZERO } from '@/constants';
 
@@ -109,6 +114,20 @@ export function sanitizeInput(input: string): string {
   return sanitizePlainText(input).slice(ZERO, 5000);
 }
 
+/**
+ * Escape text for Slack mrkdwn
+ *
+ * Slack only treats `&`, `<` and `>` as control characters; escaping them
+ * keeps visitor input from injecting `<!channel>` mentions or disguised
+ * `<url|label>` links.
+ */
+export function escapeSlackText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
 /**
  * Generate a reference ID for lead tracking
  *
@@ -124,3 +143,36 @@ export function generateLeadReferenceId(type: string): string {
   const prefix = type.substring(ZERO, 3).toUpperCase();
   return `${prefix}-${timestamp}-${random}`;
 }
+
+/**
+ * Describe a lead as an activity for the lead it is merged into
+ *
+ * @param lead - Stored lead payload of the repeat submission
+ * @param referenceId - Reference ID issued for the repeat submission
+ * @param submittedAt - ISO timestamp of the repeat submission
+ */
+export function describeLeadActivity(
+  lead: OutboxLead,
+  referenceId: string,
+  submittedAt: string,
+): LeadActivity {
+  let summary = 'Newsletter subscription';
+  if (lead.type === LEAD_TYPES.CONTACT) {
+    summary = `Contact form (${lead.subject}): ${lead.message}`;
+  } else if (lead.type === LEAD_TYPES.PRODUCT) {
+    summary = generateProductInquiryMessage(
+      lead.productName,
+      lead.quantity,
+      lead.requirements,
+    );
+  }
+
+  return { referenceId, leadType: lead.type, submittedAt, summary };
+}
+
+/**
+ * Format an activity as a plain-text block for CRM notes
+ */
+export function formatLeadActivity(activity: LeadActivity): string {
+  return `[${activity.submittedAt}] ${activity.referenceId}\n${activity.summary}`;
+}
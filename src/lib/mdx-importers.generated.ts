@@ -8,9 +8,10 @@
  */
 
 import type { ComponentType } from 'react';
+import type { MDXProps } from 'mdx/types';
 
 export interface MDXContentModule {
-  default: ComponentType;
+  default: ComponentType<MDXProps>;
   frontmatter?: Record<string, unknown>;
 }
 
@@ -8,6 +8,7 @@
  */
 
 import type { ComponentType } from 'react';
+import type { MDXProps } from 'mdx/types';
 import type { ContentType, Locale } from '@/types/content.types';
 import { getContentEntry } from '@/lib/content-manifest';
 import {
@@ -71,7 +72,7 @@ export async function getMDXComponent(
   type: ContentType,
   locale: Locale,
   slug: string,
-): Promise<ComponentType | null> {
+): Promise<ComponentType<MDXProps> | null> {
   const mdxModule = await loadMDXContent(type, locale, slug);
   return mdxModule?.default ?? null;
 }
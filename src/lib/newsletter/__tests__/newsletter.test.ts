@@ -0,0 +1,167 @@
+/**
+ * Newsletter double opt-in tests
+ * Covers signed link tokens, link building and status updates
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildNewsletterLinks,
+  confirmNewsletterSubscription,
+  createNewsletterToken,
+  getListUnsubscribeHeaders,
+  NEWSLETTER_SUBSCRIPTION_STATUS,
+  NEWSLETTER_TOKEN_PURPOSES,
+  unsubscribeNewsletter,
+  verifyNewsletterToken,
+} from '@/lib/newsletter';
+import { SITE_CONFIG } from '@/config/paths';
+
+const mockUpdateNewsletterSubscription = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/airtable', () => ({
+  airtableService: {
+    updateNewsletterSubscription: mockUpdateNewsletterSubscription,
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  sanitizeEmail: (email: string) => email,
+}));
+
+const subscriber = { email: 'Reader@Example.com', locale: 'zh' };
+
+function getToken(url: string): string {
+  return new URL(url).searchParams.get('token') ?? '';
+}
+
+describe('newsletter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NEWSLETTER_TOKEN_SECRET', 'test-secret');
+    mockUpdateNewsletterSubscription.mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('tokens', () => {
+    it('should only accept tokens issued for an allowed purpose', async () => {
+      const token = await createNewsletterToken(
+        NEWSLETTER_TOKEN_PURPOSES.CONFIRM,
+        subscriber,
+      );
+
+      await expect(
+        verifyNewsletterToken(token, [NEWSLETTER_TOKEN_PURPOSES.CONFIRM]),
+      ).resolves.toMatchObject({ email: 'reader@example.com', locale: 'zh' });
+      await expect(
+        verifyNewsletterToken(token, [NEWSLETTER_TOKEN_PURPOSES.MANAGE]),
+      ).resolves.toBeNull();
+    });
+
+    it('should expire confirmation tokens after the configured TTL', async () => {
+      vi.stubEnv('NEWSLETTER_CONFIRM_TTL_HOURS', '1');
+      const token = await createNewsletterToken(
+        NEWSLETTER_TOKEN_PURPOSES.CONFIRM,
+        subscriber,
+        Date.now() - 2 * 60 * 60 * 1000,
+      );
+
+      await expect(
+        verifyNewsletterToken(token, [NEWSLETTER_TOKEN_PURPOSES.CONFIRM]),
+      ).resolves.toBeNull();
+    });
+
+    it('should fall back to the default locale', async () => {
+      const token = await createNewsletterToken(
+        NEWSLETTER_TOKEN_PURPOSES.MANAGE,
+        { email: 'reader@example.com', locale: 'fr' },
+      );
+
+      await expect(
+        verifyNewsletterToken(token, [NEWSLETTER_TOKEN_PURPOSES.MANAGE]),
+      ).resolves.toMatchObject({ locale: 'en' });
+    });
+  });
+
+  describe('links', () => {
+    it('should build localized confirm and preference links', async () => {
+      const links = await buildNewsletterLinks(subscriber);
+
+      expect(links.confirmUrl).toMatch(
+        `${SITE_CONFIG.baseUrl}/zh/newsletter/confirm?token=`,
+      );
+      expect(links.preferencesUrl).toMatch(
+        `${SITE_CONFIG.baseUrl}/zh/newsletter/preferences?token=`,
+      );
+      expect(links.unsubscribeUrl).toMatch(
+        `${SITE_CONFIG.baseUrl}/api/unsubscribe?token=`,
+      );
+    });
+
+    it('should advertise one-click unsubscribe', () => {
+      expect(
+        getListUnsubscribeHeaders(
+          'https://example.com/api/unsubscribe?token=t',
+        ),
+      ).toEqual({
+        'List-Unsubscribe': '<https://example.com/api/unsubscribe?token=t>',
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      });
+    });
+  });
+
+  describe('subscription status', () => {
+    it('should confirm with the token from the confirmation email', async () => {
+      const { confirmUrl } = await buildNewsletterLinks(subscriber);
+
+      await expect(
+        confirmNewsletterSubscription(getToken(confirmUrl)),
+      ).resolves.toEqual({
+        success: true,
+        status: NEWSLETTER_SUBSCRIPTION_STATUS.SUBSCRIBED,
+        locale: 'zh',
+      });
+      expect(mockUpdateNewsletterSubscription).toHaveBeenCalledWith(
+        'reader@example.com',
+        NEWSLETTER_SUBSCRIPTION_STATUS.SUBSCRIBED,
+      );
+    });
+
+    it('should not unsubscribe with a confirmation token', async () => {
+      const { confirmUrl, unsubscribeUrl } =
+        await buildNewsletterLinks(subscriber);
+
+      await expect(
+        unsubscribeNewsletter(getToken(confirmUrl)),
+      ).resolves.toEqual({ success: false, error: 'INVALID_TOKEN' });
+      await expect(
+        unsubscribeNewsletter(getToken(unsubscribeUrl)),
+      ).resolves.toMatchObject({
+        success: true,
+        status: NEWSLETTER_SUBSCRIPTION_STATUS.UNSUBSCRIBED,
+      });
+    });
+
+    it('should report CRM failures', async () => {
+      mockUpdateNewsletterSubscription.mockRejectedValue(new Error('down'));
+      const { unsubscribeUrl } = await buildNewsletterLinks(subscriber);
+
+      await expect(
+        unsubscribeNewsletter(getToken(unsubscribeUrl)),
+      ).resolves.toEqual({ success: false, error: 'UPDATE_FAILED' });
+    });
+
+    it('should reject links when the secret is not configured', async () => {
+      const { unsubscribeUrl } = await buildNewsletterLinks(subscriber);
+      vi.stubEnv('NEWSLETTER_TOKEN_SECRET', '');
+
+      await expect(
+        unsubscribeNewsletter(getToken(unsubscribeUrl)),
+      ).resolves.toEqual({ success: false, error: 'INVALID_TOKEN' });
+      expect(mockUpdateNewsletterSubscription).not.toHaveBeenCalled();
+    });
+  });
+});
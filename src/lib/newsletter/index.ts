@@ -0,0 +1,35 @@
+/**
+ * Newsletter Module
+ * Double opt-in, unsubscribe and preference center support
+ */
+
+export {
+  NEWSLETTER_SUBSCRIPTION_STATUS,
+  type NewsletterLinks,
+  type NewsletterSubscriptionResult,
+  type NewsletterSubscriptionStatus,
+} from '@/lib/newsletter/types';
+
+export {
+  NEWSLETTER_TOKEN_PURPOSES,
+  createNewsletterToken,
+  verifyNewsletterToken,
+  resolveNewsletterLocale,
+  type NewsletterTokenPayload,
+  type NewsletterTokenPurpose,
+} from '@/lib/newsletter/tokens';
+
+export {
+  NEWSLETTER_PAGES,
+  NEWSLETTER_UNSUBSCRIBE_PATH,
+  buildNewsletterLinks,
+  getListUnsubscribeHeaders,
+  getNewsletterPageUrl,
+  getUnsubscribeUrl,
+  type NewsletterPage,
+} from '@/lib/newsletter/links';
+
+export {
+  confirmNewsletterSubscription,
+  unsubscribeNewsletter,
+} from '@/lib/newsletter/subscription';
@@ -0,0 +1,86 @@
+/**
+ * Newsletter Links and Headers
+ * Builds the signed links and List-Unsubscribe headers (RFC 2369 / RFC 8058)
+ * for every email sent to a subscriber.
+ */
+
+import {
+  createNewsletterToken,
+  NEWSLETTER_TOKEN_PURPOSES,
+  resolveNewsletterLocale,
+} from '@/lib/newsletter/tokens';
+import type { NewsletterLinks } from '@/lib/newsletter/types';
+import { SITE_CONFIG } from '@/config/paths';
+
+export const NEWSLETTER_PAGES = {
+  CONFIRM: 'confirm',
+  PREFERENCES: 'preferences',
+} as const;
+
+export type NewsletterPage =
+  (typeof NEWSLETTER_PAGES)[keyof typeof NEWSLETTER_PAGES];
+
+export const NEWSLETTER_UNSUBSCRIBE_PATH = '/api/unsubscribe';
+
+interface Subscriber {
+  email: string;
+  locale?: string | undefined;
+}
+
+/**
+ * Absolute URL of a localized newsletter page
+ */
+export function getNewsletterPageUrl(
+  page: NewsletterPage,
+  token: string,
+  locale: string | undefined,
+): string {
+  const localePrefix = resolveNewsletterLocale(locale);
+  return `${SITE_CONFIG.baseUrl}/${localePrefix}/newsletter/${page}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Absolute URL of the one-click unsubscribe endpoint
+ */
+export function getUnsubscribeUrl(token: string): string {
+  return `${SITE_CONFIG.baseUrl}${NEWSLETTER_UNSUBSCRIBE_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Build the confirmation, preference center and unsubscribe links
+ */
+export async function buildNewsletterLinks(
+  subscriber: Subscriber,
+): Promise<NewsletterLinks> {
+  const [confirmToken, manageToken] = await Promise.all([
+    createNewsletterToken(NEWSLETTER_TOKEN_PURPOSES.CONFIRM, subscriber),
+    createNewsletterToken(NEWSLETTER_TOKEN_PURPOSES.MANAGE, subscriber),
+  ]);
+
+  return {
+    confirmUrl: getNewsletterPageUrl(
+      NEWSLETTER_PAGES.CONFIRM,
+      confirmToken,
+      subscriber.locale,
+    ),
+    preferencesUrl: getNewsletterPageUrl(
+      NEWSLETTER_PAGES.PREFERENCES,
+      manageToken,
+      subscriber.locale,
+    ),
+    unsubscribeUrl: getUnsubscribeUrl(manageToken),
+  };
+}
+
+/**
+ * List-Unsubscribe headers for emails sent to subscribers
+ * Mail clients POST `List-Unsubscribe=One-Click` to the URL (RFC 8058).
+ */
+export function getListUnsubscribeHeaders(
+  unsubscribeUrl: string,
+): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Newsletter Subscription Management
+ * Applies double opt-in confirmations and removal requests to the CRM record.
+ */
+
+import { logger, sanitizeEmail } from '@/lib/logger';
+import {
+  NEWSLETTER_TOKEN_PURPOSES,
+  verifyNewsletterToken,
+  type NewsletterTokenPayload,
+  type NewsletterTokenPurpose,
+} from '@/lib/newsletter/tokens';
+import {
+  NEWSLETTER_SUBSCRIPTION_STATUS,
+  type NewsletterSubscriptionResult,
+  type NewsletterSubscriptionStatus,
+} from '@/lib/newsletter/types';
+
+async function readToken(
+  token: string,
+  purposes: readonly NewsletterTokenPurpose[],
+): Promise<NewsletterTokenPayload | null> {
+  try {
+    return await verifyNewsletterToken(token, purposes);
+  } catch (error) {
+    // Missing secret: links cannot be verified until it is configured
+    logger.error('[Newsletter] Token verification unavailable', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+async function applySubscriptionStatus(
+  token: string,
+  purposes: readonly NewsletterTokenPurpose[],
+  status: NewsletterSubscriptionStatus,
+): Promise<NewsletterSubscriptionResult> {
+  const payload = await readToken(token, purposes);
+  if (!payload) {
+    logger.warn('[Newsletter] Rejected invalid or expired token', { status });
+    return { success: false, error: 'INVALID_TOKEN' };
+  }
+
+  try {
+    // Lazy import to avoid circular dependencies
+    const { airtableService } = await import('@/lib/airtable');
+    await airtableService.updateNewsletterSubscription(payload.email, status);
+  } catch (error) {
+    logger.error('[Newsletter] Failed to update subscription status', {
+      email: sanitizeEmail(payload.email),
+      status,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return { success: false, error: 'UPDATE_FAILED' };
+  }
+
+  logger.info('[Newsletter] Subscription status updated', {
+    email: sanitizeEmail(payload.email),
+    status,
+  });
+  return { success: true, status, locale: payload.locale };
+}
+
+/**
+ * Confirm a subscription (double opt-in)
+ * Preference center tokens are accepted too, so unsubscribed readers can
+ * resubscribe from the same page.
+ */
+export function confirmNewsletterSubscription(
+  token: string,
+): Promise<NewsletterSubscriptionResult> {
+  return applySubscriptionStatus(
+    token,
+    [NEWSLETTER_TOKEN_PURPOSES.CONFIRM, NEWSLETTER_TOKEN_PURPOSES.MANAGE],
+    NEWSLETTER_SUBSCRIPTION_STATUS.SUBSCRIBED,
+  );
+}
+
+/**
+ * Record a removal request
+ */
+export function unsubscribeNewsletter(
+  token: string,
+): Promise<NewsletterSubscriptionResult> {
+  return applySubscriptionStatus(
+    token,
+    [NEWSLETTER_TOKEN_PURPOSES.MANAGE],
+    NEWSLETTER_SUBSCRIPTION_STATUS.UNSUBSCRIBED,
+  );
+}
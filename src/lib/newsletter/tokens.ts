@@ -0,0 +1,108 @@
+/**
+ * Newsletter Link Tokens
+ *
+ * Signed, stateless tokens embedded in newsletter links:
+ * - confirm: double opt-in confirmation, expires after NEWSLETTER_CONFIRM_TTL_HOURS
+ * - manage: unsubscribe and preference center links, never expire so old
+ *   emails keep working
+ *
+ * Environment:
+ * - NEWSLETTER_TOKEN_SECRET: HMAC secret (required to send confirmations)
+ * - NEWSLETTER_CONFIRM_TTL_HOURS: confirmation link lifetime (default 72)
+ */
+
+import {
+  createSignedToken,
+  verifySignedToken,
+  type SignedTokenPayload,
+} from '@/lib/security-tokens';
+import { COUNT_THREE, HOUR_MS, HOURS_PER_DAY, ZERO } from '@/constants';
+import { routing, type Locale } from '@/i18n/routing-config';
+
+const DEFAULT_CONFIRM_TTL_HOURS = HOURS_PER_DAY * COUNT_THREE;
+
+export const NEWSLETTER_TOKEN_PURPOSES = {
+  CONFIRM: 'newsletter_confirm',
+  MANAGE: 'newsletter_manage',
+} as const;
+
+export type NewsletterTokenPurpose =
+  (typeof NEWSLETTER_TOKEN_PURPOSES)[keyof typeof NEWSLETTER_TOKEN_PURPOSES];
+
+export interface NewsletterTokenPayload extends SignedTokenPayload {
+  purpose: NewsletterTokenPurpose;
+  email: string;
+  /** Locale of the signup, used for localized landing pages */
+  locale: Locale;
+}
+
+function getTokenSecret(): string {
+  const secret = process.env.NEWSLETTER_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('NEWSLETTER_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function getConfirmTtlMs(): number {
+  const hours = Number.parseInt(
+    process.env.NEWSLETTER_CONFIRM_TTL_HOURS ?? '',
+    10,
+  );
+  return (
+    (Number.isFinite(hours) && hours > ZERO
+      ? hours
+      : DEFAULT_CONFIRM_TTL_HOURS) * HOUR_MS
+  );
+}
+
+/**
+ * Fall back to the default locale for unknown values
+ */
+export function resolveNewsletterLocale(value: unknown): Locale {
+  return (
+    routing.locales.find((locale) => locale === value) ?? routing.defaultLocale
+  );
+}
+
+/**
+ * Create a signed newsletter token for an email address
+ */
+export function createNewsletterToken(
+  purpose: NewsletterTokenPurpose,
+  subscriber: { email: string; locale?: string | undefined },
+  now: number = Date.now(),
+): Promise<string> {
+  const payload: NewsletterTokenPayload = {
+    purpose,
+    email: subscriber.email.trim().toLowerCase(),
+    locale: resolveNewsletterLocale(subscriber.locale),
+    ...(purpose === NEWSLETTER_TOKEN_PURPOSES.CONFIRM
+      ? { exp: now + getConfirmTtlMs() }
+      : {}),
+  };
+  return createSignedToken(payload, getTokenSecret());
+}
+
+/**
+ * Verify a newsletter token for one of the accepted purposes
+ *
+ * @returns null when the token is invalid, expired or has another purpose
+ */
+export async function verifyNewsletterToken(
+  token: string,
+  purposes: readonly NewsletterTokenPurpose[],
+): Promise<NewsletterTokenPayload | null> {
+  const payload = await verifySignedToken<NewsletterTokenPayload>(
+    token,
+    getTokenSecret(),
+  );
+  if (
+    !payload ||
+    typeof payload.email !== 'string' ||
+    !purposes.includes(payload.purpose)
+  ) {
+    return null;
+  }
+  return { ...payload, locale: resolveNewsletterLocale(payload.locale) };
+}
@@ -0,0 +1,46 @@
+/**
+ * Newsletter Type Definitions
+ */
+
+import type { Locale } from '@/i18n/routing-config';
+
+/**
+ * Subscription status stored on the CRM record
+ * - Pending: signed up, confirmation email sent
+ * - Subscribed: confirmed through the double opt-in link
+ * - Unsubscribed: removal requested; must not receive newsletters
+ */
+export const NEWSLETTER_SUBSCRIPTION_STATUS = {
+  PENDING: 'Pending',
+  SUBSCRIBED: 'Subscribed',
+  UNSUBSCRIBED: 'Unsubscribed',
+} as const;
+
+export type NewsletterSubscriptionStatus =
+  (typeof NEWSLETTER_SUBSCRIPTION_STATUS)[keyof typeof NEWSLETTER_SUBSCRIPTION_STATUS];
+
+/**
+ * Outcome of a confirmation or unsubscribe request
+ */
+export type NewsletterSubscriptionResult =
+  | {
+      success: true;
+      status: NewsletterSubscriptionStatus;
+      locale: Locale;
+    }
+  | {
+      success: false;
+      error: 'INVALID_TOKEN' | 'UPDATE_FAILED';
+    };
+
+/**
+ * Links included in emails sent to subscribers
+ */
+export interface NewsletterLinks {
+  /** Double opt-in confirmation page */
+  confirmUrl: string;
+  /** Preference center (unsubscribe / resubscribe) */
+  preferencesUrl: string;
+  /** One-click unsubscribe endpoint for the List-Unsubscribe header */
+  unsubscribeUrl: string;
+}
@@ -0,0 +1,74 @@
+/**
+ * Page-number pagination helpers
+ *
+ * Shared by the blog/product listings and the blog archives. Page 1 is
+ * served at the listing path itself (`/blog`); following pages live at
+ * `{path}/page/{n}` (`/blog/page/2`), so every page has a static,
+ * crawlable URL.
+ */
+
+import { ONE } from '@/constants';
+
+export const FIRST_PAGE = ONE;
+
+const PAGE_PARAM_PATTERN = /^\d+$/;
+
+/**
+ * One page of a listing, as rendered by `/blog` and `/products`.
+ */
+export interface ListingPage<T> {
+  items: T[];
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  /** Zero-based index of the first item on this page */
+  offset: number;
+}
+
+/**
+ * Number of pages for a listing; an empty listing still has one page.
+ */
+export function getTotalPages(totalItems: number, perPage: number): number {
+  return Math.max(FIRST_PAGE, Math.ceil(totalItems / perPage));
+}
+
+/**
+ * Zero-based index of the first item on a page.
+ */
+export function getPageOffset(page: number, perPage: number): number {
+  return (page - FIRST_PAGE) * perPage;
+}
+
+export function isValidPage(page: number, totalPages: number): boolean {
+  return Number.isInteger(page) && page >= FIRST_PAGE && page <= totalPages;
+}
+
+/**
+ * Path of a listing page; `basePath` is returned unchanged for page 1.
+ */
+export function getPaginatedPath(basePath: string, page: number): string {
+  return page > FIRST_PAGE ? `${basePath}/page/${page}` : basePath;
+}
+
+/**
+ * Parse the `[page]` segment of a `/page/[page]` route.
+ *
+ * Returns `NaN` for anything but a page number greater than 1: `/page/1`
+ * would duplicate the listing path, so it is treated as not found.
+ */
+export function parsePageParam(value: string): number {
+  if (!PAGE_PARAM_PATTERN.test(value)) return Number.NaN;
+
+  const page = Number(value);
+  return page > FIRST_PAGE ? page : Number.NaN;
+}
+
+/**
+ * `[page]` params for every page after the first.
+ */
+export function getPageStaticParams(totalPages: number): { page: string }[] {
+  return Array.from(
+    { length: Math.max(totalPages - FIRST_PAGE, 0) },
+    (_, index) => ({ page: String(index + FIRST_PAGE + ONE) }),
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * Redis REST client (Upstash Redis / Vercel KV)
+ *
+ * Both providers expose the Upstash REST protocol: a POST of the command as
+ * a JSON array to the base URL, authenticated with a bearer token. Shared by
+ * the stores that keep state across serverless instances.
+ *
+ * Connection resolution order:
+ * 1. Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 2. Vercel KV (KV_REST_API_URL + KV_REST_API_TOKEN)
+ */
+
+export type RedisArg = string | number;
+
+export interface RedisRestConfig {
+  provider: 'upstash' | 'kv';
+  url: string;
+  token: string;
+}
+
+/**
+ * Read the Redis REST connection from the environment
+ * @returns null when neither provider is configured
+ */
+export function getRedisRestConfig(): RedisRestConfig | null {
+  const upstashUrl = process.env.UPSTASH_REDIS_REST_URL;
+  const upstashToken = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (upstashUrl && upstashToken) {
+    return { provider: 'upstash', url: upstashUrl, token: upstashToken };
+  }
+
+  const kvUrl = process.env.KV_REST_API_URL;
+  const kvToken = process.env.KV_REST_API_TOKEN;
+  if (kvUrl && kvToken) {
+    return { provider: 'kv', url: kvUrl, token: kvToken };
+  }
+  return null;
+}
+
+export class RedisRestClient {
+  private baseUrl: string;
+  private token: string;
+  private label: string;
+
+  /**
+   * @param label - Names the store in error messages, e.g. "Lead outbox store"
+   */
+  constructor(url: string, token: string, label: string) {
+    this.baseUrl = url.replace(/\/$/, '');
+    this.token = token;
+    this.label = label;
+  }
+
+  /**
+   * Run a single command
+   * Throws on HTTP failures and on errors reported by Redis.
+   */
+  async command<T>(args: RedisArg[]): Promise<T> {
+    const response = await fetch(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+    if (!response.ok) {
+      throw new Error(`${this.label} request failed: ${response.status}`);
+    }
+
+    const data = (await response.json()) as { result: T; error?: string };
+    if (data.error) {
+      throw new Error(`${this.label} error: ${data.error}`);
+    }
+    return data.result;
+  }
+}
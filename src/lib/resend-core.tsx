@@ -7,18 +7,30 @@ import { render } from '@react-email/render';
 import { Resend } from 'resend';
 import { env } from '@/lib/env';
 import { logger, sanitizeEmail } from '@/lib/logger';
+import { getListUnsubscribeHeaders } from '@/lib/newsletter/links';
 import { EMAIL_CONFIG, ResendUtils } from '@/lib/resend-utils';
 import type {
   EmailTemplateData,
+  NewsletterConfirmationEmailData,
   ProductInquiryEmailData,
 } from '@/lib/validations';
 import {
   ConfirmationEmail,
   ContactFormEmail,
+  NewsletterConfirmationEmail,
   ProductInquiryEmail,
 } from '@/components/emails';
 import { ZERO } from '@/constants';
 
+/**
+ * 管理员通知邮件选项
+ * Options for admin notification emails
+ */
+export interface NotificationEmailOptions {
+  /** Override recipients (lead routing); defaults to the reply-to inbox */
+  to?: string[] | undefined;
+}
+
 /**
  * Resend邮件服务配置
  * Resend email service configuration
@@ -67,6 +79,14 @@ export class ResendService {
     }
   }
 
+  private getNotificationRecipients(
+    options: NotificationEmailOptions,
+  ): string[] {
+    return options.to && options.to.length > ZERO
+      ? options.to
+      : [this.emailConfig.replyTo];
+  }
+
   /**
    * 检查服务是否已配置
    * Check if service is configured
@@ -79,7 +99,10 @@ export class ResendService {
    * 发送联系表单邮件给管理员
    * Send contact form email to admin
    */
-  public async sendContactFormEmail(data: EmailTemplateData): Promise<string> {
+  public async sendContactFormEmail(
+    data: EmailTemplateData,
+    options: NotificationEmailOptions = {},
+  ): Promise<string> {
     if (!this.isReady()) {
       throw new Error('Resend service is not configured');
     }
@@ -89,12 +112,13 @@ export class ResendService {
       const sanitizedData = ResendUtils.sanitizeEmailData(validatedData);
 
       const subject = ResendUtils.generateContactSubject(sanitizedData);
+      const recipients = this.getNotificationRecipients(options);
       const reactEmail = <ContactFormEmail {...sanitizedData} />;
       const textContent = await render(reactEmail, { plainText: true });
 
       const result = await this.resend!.emails.send({
         from: this.emailConfig.from,
-        to: [this.emailConfig.replyTo],
+        to: recipients,
         replyTo: sanitizedData.email,
         subject,
         react: reactEmail,
@@ -108,7 +132,7 @@ export class ResendService {
 
       logger.info('Contact form email sent successfully', {
         messageId: result.data?.id,
-        to: sanitizeEmail(this.emailConfig.replyTo),
+        to: recipients.map((recipient) => sanitizeEmail(recipient)).join(', '),
         from: sanitizeEmail(sanitizedData.email),
         subject,
       });
@@ -175,6 +199,7 @@ export class ResendService {
    */
   public async sendProductInquiryEmail(
     data: ProductInquiryEmailData,
+    options: NotificationEmailOptions = {},
   ): Promise<string> {
     if (!this.isReady()) {
       throw new Error('Resend service is not configured');
@@ -186,12 +211,13 @@ export class ResendService {
         ResendUtils.sanitizeProductInquiryData(validatedData);
 
       const subject = ResendUtils.generateProductInquirySubject(sanitizedData);
+      const recipients = this.getNotificationRecipients(options);
       const reactEmail = <ProductInquiryEmail {...sanitizedData} />;
       const textContent = await render(reactEmail, { plainText: true });
 
       const result = await this.resend!.emails.send({
         from: this.emailConfig.from,
-        to: [this.emailConfig.replyTo],
+        to: recipients,
         replyTo: sanitizedData.email,
         subject,
         react: reactEmail,
@@ -205,7 +231,7 @@ export class ResendService {
 
       logger.info('Product inquiry email sent successfully', {
         messageId: result.data?.id,
-        to: sanitizeEmail(this.emailConfig.replyTo),
+        to: recipients.map((recipient) => sanitizeEmail(recipient)).join(', '),
         from: sanitizeEmail(sanitizedData.email),
         product: sanitizedData.productName,
         quantity: sanitizedData.quantity,
@@ -222,6 +248,89 @@ export class ResendService {
     }
   }
 
+  /**
+   * Send the double opt-in email to a newsletter subscriber
+   * Carries List-Unsubscribe headers like every email sent to subscribers.
+   */
+  public async sendNewsletterConfirmationEmail(
+    data: NewsletterConfirmationEmailData,
+  ): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error('Resend service is not configured');
+    }
+
+    try {
+      const validatedData =
+        ResendUtils.validateNewsletterConfirmationData(data);
+
+      const subject =
+        ResendUtils.generateNewsletterConfirmationSubject(validatedData);
+      const reactEmail = <NewsletterConfirmationEmail {...validatedData} />;
+      const textContent = await render(reactEmail, { plainText: true });
+
+      const result = await this.resend!.emails.send({
+        from: this.emailConfig.from,
+        to: [validatedData.email],
+        replyTo: this.emailConfig.supportEmail,
+        subject,
+        react: reactEmail,
+        text: textContent,
+        headers: getListUnsubscribeHeaders(validatedData.unsubscribeUrl),
+        tags: ResendUtils.getNewsletterConfirmationTags(),
+      });
+
+      if (result.error) {
+        throw new Error(`Resend API error: ${result.error.message}`);
+      }
+
+      logger.info('Newsletter confirmation email sent successfully', {
+        messageId: result.data?.id,
+        to: sanitizeEmail(validatedData.email),
+      });
+
+      return result.data?.id || 'unknown';
+    } catch (error) {
+      logger.error('Failed to send newsletter confirmation email', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email: sanitizeEmail(data.email),
+      });
+      throw new Error('Failed to send newsletter confirmation email');
+    }
+  }
+
+  /**
+   * 发送运维告警邮件（纯文本）
+   * Send a plain-text operational alert to the notification inbox
+   */
+  public async sendAlertEmail(
+    alert: { subject: string; text: string },
+    options: NotificationEmailOptions = {},
+  ): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error('Resend service is not configured');
+    }
+
+    const recipients = this.getNotificationRecipients(options);
+    const result = await this.resend!.emails.send({
+      from: this.emailConfig.from,
+      to: recipients,
+      subject: alert.subject,
+      text: alert.text,
+      tags: ResendUtils.getAlertTags(),
+    });
+
+    if (result.error) {
+      throw new Error(`Resend API error: ${result.error.message}`);
+    }
+
+    logger.info('Alert email sent successfully', {
+      messageId: result.data?.id,
+      subject: alert.subject,
+    });
+
+    return result.data?.id || 'unknown';
+  }
+
   /**
    * 获取邮件发送统计
    * Get email sending statistics
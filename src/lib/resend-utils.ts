@@ -6,11 +6,16 @@
 import { sanitizePlainText } from '@/lib/security-validation';
 import {
   emailTemplateDataSchema,
+  newsletterConfirmationEmailDataSchema,
   productInquiryEmailDataSchema,
   type EmailTemplateData,
+  type LeadActivityEmailData,
+  type NewsletterConfirmationEmailData,
   type ProductInquiryEmailData,
 } from '@/lib/validations';
+import { getNewsletterConfirmationCopy } from '@/config/newsletter-confirmation-email';
 import { SITE_CONFIG } from '@/config/paths/site-config';
+import { ONE, ZERO } from '@/constants';
 
 /**
  * 邮件配置常量
@@ -50,6 +55,8 @@ export class ResendUtils {
       subject: data.subject ? sanitizePlainText(data.subject) : undefined,
       submittedAt: data.submittedAt,
       marketingConsent: data.marketingConsent,
+      attribution: data.attribution,
+      activities: ResendUtils.sanitizeActivities(data.activities),
     };
   }
 
@@ -58,9 +65,35 @@ export class ResendUtils {
    * Generate email subject
    */
   static generateContactSubject(data: EmailTemplateData): string {
-    return data.subject
+    const subject = data.subject
       ? `Contact Form: ${data.subject}`
       : `New Contact from ${data.firstName} ${data.lastName}`;
+    return ResendUtils.withFollowUpCount(subject, data.activities);
+  }
+
+  /**
+   * 清理合并的重复提交
+   * Sanitize repeat submissions merged into a lead
+   */
+  static sanitizeActivities(
+    activities: LeadActivityEmailData[] | undefined,
+  ): LeadActivityEmailData[] | undefined {
+    return activities?.map((activity) => ({
+      ...activity,
+      summary: sanitizePlainText(activity.summary),
+    }));
+  }
+
+  /**
+   * Append the number of merged follow-ups to a subject line
+   */
+  static withFollowUpCount(
+    subject: string,
+    activities: LeadActivityEmailData[] | undefined,
+  ): string {
+    const count = activities?.length ?? ZERO;
+    if (count === ZERO) return subject;
+    return `${subject} (+${count} follow-up${count === ONE ? '' : 's'})`;
   }
 
   /**
@@ -82,6 +115,17 @@ export class ResendUtils {
     ];
   }
 
+  /**
+   * 获取告警邮件标签
+   * Get alert email tags
+   */
+  static getAlertTags(): Array<{ name: string; value: string }> {
+    return [
+      { name: 'type', value: 'alert' },
+      { name: 'source', value: 'lead-pipeline' },
+    ];
+  }
+
   /**
    * 获取确认邮件标签
    * Get confirmation email tags
@@ -128,6 +172,8 @@ export class ResendUtils {
         ? sanitizePlainText(data.requirements)
         : undefined,
       marketingConsent: data.marketingConsent,
+      attribution: data.attribution,
+      activities: ResendUtils.sanitizeActivities(data.activities),
     };
   }
 
@@ -139,7 +185,41 @@ export class ResendUtils {
       typeof data.quantity === 'number'
         ? data.quantity.toString()
         : data.quantity;
-    return `Product Inquiry: ${data.productName} (Qty: ${quantity})`;
+    return ResendUtils.withFollowUpCount(
+      `Product Inquiry: ${data.productName} (Qty: ${quantity})`,
+      data.activities,
+    );
+  }
+
+  /**
+   * Validate newsletter confirmation email data
+   */
+  static validateNewsletterConfirmationData(
+    data: NewsletterConfirmationEmailData,
+  ): NewsletterConfirmationEmailData {
+    return newsletterConfirmationEmailDataSchema.parse(data);
+  }
+
+  /**
+   * Generate newsletter confirmation email subject in the signup locale
+   */
+  static generateNewsletterConfirmationSubject(
+    data: NewsletterConfirmationEmailData,
+  ): string {
+    return getNewsletterConfirmationCopy(data.locale, data.email).subject;
+  }
+
+  /**
+   * Get newsletter confirmation email tags
+   */
+  static getNewsletterConfirmationTags(): Array<{
+    name: string;
+    value: string;
+  }> {
+    return [
+      { name: 'type', value: 'newsletter-confirmation' },
+      { name: 'source', value: 'website' },
+    ];
   }
 
   /**
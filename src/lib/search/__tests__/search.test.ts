@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import { splitHighlightParts } from '@/lib/search/highlight';
+import {
+  buildSearchDocument,
+  mdxToPlainText,
+  type SearchSourceFile,
+} from '@/lib/search/index-builder';
+import { buildSearchHighlights, searchDocuments } from '@/lib/search/search';
+import { tokenizeForIndex, tokenizeQuery } from '@/lib/search/tokenize';
+import type { SearchDocument } from '@/lib/search/types';
+
+function createFile(overrides: Partial<SearchSourceFile> = {}) {
+  return {
+    type: 'posts',
+    locale: 'en',
+    slug: 'welcome',
+    filePath: '/content/posts/en/welcome.mdx',
+    frontmatter: { title: 'Welcome', publishedAt: '2024-01-01' },
+    body: 'Hello world',
+    ...overrides,
+  } satisfies SearchSourceFile;
+}
+
+function createDocument(overrides: Partial<SearchSourceFile> = {}) {
+  return buildSearchDocument(createFile(overrides)) as SearchDocument;
+}
+
+describe('tokenizer', () => {
+  it('should lowercase, width-fold and drop single Latin letters', () => {
+    expect(tokenizeQuery('Ｐｕｍｐ a Valve, ISO-9001 x 2')).toEqual([
+      'pump',
+      'valve',
+      'iso',
+      '9001',
+      '2',
+    ]);
+  });
+
+  it('should split CJK runs into bigrams', () => {
+    expect(tokenizeQuery('产品目录 pump')).toEqual([
+      '产品',
+      '品目',
+      '目录',
+      'pump',
+    ]);
+  });
+
+  it('should keep single CJK characters in the index only', () => {
+    expect(tokenizeQuery('泵')).toEqual(['泵']);
+    expect(tokenizeForIndex('水泵')).toEqual(['水', '泵', '水泵']);
+  });
+});
+
+describe('index builder', () => {
+  it('should strip MDX markup and keep link text', () => {
+    const body = [
+      "import { Chart } from '@/components/chart';",
+      '## Overview',
+      'See the **[catalog](/products)** for `details`.',
+      '<Chart data={points} />',
+      '```ts',
+      'const hidden = true;',
+      '```',
+      '| Model | Flow |',
+      '| --- | --- |',
+      '| A1 | 10 |',
+    ].join('\n');
+
+    expect(mdxToPlainText(body)).toBe(
+      'Overview See the catalog for details. Model Flow A1 10',
+    );
+  });
+
+  it('should skip drafts unless drafts are included', () => {
+    const draft = createFile({
+      frontmatter: { title: 'Draft', draft: true },
+    });
+
+    expect(buildSearchDocument(draft)).toBeNull();
+    expect(buildSearchDocument(draft, true)?.title).toBe('Draft');
+  });
+
+  it('should index product category as a tag and link to the product page', () => {
+    const document = createDocument({
+      type: 'products',
+      slug: 'pump-a1',
+      frontmatter: { title: 'A1', category: 'Centrifugal' },
+    });
+
+    expect(document.href).toBe('/products/pump-a1');
+    expect(document.categories).toEqual(['Centrifugal']);
+    expect(document.terms.tags).toContain('centrifugal');
+  });
+});
+
+describe('searchDocuments', () => {
+  const documents = [
+    createDocument({
+      slug: 'body-match',
+      frontmatter: { title: 'Maintenance', publishedAt: '2024-03-01' },
+      body: 'Check the pump seals every month.',
+    }),
+    createDocument({
+      slug: 'title-match',
+      frontmatter: { title: 'Pump buying guide', publishedAt: '2024-01-01' },
+      body: 'How to choose.',
+    }),
+    createDocument({
+      slug: 'tag-match',
+      frontmatter: {
+        title: 'Factory tour',
+        tags: ['pump'],
+        publishedAt: '2024-02-01',
+      },
+      body: 'Our plant.',
+    }),
+    createDocument({
+      type: 'pages',
+      slug: 'about',
+      frontmatter: { title: 'About' },
+      body: 'Unrelated.',
+    }),
+  ];
+
+  it('should rank title matches over tag matches over body matches', () => {
+    const response = searchDocuments(documents, 'pump');
+
+    expect(response.total).toBe(3);
+    expect(response.results.map((result) => result.content.slug)).toEqual([
+      'title-match',
+      'tag-match',
+      'body-match',
+    ]);
+  });
+
+  it('should match Latin prefixes at a lower score', () => {
+    const [exact] = searchDocuments(documents, 'pump').results;
+    const [prefix] = searchDocuments(documents, 'pum').results;
+
+    expect(prefix?.content.slug).toBe('title-match');
+    expect(prefix?.score).toBeLessThan(exact?.score ?? 0);
+  });
+
+  it('should filter by type and apply the limit after counting', () => {
+    expect(searchDocuments(documents, 'pump', { type: 'pages' }).total).toBe(0);
+
+    const limited = searchDocuments(documents, 'pump', { limit: 1 });
+    expect(limited.total).toBe(3);
+    expect(limited.results).toHaveLength(1);
+  });
+
+  it('should drop documents matching fewer than half of the terms', () => {
+    const response = searchDocuments(documents, 'pump seals monthly report');
+
+    expect(response.results.map((result) => result.content.slug)).toEqual([
+      'body-match',
+    ]);
+  });
+
+  it('should return no results for a query without terms', () => {
+    expect(searchDocuments(documents, ' ? ')).toEqual({
+      query: '?',
+      terms: [],
+      total: 0,
+      results: [],
+    });
+  });
+
+  it('should find Chinese documents by any two-character word', () => {
+    const zh = createDocument({
+      locale: 'zh',
+      slug: 'samples',
+      frontmatter: { title: '常见问题' },
+      body: '我们提供免费样品，运费由客户承担。',
+    });
+
+    expect(searchDocuments([zh], '样品').results).toHaveLength(1);
+    expect(searchDocuments([zh], '免费样品').results).toHaveLength(1);
+    expect(searchDocuments([zh], '付款').results).toHaveLength(0);
+  });
+});
+
+describe('highlights', () => {
+  it('should cut a snippet around the match with ellipses', () => {
+    const content = `${'a '.repeat(60)}pump${' b'.repeat(80)}`;
+    const [snippet] = buildSearchHighlights({ content, description: '' }, [
+      'pump',
+    ]);
+
+    expect(snippet?.startsWith('…')).toBe(true);
+    expect(snippet?.endsWith('…')).toBe(true);
+    expect(snippet).toContain('pump');
+  });
+
+  it('should fall back to the description without a body match', () => {
+    expect(
+      buildSearchHighlights({ content: 'Nothing', description: 'Summary' }, [
+        'pump',
+      ]),
+    ).toEqual(['Summary']);
+  });
+
+  it('should split text into matched and unmatched parts', () => {
+    expect(splitHighlightParts('Pump pumps 样品', ['pump', '样品'])).toEqual([
+      { text: 'Pump', match: true },
+      { text: ' ', match: false },
+      { text: 'pump', match: true },
+      { text: 's ', match: false },
+      { text: '样品', match: true },
+    ]);
+  });
+});
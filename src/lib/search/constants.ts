@@ -0,0 +1,10 @@
+/**
+ * Site Search Limits
+ * Kept apart from the ranking code so forms can use them without pulling in
+ * the generated index.
+ */
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+/** Longer queries are cut to this many characters */
+export const MAX_SEARCH_QUERY_LENGTH = 100;
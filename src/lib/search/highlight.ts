@@ -0,0 +1,55 @@
+/**
+ * Split text into plain and matched parts for rendering `<mark>` elements,
+ * so snippets stay plain text and never need to be rendered as HTML
+ */
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+function longestMatchAt(
+  lowerText: string,
+  index: number,
+  terms: string[],
+): number {
+  let longest = 0;
+  for (const term of terms) {
+    if (term.length > longest && lowerText.startsWith(term, index)) {
+      longest = term.length;
+    }
+  }
+  return longest;
+}
+
+export function splitHighlightParts(
+  text: string,
+  terms: string[],
+): HighlightPart[] {
+  const lowerText = text.toLowerCase();
+  // Only use case-folded offsets when they line up with the original text
+  if (lowerText.length !== text.length || terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const parts: HighlightPart[] = [];
+  let plainStart = 0;
+  let index = 0;
+  while (index < text.length) {
+    const length = longestMatchAt(lowerText, index, terms);
+    if (length === 0) {
+      index += 1;
+      continue;
+    }
+    if (index > plainStart) {
+      parts.push({ text: text.slice(plainStart, index), match: false });
+    }
+    parts.push({ text: text.slice(index, index + length), match: true });
+    index += length;
+    plainStart = index;
+  }
+  if (plainStart < text.length) {
+    parts.push({ text: text.slice(plainStart), match: false });
+  }
+  return parts;
+}
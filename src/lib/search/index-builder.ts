@@ -0,0 +1,124 @@
+/**
+ * Search Index Builder
+ *
+ * Turns parsed MDX files into search documents. Used by
+ * `scripts/generate-content-manifest.ts`; kept free of `fs` so it can be
+ * unit tested.
+ */
+
+import type { ContentType, Locale } from '@/types/content.types';
+import { tokenizeForIndex } from '@/lib/search/tokenize';
+import type { SearchDocument } from '@/lib/search/types';
+
+export interface SearchSourceFile {
+  type: ContentType;
+  locale: Locale;
+  slug: string;
+  /** Repository-relative path, e.g. `/content/posts/en/welcome.mdx` */
+  filePath: string;
+  frontmatter: Record<string, unknown>;
+  /** MDX body without frontmatter */
+  body: string;
+}
+
+const HREF_PREFIXES: Record<ContentType, string> = {
+  posts: '/blog',
+  products: '/products',
+  pages: '',
+};
+
+/** Markup removed or unwrapped before indexing, applied in order */
+const MDX_CLEANUPS: ReadonlyArray<[RegExp, string]> = [
+  [/^```[^\n]*\n[\s\S]*?^```[^\n]*$/gm, ' '],
+  [/^(?:import|export)\s[^\n]*$/gm, ' '],
+  [/<!--[\s\S]*?-->/g, ' '],
+  [/<\/?[A-Za-z][^>]*>/g, ' '],
+  [/\{[^{}]*\}/g, ' '],
+  [/!\[([^\]]*)\]\([^)]*\)/g, '$1'],
+  [/\[([^\]]+)\]\([^)]*\)/g, '$1'],
+  [/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, ''],
+  [/^[ \t]*\|?[ \t:-]*-{3}[-:| \t]*$/gm, ' '],
+  [/[`*~]/g, ''],
+  [/\|/g, ' '],
+  [/\s+/g, ' '],
+];
+
+/**
+ * Plain text of an MDX body: code blocks, imports, JSX and markdown syntax
+ * are dropped; link and image text is kept
+ */
+export function mdxToPlainText(body: string): string {
+  return MDX_CLEANUPS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    body,
+  ).trim();
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is string => typeof item === 'string' && item.trim() !== '',
+  );
+}
+
+export function getSearchDocumentHref(type: ContentType, slug: string): string {
+  // eslint-disable-next-line security/detect-object-injection -- type is a ContentType literal
+  return `${HREF_PREFIXES[type]}/${slug}`;
+}
+
+/**
+ * Build the search document for a content file
+ * @returns null for drafts unless `includeDrafts` is set
+ */
+export function buildSearchDocument(
+  file: SearchSourceFile,
+  includeDrafts: boolean = false,
+): SearchDocument | null {
+  const { frontmatter } = file;
+  if (frontmatter.draft === true && !includeDrafts) return null;
+
+  const slug = asString(frontmatter.slug) || file.slug;
+  const title = asString(frontmatter.title) || slug;
+  const description =
+    asString(frontmatter.description) || asString(frontmatter.excerpt);
+  const tags = asStringList(frontmatter.tags);
+  // Products have a single `category`
+  const categories = [
+    ...asStringList(frontmatter.categories),
+    ...(asString(frontmatter.category) ? [asString(frontmatter.category)] : []),
+  ];
+  const content = mdxToPlainText(file.body);
+
+  return {
+    id: `${file.type}/${file.locale}/${slug}`,
+    type: file.type,
+    locale: file.locale,
+    slug,
+    title,
+    description,
+    content,
+    tags,
+    categories,
+    publishedAt: asString(frontmatter.publishedAt),
+    href: getSearchDocumentHref(file.type, slug),
+    filePath: file.filePath,
+    terms: {
+      title: tokenizeForIndex(title),
+      tags: tokenizeForIndex([...tags, ...categories].join(' ')),
+      body: tokenizeForIndex(`${description} ${content}`),
+    },
+  };
+}
+
+/**
+ * Documents ordered by type, then slug, so regenerating is diff-stable
+ */
+export function sortSearchDocuments(
+  documents: SearchDocument[],
+): SearchDocument[] {
+  return [...documents].sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,38 @@
+/**
+ * Site Search Module
+ * Full-text search across posts, products and pages
+ */
+
+export {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+} from '@/lib/search/constants';
+
+export {
+  SEARCHABLE_CONTENT_TYPES,
+  buildSearchHighlights,
+  isSiteSearchEnabled,
+  searchDocuments,
+  searchSite,
+} from '@/lib/search/search';
+
+export {
+  splitHighlightParts,
+  type HighlightPart,
+} from '@/lib/search/highlight';
+
+export {
+  normalizeSearchText,
+  tokenizeForIndex,
+  tokenizeQuery,
+} from '@/lib/search/tokenize';
+
+export type {
+  SearchDocument,
+  SearchDocumentTerms,
+  SearchIndex,
+  SiteSearchOptions,
+  SiteSearchResponse,
+  SiteSearchResult,
+} from '@/lib/search/types';
@@ -0,0 +1,213 @@
+/**
+ * Site Search
+ *
+ * Ranks documents of the per-locale index generated by
+ * `pnpm content:manifest`. Each query term scores where it matches: title
+ * 10, tags and categories 5, body 1 per occurrence (up to 5). Latin terms
+ * also match as a prefix (`pump` finds `pumps`) at half weight. The total is
+ * scaled by the share of query terms that matched; documents matching fewer
+ * than half of the terms are dropped.
+ */
+
+import type { ContentType, Locale } from '@/types/content.types';
+import { CONTENT_SEARCH_INDEX } from '@/lib/content-search-index.generated';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+} from '@/lib/search/constants';
+import {
+  isCjkTerm,
+  normalizeSearchText,
+  tokenizeQuery,
+} from '@/lib/search/tokenize';
+import type {
+  SearchDocument,
+  SiteSearchOptions,
+  SiteSearchResponse,
+  SiteSearchResult,
+} from '@/lib/search/types';
+
+const FIELD_WEIGHTS = { title: 10, tags: 5, body: 1 } as const;
+const PREFIX_MATCH_FACTOR = 0.5;
+const MAX_BODY_OCCURRENCES = 5;
+const MIN_TERM_COVERAGE = 0.5;
+const SCORE_PRECISION = 100;
+
+/** Characters of context around a match; CJK text packs a word per character */
+const SNIPPET_WINDOW = { before: 60, after: 100 } as const;
+const CJK_SNIPPET_WINDOW = { before: 24, after: 48 } as const;
+const MAX_HIGHLIGHTS = 3;
+const ELLIPSIS = '…';
+
+function matchFactor(fieldTerms: string[], term: string): number {
+  if (fieldTerms.includes(term)) return 1;
+  if (isCjkTerm(term)) return 0;
+  return fieldTerms.some((fieldTerm) => fieldTerm.startsWith(term))
+    ? PREFIX_MATCH_FACTOR
+    : 0;
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1 && count < MAX_BODY_OCCURRENCES) {
+    count += 1;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+function scoreDocument(document: SearchDocument, terms: string[]): number {
+  const bodyText = normalizeSearchText(
+    `${document.description} ${document.content}`,
+  );
+  let total = 0;
+  let matched = 0;
+
+  for (const term of terms) {
+    const bodyFactor = matchFactor(document.terms.body, term);
+    const termScore =
+      matchFactor(document.terms.title, term) * FIELD_WEIGHTS.title +
+      matchFactor(document.terms.tags, term) * FIELD_WEIGHTS.tags +
+      (bodyFactor > 0
+        ? bodyFactor *
+          FIELD_WEIGHTS.body *
+          Math.max(1, countOccurrences(bodyText, term))
+        : 0);
+    if (termScore > 0) {
+      matched += 1;
+      total += termScore;
+    }
+  }
+
+  const coverage = matched / terms.length;
+  return coverage < MIN_TERM_COVERAGE ? 0 : total * coverage;
+}
+
+/**
+ * Body snippets around the first match of each term, in text order
+ * Falls back to the description when only the title or tags matched.
+ */
+export function buildSearchHighlights(
+  document: Pick<SearchDocument, 'content' | 'description'>,
+  terms: string[],
+): string[] {
+  const text = document.content;
+  const lowerText = text.toLowerCase();
+  const matches = terms
+    .map((term) => ({ term, position: lowerText.indexOf(term) }))
+    .filter(({ position }) => position >= 0)
+    .sort((a, b) => a.position - b.position);
+
+  const snippets: string[] = [];
+  let coveredUntil = -1;
+  for (const { term, position } of matches) {
+    if (position < coveredUntil) continue;
+    const window = isCjkTerm(term) ? CJK_SNIPPET_WINDOW : SNIPPET_WINDOW;
+    const start = Math.max(0, position - window.before);
+    const end = Math.min(text.length, position + window.after);
+    snippets.push(
+      `${start > 0 ? ELLIPSIS : ''}${text.slice(start, end).trim()}${end < text.length ? ELLIPSIS : ''}`,
+    );
+    coveredUntil = end;
+    if (snippets.length === MAX_HIGHLIGHTS) break;
+  }
+
+  if (snippets.length === 0 && document.description) {
+    return [document.description];
+  }
+  return snippets;
+}
+
+function toSearchResult(
+  document: SearchDocument,
+  score: number,
+  terms: string[],
+): SiteSearchResult {
+  return {
+    type: document.type,
+    locale: document.locale,
+    href: document.href,
+    score: Math.round(score * SCORE_PRECISION) / SCORE_PRECISION,
+    highlights: buildSearchHighlights(document, terms),
+    content: {
+      metadata: {
+        title: document.title,
+        description: document.description,
+        slug: document.slug,
+        publishedAt: document.publishedAt,
+        tags: document.tags,
+        categories: document.categories,
+      },
+      content: document.content,
+      excerpt: document.description,
+      slug: document.slug,
+      filePath: document.filePath,
+    },
+  };
+}
+
+function clampLimit(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_SEARCH_LIMIT;
+  }
+  return Math.min(Math.max(Math.trunc(limit), 1), MAX_SEARCH_LIMIT);
+}
+
+/**
+ * Rank documents for a query, best match first
+ * Ties go to the most recently published document.
+ */
+export function searchDocuments(
+  documents: SearchDocument[],
+  query: string,
+  options: SiteSearchOptions = {},
+): SiteSearchResponse {
+  const trimmed = query.trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+  const terms = tokenizeQuery(trimmed);
+  if (terms.length === 0) {
+    return { query: trimmed, terms, total: 0, results: [] };
+  }
+
+  const ranked = documents
+    .filter((document) => !options.type || document.type === options.type)
+    .map((document) => ({ document, score: scoreDocument(document, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.document.publishedAt.localeCompare(a.document.publishedAt),
+    );
+
+  return {
+    query: trimmed,
+    terms,
+    total: ranked.length,
+    results: ranked
+      .slice(0, clampLimit(options.limit))
+      .map(({ document, score }) => toSearchResult(document, score, terms)),
+  };
+}
+
+/**
+ * Search posts, pages and products of one locale
+ */
+export function searchSite(
+  query: string,
+  locale: Locale,
+  options: SiteSearchOptions = {},
+): SiteSearchResponse {
+  // eslint-disable-next-line security/detect-object-injection -- locale is a Locale literal
+  return searchDocuments(CONTENT_SEARCH_INDEX.locales[locale], query, options);
+}
+
+export function isSiteSearchEnabled(): boolean {
+  return CONTENT_SEARCH_INDEX.enabled;
+}
+
+export const SEARCHABLE_CONTENT_TYPES: readonly ContentType[] = [
+  'posts',
+  'products',
+  'pages',
+];
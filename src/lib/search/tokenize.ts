@@ -0,0 +1,80 @@
+/**
+ * Search Tokenizer
+ *
+ * Shared by the index generator and query parsing so both sides agree on
+ * terms. Latin text is lowercased and split on anything that is not a
+ * letter or digit. Chinese (and Japanese) text has no spaces between words,
+ * so each CJK run becomes overlapping bigrams (`产品目录` → `产品`, `品目`,
+ * `目录`), which matches any two-character word without a dictionary.
+ */
+
+const CJK_RUN_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+const CJK_CHAR_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const SEPARATOR_PATTERN = /[^\p{L}\p{N}]+/u;
+const DIGIT_PATTERN = /\d/;
+
+/** Single Latin letters are too common to be useful search terms */
+const MIN_WORD_LENGTH = 2;
+
+/**
+ * Case- and width-fold text for matching (`Ｐｕｍｐ` → `pump`)
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+export function isCjkTerm(term: string): boolean {
+  return CJK_CHAR_PATTERN.test(term);
+}
+
+/** Latin words and whole CJK runs, in order */
+function splitSegments(text: string): string[] {
+  return normalizeSearchText(text)
+    .replace(CJK_RUN_PATTERN, ' $& ')
+    .split(SEPARATOR_PATTERN)
+    .filter(Boolean);
+}
+
+function cjkBigrams(run: string): string[] {
+  const bigrams: string[] = [];
+  let previous = '';
+  for (const char of run) {
+    if (previous) bigrams.push(`${previous}${char}`);
+    previous = char;
+  }
+  return bigrams.length > 0 ? bigrams : [run];
+}
+
+function isUsefulWord(word: string): boolean {
+  return word.length >= MIN_WORD_LENGTH || DIGIT_PATTERN.test(word);
+}
+
+/**
+ * Terms of a search query, in query order and without duplicates
+ */
+export function tokenizeQuery(query: string): string[] {
+  const terms = splitSegments(query).flatMap((segment) => {
+    if (isCjkTerm(segment)) return cjkBigrams(segment);
+    return isUsefulWord(segment) ? [segment] : [];
+  });
+  return [...new Set(terms)];
+}
+
+/**
+ * Unique terms stored in the index for a piece of text
+ * Single CJK characters are kept too, so one-character queries match.
+ */
+export function tokenizeForIndex(text: string): string[] {
+  const terms = new Set<string>();
+  for (const segment of splitSegments(text)) {
+    if (isCjkTerm(segment)) {
+      for (const char of segment) terms.add(char);
+      for (const bigram of cjkBigrams(segment)) terms.add(bigram);
+    } else if (isUsefulWord(segment)) {
+      terms.add(segment);
+    }
+  }
+  return [...terms];
+}
@@ -0,0 +1,64 @@
+/**
+ * Site Search Type Definitions
+ */
+
+import type {
+  ContentIndex,
+  ContentSearchResult,
+  ContentType,
+  Locale,
+} from '@/types/content.types';
+
+/**
+ * Tokenized fields of a document, ranked title > tags > body
+ */
+export interface SearchDocumentTerms {
+  title: string[];
+  /** Tags and categories */
+  tags: string[];
+  /** Description and body text */
+  body: string[];
+}
+
+/**
+ * One post, page or product in the generated search index
+ * `content` is the body as plain text, without MDX markup.
+ */
+export interface SearchDocument extends ContentIndex {
+  slug: string;
+  description: string;
+  /** Path without the locale prefix, e.g. `/blog/welcome` */
+  href: string;
+  filePath: string;
+  terms: SearchDocumentTerms;
+}
+
+/**
+ * Output of `pnpm content:manifest`
+ */
+export interface SearchIndex {
+  /** `enableSearch` from content/config/content.json */
+  enabled: boolean;
+  locales: Record<Locale, SearchDocument[]>;
+}
+
+export interface SiteSearchOptions {
+  /** Only return this content type */
+  type?: ContentType;
+  limit?: number;
+}
+
+export interface SiteSearchResult extends ContentSearchResult {
+  type: ContentType;
+  locale: Locale;
+  href: string;
+}
+
+export interface SiteSearchResponse {
+  query: string;
+  /** Query terms, for highlighting matches in titles and snippets */
+  terms: string[];
+  /** Matches before `limit` was applied */
+  total: number;
+  results: SiteSearchResult[];
+}
@@ -2,16 +2,19 @@ import {
   BYTES_PER_KB,
   COUNT_PAIR,
   COUNT_TEN,
-  HEX_BYTE_MAX,
+  HEX_GIF_SIGNATURE_1,
+  HEX_GIF_SIGNATURE_2,
+  HEX_GIF_SIGNATURE_3,
   HEX_JPEG_MARKER_1,
+  HEX_JPEG_SOI,
   HEX_PDF_MARKER,
   HEX_PDF_SIGNATURE_1,
+  HEX_PDF_SIGNATURE_2,
+  HEX_PDF_SIGNATURE_3,
   HEX_PNG_SIGNATURE_1,
   HEX_PNG_SIGNATURE_2,
   HEX_PNG_SIGNATURE_3,
   HEX_PNG_SIGNATURE_4,
-  HEX_PNG_SIGNATURE_5,
-  HEX_PNG_SIGNATURE_6,
   HEX_ZIP_SIGNATURE,
   MAGIC_255,
   MAGIC_HEX_03,
@@ -252,7 +255,7 @@ export async function validateFileSignature(
     const expectedSignature = (() => {
       switch (declaredType) {
         case 'image/jpeg':
-          return [HEX_BYTE_MAX, HEX_JPEG_MARKER_1, HEX_BYTE_MAX] as const;
+          return [HEX_JPEG_MARKER_1, HEX_JPEG_SOI, HEX_JPEG_MARKER_1] as const;
         case 'image/png':
           return [
             HEX_PNG_SIGNATURE_1,
@@ -262,16 +265,16 @@ export async function validateFileSignature(
           ] as const;
         case 'image/gif':
           return [
-            HEX_PNG_SIGNATURE_4,
-            HEX_PNG_SIGNATURE_5,
-            HEX_PNG_SIGNATURE_6,
+            HEX_GIF_SIGNATURE_1,
+            HEX_GIF_SIGNATURE_2,
+            HEX_GIF_SIGNATURE_3,
           ] as const;
         case 'application/pdf':
           return [
             HEX_PDF_MARKER,
-            HEX_PNG_SIGNATURE_2,
             HEX_PDF_SIGNATURE_1,
-            HEX_PNG_SIGNATURE_6,
+            HEX_PDF_SIGNATURE_2,
+            HEX_PDF_SIGNATURE_3,
           ] as const;
         case 'application/zip':
           return [
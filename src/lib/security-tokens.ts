@@ -1,3 +1,4 @@
+import { generateHMAC, verifyHMAC } from '@/lib/security-crypto';
 import {
   ANIMATION_DURATION_VERY_SLOW,
   COUNT_PAIR,
@@ -248,3 +249,68 @@ export function createTokenWithExpiry(
 export function isTokenExpired(tokenWithExpiry: TokenWithExpiry): boolean {
   return Date.now() > tokenWithExpiry.expiresAt;
 }
+
+/**
+ * Signed token utilities
+ * Stateless tokens for links sent by email (e.g. newsletter confirmation):
+ * `<base64url JSON payload>.<HMAC-SHA256 hex signature>`
+ */
+export interface SignedTokenPayload {
+  /** Expiry as epoch ms; tokens without it never expire */
+  exp?: number;
+  [key: string]: unknown;
+}
+
+function encodeBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    '',
+  );
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(ZERO));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Create a signed token carrying a JSON payload
+ */
+export async function createSignedToken(
+  payload: SignedTokenPayload,
+  secret: string,
+): Promise<string> {
+  const encoded = encodeBase64Url(JSON.stringify(payload));
+  const signature = await generateHMAC(encoded, secret);
+  return `${encoded}.${signature}`;
+}
+
+/**
+ * Verify a signed token and return its payload
+ *
+ * @returns null when the token is malformed, tampered with or expired
+ */
+export async function verifySignedToken<
+  T extends SignedTokenPayload = SignedTokenPayload,
+>(token: string, secret: string, now: number = Date.now()): Promise<T | null> {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > ZERO) return null;
+
+  const valid = await verifyHMAC({ data: encoded, signature, secret });
+  if (!valid) return null;
+
+  try {
+    const payload = JSON.parse(decodeBase64Url(encoded)) as T;
+    if (typeof payload !== 'object' || payload === null) return null;
+    if (typeof payload.exp === 'number' && payload.exp < now) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -7,7 +7,9 @@
  */
 
 import { logger } from '@/lib/logger';
+import { getRedisRestConfig } from '@/lib/redis-rest';
 import {
+  COUNT_30,
   COUNT_FIVE,
   COUNT_PAIR,
   COUNT_TEN,
@@ -23,6 +25,11 @@ export const RATE_LIMIT_PRESETS = {
   inquiry: { maxRequests: COUNT_TEN, windowMs: MINUTE_MS },
   subscribe: { maxRequests: COUNT_THREE, windowMs: MINUTE_MS },
   whatsapp: { maxRequests: COUNT_FIVE, windowMs: MINUTE_MS },
+  // Signed newsletter links (confirm / unsubscribe); one-click unsubscribes
+  // with a valid token skip it, as mailbox providers send them from shared IPs
+  newsletter: { maxRequests: COUNT_30, windowMs: MINUTE_MS },
+  // Public site search; the search box sends one request per submit
+  search: { maxRequests: 60, windowMs: MINUTE_MS },
   csp: { maxRequests: 100, windowMs: MINUTE_MS },
   cacheInvalidate: { maxRequests: COUNT_TEN, windowMs: MINUTE_MS },
   // Pre-auth rate limit for brute force protection (more aggressive)
@@ -298,26 +305,29 @@ class KVRateLimitStore implements RateLimitStore {
   }
 }
 
+export type RateLimitStoreKind = 'upstash' | 'kv' | 'memory';
+
+/**
+ * Rate limit store selected by the environment
+ * Only `upstash` and `kv` share limits across serverless instances.
+ */
+export function getRateLimitStoreKind(): RateLimitStoreKind {
+  return getRedisRestConfig()?.provider ?? 'memory';
+}
+
 /**
  * Create the appropriate rate limit store based on available configuration
  */
 function createRateLimitStore(): RateLimitStore {
-  const upstashUrl = process.env.UPSTASH_REDIS_REST_URL;
-  const upstashToken = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-  if (upstashUrl && upstashToken) {
+  const redis = getRedisRestConfig();
+  if (redis?.provider === 'upstash') {
     logger.info('[Rate Limit] Using Upstash Redis store');
-    return new RedisRateLimitStore(upstashUrl, upstashToken);
+    return new RedisRateLimitStore(redis.url, redis.token);
   }
-
-  const kvUrl = process.env.KV_REST_API_URL;
-  const kvToken = process.env.KV_REST_API_TOKEN;
-
-  if (kvUrl && kvToken) {
+  if (redis?.provider === 'kv') {
     logger.info('[Rate Limit] Using Vercel KV store');
-    return new KVRateLimitStore(kvUrl, kvToken);
+    return new KVRateLimitStore(redis.url, redis.token);
   }
-
   return new MemoryRateLimitStore();
 }
 
@@ -346,6 +356,10 @@ function getRateLimitConfig(preset: RateLimitPreset): {
       return RATE_LIMIT_PRESETS.subscribe;
     case 'whatsapp':
       return RATE_LIMIT_PRESETS.whatsapp;
+    case 'newsletter':
+      return RATE_LIMIT_PRESETS.newsletter;
+    case 'search':
+      return RATE_LIMIT_PRESETS.search;
     case 'csp':
       return RATE_LIMIT_PRESETS.csp;
     case 'cacheInvalidate':
@@ -1,6 +1,7 @@
 import type { Metadata } from 'next';
 import enCritical from '@messages/en/critical.json';
 import zhCritical from '@messages/zh/critical.json';
+import { getPaginatedPath } from '@/lib/pagination';
 import { SITE_CONFIG, type Locale, type PageType } from '@/config/paths';
 import { ONE } from '@/constants';
 import { routing } from '@/i18n/routing-config';
@@ -66,20 +67,25 @@ function buildCanonicalForPath(locale: Locale, path: string): string {
   ).toString();
 }
 
-function buildLanguagesForPath(path: string): Record<string, string> {
+function buildLanguagesForPath(
+  path: string,
+  locales: readonly Locale[] = routing.locales,
+): Record<string, string> {
   const normalizedPath = normalizePath(path);
 
-  const entries: Array<[string, string]> = routing.locales.map((locale) => [
+  const entries: Array<[string, string]> = locales.map((locale) => [
     locale,
     new URL(`/${locale}${normalizedPath}`, SITE_CONFIG.baseUrl).toString(),
   ]);
-  entries.push([
-    'x-default',
-    new URL(
-      `/${routing.defaultLocale}${normalizedPath}`,
-      SITE_CONFIG.baseUrl,
-    ).toString(),
-  ]);
+  if (locales.includes(routing.defaultLocale)) {
+    entries.push([
+      'x-default',
+      new URL(
+        `/${routing.defaultLocale}${normalizedPath}`,
+        SITE_CONFIG.baseUrl,
+      ).toString(),
+    ]);
+  }
 
   return Object.fromEntries(entries);
 }
@@ -300,24 +306,67 @@ interface GenerateMetadataForPathParams {
   pageType: PageType;
   path: string;
   config?: Partial<SEOConfig>;
+  /** Locales that serve `path`; defaults to all locales */
+  locales?: readonly Locale[];
+  /**
+   * Page-number listings: `path` is the first page, canonical/hreflang point
+   * at `{path}/page/{currentPage}` and `rel=prev/next` link the neighbours.
+   */
+  pagination?: MetadataPagination;
+}
+
+export interface MetadataPagination {
+  currentPage: number;
+  totalPages: number;
+}
+
+function buildPaginationLinks(
+  locale: Locale,
+  path: string,
+  { currentPage, totalPages }: MetadataPagination,
+): NonNullable<Metadata['pagination']> {
+  return {
+    previous:
+      currentPage > ONE
+        ? buildCanonicalForPath(
+            locale,
+            getPaginatedPath(path, currentPage - ONE),
+          )
+        : null,
+    next:
+      currentPage < totalPages
+        ? buildCanonicalForPath(
+            locale,
+            getPaginatedPath(path, currentPage + ONE),
+          )
+        : null,
+  };
 }
 
 export function generateMetadataForPath(
   params: GenerateMetadataForPathParams,
 ): Metadata {
-  const { locale, pageType, path, config } = params;
+  const { locale, pageType, path, config, locales, pagination } = params;
 
   const seoConfig = createPageSEOConfig(pageType, config ?? {});
   const metadata = generateLocalizedMetadata(locale, pageType, seoConfig);
 
-  const canonical = buildCanonicalForPath(locale, path);
-  const languages = buildLanguagesForPath(path);
+  const pagePath =
+    pagination === undefined
+      ? path
+      : getPaginatedPath(path, pagination.currentPage);
+  const canonical = buildCanonicalForPath(locale, pagePath);
+  const languages = buildLanguagesForPath(pagePath, locales);
 
   metadata.alternates = {
     canonical,
     languages,
   };
 
+  if (pagination !== undefined) {
+    metadata.pagination = buildPaginationLinks(locale, path, pagination);
+  }
+
   const { openGraph } = metadata;
   if (openGraph && typeof openGraph === 'object') {
     (openGraph as { url?: string | URL }).url = canonical;
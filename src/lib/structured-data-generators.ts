@@ -2,6 +2,7 @@ import { getTranslations } from 'next-intl/server';
 import type {
   ArticleData,
   BreadcrumbData,
+  CollectionPageData,
   Locale,
   OrganizationData,
   ProductData,
@@ -202,3 +203,34 @@ export function generateBreadcrumbData(data: BreadcrumbData) {
     // 移除 ...data 扩展运算符，只使用已验证的属性
   };
 }
+
+/**
+ * 生成集合页（归档/列表页）结构化数据
+ */
+export function generateCollectionPageData(
+  locale: Locale,
+  data: CollectionPageData,
+) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CollectionPage',
+    'name': data.name,
+    'description': data.description,
+    'url': data.url,
+    'inLanguage': locale,
+    'isPartOf': {
+      '@type': 'WebSite',
+      'url': DEFAULT_BASE_URL,
+    },
+    'mainEntity': {
+      '@type': 'ItemList',
+      'numberOfItems': data.items.length,
+      'itemListElement': data.items.map((item, index) => ({
+        '@type': 'ListItem',
+        'position': item.position || index + 1,
+        'name': item.name,
+        'url': item.url,
+      })),
+    },
+  };
+}
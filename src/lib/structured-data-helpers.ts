@@ -3,6 +3,7 @@ import { I18nPerformanceMonitor } from '@/lib/i18n-performance';
 import {
   generateArticleData,
   generateBreadcrumbData,
+  generateCollectionPageData,
   generateOrganizationData,
   generateProductData,
   generateWebSiteData,
@@ -10,6 +11,7 @@ import {
 import type {
   ArticleData,
   BreadcrumbData,
+  CollectionPageData,
   Locale,
   OrganizationData,
   ProductData,
@@ -209,7 +211,13 @@ export function generateLocalBusinessSchema(
  */
 export async function generateLocalizedStructuredData(
   locale: Locale,
-  type: 'Organization' | 'WebSite' | 'Article' | 'Product' | 'BreadcrumbList',
+  type:
+    | 'Organization'
+    | 'WebSite'
+    | 'Article'
+    | 'Product'
+    | 'BreadcrumbList'
+    | 'CollectionPage',
   data: unknown,
 ): Promise<Record<string, unknown>> {
   try {
@@ -230,6 +238,8 @@ export async function generateLocalizedStructuredData(
         return generateProductData(t, data as ProductData);
       case 'BreadcrumbList':
         return generateBreadcrumbData(data as BreadcrumbData);
+      case 'CollectionPage':
+        return generateCollectionPageData(locale, data as CollectionPageData);
       default:
         // 对于未知类型，返回基础结构而不使用扩展运算符
         return {
@@ -49,10 +49,22 @@ export interface BreadcrumbData {
   }>;
 }
 
+export interface CollectionPageData {
+  name: string;
+  description: string;
+  url: string;
+  items: Array<{
+    name: string;
+    url: string;
+    position?: number;
+  }>;
+}
+
 // 联合类型定义
 export type StructuredDataType =
   | OrganizationData
   | WebSiteData
   | ArticleData
   | ProductData
-  | BreadcrumbData;
+  | BreadcrumbData
+  | CollectionPageData;
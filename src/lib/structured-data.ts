@@ -3,6 +3,7 @@ import { I18nPerformanceMonitor } from '@/lib/i18n-performance';
 import {
   generateArticleData,
   generateBreadcrumbData,
+  generateCollectionPageData,
   generateOrganizationData,
   generateProductData,
   generateWebSiteData,
@@ -14,6 +15,7 @@ import {
 import type {
   ArticleData,
   BreadcrumbData,
+  CollectionPageData,
   Locale,
   OrganizationData,
   ProductData,
@@ -32,7 +34,13 @@ export type { Locale } from '@/lib/structured-data-types';
  */
 export async function generateLocalizedStructuredData(
   locale: Locale,
-  type: 'Organization' | 'WebSite' | 'Article' | 'Product' | 'BreadcrumbList',
+  type:
+    | 'Organization'
+    | 'WebSite'
+    | 'Article'
+    | 'Product'
+    | 'BreadcrumbList'
+    | 'CollectionPage',
   data: StructuredDataType,
 ): Promise<Record<string, unknown>> {
   try {
@@ -50,6 +58,8 @@ export async function generateLocalizedStructuredData(
         return generateProductData(t, data as ProductData);
       case 'BreadcrumbList':
         return generateBreadcrumbData(data as BreadcrumbData);
+      case 'CollectionPage':
+        return generateCollectionPageData(locale, data as CollectionPageData);
       default:
         // 对于未知类型，返回基础结构而不使用扩展运算符
         return {
@@ -3,9 +3,11 @@ import {
   contactFormSchema,
   type ContactFormData,
 } from '@/lib/form-schema/contact-form-schema';
+import { leadAttributionSchema } from '@/lib/lead-pipeline/attribution';
 import { sanitizePlainText } from '@/lib/security-validation';
 import { CONTACT_FORM_VALIDATION_CONSTANTS } from '@/config/contact-form-config';
 import { COUNT_FIVE, COUNT_TEN, ZERO } from '@/constants';
+import { routing } from '@/i18n/routing-config';
 
 export { contactFormSchema };
 export type { ContactFormData };
@@ -50,6 +52,18 @@ export const airtableRecordSchema = z.object({
 
 export type AirtableRecord = z.infer<typeof airtableRecordSchema>;
 
+/**
+ * Repeat submission listed in a consolidated notification email
+ */
+export const leadActivityEmailSchema = z.object({
+  referenceId: z.string(),
+  leadType: z.string(),
+  submittedAt: z.string(),
+  summary: z.string(),
+});
+
+export type LeadActivityEmailData = z.infer<typeof leadActivityEmailSchema>;
+
 /**
  * 邮件模板数据验证模式
  * Email template data validation schema
@@ -74,6 +88,8 @@ export const emailTemplateDataSchema = z.object({
   subject: z.string().optional(),
   submittedAt: z.string(),
   marketingConsent: z.boolean().optional(),
+  attribution: leadAttributionSchema.optional(),
+  activities: z.array(leadActivityEmailSchema).optional(),
 
   // Honeypot field - should remain empty
   website: z
@@ -97,12 +113,30 @@ export const productInquiryEmailDataSchema = z.object({
   quantity: z.union([z.string(), z.number()]),
   requirements: z.string().optional(),
   marketingConsent: z.boolean().optional(),
+  attribution: leadAttributionSchema.optional(),
+  activities: z.array(leadActivityEmailSchema).optional(),
 });
 
 export type ProductInquiryEmailData = z.infer<
   typeof productInquiryEmailDataSchema
 >;
 
+/**
+ * Newsletter double opt-in email data validation schema
+ */
+export const newsletterConfirmationEmailDataSchema = z.object({
+  email: z.string().email(),
+  confirmUrl: z.string().url(),
+  preferencesUrl: z.string().url(),
+  unsubscribeUrl: z.string().url(),
+  /** Signup locale, used for the email copy */
+  locale: z.enum(routing.locales).optional(),
+});
+
+export type NewsletterConfirmationEmailData = z.infer<
+  typeof newsletterConfirmationEmailDataSchema
+>;
+
 /**
  * 表单验证错误类型
  * Form validation error types
@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * Click-to-WhatsApp Utility
+ * Builds chat links with a prefilled message, appends marketing attribution
+ * as a reference line, and reports chat starts as a GA4 conversion event.
+ *
+ * Product pages register their prefilled message so the floating button
+ * opens the chat with the same product context as the "Ask on WhatsApp"
+ * action.
+ */
+import type { AttributionData } from '@/lib/utm';
+
+export const WHATSAPP_CLICK_EVENT = 'whatsapp_click';
+
+export const WHATSAPP_CLICK_SOURCES = {
+  FLOATING_BUTTON: 'floating_button',
+  PRODUCT_ACTIONS: 'product_actions',
+} as const;
+
+export type WhatsAppClickSource =
+  (typeof WHATSAPP_CLICK_SOURCES)[keyof typeof WHATSAPP_CLICK_SOURCES];
+
+export interface WhatsAppProductChat {
+  productSlug: string;
+  /** Localized message mentioning the product name, slug and page */
+  message: string;
+}
+
+/** Attribution fields in the order they appear in the reference line */
+const ATTRIBUTION_PARAMS: ReadonlyArray<[keyof AttributionData, string]> = [
+  ['utmSource', 'utm_source'],
+  ['utmMedium', 'utm_medium'],
+  ['utmCampaign', 'utm_campaign'],
+  ['utmTerm', 'utm_term'],
+  ['utmContent', 'utm_content'],
+  ['gclid', 'gclid'],
+  ['fbclid', 'fbclid'],
+  ['msclkid', 'msclkid'],
+];
+
+export function normalizeWhatsAppNumber(value: string): string | null {
+  const digits = value.replace(/[^0-9]/g, '');
+  return digits || null;
+}
+
+/**
+ * Generate device-aware WhatsApp URL
+ * Desktop: web.whatsapp.com
+ * Mobile: native deep link (whatsapp://send)
+ */
+export function getWhatsAppChatUrl(phone: string, message: string): string {
+  const text = encodeURIComponent(message);
+  const isMobile =
+    typeof navigator !== 'undefined' &&
+    /iPhone|iPad|Android/i.test(navigator.userAgent);
+
+  return isMobile
+    ? `whatsapp://send?phone=${phone}&text=${text}`
+    : `https://web.whatsapp.com/send?phone=${phone}&text=${text}`;
+}
+
+/**
+ * Append attribution as a `ref:` line, e.g.
+ * `ref: utm_source=google&utm_campaign=spring`
+ *
+ * Values come from `getAttributionAsObject()`, which only keeps
+ * alphanumeric, underscore and hyphen characters.
+ */
+export function appendAttributionReference(
+  message: string,
+  attribution: AttributionData,
+): string {
+  const pairs = ATTRIBUTION_PARAMS.flatMap(([field, param]) => {
+    // eslint-disable-next-line security/detect-object-injection -- field comes from the constant list above
+    const value = attribution[field];
+    return value ? [`${param}=${value}`] : [];
+  });
+  if (pairs.length === 0) return message;
+  return `${message}\n\nref: ${pairs.join('&')}`;
+}
+
+/**
+ * Report a chat start to GA4
+ *
+ * gtag only exists once analytics consent is given, so nothing is sent
+ * without it.
+ */
+export function trackWhatsAppClick(
+  source: WhatsAppClickSource,
+  productSlug?: string,
+): void {
+  if (typeof window === 'undefined' || typeof window.gtag !== 'function') {
+    return;
+  }
+  window.gtag('event', WHATSAPP_CLICK_EVENT, {
+    event_category: 'lead',
+    event_label: productSlug ?? window.location.pathname,
+    source,
+    ...(productSlug !== undefined && { product_slug: productSlug }),
+  });
+}
+
+// ==================== Active Product Chat ====================
+
+let activeProductChat: WhatsAppProductChat | null = null;
+const listeners = new Set<() => void>();
+
+export function setActiveWhatsAppProductChat(
+  chat: WhatsAppProductChat | null,
+): void {
+  activeProductChat = chat;
+  listeners.forEach((listener) => listener());
+}
+
+export function getActiveWhatsAppProductChat(): WhatsAppProductChat | null {
+  return activeProductChat;
+}
+
+export function subscribeActiveWhatsAppProductChat(
+  listener: () => void,
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -3,13 +3,29 @@
  * 提供媒体文件上传、下载和管理功能
  */
 
+import {
+  WhatsAppApiError,
+  WhatsAppNetworkError,
+} from '@/types/whatsapp-service-errors';
 import { logger } from '@/lib/logger';
+import { getGraphApiBaseUrl } from '@/lib/whatsapp/graph-api';
+
+/**
+ * Cloud API 返回的媒体文件信息
+ */
+export interface WhatsAppMediaInfo {
+  id: string;
+  url?: string;
+  mime_type?: string;
+  sha256?: string;
+  file_size?: number;
+}
 
 /**
  * WhatsApp 媒体处理类
  */
 export class WhatsAppMediaService {
-  private readonly baseUrl = 'https://graph.facebook.com/v18.0';
+  private readonly baseUrl = getGraphApiBaseUrl();
   private readonly accessToken: string;
   private readonly phoneNumberId: string;
 
@@ -153,26 +169,9 @@ export class WhatsAppMediaService {
   /**
    * 获取媒体文件信息
    */
-  async getMediaInfo(mediaId: string): Promise<{
-    id: string;
-    url?: string;
-    mime_type?: string;
-    sha256?: string;
-    file_size?: number;
-  } | null> {
+  async getMediaInfo(mediaId: string): Promise<WhatsAppMediaInfo | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/${mediaId}`, {
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to get media info');
-      }
-
-      const data = await response.json();
-      return data;
+      return await this.fetchMediaInfo(mediaId);
     } catch (error) {
       logger.error(
         'Error getting media info',
@@ -182,4 +181,52 @@ export class WhatsAppMediaService {
       return null;
     }
   }
+
+  /**
+   * 获取媒体文件信息，失败时抛出错误
+   * 网络错误抛出 WhatsAppNetworkError，非 2xx 响应抛出带状态码的
+   * WhatsAppApiError，调用方可用 isRetryable() 区分临时故障和永久失败
+   */
+  async fetchMediaInfo(mediaId: string): Promise<WhatsAppMediaInfo> {
+    const response = await this.authorizedGet(
+      `${this.baseUrl}/${mediaId}`,
+      'Failed to get media info',
+    );
+    return (await response.json()) as WhatsAppMediaInfo;
+  }
+
+  /**
+   * 从 fetchMediaInfo 返回的 URL 下载媒体文件，失败时抛出错误
+   */
+  async fetchMediaData(mediaUrl: string): Promise<Buffer> {
+    const response = await this.authorizedGet(
+      mediaUrl,
+      'Failed to download media',
+    );
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private async authorizedGet(
+    url: string,
+    failureMessage: string,
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+        },
+      });
+    } catch (error) {
+      throw new WhatsAppNetworkError(
+        failureMessage,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+
+    if (!response.ok) {
+      throw new WhatsAppApiError(failureMessage, response.status);
+    }
+    return response;
+  }
 }
@@ -11,12 +11,13 @@ import type {
   WhatsAppServiceResponse,
 } from '@/types/whatsapp';
 import { logger } from '@/lib/logger';
+import { getGraphApiBaseUrl } from '@/lib/whatsapp/graph-api';
 
 /**
  * WhatsApp 消息发送类
  */
 export class WhatsAppMessageService {
-  private readonly baseUrl = 'https://graph.facebook.com/v18.0';
+  private readonly baseUrl = getGraphApiBaseUrl();
   private readonly accessToken: string;
   private readonly phoneNumberId: string;
 
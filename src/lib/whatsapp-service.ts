@@ -2,18 +2,29 @@
  * WhatsApp Business API Service - Unified Export Entry Point
  *
  * Provides complete WhatsApp messaging functionality including:
- * - Message sending (text, template, media, interactive)
- * - Webhook handling and auto-reply
+ * - Message sending (text, template, media, interactive), inline or queued
+ * - Webhook batch processing (auto-reply, delivery status tracking)
+ * - Conversation history and agent replies
+ * - Inbound media ingestion
+ * - Service monitoring (Cloud API metrics and health)
  * - Webhook signature verification
  */
 
 import { createHmac, timingSafeEqual } from 'crypto';
-import { z } from 'zod';
 import type { SendMessageRequest } from '@/types/whatsapp';
 import { env } from '@/lib/env';
 import { logger } from '@/lib/logger';
 import { WhatsAppService } from '@/lib/whatsapp-core';
 import { resetWhatsAppClient } from '@/lib/whatsapp/client-factory';
+import { normalizeWebhookEvents } from '@/lib/whatsapp/webhook-events';
+import {
+  dispatchWebhookEvents,
+  type WebhookDispatchSummary,
+} from '@/lib/whatsapp/webhook-processors';
+import {
+  filterReplayedEvents,
+  releaseWebhookEvents,
+} from '@/lib/whatsapp/webhook-replay-guard';
 
 // Re-export core service and client utilities
 export { WhatsAppService } from '@/lib/whatsapp-core';
@@ -33,95 +44,105 @@ export {
   getClientEnvironmentInfo,
 } from '@/lib/whatsapp/client-factory';
 
-// ==================== Webhook Schema ====================
-
-const WhatsAppWebhookSchema = z.object({
-  entry: z
-    .array(
-      z.object({
-        changes: z
-          .array(
-            z.object({
-              value: z.object({
-                messages: z
-                  .array(
-                    z.object({
-                      from: z.string(),
-                      text: z
-                        .object({
-                          body: z.string(),
-                        })
-                        .optional(),
-                    }),
-                  )
-                  .optional(),
-              }),
-            }),
-          )
-          .optional(),
-      }),
-    )
-    .optional(),
-});
-
-// ==================== Webhook Processing ====================
-
-interface IncomingMessage {
-  from: string;
-  text?: { body: string } | undefined;
-}
-
-/**
- * Extract incoming message from webhook payload
- */
-function extractIncomingMessage(body: unknown): IncomingMessage | null {
-  const result = WhatsAppWebhookSchema.safeParse(body);
-
-  if (!result.success) {
-    return null;
-  }
-
-  const entries = result.data.entry;
-  if (!entries || entries.length === 0) {
-    return null;
-  }
-
-  const [firstEntry] = entries;
-  const changes = firstEntry?.changes;
-  if (!changes || changes.length === 0) {
-    return null;
-  }
-
-  const [firstChange] = changes;
-  const messages = firstChange?.value.messages;
-
-  if (!messages || messages.length === 0) {
-    return null;
-  }
-
-  return messages[0] ?? null;
-}
-
-/**
- * Generate auto-reply based on incoming message content
- */
-function generateAutoReply(receivedMessage: string): string {
-  const lowerMessage = receivedMessage.toLowerCase();
-
-  if (lowerMessage.includes('hello') || lowerMessage.includes('hi')) {
-    return 'Hello! Thank you for contacting us. How can we help you today?';
-  }
-
-  if (lowerMessage.includes('help')) {
-    return "We're here to help! Please describe your question or concern.";
-  }
-
-  if (lowerMessage.includes('price') || lowerMessage.includes('cost')) {
-    return 'For pricing information, please visit our website or contact our sales team.';
-  }
-
-  return 'Thank you for your message. Our team will get back to you soon!';
-}
+// Re-export webhook processing and delivery status tracking
+export { normalizeWebhookEvents } from '@/lib/whatsapp/webhook-events';
+export {
+  dispatchWebhookEvents,
+  listWebhookProcessors,
+  registerWebhookProcessor,
+  resetWebhookProcessorRegistry,
+  unregisterWebhookProcessor,
+  WEBHOOK_PROCESSOR_NAMES,
+  type WebhookDispatchSummary,
+} from '@/lib/whatsapp/webhook-processors';
+export {
+  getWebhookGuardStats,
+  resetWebhookGuardStats,
+  WEBHOOK_GUARD_OUTCOMES,
+  type WebhookGuardStats,
+} from '@/lib/whatsapp/webhook-replay-guard';
+export {
+  getWhatsAppDeliveryStatus,
+  recordAcceptedMessage,
+  setWhatsAppDeliveryStore,
+  resetWhatsAppDeliveryStore,
+  type WhatsAppDeliveryRecord,
+  type WhatsAppDeliveryState,
+  type WhatsAppDeliveryStore,
+} from '@/lib/whatsapp/delivery-status';
+export {
+  getAutoReplySessionStore,
+  resetAutoReplySessionStore,
+  setAutoReplySessionStore,
+  type AutoReplySession,
+  type AutoReplySessionStore,
+} from '@/lib/whatsapp/auto-reply-sessions';
+export {
+  getServiceWindow,
+  recordOutboundMessage,
+  replyToConversation,
+  type InboxReply,
+  type InboxReplyResult,
+  type ServiceWindow,
+} from '@/lib/whatsapp/conversations/inbox';
+export {
+  getConversationStore,
+  resetConversationStore,
+  setConversationStore,
+} from '@/lib/whatsapp/conversations/store';
+export type {
+  ConversationMessage,
+  ConversationStore,
+  ConversationSummary,
+  ConversationThread,
+} from '@/lib/whatsapp/conversations/types';
+export {
+  getMediaIngestionLimits,
+  ingestInboundMedia,
+  type MediaIngestionLimits,
+} from '@/lib/whatsapp/media/ingest';
+export {
+  getMediaStorage,
+  resetMediaStorage,
+  setMediaStorage,
+} from '@/lib/whatsapp/media/storage';
+export {
+  isMediaStorageKey,
+  MEDIA_INGESTION_STATUS,
+  type MediaIngestion,
+  type MediaIngestionStatus,
+  type MediaStorageAdapter,
+  type StoredMediaObject,
+} from '@/lib/whatsapp/media/types';
+export {
+  checkWhatsAppServiceHealth,
+  isRateLimitError,
+  probeWhatsAppPhoneNumber,
+  whatsappServiceMonitor,
+  WHATSAPP_CALL_KINDS,
+  type PhoneNumberProbe,
+  type RateLimitStats,
+  type WhatsAppServiceReport,
+} from '@/lib/whatsapp/service-monitor';
+export {
+  drainWhatsAppSendQueue,
+  drainWhatsAppSendQueueSoon,
+  enqueueWhatsAppMessage,
+  getWhatsAppSendJob,
+  resetWhatsAppSendQueueWorker,
+  type SendQueueDrainSummary,
+} from '@/lib/whatsapp/send-queue/queue';
+export {
+  getWhatsAppSendQueueStore,
+  resetWhatsAppSendQueueStore,
+  setWhatsAppSendQueueStore,
+} from '@/lib/whatsapp/send-queue/store';
+export {
+  SEND_JOB_STATUS,
+  type SendJobStatus,
+  type WhatsAppSendJob,
+  type WhatsAppSendQueueStore,
+} from '@/lib/whatsapp/send-queue/types';
 
 // ==================== Unified Service Instance ====================
 
@@ -216,52 +237,37 @@ export function verifyWebhookSignature(
   }
 }
 
+export interface WebhookPayloadSummary extends WebhookDispatchSummary {
+  /** Events already processed from an earlier delivery */
+  duplicates: number;
+  /** Events older than the accepted maximum age */
+  stale: number;
+}
+
 /**
- * Handle incoming WhatsApp message with auto-reply
+ * Process a webhook payload
+ * Every message, status update and error in the batch is normalized into a
+ * typed event; replayed and stale events are dropped and the rest are
+ * dispatched to the registered processors. Events a processor failed on
+ * are released for the retry of the batch.
  */
-export async function handleIncomingMessage(
+export async function processWebhookPayload(
   body: unknown,
-  enableAutoReply: boolean = true,
-): Promise<{ success: boolean; autoReplySent?: boolean }> {
-  try {
-    const message = extractIncomingMessage(body);
-    if (!message) {
-      return { success: true };
-    }
-
-    const { from } = message;
-    const messageBody = message.text?.body;
-
-    logger.info(
-      `[WhatsAppWebhook] Received message from ${from}: ${messageBody?.substring(0, 50)}`,
-    );
-
-    if (enableAutoReply && messageBody) {
-      const replyMessage = generateAutoReply(messageBody);
-      const service = getWhatsAppService();
-
-      const result = await service.sendTextMessage(from, replyMessage);
-
-      if (result.success) {
-        logger.info(`[WhatsAppWebhook] Auto-reply sent to ${from}`);
-        return { success: true, autoReplySent: true };
-      }
-
-      logger.warn(
-        `[WhatsAppWebhook] Failed to send auto-reply: ${result.error}`,
-      );
-      return { success: true, autoReplySent: false };
-    }
-
-    return { success: true };
-  } catch (error) {
-    logger.error(
-      '[WhatsAppWebhook] Failed to handle incoming message',
-      {},
-      error instanceof Error ? error : new Error(String(error)),
-    );
-    throw error;
+): Promise<WebhookPayloadSummary> {
+  const normalized = normalizeWebhookEvents(body);
+  if (normalized.length === 0) {
+    return { events: 0, failed: 0, duplicates: 0, stale: 0 };
   }
+
+  const { events, duplicates, stale } = await filterReplayedEvents(normalized);
+  const { failedEvents, ...dispatched } =
+    events.length > 0
+      ? await dispatchWebhookEvents(events)
+      : { events: 0, failed: 0, failedEvents: [] };
+  await releaseWebhookEvents(failedEvents);
+  const summary = { ...dispatched, duplicates, stale };
+  logger.info('[WhatsAppWebhook] Processed webhook batch', { ...summary });
+  return summary;
 }
 
 // ==================== Convenience Functions ====================
@@ -306,3 +312,32 @@ export function sendWhatsAppTemplate(args: {
 }) {
   return getWhatsAppService().sendTemplateMessage(args);
 }
+
+/**
+ * Send an interactive message with up to three reply buttons
+ */
+export function sendWhatsAppButtons(args: {
+  to: string;
+  bodyText: string;
+  buttons: Array<{ id: string; title: string }>;
+  headerText?: string;
+  footerText?: string;
+}) {
+  return getWhatsAppService().sendButtonMessage(args);
+}
+
+/**
+ * Send an interactive list message
+ */
+export function sendWhatsAppList(args: {
+  to: string;
+  bodyText: string;
+  buttonText: string;
+  sections: Array<{
+    title?: string;
+    rows: Array<{ id: string; title: string; description?: string }>;
+  }>;
+  options?: { headerText?: string; footerText?: string };
+}) {
+  return getWhatsAppService().sendListMessage(args);
+}
@@ -0,0 +1,31 @@
+/**
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ *
+ * Generated by: pnpm whatsapp:templates:sync <meta-template-export.json>
+ *
+ * Approved WhatsApp message templates. Template sends through
+ * /api/whatsapp/send are validated against this registry.
+ */
+
+import type { TemplateDefinition } from '@/types/whatsapp-template-types';
+
+export const WHATSAPP_TEMPLATE_REGISTRY: TemplateDefinition[] = [
+  {
+    "name": "inquiry_received",
+    "languages": [
+      "en",
+      "zh_CN"
+    ],
+    "category": "UTILITY",
+    "body": [
+      {
+        "type": "text",
+        "example": "Alex"
+      },
+      {
+        "type": "text",
+        "example": "CON-mm8x2k1a-3f9c1b2e"
+      }
+    ]
+  }
+];
@@ -0,0 +1,185 @@
+/**
+ * WhatsApp Auto-Reply Flow Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  WHATSAPP_AUTO_REPLY_FLOWS,
+  type AutoReplyMenu,
+} from '@/config/whatsapp-auto-reply';
+import {
+  detectAutoReplyLocale,
+  getBusinessHoursPlaceholders,
+  matchesKeyword,
+  renderMenu,
+  resolveAutoReply,
+  type AutoReplyContext,
+} from '../auto-reply-flow';
+
+function buildContext(
+  overrides: Partial<AutoReplyContext> = {},
+): AutoReplyContext {
+  return {
+    flow: WHATSAPP_AUTO_REPLY_FLOWS.en,
+    session: null,
+    open: true,
+    placeholders: getBusinessHoursPlaceholders({
+      weekdays: '9:00 - 18:00',
+      saturday: '10:00 - 16:00',
+      sundayClosed: true,
+      timeZone: 'America/Los_Angeles',
+    }),
+    ...overrides,
+  };
+}
+
+describe('auto-reply flow', () => {
+  describe('matchesKeyword', () => {
+    it('should match whole words case-insensitively', () => {
+      expect(matchesKeyword('Hi there!', 'hi')).toBe(true);
+      expect(matchesKeyword('What is the PRICE?', 'price')).toBe(true);
+      expect(matchesKeyword('Do you offer shipping?', 'hi')).toBe(false);
+    });
+
+    it('should match Chinese keywords as substrings', () => {
+      expect(matchesKeyword('请问价格是多少', '价格')).toBe(true);
+    });
+  });
+
+  describe('detectAutoReplyLocale', () => {
+    it('should pick Chinese for Chinese text or +86 numbers', () => {
+      expect(detectAutoReplyLocale('你好', '14155550100')).toBe('zh');
+      expect(detectAutoReplyLocale('hello', '8613800000000')).toBe('zh');
+      expect(detectAutoReplyLocale('hello', '14155550100')).toBe('en');
+    });
+  });
+
+  describe('renderMenu', () => {
+    const menu = WHATSAPP_AUTO_REPLY_FLOWS.en.menu;
+
+    it('should send up to three options as reply buttons', () => {
+      const content = renderMenu(menu);
+
+      expect(content.type).toBe('buttons');
+      expect(content.type === 'buttons' && content.body).toContain(
+        '1. Product catalog\n2. Talk to sales',
+      );
+    });
+
+    it('should send longer menus as a list', () => {
+      const longMenu: AutoReplyMenu = {
+        ...menu,
+        options: [
+          ...menu.options,
+          {
+            id: 'menu_samples',
+            title: 'Samples',
+            reply: { type: 'text', text: 'x' },
+          },
+        ],
+      };
+
+      const content = renderMenu(longMenu);
+
+      expect(content).toMatchObject({
+        type: 'list',
+        buttonText: 'View options',
+      });
+      expect(content.type === 'list' && content.rows).toHaveLength(4);
+    });
+  });
+
+  describe('resolveAutoReply', () => {
+    it('should answer keyword intents', () => {
+      const decision = resolveAutoReply({ text: 'hello' }, buildContext());
+
+      expect(decision.match).toBe('greeting');
+      expect(decision.step).toBeUndefined();
+    });
+
+    it('should match regex intents', () => {
+      const decision = resolveAutoReply(
+        { text: 'How much for 500 units?' },
+        buildContext(),
+      );
+
+      expect(decision.match).toBe('pricing');
+      expect(decision.content.type).toBe('buttons');
+    });
+
+    it('should open the menu and accept a numbered choice', () => {
+      const menu = resolveAutoReply({ text: 'MENU' }, buildContext());
+      expect(menu).toMatchObject({ match: 'menu', step: 'menu' });
+
+      const choice = resolveAutoReply(
+        { text: '1' },
+        buildContext({ session: { locale: 'en', step: 'menu' } }),
+      );
+      expect(choice.match).toBe('menu_catalog');
+      expect(choice.step).toBeUndefined();
+    });
+
+    it('should show the menu again for an unknown number', () => {
+      const decision = resolveAutoReply(
+        { text: '9' },
+        buildContext({ session: { locale: 'en', step: 'menu' } }),
+      );
+
+      expect(decision).toMatchObject({ match: 'menu', step: 'menu' });
+    });
+
+    it('should ignore numbers when no menu is open', () => {
+      const decision = resolveAutoReply({ text: '1' }, buildContext());
+
+      expect(decision.match).toBe('fallback');
+    });
+
+    it('should accept tapped buttons without an open menu', () => {
+      const decision = resolveAutoReply(
+        { text: 'Talk to sales', replyId: 'menu_sales' },
+        buildContext(),
+      );
+
+      expect(decision.match).toBe('menu_sales');
+      expect(decision.content).toEqual({
+        type: 'text',
+        text: 'Thanks! A member of our sales team will reply here shortly.',
+      });
+    });
+
+    it('should send the after-hours notice for handoffs when closed', () => {
+      const decision = resolveAutoReply(
+        { replyId: 'menu_sales' },
+        buildContext({ open: false }),
+      );
+
+      expect(decision.content).toEqual({
+        type: 'text',
+        text: expect.stringContaining(
+          'Monday to Friday 9:00 - 18:00 and Saturday 10:00 - 16:00 (America/Los_Angeles)',
+        ),
+      });
+    });
+
+    it('should still answer informational intents when closed', () => {
+      const decision = resolveAutoReply(
+        { text: 'hello' },
+        buildContext({ open: false }),
+      );
+
+      expect(decision.match).toBe('greeting');
+    });
+
+    it('should use the Chinese flow', () => {
+      const decision = resolveAutoReply(
+        { text: '你好，想了解一下' },
+        buildContext({ flow: WHATSAPP_AUTO_REPLY_FLOWS.zh }),
+      );
+
+      expect(decision.match).toBe('greeting');
+      expect(
+        decision.content.type === 'text' && decision.content.text,
+      ).toContain('您好');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * WhatsApp Auto-Reply Processor Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MessageReceivedEvent } from '@/types/whatsapp-webhook-events';
+import { resetIdempotencyKeyStore } from '@/lib/idempotency';
+import { autoReplyProcessor } from '../auto-reply-processor';
+import {
+  getAutoReplySessionStore,
+  resetAutoReplySessionStore,
+} from '../auto-reply-sessions';
+
+const mockSendWhatsAppText = vi.hoisted(() => vi.fn());
+const mockSendWhatsAppButtons = vi.hoisted(() => vi.fn());
+const mockSendWhatsAppList = vi.hoisted(() => vi.fn());
+const mockRecordOutboundMessage = vi.hoisted(() => vi.fn());
+const mockIsWithinBusinessHours = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  sendWhatsAppText: mockSendWhatsAppText,
+  sendWhatsAppButtons: mockSendWhatsAppButtons,
+  sendWhatsAppList: mockSendWhatsAppList,
+}));
+
+vi.mock('@/lib/whatsapp/conversations/inbox', () => ({
+  recordOutboundMessage: mockRecordOutboundMessage,
+}));
+
+vi.mock('@/lib/whatsapp/business-hours', () => ({
+  isWithinBusinessHours: mockIsWithinBusinessHours,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function buildEvent(
+  from: string,
+  message: Record<string, unknown>,
+): MessageReceivedEvent {
+  return {
+    type: 'message_received',
+    from,
+    timestamp: '2026-03-02T10:00:00.000Z',
+    phone_number_id: 'phone-id',
+    message,
+  } as unknown as MessageReceivedEvent;
+}
+
+function textEvent(from: string, body: string): MessageReceivedEvent {
+  return buildEvent(from, { type: 'text', text: { body } });
+}
+
+const SENT = { success: true, data: { messages: [{ id: 'wamid.reply' }] } };
+
+describe('autoReplyProcessor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsWithinBusinessHours.mockReturnValue(true);
+    mockSendWhatsAppText.mockResolvedValue(SENT);
+    mockSendWhatsAppButtons.mockResolvedValue(SENT);
+    mockSendWhatsAppList.mockResolvedValue(SENT);
+  });
+
+  afterEach(() => {
+    resetAutoReplySessionStore();
+    resetIdempotencyKeyStore();
+  });
+
+  it('should walk through the numbered menu', async () => {
+    await autoReplyProcessor.onMessageReceived?.(
+      textEvent('14155550100', 'menu'),
+    );
+    expect(mockSendWhatsAppButtons).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: '14155550100',
+        buttons: expect.arrayContaining([
+          { id: 'menu_catalog', title: 'Product catalog' },
+        ]),
+      }),
+    );
+    expect(await getAutoReplySessionStore().get('14155550100')).toEqual({
+      locale: 'en',
+      step: 'menu',
+    });
+
+    await autoReplyProcessor.onMessageReceived?.(textEvent('14155550100', '2'));
+
+    expect(mockSendWhatsAppText).toHaveBeenCalledWith(
+      '14155550100',
+      'Thanks! A member of our sales team will reply here shortly.',
+    );
+    expect(await getAutoReplySessionStore().get('14155550100')).toEqual({
+      locale: 'en',
+    });
+  });
+
+  it('should answer tapped list rows', async () => {
+    await autoReplyProcessor.onMessageReceived?.(
+      buildEvent('14155550100', {
+        type: 'interactive',
+        interactive: {
+          type: 'list_reply',
+          list_reply: { id: 'menu_hours', title: 'Business hours' },
+        },
+      }),
+    );
+
+    expect(mockSendWhatsAppText).toHaveBeenCalledWith(
+      '14155550100',
+      expect.stringContaining('Monday to Friday 9:00 - 18:00'),
+    );
+  });
+
+  it('should keep the conversation language of the session', async () => {
+    await autoReplyProcessor.onMessageReceived?.(
+      textEvent('14155550100', '你好'),
+    );
+    await autoReplyProcessor.onMessageReceived?.(
+      textEvent('14155550100', 'menu'),
+    );
+
+    expect(mockSendWhatsAppText).toHaveBeenCalledWith(
+      '14155550100',
+      expect.stringContaining('您好'),
+    );
+    expect(mockSendWhatsAppButtons).toHaveBeenCalledWith(
+      expect.objectContaining({
+        buttons: expect.arrayContaining([
+          { id: 'menu_sales', title: '联系销售' },
+        ]),
+      }),
+    );
+  });
+
+  it('should send the after-hours notice outside business hours', async () => {
+    mockIsWithinBusinessHours.mockReturnValue(false);
+
+    await autoReplyProcessor.onMessageReceived?.(
+      textEvent('14155550100', 'Do you ship to Germany?'),
+    );
+
+    expect(mockSendWhatsAppText).toHaveBeenCalledWith(
+      '14155550100',
+      expect.stringContaining('currently offline'),
+    );
+  });
+
+  it('should record sent replies in the conversation history', async () => {
+    await autoReplyProcessor.onMessageReceived?.(
+      textEvent('14155550100', 'price'),
+    );
+
+    expect(mockRecordOutboundMessage).toHaveBeenCalledWith({
+      messageId: 'wamid.reply',
+      to: '14155550100',
+      type: 'interactive',
+      text: expect.stringContaining('pricing'),
+      sentBy: 'auto_reply',
+    });
+  });
+
+  it('should answer each inbound message only once', async () => {
+    const event = buildEvent('14155550100', {
+      id: 'wamid.in-1',
+      type: 'text',
+      text: { body: 'hello' },
+    });
+
+    await autoReplyProcessor.onMessageReceived?.(event);
+    await autoReplyProcessor.onMessageReceived?.(event);
+
+    expect(mockSendWhatsAppText).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer again when sending the reply threw', async () => {
+    mockSendWhatsAppText.mockRejectedValueOnce(new Error('network down'));
+    const event = buildEvent('14155550100', {
+      id: 'wamid.in-2',
+      type: 'text',
+      text: { body: 'hello' },
+    });
+
+    await expect(autoReplyProcessor.onMessageReceived?.(event)).rejects.toThrow(
+      'network down',
+    );
+    await autoReplyProcessor.onMessageReceived?.(event);
+
+    expect(mockSendWhatsAppText).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore messages without text', async () => {
+    await autoReplyProcessor.onMessageReceived?.(
+      buildEvent('14155550100', { type: 'image', image: { id: 'media-1' } }),
+    );
+
+    expect(mockSendWhatsAppText).not.toHaveBeenCalled();
+    expect(await getAutoReplySessionStore().get('14155550100')).toBeNull();
+  });
+});
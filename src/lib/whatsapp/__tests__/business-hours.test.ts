@@ -0,0 +1,60 @@
+/**
+ * Business Hours Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { BusinessHours } from '@/config/site-facts';
+import { isWithinBusinessHours } from '../business-hours';
+
+const HOURS: BusinessHours = {
+  weekdays: '9:00 - 18:00',
+  saturday: '10:00 - 16:00',
+  sundayClosed: true,
+  timeZone: 'America/Los_Angeles',
+};
+
+describe('isWithinBusinessHours', () => {
+  it('should be open during weekday hours in the configured time zone', () => {
+    // Monday 2026-03-02 09:30 PST
+    expect(
+      isWithinBusinessHours(HOURS, new Date('2026-03-02T17:30:00.000Z')),
+    ).toBe(true);
+    // Monday 08:59 PST
+    expect(
+      isWithinBusinessHours(HOURS, new Date('2026-03-02T16:59:00.000Z')),
+    ).toBe(false);
+    // Monday 18:00 PST
+    expect(
+      isWithinBusinessHours(HOURS, new Date('2026-03-03T02:00:00.000Z')),
+    ).toBe(false);
+  });
+
+  it('should use Saturday hours and close on Sunday', () => {
+    // Saturday 2026-03-07 11:00 PST
+    expect(
+      isWithinBusinessHours(HOURS, new Date('2026-03-07T19:00:00.000Z')),
+    ).toBe(true);
+    // Sunday 2026-03-08 11:00 PDT
+    expect(
+      isWithinBusinessHours(HOURS, new Date('2026-03-08T18:00:00.000Z')),
+    ).toBe(false);
+    expect(
+      isWithinBusinessHours(
+        { ...HOURS, sundayClosed: false },
+        new Date('2026-03-08T18:00:00.000Z'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should treat missing or unreadable hours as open', () => {
+    const sunday = new Date('2026-03-08T18:00:00.000Z');
+
+    expect(isWithinBusinessHours(undefined, sunday)).toBe(true);
+    expect(
+      isWithinBusinessHours(
+        { ...HOURS, weekdays: 'by appointment' },
+        new Date('2026-03-02T20:00:00.000Z'),
+      ),
+    ).toBe(true);
+  });
+});
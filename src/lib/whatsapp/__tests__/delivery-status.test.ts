@@ -0,0 +1,182 @@
+/**
+ * WhatsApp Delivery Status Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MessageStatusUpdate } from '@/types/whatsapp-webhook-base';
+import {
+  applyDeliveryStatus,
+  deliveryStatusProcessor,
+  getWhatsAppDeliveryStatus,
+  MemoryWhatsAppDeliveryStore,
+  recordAcceptedMessage,
+  resetWhatsAppDeliveryStore,
+  setWhatsAppDeliveryStore,
+} from '../delivery-status';
+
+const mockLoggerWarn = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: mockLoggerWarn,
+    error: vi.fn(),
+  },
+}));
+
+const NOW = new Date('2026-03-02T12:00:00.000Z');
+
+function buildUpdate(
+  status: MessageStatusUpdate['status'],
+  timestamp: string,
+  overrides: Partial<MessageStatusUpdate> = {},
+): MessageStatusUpdate {
+  return {
+    id: 'wamid.out-1',
+    status,
+    timestamp,
+    recipient_id: '1234567890',
+    ...overrides,
+  };
+}
+
+describe('delivery status', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setWhatsAppDeliveryStore(new MemoryWhatsAppDeliveryStore());
+  });
+
+  afterEach(() => {
+    resetWhatsAppDeliveryStore();
+  });
+
+  describe('applyDeliveryStatus', () => {
+    it('should advance the state and keep every timestamp', () => {
+      const sent = applyDeliveryStatus(
+        null,
+        buildUpdate('sent', '1772445600', {
+          pricing: {
+            billable: true,
+            pricing_model: 'CBP',
+            category: 'utility',
+          },
+        }),
+        NOW,
+      );
+      const delivered = applyDeliveryStatus(
+        sent,
+        buildUpdate('delivered', '1772445605'),
+        NOW,
+      );
+
+      expect(delivered).toEqual({
+        messageId: 'wamid.out-1',
+        recipientId: '1234567890',
+        status: 'delivered',
+        timestamps: {
+          sent: '2026-03-02T10:00:00.000Z',
+          delivered: '2026-03-02T10:00:05.000Z',
+        },
+        pricingCategory: 'utility',
+        updatedAt: NOW.toISOString(),
+      });
+    });
+
+    it('should not regress when updates arrive out of order', () => {
+      const read = applyDeliveryStatus(
+        null,
+        buildUpdate('read', '1772445610'),
+        NOW,
+      );
+      const lateDelivered = applyDeliveryStatus(
+        read,
+        buildUpdate('delivered', '1772445605'),
+        NOW,
+      );
+
+      expect(lateDelivered.status).toBe('read');
+      expect(lateDelivered.timestamps.delivered).toBe(
+        '2026-03-02T10:00:05.000Z',
+      );
+    });
+
+    it('should keep the errors of failed messages', () => {
+      const failed = applyDeliveryStatus(
+        null,
+        buildUpdate('failed', '1772445600', {
+          errors: [
+            {
+              code: 131047,
+              title: 'Re-engagement message',
+              message: 'More than 24 hours have passed',
+            },
+          ],
+        }),
+        NOW,
+      );
+
+      expect(failed.status).toBe('failed');
+      expect(failed.errors).toEqual([
+        { code: 131047, title: 'Re-engagement message' },
+      ]);
+    });
+  });
+
+  it('should track a sent message from acceptance to read', async () => {
+    await recordAcceptedMessage('wamid.out-1', '1234567890');
+    await deliveryStatusProcessor.onMessageStatus?.({
+      type: 'message_status',
+      timestamp: NOW.toISOString(),
+      phone_number_id: 'phone-1',
+      status_update: buildUpdate('read', '1772445610'),
+    });
+
+    const record = await getWhatsAppDeliveryStatus('wamid.out-1');
+    expect(record?.status).toBe('read');
+    expect(Object.keys(record?.timestamps ?? {})).toEqual(['accepted', 'read']);
+  });
+
+  it('should keep a status that arrived before the send returned', async () => {
+    await deliveryStatusProcessor.onMessageStatus?.({
+      type: 'message_status',
+      timestamp: NOW.toISOString(),
+      phone_number_id: 'phone-1',
+      status_update: buildUpdate('delivered', '1772445610'),
+    });
+    await recordAcceptedMessage('wamid.out-1', '1234567890');
+
+    const record = await getWhatsAppDeliveryStatus('wamid.out-1');
+    expect(record?.status).toBe('delivered');
+    expect(record?.timestamps.delivered).toBeDefined();
+    expect(record?.timestamps.accepted).toBeDefined();
+  });
+
+  it('should log failed deliveries', async () => {
+    await deliveryStatusProcessor.onMessageStatus?.({
+      type: 'message_status',
+      timestamp: NOW.toISOString(),
+      phone_number_id: 'phone-1',
+      status_update: buildUpdate('failed', '1772445600'),
+    });
+
+    expect(mockLoggerWarn).toHaveBeenCalledWith(
+      '[WhatsAppDelivery] Message delivery failed',
+      expect.objectContaining({ messageId: 'wamid.out-1' }),
+    );
+  });
+
+  it('should not fail sends when the store is unavailable', async () => {
+    setWhatsAppDeliveryStore({
+      get: vi.fn(),
+      save: vi.fn().mockRejectedValue(new Error('store down')),
+    });
+
+    await expect(
+      recordAcceptedMessage('wamid.out-1', '1234567890'),
+    ).resolves.toBeUndefined();
+    expect(mockLoggerWarn).toHaveBeenCalledWith(
+      '[WhatsAppDelivery] Failed to record accepted message',
+      expect.objectContaining({ messageId: 'wamid.out-1' }),
+    );
+  });
+});
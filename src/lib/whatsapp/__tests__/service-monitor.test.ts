@@ -0,0 +1,231 @@
+/**
+ * WhatsApp Service Monitor Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MessageStatusEvent } from '@/types/whatsapp-webhook-events';
+import {
+  isRateLimitError,
+  monitorMediaCall,
+  monitorSend,
+  probeWhatsAppPhoneNumber,
+  serviceMonitorProcessor,
+  whatsappServiceMonitor,
+  WhatsAppServiceMonitor,
+} from '../service-monitor';
+
+vi.mock('@/lib/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const T0 = Date.parse('2026-03-02T12:00:00.000Z');
+const MINUTE = 60_000;
+
+function statusEvent(status: string): MessageStatusEvent {
+  return {
+    type: 'message_status',
+    status_update: { id: 'wamid.out-1', status },
+  } as unknown as MessageStatusEvent;
+}
+
+describe('WhatsAppServiceMonitor', () => {
+  let monitor: WhatsAppServiceMonitor;
+
+  beforeEach(() => {
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', 'token');
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', 'phone-id');
+    vi.stubEnv('WHATSAPP_WEBHOOK_VERIFY_TOKEN', 'verify');
+    vi.stubEnv('WHATSAPP_APP_SECRET', 'secret');
+    monitor = new WhatsAppServiceMonitor();
+    monitor.reset(T0);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    whatsappServiceMonitor.reset();
+  });
+
+  it('should record sends, failures and latency', () => {
+    monitor.recordApiCall({ kind: 'send', success: true, durationMs: 100 }, T0);
+    monitor.recordApiCall({ kind: 'send', success: true, durationMs: 300 }, T0);
+    monitor.recordApiCall(
+      { kind: 'media', success: true, durationMs: 200 },
+      T0,
+    );
+
+    expect(monitor.getMetrics(T0 + MINUTE)).toMatchObject({
+      apiCalls: 3,
+      apiErrors: 0,
+      messagesSent: 2,
+      messagesFailed: 0,
+      averageResponseTime: 200,
+      uptime: 100,
+    });
+    expect(monitor.getHealth(T0 + MINUTE)).toMatchObject({
+      status: 'healthy',
+      errorRate: 0,
+      details: {
+        api: 'available',
+        webhook: 'configured',
+        phoneNumber: 'unverified',
+      },
+    });
+  });
+
+  it('should count outages as downtime until a call succeeds', () => {
+    monitor.recordApiCall(
+      { kind: 'send', success: false, durationMs: 50, error: 'Network error' },
+      T0 + 90 * MINUTE,
+    );
+
+    expect(monitor.getHealth(T0 + 95 * MINUTE)).toMatchObject({
+      status: 'unhealthy',
+      details: { api: 'unavailable' },
+    });
+
+    monitor.recordApiCall(
+      { kind: 'send', success: true, durationMs: 50 },
+      T0 + 95 * MINUTE,
+    );
+
+    const metrics = monitor.getMetrics(T0 + 100 * MINUTE);
+    expect(metrics.uptime).toBe(95);
+    expect(metrics.messagesFailed).toBe(1);
+    expect(monitor.getHealth(T0 + 100 * MINUTE).details?.api).toBe('available');
+  });
+
+  it('should count rate limiting separately from outages', () => {
+    monitor.recordApiCall(
+      {
+        kind: 'send',
+        success: false,
+        durationMs: 20,
+        error: '(#130429) Rate limit hit',
+      },
+      T0,
+    );
+
+    const report = monitor.getReport('real', T0 + MINUTE);
+    expect(report.rateLimits).toEqual({
+      count: 1,
+      lastAt: new Date(T0).toISOString(),
+    });
+    expect(report.metrics.uptime).toBe(100);
+    expect(report.health.errorRate).toBe(100);
+    expect(report.needsAttention).toBe(true);
+  });
+
+  it('should report missing configuration', () => {
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', '');
+    vi.stubEnv('WHATSAPP_APP_SECRET', '');
+
+    const report = monitor.getReport('mock', T0);
+
+    expect(report.health.status).toBe('unhealthy');
+    expect(report.health.details).toMatchObject({
+      api: 'unavailable',
+      webhook: 'error',
+    });
+    expect(report.isConnected).toBe(false);
+    expect(report.config.webhookConfigured).toBe(false);
+  });
+
+  it('should count delivery receipts from the webhook', () => {
+    serviceMonitorProcessor.onMessageStatus?.(statusEvent('delivered'));
+    serviceMonitorProcessor.onMessageStatus?.(statusEvent('read'));
+    serviceMonitorProcessor.onMessageStatus?.(statusEvent('failed'));
+
+    expect(whatsappServiceMonitor.getMetrics()).toMatchObject({
+      messagesDelivered: 1,
+      messagesRead: 1,
+      messagesFailed: 1,
+    });
+  });
+
+  it('should record calls made through the wrappers', async () => {
+    await monitorSend(async () => ({ success: true }));
+    await monitorSend(async () => ({ success: false, error: 'Bad request' }));
+    await expect(
+      monitorSend(() => Promise.reject(new Error('timeout'))),
+    ).rejects.toThrow('timeout');
+    await monitorMediaCall(async () => null);
+
+    expect(whatsappServiceMonitor.getMetrics()).toMatchObject({
+      apiCalls: 4,
+      apiErrors: 3,
+      messagesSent: 1,
+      messagesFailed: 2,
+    });
+  });
+
+  it('should recognise rate limit errors', () => {
+    expect(isRateLimitError('HTTP 429')).toBe(true);
+    expect(isRateLimitError('Too many messages sent')).toBe(true);
+    expect(isRateLimitError('Invalid parameter')).toBe(false);
+  });
+});
+
+describe('probeWhatsAppPhoneNumber', () => {
+  beforeEach(() => {
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', 'token');
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', 'phone-id');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    whatsappServiceMonitor.reset();
+  });
+
+  it('should report verified numbers and their quality rating', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          code_verification_status: 'VERIFIED',
+          quality_rating: 'GREEN',
+        }),
+      ),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const probe = await probeWhatsAppPhoneNumber();
+
+    expect(probe).toMatchObject({
+      phoneNumber: 'verified',
+      qualityRating: 'GREEN',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/phone-id?fields='),
+      expect.objectContaining({
+        headers: { Authorization: 'Bearer token' },
+      }),
+    );
+  });
+
+  it('should degrade health when the probe fails', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          new Response(
+            JSON.stringify({
+              error: { message: 'Invalid OAuth access token' },
+            }),
+            { status: 401 },
+          ),
+        ),
+    );
+    const monitor = new WhatsAppServiceMonitor();
+
+    const probe = await probeWhatsAppPhoneNumber();
+    monitor.recordProbe(probe);
+
+    expect(probe).toMatchObject({
+      phoneNumber: 'error',
+      error: 'Invalid OAuth access token',
+    });
+    expect(monitor.getHealth().status).toBe('degraded');
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import type { TemplateDefinition } from '@/types/whatsapp-template-types';
+import {
+  getTemplateDefinition,
+  parseMetaTemplateExport,
+  validateTemplateSend,
+} from '@/lib/whatsapp/template-registry';
+import { WHATSAPP_ACK_TEMPLATES } from '@/config/whatsapp-ack-templates';
+
+const REGISTRY: TemplateDefinition[] = [
+  {
+    name: 'order_shipped',
+    languages: ['en', 'es_MX'],
+    header: [{ type: 'image' }],
+    body: [{ type: 'text' }, { type: 'text' }],
+    buttons: [
+      { sub_type: 'url', index: 0, parameters: [{ type: 'text' }] },
+      { sub_type: 'quick_reply', index: 1, parameters: [] },
+    ],
+  },
+];
+
+const VALID_COMPONENTS = [
+  {
+    type: 'header' as const,
+    parameters: [
+      { type: 'image' as const, image: { link: 'https://x.test/a.png' } },
+    ],
+  },
+  {
+    type: 'body' as const,
+    parameters: [
+      { type: 'text' as const, text: 'Alex' },
+      {
+        type: 'currency' as const,
+        currency: { fallback_value: '$10', code: 'USD', amount_1000: 10000 },
+      },
+    ],
+  },
+  {
+    type: 'button' as const,
+    sub_type: 'url' as const,
+    index: 0,
+    parameters: [{ type: 'text' as const, text: 'ORDER-1' }],
+  },
+];
+
+describe('validateTemplateSend', () => {
+  it('accepts a send matching the registered template', () => {
+    const result = validateTemplateSend(
+      {
+        name: 'order_shipped',
+        language: 'es_MX',
+        components: VALID_COMPONENTS,
+      },
+      REGISTRY,
+    );
+
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('rejects unknown templates and languages', () => {
+    expect(
+      validateTemplateSend(
+        { name: 'order_shiped', language: 'en', components: [] },
+        REGISTRY,
+      ).errors,
+    ).toEqual(['Unknown template: order_shiped']);
+
+    expect(
+      validateTemplateSend(
+        { name: 'order_shipped', language: 'fr', components: VALID_COMPONENTS },
+        REGISTRY,
+      ).errors,
+    ).toEqual([
+      'Template order_shipped is not approved in fr (available: en, es_MX)',
+    ]);
+  });
+
+  it('reports missing parameters per component', () => {
+    const result = validateTemplateSend(
+      { name: 'order_shipped', language: 'en', components: [] },
+      REGISTRY,
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Header expects 1 parameters, got 0',
+      'Body expects 2 parameters, got 0',
+      'Button 0 expects 1 parameters, got 0',
+    ]);
+  });
+
+  it('checks parameter types and values', () => {
+    const result = validateTemplateSend(
+      {
+        name: 'order_shipped',
+        language: 'en',
+        components: [
+          {
+            type: 'header',
+            parameters: [{ type: 'text', text: 'Shipped' }],
+          },
+          {
+            type: 'body',
+            parameters: [
+              { type: 'text', text: '' },
+              { type: 'text', text: 'ORDER-1' },
+            ],
+          },
+          { type: 'button', sub_type: 'quick_reply', index: 0 },
+          { type: 'button', sub_type: 'url', index: 2, parameters: [] },
+        ],
+      },
+      REGISTRY,
+    );
+
+    expect(result.errors).toEqual([
+      'Header parameter 1 must be image, got text',
+      'Body parameter 1: Text parameter must have text value',
+      'Button 0 is a url button',
+      'Button 2 does not exist',
+    ]);
+  });
+
+  it('knows the inquiry acknowledgement templates', () => {
+    for (const template of Object.values(WHATSAPP_ACK_TEMPLATES)) {
+      const definition = getTemplateDefinition(template.name);
+
+      expect(definition?.languages).toContain(template.languageCode);
+      expect(definition?.body).toHaveLength(2);
+    }
+  });
+});
+
+describe('parseMetaTemplateExport', () => {
+  const approved = (language: string, body: string) => ({
+    name: 'order_shipped',
+    language,
+    status: 'APPROVED',
+    category: 'UTILITY',
+    components: [
+      { type: 'HEADER', format: 'IMAGE' },
+      {
+        type: 'BODY',
+        text: body,
+        example: { body_text: [['Alex', 'ORDER-1']] },
+      },
+      { type: 'FOOTER', text: 'Reply STOP to opt out' },
+      {
+        type: 'BUTTONS',
+        buttons: [
+          {
+            type: 'URL',
+            text: 'Track',
+            url: 'https://x.test/track/{{1}}',
+            example: ['https://x.test/track/ORDER-1'],
+          },
+          { type: 'QUICK_REPLY', text: 'Thanks' },
+        ],
+      },
+    ],
+  });
+
+  it('builds registry entries and merges languages', () => {
+    const { templates, skipped } = parseMetaTemplateExport({
+      data: [
+        approved('es_MX', 'Hola {{1}}, tu pedido {{2}} fue enviado'),
+        approved('en', 'Hi {{1}}, order {{2}} has shipped'),
+        {
+          name: 'welcome',
+          language: 'en',
+          status: 'PENDING',
+          components: [],
+        },
+      ],
+    });
+
+    expect(skipped).toEqual(['welcome (en): status PENDING']);
+    expect(templates).toEqual([
+      {
+        name: 'order_shipped',
+        languages: ['en', 'es_MX'],
+        category: 'UTILITY',
+        header: [{ type: 'image' }],
+        body: [
+          { type: 'text', example: 'Alex' },
+          { type: 'text', example: 'ORDER-1' },
+        ],
+        buttons: [
+          {
+            sub_type: 'url',
+            index: 0,
+            parameters: [
+              { type: 'text', example: 'https://x.test/track/ORDER-1' },
+            ],
+          },
+          { sub_type: 'quick_reply', index: 1, parameters: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('skips languages whose parameters differ', () => {
+    const { templates, skipped } = parseMetaTemplateExport([
+      approved('en', 'Hi {{1}}, order {{2}} has shipped'),
+      approved('de', 'Bestellung {{1}} wurde versandt'),
+    ]);
+
+    expect(templates[0]?.languages).toEqual(['en']);
+    expect(skipped).toEqual(['order_shipped (de): parameters differ from en']);
+  });
+
+  it('rejects files that are not a template export', () => {
+    expect(() => parseMetaTemplateExport({ templates: [] })).toThrow(
+      'Expected a template export with a "data" array',
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * WhatsApp Webhook Event Normalization Tests
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { normalizeWebhookEvents } from '../webhook-events';
+
+vi.unmock('zod');
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const RECEIVED_AT = new Date('2026-03-02T12:00:00.000Z');
+
+function buildPayload(values: Array<Record<string, unknown>>) {
+  return {
+    object: 'whatsapp_business_account',
+    entry: values.map((value, index) => ({
+      id: `waba-${index}`,
+      changes: [
+        {
+          field: 'messages',
+          value: {
+            messaging_product: 'whatsapp',
+            metadata: {
+              display_phone_number: '15550100',
+              phone_number_id: 'phone-1',
+            },
+            ...value,
+          },
+        },
+      ],
+    })),
+  };
+}
+
+describe('normalizeWebhookEvents', () => {
+  it('should emit an event for every message across entries', () => {
+    const events = normalizeWebhookEvents(
+      buildPayload([
+        {
+          messages: [
+            {
+              id: 'wamid.in-1',
+              from: '111',
+              timestamp: '1772445600',
+              type: 'text',
+              text: { body: 'hi' },
+            },
+            {
+              id: 'wamid.in-2',
+              from: '222',
+              timestamp: '1772445601',
+              type: 'text',
+              text: { body: 'help' },
+            },
+          ],
+        },
+        {
+          messages: [
+            {
+              id: 'wamid.in-3',
+              from: '333',
+              timestamp: '1772445602',
+              type: 'text',
+              text: { body: 'cost' },
+            },
+          ],
+        },
+      ]),
+      RECEIVED_AT,
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      'message_received',
+      'message_received',
+      'message_received',
+    ]);
+    expect(events[0]).toMatchObject({
+      timestamp: '2026-03-02T10:00:00.000Z',
+      phone_number_id: 'phone-1',
+      from: '111',
+      message: { id: 'wamid.in-1', text: { body: 'hi' } },
+    });
+  });
+
+  it('should derive delivery and read receipts from statuses', () => {
+    const events = normalizeWebhookEvents(
+      buildPayload([
+        {
+          statuses: [
+            {
+              id: 'wamid.out-1',
+              status: 'sent',
+              timestamp: '1772445600',
+              recipient_id: '111',
+            },
+            {
+              id: 'wamid.out-1',
+              status: 'delivered',
+              timestamp: '1772445605',
+              recipient_id: '111',
+            },
+            {
+              id: 'wamid.out-1',
+              status: 'read',
+              timestamp: '1772445610',
+              recipient_id: '111',
+            },
+          ],
+        },
+      ]),
+      RECEIVED_AT,
+    );
+
+    expect(events.map((event) => event.type)).toEqual([
+      'message_status',
+      'message_status',
+      'message_delivery',
+      'message_status',
+      'message_read',
+    ]);
+    expect(events[2]).toMatchObject({
+      to: '111',
+      message_id: 'wamid.out-1',
+      delivery_timestamp: '2026-03-02T10:00:05.000Z',
+    });
+    expect(events[4]).toMatchObject({
+      from: '111',
+      message_id: 'wamid.out-1',
+      read_timestamp: '2026-03-02T10:00:10.000Z',
+    });
+  });
+
+  it('should emit webhook errors', () => {
+    const events = normalizeWebhookEvents(
+      buildPayload([{ errors: [{ code: 131000, title: 'Something failed' }] }]),
+      RECEIVED_AT,
+    );
+
+    expect(events).toEqual([
+      {
+        type: 'webhook_error',
+        timestamp: RECEIVED_AT.toISOString(),
+        phone_number_id: 'phone-1',
+        error: {
+          code: 131000,
+          title: 'Something failed',
+          message: 'Something failed',
+        },
+      },
+    ]);
+  });
+
+  it('should drop malformed items and keep the rest of the batch', () => {
+    const events = normalizeWebhookEvents(
+      buildPayload([
+        {
+          messages: [{ text: { body: 'no sender' } }, { from: '111' }],
+          statuses: [{ id: 'wamid.out-1', status: 'bounced' }],
+        },
+      ]),
+      RECEIVED_AT,
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'message_received',
+      from: '111',
+      timestamp: RECEIVED_AT.toISOString(),
+    });
+  });
+
+  it('should return no events for payloads without entries', () => {
+    expect(normalizeWebhookEvents('invalid')).toEqual([]);
+    expect(normalizeWebhookEvents({ entry: [] })).toEqual([]);
+    expect(normalizeWebhookEvents({ entry: 'nope' })).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * WhatsApp Webhook Replay Protection Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WebhookEvent } from '@/types/whatsapp-webhook-events';
+import {
+  MemoryIdempotencyKeyStore,
+  resetIdempotencyKeyStore,
+  setIdempotencyKeyStore,
+} from '@/lib/idempotency';
+import {
+  claimProcessorRun,
+  filterReplayedEvents,
+  getWebhookEventKey,
+  getWebhookGuardConfig,
+  getWebhookGuardStats,
+  releaseProcessorRun,
+  releaseWebhookEvents,
+  resetWebhookGuardStats,
+} from '../webhook-replay-guard';
+
+const mockLoggerWarn = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: mockLoggerWarn,
+    error: vi.fn(),
+  },
+}));
+
+const NOW = new Date('2026-03-02T12:00:00.000Z');
+
+function messageEvent(id: string, timestamp = NOW.toISOString()) {
+  return {
+    type: 'message_received',
+    timestamp,
+    phone_number_id: 'phone-1',
+    from: '123',
+    message: { id, type: 'text', text: { body: 'hello' } },
+  } as unknown as WebhookEvent;
+}
+
+function statusEvent(status: string) {
+  return {
+    type: 'message_status',
+    timestamp: NOW.toISOString(),
+    phone_number_id: 'phone-1',
+    status_update: {
+      id: 'wamid.out-1',
+      status,
+      timestamp: '1772452800',
+      recipient_id: '123',
+    },
+  } as unknown as WebhookEvent;
+}
+
+describe('webhook replay protection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setIdempotencyKeyStore(new MemoryIdempotencyKeyStore());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetIdempotencyKeyStore();
+    resetWebhookGuardStats();
+  });
+
+  it('should read the windows from the environment', () => {
+    expect(getWebhookGuardConfig()).toEqual({
+      dedupWindowMs: 86_400_000,
+      maxEventAgeMs: 86_400_000,
+    });
+
+    vi.stubEnv('WHATSAPP_WEBHOOK_DEDUP_WINDOW_SECONDS', '600');
+    vi.stubEnv('WHATSAPP_WEBHOOK_MAX_EVENT_AGE_SECONDS', '0');
+    expect(getWebhookGuardConfig()).toEqual({
+      dedupWindowMs: 600_000,
+      maxEventAgeMs: 0,
+    });
+  });
+
+  it('should key status updates by message and state', () => {
+    expect(getWebhookEventKey(statusEvent('delivered'))).toBe(
+      'status:wamid.out-1:delivered',
+    );
+    expect(
+      getWebhookEventKey({
+        type: 'webhook_error',
+        timestamp: NOW.toISOString(),
+        phone_number_id: 'phone-1',
+        error: { code: 131000, title: 'Something went wrong' },
+      } as unknown as WebhookEvent),
+    ).toBeNull();
+  });
+
+  it('should drop events already seen within the window', async () => {
+    const first = await filterReplayedEvents(
+      [messageEvent('wamid.1'), statusEvent('sent')],
+      NOW,
+    );
+    const retry = await filterReplayedEvents(
+      [messageEvent('wamid.1'), statusEvent('sent'), statusEvent('read')],
+      NOW,
+    );
+
+    expect(first.events).toHaveLength(2);
+    expect(retry).toMatchObject({ duplicates: 2, stale: 0 });
+    expect(retry.events).toEqual([statusEvent('read')]);
+    expect(getWebhookGuardStats()).toEqual({
+      accepted: 3,
+      duplicate: 2,
+      stale: 0,
+      store_error: 0,
+    });
+  });
+
+  it('should let released events be processed again', async () => {
+    await filterReplayedEvents([messageEvent('wamid.1')], NOW);
+    await releaseWebhookEvents([messageEvent('wamid.1')]);
+
+    const retry = await filterReplayedEvents([messageEvent('wamid.1')], NOW);
+
+    expect(retry.events).toHaveLength(1);
+    expect(retry.duplicates).toBe(0);
+  });
+
+  it('should claim each processor run of an event separately', async () => {
+    const event = messageEvent('wamid.1');
+
+    expect(await claimProcessorRun(event, 'auto_reply')).toBe(true);
+    expect(await claimProcessorRun(event, 'conversations')).toBe(true);
+    expect(await claimProcessorRun(event, 'auto_reply')).toBe(false);
+
+    await releaseProcessorRun(event, 'conversations');
+
+    expect(await claimProcessorRun(event, 'conversations')).toBe(true);
+    expect(await claimProcessorRun(event, 'auto_reply')).toBe(false);
+  });
+
+  it('should log claims that cannot be released', async () => {
+    setIdempotencyKeyStore({
+      claim: () => Promise.resolve(true),
+      release: () => Promise.reject(new Error('Redis down')),
+    });
+
+    await releaseWebhookEvents([messageEvent('wamid.1')]);
+
+    expect(mockLoggerWarn).toHaveBeenCalledWith(
+      '[WhatsAppWebhook] Failed to release event claim',
+      expect.objectContaining({ key: 'message:wamid.1' }),
+    );
+  });
+
+  it('should drop events older than the maximum age', async () => {
+    const result = await filterReplayedEvents(
+      [messageEvent('wamid.old', '2026-02-28T12:00:00.000Z')],
+      NOW,
+    );
+
+    expect(result).toEqual({ events: [], duplicates: 0, stale: 1 });
+  });
+
+  it('should keep old events when the age check is disabled', async () => {
+    vi.stubEnv('WHATSAPP_WEBHOOK_MAX_EVENT_AGE_SECONDS', '0');
+
+    const result = await filterReplayedEvents(
+      [messageEvent('wamid.old', '2026-02-28T12:00:00.000Z')],
+      NOW,
+    );
+
+    expect(result.events).toHaveLength(1);
+  });
+
+  it('should process events when the store is unavailable', async () => {
+    setIdempotencyKeyStore({
+      claim: () => Promise.reject(new Error('Redis down')),
+      release: () => Promise.reject(new Error('Redis down')),
+    });
+
+    const result = await filterReplayedEvents([messageEvent('wamid.1')], NOW);
+
+    expect(result.events).toHaveLength(1);
+    expect(getWebhookGuardStats().store_error).toBe(1);
+    expect(mockLoggerWarn).toHaveBeenCalledWith(
+      '[WhatsAppWebhook] Dedup store unavailable, processing event',
+      expect.objectContaining({ key: 'message:wamid.1' }),
+    );
+  });
+
+  it('should let a key be claimed again once the window passes', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    const store = new MemoryIdempotencyKeyStore();
+
+    expect(await store.claim('a', 1000)).toBe(true);
+    expect(await store.claim('a', 1000)).toBe(false);
+    vi.advanceTimersByTime(1001);
+    expect(await store.claim('a', 1000)).toBe(true);
+    vi.useRealTimers();
+  });
+
+  it('should drop expired keys when another key is claimed', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    const store = new MemoryIdempotencyKeyStore();
+
+    await store.claim('a', 1000);
+    vi.advanceTimersByTime(1001);
+    await store.claim('b', 1000);
+
+    expect(store.size).toBe(1);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * WhatsApp Auto-Reply Flow
+ *
+ * Picks the reply for an incoming message from a locale's configured flow:
+ * menu choices first (tapped buttons / list rows, or a number while the
+ * menu is open), then the menu keywords, then intents in order, and
+ * finally the fallback.
+ *
+ * @see src/config/whatsapp-auto-reply.ts - Flow definitions
+ */
+
+import type { AutoReplySession } from '@/lib/whatsapp/auto-reply-sessions';
+import type { BusinessHours } from '@/config/site-facts';
+import type {
+  AutoReplyAction,
+  AutoReplyContent,
+  AutoReplyIntent,
+  AutoReplyMenu,
+  AutoReplyMenuOption,
+  WhatsAppAutoReplyFlow,
+} from '@/config/whatsapp-auto-reply';
+import { routing, type Locale } from '@/i18n/routing-config';
+
+/** Menus with more options are sent as a list */
+const MAX_REPLY_BUTTONS = 3;
+const MENU_CHOICE_PATTERN = /^\s*(\d{1,2})\s*[.)]?\s*$/;
+const HAN_PATTERN = /\p{Script=Han}/u;
+const WORD_SEPARATOR_PATTERN = /[^\p{L}\p{N}]+/u;
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const CHINA_COUNTRY_CODE = '86';
+
+export interface AutoReplyInput {
+  text?: string | undefined;
+  /** ID of a tapped reply button or list row */
+  replyId?: string | undefined;
+}
+
+export interface AutoReplyContext {
+  flow: WhatsAppAutoReplyFlow;
+  session: AutoReplySession | null;
+  /** Whether the team is within business hours */
+  open: boolean;
+  /** Values for `{name}` placeholders in reply text */
+  placeholders: Map<string, string>;
+}
+
+export interface AutoReplyDecision {
+  /** Matched intent, menu option ID, `menu` or `fallback` */
+  match: string;
+  content: AutoReplyContent;
+  /** Next session step; omitted when the flow is back at the start */
+  step?: 'menu';
+}
+
+/**
+ * Pick the conversation language for a new sender
+ * Chinese text or a +86 number selects `zh`; otherwise the default locale.
+ */
+export function detectAutoReplyLocale(
+  text: string | undefined,
+  phone: string,
+): Locale {
+  if (text && HAN_PATTERN.test(text)) return 'zh';
+  if (phone.replace(/\D/g, '').startsWith(CHINA_COUNTRY_CODE)) return 'zh';
+  return routing.defaultLocale;
+}
+
+/**
+ * Whole-word, case-insensitive keyword match
+ * Keywords in scripts without spaces (e.g. Chinese) match as substrings.
+ */
+export function matchesKeyword(text: string, keyword: string): boolean {
+  const needle = keyword.toLowerCase();
+  if (HAN_PATTERN.test(needle)) return text.includes(needle);
+
+  const words = text.toLowerCase().split(WORD_SEPARATOR_PATTERN);
+  return ` ${words.join(' ')} `.includes(` ${needle} `);
+}
+
+function matchesIntent(text: string, intent: AutoReplyIntent): boolean {
+  return (
+    (intent.keywords ?? []).some((keyword) => matchesKeyword(text, keyword)) ||
+    (intent.patterns ?? []).some((pattern) => pattern.test(text))
+  );
+}
+
+/**
+ * Menu as reply buttons (up to three options) or a list, with the option
+ * numbers spelled out for senders who type their choice
+ */
+export function renderMenu(menu: AutoReplyMenu): AutoReplyContent {
+  const numbered = menu.options
+    .map((option, index) => `${index + 1}. ${option.title}`)
+    .join('\n');
+  const body = `${menu.body}\n\n${numbered}`;
+
+  if (menu.options.length <= MAX_REPLY_BUTTONS) {
+    return {
+      type: 'buttons',
+      body,
+      buttons: menu.options.map(({ id, title }) => ({ id, title })),
+    };
+  }
+  return {
+    type: 'list',
+    body,
+    buttonText: menu.buttonText,
+    rows: menu.options.map(({ id, title, description }) => ({
+      id,
+      title,
+      ...(description ? { description } : {}),
+    })),
+  };
+}
+
+function findMenuOption(
+  menu: AutoReplyMenu,
+  input: AutoReplyInput,
+  session: AutoReplySession | null,
+): AutoReplyMenuOption | undefined {
+  if (input.replyId) {
+    return menu.options.find((option) => option.id === input.replyId);
+  }
+  if (session?.step !== 'menu' || !input.text) return undefined;
+
+  const choice = MENU_CHOICE_PATTERN.exec(input.text);
+  return choice ? menu.options.at(Number(choice[1]) - 1) : undefined;
+}
+
+export function fillPlaceholders(
+  content: AutoReplyContent,
+  values: Map<string, string>,
+): AutoReplyContent {
+  const fill = (text: string) =>
+    text.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder, name: string) => values.get(name) ?? placeholder,
+    );
+
+  if (content.type === 'text') {
+    return { ...content, text: fill(content.text) };
+  }
+  return { ...content, body: fill(content.body) };
+}
+
+/**
+ * `{weekdays}`, `{saturday}` and `{timeZone}` values for reply text
+ */
+export function getBusinessHoursPlaceholders(
+  hours: BusinessHours | undefined,
+): Map<string, string> {
+  return new Map(
+    hours
+      ? [
+          ['weekdays', hours.weekdays],
+          ['saturday', hours.saturday],
+          ['timeZone', hours.timeZone ?? 'UTC'],
+        ]
+      : [],
+  );
+}
+
+function toDecision(
+  match: string,
+  action: AutoReplyAction,
+  context: AutoReplyContext,
+): AutoReplyDecision {
+  const content =
+    action.handoff && !context.open
+      ? { type: 'text' as const, text: context.flow.afterHours }
+      : action.reply;
+  return { match, content: fillPlaceholders(content, context.placeholders) };
+}
+
+export function resolveAutoReply(
+  input: AutoReplyInput,
+  context: AutoReplyContext,
+): AutoReplyDecision {
+  const { flow, session } = context;
+
+  const option = findMenuOption(flow.menu, input, session);
+  if (option) return toDecision(option.id, option, context);
+
+  const text = input.text ?? '';
+  const invalidChoice =
+    session?.step === 'menu' && MENU_CHOICE_PATTERN.test(text);
+  if (
+    invalidChoice ||
+    flow.menu.keywords.some((keyword) => matchesKeyword(text, keyword))
+  ) {
+    return { match: 'menu', content: renderMenu(flow.menu), step: 'menu' };
+  }
+
+  const intent = flow.intents.find((candidate) =>
+    matchesIntent(text, candidate),
+  );
+  if (intent) return toDecision(intent.id, intent, context);
+
+  return toDecision('fallback', flow.fallback, context);
+}
@@ -0,0 +1,218 @@
+/**
+ * WhatsApp Auto-Reply Processor
+ *
+ * Answers incoming text and interactive replies with the sender's
+ * localized auto-reply flow, keeping the flow state per sender. Each
+ * inbound message ID is answered at most once within the webhook dedup
+ * window, however often Meta delivers it.
+ *
+ * @see src/config/whatsapp-auto-reply.ts - Flow definitions
+ */
+
+import type { WhatsAppServiceResponse } from '@/types/whatsapp';
+import type {
+  MessageReceivedEvent,
+  WebhookProcessor,
+} from '@/types/whatsapp-webhook-events';
+import { claimIdempotencyKey, releaseIdempotencyKey } from '@/lib/idempotency';
+import { logger } from '@/lib/logger';
+import {
+  detectAutoReplyLocale,
+  getBusinessHoursPlaceholders,
+  resolveAutoReply,
+  type AutoReplyDecision,
+  type AutoReplyInput,
+} from '@/lib/whatsapp/auto-reply-flow';
+import { getAutoReplySessionStore } from '@/lib/whatsapp/auto-reply-sessions';
+import { isWithinBusinessHours } from '@/lib/whatsapp/business-hours';
+import { recordOutboundMessage } from '@/lib/whatsapp/conversations/inbox';
+import { getWebhookGuardConfig } from '@/lib/whatsapp/webhook-replay-guard';
+import { siteFacts } from '@/config/site-facts';
+import {
+  WHATSAPP_AUTO_REPLY_FLOWS,
+  type AutoReplyContent,
+} from '@/config/whatsapp-auto-reply';
+import { routing } from '@/i18n/routing-config';
+
+const REPLY_KEY_PREFIX = 'whatsapp-auto-reply';
+
+interface IncomingReplyFields {
+  text?: { body?: unknown };
+  interactive?: {
+    button_reply?: { id?: string; title?: string };
+    list_reply?: { id?: string; title?: string };
+  };
+  button?: { payload?: string; text?: string };
+}
+
+/**
+ * Text and tapped reply ID of an incoming message
+ */
+export function getAutoReplyInput(event: MessageReceivedEvent): AutoReplyInput {
+  const { text, interactive, button } = event.message as IncomingReplyFields;
+  const selected = interactive?.button_reply ?? interactive?.list_reply;
+
+  return {
+    text:
+      typeof text?.body === 'string'
+        ? text.body
+        : (selected?.title ?? button?.text),
+    replyId: selected?.id ?? button?.payload,
+  };
+}
+
+async function sendAutoReply(
+  to: string,
+  content: AutoReplyContent,
+): Promise<WhatsAppServiceResponse> {
+  // Lazy import to avoid circular dependencies
+  const { sendWhatsAppButtons, sendWhatsAppList, sendWhatsAppText } =
+    await import('@/lib/whatsapp-service');
+
+  if (content.type === 'buttons') {
+    return sendWhatsAppButtons({
+      to,
+      bodyText: content.body,
+      buttons: content.buttons,
+      ...(content.footer ? { footerText: content.footer } : {}),
+    });
+  }
+  if (content.type === 'list') {
+    return sendWhatsAppList({
+      to,
+      bodyText: content.body,
+      buttonText: content.buttonText,
+      sections: [{ rows: content.rows }],
+      ...(content.footer ? { options: { footerText: content.footer } } : {}),
+    });
+  }
+  return sendWhatsAppText(to, content.text);
+}
+
+/**
+ * Claim the reply to an inbound message
+ *
+ * @returns false when the message was already answered. Messages without
+ * an ID and store errors fail open.
+ */
+async function claimReply(messageId: string | undefined): Promise<boolean> {
+  if (!messageId) return true;
+  try {
+    return await claimIdempotencyKey(
+      `${REPLY_KEY_PREFIX}:${messageId}`,
+      getWebhookGuardConfig().dedupWindowMs,
+    );
+  } catch (error) {
+    logger.warn('[WhatsAppWebhook] Auto-reply dedup unavailable, replying', {
+      messageId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return true;
+  }
+}
+
+async function releaseReply(messageId: string | undefined): Promise<void> {
+  if (!messageId) return;
+  try {
+    await releaseIdempotencyKey(`${REPLY_KEY_PREFIX}:${messageId}`);
+  } catch (error) {
+    logger.warn('[WhatsAppWebhook] Failed to release auto-reply claim', {
+      messageId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Resolve the reply and advance the sender's session
+ */
+async function decideAutoReply(
+  from: string,
+  input: AutoReplyInput,
+): Promise<AutoReplyDecision> {
+  const sessions = getAutoReplySessionStore();
+  const session = await sessions.get(from);
+  const locale =
+    session && routing.locales.includes(session.locale)
+      ? session.locale
+      : detectAutoReplyLocale(input.text, from);
+  const { businessHours } = siteFacts.contact;
+
+  const decision = resolveAutoReply(input, {
+    // eslint-disable-next-line security/detect-object-injection -- locale is one of routing.locales
+    flow: WHATSAPP_AUTO_REPLY_FLOWS[locale],
+    session,
+    open: isWithinBusinessHours(businessHours),
+    placeholders: getBusinessHoursPlaceholders(businessHours),
+  });
+  await sessions.save(from, {
+    locale,
+    ...(decision.step ? { step: decision.step } : {}),
+  });
+  return decision;
+}
+
+/**
+ * Send the reply; when it throws, the claim is released so the webhook
+ * retry can answer the message
+ */
+async function replyOrRelease(
+  from: string,
+  input: AutoReplyInput,
+  inboundId: string | undefined,
+): Promise<{ decision: AutoReplyDecision; result: WhatsAppServiceResponse }> {
+  try {
+    const decision = await decideAutoReply(from, input);
+    const result = await sendAutoReply(from, decision.content);
+    return { decision, result };
+  } catch (error) {
+    await releaseReply(inboundId);
+    throw error;
+  }
+}
+
+/**
+ * Webhook processor that answers incoming messages
+ */
+export const autoReplyProcessor: WebhookProcessor = {
+  async onMessageReceived(event: MessageReceivedEvent): Promise<void> {
+    const { from } = event;
+    const input = getAutoReplyInput(event);
+
+    logger.info(
+      `[WhatsAppWebhook] Received message from ${from}: ${input.text?.substring(0, 50)}`,
+    );
+    if (!input.text && !input.replyId) return;
+
+    const inboundId = event.message.id;
+    if (!(await claimReply(inboundId))) {
+      logger.info(
+        `[WhatsAppWebhook] Auto-reply to ${inboundId} already sent, skipping`,
+      );
+      return;
+    }
+
+    const { decision, result } = await replyOrRelease(from, input, inboundId);
+    const { content } = decision;
+    if (!result.success) {
+      logger.warn(
+        `[WhatsAppWebhook] Failed to send auto-reply: ${result.error}`,
+      );
+      return;
+    }
+
+    logger.info(
+      `[WhatsAppWebhook] Auto-reply (${decision.match}) sent to ${from}`,
+    );
+    const messageId = result.data?.messages?.[0]?.id;
+    if (messageId) {
+      await recordOutboundMessage({
+        messageId,
+        to: from,
+        type: content.type === 'text' ? 'text' : 'interactive',
+        text: content.type === 'text' ? content.text : content.body,
+        sentBy: 'auto_reply',
+      });
+    }
+  },
+};
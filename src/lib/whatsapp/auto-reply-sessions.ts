@@ -0,0 +1,129 @@
+/**
+ * WhatsApp Auto-Reply Sessions
+ *
+ * Per-sender flow state: the language the conversation is held in and
+ * whether a numbered menu is waiting for a choice. Sessions expire after
+ * 30 minutes of inactivity.
+ *
+ * Store resolution order:
+ * 1. WHATSAPP_AUTO_REPLY_SESSION_STORE=memory forces the in-memory store
+ * 2. Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 3. Vercel KV (KV_REST_API_URL + KV_REST_API_TOKEN)
+ * 4. In-memory store (single instance only)
+ */
+
+import { logger } from '@/lib/logger';
+import { getRedisRestConfig, RedisRestClient } from '@/lib/redis-rest';
+import { MILLISECONDS_PER_MINUTE } from '@/constants';
+import type { Locale } from '@/i18n/routing-config';
+
+export interface AutoReplySession {
+  locale: Locale;
+  /** `menu` while a numbered menu waits for the sender's choice */
+  step?: 'menu';
+}
+
+export interface AutoReplySessionStore {
+  get(phone: string): Promise<AutoReplySession | null>;
+  save(phone: string, session: AutoReplySession): Promise<void>;
+}
+
+const SESSION_TTL_MINUTES = 30;
+const SESSION_TTL_MS = SESSION_TTL_MINUTES * MILLISECONDS_PER_MINUTE;
+const KEY_PREFIX = 'whatsapp-auto-reply';
+
+export class MemoryAutoReplySessionStore implements AutoReplySessionStore {
+  private sessions = new Map<
+    string,
+    { session: AutoReplySession; expiresAt: number }
+  >();
+
+  get(phone: string): Promise<AutoReplySession | null> {
+    const entry = this.sessions.get(phone);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.sessions.delete(phone);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve({ ...entry.session });
+  }
+
+  save(phone: string, session: AutoReplySession): Promise<void> {
+    this.sessions.set(phone, {
+      session: { ...session },
+      expiresAt: Date.now() + SESSION_TTL_MS,
+    });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Redis REST store (Upstash Redis / Vercel KV)
+ */
+export class RedisAutoReplySessionStore implements AutoReplySessionStore {
+  private redis: RedisRestClient;
+
+  constructor(url: string, token: string) {
+    this.redis = new RedisRestClient(url, token, 'Auto-reply session store');
+  }
+
+  async get(phone: string): Promise<AutoReplySession | null> {
+    const raw = await this.redis.command<string | null>([
+      'GET',
+      `${KEY_PREFIX}:${phone}`,
+    ]);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as AutoReplySession;
+    } catch {
+      logger.warn('[WhatsAppAutoReply] Ignoring unreadable session');
+      return null;
+    }
+  }
+
+  async save(phone: string, session: AutoReplySession): Promise<void> {
+    await this.redis.command([
+      'SET',
+      `${KEY_PREFIX}:${phone}`,
+      JSON.stringify(session),
+      'PX',
+      SESSION_TTL_MS,
+    ]);
+  }
+}
+
+function createAutoReplySessionStore(): AutoReplySessionStore {
+  const redis =
+    process.env.WHATSAPP_AUTO_REPLY_SESSION_STORE === 'memory'
+      ? null
+      : getRedisRestConfig();
+  if (redis) {
+    return new RedisAutoReplySessionStore(redis.url, redis.token);
+  }
+  return new MemoryAutoReplySessionStore();
+}
+
+let sessionStore: AutoReplySessionStore | null = null;
+
+/**
+ * Get the active session store (created lazily)
+ */
+export function getAutoReplySessionStore(): AutoReplySessionStore {
+  if (!sessionStore) {
+    sessionStore = createAutoReplySessionStore();
+  }
+  return sessionStore;
+}
+
+/**
+ * Plug in a custom store implementation
+ */
+export function setAutoReplySessionStore(store: AutoReplySessionStore): void {
+  sessionStore = store;
+}
+
+/**
+ * Reset store instance (for testing)
+ */
+export function resetAutoReplySessionStore(): void {
+  sessionStore = null;
+}
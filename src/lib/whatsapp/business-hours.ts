@@ -0,0 +1,75 @@
+/**
+ * Business hours check for WhatsApp auto-replies
+ *
+ * Hours come from `siteFacts.contact.businessHours` (`H:MM - H:MM` ranges in
+ * the configured time zone). Without configured hours the business is
+ * treated as always open.
+ */
+
+import type { BusinessHours } from '@/config/site-facts';
+import { MINUTES_PER_HOUR } from '@/constants';
+
+const HOURS_RANGE_PATTERN = /^(\d{1,2}):(\d{2})\s*[-–]\s*(\d{1,2}):(\d{2})$/;
+const DEFAULT_TIME_ZONE = 'UTC';
+
+interface MinuteRange {
+  start: number;
+  end: number;
+}
+
+function parseHoursRange(value: string): MinuteRange | null {
+  const match = HOURS_RANGE_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, startHour, startMinute, endHour, endMinute] = match;
+  return {
+    start: Number(startHour) * MINUTES_PER_HOUR + Number(startMinute),
+    end: Number(endHour) * MINUTES_PER_HOUR + Number(endMinute),
+  };
+}
+
+/**
+ * Weekday (`Mon`…`Sun`) and minutes since midnight in the given time zone
+ */
+function getLocalTime(
+  now: Date,
+  timeZone: string,
+): { weekday: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((entry) => entry.type === type)?.value ?? '';
+
+  return {
+    weekday: part('weekday'),
+    minutes: Number(part('hour')) * MINUTES_PER_HOUR + Number(part('minute')),
+  };
+}
+
+function hoursForDay(hours: BusinessHours, weekday: string): string | null {
+  if (weekday === 'Sat') return hours.saturday;
+  if (weekday === 'Sun') return hours.sundayClosed ? null : hours.saturday;
+  return hours.weekdays;
+}
+
+export function isWithinBusinessHours(
+  hours: BusinessHours | undefined,
+  now: Date = new Date(),
+): boolean {
+  if (!hours) return true;
+
+  const { weekday, minutes } = getLocalTime(
+    now,
+    hours.timeZone ?? DEFAULT_TIME_ZONE,
+  );
+  const dayHours = hoursForDay(hours, weekday);
+  if (!dayHours) return false;
+
+  const range = parseHoursRange(dayHours);
+  if (!range) return true;
+  return minutes >= range.start && minutes < range.end;
+}
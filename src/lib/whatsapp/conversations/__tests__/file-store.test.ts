@@ -0,0 +1,228 @@
+/**
+ * Conversation Store Tests
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileConversationStore } from '../file-store';
+import { MAX_THREAD_MESSAGES, MemoryConversationStore } from '../memory-store';
+import {
+  CONVERSATION_DIRECTIONS,
+  type ConversationMessage,
+  type ConversationStore,
+} from '../types';
+
+function buildMessage(
+  id: string,
+  overrides: Partial<ConversationMessage> = {},
+): ConversationMessage {
+  return {
+    id,
+    phone: '8613800000000',
+    direction: CONVERSATION_DIRECTIONS.INBOUND,
+    type: 'text',
+    text: `message ${id}`,
+    timestamp: '2026-03-02T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function describeStore(
+  name: string,
+  createStore: () => ConversationStore | Promise<ConversationStore>,
+) {
+  describe(name, () => {
+    it('should summarize inbound and outbound messages', async () => {
+      const store = await createStore();
+
+      await store.appendMessage(buildMessage('in-1'), 'Alice');
+      await store.appendMessage(
+        buildMessage('in-2', { timestamp: '2026-03-02T10:05:00.000Z' }),
+      );
+      const thread = await store.getThread('8613800000000', 10);
+
+      expect(thread?.conversation).toEqual({
+        phone: '8613800000000',
+        contactName: 'Alice',
+        messageCount: 2,
+        unreadCount: 2,
+        lastMessageAt: '2026-03-02T10:05:00.000Z',
+        lastDirection: 'inbound',
+        lastMessagePreview: 'message in-2',
+        lastInboundAt: '2026-03-02T10:05:00.000Z',
+      });
+
+      await store.appendMessage(
+        buildMessage('out-1', {
+          direction: CONVERSATION_DIRECTIONS.OUTBOUND,
+          templateName: 'follow_up',
+          text: undefined,
+          status: 'accepted',
+          timestamp: '2026-03-02T10:06:00.000Z',
+        }),
+      );
+      const updated = await store.getThread('8613800000000', 10);
+
+      expect(updated?.conversation).toMatchObject({
+        messageCount: 3,
+        unreadCount: 0,
+        lastDirection: 'outbound',
+        lastMessagePreview: '[template: follow_up]',
+        lastInboundAt: '2026-03-02T10:05:00.000Z',
+      });
+      expect(updated?.messages.map((message) => message.id)).toEqual([
+        'in-1',
+        'in-2',
+        'out-1',
+      ]);
+    });
+
+    it('should ignore messages that are already stored', async () => {
+      const store = await createStore();
+
+      expect(await store.appendMessage(buildMessage('in-1'))).toBe(true);
+      expect(await store.appendMessage(buildMessage('in-1'))).toBe(false);
+
+      const thread = await store.getThread('8613800000000', 10);
+      expect(thread?.messages).toHaveLength(1);
+      expect(thread?.conversation.messageCount).toBe(1);
+    });
+
+    it('should attach media ingestion outcomes to media messages', async () => {
+      const store = await createStore();
+      await store.appendMessage(
+        buildMessage('in-media', {
+          type: 'image',
+          text: undefined,
+          media: { id: 'media-1', mimeType: 'image/jpeg' },
+        }),
+      );
+      const ingestion = {
+        status: 'stored' as const,
+        storageKey: '8613800000000/in-media.jpg',
+        ingestedAt: '2026-03-02T10:00:05.000Z',
+      };
+
+      await store.updateMediaIngestion('8613800000000', 'in-media', ingestion);
+
+      const thread = await store.getThread('8613800000000', 10);
+      expect(thread?.messages[0]?.media).toEqual({
+        id: 'media-1',
+        mimeType: 'image/jpeg',
+        ingestion,
+      });
+    });
+
+    it('should never move a message status backwards', async () => {
+      const store = await createStore();
+      await store.appendMessage(
+        buildMessage('out-1', {
+          direction: CONVERSATION_DIRECTIONS.OUTBOUND,
+          status: 'accepted',
+        }),
+      );
+
+      await store.updateMessageStatus('8613800000000', 'out-1', 'read');
+      await store.updateMessageStatus('8613800000000', 'out-1', 'delivered');
+
+      const thread = await store.getThread('8613800000000', 10);
+      expect(thread?.messages[0]?.status).toBe('read');
+    });
+
+    it('should list conversations newest first', async () => {
+      const store = await createStore();
+      await store.appendMessage(buildMessage('a-1', { phone: '111' }));
+      await store.appendMessage(
+        buildMessage('b-1', {
+          phone: '222',
+          timestamp: '2026-03-02T11:00:00.000Z',
+        }),
+      );
+
+      const conversations = await store.listConversations(10);
+
+      expect(conversations.map((conversation) => conversation.phone)).toEqual([
+        '222',
+        '111',
+      ]);
+      expect(await store.listConversations(1)).toHaveLength(1);
+    });
+
+    it('should return the most recent messages of a thread', async () => {
+      const store = await createStore();
+      await store.appendMessage(buildMessage('in-1'));
+      await store.appendMessage(buildMessage('in-2'));
+      await store.appendMessage(buildMessage('in-3'));
+
+      const thread = await store.getThread('8613800000000', 2);
+
+      expect(thread?.messages.map((message) => message.id)).toEqual([
+        'in-2',
+        'in-3',
+      ]);
+      expect(await store.getThread('999', 10)).toBeNull();
+    });
+  });
+}
+
+describeStore('MemoryConversationStore', () => new MemoryConversationStore());
+
+describe('thread limits', () => {
+  it('should cap stored threads', async () => {
+    const store = new MemoryConversationStore();
+    for (let i = 0; i <= MAX_THREAD_MESSAGES; i += 1) {
+      await store.appendMessage(buildMessage(`in-${i}`));
+    }
+
+    const thread = await store.getThread('8613800000000', MAX_THREAD_MESSAGES);
+
+    expect(thread?.messages).toHaveLength(MAX_THREAD_MESSAGES);
+    expect(thread?.messages[0]?.id).toBe('in-1');
+  });
+});
+
+describe('FileConversationStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'whatsapp-conv-'));
+    filePath = path.join(dir, 'nested', 'conversations.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describeStore('shared behaviour', () => new FileConversationStore(filePath));
+
+  it('should persist conversations across store instances', async () => {
+    await new FileConversationStore(filePath).appendMessage(
+      buildMessage('in-1'),
+      'Alice',
+    );
+
+    const thread = await new FileConversationStore(filePath).getThread(
+      '8613800000000',
+      10,
+    );
+
+    expect(thread?.conversation.contactName).toBe('Alice');
+    expect(thread?.messages).toHaveLength(1);
+  });
+
+  it('should serialize concurrent appends', async () => {
+    const store = new FileConversationStore(filePath);
+
+    await Promise.all(
+      ['in-1', 'in-2', 'in-3'].map((id) =>
+        store.appendMessage(buildMessage(id)),
+      ),
+    );
+
+    const thread = await store.getThread('8613800000000', 10);
+    expect(thread?.conversation.messageCount).toBe(3);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * WhatsApp Agent Inbox Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MessageReceivedEvent } from '@/types/whatsapp-webhook-events';
+import {
+  conversationProcessor,
+  getServiceWindow,
+  recordOutboundMessage,
+  replyToConversation,
+  toInboundMessage,
+} from '../inbox';
+import { MemoryConversationStore } from '../memory-store';
+import { resetConversationStore, setConversationStore } from '../store';
+
+const mockSendWhatsAppText = vi.hoisted(() => vi.fn());
+const mockSendWhatsAppTemplate = vi.hoisted(() => vi.fn());
+const mockRecordAcceptedMessage = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  sendWhatsAppText: mockSendWhatsAppText,
+  sendWhatsAppTemplate: mockSendWhatsAppTemplate,
+}));
+
+vi.mock('@/lib/whatsapp/delivery-status', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/whatsapp/delivery-status')>()),
+  recordAcceptedMessage: mockRecordAcceptedMessage,
+}));
+
+vi.mock('@/lib/whatsapp-templates.generated', () => ({
+  WHATSAPP_TEMPLATE_REGISTRY: [
+    {
+      name: 'follow_up',
+      languages: ['en', 'de'],
+      category: 'UTILITY',
+      body: [],
+    },
+  ],
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const NOW = new Date('2026-03-02T12:00:00.000Z');
+const PHONE = '8613800000000';
+
+function buildInboundEvent(
+  timestamp: string,
+  message: Record<string, unknown> = {
+    id: 'wamid.in-1',
+    type: 'text',
+    text: { body: 'Do you ship to Germany?' },
+  },
+): MessageReceivedEvent {
+  return {
+    type: 'message_received',
+    from: PHONE,
+    timestamp,
+    phone_number_id: 'phone-id',
+    message,
+    contact: { wa_id: PHONE, profile: { name: 'Alice' } },
+  } as unknown as MessageReceivedEvent;
+}
+
+function sendResult(id: string) {
+  return { success: true, data: { messages: [{ id }] } };
+}
+
+describe('WhatsApp agent inbox', () => {
+  let store: MemoryConversationStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    store = new MemoryConversationStore();
+    setConversationStore(store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    resetConversationStore();
+  });
+
+  describe('getServiceWindow', () => {
+    it('should be closed without an inbound message', () => {
+      expect(getServiceWindow(null, NOW)).toEqual({ open: false });
+      expect(getServiceWindow({}, NOW)).toEqual({ open: false });
+    });
+
+    it('should stay open for 24 hours after the last inbound message', () => {
+      expect(
+        getServiceWindow({ lastInboundAt: '2026-03-01T12:00:01.000Z' }, NOW),
+      ).toEqual({ open: true, expiresAt: '2026-03-02T12:00:01.000Z' });
+      expect(
+        getServiceWindow({ lastInboundAt: '2026-03-01T12:00:00.000Z' }, NOW),
+      ).toEqual({ open: false, expiresAt: '2026-03-02T12:00:00.000Z' });
+    });
+  });
+
+  describe('toInboundMessage', () => {
+    it('should keep media references and captions', () => {
+      const message = toInboundMessage(
+        buildInboundEvent('2026-03-02T11:00:00.000Z', {
+          id: 'wamid.img',
+          type: 'image',
+          image: { id: 'media-1', mime_type: 'image/jpeg', caption: 'Spec' },
+        }),
+      );
+
+      expect(message).toEqual({
+        id: 'wamid.img',
+        phone: PHONE,
+        direction: 'inbound',
+        type: 'image',
+        media: { id: 'media-1', mimeType: 'image/jpeg', caption: 'Spec' },
+        timestamp: '2026-03-02T11:00:00.000Z',
+      });
+    });
+
+    it('should use interactive reply titles as text', () => {
+      const message = toInboundMessage(
+        buildInboundEvent('2026-03-02T11:00:00.000Z', {
+          id: 'wamid.btn',
+          type: 'interactive',
+          interactive: { button_reply: { id: 'yes', title: 'Yes please' } },
+        }),
+      );
+
+      expect(message.text).toBe('Yes please');
+    });
+  });
+
+  describe('conversationProcessor', () => {
+    it('should store inbound messages and outbound statuses', async () => {
+      await conversationProcessor.onMessageReceived?.(
+        buildInboundEvent('2026-03-02T11:00:00.000Z'),
+      );
+      await recordOutboundMessage({
+        messageId: 'wamid.out-1',
+        to: `+${PHONE}`,
+        type: 'text',
+        text: 'Yes, we do.',
+        sentBy: 'alice',
+      });
+      await conversationProcessor.onMessageStatus?.({
+        type: 'message_status',
+        timestamp: NOW.toISOString(),
+        phone_number_id: 'phone-id',
+        status_update: {
+          id: 'wamid.out-1',
+          status: 'delivered',
+          timestamp: '1772452800',
+          recipient_id: PHONE,
+        },
+      } as never);
+
+      const thread = await store.getThread(PHONE, 10);
+
+      expect(thread?.conversation.contactName).toBe('Alice');
+      expect(thread?.messages).toEqual([
+        expect.objectContaining({
+          id: 'wamid.in-1',
+          text: 'Do you ship to Germany?',
+        }),
+        expect.objectContaining({
+          id: 'wamid.out-1',
+          direction: 'outbound',
+          sentBy: 'alice',
+          status: 'delivered',
+        }),
+      ]);
+    });
+  });
+
+  describe('replyToConversation', () => {
+    it('should send free-form text inside the service window', async () => {
+      await store.appendMessage(
+        toInboundMessage(buildInboundEvent('2026-03-02T11:00:00.000Z')),
+      );
+      mockSendWhatsAppText.mockResolvedValue(sendResult('wamid.reply-1'));
+
+      const result = await replyToConversation(`+${PHONE}`, {
+        text: 'Yes, we do.',
+        agent: 'alice',
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        mode: 'text',
+        messageId: 'wamid.reply-1',
+        serviceWindow: { open: true },
+      });
+      expect(mockSendWhatsAppText).toHaveBeenCalledWith(PHONE, 'Yes, we do.');
+      expect(mockRecordAcceptedMessage).toHaveBeenCalledWith(
+        'wamid.reply-1',
+        PHONE,
+      );
+      const thread = await store.getThread(PHONE, 10);
+      expect(thread?.messages.at(-1)).toMatchObject({
+        id: 'wamid.reply-1',
+        text: 'Yes, we do.',
+        sentBy: 'alice',
+      });
+    });
+
+    it('should refuse free-form text outside the window without a fallback', async () => {
+      await store.appendMessage(
+        toInboundMessage(buildInboundEvent('2026-03-01T08:00:00.000Z')),
+      );
+
+      const result = await replyToConversation(PHONE, {
+        text: 'Following up',
+        agent: 'alice',
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: 'service_window_closed',
+        serviceWindow: { open: false },
+      });
+      expect(mockSendWhatsAppText).not.toHaveBeenCalled();
+      expect(mockSendWhatsAppTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the configured template outside the window', async () => {
+      vi.stubEnv('WHATSAPP_INBOX_FALLBACK_TEMPLATE', 'follow_up');
+      vi.stubEnv('WHATSAPP_INBOX_FALLBACK_LANGUAGE', 'de');
+      mockSendWhatsAppTemplate.mockResolvedValue(sendResult('wamid.tpl-1'));
+
+      const result = await replyToConversation(PHONE, {
+        text: 'Following up',
+        agent: 'alice',
+      });
+
+      expect(result).toMatchObject({ success: true, mode: 'template' });
+      expect(mockSendWhatsAppTemplate).toHaveBeenCalledWith({
+        to: PHONE,
+        templateName: 'follow_up',
+        languageCode: 'de',
+      });
+      const thread = await store.getThread(PHONE, 10);
+      expect(thread?.messages[0]).toMatchObject({
+        templateName: 'follow_up',
+        type: 'template',
+      });
+    });
+
+    it('should refuse templates missing from the registry', async () => {
+      vi.stubEnv('WHATSAPP_INBOX_FALLBACK_TEMPLATE', 'follow_up');
+      vi.stubEnv('WHATSAPP_INBOX_FALLBACK_LANGUAGE', 'fr');
+
+      const result = await replyToConversation(PHONE, {
+        text: 'Following up',
+        agent: 'alice',
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: 'invalid_template',
+      });
+      expect(result.error).toContain('not approved in fr');
+      expect(mockSendWhatsAppTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should check template parameters against the registry', async () => {
+      const result = await replyToConversation(PHONE, {
+        template: {
+          name: 'follow_up',
+          languageCode: 'en',
+          parameters: ['Alice'],
+        },
+        agent: 'alice',
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: 'invalid_template',
+      });
+      expect(result.error).toContain('Body expects 0 parameters, got 1');
+      expect(mockSendWhatsAppTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should report send failures', async () => {
+      await store.appendMessage(
+        toInboundMessage(buildInboundEvent('2026-03-02T11:00:00.000Z')),
+      );
+      mockSendWhatsAppText.mockResolvedValue({
+        success: false,
+        error: 'Rate limited',
+      });
+
+      const result = await replyToConversation(PHONE, {
+        text: 'Hello',
+        agent: 'alice',
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        errorCode: 'send_failed',
+        error: 'Rate limited',
+      });
+      expect(mockRecordAcceptedMessage).not.toHaveBeenCalled();
+    });
+  });
+});
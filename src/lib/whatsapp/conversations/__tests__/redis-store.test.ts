@@ -0,0 +1,77 @@
+/**
+ * Redis Conversation Store Tests
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RedisConversationStore } from '../redis-store';
+import { CONVERSATION_DIRECTIONS, type ConversationMessage } from '../types';
+
+const MESSAGE: ConversationMessage = {
+  id: 'wamid.in-1',
+  phone: '8613800000000',
+  direction: CONVERSATION_DIRECTIONS.INBOUND,
+  type: 'text',
+  text: 'Do you ship to Rotterdam?',
+  timestamp: '2026-03-02T10:00:00.000Z',
+};
+
+describe('RedisConversationStore.appendMessage', () => {
+  const fetchMock = vi.fn();
+  let store: RedisConversationStore;
+
+  function reply(result: unknown) {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ result })));
+  }
+
+  function sentCommands(): Array<Array<string | number>> {
+    return fetchMock.mock.calls.map(
+      ([, init]) => JSON.parse(String((init as RequestInit).body)) as [],
+    );
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    store = new RedisConversationStore('https://redis.example.com', 't');
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('marks the message seen and writes it in one script', async () => {
+    reply(1);
+
+    await expect(store.appendMessage(MESSAGE, 'Alice')).resolves.toBe(true);
+
+    const commands = sentCommands();
+    expect(commands).toHaveLength(1);
+    const [command, , keyCount, ...rest] = commands[0]!;
+    expect(command).toBe('EVAL');
+    expect(keyCount).toBe(4);
+    expect(rest.slice(0, 4)).toEqual([
+      'whatsapp-conv:seen:wamid.in-1',
+      'whatsapp-conv:8613800000000:messages',
+      'whatsapp-conv:8613800000000',
+      'whatsapp-conv:index',
+    ]);
+    expect(rest).toEqual(
+      expect.arrayContaining([JSON.stringify(MESSAGE), 'contactName', 'Alice']),
+    );
+  });
+
+  it('reports webhook retries of a stored message', async () => {
+    reply(0);
+
+    await expect(store.appendMessage(MESSAGE)).resolves.toBe(false);
+  });
+
+  it('leaves nothing marked seen when the write fails', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+
+    await expect(store.appendMessage(MESSAGE)).rejects.toThrow(
+      'Conversation store request failed: 503',
+    );
+    expect(sentCommands()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * File-backed WhatsApp conversation store
+ * Default store for local development and single-instance deployments.
+ * Conversations are kept in one JSON document that is rewritten atomically.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  appendToConversation,
+  applyMediaIngestion,
+  applyMessageStatus,
+  selectRecentConversations,
+  toThread,
+  type StoredConversation,
+} from '@/lib/whatsapp/conversations/memory-store';
+import type {
+  ConversationMessage,
+  ConversationStore,
+  ConversationSummary,
+  ConversationThread,
+} from '@/lib/whatsapp/conversations/types';
+import type { WhatsAppDeliveryState } from '@/lib/whatsapp/delivery-status';
+import type { MediaIngestion } from '@/lib/whatsapp/media/types';
+
+interface ConversationDocument {
+  conversations: StoredConversation[];
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    'code' in error &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
+
+export class FileConversationStore implements ConversationStore {
+  private filePath: string;
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  private async readConversations(): Promise<StoredConversation[]> {
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+      const raw = await readFile(this.filePath, 'utf8');
+      const document = JSON.parse(raw) as Partial<ConversationDocument>;
+      return Array.isArray(document.conversations)
+        ? document.conversations
+        : [];
+    } catch (error) {
+      if (isMissingFileError(error)) return [];
+      throw error;
+    }
+  }
+
+  private async writeConversations(
+    conversations: StoredConversation[],
+  ): Promise<void> {
+    const document: ConversationDocument = { conversations };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+    await writeFile(tempPath, JSON.stringify(document, null, 2), 'utf8');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path comes from server configuration, not user input
+    await rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Serialize read-modify-write cycles within this process
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.writeChain.then(operation, operation);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Replace one conversation; `update` returns null to skip the write
+   */
+  private updateConversation(
+    phone: string,
+    update: (
+      stored: StoredConversation | undefined,
+    ) => StoredConversation | null,
+  ): Promise<boolean> {
+    return this.enqueue(async () => {
+      const conversations = await this.readConversations();
+      const index = conversations.findIndex(
+        (stored) => stored.conversation.phone === phone,
+      );
+      const updated = update(conversations.at(index));
+      if (!updated) return false;
+
+      if (index === -1) {
+        conversations.push(updated);
+      } else {
+        conversations.splice(index, 1, updated);
+      }
+      await this.writeConversations(conversations);
+      return true;
+    });
+  }
+
+  appendMessage(
+    message: ConversationMessage,
+    contactName?: string,
+  ): Promise<boolean> {
+    return this.updateConversation(message.phone, (stored) =>
+      appendToConversation(stored, message, contactName),
+    );
+  }
+
+  async updateMessageStatus(
+    phone: string,
+    messageId: string,
+    status: WhatsAppDeliveryState,
+  ): Promise<void> {
+    await this.updateConversation(phone, (stored) =>
+      stored ? applyMessageStatus(stored, messageId, status) : null,
+    );
+  }
+
+  async updateMediaIngestion(
+    phone: string,
+    messageId: string,
+    ingestion: MediaIngestion,
+  ): Promise<void> {
+    await this.updateConversation(phone, (stored) =>
+      stored ? applyMediaIngestion(stored, messageId, ingestion) : null,
+    );
+  }
+
+  async listConversations(limit: number): Promise<ConversationSummary[]> {
+    return selectRecentConversations(await this.readConversations(), limit);
+  }
+
+  async getThread(
+    phone: string,
+    limit: number,
+  ): Promise<ConversationThread | null> {
+    const conversations = await this.readConversations();
+    return toThread(
+      conversations.find((stored) => stored.conversation.phone === phone),
+      limit,
+    );
+  }
+}
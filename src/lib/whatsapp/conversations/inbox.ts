@@ -0,0 +1,360 @@
+/**
+ * WhatsApp Agent Inbox
+ *
+ * Records inbound and outbound messages per customer phone number and
+ * sends agent replies. Free-form replies are only allowed inside Meta's
+ * 24-hour customer service window (opened by the customer's last message);
+ * outside it replies fall back to an approved template. Templates are
+ * checked against the template registry before sending.
+ */
+
+import type { WhatsAppServiceResponse } from '@/types/whatsapp';
+import type { TemplateComponent } from '@/types/whatsapp-template-types';
+import type {
+  MessageReceivedEvent,
+  MessageStatusEvent,
+  WebhookProcessor,
+} from '@/types/whatsapp-webhook-events';
+import { logger } from '@/lib/logger';
+import { getConversationStore } from '@/lib/whatsapp/conversations/store';
+import {
+  CONVERSATION_DIRECTIONS,
+  type ConversationMedia,
+  type ConversationMessage,
+  type ConversationSummary,
+} from '@/lib/whatsapp/conversations/types';
+import { recordAcceptedMessage } from '@/lib/whatsapp/delivery-status';
+import { validateTemplateSend } from '@/lib/whatsapp/template-registry';
+import { HOURS_PER_DAY, MILLISECONDS_PER_HOUR } from '@/constants';
+
+/**
+ * Meta's customer service window after the customer's last message
+ */
+export const SERVICE_WINDOW_MS = HOURS_PER_DAY * MILLISECONDS_PER_HOUR;
+
+const MEDIA_MESSAGE_TYPES = [
+  'image',
+  'document',
+  'audio',
+  'video',
+  'sticker',
+] as const;
+
+/**
+ * WhatsApp reports phone numbers as digits only (`wa_id`)
+ */
+export function normalizeConversationPhone(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
+
+export interface ServiceWindow {
+  open: boolean;
+  /** When free-form replies stop being accepted */
+  expiresAt?: string;
+}
+
+export function getServiceWindow(
+  conversation: Pick<ConversationSummary, 'lastInboundAt'> | null,
+  now: Date = new Date(),
+): ServiceWindow {
+  if (!conversation?.lastInboundAt) return { open: false };
+  const expiresAt = Date.parse(conversation.lastInboundAt) + SERVICE_WINDOW_MS;
+  return {
+    open: now.getTime() < expiresAt,
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+}
+
+interface IncomingMessageFields {
+  type?: string;
+  text?: { body?: string };
+  interactive?: {
+    button_reply?: { title?: string };
+    list_reply?: { title?: string };
+  };
+  button?: { text?: string };
+  reaction?: { emoji?: string };
+  location?: { name?: string; address?: string };
+}
+
+interface IncomingMedia {
+  id?: string;
+  mime_type?: string;
+  caption?: string;
+  filename?: string;
+}
+
+function extractText(message: IncomingMessageFields): string | undefined {
+  const { interactive, location } = message;
+  return (
+    message.text?.body ??
+    interactive?.button_reply?.title ??
+    interactive?.list_reply?.title ??
+    message.button?.text ??
+    message.reaction?.emoji ??
+    (location
+      ? [location.name, location.address].filter(Boolean).join(', ')
+      : undefined)
+  );
+}
+
+function extractMedia(
+  message: Record<string, unknown>,
+  type: string,
+): ConversationMedia | undefined {
+  if (!(MEDIA_MESSAGE_TYPES as readonly string[]).includes(type)) {
+    return undefined;
+  }
+  // eslint-disable-next-line security/detect-object-injection -- type is a MEDIA_MESSAGE_TYPES literal
+  const media = message[type] as IncomingMedia | undefined;
+  if (!media?.id) return undefined;
+  return {
+    id: media.id,
+    ...(media.mime_type ? { mimeType: media.mime_type } : {}),
+    ...(media.caption ? { caption: media.caption } : {}),
+    ...(media.filename ? { filename: media.filename } : {}),
+  };
+}
+
+/**
+ * Convert a webhook message into a stored conversation message
+ */
+export function toInboundMessage(
+  event: MessageReceivedEvent,
+): ConversationMessage {
+  const message = event.message as unknown as IncomingMessageFields &
+    Record<string, unknown>;
+  const type = message.type ?? (message.text ? 'text' : 'unknown');
+  const text = extractText(message);
+  const media = extractMedia(message, type);
+  const id = typeof message.id === 'string' ? message.id : '';
+
+  return {
+    id: id || `${event.from}:${event.timestamp}`,
+    phone: normalizeConversationPhone(event.from),
+    direction: CONVERSATION_DIRECTIONS.INBOUND,
+    type,
+    ...(text ? { text } : {}),
+    ...(media ? { media } : {}),
+    timestamp: event.timestamp,
+  };
+}
+
+/**
+ * Store an inbound message with the sender's profile name
+ */
+export async function recordInboundMessage(
+  event: MessageReceivedEvent,
+): Promise<void> {
+  await getConversationStore().appendMessage(
+    toInboundMessage(event),
+    event.contact?.profile?.name,
+  );
+}
+
+export interface OutboundMessageInput {
+  messageId: string;
+  to: string;
+  type: string;
+  text?: string | undefined;
+  templateName?: string | undefined;
+  sentBy: string;
+}
+
+/**
+ * Store a message accepted by the Cloud API
+ * Storage failures are logged; they never fail the send.
+ */
+export async function recordOutboundMessage(
+  input: OutboundMessageInput,
+): Promise<void> {
+  const { messageId, to, type, text, templateName, sentBy } = input;
+  try {
+    await getConversationStore().appendMessage({
+      id: messageId,
+      phone: normalizeConversationPhone(to),
+      direction: CONVERSATION_DIRECTIONS.OUTBOUND,
+      type,
+      ...(text ? { text } : {}),
+      ...(templateName ? { templateName } : {}),
+      status: 'accepted',
+      timestamp: new Date().toISOString(),
+      sentBy,
+    });
+  } catch (error) {
+    logger.warn('[WhatsAppConversations] Failed to record outbound message', {
+      messageId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Webhook processor that keeps conversation history
+ */
+export const conversationProcessor: WebhookProcessor = {
+  async onMessageReceived(event: MessageReceivedEvent): Promise<void> {
+    await recordInboundMessage(event);
+  },
+
+  async onMessageStatus(event: MessageStatusEvent): Promise<void> {
+    const { id, recipient_id: recipientId, status } = event.status_update;
+    await getConversationStore().updateMessageStatus(
+      normalizeConversationPhone(recipientId),
+      id,
+      status,
+    );
+  },
+};
+
+export interface InboxTemplate {
+  name: string;
+  languageCode: string;
+  parameters?: string[] | undefined;
+}
+
+export interface InboxReply {
+  text?: string | undefined;
+  /** Template to send; required outside the service window unless a fallback is configured */
+  template?: InboxTemplate | undefined;
+  /** Agent name recorded with the message */
+  agent: string;
+}
+
+export interface InboxReplyResult {
+  success: boolean;
+  mode?: 'text' | 'template';
+  messageId?: string;
+  serviceWindow: ServiceWindow;
+  error?: string;
+  /** `service_window_closed` when no template is available outside the window */
+  errorCode?: 'service_window_closed' | 'invalid_template' | 'send_failed';
+}
+
+/**
+ * Template used outside the service window when the agent picked none
+ */
+export function getFallbackTemplate(): InboxTemplate | undefined {
+  const name = process.env.WHATSAPP_INBOX_FALLBACK_TEMPLATE;
+  if (!name) return undefined;
+  return {
+    name,
+    languageCode: process.env.WHATSAPP_INBOX_FALLBACK_LANGUAGE || 'en',
+  };
+}
+
+/**
+ * Check a template against the registry
+ * Parameters are sent as body text parameters, as `sendWhatsAppTemplate`
+ * does.
+ */
+export function validateInboxTemplate(template: InboxTemplate): string[] {
+  const components: TemplateComponent[] = template.parameters?.length
+    ? [
+        {
+          type: 'body',
+          parameters: template.parameters.map((text) => ({
+            type: 'text',
+            text,
+          })),
+        },
+      ]
+    : [];
+
+  return validateTemplateSend({
+    name: template.name,
+    language: template.languageCode,
+    components,
+  }).errors;
+}
+
+async function sendReply(
+  to: string,
+  text: string | undefined,
+  template: InboxTemplate | undefined,
+): Promise<WhatsAppServiceResponse> {
+  // Lazy import to avoid circular dependencies
+  const { sendWhatsAppTemplate, sendWhatsAppText } =
+    await import('@/lib/whatsapp-service');
+  if (template) {
+    return sendWhatsAppTemplate({
+      to,
+      templateName: template.name,
+      languageCode: template.languageCode,
+      ...(template.parameters ? { parameters: template.parameters } : {}),
+    });
+  }
+  return sendWhatsAppText(to, text ?? '');
+}
+
+/**
+ * Decide how a reply is sent
+ * @returns the template to send, undefined for free-form text, or null when
+ *          the window is closed and no template is available
+ */
+function selectReplyTemplate(
+  reply: InboxReply,
+  serviceWindow: ServiceWindow,
+): InboxTemplate | undefined | null {
+  if (reply.template) return reply.template;
+  if (serviceWindow.open && reply.text) return undefined;
+  return getFallbackTemplate() ?? null;
+}
+
+/**
+ * Reply to a conversation as an agent
+ * Text is sent as-is inside the service window; outside it (or when the
+ * agent picked a template) a template message is sent instead.
+ */
+export async function replyToConversation(
+  phone: string,
+  reply: InboxReply,
+): Promise<InboxReplyResult> {
+  const to = normalizeConversationPhone(phone);
+  const thread = await getConversationStore().getThread(to, 1);
+  const serviceWindow = getServiceWindow(thread?.conversation ?? null);
+  const template = selectReplyTemplate(reply, serviceWindow);
+
+  if (template === null) {
+    return {
+      success: false,
+      serviceWindow,
+      errorCode: 'service_window_closed',
+      error:
+        'The 24-hour customer service window is closed; send an approved template',
+    };
+  }
+
+  const templateErrors = template ? validateInboxTemplate(template) : [];
+  if (templateErrors.length > 0) {
+    return {
+      success: false,
+      serviceWindow,
+      errorCode: 'invalid_template',
+      error: `Invalid template message: ${templateErrors.join('; ')}`,
+    };
+  }
+
+  const result = await sendReply(to, reply.text, template);
+  const messageId = result.data?.messages?.[0]?.id;
+  if (!result.success || !messageId) {
+    return {
+      success: false,
+      serviceWindow,
+      errorCode: 'send_failed',
+      error: result.error ?? 'Failed to send message',
+    };
+  }
+
+  const mode = template ? 'template' : 'text';
+  await recordAcceptedMessage(messageId, to);
+  await recordOutboundMessage({
+    messageId,
+    to,
+    type: mode,
+    text: template ? undefined : reply.text,
+    templateName: template?.name,
+    sentBy: reply.agent,
+  });
+  return { success: true, mode, messageId, serviceWindow };
+}
@@ -0,0 +1,213 @@
+/**
+ * In-memory WhatsApp conversation store
+ * Used in tests and as a last-resort fallback; history does not survive
+ * restarts.
+ */
+
+import {
+  CONVERSATION_DIRECTIONS,
+  type ConversationMessage,
+  type ConversationStore,
+  type ConversationSummary,
+  type ConversationThread,
+} from '@/lib/whatsapp/conversations/types';
+import {
+  laterDeliveryState,
+  type WhatsAppDeliveryState,
+} from '@/lib/whatsapp/delivery-status';
+import type { MediaIngestion } from '@/lib/whatsapp/media/types';
+
+/**
+ * Older messages are dropped once a thread grows past this size
+ */
+export const MAX_THREAD_MESSAGES = 500;
+const PREVIEW_LENGTH = 100;
+
+export interface StoredConversation {
+  conversation: ConversationSummary;
+  messages: ConversationMessage[];
+}
+
+/**
+ * Short text shown in the conversation list
+ */
+export function previewMessage(message: ConversationMessage): string {
+  const text =
+    message.text ??
+    message.media?.caption ??
+    (message.templateName
+      ? `[template: ${message.templateName}]`
+      : `[${message.type}]`);
+  return text.slice(0, PREVIEW_LENGTH);
+}
+
+/**
+ * Fold a new message into the conversation summary
+ */
+export function summarizeMessage(
+  previous: ConversationSummary | undefined,
+  message: ConversationMessage,
+  contactName?: string,
+): ConversationSummary {
+  const inbound = message.direction === CONVERSATION_DIRECTIONS.INBOUND;
+  const name = contactName ?? previous?.contactName;
+  const lastInboundAt = inbound ? message.timestamp : previous?.lastInboundAt;
+
+  return {
+    phone: message.phone,
+    ...(name ? { contactName: name } : {}),
+    messageCount: (previous?.messageCount ?? 0) + 1,
+    unreadCount: inbound ? (previous?.unreadCount ?? 0) + 1 : 0,
+    lastMessageAt: message.timestamp,
+    lastDirection: message.direction,
+    lastMessagePreview: previewMessage(message),
+    ...(lastInboundAt ? { lastInboundAt } : {}),
+  };
+}
+
+/**
+ * Append a message; returns null when the message ID is already stored
+ */
+export function appendToConversation(
+  stored: StoredConversation | undefined,
+  message: ConversationMessage,
+  contactName?: string,
+): StoredConversation | null {
+  if (stored?.messages.some((existing) => existing.id === message.id)) {
+    return null;
+  }
+  return {
+    conversation: summarizeMessage(stored?.conversation, message, contactName),
+    messages: [...(stored?.messages ?? []), message].slice(
+      -MAX_THREAD_MESSAGES,
+    ),
+  };
+}
+
+/**
+ * Apply a delivery state to a stored outbound message
+ */
+export function applyMessageStatus(
+  stored: StoredConversation,
+  messageId: string,
+  status: WhatsAppDeliveryState,
+): StoredConversation {
+  return {
+    ...stored,
+    messages: stored.messages.map((message) =>
+      message.id === messageId
+        ? {
+            ...message,
+            status: laterDeliveryState(message.status ?? 'accepted', status),
+          }
+        : message,
+    ),
+  };
+}
+
+/**
+ * Attach a media ingestion outcome to a stored media message
+ */
+export function applyMediaIngestion(
+  stored: StoredConversation,
+  messageId: string,
+  ingestion: MediaIngestion,
+): StoredConversation {
+  return {
+    ...stored,
+    messages: stored.messages.map((message) =>
+      message.id === messageId && message.media
+        ? { ...message, media: { ...message.media, ingestion } }
+        : message,
+    ),
+  };
+}
+
+/**
+ * Summaries ordered by latest message, newest first
+ */
+export function selectRecentConversations(
+  conversations: Iterable<StoredConversation>,
+  limit: number,
+): ConversationSummary[] {
+  return Array.from(conversations, (stored) => stored.conversation)
+    .sort((a, b) => Date.parse(b.lastMessageAt) - Date.parse(a.lastMessageAt))
+    .slice(0, limit);
+}
+
+/**
+ * The most recent messages of a thread, oldest first
+ */
+export function toThread(
+  stored: StoredConversation | undefined,
+  limit: number,
+): ConversationThread | null {
+  if (!stored) return null;
+  return {
+    conversation: stored.conversation,
+    messages: stored.messages.slice(-limit),
+  };
+}
+
+export class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, StoredConversation>();
+
+  appendMessage(
+    message: ConversationMessage,
+    contactName?: string,
+  ): Promise<boolean> {
+    const updated = appendToConversation(
+      this.conversations.get(message.phone),
+      message,
+      contactName,
+    );
+    if (updated) {
+      this.conversations.set(message.phone, updated);
+    }
+    return Promise.resolve(updated !== null);
+  }
+
+  updateMessageStatus(
+    phone: string,
+    messageId: string,
+    status: WhatsAppDeliveryState,
+  ): Promise<void> {
+    const stored = this.conversations.get(phone);
+    if (stored) {
+      this.conversations.set(
+        phone,
+        applyMessageStatus(stored, messageId, status),
+      );
+    }
+    return Promise.resolve();
+  }
+
+  updateMediaIngestion(
+    phone: string,
+    messageId: string,
+    ingestion: MediaIngestion,
+  ): Promise<void> {
+    const stored = this.conversations.get(phone);
+    if (stored) {
+      this.conversations.set(
+        phone,
+        applyMediaIngestion(stored, messageId, ingestion),
+      );
+    }
+    return Promise.resolve();
+  }
+
+  listConversations(limit: number): Promise<ConversationSummary[]> {
+    return Promise.resolve(
+      structuredClone(
+        selectRecentConversations(this.conversations.values(), limit),
+      ),
+    );
+  }
+
+  getThread(phone: string, limit: number): Promise<ConversationThread | null> {
+    return Promise.resolve(
+      structuredClone(toThread(this.conversations.get(phone), limit)),
+    );
+  }
+}
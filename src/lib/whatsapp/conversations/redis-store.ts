@@ -0,0 +1,279 @@
+/**
+ * Redis REST WhatsApp conversation store (Upstash Redis / Vercel KV)
+ *
+ * Each conversation is a hash holding its summary (counters are updated
+ * with HINCRBY so concurrent webhooks do not lose counts), a capped list of
+ * message JSON, a hash of outbound delivery states and a hash of inbound
+ * media ingestion outcomes. A sorted set orders
+ * phone numbers by their latest message, and a short-lived key per message
+ * ID drops webhook retries. A message is appended by one Lua script, so the
+ * seen key is never set without the writes it guards.
+ */
+
+import { logger } from '@/lib/logger';
+import { RedisRestClient } from '@/lib/redis-rest';
+import {
+  MAX_THREAD_MESSAGES,
+  previewMessage,
+} from '@/lib/whatsapp/conversations/memory-store';
+import {
+  CONVERSATION_DIRECTIONS,
+  type ConversationDirection,
+  type ConversationMessage,
+  type ConversationStore,
+  type ConversationSummary,
+  type ConversationThread,
+} from '@/lib/whatsapp/conversations/types';
+import {
+  laterDeliveryState,
+  type WhatsAppDeliveryState,
+} from '@/lib/whatsapp/delivery-status';
+import type { MediaIngestion } from '@/lib/whatsapp/media/types';
+import {
+  DAYS_PER_WEEK,
+  HOURS_PER_DAY,
+  MILLISECONDS_PER_HOUR,
+} from '@/constants';
+
+const KEY_PREFIX = 'whatsapp-conv';
+const INDEX_KEY = `${KEY_PREFIX}:index`;
+
+/**
+ * Meta retries undelivered webhooks for up to 7 days
+ */
+const SEEN_TTL_MS = DAYS_PER_WEEK * HOURS_PER_DAY * MILLISECONDS_PER_HOUR;
+
+/**
+ * Mark the message seen and write it, its summary and the index atomically
+ * KEYS: seen, messages, summary, index
+ * ARGV: seen TTL, message JSON, thread cap, index score, phone,
+ *       inbound flag, then the summary field/value pairs
+ * @returns 0 when the message was already seen, 1 when it was appended
+ */
+const APPEND_MESSAGE_SCRIPT = `
+if not redis.call('SET', KEYS[1], '1', 'NX', 'PX', ARGV[1]) then
+  return 0
+end
+redis.call('RPUSH', KEYS[2], ARGV[2])
+redis.call('LTRIM', KEYS[2], -tonumber(ARGV[3]), -1)
+redis.call('HSET', KEYS[3], unpack(ARGV, 7))
+redis.call('HINCRBY', KEYS[3], 'messageCount', 1)
+if ARGV[6] == '1' then
+  redis.call('HINCRBY', KEYS[3], 'unreadCount', 1)
+end
+redis.call('ZADD', KEYS[4], ARGV[4], ARGV[5])
+return 1
+`;
+
+/**
+ * Read an HGETALL reply (flat field/value array) into a record
+ */
+function toFieldMap(reply: string[] | null): Map<string, string> {
+  const fields = new Map<string, string>();
+  const values = reply ?? [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    // eslint-disable-next-line security/detect-object-injection -- i is a loop-controlled integer
+    fields.set(values[i] as string, values[i + 1] as string);
+  }
+  return fields;
+}
+
+function toSummary(fields: Map<string, string>): ConversationSummary | null {
+  const phone = fields.get('phone');
+  const lastMessageAt = fields.get('lastMessageAt');
+  if (!phone || !lastMessageAt) return null;
+
+  const contactName = fields.get('contactName');
+  const lastInboundAt = fields.get('lastInboundAt');
+  return {
+    phone,
+    ...(contactName ? { contactName } : {}),
+    messageCount: Number(fields.get('messageCount') ?? 0),
+    unreadCount: Number(fields.get('unreadCount') ?? 0),
+    lastMessageAt,
+    lastDirection: (fields.get('lastDirection') ??
+      CONVERSATION_DIRECTIONS.INBOUND) as ConversationDirection,
+    lastMessagePreview: fields.get('lastMessagePreview') ?? '',
+    ...(lastInboundAt ? { lastInboundAt } : {}),
+  };
+}
+
+function parseMessage(raw: string): ConversationMessage | null {
+  try {
+    return JSON.parse(raw) as ConversationMessage;
+  } catch {
+    logger.warn('[WhatsAppConversations] Ignoring unreadable message');
+    return null;
+  }
+}
+
+function parseIngestion(raw: string | undefined): MediaIngestion | undefined {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as MediaIngestion;
+  } catch {
+    logger.warn('[WhatsAppConversations] Ignoring unreadable media ingestion');
+    return undefined;
+  }
+}
+
+/**
+ * Merge the separately stored delivery state and media ingestion outcome
+ */
+function withMessageUpdates(
+  message: ConversationMessage,
+  statuses: Map<string, string>,
+  ingestions: Map<string, string>,
+): ConversationMessage {
+  const status = statuses.get(message.id) as WhatsAppDeliveryState | undefined;
+  const ingestion = parseIngestion(ingestions.get(message.id));
+  return {
+    ...message,
+    ...(status
+      ? { status: laterDeliveryState(message.status ?? 'accepted', status) }
+      : {}),
+    ...(ingestion && message.media
+      ? { media: { ...message.media, ingestion } }
+      : {}),
+  };
+}
+
+export class RedisConversationStore implements ConversationStore {
+  private redis: RedisRestClient;
+
+  constructor(url: string, token: string) {
+    this.redis = new RedisRestClient(url, token, 'Conversation store');
+  }
+
+  private summaryKey(phone: string): string {
+    return `${KEY_PREFIX}:${phone}`;
+  }
+
+  private messagesKey(phone: string): string {
+    return `${KEY_PREFIX}:${phone}:messages`;
+  }
+
+  private statusKey(phone: string): string {
+    return `${KEY_PREFIX}:${phone}:status`;
+  }
+
+  private mediaKey(phone: string): string {
+    return `${KEY_PREFIX}:${phone}:media`;
+  }
+
+  async appendMessage(
+    message: ConversationMessage,
+    contactName?: string,
+  ): Promise<boolean> {
+    const inbound = message.direction === CONVERSATION_DIRECTIONS.INBOUND;
+    const appended = await this.redis.command<number>([
+      'EVAL',
+      APPEND_MESSAGE_SCRIPT,
+      4,
+      `${KEY_PREFIX}:seen:${message.id}`,
+      this.messagesKey(message.phone),
+      this.summaryKey(message.phone),
+      INDEX_KEY,
+      SEEN_TTL_MS,
+      JSON.stringify(message),
+      MAX_THREAD_MESSAGES,
+      Date.parse(message.timestamp),
+      message.phone,
+      inbound ? 1 : 0,
+      'phone',
+      message.phone,
+      'lastMessageAt',
+      message.timestamp,
+      'lastDirection',
+      message.direction,
+      'lastMessagePreview',
+      previewMessage(message),
+      ...(contactName ? ['contactName', contactName] : []),
+      ...(inbound ? ['lastInboundAt', message.timestamp] : ['unreadCount', 0]),
+    ]);
+    return appended === 1;
+  }
+
+  async updateMessageStatus(
+    phone: string,
+    messageId: string,
+    status: WhatsAppDeliveryState,
+  ): Promise<void> {
+    const key = this.statusKey(phone);
+    const current = await this.redis.command<string | null>([
+      'HGET',
+      key,
+      messageId,
+    ]);
+    const next = current
+      ? laterDeliveryState(current as WhatsAppDeliveryState, status)
+      : status;
+    await this.redis.command(['HSET', key, messageId, next]);
+  }
+
+  async updateMediaIngestion(
+    phone: string,
+    messageId: string,
+    ingestion: MediaIngestion,
+  ): Promise<void> {
+    await this.redis.command([
+      'HSET',
+      this.mediaKey(phone),
+      messageId,
+      JSON.stringify(ingestion),
+    ]);
+  }
+
+  async listConversations(limit: number): Promise<ConversationSummary[]> {
+    const phones = await this.redis.command<string[]>([
+      'ZRANGE',
+      INDEX_KEY,
+      0,
+      limit - 1,
+      'REV',
+    ]);
+    const summaries: ConversationSummary[] = [];
+    for (const phone of phones) {
+      const summary = toSummary(
+        toFieldMap(
+          await this.redis.command<string[]>([
+            'HGETALL',
+            this.summaryKey(phone),
+          ]),
+        ),
+      );
+      if (summary) summaries.push(summary);
+    }
+    return summaries;
+  }
+
+  async getThread(
+    phone: string,
+    limit: number,
+  ): Promise<ConversationThread | null> {
+    const conversation = toSummary(
+      toFieldMap(
+        await this.redis.command<string[]>(['HGETALL', this.summaryKey(phone)]),
+      ),
+    );
+    if (!conversation) return null;
+
+    const raw = await this.redis.command<string[]>([
+      'LRANGE',
+      this.messagesKey(phone),
+      -limit,
+      -1,
+    ]);
+    const statuses = toFieldMap(
+      await this.redis.command<string[]>(['HGETALL', this.statusKey(phone)]),
+    );
+    const ingestions = toFieldMap(
+      await this.redis.command<string[]>(['HGETALL', this.mediaKey(phone)]),
+    );
+    const messages = raw
+      .map(parseMessage)
+      .filter((message): message is ConversationMessage => message !== null)
+      .map((message) => withMessageUpdates(message, statuses, ingestions));
+    return { conversation, messages };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * WhatsApp Conversation Store Selection
+ *
+ * Resolution order:
+ * 1. WHATSAPP_CONVERSATION_STORE=memory|file forces a local store
+ * 2. Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 3. Vercel KV (KV_REST_API_URL + KV_REST_API_TOKEN)
+ * 4. JSON file at WHATSAPP_CONVERSATION_FILE_PATH
+ *    (default: .data/whatsapp-conversations.json);
+ *    tests default to the in-memory store
+ */
+
+import path from 'path';
+import { logger } from '@/lib/logger';
+import { getRedisRestConfig } from '@/lib/redis-rest';
+import { FileConversationStore } from '@/lib/whatsapp/conversations/file-store';
+import { MemoryConversationStore } from '@/lib/whatsapp/conversations/memory-store';
+import { RedisConversationStore } from '@/lib/whatsapp/conversations/redis-store';
+import type { ConversationStore } from '@/lib/whatsapp/conversations/types';
+
+const DEFAULT_CONVERSATION_FILE = path.join(
+  '.data',
+  'whatsapp-conversations.json',
+);
+
+function createLocalStore(kind: string | undefined): ConversationStore {
+  if (kind === 'memory') {
+    logger.warn(
+      '[WhatsAppConversations] Using in-memory store. History is lost on restart.',
+    );
+    return new MemoryConversationStore();
+  }
+
+  const filePath =
+    process.env.WHATSAPP_CONVERSATION_FILE_PATH || DEFAULT_CONVERSATION_FILE;
+  logger.info('[WhatsAppConversations] Using file store', { filePath });
+  return new FileConversationStore(filePath);
+}
+
+function createConversationStore(): ConversationStore {
+  const forced = process.env.WHATSAPP_CONVERSATION_STORE;
+  if (forced === 'memory' || forced === 'file') {
+    return createLocalStore(forced);
+  }
+
+  const redis = getRedisRestConfig();
+  if (redis) {
+    logger.info('[WhatsAppConversations] Using Redis store', {
+      provider: redis.provider,
+    });
+    return new RedisConversationStore(redis.url, redis.token);
+  }
+
+  return createLocalStore(process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+}
+
+let conversationStore: ConversationStore | null = null;
+
+/**
+ * Get the active conversation store (created lazily)
+ */
+export function getConversationStore(): ConversationStore {
+  if (!conversationStore) {
+    conversationStore = createConversationStore();
+  }
+  return conversationStore;
+}
+
+/**
+ * Plug in a custom store implementation
+ */
+export function setConversationStore(store: ConversationStore): void {
+  conversationStore = store;
+}
+
+/**
+ * Reset store instance (for testing)
+ */
+export function resetConversationStore(): void {
+  conversationStore = null;
+}
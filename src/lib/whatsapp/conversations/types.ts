@@ -0,0 +1,92 @@
+/**
+ * WhatsApp Conversation Type Definitions
+ * Per-phone-number history of inbound and outbound messages for the agent
+ * inbox
+ */
+
+import type { WhatsAppDeliveryState } from '@/lib/whatsapp/delivery-status';
+import type { MediaIngestion } from '@/lib/whatsapp/media/types';
+
+export const CONVERSATION_DIRECTIONS = {
+  INBOUND: 'inbound',
+  OUTBOUND: 'outbound',
+} as const;
+
+export type ConversationDirection =
+  (typeof CONVERSATION_DIRECTIONS)[keyof typeof CONVERSATION_DIRECTIONS];
+
+/**
+ * Reference to media hosted by the Cloud API (download via the media ID)
+ */
+export interface ConversationMedia {
+  id: string;
+  mimeType?: string;
+  caption?: string;
+  filename?: string;
+  /** Copy of the file in our own media storage */
+  ingestion?: MediaIngestion;
+}
+
+export interface ConversationMessage {
+  /** WhatsApp message ID (wamid) */
+  id: string;
+  /** Customer phone number (digits only, as WhatsApp reports `wa_id`) */
+  phone: string;
+  direction: ConversationDirection;
+  /** WhatsApp message type (text, image, template, ...) */
+  type: string;
+  text?: string;
+  media?: ConversationMedia;
+  templateName?: string;
+  /** Delivery state of outbound messages */
+  status?: WhatsAppDeliveryState;
+  /** ISO timestamp */
+  timestamp: string;
+  /** Origin of outbound messages: an agent name, `auto_reply` or `api` */
+  sentBy?: string;
+}
+
+export interface ConversationSummary {
+  phone: string;
+  contactName?: string;
+  messageCount: number;
+  /** Inbound messages since the last outbound message */
+  unreadCount: number;
+  lastMessageAt: string;
+  lastDirection: ConversationDirection;
+  lastMessagePreview: string;
+  /** Last inbound message; opens Meta's 24-hour customer service window */
+  lastInboundAt?: string;
+}
+
+export interface ConversationThread {
+  conversation: ConversationSummary;
+  /** Most recent messages, oldest first */
+  messages: ConversationMessage[];
+}
+
+export interface ConversationStore {
+  /**
+   * Append a message to its conversation
+   * @returns false when a message with the same ID is already stored
+   */
+  appendMessage(
+    message: ConversationMessage,
+    contactName?: string,
+  ): Promise<boolean>;
+  /** Update the delivery state of an outbound message */
+  updateMessageStatus(
+    phone: string,
+    messageId: string,
+    status: WhatsAppDeliveryState,
+  ): Promise<void>;
+  /** Attach the media ingestion outcome to an inbound media message */
+  updateMediaIngestion(
+    phone: string,
+    messageId: string,
+    ingestion: MediaIngestion,
+  ): Promise<void>;
+  /** Conversations ordered by their latest message, newest first */
+  listConversations(limit: number): Promise<ConversationSummary[]>;
+  getThread(phone: string, limit: number): Promise<ConversationThread | null>;
+}
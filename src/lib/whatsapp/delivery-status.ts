@@ -0,0 +1,285 @@
+/**
+ * WhatsApp Delivery Status Tracking
+ *
+ * Records the delivery state of every outbound message by its WhatsApp
+ * message ID (wamid), from the `statuses` updates Meta posts to the webhook.
+ * `/api/whatsapp/send` records messages as accepted, and callers query the
+ * state through `/api/whatsapp/status`.
+ *
+ * Store resolution order:
+ * 1. WHATSAPP_DELIVERY_STORE=memory forces the in-memory store
+ * 2. Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 3. Vercel KV (KV_REST_API_URL + KV_REST_API_TOKEN)
+ * 4. In-memory store (single instance only)
+ */
+
+import type { MessageStatus } from '@/types/whatsapp-base-types';
+import type { MessageStatusUpdate } from '@/types/whatsapp-webhook-base';
+import type {
+  MessageStatusEvent,
+  WebhookProcessor,
+} from '@/types/whatsapp-webhook-events';
+import { logger } from '@/lib/logger';
+import { getRedisRestConfig, RedisRestClient } from '@/lib/redis-rest';
+import { toIsoTimestamp } from '@/lib/whatsapp/webhook-events';
+import {
+  DAYS_PER_MONTH,
+  HOURS_PER_DAY,
+  MILLISECONDS_PER_HOUR,
+} from '@/constants';
+
+/**
+ * Delivery state of an outbound message
+ * `accepted` means the Cloud API accepted the send request and no status
+ * update has arrived yet.
+ */
+export type WhatsAppDeliveryState = 'accepted' | MessageStatus;
+
+const STATE_RANK: Record<WhatsAppDeliveryState, number> = {
+  accepted: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+};
+
+export interface WhatsAppDeliveryRecord {
+  messageId: string;
+  recipientId: string;
+  status: WhatsAppDeliveryState;
+  /** ISO timestamp at which each state was reached */
+  timestamps: Partial<Record<WhatsAppDeliveryState, string>>;
+  /** Errors reported with a `failed` status */
+  errors?: Array<{ code: number; title: string }>;
+  /** Pricing category of the conversation (e.g. "utility", "marketing") */
+  pricingCategory?: string;
+  updatedAt: string;
+}
+
+export interface WhatsAppDeliveryStore {
+  get(messageId: string): Promise<WhatsAppDeliveryRecord | null>;
+  save(record: WhatsAppDeliveryRecord): Promise<void>;
+}
+
+/**
+ * Records expire 30 days after their last update
+ */
+const RECORD_TTL_MS = DAYS_PER_MONTH * HOURS_PER_DAY * MILLISECONDS_PER_HOUR;
+const KEY_PREFIX = 'whatsapp-delivery';
+
+/**
+ * Pick the more advanced of two states
+ * Webhooks may arrive out of order; a late `delivered` never replaces `read`.
+ */
+export function laterDeliveryState(
+  current: WhatsAppDeliveryState,
+  next: WhatsAppDeliveryState,
+): WhatsAppDeliveryState {
+  // eslint-disable-next-line security/detect-object-injection -- both keys are WhatsAppDeliveryState literals
+  return STATE_RANK[next] >= STATE_RANK[current] ? next : current;
+}
+
+function pickErrors(
+  record: WhatsAppDeliveryRecord | null,
+  update: MessageStatusUpdate,
+): WhatsAppDeliveryRecord['errors'] {
+  return update.errors?.length
+    ? update.errors.map(({ code, title }) => ({ code, title }))
+    : record?.errors;
+}
+
+/**
+ * Merge a status update into the stored record
+ */
+export function applyDeliveryStatus(
+  record: WhatsAppDeliveryRecord | null,
+  update: MessageStatusUpdate,
+  now: Date = new Date(),
+): WhatsAppDeliveryRecord {
+  const errors = pickErrors(record, update);
+  const pricingCategory = update.pricing?.category ?? record?.pricingCategory;
+
+  return {
+    messageId: update.id,
+    recipientId: update.recipient_id || record?.recipientId || '',
+    status: laterDeliveryState(record?.status ?? 'accepted', update.status),
+    timestamps: {
+      ...record?.timestamps,
+      [update.status]: toIsoTimestamp(update.timestamp, now),
+    },
+    ...(errors ? { errors } : {}),
+    ...(pricingCategory ? { pricingCategory } : {}),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Merge the Cloud API acceptance into the stored record
+ * A status update may be stored before the send call returns; its state is
+ * kept.
+ */
+export function applyAcceptedMessage(
+  record: WhatsAppDeliveryRecord | null,
+  message: { messageId: string; recipientId: string },
+  now: Date = new Date(),
+): WhatsAppDeliveryRecord {
+  const { messageId, recipientId } = message;
+  const acceptedAt = now.toISOString();
+
+  return {
+    ...record,
+    messageId,
+    recipientId: record?.recipientId || recipientId,
+    status: record?.status ?? 'accepted',
+    timestamps: { accepted: acceptedAt, ...record?.timestamps },
+    updatedAt: acceptedAt,
+  };
+}
+
+export class MemoryWhatsAppDeliveryStore implements WhatsAppDeliveryStore {
+  private records = new Map<string, WhatsAppDeliveryRecord>();
+
+  get(messageId: string): Promise<WhatsAppDeliveryRecord | null> {
+    const record = this.records.get(messageId);
+    return Promise.resolve(record ? structuredClone(record) : null);
+  }
+
+  save(record: WhatsAppDeliveryRecord): Promise<void> {
+    this.records.set(record.messageId, structuredClone(record));
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Redis REST store (Upstash Redis / Vercel KV)
+ */
+export class RedisWhatsAppDeliveryStore implements WhatsAppDeliveryStore {
+  private redis: RedisRestClient;
+
+  constructor(url: string, token: string) {
+    this.redis = new RedisRestClient(url, token, 'Delivery status store');
+  }
+
+  async get(messageId: string): Promise<WhatsAppDeliveryRecord | null> {
+    const raw = await this.redis.command<string | null>([
+      'GET',
+      `${KEY_PREFIX}:${messageId}`,
+    ]);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as WhatsAppDeliveryRecord;
+    } catch {
+      logger.warn('[WhatsAppDelivery] Ignoring unreadable record');
+      return null;
+    }
+  }
+
+  async save(record: WhatsAppDeliveryRecord): Promise<void> {
+    await this.redis.command([
+      'SET',
+      `${KEY_PREFIX}:${record.messageId}`,
+      JSON.stringify(record),
+      'PX',
+      RECORD_TTL_MS,
+    ]);
+  }
+}
+
+function createWhatsAppDeliveryStore(): WhatsAppDeliveryStore {
+  const redis =
+    process.env.WHATSAPP_DELIVERY_STORE === 'memory'
+      ? null
+      : getRedisRestConfig();
+  if (redis) {
+    return new RedisWhatsAppDeliveryStore(redis.url, redis.token);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    logger.warn(
+      '[WhatsAppDelivery] Using in-memory store. Delivery states are not shared across instances.',
+    );
+  }
+  return new MemoryWhatsAppDeliveryStore();
+}
+
+let deliveryStore: WhatsAppDeliveryStore | null = null;
+
+/**
+ * Get the active delivery status store (created lazily)
+ */
+export function getWhatsAppDeliveryStore(): WhatsAppDeliveryStore {
+  if (!deliveryStore) {
+    deliveryStore = createWhatsAppDeliveryStore();
+  }
+  return deliveryStore;
+}
+
+/**
+ * Plug in a custom store implementation
+ */
+export function setWhatsAppDeliveryStore(store: WhatsAppDeliveryStore): void {
+  deliveryStore = store;
+}
+
+/**
+ * Reset store instance (for testing)
+ */
+export function resetWhatsAppDeliveryStore(): void {
+  deliveryStore = null;
+}
+
+/**
+ * Record a message accepted by the Cloud API
+ * Storage failures are logged; they never fail the send.
+ */
+export async function recordAcceptedMessage(
+  messageId: string,
+  recipientId: string,
+): Promise<void> {
+  try {
+    const store = getWhatsAppDeliveryStore();
+    const record = await store.get(messageId);
+    await store.save(applyAcceptedMessage(record, { messageId, recipientId }));
+  } catch (error) {
+    logger.warn('[WhatsAppDelivery] Failed to record accepted message', {
+      messageId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Apply a status update from the webhook
+ */
+export async function recordDeliveryStatus(
+  update: MessageStatusUpdate,
+): Promise<WhatsAppDeliveryRecord> {
+  const store = getWhatsAppDeliveryStore();
+  const record = applyDeliveryStatus(await store.get(update.id), update);
+  await store.save(record);
+  return record;
+}
+
+/**
+ * Look up the delivery state of an outbound message
+ */
+export function getWhatsAppDeliveryStatus(
+  messageId: string,
+): Promise<WhatsAppDeliveryRecord | null> {
+  return getWhatsAppDeliveryStore().get(messageId);
+}
+
+/**
+ * Webhook processor that records `statuses` updates
+ */
+export const deliveryStatusProcessor: WebhookProcessor = {
+  async onMessageStatus(event: MessageStatusEvent): Promise<void> {
+    const record = await recordDeliveryStatus(event.status_update);
+    if (record.status === 'failed') {
+      logger.warn('[WhatsAppDelivery] Message delivery failed', {
+        messageId: record.messageId,
+        errors: record.errors,
+      });
+    }
+  },
+};
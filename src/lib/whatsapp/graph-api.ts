@@ -0,0 +1,23 @@
+/**
+ * WhatsApp Graph API Endpoint
+ *
+ * All Cloud API calls go to `https://graph.facebook.com/<version>`.
+ * WHATSAPP_GRAPH_API_URL points them elsewhere, e.g. at the local Cloud
+ * API simulator in end-to-end tests. The override is ignored on Vercel
+ * production deployments so a stray variable cannot leak the access token.
+ *
+ * @see src/test/whatsapp-cloud-api-simulator.ts - Local simulator
+ */
+
+export const GRAPH_API_VERSION = 'v18.0';
+
+const GRAPH_API_ORIGIN = 'https://graph.facebook.com';
+
+export function getGraphApiBaseUrl(): string {
+  const override = process.env.WHATSAPP_GRAPH_API_URL?.trim();
+  const origin =
+    override && process.env.VERCEL_ENV !== 'production'
+      ? override.replace(/\/+$/, '')
+      : GRAPH_API_ORIGIN;
+  return `${origin}/${GRAPH_API_VERSION}`;
+}
@@ -0,0 +1,253 @@
+/**
+ * WhatsApp Inbound Media Ingestion Tests
+ */
+
+import { File as NodeFile } from 'buffer';
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  WhatsAppApiError,
+  WhatsAppNetworkError,
+} from '@/types/whatsapp-service-errors';
+import type { MessageReceivedEvent } from '@/types/whatsapp-webhook-events';
+import { conversationProcessor } from '@/lib/whatsapp/conversations/inbox';
+import { MemoryConversationStore } from '@/lib/whatsapp/conversations/memory-store';
+import {
+  resetConversationStore,
+  setConversationStore,
+} from '@/lib/whatsapp/conversations/store';
+import {
+  getMediaIngestionLimits,
+  mediaIngestionProcessor,
+} from '@/lib/whatsapp/media/ingest';
+import { MemoryMediaStorage } from '@/lib/whatsapp/media/memory-storage';
+import {
+  resetMediaStorage,
+  setMediaStorage,
+} from '@/lib/whatsapp/media/storage';
+
+const mockFetchMediaInfo = vi.hoisted(() => vi.fn());
+const mockFetchMediaData = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-media', () => ({
+  WhatsAppMediaService: class {
+    fetchMediaInfo = mockFetchMediaInfo;
+    fetchMediaData = mockFetchMediaData;
+  },
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const PHONE = '8613800000000';
+const PDF_BYTES = Buffer.from('%PDF-1.7\nsample drawing');
+const NOW = new Date('2026-03-02T12:00:00.000Z');
+
+function buildMediaEvent(
+  type: string,
+  media: Record<string, unknown>,
+): MessageReceivedEvent {
+  return {
+    type: 'message_received',
+    from: PHONE,
+    timestamp: '2026-03-02T11:59:58.000Z',
+    phone_number_id: 'phone-id',
+    message: { id: 'wamid.media-1', type, [type]: media },
+    contact: { wa_id: PHONE, profile: { name: 'Alice' } },
+  } as unknown as MessageReceivedEvent;
+}
+
+const DRAWING_EVENT = buildMediaEvent('document', {
+  id: 'media-1',
+  mime_type: 'application/pdf',
+  filename: 'bracket-rev-b.pdf',
+  caption: 'Drawing for the bracket',
+});
+
+function mediaInfo(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'media-1',
+    url: 'https://lookaside.example/media-1',
+    mime_type: 'application/pdf',
+    sha256: createHash('sha256').update(PDF_BYTES).digest('hex'),
+    file_size: PDF_BYTES.length,
+    ...overrides,
+  };
+}
+
+describe('WhatsApp inbound media ingestion', () => {
+  let conversations: MemoryConversationStore;
+  let storage: MemoryMediaStorage;
+
+  async function receive(event: MessageReceivedEvent) {
+    await conversationProcessor.onMessageReceived?.(event);
+    await mediaIngestionProcessor.onMessageReceived?.(event);
+    const thread = await conversations.getThread(PHONE, 10);
+    return thread?.messages.at(-1)?.media;
+  }
+
+  beforeEach(() => {
+    // jsdom's File has no arrayBuffer(); the webhook route runs on Node's
+    vi.stubGlobal('File', NodeFile);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', 'token');
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', 'phone-id');
+    conversations = new MemoryConversationStore();
+    storage = new MemoryMediaStorage();
+    setConversationStore(conversations);
+    setMediaStorage(storage);
+    mockFetchMediaInfo.mockResolvedValue(mediaInfo());
+    mockFetchMediaData.mockResolvedValue(PDF_BYTES);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    resetConversationStore();
+    resetMediaStorage();
+  });
+
+  it('stores valid documents and attaches them to the message', async () => {
+    const media = await receive(DRAWING_EVENT);
+
+    expect(media).toMatchObject({
+      id: 'media-1',
+      filename: 'bracket-rev-b.pdf',
+      ingestion: {
+        status: 'stored',
+        storageKey: `${PHONE}/wamid.media-1.pdf`,
+        mimeType: 'application/pdf',
+        size: PDF_BYTES.length,
+        sha256: mediaInfo().sha256,
+        ingestedAt: NOW.toISOString(),
+      },
+    });
+    expect(await storage.get(`${PHONE}/wamid.media-1.pdf`)).toEqual({
+      data: PDF_BYTES,
+      contentType: 'application/pdf',
+    });
+  });
+
+  it('rejects disallowed types and oversized files before downloading', async () => {
+    mockFetchMediaInfo.mockResolvedValueOnce(
+      mediaInfo({ mime_type: 'application/zip' }),
+    );
+    expect((await receive(DRAWING_EVENT))?.ingestion).toMatchObject({
+      status: 'rejected',
+      error: 'File type application/zip is not allowed',
+    });
+
+    vi.stubEnv('WHATSAPP_MEDIA_MAX_MB', '1');
+    mockFetchMediaInfo.mockResolvedValueOnce(
+      mediaInfo({ file_size: 2 * 1024 * 1024 }),
+    );
+    expect(
+      (await receive(buildMediaEvent('image', { id: 'media-1' })))?.ingestion,
+    ).toMatchObject({
+      status: 'rejected',
+      size: 2 * 1024 * 1024,
+      error: 'File is 2097152 bytes, the limit is 1048576',
+    });
+    expect(mockFetchMediaData).not.toHaveBeenCalled();
+  });
+
+  it('rejects files whose bytes do not match the declared type', async () => {
+    const fakePng = Buffer.from('<html>not an image</html>');
+    mockFetchMediaInfo.mockResolvedValue(
+      mediaInfo({ mime_type: 'image/png', sha256: undefined }),
+    );
+    mockFetchMediaData.mockResolvedValue(fakePng);
+
+    const media = await receive(
+      buildMediaEvent('image', { id: 'media-1', mime_type: 'image/png' }),
+    );
+
+    expect(media?.ingestion).toMatchObject({
+      status: 'rejected',
+      error: "File signature does not match declared type 'image/png'",
+    });
+    expect(await storage.get(`${PHONE}/wamid.media-1.png`)).toBeNull();
+  });
+
+  it('rejects downloads that fail the Cloud API checksum', async () => {
+    mockFetchMediaData.mockResolvedValue(Buffer.from('%PDF-1.7\ntampered'));
+
+    expect((await receive(DRAWING_EVENT))?.ingestion).toMatchObject({
+      status: 'rejected',
+      error: 'File checksum does not match the Cloud API',
+    });
+  });
+
+  it('records media the Cloud API refuses for good', async () => {
+    mockFetchMediaInfo.mockRejectedValueOnce(
+      new WhatsAppApiError('Failed to get media info', 404),
+    );
+    expect((await receive(DRAWING_EVENT))?.ingestion).toMatchObject({
+      status: 'failed',
+      error: 'Media not found on the Cloud API',
+    });
+
+    mockFetchMediaData.mockRejectedValueOnce(
+      new WhatsAppApiError('Failed to download media', 403),
+    );
+    expect((await receive(DRAWING_EVENT))?.ingestion).toMatchObject({
+      status: 'failed',
+      error: 'Media download failed',
+    });
+    expect(mockFetchMediaData).toHaveBeenCalledWith(mediaInfo().url);
+  });
+
+  it('throws on transient Cloud API errors so the webhook is retried', async () => {
+    await conversationProcessor.onMessageReceived?.(DRAWING_EVENT);
+    mockFetchMediaInfo.mockRejectedValueOnce(
+      new WhatsAppNetworkError('Failed to get media info', new Error('reset')),
+    );
+    await expect(
+      mediaIngestionProcessor.onMessageReceived?.(DRAWING_EVENT),
+    ).rejects.toThrow('Failed to get media info');
+
+    mockFetchMediaData.mockRejectedValueOnce(
+      new WhatsAppApiError('Failed to download media', 503),
+    );
+    await expect(
+      mediaIngestionProcessor.onMessageReceived?.(DRAWING_EVENT),
+    ).rejects.toThrow('Failed to download media');
+
+    const thread = await conversations.getThread(PHONE, 10);
+    expect(thread?.messages.at(-1)?.media?.ingestion).toBeUndefined();
+
+    expect((await receive(DRAWING_EVENT))?.ingestion).toMatchObject({
+      status: 'stored',
+    });
+  });
+
+  it('skips other message types and missing credentials', async () => {
+    await receive(
+      buildMediaEvent('audio', { id: 'media-1', mime_type: 'audio/ogg' }),
+    );
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', '');
+    const media = await receive(DRAWING_EVENT);
+
+    expect(media?.ingestion).toBeUndefined();
+    expect(mockFetchMediaInfo).not.toHaveBeenCalled();
+  });
+
+  it('reads limits from the environment', () => {
+    vi.stubEnv('WHATSAPP_MEDIA_MAX_MB', '5');
+    vi.stubEnv('WHATSAPP_MEDIA_ALLOWED_TYPES', 'image/jpeg, IMAGE/WEBP');
+
+    const limits = getMediaIngestionLimits();
+
+    expect(limits.maxBytes).toBe(5 * 1024 * 1024);
+    expect([...limits.allowedTypes]).toEqual(['image/jpeg', 'image/webp']);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Local Media Storage Tests
+ */
+
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LocalMediaStorage } from '../local-storage';
+
+describe('LocalMediaStorage', () => {
+  let rootDir: string;
+  let storage: LocalMediaStorage;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'whatsapp-media-'));
+    storage = new LocalMediaStorage(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store files with their content type', async () => {
+    const data = Buffer.from('%PDF-1.7');
+
+    await storage.put('8613800000000/wamid.1.pdf', {
+      data,
+      contentType: 'application/pdf',
+    });
+
+    expect(
+      await new LocalMediaStorage(rootDir).get('8613800000000/wamid.1.pdf'),
+    ).toEqual({ data, contentType: 'application/pdf' });
+  });
+
+  it('should return null for missing files and delete stored ones', async () => {
+    await storage.put('a/b.png', {
+      data: Buffer.from([0x89, 0x50]),
+      contentType: 'image/png',
+    });
+
+    await storage.delete('a/b.png');
+
+    expect(await storage.get('a/b.png')).toBeNull();
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- test temp directory
+    expect(await readdir(path.join(rootDir, 'a'))).toEqual([]);
+  });
+
+  it('should refuse keys outside the media directory', async () => {
+    const object = { data: Buffer.from('x'), contentType: 'text/plain' };
+
+    await expect(storage.put('../escape.txt', object)).rejects.toThrow(
+      'Invalid media storage key',
+    );
+    await expect(storage.get('/etc/passwd')).rejects.toThrow(
+      'Invalid media storage key',
+    );
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * WhatsApp Inbound Media Ingestion
+ *
+ * Downloads images and documents customers send, checks them against the
+ * size and type limits and their magic bytes, stores them through the media
+ * storage adapter and attaches the outcome to the conversation message.
+ *
+ * Environment:
+ * - WHATSAPP_MEDIA_MAX_MB: largest accepted file (default 10)
+ * - WHATSAPP_MEDIA_ALLOWED_TYPES: comma-separated MIME types
+ *   (default image/jpeg, image/png, application/pdf)
+ *
+ * Ingestion runs only when Cloud API credentials are configured. Network
+ * errors, rate limits and 5xx responses from the Cloud API fail the webhook
+ * processor instead of recording a failure, so Meta's delivery retry ingests
+ * the media again while its download URL is still valid.
+ */
+
+import { createHash } from 'crypto';
+import { isWhatsAppError } from '@/types/whatsapp-service-errors';
+import type {
+  MessageReceivedEvent,
+  WebhookProcessor,
+} from '@/types/whatsapp-webhook-events';
+import { logger } from '@/lib/logger';
+import {
+  sanitizeFileName,
+  validateFileSignature,
+} from '@/lib/security-file-upload';
+import { WhatsAppMediaService } from '@/lib/whatsapp-media';
+import { toInboundMessage } from '@/lib/whatsapp/conversations/inbox';
+import { getConversationStore } from '@/lib/whatsapp/conversations/store';
+import type { ConversationMessage } from '@/lib/whatsapp/conversations/types';
+import { getMediaStorage } from '@/lib/whatsapp/media/storage';
+import {
+  MEDIA_INGESTION_STATUS,
+  type MediaIngestion,
+} from '@/lib/whatsapp/media/types';
+import { BYTES_PER_KB } from '@/constants';
+
+const DEFAULT_MAX_MEDIA_MB = 10;
+const DEFAULT_ALLOWED_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+/**
+ * Message types whose media is downloaded
+ */
+const INGESTED_MESSAGE_TYPES = new Set(['image', 'document']);
+
+const FILE_EXTENSIONS = new Map([
+  ['image/jpeg', 'jpg'],
+  ['image/png', 'png'],
+  ['image/gif', 'gif'],
+  ['image/webp', 'webp'],
+  ['application/pdf', 'pdf'],
+]);
+
+export interface MediaIngestionLimits {
+  maxBytes: number;
+  allowedTypes: ReadonlySet<string>;
+}
+
+/**
+ * Read the ingestion limits from the environment
+ */
+export function getMediaIngestionLimits(): MediaIngestionLimits {
+  const maxMb = Number.parseFloat(process.env.WHATSAPP_MEDIA_MAX_MB ?? '');
+  const configuredTypes = (process.env.WHATSAPP_MEDIA_ALLOWED_TYPES ?? '')
+    .split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    maxBytes:
+      (Number.isFinite(maxMb) && maxMb > 0 ? maxMb : DEFAULT_MAX_MEDIA_MB) *
+      BYTES_PER_KB *
+      BYTES_PER_KB,
+    allowedTypes: new Set(
+      configuredTypes.length > 0 ? configuredTypes : DEFAULT_ALLOWED_TYPES,
+    ),
+  };
+}
+
+function createMediaService(): WhatsAppMediaService | null {
+  const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  if (!accessToken || !phoneNumberId) return null;
+  return new WhatsAppMediaService(accessToken, phoneNumberId);
+}
+
+/**
+ * Drop MIME parameters (`audio/ogg; codecs=opus` -> `audio/ogg`)
+ */
+function normalizeMimeType(mimeType: string): string {
+  return (mimeType.split(';')[0] ?? '').trim().toLowerCase();
+}
+
+function checkLimits(
+  mimeType: string,
+  size: number | undefined,
+  limits: MediaIngestionLimits,
+): string | null {
+  if (!limits.allowedTypes.has(mimeType)) {
+    return `File type ${mimeType || 'unknown'} is not allowed`;
+  }
+  if (size !== undefined && size > limits.maxBytes) {
+    return `File is ${size} bytes, the limit is ${limits.maxBytes}`;
+  }
+  return null;
+}
+
+/**
+ * The Cloud API reports SHA-256 as hex or base64 depending on the endpoint
+ */
+function matchesChecksum(expected: string, data: Buffer): boolean {
+  const digest = createHash('sha256').update(data).digest();
+  return (
+    expected === digest.toString('hex') ||
+    expected === digest.toString('base64')
+  );
+}
+
+interface DownloadedMedia {
+  data: Buffer;
+  mimeType: string;
+  expectedSha256?: string | undefined;
+  filename: string;
+}
+
+/**
+ * Check the downloaded bytes; returns the reason they were rejected
+ */
+async function validateContent(
+  media: DownloadedMedia,
+  limits: MediaIngestionLimits,
+): Promise<string | null> {
+  const { data, mimeType, expectedSha256 } = media;
+  const limitError = checkLimits(mimeType, data.length, limits);
+  if (limitError) return limitError;
+
+  if (expectedSha256 && !matchesChecksum(expectedSha256, data)) {
+    return 'File checksum does not match the Cloud API';
+  }
+
+  const file = new File([new Uint8Array(data)], media.filename, {
+    type: mimeType,
+  });
+  const signature = await validateFileSignature(file);
+  return signature.valid ? null : (signature.error ?? 'Invalid file signature');
+}
+
+/**
+ * Storage key: `<phone>/<message id>.<extension>`
+ */
+function buildStorageKey(
+  message: ConversationMessage,
+  mimeType: string,
+): string {
+  const extension = FILE_EXTENSIONS.get(mimeType) ?? 'bin';
+  return `${sanitizeFileName(message.phone)}/${sanitizeFileName(message.id)}.${extension}`;
+}
+
+async function storeMedia(
+  message: ConversationMessage,
+  media: DownloadedMedia,
+): Promise<Omit<MediaIngestion, 'ingestedAt'>> {
+  const { data, mimeType } = media;
+  const storageKey = buildStorageKey(message, mimeType);
+  try {
+    await getMediaStorage().put(storageKey, { data, contentType: mimeType });
+  } catch (error) {
+    logger.error(
+      '[WhatsAppMedia] Failed to store media',
+      { messageId: message.id },
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return {
+      status: MEDIA_INGESTION_STATUS.FAILED,
+      mimeType,
+      error: 'Media storage failed',
+    };
+  }
+  return {
+    status: MEDIA_INGESTION_STATUS.STORED,
+    storageKey,
+    mimeType,
+    size: data.length,
+    sha256: createHash('sha256').update(data).digest('hex'),
+  };
+}
+
+/**
+ * Run a Cloud API media request
+ * @returns null when the Cloud API refused the request for good
+ * @throws when the error is transient and the webhook should be retried
+ */
+async function requestMedia<T>(
+  message: ConversationMessage,
+  request: () => Promise<T>,
+): Promise<T | null> {
+  try {
+    return await request();
+  } catch (error) {
+    if (isWhatsAppError(error) && error.isRetryable()) {
+      throw error;
+    }
+    logger.warn('[WhatsAppMedia] Cloud API media request failed', {
+      messageId: message.id,
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+async function fetchAndStore(
+  service: WhatsAppMediaService,
+  message: ConversationMessage,
+  limits: MediaIngestionLimits,
+): Promise<Omit<MediaIngestion, 'ingestedAt'>> {
+  const mediaId = message.media?.id ?? '';
+  const info = await requestMedia(message, () =>
+    service.fetchMediaInfo(mediaId),
+  );
+  if (!info) {
+    return {
+      status: MEDIA_INGESTION_STATUS.FAILED,
+      error: 'Media not found on the Cloud API',
+    };
+  }
+
+  const mimeType = normalizeMimeType(
+    info.mime_type ?? message.media?.mimeType ?? '',
+  );
+  const limitError = checkLimits(mimeType, info.file_size, limits);
+  if (limitError) {
+    return {
+      status: MEDIA_INGESTION_STATUS.REJECTED,
+      mimeType,
+      ...(info.file_size !== undefined ? { size: info.file_size } : {}),
+      error: limitError,
+    };
+  }
+
+  const mediaUrl = info.url;
+  const data = mediaUrl
+    ? await requestMedia(message, () => service.fetchMediaData(mediaUrl))
+    : null;
+  if (!data) {
+    return {
+      status: MEDIA_INGESTION_STATUS.FAILED,
+      mimeType,
+      error: 'Media download failed',
+    };
+  }
+
+  const downloaded: DownloadedMedia = {
+    data,
+    mimeType,
+    expectedSha256: info.sha256,
+    filename: message.media?.filename ?? message.type,
+  };
+  const contentError = await validateContent(downloaded, limits);
+  if (contentError) {
+    return {
+      status: MEDIA_INGESTION_STATUS.REJECTED,
+      mimeType,
+      size: data.length,
+      error: contentError,
+    };
+  }
+  return storeMedia(message, downloaded);
+}
+
+/**
+ * Download and store the media of an inbound image or document message
+ * @returns null when the message has nothing to ingest or credentials are missing
+ */
+export async function ingestInboundMedia(
+  message: ConversationMessage,
+  limits: MediaIngestionLimits = getMediaIngestionLimits(),
+): Promise<MediaIngestion | null> {
+  if (!message.media || !INGESTED_MESSAGE_TYPES.has(message.type)) {
+    return null;
+  }
+  const service = createMediaService();
+  if (!service) {
+    logger.debug('[WhatsAppMedia] Skipping ingestion without credentials', {
+      messageId: message.id,
+    });
+    return null;
+  }
+
+  const result = await fetchAndStore(service, message, limits);
+  return { ...result, ingestedAt: new Date().toISOString() };
+}
+
+/**
+ * Webhook processor that ingests inbound media
+ * Runs after the conversation processor, which stores the message first.
+ */
+export const mediaIngestionProcessor: WebhookProcessor = {
+  async onMessageReceived(event: MessageReceivedEvent): Promise<void> {
+    const message = toInboundMessage(event);
+    const ingestion = await ingestInboundMedia(message);
+    if (!ingestion) return;
+
+    await getConversationStore().updateMediaIngestion(
+      message.phone,
+      message.id,
+      ingestion,
+    );
+    logger.info('[WhatsAppMedia] Inbound media processed', {
+      messageId: message.id,
+      status: ingestion.status,
+      ...(ingestion.error ? { reason: ingestion.error } : {}),
+    });
+  },
+};
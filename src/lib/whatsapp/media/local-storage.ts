@@ -0,0 +1,84 @@
+/**
+ * Local filesystem WhatsApp media storage
+ * Default adapter for local development and single-instance deployments.
+ * Each file is written next to a small JSON sidecar holding its content type.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  isMediaStorageKey,
+  type MediaStorageAdapter,
+  type StoredMediaObject,
+} from '@/lib/whatsapp/media/types';
+
+const METADATA_SUFFIX = '.meta.json';
+
+interface MediaMetadata {
+  contentType: string;
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    'code' in error &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
+
+export class LocalMediaStorage implements MediaStorageAdapter {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Resolve a key inside the root directory
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (
+      !isMediaStorageKey(key) ||
+      !filePath.startsWith(`${this.rootDir}${path.sep}`)
+    ) {
+      throw new Error(`Invalid media storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, object: StoredMediaObject): Promise<void> {
+    const filePath = this.resolveKey(key);
+    const metadata: MediaMetadata = { contentType: object.contentType };
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is resolved inside the configured media directory
+    await mkdir(path.dirname(filePath), { recursive: true });
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is resolved inside the configured media directory
+    await writeFile(filePath, object.data);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is resolved inside the configured media directory
+    await writeFile(`${filePath}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+  }
+
+  async get(key: string): Promise<StoredMediaObject | null> {
+    const filePath = this.resolveKey(key);
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is resolved inside the configured media directory
+      const data = await readFile(filePath);
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is resolved inside the configured media directory
+      const raw = await readFile(`${filePath}${METADATA_SUFFIX}`, 'utf8');
+      const metadata = JSON.parse(raw) as Partial<MediaMetadata>;
+      return {
+        data,
+        contentType: metadata.contentType ?? 'application/octet-stream',
+      };
+    } catch (error) {
+      if (isMissingFileError(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await rm(filePath, { force: true });
+    await rm(`${filePath}${METADATA_SUFFIX}`, { force: true });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * In-memory WhatsApp media storage
+ * Used in tests; files do not survive restarts.
+ */
+
+import type {
+  MediaStorageAdapter,
+  StoredMediaObject,
+} from '@/lib/whatsapp/media/types';
+
+export class MemoryMediaStorage implements MediaStorageAdapter {
+  private objects = new Map<string, StoredMediaObject>();
+
+  put(key: string, object: StoredMediaObject): Promise<void> {
+    this.objects.set(key, {
+      data: Buffer.from(object.data),
+      contentType: object.contentType,
+    });
+    return Promise.resolve();
+  }
+
+  get(key: string): Promise<StoredMediaObject | null> {
+    const object = this.objects.get(key);
+    return Promise.resolve(
+      object
+        ? { data: Buffer.from(object.data), contentType: object.contentType }
+        : null,
+    );
+  }
+
+  delete(key: string): Promise<void> {
+    this.objects.delete(key);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * WhatsApp Media Storage Selection
+ *
+ * Resolution order:
+ * 1. WHATSAPP_MEDIA_STORAGE=memory|local forces an adapter
+ * 2. Local directory at WHATSAPP_MEDIA_STORAGE_DIR
+ *    (default: .data/whatsapp-media); tests default to memory
+ *
+ * Deployments without a persistent filesystem plug in their own adapter
+ * (object storage) with `setMediaStorage`.
+ */
+
+import path from 'path';
+import { logger } from '@/lib/logger';
+import { LocalMediaStorage } from '@/lib/whatsapp/media/local-storage';
+import { MemoryMediaStorage } from '@/lib/whatsapp/media/memory-storage';
+import type { MediaStorageAdapter } from '@/lib/whatsapp/media/types';
+
+const DEFAULT_MEDIA_DIR = path.join('.data', 'whatsapp-media');
+
+function createMediaStorage(): MediaStorageAdapter {
+  const forced = process.env.WHATSAPP_MEDIA_STORAGE;
+  if (forced === 'memory' || (!forced && process.env.NODE_ENV === 'test')) {
+    return new MemoryMediaStorage();
+  }
+
+  const rootDir = process.env.WHATSAPP_MEDIA_STORAGE_DIR || DEFAULT_MEDIA_DIR;
+  logger.info('[WhatsAppMedia] Using local media storage', { rootDir });
+  return new LocalMediaStorage(rootDir);
+}
+
+let mediaStorage: MediaStorageAdapter | null = null;
+
+/**
+ * Get the active media storage adapter (created lazily)
+ */
+export function getMediaStorage(): MediaStorageAdapter {
+  if (!mediaStorage) {
+    mediaStorage = createMediaStorage();
+  }
+  return mediaStorage;
+}
+
+/**
+ * Plug in a custom storage adapter
+ */
+export function setMediaStorage(storage: MediaStorageAdapter): void {
+  mediaStorage = storage;
+}
+
+/**
+ * Reset storage instance (for testing)
+ */
+export function resetMediaStorage(): void {
+  mediaStorage = null;
+}
@@ -0,0 +1,66 @@
+/**
+ * WhatsApp Inbound Media Type Definitions
+ * Files customers send (photos, PDF drawings) are downloaded from the Cloud
+ * API and kept in our own storage, since Meta's media URLs expire.
+ */
+
+export const MEDIA_INGESTION_STATUS = {
+  STORED: 'stored',
+  /** The file broke a size, type or signature rule */
+  REJECTED: 'rejected',
+  /** The Cloud API or the storage adapter failed */
+  FAILED: 'failed',
+} as const;
+
+export type MediaIngestionStatus =
+  (typeof MEDIA_INGESTION_STATUS)[keyof typeof MEDIA_INGESTION_STATUS];
+
+/**
+ * Outcome of ingesting one inbound media file, attached to its message
+ */
+export interface MediaIngestion {
+  status: MediaIngestionStatus;
+  /** Storage adapter key of the downloaded file */
+  storageKey?: string;
+  /** MIME type reported by the Cloud API */
+  mimeType?: string;
+  /** Size in bytes */
+  size?: number;
+  /** SHA-256 of the file contents (hex) */
+  sha256?: string;
+  /** Why the file was not stored */
+  error?: string;
+  /** ISO timestamp */
+  ingestedAt: string;
+}
+
+const KEY_SEGMENT_PATTERN = /^[\w.-]+$/;
+
+/**
+ * Keys are generated by the ingestion pipeline: `/`-separated segments of
+ * letters, digits, `.`, `_` and `-`, never `.` or `..`
+ */
+export function isMediaStorageKey(key: string): boolean {
+  return key
+    .split('/')
+    .every(
+      (segment) =>
+        KEY_SEGMENT_PATTERN.test(segment) &&
+        segment !== '.' &&
+        segment !== '..',
+    );
+}
+
+export interface StoredMediaObject {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Storage backend for downloaded media
+ */
+export interface MediaStorageAdapter {
+  put(key: string, object: StoredMediaObject): Promise<void>;
+  get(key: string): Promise<StoredMediaObject | null>;
+  delete(key: string): Promise<void>;
+}
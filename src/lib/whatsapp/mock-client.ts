@@ -2,7 +2,8 @@
  * Mock WhatsApp Client Implementation
  *
  * Provides a mock implementation for development and testing environments.
- * Returns successful responses without making real API calls.
+ * Returns successful responses without making real API calls; calls are
+ * still recorded in the service monitor.
  */
 
 import type {
@@ -15,6 +16,7 @@ import type {
   WhatsAppClient,
   WhatsAppClientInfo,
 } from '@/lib/whatsapp/client-interface';
+import { monitorMediaCall, monitorSend } from '@/lib/whatsapp/service-monitor';
 
 /**
  * Mock WhatsApp Client for development/testing
@@ -44,7 +46,7 @@ export class MockWhatsAppClient implements WhatsAppClient {
 
   sendMessage(_message: SendMessageRequest): Promise<WhatsAppServiceResponse> {
     logger.info('[MockWhatsAppClient] sendMessage called (mock)');
-    return Promise.resolve(this.createSuccessResponse());
+    return monitorSend(() => Promise.resolve(this.createSuccessResponse()));
   }
 
   sendTextMessage(
@@ -55,7 +57,7 @@ export class MockWhatsAppClient implements WhatsAppClient {
     logger.info(
       `[MockWhatsAppClient] sendTextMessage to=${to}, text=${text.substring(0, 50)}...`,
     );
-    return Promise.resolve(this.createSuccessResponse());
+    return monitorSend(() => Promise.resolve(this.createSuccessResponse()));
   }
 
   sendImageMessage(
@@ -66,7 +68,7 @@ export class MockWhatsAppClient implements WhatsAppClient {
     logger.info(
       `[MockWhatsAppClient] sendImageMessage to=${to}, url=${imageUrl}, caption=${caption}`,
     );
-    return Promise.resolve(this.createSuccessResponse());
+    return monitorSend(() => Promise.resolve(this.createSuccessResponse()));
   }
 
   sendTemplateMessage(args: {
@@ -78,7 +80,7 @@ export class MockWhatsAppClient implements WhatsAppClient {
     logger.info(
       `[MockWhatsAppClient] sendTemplateMessage template=${args.templateName}, to=${args.to}`,
     );
-    return Promise.resolve(this.createSuccessResponse());
+    return monitorSend(() => Promise.resolve(this.createSuccessResponse()));
   }
 
   sendButtonMessage(args: {
@@ -91,7 +93,7 @@ export class MockWhatsAppClient implements WhatsAppClient {
     logger.info(
       `[MockWhatsAppClient] sendButtonMessage to=${args.to}, buttons=${args.buttons.length}`,
     );
-    return Promise.resolve(this.createSuccessResponse());
+    return monitorSend(() => Promise.resolve(this.createSuccessResponse()));
   }
 
   sendListMessage(args: {
@@ -107,17 +109,21 @@ export class MockWhatsAppClient implements WhatsAppClient {
     logger.info(
       `[MockWhatsAppClient] sendListMessage to=${args.to}, sections=${args.sections.length}`,
     );
-    return Promise.resolve(this.createSuccessResponse());
+    return monitorSend(() => Promise.resolve(this.createSuccessResponse()));
   }
 
   getMediaUrl(mediaId: string): Promise<string | null> {
     logger.info(`[MockWhatsAppClient] getMediaUrl mediaId=${mediaId}`);
-    return Promise.resolve(`https://mock-cdn.whatsapp.net/media/${mediaId}`);
+    return monitorMediaCall(() =>
+      Promise.resolve(`https://mock-cdn.whatsapp.net/media/${mediaId}`),
+    );
   }
 
   downloadMedia(mediaId: string): Promise<Buffer | null> {
     logger.info(`[MockWhatsAppClient] downloadMedia mediaId=${mediaId}`);
-    return Promise.resolve(Buffer.from('mock-media-content'));
+    return monitorMediaCall(() =>
+      Promise.resolve(Buffer.from('mock-media-content')),
+    );
   }
 
   uploadMedia(
@@ -128,7 +134,9 @@ export class MockWhatsAppClient implements WhatsAppClient {
     logger.info(
       `[MockWhatsAppClient] uploadMedia type=${type}, filename=${filename}`,
     );
-    return Promise.resolve(`mock-media-id-${Date.now()}`);
+    return monitorMediaCall(() =>
+      Promise.resolve(`mock-media-id-${Date.now()}`),
+    );
   }
 
   isReady(): boolean {
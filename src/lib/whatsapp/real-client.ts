@@ -3,7 +3,8 @@
  *
  * Provides the actual WhatsApp Business API client implementation
  * for production use. Wraps the existing WhatsAppMessageService
- * and WhatsAppMediaService with the unified client interface.
+ * and WhatsAppMediaService with the unified client interface and
+ * records every call in the service monitor.
  */
 
 import type {
@@ -19,6 +20,7 @@ import type {
   WhatsAppClientConfig,
   WhatsAppClientInfo,
 } from '@/lib/whatsapp/client-interface';
+import { monitorMediaCall, monitorSend } from '@/lib/whatsapp/service-monitor';
 
 const DEFAULT_API_VERSION = 'v18.0';
 
@@ -54,7 +56,7 @@ export class RealWhatsAppClient implements WhatsAppClient {
   }
 
   sendMessage(message: SendMessageRequest): Promise<WhatsAppServiceResponse> {
-    return this.messageService.sendMessage(message);
+    return monitorSend(() => this.messageService.sendMessage(message));
   }
 
   sendTextMessage(
@@ -62,7 +64,9 @@ export class RealWhatsAppClient implements WhatsAppClient {
     text: string,
     previewUrl?: boolean,
   ): Promise<WhatsAppServiceResponse> {
-    return this.messageService.sendTextMessage(to, text, previewUrl);
+    return monitorSend(() =>
+      this.messageService.sendTextMessage(to, text, previewUrl),
+    );
   }
 
   sendImageMessage(
@@ -70,7 +74,9 @@ export class RealWhatsAppClient implements WhatsAppClient {
     imageUrl: string,
     caption?: string,
   ): Promise<WhatsAppServiceResponse> {
-    return this.messageService.sendImageMessage(to, imageUrl, caption);
+    return monitorSend(() =>
+      this.messageService.sendImageMessage(to, imageUrl, caption),
+    );
   }
 
   sendTemplateMessage(args: {
@@ -79,7 +85,7 @@ export class RealWhatsAppClient implements WhatsAppClient {
     languageCode: string;
     parameters?: string[];
   }): Promise<WhatsAppServiceResponse> {
-    return this.messageService.sendTemplateMessage(args);
+    return monitorSend(() => this.messageService.sendTemplateMessage(args));
   }
 
   sendButtonMessage(args: {
@@ -89,7 +95,7 @@ export class RealWhatsAppClient implements WhatsAppClient {
     headerText?: string;
     footerText?: string;
   }): Promise<WhatsAppServiceResponse> {
-    return this.messageService.sendButtonMessage(args);
+    return monitorSend(() => this.messageService.sendButtonMessage(args));
   }
 
   sendListMessage(args: {
@@ -102,15 +108,15 @@ export class RealWhatsAppClient implements WhatsAppClient {
     }>;
     options?: { headerText?: string; footerText?: string };
   }): Promise<WhatsAppServiceResponse> {
-    return this.messageService.sendListMessage(args);
+    return monitorSend(() => this.messageService.sendListMessage(args));
   }
 
   getMediaUrl(mediaId: string): Promise<string | null> {
-    return this.mediaService.getMediaUrl(mediaId);
+    return monitorMediaCall(() => this.mediaService.getMediaUrl(mediaId));
   }
 
   downloadMedia(mediaId: string): Promise<Buffer | null> {
-    return this.mediaService.downloadMedia(mediaId);
+    return monitorMediaCall(() => this.mediaService.downloadMedia(mediaId));
   }
 
   uploadMedia(
@@ -118,7 +124,9 @@ export class RealWhatsAppClient implements WhatsAppClient {
     type: 'image' | 'document' | 'audio' | 'video' | 'sticker',
     filename?: string,
   ): Promise<string | null> {
-    return this.mediaService.uploadMedia(file, type, filename);
+    return monitorMediaCall(() =>
+      this.mediaService.uploadMedia(file, type, filename),
+    );
   }
 
   isReady(): boolean {
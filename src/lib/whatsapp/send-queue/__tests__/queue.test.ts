@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SendMessageRequest } from '@/types/whatsapp';
+import {
+  claimIdempotencyKey,
+  resetIdempotencyKeyStore,
+} from '@/lib/idempotency';
+import {
+  applySendAttempt,
+  drainWhatsAppSendQueue,
+  drainWhatsAppSendQueueSoon,
+  enqueueWhatsAppMessage,
+  getWhatsAppSendJob,
+  resetWhatsAppSendQueueWorker,
+} from '@/lib/whatsapp/send-queue/queue';
+import { resetWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/store';
+
+const mockSendWhatsAppMessage = vi.hoisted(() => vi.fn());
+const mockRecordAcceptedMessage = vi.hoisted(() => vi.fn());
+const mockRecordOutboundMessage = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/whatsapp-service', () => ({
+  sendWhatsAppMessage: mockSendWhatsAppMessage,
+  recordAcceptedMessage: mockRecordAcceptedMessage,
+  recordOutboundMessage: mockRecordOutboundMessage,
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const NOW = Date.parse('2026-03-02T10:00:00Z');
+
+function textMessage(
+  to: string,
+  body = 'Your samples shipped',
+): SendMessageRequest {
+  return {
+    messaging_product: 'whatsapp',
+    recipient_type: 'individual',
+    to,
+    type: 'text',
+    text: { body },
+  };
+}
+
+describe('WhatsApp send queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', 'phone-1');
+    mockSendWhatsAppMessage.mockResolvedValue({
+      success: true,
+      data: { messages: [{ id: 'wamid.sent' }] },
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    resetWhatsAppSendQueueStore();
+    resetWhatsAppSendQueueWorker();
+    resetIdempotencyKeyStore();
+  });
+
+  it('sends queued messages and records them like inline sends', async () => {
+    const job = await enqueueWhatsAppMessage(textMessage('8613800000000'));
+
+    expect(job).toMatchObject({
+      status: 'queued',
+      phoneNumberId: 'phone-1',
+      attempts: 0,
+      nextAttemptAt: NOW,
+    });
+    expect(mockSendWhatsAppMessage).not.toHaveBeenCalled();
+
+    const summary = await drainWhatsAppSendQueue();
+
+    expect(summary).toEqual({
+      processed: 1,
+      sent: 1,
+      failed: 0,
+      retried: 0,
+      deferred: 0,
+    });
+    expect(await getWhatsAppSendJob(job.id)).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      messageId: 'wamid.sent',
+      nextAttemptAt: null,
+    });
+    expect(mockRecordAcceptedMessage).toHaveBeenCalledWith(
+      'wamid.sent',
+      '8613800000000',
+    );
+    expect(mockRecordOutboundMessage).toHaveBeenCalledWith({
+      messageId: 'wamid.sent',
+      to: '8613800000000',
+      type: 'text',
+      text: 'Your samples shipped',
+      templateName: undefined,
+      sentBy: 'api',
+    });
+  });
+
+  it('holds scheduled messages until their send time', async () => {
+    const sendAt = NOW + 60_000;
+    const job = await enqueueWhatsAppMessage(textMessage('15550001111'), {
+      sendAt,
+    });
+
+    expect((await drainWhatsAppSendQueue()).processed).toBe(0);
+    expect((await drainWhatsAppSendQueue({ now: sendAt })).sent).toBe(1);
+    expect((await getWhatsAppSendJob(job.id))?.status).toBe('sent');
+  });
+
+  it('spaces out messages to the same recipient', async () => {
+    await enqueueWhatsAppMessage(textMessage('15550001111', 'first'));
+    const second = await enqueueWhatsAppMessage(
+      textMessage('15550001111', 'second'),
+    );
+
+    const summary = await drainWhatsAppSendQueue();
+
+    expect(summary).toMatchObject({ sent: 1, deferred: 1 });
+    expect((await getWhatsAppSendJob(second.id))?.nextAttemptAt).toBe(
+      NOW + 6000,
+    );
+
+    expect((await drainWhatsAppSendQueue({ now: NOW + 6000 })).sent).toBe(1);
+  });
+
+  it('limits messages per second per business phone number', async () => {
+    vi.stubEnv('WHATSAPP_QUEUE_MESSAGES_PER_SECOND', '2');
+    const recipients = ['15550000001', '15550000002', '15550000003'];
+    for (const to of recipients) {
+      await enqueueWhatsAppMessage(textMessage(to));
+    }
+
+    expect(await drainWhatsAppSendQueue()).toMatchObject({
+      sent: 2,
+      deferred: 1,
+    });
+    expect((await drainWhatsAppSendQueue({ now: NOW + 1000 })).sent).toBe(1);
+  });
+
+  it('retries transient failures and fails on permanent errors', async () => {
+    mockSendWhatsAppMessage
+      .mockResolvedValueOnce({ success: false, error: 'HTTP 503' })
+      .mockResolvedValueOnce({
+        success: false,
+        error: 'Recipient phone number not in allowed list',
+      });
+    const transient = await enqueueWhatsAppMessage(textMessage('15550001111'));
+    const permanent = await enqueueWhatsAppMessage(textMessage('15550002222'));
+
+    expect(await drainWhatsAppSendQueue()).toMatchObject({
+      processed: 2,
+      retried: 1,
+      failed: 1,
+    });
+    expect(await getWhatsAppSendJob(transient.id)).toMatchObject({
+      status: 'queued',
+      attempts: 1,
+      lastError: 'HTTP 503',
+      nextAttemptAt: NOW + 30_000,
+    });
+    expect(await getWhatsAppSendJob(permanent.id)).toMatchObject({
+      status: 'failed',
+      nextAttemptAt: null,
+    });
+    expect(mockRecordAcceptedMessage).not.toHaveBeenCalled();
+  });
+
+  it('skips the drain while another drain holds the lock', async () => {
+    await enqueueWhatsAppMessage(textMessage('15550001111'));
+    await claimIdempotencyKey('whatsapp-send-queue:drain', 60_000);
+
+    expect((await drainWhatsAppSendQueue()).processed).toBe(0);
+    expect(mockSendWhatsAppMessage).not.toHaveBeenCalled();
+  });
+
+  it('keeps draining jobs that come due shortly after an enqueue', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout'] });
+    vi.setSystemTime(NOW);
+    await enqueueWhatsAppMessage(textMessage('15550001111', 'first'));
+    const second = await enqueueWhatsAppMessage(
+      textMessage('15550001111', 'second'),
+    );
+    const later = await enqueueWhatsAppMessage(textMessage('15550002222'), {
+      sendAt: NOW + 60_000,
+    });
+
+    const drained = drainWhatsAppSendQueueSoon();
+    await vi.advanceTimersByTimeAsync(6000);
+    await drained;
+
+    expect(mockSendWhatsAppMessage).toHaveBeenCalledTimes(2);
+    expect((await getWhatsAppSendJob(second.id))?.status).toBe('sent');
+    expect((await getWhatsAppSendJob(later.id))?.status).toBe('queued');
+  });
+
+  it('gives up after the last attempt', async () => {
+    const job = await enqueueWhatsAppMessage(textMessage('15550001111'));
+    const failed = applySendAttempt(
+      { ...job, attempts: 4 },
+      { success: false, error: new Error('network timeout') },
+      NOW,
+    );
+
+    expect(failed).toMatchObject({
+      status: 'failed',
+      attempts: 5,
+      lastError: 'network timeout',
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/memory-store';
+import { RedisWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/redis-store';
+import {
+  getWhatsAppSendQueueStore,
+  resetWhatsAppSendQueueStore,
+} from '@/lib/whatsapp/send-queue/store';
+import {
+  SEND_JOB_STATUS,
+  type WhatsAppSendJob,
+} from '@/lib/whatsapp/send-queue/types';
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const NOW = Date.parse('2026-03-02T10:00:00Z');
+
+function buildJob(
+  id: string,
+  overrides: Partial<WhatsAppSendJob> = {},
+): WhatsAppSendJob {
+  return {
+    id,
+    message: {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: '8613800000000',
+      type: 'text',
+      text: { body: 'Hello' },
+    },
+    phoneNumberId: 'phone-1',
+    status: SEND_JOB_STATUS.QUEUED,
+    attempts: 0,
+    sendAt: NOW,
+    nextAttemptAt: NOW,
+    createdAt: new Date(NOW).toISOString(),
+    updatedAt: new Date(NOW).toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Minimal Upstash REST endpoint backed by maps
+ */
+function createFakeRedis() {
+  const strings = new Map<string, string>();
+  const expiries = new Map<string, number>();
+  const due = new Map<string, number>();
+
+  const run = (args: Array<string | number>): unknown => {
+    const [command, key, ...rest] = args.map(String);
+    switch (command) {
+      case 'SET':
+        strings.set(key!, rest[0]!);
+        if (rest[1] === 'PX') expiries.set(key!, Number(rest[2]));
+        else expiries.delete(key!);
+        return 'OK';
+      case 'GET':
+        return strings.get(key!) ?? null;
+      case 'ZADD':
+        due.set(rest[1]!, Number(rest[0]));
+        return 1;
+      case 'ZREM':
+        rest.forEach((member) => due.delete(member));
+        return 1;
+      case 'ZRANGEBYSCORE':
+        return [...due.entries()]
+          .filter(([, score]) => score <= Number(rest[1]))
+          .sort((a, b) => a[1] - b[1])
+          .map(([member]) => member)
+          .slice(0, Number(rest[4]));
+      default:
+        throw new Error(`Unsupported command ${command}`);
+    }
+  };
+
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const args = JSON.parse(String(init.body)) as Array<string | number>;
+    return new Response(JSON.stringify({ result: run(args) }));
+  });
+  return { fetchMock, strings, expiries, due };
+}
+
+describe('RedisWhatsAppSendQueueStore', () => {
+  let redis: ReturnType<typeof createFakeRedis>;
+  let store: RedisWhatsAppSendQueueStore;
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+    vi.stubGlobal('fetch', redis.fetchMock);
+    store = new RedisWhatsAppSendQueueStore('https://redis.example.com', 't');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list due jobs earliest first', async () => {
+    await store.save(buildJob('later', { nextAttemptAt: NOW - 1_000 }));
+    await store.save(buildJob('earlier', { nextAttemptAt: NOW - 5_000 }));
+    await store.save(buildJob('future', { nextAttemptAt: NOW + 60_000 }));
+
+    const jobs = await store.listDue(NOW, 10);
+
+    expect(jobs.map((job) => job.id)).toEqual(['earlier', 'later']);
+    expect(await store.get('future')).toMatchObject({ status: 'queued' });
+  });
+
+  it('should keep queued jobs and expire finished ones', async () => {
+    await store.save(buildJob('job-1'));
+    expect(redis.expiries.has('whatsapp-send-queue:job:job-1')).toBe(false);
+
+    await store.save(
+      buildJob('job-1', {
+        status: SEND_JOB_STATUS.SENT,
+        nextAttemptAt: null,
+        messageId: 'wamid.1',
+      }),
+    );
+
+    expect(redis.expiries.has('whatsapp-send-queue:job:job-1')).toBe(true);
+    expect(redis.due.has('job-1')).toBe(false);
+    expect(await store.listDue(NOW, 10)).toEqual([]);
+    expect(await store.get('job-1')).toMatchObject({ messageId: 'wamid.1' });
+  });
+
+  it('should drop index members whose job is gone', async () => {
+    await store.save(buildJob('job-1'));
+    redis.strings.delete('whatsapp-send-queue:job:job-1');
+
+    expect(await store.listDue(NOW, 10)).toEqual([]);
+    expect(redis.due.has('job-1')).toBe(false);
+  });
+});
+
+describe('getWhatsAppSendQueueStore', () => {
+  beforeEach(() => {
+    vi.stubEnv('WHATSAPP_SEND_QUEUE_STORE', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', '');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('KV_REST_API_TOKEN', '');
+    resetWhatsAppSendQueueStore();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetWhatsAppSendQueueStore();
+  });
+
+  it('should use the in-process store without Redis', () => {
+    expect(getWhatsAppSendQueueStore()).toBeInstanceOf(
+      MemoryWhatsAppSendQueueStore,
+    );
+  });
+
+  it('should share jobs through Redis when configured', () => {
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.example.com');
+    vi.stubEnv('KV_REST_API_TOKEN', 'token');
+
+    expect(getWhatsAppSendQueueStore()).toBeInstanceOf(
+      RedisWhatsAppSendQueueStore,
+    );
+  });
+
+  it('should honour a forced in-process store', () => {
+    vi.stubEnv('WHATSAPP_SEND_QUEUE_STORE', 'memory');
+    vi.stubEnv('KV_REST_API_URL', 'https://kv.example.com');
+    vi.stubEnv('KV_REST_API_TOKEN', 'token');
+
+    expect(getWhatsAppSendQueueStore()).toBeInstanceOf(
+      MemoryWhatsAppSendQueueStore,
+    );
+  });
+});
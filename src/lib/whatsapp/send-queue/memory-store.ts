@@ -0,0 +1,55 @@
+/**
+ * In-Memory WhatsApp Send Queue Store
+ * Single instance only; jobs are lost on restart.
+ */
+
+import {
+  SEND_JOB_STATUS,
+  type WhatsAppSendJob,
+  type WhatsAppSendQueueStore,
+} from '@/lib/whatsapp/send-queue/types';
+import { MILLISECONDS_PER_HOUR } from '@/constants';
+
+const HOURS_TO_KEEP_FINISHED = 24;
+/** Sent and failed jobs stay available for status lookups this long */
+export const FINISHED_JOB_RETENTION_MS =
+  HOURS_TO_KEEP_FINISHED * MILLISECONDS_PER_HOUR;
+
+export class MemoryWhatsAppSendQueueStore implements WhatsAppSendQueueStore {
+  private jobs = new Map<string, WhatsAppSendJob>();
+
+  save(job: WhatsAppSendJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+    return Promise.resolve();
+  }
+
+  get(id: string): Promise<WhatsAppSendJob | null> {
+    const job = this.jobs.get(id);
+    return Promise.resolve(job ? structuredClone(job) : null);
+  }
+
+  listDue(now: number, limit: number): Promise<WhatsAppSendJob[]> {
+    this.removeFinished(now);
+    const due = [...this.jobs.values()]
+      .filter(
+        (job) =>
+          job.status === SEND_JOB_STATUS.QUEUED &&
+          job.nextAttemptAt !== null &&
+          job.nextAttemptAt <= now,
+      )
+      .sort((a, b) => (a.nextAttemptAt ?? 0) - (b.nextAttemptAt ?? 0))
+      .slice(0, limit);
+    return Promise.resolve(due.map((job) => structuredClone(job)));
+  }
+
+  private removeFinished(now: number): void {
+    for (const [id, job] of this.jobs) {
+      if (
+        job.status !== SEND_JOB_STATUS.QUEUED &&
+        now - Date.parse(job.updatedAt) > FINISHED_JOB_RETENTION_MS
+      ) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
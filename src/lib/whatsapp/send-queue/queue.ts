@@ -0,0 +1,338 @@
+/**
+ * WhatsApp Send Queue
+ *
+ * Queued sends return a job ID right away. `drainWhatsAppSendQueue` sends
+ * the jobs that are due, holding jobs back to stay within the throughput
+ * limits, retrying transient failures with backoff and recording sent
+ * messages the same way inline sends are recorded.
+ *
+ * The queue is drained right after each queued send
+ * (`drainWhatsAppSendQueueSoon`, run from `after()` in the send route), by
+ * `/api/whatsapp/send/queue` (cron or an external scheduler) and, while the
+ * in-process store is used, by a local worker started on the first enqueue.
+ * One drain runs at a time across instances, so a job is never sent twice
+ * by overlapping drains.
+ *
+ * @see src/lib/whatsapp/send-queue/throughput.ts - Throughput limits
+ */
+
+import { randomUUID } from 'crypto';
+import type { SendMessageRequest } from '@/types/whatsapp';
+import { runExclusively } from '@/lib/idempotency';
+import { logger } from '@/lib/logger';
+import { MemoryWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/memory-store';
+import {
+  getSendRetryDelay,
+  isRetryableSendError,
+  SEND_QUEUE_MAX_ATTEMPTS,
+} from '@/lib/whatsapp/send-queue/retry-policy';
+import { getWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/store';
+import {
+  getSendThroughputLimits,
+  SendThrottle,
+} from '@/lib/whatsapp/send-queue/throughput';
+import {
+  SEND_JOB_STATUS,
+  type WhatsAppSendJob,
+} from '@/lib/whatsapp/send-queue/types';
+import {
+  COUNT_TEN,
+  COUNT_TWO,
+  MINUTE_MS,
+  ONE_SECOND_MS,
+  TEN_SECONDS_MS,
+} from '@/constants';
+
+const DEFAULT_DRAIN_LIMIT = COUNT_TEN * COUNT_TEN;
+const LOCAL_WORKER_INTERVAL_MS = ONE_SECOND_MS;
+const DRAIN_LOCK_KEY = 'whatsapp-send-queue:drain';
+/** Outlives the API route's maxDuration, in case a drain dies mid-way */
+const DRAIN_LOCK_TTL_MS = MINUTE_MS;
+/** How long a follow-up drain waits for jobs coming due (within maxDuration) */
+const FOLLOW_UP_WINDOW_MS = TEN_SECONDS_MS * COUNT_TWO;
+const FOLLOW_UP_POLL_MS = ONE_SECOND_MS;
+const DEFAULT_PHONE_NUMBER_ID = 'default';
+
+export interface EnqueueOptions {
+  /** Epoch ms to send at; due immediately when omitted */
+  sendAt?: number | undefined;
+}
+
+/**
+ * Summary returned by a drain pass
+ */
+export interface SendQueueDrainSummary {
+  /** Jobs attempted */
+  processed: number;
+  sent: number;
+  failed: number;
+  /** Jobs that failed transiently and will retry */
+  retried: number;
+  /** Jobs held back by the throughput limits */
+  deferred: number;
+}
+
+interface SendAttemptOutcome {
+  success: boolean;
+  messageId?: string | undefined;
+  error?: Error | undefined;
+}
+
+type JobOutcome = 'sent' | 'failed' | 'retried' | 'deferred';
+
+let throttle: SendThrottle | null = null;
+let localWorker: ReturnType<typeof setInterval> | null = null;
+let localDrainRunning = false;
+
+function getThrottle(): SendThrottle {
+  if (!throttle) {
+    throttle = new SendThrottle(getSendThroughputLimits());
+  }
+  return throttle;
+}
+
+function startLocalWorker(): void {
+  if (localWorker || process.env.NODE_ENV === 'test') return;
+  if (!(getWhatsAppSendQueueStore() instanceof MemoryWhatsAppSendQueueStore)) {
+    return;
+  }
+
+  localWorker = setInterval(() => {
+    if (localDrainRunning) return;
+    localDrainRunning = true;
+    drainWhatsAppSendQueue()
+      .catch((error: unknown) => {
+        logger.error('[WhatsAppSendQueue] Local drain failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      })
+      .finally(() => {
+        localDrainRunning = false;
+      });
+  }, LOCAL_WORKER_INTERVAL_MS);
+  localWorker.unref?.();
+}
+
+/**
+ * Queue a message for sending
+ */
+export async function enqueueWhatsAppMessage(
+  message: SendMessageRequest,
+  options: EnqueueOptions = {},
+): Promise<WhatsAppSendJob> {
+  const now = Date.now();
+  const timestamp = new Date(now).toISOString();
+  const sendAt = options.sendAt ?? now;
+  const job: WhatsAppSendJob = {
+    id: `wajob_${randomUUID()}`,
+    message,
+    phoneNumberId:
+      process.env.WHATSAPP_PHONE_NUMBER_ID || DEFAULT_PHONE_NUMBER_ID,
+    status: SEND_JOB_STATUS.QUEUED,
+    attempts: 0,
+    sendAt,
+    nextAttemptAt: sendAt,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  await getWhatsAppSendQueueStore().save(job);
+  startLocalWorker();
+  logger.info('[WhatsAppSendQueue] Message queued', {
+    jobId: job.id,
+    sendAt: new Date(sendAt).toISOString(),
+  });
+  return job;
+}
+
+/**
+ * Look up a send job
+ */
+export function getWhatsAppSendJob(
+  jobId: string,
+): Promise<WhatsAppSendJob | null> {
+  return getWhatsAppSendQueueStore().get(jobId);
+}
+
+async function attemptSend(job: WhatsAppSendJob): Promise<SendAttemptOutcome> {
+  // Lazy import to avoid circular dependencies
+  const { sendWhatsAppMessage } = await import('@/lib/whatsapp-service');
+  try {
+    const result = await sendWhatsAppMessage(job.message);
+    if (!result.success) {
+      return {
+        success: false,
+        error: new Error(result.error || 'Unknown error'),
+      };
+    }
+    return { success: true, messageId: result.data?.messages?.[0]?.id };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
+/**
+ * Job state after a send attempt
+ */
+export function applySendAttempt(
+  job: WhatsAppSendJob,
+  outcome: SendAttemptOutcome,
+  now: number,
+): WhatsAppSendJob {
+  const attempts = job.attempts + 1;
+  const updated = {
+    ...job,
+    attempts,
+    updatedAt: new Date(now).toISOString(),
+  };
+
+  if (outcome.success) {
+    return {
+      ...updated,
+      status: SEND_JOB_STATUS.SENT,
+      nextAttemptAt: null,
+      ...(outcome.messageId ? { messageId: outcome.messageId } : {}),
+    };
+  }
+
+  const lastError = outcome.error?.message ?? 'Unknown error';
+  if (
+    isRetryableSendError(outcome.error) &&
+    attempts < SEND_QUEUE_MAX_ATTEMPTS
+  ) {
+    return {
+      ...updated,
+      lastError,
+      nextAttemptAt: now + getSendRetryDelay(attempts),
+    };
+  }
+  return {
+    ...updated,
+    status: SEND_JOB_STATUS.FAILED,
+    lastError,
+    nextAttemptAt: null,
+  };
+}
+
+async function recordSentMessage(
+  job: WhatsAppSendJob,
+  messageId: string,
+): Promise<void> {
+  // Lazy import to avoid circular dependencies
+  const { recordAcceptedMessage, recordOutboundMessage } =
+    await import('@/lib/whatsapp-service');
+  await recordAcceptedMessage(messageId, job.message.to);
+  await recordOutboundMessage({
+    messageId,
+    to: job.message.to,
+    type: job.message.type,
+    text: job.message.text?.body,
+    templateName: job.message.template?.name,
+    sentBy: 'api',
+  });
+}
+
+async function processJob(
+  job: WhatsAppSendJob,
+  now: number,
+): Promise<JobOutcome> {
+  const store = getWhatsAppSendQueueStore();
+  const availableAt = getThrottle().availableAt(job, now);
+  if (availableAt > now) {
+    await store.save({ ...job, nextAttemptAt: availableAt });
+    return 'deferred';
+  }
+
+  getThrottle().record(job, now);
+  const updated = applySendAttempt(job, await attemptSend(job), now);
+  await store.save(updated);
+
+  if (updated.status === SEND_JOB_STATUS.SENT) {
+    if (updated.messageId) await recordSentMessage(updated, updated.messageId);
+    return 'sent';
+  }
+  if (updated.status === SEND_JOB_STATUS.FAILED) {
+    logger.warn('[WhatsAppSendQueue] Send failed', {
+      jobId: job.id,
+      attempts: updated.attempts,
+      error: updated.lastError,
+    });
+    return 'failed';
+  }
+  return 'retried';
+}
+
+function createSummary(): SendQueueDrainSummary {
+  return { processed: 0, sent: 0, failed: 0, retried: 0, deferred: 0 };
+}
+
+async function drainDueJobs(options: {
+  limit?: number;
+  now?: number;
+}): Promise<SendQueueDrainSummary> {
+  const { limit = DEFAULT_DRAIN_LIMIT, now = Date.now() } = options;
+  const jobs = await getWhatsAppSendQueueStore().listDue(now, limit);
+  const summary = createSummary();
+
+  for (const job of jobs) {
+    const outcome = await processJob(job, now);
+    // eslint-disable-next-line security/detect-object-injection -- outcome is a JobOutcome literal
+    summary[outcome] += 1;
+    if (outcome !== 'deferred') summary.processed += 1;
+  }
+  return summary;
+}
+
+/**
+ * Send due jobs
+ * Skipped (empty summary) while another drain holds the lock.
+ */
+export async function drainWhatsAppSendQueue(
+  options: { limit?: number; now?: number } = {},
+): Promise<SendQueueDrainSummary> {
+  const summary = await runExclusively(DRAIN_LOCK_KEY, DRAIN_LOCK_TTL_MS, () =>
+    drainDueJobs(options),
+  );
+  if (!summary) {
+    logger.info('[WhatsAppSendQueue] Another drain is running, skipping');
+  }
+  return summary ?? createSummary();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * Drain now, then keep draining jobs that come due within the follow-up
+ * window (recipient spacing and per-second throttling)
+ *
+ * Run from `after()` once a queued send has been answered, so queued sends
+ * do not wait for the scheduled drain. Jobs due later (`sendAt`, retry
+ * backoff) still need `/api/whatsapp/send/queue` or a later enqueue.
+ */
+export async function drainWhatsAppSendQueueSoon(
+  windowMs: number = FOLLOW_UP_WINDOW_MS,
+): Promise<void> {
+  const deadline = Date.now() + windowMs;
+  while (Date.now() < deadline) {
+    await drainWhatsAppSendQueue();
+    const [next] = await getWhatsAppSendQueueStore().listDue(deadline, 1);
+    if (!next?.nextAttemptAt) return;
+    await sleep(Math.max(next.nextAttemptAt - Date.now(), FOLLOW_UP_POLL_MS));
+  }
+}
+
+/**
+ * Forget recorded send times and stop the local worker (for testing)
+ */
+export function resetWhatsAppSendQueueWorker(): void {
+  throttle = null;
+  if (localWorker) clearInterval(localWorker);
+  localWorker = null;
+}
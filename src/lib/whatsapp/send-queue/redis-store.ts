@@ -0,0 +1,97 @@
+/**
+ * Redis REST WhatsApp send queue store (Upstash Redis / Vercel KV)
+ *
+ * Jobs are stored as JSON strings and a sorted set indexes queued jobs by
+ * their next attempt time. Queued jobs never expire; sent and failed jobs
+ * expire once they are no longer needed for status lookups.
+ */
+
+import { logger } from '@/lib/logger';
+import { RedisRestClient } from '@/lib/redis-rest';
+import { FINISHED_JOB_RETENTION_MS } from '@/lib/whatsapp/send-queue/memory-store';
+import {
+  SEND_JOB_STATUS,
+  type WhatsAppSendJob,
+  type WhatsAppSendQueueStore,
+} from '@/lib/whatsapp/send-queue/types';
+
+const KEY_PREFIX = 'whatsapp-send-queue';
+const DUE_INDEX_KEY = `${KEY_PREFIX}:due`;
+
+export class RedisWhatsAppSendQueueStore implements WhatsAppSendQueueStore {
+  private redis: RedisRestClient;
+
+  constructor(url: string, token: string) {
+    this.redis = new RedisRestClient(url, token, 'Send queue store');
+  }
+
+  private jobKey(id: string): string {
+    return `${KEY_PREFIX}:job:${id}`;
+  }
+
+  async save(job: WhatsAppSendJob): Promise<void> {
+    const dueAt =
+      job.status === SEND_JOB_STATUS.QUEUED ? job.nextAttemptAt : null;
+
+    await this.redis.command([
+      'SET',
+      this.jobKey(job.id),
+      JSON.stringify(job),
+      ...(dueAt === null ? ['PX', FINISHED_JOB_RETENTION_MS] : []),
+    ]);
+
+    if (dueAt === null) {
+      await this.redis.command(['ZREM', DUE_INDEX_KEY, job.id]);
+    } else {
+      await this.redis.command(['ZADD', DUE_INDEX_KEY, dueAt, job.id]);
+    }
+  }
+
+  async get(id: string): Promise<WhatsAppSendJob | null> {
+    const raw = await this.redis.command<string | null>([
+      'GET',
+      this.jobKey(id),
+    ]);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as WhatsAppSendJob;
+    } catch {
+      logger.warn('[WhatsAppSendQueue] Ignoring unreadable job', { id });
+      return null;
+    }
+  }
+
+  async listDue(now: number, limit: number): Promise<WhatsAppSendJob[]> {
+    const ids = await this.redis.command<string[] | null>([
+      'ZRANGEBYSCORE',
+      DUE_INDEX_KEY,
+      '-inf',
+      now,
+      'LIMIT',
+      0,
+      limit,
+    ]);
+    if (!ids || ids.length === 0) return [];
+
+    const loaded = await Promise.all(
+      ids.map(async (id) => ({ id, job: await this.get(id) })),
+    );
+    const dangling = loaded.filter(
+      ({ job }) => job?.status !== SEND_JOB_STATUS.QUEUED,
+    );
+    if (dangling.length > 0) {
+      // Job was removed or finished by another writer; drop it from the index
+      await this.redis.command([
+        'ZREM',
+        DUE_INDEX_KEY,
+        ...dangling.map(({ id }) => id),
+      ]);
+    }
+    return loaded
+      .map(({ job }) => job)
+      .filter(
+        (job): job is WhatsAppSendJob => job?.status === SEND_JOB_STATUS.QUEUED,
+      );
+  }
+}
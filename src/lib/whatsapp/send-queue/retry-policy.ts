@@ -0,0 +1,42 @@
+/**
+ * WhatsApp Send Retry Policy
+ * Which send errors are worth retrying, and when a queued job tries again
+ */
+
+import {
+  COUNT_FIVE,
+  FIVE_MINUTES_MS,
+  ONE,
+  THIRTY_SECONDS_MS,
+} from '@/constants';
+
+/** Total attempts (including the first one) before a queued job fails */
+export const SEND_QUEUE_MAX_ATTEMPTS = COUNT_FIVE;
+
+/**
+ * Check if a send error is retryable (network issues, rate limits)
+ */
+export function isRetryableSendError(error: unknown): boolean {
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    return (
+      message.includes('network') ||
+      message.includes('timeout') ||
+      message.includes('rate limit') ||
+      message.includes('429') ||
+      message.includes('503')
+    );
+  }
+  return false;
+}
+
+/**
+ * Delay before the next attempt of a queued job
+ * 30s, 1m, 2m, 4m, capped at 5m.
+ *
+ * @param attempts - Number of attempts already made
+ */
+export function getSendRetryDelay(attempts: number): number {
+  const exponent = Math.max(attempts - ONE, 0);
+  return Math.min(THIRTY_SECONDS_MS * 2 ** exponent, FIVE_MINUTES_MS);
+}
@@ -0,0 +1,62 @@
+/**
+ * WhatsApp Send Queue Store Selection
+ *
+ * Resolution order:
+ * 1. WHATSAPP_SEND_QUEUE_STORE=memory forces the in-process store
+ * 2. Upstash Redis (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ * 3. Vercel KV (KV_REST_API_URL + KV_REST_API_TOKEN)
+ * 4. In-process store (development, tests and single-instance servers;
+ *    jobs are lost on restart)
+ */
+
+import { logger } from '@/lib/logger';
+import { getRedisRestConfig } from '@/lib/redis-rest';
+import { MemoryWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/memory-store';
+import { RedisWhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/redis-store';
+import type { WhatsAppSendQueueStore } from '@/lib/whatsapp/send-queue/types';
+
+function createWhatsAppSendQueueStore(): WhatsAppSendQueueStore {
+  const redis =
+    process.env.WHATSAPP_SEND_QUEUE_STORE === 'memory'
+      ? null
+      : getRedisRestConfig();
+  if (redis) {
+    logger.info('[WhatsAppSendQueue] Using Redis store', {
+      provider: redis.provider,
+    });
+    return new RedisWhatsAppSendQueueStore(redis.url, redis.token);
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    logger.warn(
+      '[WhatsAppSendQueue] Using in-process store. Queued messages are lost on restart and not shared across instances.',
+    );
+  }
+  return new MemoryWhatsAppSendQueueStore();
+}
+
+let queueStore: WhatsAppSendQueueStore | null = null;
+
+/**
+ * Get the active send queue store (created lazily)
+ */
+export function getWhatsAppSendQueueStore(): WhatsAppSendQueueStore {
+  if (!queueStore) {
+    queueStore = createWhatsAppSendQueueStore();
+  }
+  return queueStore;
+}
+
+/**
+ * Plug in a custom store implementation
+ */
+export function setWhatsAppSendQueueStore(store: WhatsAppSendQueueStore): void {
+  queueStore = store;
+}
+
+/**
+ * Reset store instance (for testing)
+ */
+export function resetWhatsAppSendQueueStore(): void {
+  queueStore = null;
+}
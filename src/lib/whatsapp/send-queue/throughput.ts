@@ -0,0 +1,91 @@
+/**
+ * WhatsApp Send Throughput Limits
+ *
+ * WhatsApp limits how fast one business number may message the same user
+ * (pair rate limit) and how many messages per second a business number may
+ * send. The queue worker holds jobs back instead of hitting those limits.
+ *
+ * Environment:
+ * - WHATSAPP_QUEUE_RECIPIENT_INTERVAL_MS: minimum gap between two messages
+ *   to the same recipient (default 6000, about Meta's pair rate limit)
+ * - WHATSAPP_QUEUE_MESSAGES_PER_SECOND: messages per second per business
+ *   phone number (default 80, Meta's default throughput)
+ *
+ * Send times are tracked per server instance.
+ */
+
+import type { WhatsAppSendJob } from '@/lib/whatsapp/send-queue/types';
+import { MILLISECONDS_PER_SECOND } from '@/constants';
+
+const PAIR_RATE_LIMIT_SECONDS = 6;
+const DEFAULT_RECIPIENT_INTERVAL_MS =
+  PAIR_RATE_LIMIT_SECONDS * MILLISECONDS_PER_SECOND;
+const DEFAULT_MESSAGES_PER_SECOND = 80;
+
+export interface SendThroughputLimits {
+  recipientIntervalMs: number;
+  messagesPerSecond: number;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read the throughput limits from the environment
+ */
+export function getSendThroughputLimits(): SendThroughputLimits {
+  return {
+    recipientIntervalMs: readPositiveInt(
+      process.env.WHATSAPP_QUEUE_RECIPIENT_INTERVAL_MS,
+      DEFAULT_RECIPIENT_INTERVAL_MS,
+    ),
+    messagesPerSecond: readPositiveInt(
+      process.env.WHATSAPP_QUEUE_MESSAGES_PER_SECOND,
+      DEFAULT_MESSAGES_PER_SECOND,
+    ),
+  };
+}
+
+/**
+ * Send times per recipient and per business phone number
+ */
+export class SendThrottle {
+  private lastSentTo = new Map<string, number>();
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(private readonly limits: SendThroughputLimits) {}
+
+  /**
+   * Earliest time the job may be sent; `now` when it may go right away
+   */
+  availableAt(job: WhatsAppSendJob, now: number): number {
+    const lastSent = this.lastSentTo.get(job.message.to);
+    const recipientReady =
+      lastSent === undefined ? now : lastSent + this.limits.recipientIntervalMs;
+
+    const window = this.windows.get(job.phoneNumberId);
+    const windowEnd = window ? window.start + MILLISECONDS_PER_SECOND : now;
+    const numberReady =
+      window && windowEnd > now && window.count >= this.limits.messagesPerSecond
+        ? windowEnd
+        : now;
+
+    return Math.max(now, recipientReady, numberReady);
+  }
+
+  /**
+   * Count a send attempt against both limits
+   */
+  record(job: WhatsAppSendJob, now: number): void {
+    this.lastSentTo.set(job.message.to, now);
+
+    const window = this.windows.get(job.phoneNumberId);
+    if (window && now - window.start < MILLISECONDS_PER_SECOND) {
+      window.count += 1;
+    } else {
+      this.windows.set(job.phoneNumberId, { start: now, count: 1 });
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * WhatsApp Send Queue Type Definitions
+ * Messages accepted by `/api/whatsapp/send` in queued mode
+ */
+
+import type { SendMessageRequest } from '@/types/whatsapp';
+
+/**
+ * Lifecycle status of a send job
+ * - queued: waiting for its send time, a throughput slot or a retry
+ * - sent: accepted by WhatsApp (`messageId` is set)
+ * - failed: rejected, or no retries left
+ */
+export const SEND_JOB_STATUS = {
+  QUEUED: 'queued',
+  SENT: 'sent',
+  FAILED: 'failed',
+} as const;
+
+export type SendJobStatus =
+  (typeof SEND_JOB_STATUS)[keyof typeof SEND_JOB_STATUS];
+
+export interface WhatsAppSendJob {
+  id: string;
+  message: SendMessageRequest;
+  /** Business phone number the message is sent from */
+  phoneNumberId: string;
+  status: SendJobStatus;
+  attempts: number;
+  /** Epoch ms the message was scheduled for */
+  sendAt: number;
+  /** Epoch ms of the next attempt, null once sent or failed */
+  nextAttemptAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+  /** WhatsApp message ID (wamid) once sent */
+  messageId?: string;
+  lastError?: string;
+}
+
+/**
+ * Storage backend for the send queue
+ *
+ * Draining is expected to run from a single worker at a time.
+ */
+export interface WhatsAppSendQueueStore {
+  /** Insert or replace a job */
+  save(job: WhatsAppSendJob): Promise<void>;
+  get(id: string): Promise<WhatsAppSendJob | null>;
+  /** Queued jobs due at or before `now`, earliest first */
+  listDue(now: number, limit: number): Promise<WhatsAppSendJob[]>;
+}
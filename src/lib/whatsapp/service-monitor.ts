@@ -0,0 +1,416 @@
+/**
+ * WhatsApp Service Monitor
+ *
+ * Fills the `ServiceMetrics` / `ServiceHealth` structures from what the
+ * service actually does: the real and mock clients record every Cloud API
+ * call (sends, failures, latency, rate limiting), the webhook reports
+ * delivery receipts, and a health check probes the configuration and,
+ * optionally, the business phone number on the Graph API.
+ *
+ * Uptime counts the time between a call failing with an outage error
+ * (network, timeout, 503) and the next successful call as downtime.
+ *
+ * Counters are kept in memory, so they describe the current server
+ * instance since it started.
+ */
+
+import type { WhatsAppServiceResponse } from '@/types/whatsapp';
+import {
+  calculateErrorRate,
+  calculateUptime,
+  createDefaultMetrics,
+  determineHealthStatus,
+  needsAttention,
+  updateMetrics,
+  type ServiceHealth,
+  type ServiceMetrics,
+  type ServiceStatus,
+} from '@/types/whatsapp-service-monitoring';
+import type {
+  MessageStatusEvent,
+  WebhookProcessor,
+} from '@/types/whatsapp-webhook-events';
+import { createLatencyTimer } from '@/lib/lead-pipeline/metrics';
+import { logger } from '@/lib/logger';
+import {
+  getGraphApiBaseUrl,
+  GRAPH_API_VERSION,
+} from '@/lib/whatsapp/graph-api';
+import { isRetryableSendError } from '@/lib/whatsapp/send-queue/retry-policy';
+import { FIVE_SECONDS_MS, ONE } from '@/constants';
+
+export const WHATSAPP_CALL_KINDS = {
+  SEND: 'send',
+  MEDIA: 'media',
+} as const;
+
+export type WhatsAppCallKind =
+  (typeof WHATSAPP_CALL_KINDS)[keyof typeof WHATSAPP_CALL_KINDS];
+
+export interface WhatsAppApiCall {
+  kind: WhatsAppCallKind;
+  success: boolean;
+  durationMs: number;
+  error?: string | undefined;
+}
+
+export interface RateLimitStats {
+  /** Calls rejected by Meta's rate limits */
+  count: number;
+  /** ISO timestamp of the latest rate-limited call */
+  lastAt?: string;
+}
+
+type PhoneNumberState = NonNullable<ServiceHealth['details']>['phoneNumber'];
+
+/**
+ * Result of the last Graph API phone number probe
+ */
+export interface PhoneNumberProbe {
+  phoneNumber: PhoneNumberState;
+  /** ISO timestamp */
+  checkedAt: string;
+  responseTimeMs: number;
+  qualityRating?: string;
+  error?: string;
+}
+
+export interface WhatsAppServiceReport extends ServiceStatus {
+  clientType: 'real' | 'mock' | 'none';
+  rateLimits: RateLimitStats;
+  lastProbe: PhoneNumberProbe | null;
+  needsAttention: boolean;
+}
+
+/**
+ * Meta reports rate limiting as HTTP 429 or error codes 4, 80007,
+ * 130429 and 131056, whose messages all mention the rate limit
+ */
+export function isRateLimitError(error: string): boolean {
+  const message = error.toLowerCase();
+  return (
+    message.includes('rate limit') ||
+    message.includes('too many') ||
+    message.includes('429')
+  );
+}
+
+function isOutageError(error: string): boolean {
+  return !isRateLimitError(error) && isRetryableSendError(new Error(error));
+}
+
+function hasCredentials(): boolean {
+  return Boolean(
+    process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID,
+  );
+}
+
+/**
+ * Both the verify token and the app secret are needed to receive webhooks
+ */
+function getWebhookState(): NonNullable<ServiceHealth['details']>['webhook'] {
+  const verifyToken = Boolean(process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN);
+  const appSecret = Boolean(process.env.WHATSAPP_APP_SECRET);
+  if (verifyToken && appSecret) return 'configured';
+  return verifyToken || appSecret ? 'error' : 'not_configured';
+}
+
+/**
+ * WhatsApp service metrics collector
+ */
+export class WhatsAppServiceMonitor {
+  private metrics: ServiceMetrics = createDefaultMetrics();
+  private rateLimits: RateLimitStats = { count: 0 };
+  private lastActivity = 0;
+  /** Start of the current outage, null while the API answers */
+  private unavailableSince: number | null = null;
+  private downtimeMs = 0;
+  private lastProbe: PhoneNumberProbe | null = null;
+
+  /**
+   * Record one Cloud API call
+   */
+  recordApiCall(call: WhatsAppApiCall, now: number = Date.now()): void {
+    const { apiCalls, apiErrors, averageResponseTime } = this.metrics;
+    const isSend = call.kind === WHATSAPP_CALL_KINDS.SEND;
+    const calls = apiCalls + ONE;
+
+    this.metrics = updateMetrics(this.metrics, {
+      apiCalls: calls,
+      averageResponseTime:
+        averageResponseTime + (call.durationMs - averageResponseTime) / calls,
+      ...(call.success ? {} : { apiErrors: apiErrors + ONE }),
+      ...(isSend && call.success
+        ? { messagesSent: this.metrics.messagesSent + ONE }
+        : {}),
+      ...(isSend && !call.success
+        ? { messagesFailed: this.metrics.messagesFailed + ONE }
+        : {}),
+    });
+    this.lastActivity = now;
+
+    if (call.success) {
+      this.endOutage(now);
+      return;
+    }
+
+    const error = call.error ?? '';
+    if (isRateLimitError(error)) {
+      this.rateLimits = {
+        count: this.rateLimits.count + ONE,
+        lastAt: new Date(now).toISOString(),
+      };
+      logger.warn('[WhatsAppMonitor] Cloud API rate limit hit', {
+        kind: call.kind,
+      });
+    } else if (isOutageError(error) && this.unavailableSince === null) {
+      this.unavailableSince = now;
+    }
+  }
+
+  /**
+   * Count delivery receipts reported by the webhook
+   */
+  recordDeliveryStatus(status: string): void {
+    const { messagesDelivered, messagesRead, messagesFailed } = this.metrics;
+    if (status === 'delivered') {
+      this.metrics = updateMetrics(this.metrics, {
+        messagesDelivered: messagesDelivered + ONE,
+      });
+    } else if (status === 'read') {
+      this.metrics = updateMetrics(this.metrics, {
+        messagesRead: messagesRead + ONE,
+      });
+    } else if (status === 'failed') {
+      this.metrics = updateMetrics(this.metrics, {
+        messagesFailed: messagesFailed + ONE,
+      });
+    }
+  }
+
+  getRateLimitStats(): RateLimitStats {
+    return { ...this.rateLimits };
+  }
+
+  recordProbe(probe: PhoneNumberProbe): void {
+    this.lastProbe = probe;
+  }
+
+  private endOutage(now: number): void {
+    if (this.unavailableSince === null) return;
+    this.downtimeMs += now - this.unavailableSince;
+    this.unavailableSince = null;
+  }
+
+  getMetrics(now: number = Date.now()): ServiceMetrics {
+    const ongoing =
+      this.unavailableSince === null ? 0 : now - this.unavailableSince;
+    return updateMetrics(this.metrics, {
+      uptime: calculateUptime(
+        now - this.metrics.lastReset,
+        this.downtimeMs + ongoing,
+      ),
+    });
+  }
+
+  getHealth(now: number = Date.now()): ServiceHealth {
+    const metrics = this.getMetrics(now);
+    const errorRate = calculateErrorRate(metrics.apiCalls, metrics.apiErrors);
+    const apiAvailable = hasCredentials() && this.unavailableSince === null;
+    let status = apiAvailable
+      ? determineHealthStatus(
+          errorRate,
+          metrics.averageResponseTime,
+          metrics.uptime,
+        )
+      : 'unhealthy';
+    if (status === 'healthy' && this.lastProbe?.phoneNumber === 'error') {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      lastCheck: now,
+      responseTime: metrics.averageResponseTime,
+      errorRate,
+      uptime: metrics.uptime,
+      details: {
+        api: apiAvailable ? 'available' : 'unavailable',
+        webhook: getWebhookState(),
+        phoneNumber: this.lastProbe?.phoneNumber ?? 'unverified',
+      },
+    };
+  }
+
+  /**
+   * Full status report for the monitoring endpoint
+   */
+  getReport(
+    clientType: WhatsAppServiceReport['clientType'],
+    now: number = Date.now(),
+  ): WhatsAppServiceReport {
+    const health = this.getHealth(now);
+    const metrics = this.getMetrics(now);
+    return {
+      isInitialized: clientType !== 'none',
+      isConnected: health.details?.api === 'available',
+      lastActivity: this.lastActivity,
+      health,
+      metrics,
+      config: {
+        phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID ?? '',
+        apiVersion: GRAPH_API_VERSION,
+        webhookConfigured: health.details?.webhook === 'configured',
+      },
+      clientType,
+      rateLimits: this.getRateLimitStats(),
+      lastProbe: this.lastProbe,
+      needsAttention: Boolean(needsAttention(health, metrics)),
+    };
+  }
+
+  /**
+   * Reset all counters (for testing)
+   */
+  reset(now: number = Date.now()): void {
+    this.metrics = updateMetrics(createDefaultMetrics(), { lastReset: now });
+    this.rateLimits = { count: 0 };
+    this.lastActivity = 0;
+    this.unavailableSince = null;
+    this.downtimeMs = 0;
+    this.lastProbe = null;
+  }
+}
+
+/**
+ * Singleton monitor shared by the clients, the webhook and the status route
+ */
+export const whatsappServiceMonitor = new WhatsAppServiceMonitor();
+
+/**
+ * Run a send and record its outcome
+ */
+export async function monitorSend(
+  send: () => Promise<WhatsAppServiceResponse>,
+): Promise<WhatsAppServiceResponse> {
+  const timer = createLatencyTimer();
+  try {
+    const response = await send();
+    whatsappServiceMonitor.recordApiCall({
+      kind: WHATSAPP_CALL_KINDS.SEND,
+      success: response.success,
+      durationMs: timer.stop(),
+      error: response.error,
+    });
+    return response;
+  } catch (error) {
+    whatsappServiceMonitor.recordApiCall({
+      kind: WHATSAPP_CALL_KINDS.SEND,
+      success: false,
+      durationMs: timer.stop(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Run a media call and record its outcome; null results count as failures
+ */
+export async function monitorMediaCall<T>(
+  call: () => Promise<T | null>,
+): Promise<T | null> {
+  const timer = createLatencyTimer();
+  let result: T | null = null;
+  try {
+    result = await call();
+    return result;
+  } finally {
+    whatsappServiceMonitor.recordApiCall({
+      kind: WHATSAPP_CALL_KINDS.MEDIA,
+      success: result !== null,
+      durationMs: timer.stop(),
+    });
+  }
+}
+
+interface PhoneNumberResponse {
+  code_verification_status?: string;
+  quality_rating?: string;
+  error?: { message?: string };
+}
+
+/**
+ * Look up the business phone number on the Graph API
+ */
+export async function probeWhatsAppPhoneNumber(
+  now: () => number = Date.now,
+): Promise<PhoneNumberProbe> {
+  const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  const startedAt = now();
+  const result = (
+    probe: Omit<PhoneNumberProbe, 'checkedAt' | 'responseTimeMs'>,
+  ): PhoneNumberProbe => ({
+    ...probe,
+    checkedAt: new Date(startedAt).toISOString(),
+    responseTimeMs: now() - startedAt,
+  });
+
+  if (!accessToken || !phoneNumberId) {
+    return result({
+      phoneNumber: 'error',
+      error: 'Credentials not configured',
+    });
+  }
+
+  try {
+    const response = await fetch(
+      `${getGraphApiBaseUrl()}/${phoneNumberId}?fields=code_verification_status,quality_rating`,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        signal: AbortSignal.timeout(FIVE_SECONDS_MS),
+      },
+    );
+    const data = (await response.json()) as PhoneNumberResponse;
+    if (!response.ok) {
+      return result({
+        phoneNumber: 'error',
+        error: data.error?.message ?? `HTTP ${response.status}`,
+      });
+    }
+    return result({
+      phoneNumber:
+        data.code_verification_status === 'VERIFIED'
+          ? 'verified'
+          : 'unverified',
+      ...(data.quality_rating ? { qualityRating: data.quality_rating } : {}),
+    });
+  } catch (error) {
+    return result({
+      phoneNumber: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Health check: configuration plus, with `deep`, a phone number probe
+ */
+export async function checkWhatsAppServiceHealth(
+  options: { deep?: boolean } = {},
+): Promise<ServiceHealth> {
+  if (options.deep && hasCredentials()) {
+    whatsappServiceMonitor.recordProbe(await probeWhatsAppPhoneNumber());
+  }
+  return whatsappServiceMonitor.getHealth();
+}
+
+/**
+ * Webhook processor that counts delivery receipts
+ */
+export const serviceMonitorProcessor: WebhookProcessor = {
+  onMessageStatus(event: MessageStatusEvent): void {
+    whatsappServiceMonitor.recordDeliveryStatus(event.status_update.status);
+  },
+};
@@ -0,0 +1,353 @@
+/**
+ * WhatsApp Template Registry
+ *
+ * Checks template sends against the local registry of approved templates
+ * (name, languages, header/body/button parameters) so a typo or a wrong
+ * parameter count is rejected before the request reaches Meta.
+ *
+ * The registry is generated from a Meta template export:
+ *   pnpm whatsapp:templates:sync <meta-template-export.json>
+ *
+ * @see src/lib/whatsapp-templates.generated.ts - Registry data
+ */
+
+import {
+  validateTemplateParameter,
+  type ButtonSubType,
+  type TemplateBuilder,
+  type TemplateButtonSchema,
+  type TemplateComponent,
+  type TemplateDefinition,
+  type TemplateParameter,
+  type TemplateParameterSchema,
+  type TemplateParameterType,
+  type TemplateValidationResult,
+} from '@/types/whatsapp-template-types';
+import { WHATSAPP_TEMPLATE_REGISTRY } from '@/lib/whatsapp-templates.generated';
+
+/** Body variables also accept localized currency and date values */
+const BODY_TEXT_TYPES: TemplateParameterType[] = [
+  'text',
+  'currency',
+  'date_time',
+];
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const HEADER_MEDIA_FORMATS = new Map<string, TemplateParameterType>([
+  ['IMAGE', 'image'],
+  ['DOCUMENT', 'document'],
+  ['VIDEO', 'video'],
+]);
+/** Other button types (copy code, flows, OTP) take no send parameters */
+const META_BUTTON_TYPES = new Map<string, ButtonSubType>([
+  ['QUICK_REPLY', 'quick_reply'],
+  ['URL', 'url'],
+  ['PHONE_NUMBER', 'phone_number'],
+]);
+
+/**
+ * Look up a template by name
+ */
+export function getTemplateDefinition(
+  name: string,
+  registry: TemplateDefinition[] = WHATSAPP_TEMPLATE_REGISTRY,
+): TemplateDefinition | undefined {
+  return registry.find((definition) => definition.name === name);
+}
+
+function acceptedTypes(
+  schema: TemplateParameterSchema,
+  componentType: TemplateComponent['type'],
+): TemplateParameterType[] {
+  return componentType === 'body' && schema.type === 'text'
+    ? BODY_TEXT_TYPES
+    : [schema.type];
+}
+
+function checkParameters(
+  component: { type: TemplateComponent['type']; label: string },
+  schemas: TemplateParameterSchema[],
+  parameters: TemplateParameter[],
+): string[] {
+  const { type, label } = component;
+  if (parameters.length !== schemas.length) {
+    return [
+      `${label} expects ${schemas.length} parameters, got ${parameters.length}`,
+    ];
+  }
+
+  return parameters.flatMap((parameter, index) => {
+    const expected = acceptedTypes(schemas.at(index)!, type);
+    if (!expected.includes(parameter.type)) {
+      return [
+        `${label} parameter ${index + 1} must be ${expected.join(' or ')}, got ${parameter.type}`,
+      ];
+    }
+    return validateTemplateParameter(parameter).errors.map(
+      (error) => `${label} parameter ${index + 1}: ${error}`,
+    );
+  });
+}
+
+function checkButtons(
+  schemas: TemplateButtonSchema[],
+  components: TemplateComponent[],
+): string[] {
+  const errors = components.flatMap((component) => {
+    const schema = schemas.find((button) => button.index === component.index);
+    const label = `Button ${component.index}`;
+    if (!schema) return [`${label} does not exist`];
+    if (schema.sub_type !== component.sub_type) {
+      return [`${label} is a ${schema.sub_type} button`];
+    }
+    return checkParameters(
+      { type: 'button', label },
+      schema.parameters,
+      component.parameters ?? [],
+    );
+  });
+
+  for (const schema of schemas) {
+    const sent = components.some(
+      (component) => component.index === schema.index,
+    );
+    if (!sent && schema.parameters.length > 0) {
+      errors.push(
+        `Button ${schema.index} expects ${schema.parameters.length} parameters, got 0`,
+      );
+    }
+  }
+  return errors;
+}
+
+function checkComponents(
+  definition: TemplateDefinition,
+  components: TemplateComponent[],
+): string[] {
+  const ofType = (type: TemplateComponent['type']) =>
+    components.filter((component) => component.type === type);
+  const errors: string[] = [];
+
+  for (const type of ['header', 'body', 'footer'] as const) {
+    if (ofType(type).length > 1) errors.push(`Duplicate ${type} component`);
+  }
+  if (ofType('footer').some((footer) => footer.parameters?.length)) {
+    errors.push('Footer does not take parameters');
+  }
+
+  return [
+    ...errors,
+    ...checkParameters(
+      { type: 'header', label: 'Header' },
+      definition.header ?? [],
+      ofType('header').at(0)?.parameters ?? [],
+    ),
+    ...checkParameters(
+      { type: 'body', label: 'Body' },
+      definition.body,
+      ofType('body').at(0)?.parameters ?? [],
+    ),
+    ...checkButtons(definition.buttons ?? [], ofType('button')),
+  ];
+}
+
+/**
+ * Validate a template send against the registry
+ */
+export function validateTemplateSend(
+  template: TemplateBuilder,
+  registry: TemplateDefinition[] = WHATSAPP_TEMPLATE_REGISTRY,
+): TemplateValidationResult {
+  const definition = getTemplateDefinition(template.name, registry);
+  if (!definition) {
+    return {
+      isValid: false,
+      errors: [`Unknown template: ${template.name}`],
+      warnings: [],
+    };
+  }
+
+  const errors = definition.languages.includes(template.language)
+    ? []
+    : [
+        `Template ${template.name} is not approved in ${template.language} (available: ${definition.languages.join(', ')})`,
+      ];
+  errors.push(...checkComponents(definition, template.components));
+
+  return { isValid: errors.length === 0, errors, warnings: [] };
+}
+
+// ==================== Meta template export ====================
+
+interface MetaTemplateButton {
+  type: string;
+  url?: string;
+  example?: string[];
+}
+
+interface MetaTemplateComponent {
+  type: string;
+  format?: string;
+  text?: string;
+  example?: {
+    header_text?: string[];
+    body_text?: string[][];
+  };
+  buttons?: MetaTemplateButton[];
+}
+
+/**
+ * Template as returned by the Graph API
+ * (`GET /<WABA_ID>/message_templates`), one entry per language
+ */
+export interface MetaTemplate {
+  name: string;
+  language: string;
+  status?: string;
+  category?: string;
+  components?: MetaTemplateComponent[];
+}
+
+export interface MetaTemplateImport {
+  templates: TemplateDefinition[];
+  /** `name (language): reason` for entries left out of the registry */
+  skipped: string[];
+}
+
+function countPlaceholders(text: string | undefined): number {
+  const names = [...(text ?? '').matchAll(PLACEHOLDER_PATTERN)].map(
+    (match) => match[1],
+  );
+  return new Set(names).size;
+}
+
+function textParameters(
+  count: number,
+  examples: string[] = [],
+): TemplateParameterSchema[] {
+  return Array.from({ length: count }, (_, index) => {
+    const example = examples.at(index);
+    return { type: 'text' as const, ...(example ? { example } : {}) };
+  });
+}
+
+function toHeaderSchema(
+  component: MetaTemplateComponent | undefined,
+): TemplateParameterSchema[] {
+  if (!component) return [];
+  const format = component.format ?? 'TEXT';
+  if (format === 'TEXT') {
+    return textParameters(
+      countPlaceholders(component.text),
+      component.example?.header_text,
+    );
+  }
+  const media = HEADER_MEDIA_FORMATS.get(format);
+  return media ? [{ type: media }] : [];
+}
+
+function toButtonSchemas(
+  component: MetaTemplateComponent | undefined,
+): TemplateButtonSchema[] {
+  return (component?.buttons ?? []).flatMap((button, index) => {
+    const subType = META_BUTTON_TYPES.get(button.type);
+    if (!subType) return [];
+    const dynamic = subType === 'url' && countPlaceholders(button.url) > 0;
+    return [
+      {
+        sub_type: subType,
+        index,
+        parameters: dynamic ? textParameters(1, button.example) : [],
+      },
+    ];
+  });
+}
+
+/**
+ * Registry entry for one language of a Meta template
+ */
+export function toTemplateDefinition(
+  template: MetaTemplate,
+): TemplateDefinition {
+  const components = template.components ?? [];
+  const find = (type: string) =>
+    components.find((component) => component.type.toUpperCase() === type);
+  const body = find('BODY');
+  const header = toHeaderSchema(find('HEADER'));
+  const buttons = toButtonSchemas(find('BUTTONS'));
+
+  return {
+    name: template.name,
+    languages: [template.language],
+    ...(template.category ? { category: template.category } : {}),
+    ...(header.length > 0 ? { header } : {}),
+    body: textParameters(
+      countPlaceholders(body?.text),
+      body?.example?.body_text?.at(0),
+    ),
+    ...(buttons.length > 0 ? { buttons } : {}),
+  };
+}
+
+/** Parameter layout of a definition, ignoring examples */
+function getShape(definition: TemplateDefinition): string {
+  const types = (schemas: TemplateParameterSchema[] = []) =>
+    schemas.map((schema) => schema.type);
+  return JSON.stringify([
+    types(definition.header),
+    types(definition.body),
+    (definition.buttons ?? []).map((button) => [
+      button.sub_type,
+      button.index,
+      types(button.parameters),
+    ]),
+  ]);
+}
+
+/**
+ * Build the registry from a Meta template export
+ *
+ * Only approved templates are kept. Languages of one template are merged;
+ * a language whose parameters differ from the first one is skipped, since
+ * a send is validated against a single parameter layout.
+ *
+ * @param data - `{ data: [...] }` as returned by the Graph API, or the array
+ */
+export function parseMetaTemplateExport(data: unknown): MetaTemplateImport {
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { data?: unknown } | null)?.data;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a template export with a "data" array');
+  }
+
+  const templates = new Map<string, TemplateDefinition>();
+  const skipped: string[] = [];
+
+  for (const template of entries as MetaTemplate[]) {
+    const label = `${template.name} (${template.language})`;
+    if (template.status && template.status !== 'APPROVED') {
+      skipped.push(`${label}: status ${template.status}`);
+      continue;
+    }
+
+    const definition = toTemplateDefinition(template);
+    const existing = templates.get(template.name);
+    if (!existing) {
+      templates.set(template.name, definition);
+    } else if (getShape(existing) === getShape(definition)) {
+      existing.languages.push(template.language);
+    } else {
+      skipped.push(`${label}: parameters differ from ${existing.languages[0]}`);
+    }
+  }
+
+  return {
+    templates: [...templates.values()]
+      .map((definition) => ({
+        ...definition,
+        languages: [...definition.languages].sort(),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    skipped,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * WhatsApp Webhook Event Normalization
+ *
+ * Meta batches several entries, changes, messages and status updates into a
+ * single webhook delivery. `normalizeWebhookEvents` flattens every item into
+ * a typed `WebhookEvent`, in payload order:
+ *
+ * - `messages[]`  → `message_received` (with the sender from `contacts[]`)
+ * - `statuses[]`  → `message_status`, plus `message_delivery` / `message_read`
+ *                   for delivered and read receipts
+ * - `errors[]`    → `webhook_error`
+ *
+ * Malformed items are dropped individually so one bad item does not discard
+ * the rest of the batch.
+ */
+
+import { z } from 'zod';
+import type { WhatsAppContact } from '@/types/whatsapp-base-types';
+import type { MessageStatusUpdate } from '@/types/whatsapp-webhook-base';
+import type {
+  MessageReceivedEvent,
+  WebhookEvent,
+} from '@/types/whatsapp-webhook-events';
+import { logger } from '@/lib/logger';
+import { ONE_SECOND_MS } from '@/constants';
+
+const WebhookEnvelopeSchema = z.object({
+  entry: z
+    .array(
+      z.object({
+        changes: z
+          .array(
+            z.object({
+              value: z
+                .object({
+                  metadata: z
+                    .object({ phone_number_id: z.string() })
+                    .optional(),
+                  contacts: z.array(z.unknown()).optional(),
+                  messages: z.array(z.unknown()).optional(),
+                  statuses: z.array(z.unknown()).optional(),
+                  errors: z.array(z.unknown()).optional(),
+                })
+                .optional(),
+            }),
+          )
+          .optional(),
+      }),
+    )
+    .optional(),
+});
+
+const IncomingMessageSchema = z
+  .object({
+    from: z.string(),
+    id: z.string().optional(),
+    timestamp: z.string().optional(),
+    type: z.string().optional(),
+  })
+  .passthrough();
+
+const ContactSchema = z
+  .object({
+    wa_id: z.string(),
+    profile: z.object({ name: z.string() }).optional(),
+  })
+  .passthrough();
+
+const StatusUpdateSchema = z
+  .object({
+    id: z.string(),
+    status: z.enum(['sent', 'delivered', 'read', 'failed']),
+    timestamp: z.string(),
+    recipient_id: z.string(),
+  })
+  .passthrough();
+
+const WebhookErrorSchema = z
+  .object({
+    code: z.number(),
+    title: z.string(),
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+type ChangeValue = NonNullable<
+  NonNullable<
+    NonNullable<
+      NonNullable<z.infer<typeof WebhookEnvelopeSchema>['entry']>[number]
+    >['changes']
+  >[number]['value']
+>;
+
+/**
+ * Convert a Cloud API timestamp (Unix seconds) to ISO
+ */
+export function toIsoTimestamp(
+  seconds: string | undefined,
+  fallback: Date,
+): string {
+  const value = Number(seconds);
+  return Number.isFinite(value) && value > 0
+    ? new Date(value * ONE_SECOND_MS).toISOString()
+    : fallback.toISOString();
+}
+
+function warnDropped(kind: string): void {
+  logger.warn('[WhatsAppWebhook] Dropping malformed webhook item', { kind });
+}
+
+/**
+ * Sender profiles of the change, keyed by `wa_id`
+ */
+function toContactMap(items: unknown[]): Map<string, WhatsAppContact> {
+  const contacts = new Map<string, WhatsAppContact>();
+  for (const item of items) {
+    const result = ContactSchema.safeParse(item);
+    if (result.success && typeof result.data?.wa_id === 'string') {
+      contacts.set(
+        result.data.wa_id,
+        result.data as unknown as WhatsAppContact,
+      );
+    }
+  }
+  return contacts;
+}
+
+function toMessageEvents(
+  value: ChangeValue,
+  phoneNumberId: string,
+  receivedAt: Date,
+): WebhookEvent[] {
+  const contacts = toContactMap(value.contacts ?? []);
+  return (value.messages ?? []).flatMap((item): WebhookEvent[] => {
+    const result = IncomingMessageSchema.safeParse(item);
+    if (!result.success) {
+      warnDropped('message');
+      return [];
+    }
+    const message = result.data;
+    const contact = contacts.get(message.from);
+    return [
+      {
+        type: 'message_received',
+        timestamp: toIsoTimestamp(message.timestamp, receivedAt),
+        phone_number_id: phoneNumberId,
+        from: message.from,
+        message: message as unknown as MessageReceivedEvent['message'],
+        ...(contact ? { contact } : {}),
+      },
+    ];
+  });
+}
+
+function toReceiptEvent(
+  update: MessageStatusUpdate,
+  base: { timestamp: string; phone_number_id: string },
+): WebhookEvent | null {
+  if (update.status === 'delivered') {
+    return {
+      ...base,
+      type: 'message_delivery',
+      to: update.recipient_id,
+      message_id: update.id,
+      delivery_timestamp: base.timestamp,
+    };
+  }
+  if (update.status === 'read') {
+    return {
+      ...base,
+      type: 'message_read',
+      from: update.recipient_id,
+      message_id: update.id,
+      read_timestamp: base.timestamp,
+    };
+  }
+  return null;
+}
+
+function toStatusEvents(
+  items: unknown[],
+  phoneNumberId: string,
+  receivedAt: Date,
+): WebhookEvent[] {
+  return items.flatMap((item): WebhookEvent[] => {
+    const result = StatusUpdateSchema.safeParse(item);
+    if (!result.success) {
+      warnDropped('status');
+      return [];
+    }
+    const update = result.data as MessageStatusUpdate;
+    const base = {
+      timestamp: toIsoTimestamp(update.timestamp, receivedAt),
+      phone_number_id: phoneNumberId,
+    };
+    const receipt = toReceiptEvent(update, base);
+    return [
+      { ...base, type: 'message_status', status_update: update },
+      ...(receipt ? [receipt] : []),
+    ];
+  });
+}
+
+function toErrorEvents(
+  items: unknown[],
+  phoneNumberId: string,
+  receivedAt: Date,
+): WebhookEvent[] {
+  return items.flatMap((item): WebhookEvent[] => {
+    const result = WebhookErrorSchema.safeParse(item);
+    if (!result.success) {
+      warnDropped('error');
+      return [];
+    }
+    const { code, title, message } = result.data;
+    return [
+      {
+        type: 'webhook_error',
+        timestamp: receivedAt.toISOString(),
+        phone_number_id: phoneNumberId,
+        error: { code, title, message: message ?? title },
+      },
+    ];
+  });
+}
+
+function toChangeEvents(value: ChangeValue, receivedAt: Date): WebhookEvent[] {
+  const phoneNumberId = value.metadata?.phone_number_id ?? '';
+  return [
+    ...toMessageEvents(value, phoneNumberId, receivedAt),
+    ...toStatusEvents(value.statuses ?? [], phoneNumberId, receivedAt),
+    ...toErrorEvents(value.errors ?? [], phoneNumberId, receivedAt),
+  ];
+}
+
+/**
+ * Flatten a webhook payload into typed events
+ *
+ * @param receivedAt - Used when an item carries no timestamp
+ */
+export function normalizeWebhookEvents(
+  body: unknown,
+  receivedAt: Date = new Date(),
+): WebhookEvent[] {
+  const result = WebhookEnvelopeSchema.safeParse(body);
+  if (!result.success || typeof body !== 'object' || body === null) {
+    return [];
+  }
+
+  return (result.data.entry ?? []).flatMap((entry) =>
+    (entry.changes ?? []).flatMap((change) =>
+      change.value ? toChangeEvents(change.value, receivedAt) : [],
+    ),
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * WhatsApp Webhook Processor Registry
+ * Built-in processors are registered by default; custom processors can be
+ * added at startup with `registerWebhookProcessor` and receive every event
+ * of the types they handle.
+ */
+
+import type {
+  WebhookEvent,
+  WebhookEventType,
+  WebhookProcessor,
+} from '@/types/whatsapp-webhook-events';
+import { logger } from '@/lib/logger';
+import { autoReplyProcessor } from '@/lib/whatsapp/auto-reply-processor';
+import { conversationProcessor } from '@/lib/whatsapp/conversations/inbox';
+import { deliveryStatusProcessor } from '@/lib/whatsapp/delivery-status';
+import { mediaIngestionProcessor } from '@/lib/whatsapp/media/ingest';
+import { serviceMonitorProcessor } from '@/lib/whatsapp/service-monitor';
+import {
+  claimProcessorRun,
+  releaseProcessorRun,
+} from '@/lib/whatsapp/webhook-replay-guard';
+
+export const WEBHOOK_PROCESSOR_NAMES = {
+  CONVERSATIONS: 'conversations',
+  AUTO_REPLY: 'auto_reply',
+  MEDIA_INGESTION: 'media_ingestion',
+  DELIVERY_STATUS: 'delivery_status',
+  SERVICE_MONITOR: 'service_monitor',
+} as const;
+
+/**
+ * Conversations run first so inbound messages are stored before replies;
+ * media is downloaded after the auto-reply has gone out
+ */
+const BUILT_IN_PROCESSORS: ReadonlyArray<[string, WebhookProcessor]> = [
+  [WEBHOOK_PROCESSOR_NAMES.CONVERSATIONS, conversationProcessor],
+  [WEBHOOK_PROCESSOR_NAMES.AUTO_REPLY, autoReplyProcessor],
+  [WEBHOOK_PROCESSOR_NAMES.MEDIA_INGESTION, mediaIngestionProcessor],
+  [WEBHOOK_PROCESSOR_NAMES.DELIVERY_STATUS, deliveryStatusProcessor],
+  [WEBHOOK_PROCESSOR_NAMES.SERVICE_MONITOR, serviceMonitorProcessor],
+];
+
+function createRegistry(): Map<string, WebhookProcessor> {
+  return new Map(BUILT_IN_PROCESSORS);
+}
+
+let registry = createRegistry();
+
+/**
+ * Register a processor, replacing any processor with the same name
+ */
+export function registerWebhookProcessor(
+  name: string,
+  processor: WebhookProcessor,
+): void {
+  registry.set(name, processor);
+}
+
+/**
+ * Remove a processor from the registry
+ */
+export function unregisterWebhookProcessor(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function listWebhookProcessors(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Restore the built-in processors (for testing)
+ */
+export function resetWebhookProcessorRegistry(): void {
+  registry = createRegistry();
+}
+
+/**
+ * Processor handler for each event type
+ */
+const HANDLER_KEYS: Record<WebhookEventType, keyof WebhookProcessor> = {
+  message_received: 'onMessageReceived',
+  message_status: 'onMessageStatus',
+  message_read: 'onMessageRead',
+  message_delivery: 'onMessageDelivery',
+  user_status_change: 'onUserStatusChange',
+  account_update: 'onAccountUpdate',
+  template_status: 'onTemplateStatus',
+  phone_number_quality: 'onPhoneNumberQuality',
+  security_event: 'onSecurityEvent',
+  webhook_error: 'onError',
+};
+
+type EventHandler = (event: WebhookEvent) => Promise<void> | void;
+
+/**
+ * Handler for the event's type, if the processor has one
+ */
+function getHandler(
+  processor: WebhookProcessor,
+  event: WebhookEvent,
+): EventHandler | undefined {
+  const key = HANDLER_KEYS[event.type] ?? 'onUnknownEvent';
+  // eslint-disable-next-line security/detect-object-injection -- key is a HANDLER_KEYS value
+  return processor[key] as EventHandler | undefined;
+}
+
+/**
+ * Run one processor on an event it has not handled yet
+ *
+ * @returns false when the processor threw; its claim is released so a
+ * retry of the event runs it again
+ */
+async function runProcessor(
+  name: string,
+  processor: WebhookProcessor,
+  event: WebhookEvent,
+): Promise<boolean> {
+  const handler = getHandler(processor, event);
+  if (!handler || !(await claimProcessorRun(event, name))) return true;
+
+  try {
+    await handler(event);
+    return true;
+  } catch (error) {
+    logger.error(
+      '[WhatsAppWebhook] Processor failed',
+      { processor: name, eventType: event.type },
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    await releaseProcessorRun(event, name);
+    return false;
+  }
+}
+
+export interface WebhookDispatchSummary {
+  events: number;
+  /** Processor invocations that threw */
+  failed: number;
+}
+
+export interface WebhookDispatchResult extends WebhookDispatchSummary {
+  /** Events with at least one failing processor */
+  failedEvents: WebhookEvent[];
+}
+
+/**
+ * Dispatch events to every registered processor, in payload order
+ * A failing processor is logged and does not stop the others. Processors
+ * that already handled an event (before a failure elsewhere made Meta
+ * retry it) are skipped.
+ */
+export async function dispatchWebhookEvents(
+  events: WebhookEvent[],
+): Promise<WebhookDispatchResult> {
+  let failed = 0;
+  const failedEvents = new Set<WebhookEvent>();
+  for (const event of events) {
+    for (const [name, processor] of registry) {
+      if (!(await runProcessor(name, processor, event))) {
+        failed += 1;
+        failedEvents.add(event);
+      }
+    }
+  }
+  return { events: events.length, failed, failedEvents: [...failedEvents] };
+}
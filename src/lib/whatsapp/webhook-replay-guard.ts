@@ -0,0 +1,261 @@
+/**
+ * WhatsApp Webhook Replay Protection
+ *
+ * Meta retries a webhook until it gets a 2xx and may deliver the same
+ * message or status several times, so each event is claimed by its ID in
+ * the shared idempotency store before it reaches the processors. Events
+ * older than the maximum age are dropped as replays.
+ *
+ * Environment:
+ * - WHATSAPP_WEBHOOK_DEDUP_WINDOW_SECONDS: how long an event ID is
+ *   remembered (default 24 hours)
+ * - WHATSAPP_WEBHOOK_MAX_EVENT_AGE_SECONDS: oldest accepted event
+ *   timestamp (default 24 hours); 0 disables the age check
+ *
+ * Claims of events whose processing failed are released, so Meta's retry
+ * of the batch processes them again. Each processor's run of an event is
+ * claimed as well, so the retry only reaches the processors that have not
+ * handled the event yet and side effects such as auto-replies are not
+ * repeated.
+ *
+ * Errors from the store fail open: the event is processed rather than
+ * lost. Counters are per server instance and exposed through
+ * `/api/metrics`.
+ */
+
+import type { WebhookEvent } from '@/types/whatsapp-webhook-events';
+import { claimIdempotencyKey, releaseIdempotencyKey } from '@/lib/idempotency';
+import { logger } from '@/lib/logger';
+import {
+  HOURS_PER_DAY,
+  MILLISECONDS_PER_SECOND,
+  SECONDS_PER_HOUR,
+  ZERO,
+} from '@/constants';
+
+const DEFAULT_WINDOW_SECONDS = HOURS_PER_DAY * SECONDS_PER_HOUR;
+const KEY_PREFIX = 'whatsapp-webhook';
+
+export const WEBHOOK_GUARD_OUTCOMES = {
+  ACCEPTED: 'accepted',
+  DUPLICATE: 'duplicate',
+  STALE: 'stale',
+  STORE_ERROR: 'store_error',
+} as const;
+
+export type WebhookGuardOutcome =
+  (typeof WEBHOOK_GUARD_OUTCOMES)[keyof typeof WEBHOOK_GUARD_OUTCOMES];
+
+export type WebhookGuardStats = Record<WebhookGuardOutcome, number>;
+
+export interface WebhookGuardConfig {
+  /** How long an event ID is remembered */
+  dedupWindowMs: number;
+  /** Oldest accepted event age; 0 disables the check */
+  maxEventAgeMs: number;
+}
+
+export interface WebhookGuardResult {
+  /** Events to dispatch */
+  events: WebhookEvent[];
+  duplicates: number;
+  stale: number;
+}
+
+function createStats(): WebhookGuardStats {
+  return {
+    [WEBHOOK_GUARD_OUTCOMES.ACCEPTED]: ZERO,
+    [WEBHOOK_GUARD_OUTCOMES.DUPLICATE]: ZERO,
+    [WEBHOOK_GUARD_OUTCOMES.STALE]: ZERO,
+    [WEBHOOK_GUARD_OUTCOMES.STORE_ERROR]: ZERO,
+  };
+}
+
+let stats = createStats();
+
+function readSeconds(value: string | undefined, fallback: number): number {
+  const seconds = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(seconds) && seconds >= ZERO ? seconds : fallback;
+}
+
+/**
+ * Read the replay protection configuration from the environment
+ */
+export function getWebhookGuardConfig(): WebhookGuardConfig {
+  return {
+    dedupWindowMs:
+      Math.max(
+        readSeconds(
+          process.env.WHATSAPP_WEBHOOK_DEDUP_WINDOW_SECONDS,
+          DEFAULT_WINDOW_SECONDS,
+        ),
+        1,
+      ) * MILLISECONDS_PER_SECOND,
+    maxEventAgeMs:
+      readSeconds(
+        process.env.WHATSAPP_WEBHOOK_MAX_EVENT_AGE_SECONDS,
+        DEFAULT_WINDOW_SECONDS,
+      ) * MILLISECONDS_PER_SECOND,
+  };
+}
+
+/**
+ * Identity an event is deduplicated on
+ *
+ * @returns null for events without a stable ID (errors, account updates)
+ */
+export function getWebhookEventKey(event: WebhookEvent): string | null {
+  switch (event.type) {
+    case 'message_received':
+      return event.message.id ? `message:${event.message.id}` : null;
+    case 'message_status':
+      return `status:${event.status_update.id}:${event.status_update.status}`;
+    case 'message_delivery':
+      return `delivery:${event.message_id}`;
+    case 'message_read':
+      return `read:${event.message_id}`;
+    default:
+      return null;
+  }
+}
+
+function isStale(
+  event: WebhookEvent,
+  config: WebhookGuardConfig,
+  now: Date,
+): boolean {
+  if (config.maxEventAgeMs === ZERO) return false;
+  const timestamp = Date.parse(event.timestamp);
+  return (
+    Number.isFinite(timestamp) &&
+    now.getTime() - timestamp > config.maxEventAgeMs
+  );
+}
+
+async function claimEvent(
+  key: string,
+  config: WebhookGuardConfig,
+): Promise<boolean> {
+  try {
+    return await claimIdempotencyKey(
+      `${KEY_PREFIX}:${key}`,
+      config.dedupWindowMs,
+    );
+  } catch (error) {
+    stats[WEBHOOK_GUARD_OUTCOMES.STORE_ERROR] += 1;
+    logger.warn('[WhatsAppWebhook] Dedup store unavailable, processing event', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return true;
+  }
+}
+
+/**
+ * Drop replayed and stale events from a webhook batch
+ */
+export async function filterReplayedEvents(
+  events: WebhookEvent[],
+  now: Date = new Date(),
+): Promise<WebhookGuardResult> {
+  const config = getWebhookGuardConfig();
+  const result: WebhookGuardResult = { events: [], duplicates: 0, stale: 0 };
+
+  for (const event of events) {
+    if (isStale(event, config, now)) {
+      result.stale += 1;
+      continue;
+    }
+    const key = getWebhookEventKey(event);
+    if (key && !(await claimEvent(key, config))) {
+      result.duplicates += 1;
+      continue;
+    }
+    result.events.push(event);
+  }
+
+  stats[WEBHOOK_GUARD_OUTCOMES.ACCEPTED] += result.events.length;
+  stats[WEBHOOK_GUARD_OUTCOMES.DUPLICATE] += result.duplicates;
+  stats[WEBHOOK_GUARD_OUTCOMES.STALE] += result.stale;
+  if (result.duplicates > 0 || result.stale > 0) {
+    logger.info('[WhatsAppWebhook] Dropped replayed events', {
+      duplicates: result.duplicates,
+      stale: result.stale,
+    });
+  }
+  return result;
+}
+
+/**
+ * Release the claims of events whose processing failed
+ * A retry of the batch then processes them again. Store errors are logged;
+ * the event stays claimed until the dedup window passes.
+ */
+export async function releaseWebhookEvents(
+  events: WebhookEvent[],
+): Promise<void> {
+  for (const event of events) {
+    const key = getWebhookEventKey(event);
+    if (!key) continue;
+    try {
+      await releaseIdempotencyKey(`${KEY_PREFIX}:${key}`);
+    } catch (error) {
+      logger.warn('[WhatsAppWebhook] Failed to release event claim', {
+        key,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+function getProcessorRunKey(event: WebhookEvent, processor: string) {
+  const key = getWebhookEventKey(event);
+  return key ? `${key}:processor:${processor}` : null;
+}
+
+/**
+ * Claim one processor's run of an event
+ *
+ * @returns false when the processor already handled the event; events
+ * without a stable ID are always run
+ */
+export function claimProcessorRun(
+  event: WebhookEvent,
+  processor: string,
+): Promise<boolean> {
+  const key = getProcessorRunKey(event, processor);
+  return key ? claimEvent(key, getWebhookGuardConfig()) : Promise.resolve(true);
+}
+
+/**
+ * Release a processor's claim after it failed, so the retry runs it again
+ */
+export async function releaseProcessorRun(
+  event: WebhookEvent,
+  processor: string,
+): Promise<void> {
+  const key = getProcessorRunKey(event, processor);
+  if (!key) return;
+  try {
+    await releaseIdempotencyKey(`${KEY_PREFIX}:${key}`);
+  } catch (error) {
+    logger.warn('[WhatsAppWebhook] Failed to release processor claim', {
+      key,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Event counters by outcome since the instance started
+ */
+export function getWebhookGuardStats(): WebhookGuardStats {
+  return { ...stats };
+}
+
+/**
+ * Reset counters (for testing)
+ */
+export function resetWebhookGuardStats(): void {
+  stats = createStats();
+}
@@ -0,0 +1,590 @@
+/**
+ * WhatsApp Cloud API Simulator
+ *
+ * Local HTTP stand-in for the Graph API endpoints this app calls, so the
+ * real client, webhook signature verification and the webhook route can be
+ * tested together offline from Vitest or Playwright.
+ *
+ * - POST   /<version>/<phone-number-id>/messages  send (recorded)
+ * - GET    /<version>/<phone-number-id>           phone number probe
+ * - POST   /<version>/<phone-number-id>/media     media upload
+ * - GET    /<version>/<media-id>                  media info
+ * - DELETE /<version>/<media-id>                  media delete
+ * - GET    /media/<media-id>                      media download
+ *
+ * Point the app at it with `WHATSAPP_GRAPH_API_URL=<simulator.url>`.
+ * Error responses use the Graph API error shape and codes; queue them with
+ * `failNext()`. Webhooks are signed with the app secret like Meta does
+ * (`X-Hub-Signature-256`) and posted with `deliverWebhook()`.
+ *
+ * Run standalone (e.g. next to Playwright's web server) with
+ * `pnpm whatsapp:simulator`; tests then drive it over HTTP:
+ *
+ * - GET  /__simulator/messages  sent messages
+ * - POST /__simulator/failures  `{ "error": "RATE_LIMITED", "times": 1 }`
+ * - POST /__simulator/webhooks  `{ "from": "...", "text": "..." }` or a
+ *   full webhook payload; signs and delivers it, returns the app's status
+ * - POST /__simulator/reset
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import type { WhatsAppApiError } from '@/types/whatsapp-api-errors';
+import type {
+  MessageStatus,
+  WhatsAppMessage,
+} from '@/types/whatsapp-base-types';
+import type { WebhookPayload } from '@/types/whatsapp-webhook-base';
+
+interface SimulatedErrorPreset {
+  status: number;
+  code: number;
+  type: string;
+  message: string;
+  isTransient?: boolean;
+}
+
+/**
+ * Cloud API errors the simulator can return
+ *
+ * @see https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+ */
+export const SIMULATED_API_ERRORS = {
+  INVALID_TOKEN: {
+    status: 401,
+    code: 190,
+    type: 'OAuthException',
+    message: 'Invalid OAuth access token - Cannot parse access token',
+  },
+  INVALID_PARAMETER: {
+    status: 400,
+    code: 100,
+    type: 'OAuthException',
+    message: '(#100) Invalid parameter',
+  },
+  RATE_LIMITED: {
+    status: 429,
+    code: 130429,
+    type: 'OAuthException',
+    message: '(#130429) Rate limit hit',
+    isTransient: true,
+  },
+  RECIPIENT_UNAVAILABLE: {
+    status: 400,
+    code: 131026,
+    type: 'OAuthException',
+    message: '(#131026) Message undeliverable',
+  },
+  TEMPLATE_NOT_FOUND: {
+    status: 404,
+    code: 132001,
+    type: 'OAuthException',
+    message: '(#132001) Template name does not exist in the translation',
+  },
+  SERVICE_UNAVAILABLE: {
+    status: 503,
+    code: 2,
+    type: 'OAuthException',
+    message: 'Service temporarily unavailable',
+    isTransient: true,
+  },
+} as const satisfies Record<string, SimulatedErrorPreset>;
+
+export type SimulatedApiError = keyof typeof SIMULATED_API_ERRORS;
+
+export interface WhatsAppSimulatorOptions {
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+  accessToken?: string;
+  phoneNumberId?: string;
+  displayPhoneNumber?: string;
+  /** Secret used to sign webhooks (the app's WHATSAPP_APP_SECRET) */
+  appSecret?: string;
+  /** Default webhook URL for `deliverWebhook()` */
+  webhookUrl?: string;
+  /** Approved template names; any name is accepted when omitted */
+  templates?: string[];
+}
+
+/**
+ * A message the app sent through the simulator
+ */
+export interface SimulatedSend {
+  id: string;
+  to: string;
+  type: string;
+  payload: Record<string, unknown>;
+  /** ISO timestamp */
+  receivedAt: string;
+}
+
+interface SimulatedMedia {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface InboundMediaOptions {
+  from: string;
+  mediaId: string;
+  kind: 'image' | 'document';
+  caption?: string;
+  filename?: string;
+}
+
+const DEFAULT_OPTIONS = {
+  port: 0,
+  accessToken: 'simulator-access-token',
+  phoneNumberId: '100000000000001',
+  displayPhoneNumber: '15550000001',
+  appSecret: 'simulator-app-secret',
+};
+
+const GRAPH_VERSION_PATTERN = /^v\d+\.\d+$/;
+const CONTROL_PREFIX = '/__simulator/';
+const HTTP_OK = 200;
+const HTTP_NOT_FOUND = 404;
+
+function nowSeconds(): string {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendApiError(res: ServerResponse, name: SimulatedApiError): void {
+  const preset: SimulatedErrorPreset = SIMULATED_API_ERRORS[name];
+  const body: WhatsAppApiError = {
+    error: {
+      message: preset.message,
+      type: preset.type,
+      code: preset.code,
+      fbtrace_id: randomBytes(8).toString('hex'),
+      ...(preset.isTransient !== undefined && {
+        is_transient: preset.isTransient,
+      }),
+    },
+  };
+  sendJson(res, preset.status, body);
+}
+
+function isSimulatedApiError(value: unknown): value is SimulatedApiError {
+  return (
+    typeof value === 'string' && Object.hasOwn(SIMULATED_API_ERRORS, value)
+  );
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseJson(body: Buffer): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(body.toString('utf8'));
+    return parsed && typeof parsed === 'object'
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Local WhatsApp Cloud API
+ */
+export class WhatsAppCloudApiSimulator {
+  readonly sentMessages: SimulatedSend[] = [];
+  private readonly options: typeof DEFAULT_OPTIONS &
+    Pick<WhatsAppSimulatorOptions, 'webhookUrl' | 'templates'>;
+  private readonly media = new Map<string, SimulatedMedia>();
+  private pendingFailures: SimulatedApiError[] = [];
+  private server: Server | null = null;
+  private port = 0;
+  private sequence = 0;
+
+  constructor(options: WhatsAppSimulatorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get accessToken(): string {
+    return this.options.accessToken;
+  }
+
+  get phoneNumberId(): string {
+    return this.options.phoneNumberId;
+  }
+
+  get appSecret(): string {
+    return this.options.appSecret;
+  }
+
+  /** Base URL for WHATSAPP_GRAPH_API_URL */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(() => {
+        sendApiError(res, 'SERVICE_UNAVAILABLE');
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(this.options.port, '127.0.0.1', resolve);
+    });
+    this.server = server;
+    this.port = (server.address() as AddressInfo).port;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const { server } = this;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Forget sent messages, media and queued failures
+   */
+  reset(): void {
+    this.sentMessages.length = 0;
+    this.media.clear();
+    this.pendingFailures = [];
+  }
+
+  /**
+   * Answer the next `times` API calls with an error
+   */
+  failNext(error: SimulatedApiError, times: number = 1): void {
+    for (let i = 0; i < times; i += 1) this.pendingFailures.push(error);
+  }
+
+  /**
+   * Make a file available for media info and download calls
+   */
+  addMedia(mediaId: string, data: Buffer, mimeType: string): void {
+    this.media.set(mediaId, { data, mimeType });
+  }
+
+  // ==================== Webhooks ====================
+
+  /**
+   * Wrap messages or statuses in the payload Meta posts to webhooks
+   */
+  buildWebhookPayload(
+    value: Pick<
+      WebhookPayload['entry'][number]['changes'][number]['value'],
+      'contacts' | 'messages' | 'statuses'
+    >,
+  ): WebhookPayload {
+    return {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: 'simulated-waba',
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: {
+                  display_phone_number: this.options.displayPhoneNumber,
+                  phone_number_id: this.options.phoneNumberId,
+                },
+                ...value,
+              },
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  buildInboundMessage(
+    from: string,
+    message: Omit<WhatsAppMessage, 'id' | 'from' | 'timestamp'>,
+    profileName: string = 'Simulated Customer',
+  ): WebhookPayload {
+    return this.buildWebhookPayload({
+      contacts: [{ input: from, wa_id: from, profile: { name: profileName } }],
+      messages: [
+        {
+          id: this.nextMessageId(),
+          from,
+          timestamp: nowSeconds(),
+          ...message,
+        },
+      ],
+    });
+  }
+
+  buildInboundText(from: string, text: string): WebhookPayload {
+    return this.buildInboundMessage(from, {
+      type: 'text',
+      text: { body: text },
+    });
+  }
+
+  /**
+   * Inbound image or document; register the bytes with `addMedia()` first
+   */
+  buildInboundMedia(options: InboundMediaOptions): WebhookPayload {
+    const media = this.media.get(options.mediaId);
+    const attachment = {
+      id: options.mediaId,
+      mime_type: media?.mimeType ?? 'application/octet-stream',
+      sha256: media
+        ? createHash('sha256').update(media.data).digest('hex')
+        : '',
+      ...(options.caption !== undefined && { caption: options.caption }),
+    };
+    return this.buildInboundMessage(
+      options.from,
+      options.kind === 'image'
+        ? { type: 'image', image: attachment }
+        : {
+            type: 'document',
+            document: { ...attachment, filename: options.filename ?? '' },
+          },
+    );
+  }
+
+  buildStatus(
+    messageId: string,
+    status: MessageStatus,
+    recipientId?: string,
+  ): WebhookPayload {
+    const sent = this.sentMessages.find((item) => item.id === messageId);
+    return this.buildWebhookPayload({
+      statuses: [
+        {
+          id: messageId,
+          status,
+          timestamp: nowSeconds(),
+          recipient_id: recipientId ?? sent?.to ?? '',
+        },
+      ],
+    });
+  }
+
+  /**
+   * `X-Hub-Signature-256` header value for a raw webhook body
+   */
+  sign(body: string): string {
+    return `sha256=${createHmac('sha256', this.options.appSecret).update(body).digest('hex')}`;
+  }
+
+  /**
+   * POST a signed webhook to the app
+   */
+  deliverWebhook(
+    payload: WebhookPayload,
+    webhookUrl: string | undefined = this.options.webhookUrl,
+  ): Promise<Response> {
+    if (!webhookUrl) {
+      return Promise.reject(new Error('No webhook URL configured'));
+    }
+    const body = JSON.stringify(payload);
+    return fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-hub-signature-256': this.sign(body),
+      },
+      body,
+    });
+  }
+
+  // ==================== Graph API ====================
+
+  private nextMessageId(): string {
+    this.sequence += 1;
+    return `wamid.SIM${Date.now().toString(36)}${this.sequence}`;
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    return req.headers.authorization === `Bearer ${this.options.accessToken}`;
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', this.url);
+    if (pathname.startsWith(CONTROL_PREFIX)) {
+      await this.handleControl(req, res, pathname.slice(CONTROL_PREFIX.length));
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      sendApiError(res, 'INVALID_TOKEN');
+      return;
+    }
+    const failure = this.pendingFailures.shift();
+    if (failure) {
+      sendApiError(res, failure);
+      return;
+    }
+
+    const segments = pathname.split('/').filter(Boolean);
+    const [first = '', id = '', resource] = segments;
+
+    if (first === 'media' && req.method === 'GET') {
+      this.downloadMedia(id, res);
+    } else if (!GRAPH_VERSION_PATTERN.test(first) || !id) {
+      sendJson(res, HTTP_NOT_FOUND, { error: 'Unknown path' });
+    } else if (id === this.options.phoneNumberId) {
+      await this.handlePhoneNumber(req, res, resource);
+    } else {
+      this.handleMedia(req, res, id);
+    }
+  }
+
+  private async handleControl(
+    req: IncomingMessage,
+    res: ServerResponse,
+    action: string,
+  ): Promise<void> {
+    if (action === 'messages' && req.method === 'GET') {
+      sendJson(res, HTTP_OK, { messages: this.sentMessages });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, HTTP_NOT_FOUND, { error: 'Unknown control action' });
+      return;
+    }
+    const body = parseJson(await readBody(req)) ?? {};
+    if (action === 'reset') {
+      this.reset();
+      sendJson(res, HTTP_OK, { success: true });
+    } else if (action === 'failures' && isSimulatedApiError(body.error)) {
+      this.failNext(
+        body.error,
+        typeof body.times === 'number' ? body.times : 1,
+      );
+      sendJson(res, HTTP_OK, { success: true });
+    } else if (action === 'webhooks') {
+      const payload =
+        typeof body.from === 'string' && typeof body.text === 'string'
+          ? this.buildInboundText(body.from, body.text)
+          : (body as unknown as WebhookPayload);
+      const response = await this.deliverWebhook(payload);
+      sendJson(res, HTTP_OK, { status: response.status });
+    } else {
+      sendJson(res, HTTP_NOT_FOUND, { error: 'Unknown control action' });
+    }
+  }
+
+  private async handlePhoneNumber(
+    req: IncomingMessage,
+    res: ServerResponse,
+    resource: string | undefined,
+  ): Promise<void> {
+    if (resource === 'messages' && req.method === 'POST') {
+      this.acceptSend(parseJson(await readBody(req)), res);
+    } else if (resource === 'media' && req.method === 'POST') {
+      await readBody(req);
+      sendJson(res, HTTP_OK, { id: `sim-media-${this.nextMessageId()}` });
+    } else if (resource === undefined && req.method === 'GET') {
+      sendJson(res, HTTP_OK, {
+        id: this.options.phoneNumberId,
+        display_phone_number: this.options.displayPhoneNumber,
+        code_verification_status: 'VERIFIED',
+        quality_rating: 'GREEN',
+      });
+    } else {
+      sendApiError(res, 'INVALID_PARAMETER');
+    }
+  }
+
+  private acceptSend(
+    payload: Record<string, unknown> | null,
+    res: ServerResponse,
+  ): void {
+    const to = typeof payload?.to === 'string' ? payload.to : '';
+    const type = typeof payload?.type === 'string' ? payload.type : '';
+    if (!payload || payload.messaging_product !== 'whatsapp' || !to || !type) {
+      sendApiError(res, 'INVALID_PARAMETER');
+      return;
+    }
+    if (!this.isKnownTemplate(payload)) {
+      sendApiError(res, 'TEMPLATE_NOT_FOUND');
+      return;
+    }
+
+    const id = this.nextMessageId();
+    this.sentMessages.push({
+      id,
+      to,
+      type,
+      payload,
+      receivedAt: new Date().toISOString(),
+    });
+    sendJson(res, HTTP_OK, {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: to, wa_id: to.replace(/\D/g, '') }],
+      messages: [{ id }],
+    });
+  }
+
+  private isKnownTemplate(payload: Record<string, unknown>): boolean {
+    const { templates } = this.options;
+    if (payload.type !== 'template' || !templates) return true;
+    const template = payload.template as { name?: unknown } | undefined;
+    return (
+      typeof template?.name === 'string' && templates.includes(template.name)
+    );
+  }
+
+  private handleMedia(
+    req: IncomingMessage,
+    res: ServerResponse,
+    mediaId: string,
+  ): void {
+    const media = this.media.get(mediaId);
+    if (!media) {
+      sendApiError(res, 'INVALID_PARAMETER');
+      return;
+    }
+    if (req.method === 'DELETE') {
+      this.media.delete(mediaId);
+      sendJson(res, HTTP_OK, { success: true });
+      return;
+    }
+    sendJson(res, HTTP_OK, {
+      messaging_product: 'whatsapp',
+      id: mediaId,
+      url: `${this.url}/media/${encodeURIComponent(mediaId)}`,
+      mime_type: media.mimeType,
+      sha256: createHash('sha256').update(media.data).digest('hex'),
+      file_size: media.data.length,
+    });
+  }
+
+  private downloadMedia(mediaId: string, res: ServerResponse): void {
+    const media = this.media.get(decodeURIComponent(mediaId));
+    if (!media) {
+      sendJson(res, HTTP_NOT_FOUND, { error: 'Media not found' });
+      return;
+    }
+    res.writeHead(HTTP_OK, {
+      'content-type': media.mimeType,
+      'content-length': String(media.data.length),
+    });
+    res.end(media.data);
+  }
+}
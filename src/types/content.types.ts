@@ -40,6 +40,15 @@ export interface PageMetadata extends ContentMetadata {
   lastReviewed?: string;
 }
 
+// Table of contents entry, extracted at manifest generation time
+export interface TocEntry {
+  /** Heading anchor, unique within the document */
+  id: string;
+  /** Heading text without markdown syntax */
+  text: string;
+  depth: 2 | 3;
+}
+
 // Content with parsed frontmatter and content
 export interface ParsedContent<T extends ContentMetadata = ContentMetadata> {
   metadata: T;
@@ -94,6 +103,7 @@ export interface ContentQueryOptions {
   sortOrder?: 'asc' | 'desc';
   tags?: string[];
   categories?: string[];
+  authors?: string[];
   featured?: boolean;
   draft?: boolean;
 }
@@ -113,6 +123,7 @@ export interface PostSummary {
   description?: string;
   publishedAt: string;
   updatedAt?: string;
+  author?: string;
   tags?: string[];
   categories?: string[];
   featured?: boolean;
@@ -237,6 +248,7 @@ export interface PostListOptions {
   sortOrder?: ContentQueryOptions['sortOrder'];
   tags?: string[];
   categories?: string[];
+  authors?: string[];
   featured?: boolean;
   draft?: boolean;
 }
@@ -295,6 +307,8 @@ export interface ContentConfig {
   postsPerPage: number;
   enableDrafts: boolean;
   enableSearch: boolean;
+  /** Blog feeds embed the full post or only its excerpt */
+  feedContent: 'full' | 'excerpt';
   autoGenerateExcerpt: boolean;
   excerptLength: number;
   dateFormat: string;
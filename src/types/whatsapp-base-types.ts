@@ -11,6 +11,10 @@ import { ZERO } from '@/constants';
 export interface WhatsAppContact {
   input: string;
   wa_id: string;
+  /** Sender profile, present on webhook contacts */
+  profile?: {
+    name: string;
+  };
 }
 
 export interface WhatsAppMessage {
@@ -107,6 +107,31 @@ export interface TemplateValidationResult {
   warnings: string[];
 }
 
+// Template Registry Types
+export interface TemplateParameterSchema {
+  type: TemplateParameterType;
+  /** Sample value from the approved template */
+  example?: string;
+}
+
+export interface TemplateButtonSchema {
+  sub_type: ButtonSubType;
+  /** Position of the button in the template */
+  index: number;
+  /** Empty for static buttons; one text parameter for a dynamic URL */
+  parameters: TemplateParameterSchema[];
+}
+
+export interface TemplateDefinition {
+  name: string;
+  /** Approved language codes, e.g. `en` or `zh_CN` */
+  languages: string[];
+  category?: string;
+  header?: TemplateParameterSchema[];
+  body: TemplateParameterSchema[];
+  buttons?: TemplateButtonSchema[];
+}
+
 // Template Parameter Builder Helpers
 export interface TextParameterBuilder {
   type: 'text';
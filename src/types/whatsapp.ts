@@ -64,6 +64,9 @@ export {
   type ButtonComponent,
   type TemplateBuilder,
   type TemplateValidationResult,
+  type TemplateParameterSchema,
+  type TemplateButtonSchema,
+  type TemplateDefinition,
   type TextParameterBuilder,
   type CurrencyParameterBuilder,
   type DateTimeParameterBuilder,
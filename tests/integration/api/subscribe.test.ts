@@ -3,6 +3,11 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import * as route from '@/app/api/subscribe/route';
 import { API_ERROR_CODES } from '@/constants/api-error-codes';
 
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn(),
+}));
+
 vi.mock('@/lib/security/distributed-rate-limit', () => ({
   checkDistributedRateLimit: vi.fn(async () => ({
     allowed: true,
@@ -19,6 +24,7 @@ vi.mock('@/app/api/contact/contact-api-utils', () => ({
 }));
 
 vi.mock('@/lib/lead-pipeline', () => ({
+  drainLeadOutboxInBackground: vi.fn(),
   processLead: vi.fn(async () => ({
     success: true,
     referenceId: 'ref-123',
@@ -9,6 +9,8 @@ vi.mock('@/lib/whatsapp-service', () => ({
     success: true,
     data: { messages: [{ id: 'mid-1' }] },
   })),
+  recordAcceptedMessage: vi.fn(async () => {}),
+  recordOutboundMessage: vi.fn(async () => {}),
   getClientEnvironmentInfo: vi.fn(() => ({
     environment: 'test',
     clientType: 'mock',
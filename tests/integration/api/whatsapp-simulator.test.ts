@@ -0,0 +1,228 @@
+import { File as NodeFile } from 'buffer';
+import { NextRequest } from 'next/server';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import type { WebhookPayload } from '@/types/whatsapp-webhook-base';
+import { resetWhatsAppClient } from '@/lib/whatsapp/client-factory';
+import { MemoryConversationStore } from '@/lib/whatsapp/conversations/memory-store';
+import {
+  resetConversationStore,
+  setConversationStore,
+} from '@/lib/whatsapp/conversations/store';
+import {
+  getWhatsAppDeliveryStatus,
+  resetWhatsAppDeliveryStore,
+} from '@/lib/whatsapp/delivery-status';
+import { MemoryMediaStorage } from '@/lib/whatsapp/media/memory-storage';
+import {
+  resetMediaStorage,
+  setMediaStorage,
+} from '@/lib/whatsapp/media/storage';
+import { RealWhatsAppClient } from '@/lib/whatsapp/real-client';
+import { POST } from '@/app/api/whatsapp/webhook/route';
+import { WhatsAppCloudApiSimulator } from '@/test/whatsapp-cloud-api-simulator';
+
+vi.mock('@/lib/security/distributed-rate-limit', () => ({
+  checkDistributedRateLimit: vi.fn(async () => ({
+    allowed: true,
+    remaining: 100,
+    resetTime: Date.now() + 60000,
+    retryAfter: null,
+  })),
+  createRateLimitHeaders: vi.fn(() => new Headers()),
+  getRateLimitStoreKind: vi.fn(() => 'memory'),
+}));
+
+const CUSTOMER = '8613800000000';
+const PDF_BYTES = Buffer.from('%PDF-1.7\nsimulated drawing');
+
+describe('WhatsApp Cloud API simulator (end to end)', () => {
+  const simulator = new WhatsAppCloudApiSimulator({
+    templates: ['order_update'],
+  });
+  let conversations: MemoryConversationStore;
+
+  const createClient = () =>
+    new RealWhatsAppClient({
+      accessToken: simulator.accessToken,
+      phoneNumberId: simulator.phoneNumberId,
+    });
+
+  const postWebhook = (payload: WebhookPayload, signature?: string) => {
+    const body = JSON.stringify(payload);
+    return POST(
+      new NextRequest(
+        new Request('http://localhost/api/whatsapp/webhook', {
+          method: 'POST',
+          headers: { 'x-hub-signature-256': signature ?? simulator.sign(body) },
+          body,
+        }),
+      ),
+    );
+  };
+
+  beforeAll(async () => {
+    await simulator.start();
+  });
+
+  afterAll(async () => {
+    await simulator.stop();
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('WHATSAPP_GRAPH_API_URL', simulator.url);
+    vi.stubEnv('WHATSAPP_ACCESS_TOKEN', simulator.accessToken);
+    vi.stubEnv('WHATSAPP_PHONE_NUMBER_ID', simulator.phoneNumberId);
+    vi.stubEnv('WHATSAPP_APP_SECRET', simulator.appSecret);
+    vi.stubGlobal('File', NodeFile);
+    conversations = new MemoryConversationStore();
+    setConversationStore(conversations);
+    setMediaStorage(new MemoryMediaStorage());
+    resetWhatsAppClient();
+  });
+
+  afterEach(() => {
+    simulator.reset();
+    resetConversationStore();
+    resetMediaStorage();
+    resetWhatsAppDeliveryStore();
+    resetWhatsAppClient();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe('sending', () => {
+    it('records messages sent by the real client', async () => {
+      const result = await createClient().sendTextMessage(CUSTOMER, 'Hello');
+
+      expect(result.success).toBe(true);
+      expect(simulator.sentMessages).toHaveLength(1);
+      expect(simulator.sentMessages[0]).toMatchObject({
+        id: result.data?.messages[0]?.id,
+        to: CUSTOMER,
+        type: 'text',
+        payload: { text: { body: 'Hello' } },
+      });
+    });
+
+    it('returns queued Cloud API errors', async () => {
+      simulator.failNext('RATE_LIMITED');
+      const client = createClient();
+
+      const limited = await client.sendTextMessage(CUSTOMER, 'Hello');
+      const retried = await client.sendTextMessage(CUSTOMER, 'Hello');
+
+      expect(limited).toMatchObject({
+        success: false,
+        error: '(#130429) Rate limit hit',
+      });
+      expect(retried.success).toBe(true);
+    });
+
+    it('rejects an invalid access token', async () => {
+      const client = new RealWhatsAppClient({
+        accessToken: 'wrong-token',
+        phoneNumberId: simulator.phoneNumberId,
+      });
+
+      const result = await client.sendTextMessage(CUSTOMER, 'Hello');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid OAuth access token');
+      expect(simulator.sentMessages).toHaveLength(0);
+    });
+
+    it('rejects templates that are not approved', async () => {
+      const result = await createClient().sendTemplateMessage({
+        to: CUSTOMER,
+        templateName: 'unknown_template',
+        languageCode: 'en',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('#132001');
+    });
+
+    it('is controllable over HTTP', async () => {
+      await fetch(`${simulator.url}/__simulator/failures`, {
+        method: 'POST',
+        body: JSON.stringify({ error: 'SERVICE_UNAVAILABLE' }),
+      });
+
+      const failed = await createClient().sendTextMessage(CUSTOMER, 'Hi');
+      await createClient().sendTextMessage(CUSTOMER, 'Hi again');
+      const response = await fetch(`${simulator.url}/__simulator/messages`);
+      const { messages } = (await response.json()) as {
+        messages: Array<{ to: string }>;
+      };
+
+      expect(failed.success).toBe(false);
+      expect(messages).toEqual([expect.objectContaining({ to: CUSTOMER })]);
+    });
+  });
+
+  describe('webhooks', () => {
+    it('delivers signed inbound messages to the conversation inbox', async () => {
+      const response = await postWebhook(
+        simulator.buildInboundText(CUSTOMER, 'Do you ship to Chile?'),
+      );
+
+      const thread = await conversations.getThread(CUSTOMER, 10);
+      expect(response.status).toBe(200);
+      expect(thread?.messages[0]).toMatchObject({
+        direction: 'inbound',
+        text: 'Do you ship to Chile?',
+      });
+    });
+
+    it('rejects webhooks signed with another secret', async () => {
+      const response = await postWebhook(
+        simulator.buildInboundText(CUSTOMER, 'Hello'),
+        'sha256=0000',
+      );
+
+      expect(response.status).toBe(401);
+      expect(await conversations.getThread(CUSTOMER, 10)).toBeNull();
+    });
+
+    it('tracks delivery statuses of sent messages', async () => {
+      const sent = await createClient().sendTextMessage(CUSTOMER, 'Quote');
+      const messageId = sent.data?.messages[0]?.id ?? '';
+
+      await postWebhook(simulator.buildStatus(messageId, 'delivered'));
+
+      expect(await getWhatsAppDeliveryStatus(messageId)).toMatchObject({
+        recipientId: CUSTOMER,
+        status: 'delivered',
+      });
+    });
+
+    it('lets the app download inbound media from the simulator', async () => {
+      simulator.addMedia('media-1', PDF_BYTES, 'application/pdf');
+
+      await postWebhook(
+        simulator.buildInboundMedia({
+          from: CUSTOMER,
+          mediaId: 'media-1',
+          kind: 'document',
+          filename: 'drawing.pdf',
+        }),
+      );
+
+      const thread = await conversations.getThread(CUSTOMER, 10);
+      expect(thread?.messages[0]?.media?.ingestion).toMatchObject({
+        status: 'stored',
+        mimeType: 'application/pdf',
+        size: PDF_BYTES.length,
+      });
+    });
+  });
+});
@@ -7,7 +7,7 @@ vi.mock('@/lib/whatsapp-service', () => ({
     return mode === 'subscribe' && token === 'token' ? challenge : null;
   }),
   verifyWebhookSignature: vi.fn(() => true),
-  handleIncomingMessage: vi.fn(async () => {}),
+  processWebhookPayload: vi.fn(async () => ({})),
 }));
 
 describe('api/whatsapp/webhook', () => {